@@ -0,0 +1,39 @@
+/**
+ * @file app/(dashboard)/audit/page.tsx
+ * @module audit
+ * @description Page du journal d'audit : qui a modifié quoi et quand dans le
+ *   workspace actif (posts, campagnes, comptes connectés, médias, signatures).
+ *   Lisible par tous les membres ; le journal est en ajout seul.
+ *
+ * @example
+ *   // Accessible via la sidebar : /audit
+ */
+
+import { Separator } from '@/components/ui/separator'
+import { AuditLog } from '@/modules/audit/components/AuditLog'
+
+// ─── Page ─────────────────────────────────────────────────────────────────────
+
+/**
+ * Page /audit — journal filtrable du workspace actif.
+ *
+ * @returns En-tête + journal (Client Component)
+ */
+export default function AuditPage(): React.JSX.Element {
+  return (
+    <div className="container max-w-3xl py-8 space-y-8">
+      {/* ── En-tête ────────────────────────────────────────────────────── */}
+      <div className="space-y-1">
+        <h1 className="text-2xl font-bold tracking-tight">Journal</h1>
+        <p className="text-sm text-muted-foreground">
+          Historique des créations, modifications et suppressions du workspace,
+          par membre ou par publication automatique.
+        </p>
+      </div>
+
+      <Separator />
+
+      <AuditLog />
+    </div>
+  )
+}
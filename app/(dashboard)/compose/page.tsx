@@ -1,6 +1,6 @@
 /**
  * @file app/(dashboard)/compose/page.tsx
- * @description Page /compose — liste des posts DRAFT+SCHEDULED de l'utilisateur.
+ * @description Page /compose — liste des posts DRAFT+SCHEDULED du workspace actif.
  *
  *   Charge les 25 premiers posts côté serveur (Server Component) via Prisma direct.
  *   Rend PostComposeList (Client Component) avec les posts et le curseur initiaux.
@@ -24,6 +24,7 @@ import { Suspense } from 'react'
 
 import { auth } from '@/lib/auth'
 import { prisma } from '@/lib/prisma'
+import { getWorkspaceContext } from '@/lib/workspace'
 import { PostComposeList } from '@/modules/posts/components/PostComposeList'
 import { PostComposeListSkeleton } from '@/modules/posts/components/PostComposeList/PostComposeListSkeleton'
 import type { Post } from '@/modules/posts/types'
@@ -49,29 +50,37 @@ interface InitialPostsResult {
 }
 
 /**
- * Charge les 25 premiers posts DRAFT+SCHEDULED de l'utilisateur.
+ * Charge les 25 premiers posts DRAFT+SCHEDULED du workspace.
  * Tri : scheduledFor DESC NULLS LAST, puis createdAt DESC (cohérent avec l'API).
  *
  * Retourne également le curseur pour que le client puisse charger
  * les pages suivantes via useInfiniteQuery sans re-charger les 25 premiers.
  *
- * @param userId - ID de l'utilisateur connecté
+ * @param workspaceId - Workspace actif de l'utilisateur connecté
  * @returns Premiers posts + curseur pour la page suivante
  */
-async function fetchInitialPosts(userId: string): Promise<InitialPostsResult> {
+async function fetchInitialPosts(workspaceId: string): Promise<InitialPostsResult> {
   const posts = await prisma.post.findMany({
     where: {
-      userId,
-      // Charger tous les statuts : brouillons, planifiés, publiés et échoués
-      status: { in: ['DRAFT', 'SCHEDULED', 'PUBLISHED', 'FAILED'] },
+      workspaceId,
+      // Charger tous les statuts : brouillons, en revue, planifiés, publiés et échoués
+      status: { in: ['DRAFT', 'PENDING_REVIEW', 'SCHEDULED', 'PUBLISHED', 'FAILED'] },
     },
     select: {
       id: true,
       userId: true,
       text: true,
       platform: true,
+      connectedPlatformId: true,
+      groupId: true,
+      seriesId: true,
+      agentSessionId: true,
       mediaUrls: true,
+      mediaAltTexts: true,
+      threadParts: true,
+      platformOptions: true,
       status: true,
+      approvedAt: true,
       scheduledFor: true,
       publishedAt: true,
       latePostId: true,
@@ -108,8 +117,9 @@ export default async function ComposePage(): Promise<React.JSX.Element> {
   if (!session) redirect('/login')
 
   // ── Chargement des 25 premiers posts ──────────────────────────────────────
+  const workspace = await getWorkspaceContext(session.user.id)
   const { posts: initialPosts, nextCursor: initialNextCursor } =
-    await fetchInitialPosts(session.user.id)
+    await fetchInitialPosts(workspace.id)
 
   return (
     <div className="mx-auto max-w-3xl space-y-6 px-4 py-6">
@@ -2,8 +2,9 @@
  * @file app/(dashboard)/gallery/page.tsx
  * @description Page Galerie de médias — Server Component.
  *
- *   Charge la première page de médias côté serveur (SSR) et passe les données
- *   à MediaGrid (Client Component) qui gère l'infinite scroll et les interactions.
+ *   Charge la première page de médias et les filtres proposés (dossiers, tags)
+ *   côté serveur (SSR) et passe les données à MediaGrid (Client Component)
+ *   qui gère l'infinite scroll, les filtres et les interactions.
  *
  *   Route : /gallery (protégée par le layout du dashboard)
  *   Auth  : vérifiée par le layout parent — si l'utilisateur n'est pas connecté,
@@ -13,7 +14,7 @@
  *   // Accessible via : http://localhost:3000/gallery
  */
 
-import { listMedia } from '@/modules/media/actions/media.action'
+import { listMedia, listMediaFacets } from '@/modules/media/actions/media.action'
 import { MediaGrid } from '@/modules/media/components/MediaGrid'
 
 // ─── Métadonnées ───────────────────────────────────────────────────────────────
@@ -31,7 +32,8 @@ export const metadata = {
  */
 export default async function GalleryPage(): Promise<React.JSX.Element> {
   // Charge les 40 premiers médias côté serveur (sans cursor = première page)
-  const { data, error } = await listMedia()
+  // et les dossiers / tags proposés par les filtres
+  const [{ data, error }, { data: facets }] = await Promise.all([listMedia(), listMediaFacets()])
 
   // En cas d'erreur (ex: non authentifié — normalement géré par le layout),
   // on affiche une grille vide plutôt que de crasher
@@ -59,6 +61,7 @@ export default async function GalleryPage(): Promise<React.JSX.Element> {
       <MediaGrid
         initialItems={initialItems}
         initialNextCursor={initialNextCursor}
+        initialFacets={facets ?? { folders: [], tags: [] }}
       />
     </div>
   )
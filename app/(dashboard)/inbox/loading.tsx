@@ -0,0 +1,51 @@
+/**
+ * @file app/(dashboard)/inbox/loading.tsx
+ * @description Skeleton de chargement de la page inbox.
+ *   Reproduit la disposition de InboxPage : en-tête, filtres, liste des fils + fil ouvert.
+ *
+ *   Activé automatiquement par Next.js App Router (Suspense natif).
+ */
+
+import { Skeleton } from '@/components/ui/skeleton'
+
+/**
+ * Skeleton de la page inbox — reproduit la structure réelle sans données.
+ */
+export default function InboxLoading(): React.JSX.Element {
+  return (
+    <div className="mx-auto max-w-5xl space-y-6 px-4 py-6">
+      {/* ── En-tête ──────────────────────────────────────────────────────── */}
+      <div className="space-y-2">
+        <Skeleton className="h-8 w-24" />
+        <Skeleton className="h-4 w-72" />
+      </div>
+
+      {/* ── Filtres ──────────────────────────────────────────────────────── */}
+      <div className="flex gap-2">
+        <Skeleton className="h-8 w-40 rounded-md" />
+        <Skeleton className="h-8 w-36 rounded-md" />
+      </div>
+
+      {/* ── Liste + fil ──────────────────────────────────────────────────── */}
+      <div className="grid gap-4 md:grid-cols-[320px_1fr]">
+        <div className="space-y-2 rounded-xl border border-border bg-card p-2">
+          {Array.from({ length: 6 }).map((_, i) => (
+            <Skeleton key={i} className="h-16 w-full rounded-lg" />
+          ))}
+        </div>
+        <div className="hidden space-y-4 rounded-xl border border-border bg-card p-4 md:block">
+          <Skeleton className="h-20 w-full rounded-lg" />
+          {Array.from({ length: 3 }).map((_, i) => (
+            <div key={i} className="flex gap-3">
+              <Skeleton className="size-8 rounded-full" />
+              <div className="flex-1 space-y-2">
+                <Skeleton className="h-4 w-1/3" />
+                <Skeleton className="h-4 w-3/4" />
+              </div>
+            </div>
+          ))}
+        </div>
+      </div>
+    </div>
+  )
+}
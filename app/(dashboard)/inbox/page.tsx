@@ -0,0 +1,52 @@
+/**
+ * @file app/(dashboard)/inbox/page.tsx
+ * @description Page inbox — messages et commentaires reçus sur tous les réseaux connectés.
+ *
+ *   Architecture :
+ *   - page.tsx : Server Component (auth + métadonnées)
+ *   - InboxContent : Client Component (filtres, liste des fils, réponses inline)
+ *
+ * @example
+ *   // Route : GET /inbox
+ */
+
+import { headers } from 'next/headers'
+import { redirect } from 'next/navigation'
+
+import { auth } from '@/lib/auth'
+import { InboxContent } from '@/modules/inbox/components/InboxContent'
+
+import type { Metadata } from 'next'
+
+// ─── Métadonnées ──────────────────────────────────────────────────────────────
+
+export const metadata: Metadata = {
+  title: 'Inbox — ogolong',
+  description: 'Messages et commentaires reçus sur tous vos réseaux sociaux.',
+}
+
+// ─── Page ─────────────────────────────────────────────────────────────────────
+
+/**
+ * Page inbox — Server Component.
+ * Vérifie l'authentification, puis délègue le rendu à InboxContent (Client).
+ */
+export default async function InboxPage(): Promise<React.JSX.Element> {
+  // ── Authentification ───────────────────────────────────────────────────────
+  const session = await auth.api.getSession({ headers: await headers() })
+  if (!session) redirect('/login')
+
+  return (
+    <div className="mx-auto max-w-5xl space-y-6 px-4 py-6">
+      {/* ── En-tête ──────────────────────────────────────────────────────── */}
+      <div>
+        <h1 className="text-2xl font-semibold tracking-tight">Inbox</h1>
+        <p className="mt-1 text-sm text-muted-foreground">
+          Messages et commentaires reçus sur tous vos réseaux sociaux.
+        </p>
+      </div>
+
+      <InboxContent />
+    </div>
+  )
+}
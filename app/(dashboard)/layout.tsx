@@ -7,6 +7,8 @@
  *   si aucune session valide n'est trouvée dans les headers HTTP entrants,
  *   l'utilisateur est redirigé vers /login avant tout rendu DOM.
  *
+ *   TimezoneAutoDetect enregistre le fuseau du navigateur à la première connexion.
+ *
  * Arborescence des routes protégées :
  *   /dashboard   → Vue d'ensemble (stats rapides)
  *   /compose     → Composer un post
@@ -22,6 +24,7 @@ import { redirect } from 'next/navigation'
 import { Header } from '@/components/layout/Header'
 import { Sidebar } from '@/components/layout/Sidebar'
 import { auth } from '@/lib/auth'
+import { TimezoneAutoDetect } from '@/modules/auth/components/TimezoneAutoDetect'
 
 interface DashboardLayoutProps {
   children: React.ReactNode
@@ -55,6 +58,9 @@ export default async function DashboardLayout({
       {/* ── Sidebar — navigation latérale (hauteur full, fixe à gauche) ── */}
       <Sidebar />
 
+      {/* ── Détection du fuseau horaire (première connexion, ne rend rien) ── */}
+      <TimezoneAutoDetect />
+
       {/* ── Zone principale — flex col : Header en haut, contenu en bas ── */}
       <div className="flex flex-1 flex-col overflow-hidden">
         {/* Header : toggle sidebar + menu utilisateur */}
@@ -5,7 +5,7 @@
  *   et les passe à ProfileForm (Client Component) pour l'édition.
  *
  *   Données disponibles :
- *   - name, email, avatarUrl, image (OAuth), description
+ *   - name, email, avatarUrl, image (OAuth), description, timezone
  *
  *   La session better-auth est vérifiée côté serveur.
  *   Si l'utilisateur n'est pas authentifié, redirect vers /login.
@@ -49,6 +49,7 @@ export default async function ProfilePage(): Promise<React.JSX.Element> {
       avatarUrl: true,
       image: true,
       description: true,
+      timezone: true,
     },
   })
 
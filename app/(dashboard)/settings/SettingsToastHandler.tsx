@@ -8,6 +8,11 @@
  *   - ?success=platform_connected&platform=instagram → toast succès
  *   - ?error=platform_oauth → toast erreur OAuth
  *   - ?error=platform_callback_invalid → toast erreur paramètres invalides
+ *   - ?error=platform_forbidden → toast erreur (réservé au propriétaire du workspace)
+ *
+ *   Query params injectés par /api/workspaces/invitations/accept (lien d'invitation) :
+ *   - ?success=workspace_joined → toast bienvenue dans le workspace
+ *   - ?error=invitation_invalid&reason=... → toast erreur (motif lisible)
  *
  * @example
  *   // Wrappé dans Suspense dans settings/page.tsx
@@ -44,12 +49,18 @@ export function SettingsToastHandler(): null {
       toast.success(`${label} connecté avec succès !`)
     }
 
+    if (success === 'workspace_joined') {
+      toast.success('Tu as rejoint le workspace.')
+    }
+
     if (error) {
       const messages: Record<string, string> = {
         platform_oauth: "L'autorisation OAuth a échoué. Réessaie.",
         platform_callback_invalid: 'Paramètres de callback invalides.',
         platform_unknown: 'Plateforme non reconnue.',
         platform_connect: 'Erreur lors de la connexion.',
+        platform_forbidden: 'Seul le propriétaire du workspace peut connecter un compte.',
+        invitation_invalid: searchParams.get('reason') ?? 'Invitation invalide.',
       }
       toast.error(messages[error] ?? 'Une erreur est survenue.')
     }
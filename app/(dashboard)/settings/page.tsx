@@ -2,7 +2,11 @@
  * @file app/(dashboard)/settings/page.tsx
  * @description Page des paramètres utilisateur (/settings).
  *   Sections :
+ *   - Équipe : membres, rôles et invitations du workspace actif (WorkspaceMembers)
  *   - Réseaux sociaux connectés (PlatformList)
+ *   - File de publication (PostingSlotSettings)
+ *   - Validation des posts (PostApprovalSettings)
+ *   - Stockage : espace utilisé par type et quota (StorageUsageMeter)
  *   - Dictée vocale (SpeechSettings)
  *
  *   Gère les query params success/error du callback OAuth pour afficher des toasts.
@@ -15,8 +19,12 @@
 
 import { Suspense } from 'react'
 
+import { StorageUsageMeter } from '@/modules/media/components/StorageUsageMeter'
 import { PlatformCardSkeleton } from '@/modules/platforms/components/PlatformCardSkeleton'
 import { PlatformList } from '@/modules/platforms/components/PlatformList'
+import { PostApprovalSettings } from '@/modules/posts/components/PostApprovalSettings'
+import { PostingSlotSettings } from '@/modules/posts/components/PostingSlotSettings'
+import { WorkspaceMembers } from '@/modules/workspaces/components/WorkspaceMembers'
 
 import { SettingsToastHandler } from './SettingsToastHandler'
 import { SpeechSettings } from './SpeechSettings'
@@ -41,12 +49,25 @@ export default function SettingsPage(): React.JSX.Element {
         </p>
       </div>
 
+      {/* ── Section : Équipe ── */}
+      <section>
+        <div className="mb-4">
+          <h2 className="text-base font-semibold">Équipe</h2>
+          <p className="mt-0.5 text-sm text-muted-foreground">
+            Invite des membres dans ton workspace : ils partagent les comptes connectés,
+            les posts, les signatures et les médias selon leur rôle.
+          </p>
+        </div>
+        {/* Client Component : membres via TanStack Query + Server Actions */}
+        <WorkspaceMembers />
+      </section>
+
       {/* ── Section : Réseaux sociaux ── */}
       <section>
         <div className="mb-4">
           <h2 className="text-base font-semibold">Réseaux sociaux connectés</h2>
           <p className="mt-0.5 text-sm text-muted-foreground">
-            Connecte tes comptes pour commencer à planifier et publier du contenu.
+            Connecte les comptes du workspace pour commencer à planifier et publier du contenu.
           </p>
         </div>
 
@@ -56,6 +77,46 @@ export default function SettingsPage(): React.JSX.Element {
         </Suspense>
       </section>
 
+      {/* ── Section : File de publication ── */}
+      <section>
+        <div className="mb-4">
+          <h2 className="text-base font-semibold">File de publication</h2>
+          <p className="mt-0.5 text-sm text-muted-foreground">
+            Définis tes créneaux par réseau : « Ajouter à la file » place le post sur le
+            prochain créneau libre, sans choisir de date.
+          </p>
+        </div>
+        {/* Client Component : créneaux via TanStack Query + Server Actions */}
+        <PostingSlotSettings />
+      </section>
+
+      {/* ── Section : Validation des posts ── */}
+      <section>
+        <div className="mb-4">
+          <h2 className="text-base font-semibold">Validation des posts</h2>
+          <p className="mt-0.5 text-sm text-muted-foreground">
+            Fais relire les posts du workspace avant leur planification : soumission,
+            commentaires, approbation ou rejet par un propriétaire, avec l&apos;historique
+            de chaque étape.
+          </p>
+        </div>
+        {/* Client Component : lit requirePostApproval via /api/workspaces/members */}
+        <PostApprovalSettings />
+      </section>
+
+      {/* ── Section : Stockage ── */}
+      <section>
+        <div className="mb-4">
+          <h2 className="text-base font-semibold">Stockage</h2>
+          <p className="mt-0.5 text-sm text-muted-foreground">
+            Espace occupé par les médias que tu as importés (galerie et posts), sur le
+            quota de ton compte.
+          </p>
+        </div>
+        {/* Client Component : utilisation via /api/user/storage */}
+        <StorageUsageMeter />
+      </section>
+
       {/* ── Section : Dictée vocale ── */}
       <section>
         <div className="mb-4">
@@ -6,23 +6,38 @@
  *   Charge les plateformes connectées de l'user.
  *   Appelle Claude Sonnet avec le tool "create_posts_per_platform".
  *   Claude produit un PostDraft par plateforme mentionnée dans l'instruction.
- *   Persiste chaque PostDraft comme un Post DRAFT ou SCHEDULED en DB.
+ *   Persiste chaque PostDraft comme un Post DRAFT ou SCHEDULED en DB
+ *   (PENDING_REVIEW au lieu de SCHEDULED si l'utilisateur exige une validation).
  *   Déclenche un event Inngest "post/schedule" pour chaque post SCHEDULED.
  *   Retourne les posts créés.
  *
+ *   Conversation multi-tours : chaque instruction est un tour d'une AgentSession
+ *   (nouvelle, ou `sessionId` pour poursuivre). Dans un tour de suivi, l'agent reçoit
+ *   l'historique et les posts de la conversation, et peut les modifier (`edits`)
+ *   en plus d'en créer de nouveaux.
+ *
  *   Flow complet :
  *   1. Authentification (better-auth)
- *   2. Validation Zod du body (instruction + mediaPool)
- *   3. Chargement des plateformes connectées de l'utilisateur
- *   4. Appel Claude Sonnet → tool_use "create_posts_per_platform"
- *   5. Extraction + validation des PostDraft depuis le tool_use
- *   6. Création en DB : prisma.post.createMany() avec status DRAFT ou SCHEDULED
- *   7. Envoi des events Inngest "post/schedule" pour chaque post SCHEDULED
- *   8. Retour { posts: Post[] }
+ *   2. Validation Zod du body (instruction + mediaPool + comptes choisis + sessionId)
+ *   3. Chargement des plateformes connectées, du fuseau horaire de l'utilisateur
+ *      et de la conversation en cours (historique + posts)
+ *   4. Appel du LLM en streaming (LLM_PROVIDER, Claude par défaut) → tool "create_posts_per_platform"
+ *      (aperçus SSE `draft` par plateforme pendant l'écriture ; annulable : rien n'est
+ *      écrit en DB si le client se déconnecte avant la fin de la génération)
+ *   5. Extraction + validation des PostDraft depuis le tool_use (relance du modèle si les
+ *      règles des plateformes ne sont pas respectées, puis correction mécanique : texte
+ *      tronqué, médias en trop retirés), résolution du compte ciblé et du créneau
+ *      « meilleur moment » (bestTime, lib/best-time.ts)
+ *   6. Création en DB : PostGroup (campagne) + prisma.post.createMany() avec status DRAFT,
+ *      SCHEDULED ou PENDING_REVIEW (+ évènements SUBMITTED dans l'historique)
+ *   7. Envoi des events Inngest "post/schedule" pour chaque post SCHEDULED,
+ *      modifications des posts de la conversation (applyAgentPostEdit) et tour enregistré
+ *   8. Évènement SSE `done` { posts: Post[], updatedPosts: Post[], sessionId, warnings }
  *
  * @example
  *   const res = await fetch('/api/agent/create-posts', {
  *     method: 'POST',
+ *     signal: abortController.signal,
  *     body: JSON.stringify({
  *       instruction: 'Poste mes 2 photos sur TikTok et Instagram demain 9h',
  *       mediaPool: [
@@ -31,21 +46,55 @@
  *       ],
  *     }),
  *   })
- *   const { posts } = await res.json()
+ *   const { posts } = await readAgentStream<{ posts: Post[] }>(res, setDrafts)
  *   // posts = [{ id, platform: 'tiktok', text: '...', ... }, { id, platform: 'instagram', text: '...', ... }]
  */
 
+import { revalidatePath } from 'next/cache'
 import { headers } from 'next/headers'
 import { NextResponse } from 'next/server'
 import { z } from 'zod'
 
-import { anthropic, AGENT_MODEL } from '@/lib/ai'
+import {
+  AgentPlatformOptionsSchema,
+  AgentThreadPartsSchema,
+  callToolWithPlatformRules,
+  describePlatformOptions,
+  PLATFORM_OPTIONS_TOOL_PROPERTY,
+  THREAD_PARTS_TOOL_PROPERTY,
+} from '@/lib/agent-platform-rules'
+import { applyAgentPostEdit } from '@/lib/agent-post-edit'
+import type { AgentEditablePost } from '@/lib/agent-post-edit'
+import {
+  createAgentSession,
+  formatSessionPostsSection,
+  loadAgentSession,
+  recordAgentTurn,
+} from '@/lib/agent-sessions'
+import { AgentStreamError, agentStreamResponse } from '@/lib/agent-stream'
+import { postAuditSnapshot, recordAuditEvents, userActor } from '@/lib/audit'
+import type { PostAuditFields } from '@/lib/audit'
 import { auth } from '@/lib/auth'
+import { findBestTime } from '@/lib/best-time'
 import { rateLimiters, rateLimitResponse } from '@/lib/rate-limit'
 import { inngest } from '@/lib/inngest/client'
+import { getLlmProvider } from '@/lib/llm'
+import type { LlmToolDefinition } from '@/lib/llm'
+import { isApprovalRequired, recordPostEvents } from '@/lib/post-review'
 import { prisma } from '@/lib/prisma'
+import { formatUtcOffset, getTimezoneOffset } from '@/lib/timezone'
+import { getUserTimezone } from '@/lib/user-timezone'
+import { getWorkspaceContext } from '@/lib/workspace'
+import { auditExcerpt } from '@/modules/audit/utils/audit-diff'
 import { PLATFORM_RULES } from '@/modules/platforms/config/platform-rules'
-import type { PoolMedia, PostDraft } from '@/modules/posts/types'
+import type { PoolMedia, Post, PostDraft, PostDraftEdit } from '@/modules/posts/types'
+import { ALT_TEXT_MAX_LENGTH, normalizeMediaAltTexts } from '@/modules/posts/utils/accessibility'
+import { resolveTargetAccount } from '@/modules/posts/utils/account-target'
+import { agentHistoryMessages, summarizeAgentTurn } from '@/modules/posts/utils/agent-session'
+import { extractDraftPreviews } from '@/modules/posts/utils/agent-stream'
+import { platformViolationsError, repairPostContent } from '@/modules/posts/utils/post-validation'
+import type { ValidatedPostContent } from '@/modules/posts/utils/post-validation'
+import { workspaceRoleError } from '@/modules/workspaces/utils/roles'
 
 // ─── Schémas de validation du body ────────────────────────────────────────────
 
@@ -54,6 +103,8 @@ const PoolMediaSchema = z.object({
   url: z.string().url(),
   type: z.enum(['photo', 'video']),
   filename: z.string(),
+  /** Texte alternatif (galerie) — repris dans Post.mediaAltTexts */
+  altText: z.string().max(ALT_TEXT_MAX_LENGTH).optional(),
 })
 
 /** Schéma du body de la requête */
@@ -62,6 +113,13 @@ const CreatePostsRequestSchema = z.object({
   instruction: z.string().min(1, 'Instruction requise').max(2000),
   /** Pool de médias uploadés disponibles pour l'agent */
   mediaPool: z.array(PoolMediaSchema).max(50).default([]),
+  /**
+   * Compte choisi dans le composer pour chaque plateforme multi-comptes
+   * (plateforme → ConnectedPlatform.id). Prioritaire sur le choix de l'agent.
+   */
+  accountSelections: z.record(z.string(), z.string().min(1)).default({}),
+  /** Conversation agent à poursuivre (absent = nouvelle conversation) */
+  sessionId: z.string().min(1).optional(),
 })
 
 // ─── Schéma de validation du résultat du tool Claude ──────────────────────────
@@ -71,84 +129,171 @@ const PostDraftSchema = z.object({
   platform: z.string().min(1),
   text: z.string().min(1).max(63206),
   mediaUrls: z.array(z.string()).default([]),
+  threadParts: AgentThreadPartsSchema,
+  platformOptions: AgentPlatformOptionsSchema,
   scheduledFor: z.string().nullable().default(null),
+  connectedPlatformId: z.string().nullable().optional(),
+  bestTime: z.boolean().optional(),
 })
 
-const CreatePostsToolOutputSchema = z.object({
-  posts: z.array(PostDraftSchema).min(1),
+/** Schéma d'une modification d'un post de la conversation (tours de suivi) */
+const PostDraftEditSchema = z.object({
+  postId: z.string().min(1),
+  text: z.string().min(1).max(63206),
+  mediaUrls: z.array(z.string()).default([]),
+  threadParts: AgentThreadPartsSchema,
+  platformOptions: AgentPlatformOptionsSchema,
+  scheduledFor: z.string().nullable().default(null),
 })
 
-// ─── Tool Claude : create_posts_per_platform ──────────────────────────────────
+const CreatePostsToolOutputSchema = z.object({
+  posts: z.array(PostDraftSchema).default([]),
+  edits: z.array(PostDraftEditSchema).default([]),
+}).refine((output) => output.posts.length + output.edits.length > 0, 'Aucun post créé ni modifié')
 
 /**
- * Définition du tool Anthropic que Claude doit utiliser.
- * Claude remplit ce tool avec un post par plateforme ciblée par l'instruction.
+ * Posts nouveaux et modifiés contenus dans l'entrée du tool (règles des plateformes).
+ * Une modification d'un post hors conversation est ignorée ici (refusée plus loin).
+ *
+ * @param input         - Entrée brute du tool
+ * @param postPlatforms - Plateforme de chaque post de la conversation (id → plateforme)
+ * @returns Contenus à valider, ou null si l'entrée est invalide
  */
-const CREATE_POSTS_TOOL: Parameters<typeof anthropic.messages.create>[0]['tools'] = [
-  {
-    name: 'create_posts_per_platform',
-    description: [
-      'Crée un post adapté pour chaque plateforme sociale mentionnée dans l\'instruction.',
-      'Respecte STRICTEMENT les contraintes techniques de chaque réseau (maxText, maxPhotos, etc.).',
-      'Adapte le texte au ton de chaque plateforme.',
-      'Sélectionne les médias appropriés depuis le pool disponible.',
-      'Déduit les dates de publication depuis les instructions (ex: "demain matin" → ISO date).',
-    ].join(' '),
-    input_schema: {
-      type: 'object' as const,
-      properties: {
-        posts: {
-          type: 'array',
-          description: 'Un post par plateforme ciblée par l\'instruction',
-          items: {
-            type: 'object',
-            properties: {
-              platform: {
-                type: 'string',
-                description: 'Identifiant de la plateforme (ex: "instagram", "tiktok")',
-              },
-              text: {
-                type: 'string',
-                description: 'Texte adapté au ton et aux contraintes de caractères de la plateforme',
-              },
-              mediaUrls: {
-                type: 'array',
-                items: { type: 'string' },
-                description: 'URLs des médias sélectionnés depuis le pool (respecter les limites de la plateforme)',
-              },
-              scheduledFor: {
-                type: 'string',
-                // Exemple dynamique : demain à cette heure (toujours dans le futur)
-                description: `Date/heure de publication en ISO 8601 UTC (ex: "${new Date(Date.now() + 86_400_000).toISOString()}"). null si pas de date précisée. Doit être strictement dans le futur par rapport à l'horodatage fourni dans le system prompt.`,
-                nullable: true,
-              },
+function extractPostContents(
+  input: unknown,
+  postPlatforms: Record<string, string>,
+): ValidatedPostContent[] | null {
+  const parsed = CreatePostsToolOutputSchema.safeParse(input)
+  if (!parsed.success) return null
+  return [
+    ...parsed.data.posts,
+    ...parsed.data.edits
+      .filter((edit) => postPlatforms[edit.postId])
+      .map((edit) => ({ ...edit, platform: postPlatforms[edit.postId] })),
+  ]
+}
+
+/** Post créé par l'instruction, relu pour la réponse, l'historique, l'audit et Inngest */
+type CreatedPost = { id: string; platform: string; status: string; scheduledFor: Date | null } & PostAuditFields
+
+// ─── Tool agent : create_posts_per_platform ───────────────────────────────────
+
+/**
+ * Définition du tool que l'agent doit utiliser (JSON Schema, tout fournisseur LLM).
+ * Le modèle remplit ce tool avec un post par plateforme ciblée par l'instruction.
+ */
+const CREATE_POSTS_TOOL: LlmToolDefinition = {
+  name: 'create_posts_per_platform',
+  description: [
+    'Crée un post adapté pour chaque plateforme sociale mentionnée dans l\'instruction.',
+    'Respecte STRICTEMENT les contraintes techniques de chaque réseau (maxText, maxPhotos, etc.).',
+    'Adapte le texte au ton de chaque plateforme.',
+    'Sélectionne les médias appropriés depuis le pool disponible.',
+    'Déduit les dates de publication depuis les instructions (ex: "demain matin" → ISO date).',
+    'Dans une conversation en cours, modifie les posts existants via edits plutôt que de les recréer.',
+  ].join(' '),
+  inputSchema: {
+    type: 'object',
+    properties: {
+      posts: {
+        type: 'array',
+        description: 'Un post par plateforme ciblée par l\'instruction',
+        items: {
+          type: 'object',
+          properties: {
+            platform: {
+              type: 'string',
+              description: 'Identifiant de la plateforme (ex: "instagram", "tiktok")',
+            },
+            text: {
+              type: 'string',
+              description: 'Texte adapté au ton et aux contraintes de caractères de la plateforme',
+            },
+            mediaUrls: {
+              type: 'array',
+              items: { type: 'string' },
+              description: 'URLs des médias sélectionnés depuis le pool (respecter les limites de la plateforme)',
+            },
+            threadParts: THREAD_PARTS_TOOL_PROPERTY,
+            platformOptions: PLATFORM_OPTIONS_TOOL_PROPERTY,
+            scheduledFor: {
+              type: 'string',
+              // Exemple dynamique : demain à cette heure (toujours dans le futur)
+              description: `Date/heure de publication en ISO 8601 UTC (ex: "${new Date(Date.now() + 86_400_000).toISOString()}"). null si pas de date précisée. Doit être strictement dans le futur par rapport à l'horodatage fourni dans le system prompt.`,
+              nullable: true,
+            },
+            connectedPlatformId: {
+              type: 'string',
+              description: 'id du compte ciblé quand la plateforme a plusieurs comptes connectés (voir system prompt). null sinon.',
+              nullable: true,
+            },
+            bestTime: {
+              type: 'boolean',
+              description: 'true pour planifier au meilleur moment (créneau le mieux noté des statistiques de la plateforme, calculé par le serveur). scheduledFor doit alors être null.',
             },
-            required: ['platform', 'text', 'mediaUrls', 'scheduledFor'],
           },
+          required: ['platform', 'text', 'mediaUrls', 'scheduledFor'],
+        },
+      },
+      edits: {
+        type: 'array',
+        description: 'Modifications de posts de la conversation (id listé dans le system prompt). Vide hors conversation.',
+        items: {
+          type: 'object',
+          properties: {
+            postId: {
+              type: 'string',
+              description: 'id du post de la conversation à modifier',
+            },
+            text: {
+              type: 'string',
+              description: 'Texte complet mis à jour (pas seulement les modifications)',
+            },
+            mediaUrls: {
+              type: 'array',
+              items: { type: 'string' },
+              description: 'URLs des médias du post après modification (conserver les actuels par défaut)',
+            },
+            threadParts: THREAD_PARTS_TOOL_PROPERTY,
+            platformOptions: PLATFORM_OPTIONS_TOOL_PROPERTY,
+            scheduledFor: {
+              type: 'string',
+              description: 'Date/heure de publication en ISO 8601 UTC, recopier la date actuelle si inchangée. null si brouillon.',
+              nullable: true,
+            },
+          },
+          required: ['postId', 'text', 'mediaUrls', 'scheduledFor'],
         },
       },
-      required: ['posts'],
     },
+    required: ['posts'],
   },
-]
+}
 
 // ─── Construction du system prompt ────────────────────────────────────────────
 
 /**
  * Construit le system prompt de l'agent avec :
- * - La date/heure actuelle (pour interpréter "demain", "lundi prochain", etc.)
+ * - La date/heure actuelle dans le fuseau de l'utilisateur (pour interpréter
+ *   "demain 9h", "lundi prochain", etc.)
  * - Les plateformes connectées de l'utilisateur et leurs règles
  * - Le pool de médias disponibles avec leurs types
  *
  * @param connectedPlatforms - Plateformes connectées de l'utilisateur (depuis la DB)
  * @param mediaPool - Pool de médias uploadés par l'utilisateur
+ * @param timezone - Fuseau IANA de l'utilisateur (User.timezone)
+ * @param sessionPosts - Posts de la conversation en cours (tours de suivi), [] sinon
  * @returns System prompt complet
  */
 function buildSystemPrompt(
-  connectedPlatforms: Array<{ platform: string; accountName: string }>,
+  connectedPlatforms: Array<{ id: string; platform: string; accountName: string }>,
   mediaPool: PoolMedia[],
+  timezone: string,
+  sessionPosts: AgentEditablePost[],
 ): string {
   const now = new Date()
+  // Offset courant (varie avec l'heure d'été) : "UTC+1", "UTC-4", "UTC"…
+  const offsetLabel = formatUtcOffset(getTimezoneOffset(now, timezone))
   const dateStr = now.toLocaleString('fr-FR', {
     weekday: 'long',
     year: 'numeric',
@@ -156,12 +301,18 @@ function buildSystemPrompt(
     day: 'numeric',
     hour: '2-digit',
     minute: '2-digit',
-    timeZone: 'Europe/Paris',
+    timeZone: timezone,
   })
 
-  // Section plateformes connectées avec leurs règles techniques
+  // Section plateformes connectées avec leurs règles techniques.
+  // L'id n'est utile que pour les plateformes multi-comptes (choix du compte ciblé).
+  const countByPlatform = new Map<string, number>()
+  for (const { platform } of connectedPlatforms) {
+    countByPlatform.set(platform, (countByPlatform.get(platform) ?? 0) + 1)
+  }
+
   const platformsSection = connectedPlatforms
-    .map(({ platform, accountName }) => {
+    .map(({ id, platform, accountName }) => {
       const rules = PLATFORM_RULES[platform as keyof typeof PLATFORM_RULES]
       if (!rules) return `- ${platform} (@${accountName}) : règles inconnues`
 
@@ -171,9 +322,14 @@ function buildSystemPrompt(
         rules.maxVideos > 0 ? `max ${rules.maxVideos} vidéo(s)` : 'vidéo non supportée',
         rules.allowsMixed ? 'photos+vidéo dans le même post OK' : 'photos et vidéo séparées',
         rules.requiresMedia ? '⚠ média obligatoire' : '',
+        rules.supportsThreads ? 'thread possible (threadParts)' : '',
+        describePlatformOptions(platform as keyof typeof PLATFORM_RULES) ?? '',
       ].filter(Boolean)
 
-      return `- **${platform}** (compte : ${accountName}) : ${rulesParts.join(', ')}`
+      const accountLabel = (countByPlatform.get(platform) ?? 0) > 1
+        ? `compte : ${accountName}, id : ${id}`
+        : `compte : ${accountName}`
+      return `- **${platform}** (${accountLabel}) : ${rulesParts.join(', ')}`
     })
     .join('\n')
 
@@ -184,7 +340,7 @@ function buildSystemPrompt(
     ? 'Aucun média dans le pool.'
     : [
         photos.length > 0 ? `Photos (${photos.length}) :` : '',
-        ...photos.map((m, i) => `  ${i + 1}. ${m.url} (${m.filename})`),
+        ...photos.map((m, i) => `  ${i + 1}. ${m.url} (${m.filename})${m.altText ? ` — ${m.altText}` : ''}`),
         videos.length > 0 ? `Vidéos (${videos.length}) :` : '',
         ...videos.map((m, i) => `  ${i + 1}. ${m.url} (${m.filename})`),
       ].filter(Boolean).join('\n')
@@ -192,10 +348,12 @@ function buildSystemPrompt(
   return `Tu es un expert en social media chargé de créer du contenu adapté à chaque plateforme.
 
 ## Date et heure actuelles
-${dateStr} (fuseau Europe/Paris)
+${dateStr} (fuseau ${timezone}, actuellement ${offsetLabel})
 Horodatage ISO UTC exact : ${now.toISOString()}
 Utilise cet horodatage comme référence absolue pour calculer les expressions temporelles
 ("dans 10 minutes", "demain matin", "lundi prochain", etc.).
+Les heures mentionnées par l'utilisateur ("demain 9h") sont dans SON fuseau (${timezone}) :
+convertis-les en UTC en tenant compte du décalage du fuseau à la date visée.
 Toutes les dates de publication dans le tool doivent être en ISO 8601 UTC.
 
 ## Plateformes connectées de l'utilisateur
@@ -217,25 +375,47 @@ ${mediaSection}
 10. Si l'utilisateur dit "maintenant", "tout de suite", "immédiatement" ou similaire :
     scheduledFor = horodatage ISO UTC exact + 120 secondes
     (ex: "${new Date(Date.now() + 120_000).toISOString()}")
-    Ce buffer de 2 min garantit que la date est encore dans le futur lors de la validation en DB.`
+    Ce buffer de 2 min garantit que la date est encore dans le futur lors de la validation en DB.
+11. Si une plateforme a plusieurs comptes connectés (id affiché) : crée un post par compte visé
+    par l'instruction et renseigne son id dans connectedPlatformId. Si l'instruction ne désigne
+    aucun compte, un seul post pour cette plateforme avec connectedPlatformId = null.
+12. Si l'utilisateur demande de publier "au meilleur moment", "quand mon audience est active" ou similaire :
+    bestTime = true et scheduledFor = null. Le serveur choisit le créneau (jamais de date inventée).
+13. Thread : uniquement sur les plateformes marquées "thread possible", si l'utilisateur demande un thread
+    ou si le contenu dépasse nettement la limite de caractères. Le premier segment va dans text/mediaUrls,
+    la suite dans threadParts (chaque partie sous la limite, numérotée "1/4", "2/4"…). Sinon threadParts omis.
+14. Options : pour les plateformes qui en listent, renseigne platformOptions avec ces clés uniquement
+    (ex: titre YouTube déduit du contenu). Une option requise inconnue (tableau Pinterest, subreddit) :
+    omise si l'utilisateur ne l'a pas donnée — le post reste en brouillon. N'invente jamais d'identifiant.${sessionPosts.length > 0 ? `
+
+## Posts de la conversation (état actuel)
+${formatSessionPostsSection(sessionPosts)}
+
+## Conversation en cours
+L'historique contient les instructions précédentes et tes réponses (versions précédentes des textes).
+15. Pour modifier un post ci-dessus ("raccourcis celui pour LinkedIn", "reviens à la version d'avant") :
+    ajoute-le dans edits avec son id et son texte COMPLET — ne le recrée pas dans posts.
+16. N'ajoute dans posts que les nouveaux posts demandés explicitement (posts peut être vide).
+17. Un post publié n'est pas modifiable : ne le mets jamais dans edits.` : ''}`
 }
 
 // ─── Handler POST ─────────────────────────────────────────────────────────────
 
 /**
  * POST /api/agent/create-posts
- * Body : { instruction: string, mediaPool: PoolMedia[] }
- * Réponse : { posts: Post[] }
+ * Body : { instruction: string, mediaPool: PoolMedia[], accountSelections?: Record<platform, id>, sessionId?: string }
+ * Réponse : flux SSE — `draft` { drafts } pendant la génération, puis
+ *   `done` { posts: Post[], updatedPosts: Post[], sessionId, warnings }
+ *   ou `error` { error } (JSON { error } avec statut 4xx/5xx si la requête est refusée avant)
  *
  * Crée N posts DRAFT en DB — un par plateforme ciblée par l'instruction.
  */
-export async function POST(request: Request): Promise<NextResponse> {
-  // ── Vérification de la configuration Anthropic ────────────────────────────
-  if (!process.env.ANTHROPIC_API_KEY) {
-    return NextResponse.json(
-      { error: 'ANTHROPIC_API_KEY manquante dans .env.local — agent désactivé' },
-      { status: 503 },
-    )
+export async function POST(request: Request): Promise<Response> {
+  // ── Vérification de la configuration du fournisseur LLM ──────────────────
+  const llm = getLlmProvider()
+  const llmConfigError = llm.configError()
+  if (llmConfigError) {
+    return NextResponse.json({ error: llmConfigError }, { status: 503 })
   }
 
   // ── Authentification ──────────────────────────────────────────────────────
@@ -244,6 +424,13 @@ export async function POST(request: Request): Promise<NextResponse> {
     return NextResponse.json({ error: 'Non authentifié' }, { status: 401 })
   }
 
+  // Les posts générés rejoignent le workspace actif (rôle EDITOR requis)
+  const workspace = await getWorkspaceContext(session.user.id)
+  const roleError = workspaceRoleError(workspace.role, 'EDITOR')
+  if (roleError) {
+    return NextResponse.json({ error: roleError }, { status: 403 })
+  }
+
   // ── Rate limiting ─────────────────────────────────────────────────────────
   // Limite à 10 req/min par userId — protège le quota Claude API
   const rl = await rateLimiters.ai(session.user.id)
@@ -265,15 +452,23 @@ export async function POST(request: Request): Promise<NextResponse> {
     )
   }
 
-  const { instruction, mediaPool } = parsed.data
-
-  // ── Récupération des plateformes connectées ───────────────────────────────
-  // Ownership check : on ne lit que les plateformes de l'utilisateur connecté
-  const connectedPlatforms = await prisma.connectedPlatform.findMany({
-    where: { userId: session.user.id, isActive: true },
-    select: { platform: true, accountName: true },
-    orderBy: { connectedAt: 'asc' },
-  })
+  const { instruction, mediaPool, accountSelections, sessionId } = parsed.data
+  // Textes alternatifs du pool, recopiés sur les posts qui utilisent ces médias
+  const poolAltTexts = Object.fromEntries(
+    mediaPool.flatMap((m) => (m.altText ? [[m.url, m.altText]] : [])),
+  )
+
+  // ── Récupération des plateformes connectées + fuseau horaire ──────────────
+  // Ownership check : on ne lit que les plateformes du workspace actif
+  const [connectedPlatforms, timezone, requireApproval] = await Promise.all([
+    prisma.connectedPlatform.findMany({
+      where: { workspaceId: workspace.id, isActive: true },
+      select: { id: true, platform: true, accountName: true },
+      orderBy: { connectedAt: 'asc' },
+    }),
+    getUserTimezone(session.user.id),
+    isApprovalRequired(workspace.id),
+  ])
 
   if (connectedPlatforms.length === 0) {
     return NextResponse.json(
@@ -282,80 +477,216 @@ export async function POST(request: Request): Promise<NextResponse> {
     )
   }
 
-  // ── Appel Claude Sonnet ───────────────────────────────────────────────────
-  try {
-    const systemPrompt = buildSystemPrompt(connectedPlatforms, mediaPool)
-
-    const response = await anthropic.messages.create({
-      model: AGENT_MODEL,
-      max_tokens: 4096,
+  // ── Conversation en cours (tours de suivi) ────────────────────────────────
+  // Historique + posts de la conversation : l'agent peut modifier n'importe lequel
+  const conversation = sessionId ? await loadAgentSession(workspace.id, sessionId) : null
+  if (sessionId && !conversation) {
+    return NextResponse.json({ error: 'Conversation introuvable' }, { status: 404 })
+  }
+  const sessionPosts = conversation?.posts ?? []
+  const postPlatforms = Object.fromEntries(sessionPosts.map((post) => [post.id, post.platform]))
+
+  // ── Appel du LLM en streaming ───────────────────────────────────────────────────
+  // À partir d'ici, la réponse est un flux SSE : aperçus `draft`, puis `done` ou `error`
+  const systemPrompt = buildSystemPrompt(connectedPlatforms, mediaPool, timezone, sessionPosts)
+
+  return agentStreamResponse(request.signal, {
+    logPrefix: '[create-posts]',
+    fallbackError: 'Erreur lors de la génération des posts. Veuillez réessayer.',
+  }, async ({ signal, emitDrafts }) => {
+    // Le fournisseur force l'usage du tool (pas de réponse texte libre) ;
+    // relancé une fois si les posts dépassent les limites des plateformes
+    const { toolCall, text } = await callToolWithPlatformRules(llm, {
+      tier: 'agent',
+      maxTokens: 4096,
       system: systemPrompt,
-      // Forcer Claude à utiliser le tool (pas de réponse texte libre)
-      tool_choice: { type: 'any' },
-      tools: CREATE_POSTS_TOOL,
-      messages: [{ role: 'user', content: instruction }],
-    })
+      tools: [CREATE_POSTS_TOOL],
+      // Tours précédents de la conversation, puis la nouvelle instruction
+      messages: [
+        ...agentHistoryMessages(conversation?.messages ?? []),
+        { role: 'user', content: instruction },
+      ],
+      signal,
+      onInput: (input) => emitDrafts(extractDraftPreviews(input, null, postPlatforms)),
+    }, (input) => extractPostContents(input, postPlatforms))
 
     // ── Extraction du résultat du tool ──────────────────────────────────────
-    const toolUseBlock = response.content.find((block) => block.type === 'tool_use')
-    if (!toolUseBlock || toolUseBlock.type !== 'tool_use') {
-      console.error('[create-posts] Claude n\'a pas appelé le tool :', response.content)
-      return NextResponse.json(
-        { error: 'L\'agent n\'a pas pu générer les posts. Veuillez réessayer.' },
-        { status: 500 },
-      )
+    if (!toolCall) {
+      console.error('[create-posts] L\'agent n\'a pas appelé le tool :', text)
+      throw new AgentStreamError('L\'agent n\'a pas pu générer les posts. Veuillez réessayer.')
     }
 
     // ── Validation du résultat du tool ──────────────────────────────────────
-    // Le tool_use.input est parsé automatiquement par le SDK comme Record<string, unknown>
-    const toolOutputParsed = CreatePostsToolOutputSchema.safeParse(toolUseBlock.input)
+    // toolCall.input est du JSON parsé par le fournisseur, non typé
+    const toolOutputParsed = CreatePostsToolOutputSchema.safeParse(toolCall.input)
     if (!toolOutputParsed.success) {
-      console.error('[create-posts] Résultat tool invalide :', toolUseBlock.input)
-      return NextResponse.json(
-        { error: 'L\'agent a retourné un format inattendu. Veuillez réessayer.' },
-        { status: 500 },
-      )
+      console.error('[create-posts] Résultat tool invalide :', toolCall.input)
+      throw new AgentStreamError('L\'agent a retourné un format inattendu. Veuillez réessayer.')
     }
 
     const postDrafts: PostDraft[] = toolOutputParsed.data.posts
+    const postEdits: PostDraftEdit[] = toolOutputParsed.data.edits
+
+    // ── Modifications : uniquement des posts non publiés de la conversation ──
+    const editTargets = postEdits.map((edit) => ({
+      edit,
+      post: sessionPosts.find((post) => post.id === edit.postId),
+    }))
+    if (editTargets.some(({ post }) => !post || post.status === 'PUBLISHED')) {
+      console.error('[create-posts] Modification hors conversation ou d\'un post publié :', postEdits)
+      throw new AgentStreamError('L\'agent a voulu modifier un post indisponible. Reformulez l\'instruction.')
+    }
 
-    // ── Création des posts en DB ────────────────────────────────────────────
-    // createMany crée tous les posts en une seule transaction (atomique)
-    await prisma.post.createMany({
-      data: postDrafts.map((draft) => {
-        // Calculer la date et le statut pour chaque post
-        const scheduledDate = draft.scheduledFor ? new Date(draft.scheduledFor) : null
-        const isValidFutureDate = scheduledDate !== null
-          && !isNaN(scheduledDate.getTime())
-          && scheduledDate > new Date()
-
-        return {
-          userId: session.user.id,
-          platform: draft.platform,
-          text: draft.text,
-          // Filtrer les URLs vides ou invalides (protection défensive)
-          mediaUrls: draft.mediaUrls.filter((url) => url.startsWith('http')),
-          scheduledFor: isValidFutureDate ? scheduledDate : null,
-          // Status SCHEDULED si date valide dans le futur, DRAFT sinon
-          status: isValidFutureDate ? ('SCHEDULED' as const) : ('DRAFT' as const),
+    // ── Résolution du compte ciblé par chaque post ──────────────────────────
+    // Choix du composer > choix de l'agent > compte unique de la plateforme.
+    // Un post planifié sans compte déterminable est refusé (jamais de choix arbitraire) ;
+    // un brouillon peut rester sans compte, à choisir avant planification.
+    const postsData = []
+    // Corrections et modifications non appliquées, renvoyées à l'utilisateur
+    const warnings: string[] = []
+    // Créneaux « meilleur moment » déjà attribués par plateforme (pas deux posts au même créneau)
+    const bestTimesTaken = new Map<string, Date[]>()
+    for (const draft of postDrafts) {
+      // Meilleur moment : créneau calculé côté serveur, brouillon si aucun n'est disponible
+      let scheduledFor = draft.scheduledFor
+      if (draft.bestTime && !scheduledFor) {
+        try {
+          const taken = bestTimesTaken.get(draft.platform) ?? []
+          const suggestion = await findBestTime(workspace, session.user.id, [draft.platform], { taken })
+          if (suggestion) {
+            scheduledFor = suggestion.scheduledFor.toISOString()
+            bestTimesTaken.set(draft.platform, [...taken, suggestion.scheduledFor])
+          }
+        } catch (bestTimeError) {
+          console.warn('[create-posts] Meilleur moment indisponible (post en brouillon) :', bestTimeError)
         }
-      }),
-    })
+      }
 
-    // ── Récupération des posts créés pour la réponse ────────────────────────
-    // On récupère les posts récemment créés (triés par création décroissante)
-    // pour pouvoir retourner leur ID à l'UI
-    const createdPosts = await prisma.post.findMany({
-      where: {
+      // Calculer la date et le statut pour chaque post
+      const scheduledDate = scheduledFor ? new Date(scheduledFor) : null
+      let isValidFutureDate = scheduledDate !== null
+        && !isNaN(scheduledDate.getTime())
+        && scheduledDate > new Date()
+
+      // Règles de la plateforme : correction de ce que la relance n'a pas corrigé.
+      // Filtrer d'abord les URLs vides ou invalides (protection défensive).
+      const content = repairPostContent({
+        platform: draft.platform,
+        text: draft.text,
+        mediaUrls: draft.mediaUrls.filter((url) => url.startsWith('http')),
+        threadParts: draft.threadParts?.map((part) => ({
+          text: part.text,
+          mediaUrls: part.mediaUrls.filter((url) => url.startsWith('http')),
+        })),
+        platformOptions: draft.platformOptions,
+      }, isValidFutureDate ? 'SCHEDULED' : 'DRAFT')
+      warnings.push(...content.warnings)
+      if (content.violations.some((violation) => violation.type === 'unknown_platform')) {
+        warnings.push(`${platformViolationsError(content.violations)} — post ignoré`)
+        continue
+      }
+      // Média ou option obligatoire manquant : le post ne peut pas être planifié
+      if (content.violations.length > 0 && isValidFutureDate) {
+        warnings.push(`${platformViolationsError(content.violations)} — post laissé en brouillon`)
+        isValidFutureDate = false
+      }
+
+      const target = resolveTargetAccount(
+        connectedPlatforms,
+        draft.platform,
+        accountSelections[draft.platform] ?? draft.connectedPlatformId,
+      )
+      if (!target.ok && isValidFutureDate) {
+        throw new AgentStreamError(target.error)
+      }
+
+      postsData.push({
+        userId: session.user.id,
+        workspaceId: workspace.id,
+        platform: draft.platform,
+        connectedPlatformId: target.ok ? target.connectedPlatformId : null,
+        text: content.text,
+        mediaUrls: content.mediaUrls,
+        mediaAltTexts: normalizeMediaAltTexts(poolAltTexts, content.mediaUrls),
+        threadParts: content.threadParts,
+        platformOptions: content.platformOptions,
+        scheduledFor: isValidFutureDate ? scheduledDate : null,
+        // Status SCHEDULED si date valide dans le futur, DRAFT sinon.
+        // Validation exigée : le post daté part en revue (la date est conservée pour la planification)
+        status: !isValidFutureDate
+          ? ('DRAFT' as const)
+          : requireApproval ? ('PENDING_REVIEW' as const) : ('SCHEDULED' as const),
+      })
+    }
+
+    // Annulation pendant la résolution des comptes : aucune écriture en DB
+    signal.throwIfAborted()
+
+    // ── Conversation : tour ajouté à la conversation en cours, sinon nouvelle ──
+    const agentSessionId = conversation?.id
+      ?? await createAgentSession(workspace.id, session.user.id, instruction)
+
+    // ── Création de la campagne + des posts en DB ───────────────────────────
+    // Tous les posts d'une même instruction partagent un PostGroup (campagne) :
+    // replanification, annulation, duplication et suppression groupées.
+    // createMany imbriqué : groupe et posts créés dans une seule requête (atomique).
+    // Tour de suivi sans nouveau post (modifications seules) : pas de campagne.
+    const group: { id: string } | null = postsData.length === 0 ? null : await prisma.postGroup.create({
+      data: {
         userId: session.user.id,
-        // Filtre temporel : posts créés dans les 10 dernières secondes
-        // (évite de retourner d'anciens posts si createMany échouait silencieusement)
-        createdAt: { gte: new Date(Date.now() - 10_000) },
+        workspaceId: workspace.id,
+        instruction,
+        posts: {
+          createMany: { data: postsData.map((data) => ({ ...data, agentSessionId })) },
+        },
       },
-      orderBy: { createdAt: 'desc' },
-      take: postDrafts.length,
+      select: { id: true },
     })
 
+    // ── Récupération des posts créés pour la réponse ────────────────────────
+    // Filtre par groupe : exactement les posts de cette instruction
+    const createdPosts: CreatedPost[] = group
+      ? await prisma.post.findMany({
+          where: { workspaceId: workspace.id, groupId: group.id },
+          orderBy: { createdAt: 'desc' },
+        })
+      : []
+
+    // ── Historique : posts soumis à validation par l'agent ──────────────────
+    const submittedIds: string[] = createdPosts
+      .filter((p: { status: string }) => p.status === 'PENDING_REVIEW')
+      .map((p: { id: string }) => p.id)
+    await recordPostEvents(prisma, submittedIds.map((postId) => ({
+      postId,
+      actorId: session.user.id,
+      action: 'SUBMITTED' as const,
+      fromStatus: null,
+      toStatus: 'PENDING_REVIEW' as const,
+      comment: 'Généré par l\'agent — validation requise avant planification',
+    })))
+
+    // ── Journal d'audit : campagne + posts créés ────────────────────────────
+    const actor = userActor(session.user)
+    await recordAuditEvents(prisma, [
+      ...(group ? [{
+        workspaceId: workspace.id,
+        actor,
+        entityType: 'POST_GROUP' as const,
+        entityId: group.id,
+        entityLabel: auditExcerpt(instruction),
+        action: 'CREATED' as const,
+        after: { instruction },
+      }] : []),
+      ...createdPosts.map((post: { id: string } & PostAuditFields) => ({
+        workspaceId: workspace.id,
+        actor,
+        entityType: 'POST' as const,
+        entityId: post.id,
+        action: 'CREATED' as const,
+        after: postAuditSnapshot(post),
+      })),
+    ])
+
     // ── Déclenchement des events Inngest pour les posts planifiés ──────────
     // Filtre uniquement les posts avec status SCHEDULED (date valide dans le futur).
     // Les posts DRAFT (scheduledFor = null) ne déclenchent pas d'event.
@@ -395,12 +726,50 @@ export async function POST(request: Request): Promise<NextResponse> {
       }
     }
 
-    return NextResponse.json({ posts: createdPosts })
-  } catch (error) {
-    console.error('[create-posts] Erreur :', error)
-    return NextResponse.json(
-      { error: 'Erreur lors de la génération des posts. Veuillez réessayer.' },
-      { status: 500 },
-    )
-  }
+    // ── Modifications des posts de la conversation ──────────────────────────
+    // Appliquées une à une : un compte indéterminable pour une replanification
+    // n'empêche pas les autres modifications (avertissement dans la réponse)
+    const updatedPosts: Post[] = []
+    for (const { edit, post } of editTargets) {
+      const result = await applyAgentPostEdit({
+        workspaceId: workspace.id,
+        user: session.user,
+        post: post!,
+        instruction,
+        output: edit,
+        agentSessionId,
+        poolAltTexts,
+        now: new Date(),
+      })
+      if (result.ok) {
+        updatedPosts.push(result.post)
+        warnings.push(...result.warnings)
+      } else {
+        warnings.push(`${post!.platform} : ${result.error}`)
+      }
+    }
+    if (updatedPosts.length > 0) {
+      revalidatePath('/compose')
+      revalidatePath('/calendar')
+      revalidatePath('/kanban')
+    }
+
+    // ── Conversation : instruction + réponse de l'agent ─────────────────────
+    await recordAgentTurn(prisma, {
+      sessionId: agentSessionId,
+      instruction,
+      toolName: toolCall.name,
+      toolInput: toolCall.input,
+      postIds: [...createdPosts, ...updatedPosts].map((post: { id: string }) => post.id),
+      summary: [
+        summarizeAgentTurn(
+          createdPosts.map((post: { platform: string }) => post.platform),
+          updatedPosts.map((post) => post.platform),
+        ),
+        ...warnings,
+      ].join('\n'),
+    })
+
+    return { posts: createdPosts, updatedPosts, sessionId: agentSessionId, warnings }
+  })
 }
@@ -10,25 +10,32 @@
  *   Retourne le post mis à jour.
  *
  *   Flow complet :
- *   1. Authentification (better-auth)
- *   2. Validation Zod du body (postId + instruction + mediaPool optionnel)
- *   3. Chargement du post avec ownership check (where: { id, userId })
- *   4. Appel Claude Sonnet → tool_use "edit_post"
+ *   1. Authentification (better-auth) + rôle EDITOR dans le workspace actif
+ *   2. Validation Zod du body (postId + instruction + mediaPool / compte ciblé optionnels)
+ *   3. Chargement du post avec ownership check (where: { id, workspaceId })
+ *      + conversation agent en cours (sessionId, sinon celle du post) pour l'historique
+ *   4. Appel du LLM en streaming (LLM_PROVIDER, Claude par défaut) → tool "edit_post"
  *      - Context : texte actuel + plateforme + règles
- *   5. Extraction + mise à jour en DB
+ *      - Aperçu SSE `draft` du texte en cours d'écriture ; annulable : le post
+ *        n'est pas modifié si le client se déconnecte avant la fin de la génération
+ *      - Relancé une fois si le résultat enfreint les règles de la plateforme
+ *   5. Extraction, correction mécanique du contenu (règles de la plateforme), résolution
+ *      du compte ciblé + mise à jour en DB (révision AGENT : annulable) via
+ *      applyAgentPostEdit (lib/agent-post-edit.ts), puis tour enregistré dans la conversation
  *   6. revalidatePath('/compose') + revalidatePath('/calendar')
- *   7. Retour { post: Post }
+ *   7. Évènement SSE `done` { post: Post, sessionId, warnings }
  *
  * @example
  *   const res = await fetch('/api/agent/edit-post', {
  *     method: 'POST',
+ *     signal: abortController.signal,
  *     body: JSON.stringify({
  *       postId: 'clx...',
  *       instruction: 'Rends le texte plus engageant et ajoute 3 hashtags',
  *       mediaPool: [],  // optionnel
  *     }),
  *   })
- *   const { post } = await res.json()
+ *   const { post } = await readAgentStream<{ post: Post }>(res, setDrafts)
  */
 
 import { headers } from 'next/headers'
@@ -36,12 +43,33 @@ import { revalidatePath } from 'next/cache'
 import { NextResponse } from 'next/server'
 import { z } from 'zod'
 
-import { anthropic, AGENT_MODEL } from '@/lib/ai'
+import {
+  AgentPlatformOptionsSchema,
+  AgentThreadPartsSchema,
+  callToolWithPlatformRules,
+  describePlatformOptions,
+  PLATFORM_OPTIONS_TOOL_PROPERTY,
+  THREAD_PARTS_TOOL_PROPERTY,
+} from '@/lib/agent-platform-rules'
+import { AGENT_EDITABLE_POST_SELECT, applyAgentPostEdit } from '@/lib/agent-post-edit'
+import type { AgentEditablePost } from '@/lib/agent-post-edit'
+import { createAgentSession, loadAgentSession, recordAgentTurn } from '@/lib/agent-sessions'
+import { AgentStreamError, agentStreamResponse } from '@/lib/agent-stream'
 import { auth } from '@/lib/auth'
+import { getLlmProvider } from '@/lib/llm'
+import type { LlmToolDefinition } from '@/lib/llm'
 import { rateLimiters, rateLimitResponse } from '@/lib/rate-limit'
-import { inngest } from '@/lib/inngest/client'
 import { prisma } from '@/lib/prisma'
+import { formatUtcOffset, getTimezoneOffset } from '@/lib/timezone'
+import { getUserTimezone } from '@/lib/user-timezone'
+import { getWorkspaceContext } from '@/lib/workspace'
+import { normalizePlatformOptions } from '@/modules/platforms/config/platform-options'
 import { PLATFORM_RULES } from '@/modules/platforms/config/platform-rules'
+import { ALT_TEXT_MAX_LENGTH } from '@/modules/posts/utils/accessibility'
+import { agentHistoryMessages, summarizeAgentTurn } from '@/modules/posts/utils/agent-session'
+import { extractDraftPreviews } from '@/modules/posts/utils/agent-stream'
+import { normalizeThreadParts } from '@/modules/posts/utils/thread'
+import { workspaceRoleError } from '@/modules/workspaces/utils/roles'
 
 // ─── Schémas de validation du body ────────────────────────────────────────────
 
@@ -50,6 +78,8 @@ const PoolMediaSchema = z.object({
   url: z.string().url(),
   type: z.enum(['photo', 'video']),
   filename: z.string(),
+  /** Texte alternatif (galerie) — repris dans Post.mediaAltTexts si le média est ajouté */
+  altText: z.string().max(ALT_TEXT_MAX_LENGTH).optional(),
 })
 
 /** Schéma du body de la requête d'édition */
@@ -60,6 +90,10 @@ const EditPostRequestSchema = z.object({
   instruction: z.string().min(1, 'Instruction requise').max(2000),
   /** Pool de médias disponibles (optionnel — si fourni, l'agent peut remplacer les médias) */
   mediaPool: z.array(PoolMediaSchema).max(50).default([]),
+  /** Compte ciblé choisi dans le composer (plateformes multi-comptes uniquement) */
+  connectedPlatformId: z.string().min(1).optional(),
+  /** Conversation agent à poursuivre (défaut : celle qui a produit le post) */
+  sessionId: z.string().min(1).optional(),
 })
 
 // ─── Schéma de validation du résultat du tool Claude ──────────────────────────
@@ -68,63 +102,65 @@ const EditPostRequestSchema = z.object({
 const EditPostToolOutputSchema = z.object({
   text: z.string().min(1).max(63206),
   mediaUrls: z.array(z.string()).default([]),
+  threadParts: AgentThreadPartsSchema,
+  platformOptions: AgentPlatformOptionsSchema,
   scheduledFor: z.string().nullable().default(null),
 })
 
-// ─── Tool Claude : edit_post ──────────────────────────────────────────────────
+// ─── Tool agent : edit_post ───────────────────────────────────────────────────
 
 /**
- * Définition du tool Anthropic pour l'édition d'un post.
- * Claude remplit ce tool avec le contenu mis à jour du post.
+ * Définition du tool pour l'édition d'un post (JSON Schema, tout fournisseur LLM).
+ * Le modèle remplit ce tool avec le contenu mis à jour du post.
  */
-const EDIT_POST_TOOL: Parameters<typeof anthropic.messages.create>[0]['tools'] = [
-  {
-    name: 'edit_post',
-    description: [
-      'Met à jour le contenu d\'un post existant selon l\'instruction de l\'utilisateur.',
-      'Respecte STRICTEMENT les contraintes de la plateforme cible (maxText, maxPhotos, etc.).',
-      'Conserve les médias actuels sauf si l\'instruction demande de les remplacer.',
-      'Retourne le texte mis à jour, les médias sélectionnés et la date de publication.',
-    ].join(' '),
-    input_schema: {
-      type: 'object' as const,
-      properties: {
-        text: {
-          type: 'string',
-          description: 'Texte mis à jour, adapté aux contraintes de la plateforme',
-        },
-        mediaUrls: {
-          type: 'array',
-          items: { type: 'string' },
-          description: 'URLs des médias à inclure dans le post (depuis les médias actuels ou le nouveau pool)',
-        },
-        scheduledFor: {
-          type: 'string',
-          description: 'Date/heure de publication en ISO 8601. null si pas de date précisée.',
-          nullable: true,
-        },
+const EDIT_POST_TOOL: LlmToolDefinition = {
+  name: 'edit_post',
+  description: [
+    'Met à jour le contenu d\'un post existant selon l\'instruction de l\'utilisateur.',
+    'Respecte STRICTEMENT les contraintes de la plateforme cible (maxText, maxPhotos, etc.).',
+    'Conserve les médias actuels sauf si l\'instruction demande de les remplacer.',
+    'Retourne le texte mis à jour, les médias sélectionnés et la date de publication.',
+  ].join(' '),
+  inputSchema: {
+    type: 'object',
+    properties: {
+      text: {
+        type: 'string',
+        description: 'Texte mis à jour, adapté aux contraintes de la plateforme',
+      },
+      mediaUrls: {
+        type: 'array',
+        items: { type: 'string' },
+        description: 'URLs des médias à inclure dans le post (depuis les médias actuels ou le nouveau pool)',
+      },
+      threadParts: THREAD_PARTS_TOOL_PROPERTY,
+      platformOptions: PLATFORM_OPTIONS_TOOL_PROPERTY,
+      scheduledFor: {
+        type: 'string',
+        description: 'Date/heure de publication en ISO 8601. null si pas de date précisée.',
+        nullable: true,
       },
-      required: ['text', 'mediaUrls', 'scheduledFor'],
     },
+    required: ['text', 'mediaUrls', 'scheduledFor'],
   },
-]
+}
 
 // ─── Handler POST ─────────────────────────────────────────────────────────────
 
 /**
  * POST /api/agent/edit-post
- * Body : { postId: string, instruction: string, mediaPool?: PoolMedia[] }
- * Réponse : { post: Post }
+ * Body : { postId: string, instruction: string, mediaPool?: PoolMedia[], sessionId?: string }
+ * Réponse : flux SSE — `draft` { drafts } pendant la génération, puis `done` { post: Post, sessionId }
+ *   ou `error` { error } (JSON { error } avec statut 4xx/5xx si la requête est refusée avant)
  *
  * Modifie un post existant selon l'instruction et retourne le post mis à jour.
  */
-export async function POST(request: Request): Promise<NextResponse> {
-  // ── Vérification de la configuration Anthropic ────────────────────────────
-  if (!process.env.ANTHROPIC_API_KEY) {
-    return NextResponse.json(
-      { error: 'ANTHROPIC_API_KEY manquante dans .env.local — agent désactivé' },
-      { status: 503 },
-    )
+export async function POST(request: Request): Promise<Response> {
+  // ── Vérification de la configuration du fournisseur LLM ──────────────────
+  const llm = getLlmProvider()
+  const llmConfigError = llm.configError()
+  if (llmConfigError) {
+    return NextResponse.json({ error: llmConfigError }, { status: 503 })
   }
 
   // ── Authentification ──────────────────────────────────────────────────────
@@ -133,6 +169,12 @@ export async function POST(request: Request): Promise<NextResponse> {
     return NextResponse.json({ error: 'Non authentifié' }, { status: 401 })
   }
 
+  const workspace = await getWorkspaceContext(session.user.id)
+  const roleError = workspaceRoleError(workspace.role, 'EDITOR')
+  if (roleError) {
+    return NextResponse.json({ error: roleError }, { status: 403 })
+  }
+
   // ── Rate limiting ─────────────────────────────────────────────────────────
   // Limite à 10 req/min par userId — protège le quota Claude API
   const rl = await rateLimiters.ai(session.user.id)
@@ -154,20 +196,13 @@ export async function POST(request: Request): Promise<NextResponse> {
     )
   }
 
-  const { postId, instruction, mediaPool } = parsed.data
+  const { postId, instruction, mediaPool, connectedPlatformId, sessionId } = parsed.data
 
   // ── Chargement du post avec ownership check ───────────────────────────────
-  // Le filtre userId garantit que l'utilisateur ne peut éditer que ses propres posts
-  const post = await prisma.post.findFirst({
-    where: { id: postId, userId: session.user.id },
-    select: {
-      id: true,
-      platform: true,
-      text: true,
-      mediaUrls: true,
-      scheduledFor: true,
-      status: true,
-    },
+  // Le filtre workspaceId garantit que l'utilisateur ne peut éditer que les posts de son workspace
+  const post: AgentEditablePost | null = await prisma.post.findFirst({
+    where: { id: postId, workspaceId: workspace.id },
+    select: AGENT_EDITABLE_POST_SELECT,
   })
 
   if (!post) {
@@ -183,6 +218,14 @@ export async function POST(request: Request): Promise<NextResponse> {
     )
   }
 
+  // ── Conversation en cours (historique transmis à l'agent) ─────────────────
+  // Conversation rouverte dans la modale, sinon celle qui a produit le post
+  const conversationId = sessionId ?? post.agentSessionId
+  const conversation = conversationId ? await loadAgentSession(workspace.id, conversationId) : null
+  if (sessionId && !conversation) {
+    return NextResponse.json({ error: 'Conversation introuvable' }, { status: 404 })
+  }
+
   // ── Construction du contexte pour Claude ──────────────────────────────────
   const rules = PLATFORM_RULES[post.platform as keyof typeof PLATFORM_RULES]
   const rulesDescription = rules
@@ -191,12 +234,32 @@ export async function POST(request: Request): Promise<NextResponse> {
         rules.maxPhotos > 0 ? `- Max ${rules.maxPhotos} photo(s)` : '- Photos non supportées',
         rules.maxVideos > 0 ? `- Max ${rules.maxVideos} vidéo(s)` : '- Vidéo non supportée',
         rules.requiresMedia ? '- Média obligatoire' : '',
+        rules.supportsThreads ? '- Thread possible (threadParts, mêmes limites par partie)' : '- Thread non supporté',
+        `- ${describePlatformOptions(post.platform as keyof typeof PLATFORM_RULES) ?? 'Aucune option de publication'}`,
       ].filter(Boolean).join('\n')
     : 'Règles inconnues pour cette plateforme'
 
-  // Médias disponibles = médias actuels du post + nouveau pool (si fourni)
+  // Suite du thread actuel (segments après le texte principal)
+  const threadParts = normalizeThreadParts(post.threadParts)
+  const threadSection = threadParts.length > 0
+    ? threadParts.map((part, i) =>
+        `  ${i + 2}. "${part.text}"${part.mediaUrls.length > 0 ? ` (médias : ${part.mediaUrls.join(', ')})` : ''}`,
+      ).join('\n')
+    : '  aucune (post simple)'
+
+  // Options de publication actuelles (titre YouTube, tableau Pinterest…)
+  const platformOptions = normalizePlatformOptions(post.platform, post.platformOptions)
+  const optionsSummary = Object.entries(platformOptions)
+    .map(([key, value]) => `${key} = "${value}"`)
+    .join(', ')
+
+  // Médias disponibles = médias actuels du post (et du thread) + nouveau pool (si fourni)
   const allAvailableMediaUrls = [
-    ...new Set([...post.mediaUrls, ...mediaPool.map((m) => m.url)]),
+    ...new Set([
+      ...post.mediaUrls,
+      ...threadParts.flatMap((part) => part.mediaUrls),
+      ...mediaPool.map((m) => m.url),
+    ]),
   ]
 
   // Date actuelle transmise à Claude pour qu'il génère des dates FUTURES correctes.
@@ -205,17 +268,35 @@ export async function POST(request: Request): Promise<NextResponse> {
   const now = new Date()
   const nowIso = now.toISOString()
 
+  // Fuseau de l'utilisateur : "demain 9h" s'entend dans son heure locale, pas en UTC
+  const timezone = await getUserTimezone(session.user.id)
+  const localNow = now.toLocaleString('fr-FR', {
+    weekday: 'long',
+    year: 'numeric',
+    month: 'long',
+    day: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit',
+    timeZone: timezone,
+  })
+  const offsetLabel = formatUtcOffset(getTimezoneOffset(now, timezone))
+
   const systemPrompt = `Tu es un expert en social media. Tu dois modifier un post existant selon les instructions de l'utilisateur.
 
 ## Date et heure actuelles
 ${nowIso} — Utilise cette date comme référence pour toutes les dates relatives ("demain", "la semaine prochaine", "le 1er mars", etc.).
+Heure locale de l'utilisateur : ${localNow} (fuseau ${timezone}, actuellement ${offsetLabel}).
+Les heures mentionnées par l'utilisateur sont dans ce fuseau : convertis-les en UTC pour scheduledFor.
 Toutes les dates que tu génères pour scheduledFor DOIVENT être dans le futur (après ${nowIso}).
 
 ## Post actuel
 - Plateforme : **${post.platform}**
 - Texte : "${post.text}"
 - Médias actuels : ${post.mediaUrls.length > 0 ? post.mediaUrls.join(', ') : 'aucun'}
-- Date de publication : ${post.scheduledFor ? post.scheduledFor.toISOString() : 'pas de date (brouillon)'}
+- Suite du thread :
+${threadSection}
+- Options de publication : ${optionsSummary || 'aucune'}
+- Date de publication : ${post.scheduledFor ? `${post.scheduledFor.toISOString()} (${post.scheduledFor.toLocaleString('fr-FR', { timeZone: timezone })} heure locale)` : 'pas de date (brouillon)'}
 
 ## Contraintes de la plateforme ${post.platform}
 ${rulesDescription}
@@ -229,113 +310,90 @@ ${allAvailableMediaUrls.length > 0 ? allAvailableMediaUrls.join('\n') : 'Aucun m
 3. Si l'instruction ne mentionne pas les médias, conserve les médias actuels.
 4. Si l'instruction mentionne une date, génère une date ISO 8601 strictement future dans scheduledFor.
 5. Si l'instruction ne mentionne pas de date, recopie la date actuelle (ou null si pas de date).
-6. Retourne le texte complet (pas seulement les modifications).`
-
-  // ── Appel Claude Sonnet ───────────────────────────────────────────────────
-  try {
-    const response = await anthropic.messages.create({
-      model: AGENT_MODEL,
-      max_tokens: 2048,
+6. Retourne le texte complet (pas seulement les modifications).
+7. Thread : si le post en a un, retourne threadParts complet (modifié ou recopié) ; [] pour le supprimer.
+   N'en crée un que si la plateforme le permet et que l'instruction le demande.
+8. Options : omets platformOptions si l'instruction ne les concerne pas ; sinon retourne l'objet complet
+   (clés listées dans les contraintes uniquement, options actuelles recopiées).`
+
+  // ── Appel du LLM en streaming ───────────────────────────────────────────────────
+  // À partir d'ici, la réponse est un flux SSE : aperçus `draft`, puis `done` ou `error`
+  return agentStreamResponse(request.signal, {
+    logPrefix: '[edit-post]',
+    fallbackError: 'Erreur lors de la modification du post. Veuillez réessayer.',
+  }, async ({ signal, emitDrafts }) => {
+    // Relancé une fois si le texte ou les médias dépassent les limites de la plateforme
+    const { toolCall, text } = await callToolWithPlatformRules(llm, {
+      tier: 'agent',
+      maxTokens: 2048,
       system: systemPrompt,
-      tool_choice: { type: 'any' },
-      tools: EDIT_POST_TOOL,
-      messages: [{ role: 'user', content: instruction }],
+      tools: [EDIT_POST_TOOL],
+      // Tours précédents de la conversation, puis la nouvelle instruction
+      messages: [
+        ...agentHistoryMessages(conversation?.messages ?? []),
+        { role: 'user', content: instruction },
+      ],
+      signal,
+      onInput: (input) => emitDrafts(extractDraftPreviews(input, post.platform)),
+    }, (input) => {
+      const output = EditPostToolOutputSchema.safeParse(input)
+      return output.success ? [{ ...output.data, platform: post.platform }] : null
     })
 
     // ── Extraction du résultat du tool ──────────────────────────────────────
-    const toolUseBlock = response.content.find((block) => block.type === 'tool_use')
-    if (!toolUseBlock || toolUseBlock.type !== 'tool_use') {
-      console.error('[edit-post] Claude n\'a pas appelé le tool :', response.content)
-      return NextResponse.json(
-        { error: 'L\'agent n\'a pas pu modifier le post. Veuillez réessayer.' },
-        { status: 500 },
-      )
+    if (!toolCall) {
+      console.error('[edit-post] L\'agent n\'a pas appelé le tool :', text)
+      throw new AgentStreamError('L\'agent n\'a pas pu modifier le post. Veuillez réessayer.')
     }
 
     // ── Validation du résultat du tool ──────────────────────────────────────
-    const toolOutputParsed = EditPostToolOutputSchema.safeParse(toolUseBlock.input)
+    const toolOutputParsed = EditPostToolOutputSchema.safeParse(toolCall.input)
     if (!toolOutputParsed.success) {
-      console.error('[edit-post] Résultat tool invalide :', toolUseBlock.input)
-      return NextResponse.json(
-        { error: 'L\'agent a retourné un format inattendu. Veuillez réessayer.' },
-        { status: 500 },
-      )
+      console.error('[edit-post] Résultat tool invalide :', toolCall.input)
+      throw new AgentStreamError('L\'agent a retourné un format inattendu. Veuillez réessayer.')
     }
 
-    const { text, mediaUrls, scheduledFor: newScheduledForStr } = toolOutputParsed.data
-
-    // ── Calcul de la date et du statut résultant ──────────────────────────
-    const newScheduledDate = newScheduledForStr ? new Date(newScheduledForStr) : null
-    const isValidFutureDate = newScheduledDate !== null
-      && !isNaN(newScheduledDate.getTime())
-      && newScheduledDate > now   // `now` défini plus haut — cohérence avec le prompt
-
-    // Statut précédent du post (pour détecter une transition DRAFT → SCHEDULED)
-    const previousStatus = post.status
-    const newStatus = isValidFutureDate ? 'SCHEDULED' : 'DRAFT'
-
-    // ── Mise à jour en DB ─────────────────────────────────────────────────
-    const updatedPost = await prisma.post.update({
-      where: { id: postId },
-      data: {
-        text,
-        // Filtrer les URLs vides ou invalides avant persistance
-        mediaUrls: mediaUrls.filter((url) => url.startsWith('http')),
-        scheduledFor: isValidFutureDate ? newScheduledDate : null,
-        status: newStatus,
-        // Réinitialiser les champs de publication si on replanifie
-        latePostId: null,
-        failureReason: null,
-        publishedAt: null,
-      },
+    // Annulation pendant la validation : le post n'est pas modifié
+    signal.throwIfAborted()
+
+    // ── Conversation : tour ajouté à la conversation en cours, sinon nouvelle ──
+    const agentSessionId = conversation?.id
+      ?? await createAgentSession(workspace.id, session.user.id, instruction)
+
+    // ── Mise à jour (compte ciblé, révision AGENT, audit, Inngest) ──────────
+    const result = await applyAgentPostEdit({
+      workspaceId: workspace.id,
+      user: session.user,
+      post,
+      instruction,
+      output: toolOutputParsed.data,
+      connectedPlatformId,
+      agentSessionId,
+      poolAltTexts: Object.fromEntries(
+        mediaPool.flatMap((m) => (m.altText ? [[m.url, m.altText]] : [])),
+      ),
+      now,  // `now` défini plus haut — cohérence avec le prompt
     })
-
-    // ── Event Inngest : déclencher la publication si nouvelle date assignée ──
-    // Opération non-bloquante : un échec Inngest (ex: dev server non démarré)
-    // ne doit PAS faire échouer la sauvegarde du post déjà persistée en DB.
-    // Cas couverts :
-    // - DRAFT → SCHEDULED (nouvelle date assignée via l'agent)
-    // - SCHEDULED → SCHEDULED (replanification : annule l'ancien run puis crée le nouveau)
-    if (isValidFutureDate && newScheduledDate) {
-      if (!process.env.INNGEST_EVENT_KEY) {
-        // En local sans clé Inngest, on skip l'envoi — pas de scheduling à déclencher.
-        console.warn('[edit-post] INNGEST_EVENT_KEY non défini — envoi Inngest ignoré (mode local).')
-      } else {
-        try {
-          // Annuler l'éventuel run Inngest précédent avant d'en créer un nouveau
-          // pour éviter deux runs concurrents sur le même post lors d'une replanification.
-          if (previousStatus === 'SCHEDULED') {
-            await inngest.send({ name: 'post/cancel', data: { postId } })
-          }
-
-          await inngest.send({
-            name: 'post/schedule',
-            data: {
-              postId,
-              scheduledFor: newScheduledDate.toISOString(),
-            },
-          })
-        } catch (inngestError) {
-          // Log sans faire échouer la requête — le post est déjà sauvé en DB.
-          // L'utilisateur pourra replanifier manuellement si nécessaire.
-          console.error('[edit-post] Inngest send échoué (non-bloquant) :', inngestError)
-        }
-      }
+    if (!result.ok) {
+      // Conversation créée pour ce tour uniquement : rien à conserver
+      if (!conversation) await prisma.agentSession.delete({ where: { id: agentSessionId } })
+      throw new AgentStreamError(result.error)
     }
 
+    await recordAgentTurn(prisma, {
+      sessionId: agentSessionId,
+      instruction,
+      toolName: toolCall.name,
+      toolInput: toolCall.input,
+      postIds: [postId],
+      summary: summarizeAgentTurn([], [post.platform]),
+    })
+
     // ── Invalidation du cache ─────────────────────────────────────────────
     revalidatePath('/compose')
     revalidatePath('/calendar')
     revalidatePath('/kanban')
 
-    return NextResponse.json({ post: updatedPost })
-  } catch (error) {
-    // Logger l'erreur réelle (visible dans les logs serveur / Vercel)
-    const message = error instanceof Error ? error.message : String(error)
-    console.error('[edit-post] Erreur :', message, error)
-    return NextResponse.json(
-      { error: `Erreur lors de la modification du post : ${message}` },
-      { status: 500 },
-    )
-  }
+    return { post: result.post, sessionId: agentSessionId, warnings: result.warnings }
+  })
 }
@@ -0,0 +1,68 @@
+/**
+ * @file app/api/agent/sessions/[id]/route.ts
+ * @description Route Handler GET : conversation agent avec son historique
+ *   (tables agent_sessions / agent_messages). Affiché par le chat de l'AgentModal
+ *   pour poursuivre une conversation, y compris depuis un post qu'elle a produit.
+ *
+ *   GET /api/agent/sessions/[id]
+ *   → { id, title, createdAt, messages: [{ id, role, content, postIds, createdAt }] }
+ *
+ * @example
+ *   const res = await fetch(`/api/agent/sessions/${post.agentSessionId}`)
+ *   const session: AgentSession = await res.json()
+ */
+
+import { headers } from 'next/headers'
+import { NextRequest, NextResponse } from 'next/server'
+
+import { auth } from '@/lib/auth'
+import { prisma } from '@/lib/prisma'
+import { getWorkspaceContext } from '@/lib/workspace'
+import type { AgentSession } from '@/modules/posts/types'
+
+/**
+ * GET /api/agent/sessions/[id]
+ * Retourne une conversation du workspace actif, messages du plus ancien au plus récent.
+ *
+ * @param request - Requête HTTP
+ * @param params - Paramètres de route contenant l'ID de la conversation
+ * @returns 200 avec la conversation, 401/404 selon le cas
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> },
+): Promise<NextResponse> {
+  // ─── Authentification ─────────────────────────────────────────────────────
+  const session = await auth.api.getSession({ headers: await headers() })
+  if (!session) {
+    return NextResponse.json({ error: 'Non authentifié' }, { status: 401 })
+  }
+
+  const { id: sessionId } = await params
+
+  try {
+    // ─── Ownership check : conversation du workspace actif uniquement ────────
+    const workspace = await getWorkspaceContext(session.user.id)
+    const agentSession: AgentSession | null = await prisma.agentSession.findFirst({
+      where: { id: sessionId, workspaceId: workspace.id },
+      select: {
+        id: true,
+        title: true,
+        createdAt: true,
+        messages: {
+          orderBy: { createdAt: 'asc' },
+          select: { id: true, role: true, content: true, postIds: true, createdAt: true },
+        },
+      },
+    })
+
+    if (!agentSession) {
+      return NextResponse.json({ error: 'Conversation introuvable' }, { status: 404 })
+    }
+
+    return NextResponse.json(agentSession)
+  } catch (error) {
+    console.error('[GET /api/agent/sessions/[id]] Erreur :', error)
+    return NextResponse.json({ error: 'Erreur serveur' }, { status: 500 })
+  }
+}
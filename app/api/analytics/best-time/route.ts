@@ -15,7 +15,8 @@ import { NextRequest, NextResponse } from 'next/server'
 
 import { auth } from '@/lib/auth'
 import { late } from '@/lib/late'
-import { prisma } from '@/lib/prisma'
+import { getWorkspaceContext } from '@/lib/workspace'
+import { mergeBestTimeSlots } from '@/modules/posts/utils/best-time'
 
 export async function GET(req: NextRequest): Promise<NextResponse> {
   const session = await auth.api.getSession({ headers: await headers() })
@@ -24,15 +25,12 @@ export async function GET(req: NextRequest): Promise<NextResponse> {
   const { searchParams } = req.nextUrl
   const platformFilter = searchParams.get('platform') ?? undefined
 
-  // Source de vérité : User.lateWorkspaceId (Prisma).
+  // Source de vérité : Workspace.lateWorkspaceId du workspace actif (Prisma).
   // IMPORTANT : late.profiles.list() retourne TOUS les workspaces liés à LATE_API_KEY,
   // y compris ceux d'autres utilisateurs ogolong → exposition inter-utilisateurs interdite.
-  const user = await prisma.user.findUnique({
-    where: { id: session.user.id },
-    select: { lateWorkspaceId: true },
-  })
-  if (!user?.lateWorkspaceId) return NextResponse.json({ slots: [], bestTimes: [] })
-  const profileIds = [user.lateWorkspaceId]
+  const workspace = await getWorkspaceContext(session.user.id)
+  if (!workspace.lateWorkspaceId) return NextResponse.json({ slots: [], bestTimes: [] })
+  const profileIds = [workspace.lateWorkspaceId]
 
   try {
     const rawResults = await Promise.all(
@@ -42,38 +40,7 @@ export async function GET(req: NextRequest): Promise<NextResponse> {
     )
 
     // Fusion des slots : même créneau (dayOfWeek × hour) → somme postCount + moyenne ER pondérée
-    type SlotKey = string // `${dayOfWeek}-${hour}`
-    const slotMap = new Map<SlotKey, { dayOfWeek: number; hour: number; totalEngagement: number; postCount: number }>()
-
-    for (const raw of rawResults) {
-      type RawSlot = Record<string, unknown>
-      const rawSlots = Array.isArray(raw?.slots) ? (raw.slots as RawSlot[]) : []
-      for (const s of rawSlots) {
-        const dow  = Number(s.day_of_week ?? s.dayOfWeek ?? 0)
-        const hour = Number(s.hour ?? 0)
-        const eng  = Number(s.avg_engagement ?? s.avgEngagement ?? 0)
-        const cnt  = Number(s.post_count ?? s.postCount ?? 0)
-        const key: SlotKey = `${dow}-${hour}`
-
-        const existing = slotMap.get(key)
-        if (existing) {
-          // Somme pondérée pour recalculer la moyenne d'engagement
-          existing.totalEngagement += eng * cnt
-          existing.postCount       += cnt
-        } else {
-          slotMap.set(key, { dayOfWeek: dow, hour, totalEngagement: eng * cnt, postCount: cnt })
-        }
-      }
-    }
-
-    const slots = [...slotMap.values()]
-      .map((s) => ({
-        dayOfWeek:     s.dayOfWeek,
-        hour:          s.hour,
-        avgEngagement: s.postCount > 0 ? s.totalEngagement / s.postCount : 0,
-        postCount:     s.postCount,
-      }))
-      .sort((a, b) => b.avgEngagement - a.avgEngagement)
+    const slots = mergeBestTimeSlots(rawResults)
 
     // Labels lisibles pour le top 3
     const DAYS = ['Lun', 'Mar', 'Mer', 'Jeu', 'Ven', 'Sam', 'Dim']
@@ -15,7 +15,7 @@ import { NextRequest, NextResponse } from 'next/server'
 
 import { auth } from '@/lib/auth'
 import { late } from '@/lib/late'
-import { prisma } from '@/lib/prisma'
+import { getWorkspaceContext } from '@/lib/workspace'
 
 export async function GET(req: NextRequest): Promise<NextResponse> {
   const session = await auth.api.getSession({ headers: await headers() })
@@ -26,15 +26,12 @@ export async function GET(req: NextRequest): Promise<NextResponse> {
   const from = searchParams.get('from') ?? undefined
   const to   = searchParams.get('to')   ?? undefined
 
-  // Source de vérité : User.lateWorkspaceId (Prisma).
+  // Source de vérité : Workspace.lateWorkspaceId du workspace actif (Prisma).
   // IMPORTANT : late.profiles.list() retourne TOUS les workspaces liés à LATE_API_KEY,
   // y compris ceux d'autres utilisateurs ogolong → exposition inter-utilisateurs interdite.
-  const user = await prisma.user.findUnique({
-    where: { id: session.user.id },
-    select: { lateWorkspaceId: true },
-  })
-  if (!user?.lateWorkspaceId) return NextResponse.json({ days: [] })
-  const profileIds = [user.lateWorkspaceId]
+  const workspace = await getWorkspaceContext(session.user.id)
+  if (!workspace.lateWorkspaceId) return NextResponse.json({ days: [] })
+  const profileIds = [workspace.lateWorkspaceId]
 
   try {
     // Appels parallèles Late API
@@ -22,7 +22,7 @@ import { NextRequest, NextResponse } from 'next/server'
 
 import { auth } from '@/lib/auth'
 import { late } from '@/lib/late'
-import { prisma } from '@/lib/prisma'
+import { getWorkspaceContext } from '@/lib/workspace'
 
 // ── Types internes ─────────────────────────────────────────────────────────────
 
@@ -84,16 +84,13 @@ export async function GET(req: NextRequest): Promise<NextResponse> {
   const limit   = searchParams.get('limit')  ? Number(searchParams.get('limit')) : undefined
   const cursor  = searchParams.get('cursor') ?? undefined
 
-  // ── Récupération du workspace Late de l'utilisateur ────────────────────────
-  // Source de vérité : User.lateWorkspaceId (Prisma).
+  // ── Récupération du workspace Late du workspace actif ────────────────────────
+  // Source de vérité : Workspace.lateWorkspaceId du workspace actif (Prisma).
   // IMPORTANT : late.profiles.list() retourne TOUS les workspaces liés à LATE_API_KEY,
   // y compris ceux d'autres utilisateurs ogolong → exposition inter-utilisateurs interdite.
-  const user = await prisma.user.findUnique({
-    where: { id: session.user.id },
-    select: { lateWorkspaceId: true },
-  })
-  if (!user?.lateWorkspaceId) return NextResponse.json(EMPTY_RESPONSE)
-  const profileIds = [user.lateWorkspaceId]
+  const workspace = await getWorkspaceContext(session.user.id)
+  if (!workspace.lateWorkspaceId) return NextResponse.json(EMPTY_RESPONSE)
+  const profileIds = [workspace.lateWorkspaceId]
 
   // ── Appels parallèles Late API (un par profileId) ──────────────────────────
   try {
@@ -0,0 +1,97 @@
+/**
+ * @file app/api/audit/route.ts
+ * @description Route Handler GET : journal d'audit du workspace actif.
+ *   Lisible par tout membre (VIEWER compris) : page /audit et historique d'un
+ *   post dans PostDetailModal. Le journal est en ajout seul — aucune route
+ *   ne le modifie.
+ *
+ *   GET /api/audit?entityType=POST&entityId=clxxx&action=DELETED&actor=usr_123&cursor=clyyy&limit=50
+ *   → { events: [...], nextCursor: "clzzz" | null }
+ *
+ *   `actor=system` filtre les évènements émis par les jobs (Inngest).
+ *   Tri : du plus récent au plus ancien.
+ *
+ * @example
+ *   const res = await fetch('/api/audit?entityType=POST&entityId=clxxx')
+ *   const page: AuditPage = await res.json()
+ */
+
+import { headers } from 'next/headers'
+import { NextRequest, NextResponse } from 'next/server'
+
+import { auth } from '@/lib/auth'
+import { prisma } from '@/lib/prisma'
+import { getWorkspaceContext } from '@/lib/workspace'
+import { AuditFilterSchema } from '@/modules/audit/schemas/audit.schema'
+import type { AuditEvent } from '@/modules/audit/types'
+
+/**
+ * GET /api/audit
+ *
+ * @param request - Requête avec les filtres en query params
+ * @returns 200 avec { events, nextCursor } | 400 si filtres invalides | 401 si non authentifié
+ */
+export async function GET(request: NextRequest): Promise<NextResponse> {
+  // ─── Authentification ─────────────────────────────────────────────────────
+  const session = await auth.api.getSession({ headers: await headers() })
+  if (!session) {
+    return NextResponse.json({ error: 'Non authentifié' }, { status: 401 })
+  }
+
+  // ─── Validation des filtres ───────────────────────────────────────────────
+  const parsed = AuditFilterSchema.safeParse(Object.fromEntries(request.nextUrl.searchParams))
+  if (!parsed.success) {
+    return NextResponse.json(
+      { error: parsed.error.issues[0]?.message ?? 'Filtres invalides' },
+      { status: 400 },
+    )
+  }
+  const { entityType, entityId, action, actor, cursor, limit } = parsed.data
+
+  const workspace = await getWorkspaceContext(session.user.id)
+
+  try {
+    // ── Requête Prisma — pagination cursor ──────────────────────────────────
+    const events: AuditEvent[] = await prisma.auditEvent.findMany({
+      where: {
+        workspaceId: workspace.id,
+        ...(entityType && { entityType }),
+        ...(entityId && { entityId }),
+        ...(action && { action }),
+        // « system » = jobs Inngest, sinon ID d'un membre
+        ...(actor === 'system' && { actorType: 'SYSTEM' as const }),
+        ...(actor && actor !== 'system' && { actorId: actor }),
+      },
+      select: {
+        id: true,
+        actorType: true,
+        actorId: true,
+        actorLabel: true,
+        entityType: true,
+        entityId: true,
+        entityLabel: true,
+        action: true,
+        changes: true,
+        createdAt: true,
+      },
+      // id en second critère : ordre stable pour des évènements de la même transaction
+      orderBy: [{ createdAt: 'desc' }, { id: 'desc' }],
+      ...(cursor !== undefined && {
+        cursor: { id: cursor },
+        skip: 1,
+      }),
+      take: limit,
+    })
+
+    // nextCursor = ID du dernier évènement si la page est complète, null sinon
+    const nextCursor = events.length === limit ? events[events.length - 1].id : null
+
+    return NextResponse.json({ events, nextCursor })
+  } catch (error) {
+    // Curseur inconnu (ne devrait pas arriver : le journal n'est jamais purgé)
+    if (cursor !== undefined) {
+      return NextResponse.json({ error: 'cursor_invalid' }, { status: 400 })
+    }
+    throw error
+  }
+}
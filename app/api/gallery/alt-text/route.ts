@@ -0,0 +1,166 @@
+/**
+ * @file app/api/gallery/alt-text/route.ts
+ * @description Route Handler POST : suggestion de texte alternatif pour une image,
+ *   via un modèle de vision (fournisseur LLM, gamme "filter" — voir lib/llm).
+ *
+ *   Flow :
+ *   1. Authentification better-auth + rate limiting (gamme IA)
+ *   2. Validation Zod du body ({ url, context? }) — images uniquement
+ *   3. Appel du LLM avec l'image jointe et le tool "describe_image"
+ *   4. Retour { altText } — l'utilisateur relit et modifie avant d'enregistrer
+ *
+ *   Utilisé par AltTextDialog (galerie et composer) : la suggestion n'est jamais
+ *   enregistrée directement.
+ *
+ * @example
+ *   const res = await fetch('/api/gallery/alt-text', {
+ *     method: 'POST',
+ *     body: JSON.stringify({ url: 'https://…/post-media/u1/gallery/vitrine.jpg' }),
+ *   })
+ *   const { altText } = await res.json()
+ *   // → { altText: 'Vitrine de la boutique éclairée au coucher du soleil' }
+ */
+
+import { headers } from 'next/headers'
+import { NextRequest, NextResponse } from 'next/server'
+import { z } from 'zod'
+
+import { auth } from '@/lib/auth'
+import { getLlmProvider } from '@/lib/llm'
+import type { LlmToolDefinition } from '@/lib/llm'
+import { rateLimiters, rateLimitResponse } from '@/lib/rate-limit'
+import { ALT_TEXT_MAX_LENGTH } from '@/modules/posts/utils/accessibility'
+import { isVideoUrl } from '@/modules/posts/utils/media.utils'
+
+// ─── Schéma du body entrant ────────────────────────────────────────────────────
+
+/**
+ * Validation Zod du body POST.
+ * `url` : image publique (HTTPS) à décrire · `context` : texte du post, pour
+ * orienter la description (optionnel).
+ */
+const BodySchema = z.object({
+  url: z.string().url().startsWith('https://', 'L\'image doit être accessible en HTTPS'),
+  context: z.string().max(2000).optional(),
+})
+
+/** Entrée attendue du tool describe_image */
+const DescribeImageOutputSchema = z.object({
+  altText: z.string().trim().min(1),
+})
+
+// ─── Définition de l'outil ─────────────────────────────────────────────────────
+
+/**
+ * Outil "describe_image" (JSON Schema, tout fournisseur LLM).
+ * Le modèle y retourne la description de l'image jointe.
+ */
+const describeImageTool: LlmToolDefinition = {
+  name: 'describe_image',
+  description: 'Retourne le texte alternatif (description pour lecteurs d\'écran) de l\'image fournie.',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      altText: {
+        type: 'string',
+        description:
+          'Description factuelle et concise de l\'image, en français, en une ou deux phrases ' +
+          '(idéalement moins de 250 caractères). Inclure le texte visible dans l\'image. ' +
+          'Ne pas commencer par "Image de" ou "Photo de".',
+      },
+    },
+    required: ['altText'],
+  },
+}
+
+// ─── Handler POST ──────────────────────────────────────────────────────────────
+
+/**
+ * POST /api/gallery/alt-text
+ * Suggère un texte alternatif pour une image.
+ *
+ * @param request - Corps : { url: string, context?: string }
+ * @returns 200 { altText } | 400 requête invalide | 401 non authentifié | 500 erreur LLM
+ *   | 503 fournisseur LLM non configuré
+ */
+export async function POST(request: NextRequest): Promise<NextResponse> {
+  // ── Vérification de la configuration du fournisseur LLM ───────────────────
+  const llm = getLlmProvider()
+  const llmConfigError = llm.configError()
+  if (llmConfigError) {
+    return NextResponse.json({ error: llmConfigError }, { status: 503 })
+  }
+
+  // ── Authentification ───────────────────────────────────────────────────────
+  const session = await auth.api.getSession({ headers: await headers() })
+  if (!session) {
+    return NextResponse.json({ error: 'Non authentifié' }, { status: 401 })
+  }
+
+  // ── Rate limiting ──────────────────────────────────────────────────────────
+  // Analyse d'image : même limite que les agents (10 req/min par userId)
+  const rl = await rateLimiters.ai(session.user.id)
+  if (!rl.success) return rateLimitResponse(rl.reset)
+
+  // ── Validation du body ─────────────────────────────────────────────────────
+  let body: unknown
+  try {
+    body = await request.json()
+  } catch {
+    return NextResponse.json({ error: 'Body JSON invalide' }, { status: 400 })
+  }
+
+  const parsed = BodySchema.safeParse(body)
+  if (!parsed.success) {
+    return NextResponse.json(
+      { error: 'Requête invalide', details: parsed.error.issues },
+      { status: 400 },
+    )
+  }
+
+  const { url, context } = parsed.data
+  if (isVideoUrl(url)) {
+    return NextResponse.json({ error: 'Seules les images peuvent être décrites' }, { status: 400 })
+  }
+
+  // ── Prompt système ─────────────────────────────────────────────────────────
+  const systemPrompt = [
+    `Tu rédiges des textes alternatifs d'images pour les réseaux sociaux, lus par les lecteurs d'écran.`,
+    `Décris ce que montre l'image de façon factuelle : sujet, action, lieu, texte visible.`,
+    `N'invente rien, n'interprète pas les émotions au-delà de l'évident, pas de hashtags ni d'emojis.`,
+    `Utilise TOUJOURS le tool describe_image pour retourner la description.`,
+  ].join('\n')
+
+  // ── Appel du LLM ───────────────────────────────────────────────────────────
+  try {
+    const { toolCall } = await llm.callTool({
+      tier: 'filter',
+      maxTokens: 512,
+      system: systemPrompt,
+      tools: [describeImageTool],
+      messages: [{
+        role: 'user',
+        content: context
+          ? `Décris cette image. Elle illustre le post suivant :\n${context}`
+          : 'Décris cette image.',
+        imageUrls: [url],
+      }],
+    })
+
+    const output = DescribeImageOutputSchema.safeParse(toolCall?.input)
+    if (!output.success) {
+      return NextResponse.json(
+        { error: 'Impossible de décrire cette image' },
+        { status: 500 },
+      )
+    }
+
+    return NextResponse.json({ altText: output.data.altText.slice(0, ALT_TEXT_MAX_LENGTH) })
+  } catch (error) {
+    console.error(`[gallery/alt-text] Erreur LLM (${llm.name}) :`, error)
+    return NextResponse.json(
+      { error: 'Erreur lors de l\'appel à l\'IA. Veuillez réessayer.' },
+      { status: 500 },
+    )
+  }
+}
@@ -0,0 +1,73 @@
+/**
+ * @file app/api/gallery/image-hash/route.ts
+ * @description Route Handler POST : dHash d'une image sur le point d'être importée,
+ *   pour proposer de réutiliser un média visuellement proche de la galerie
+ *   (MediaUploader → findDuplicateMedia).
+ *
+ *   L'empreinte est calculée par perceptualHashOfImage (lib/media-processing.ts),
+ *   comme celle des médias stockés : le navigateur n'en calcule aucune, les deux
+ *   empreintes sont donc comparables.
+ *
+ *   Flow :
+ *   1. Authentification better-auth + rate limiting (gamme upload)
+ *   2. Body = contenu brut de l'image (Content-Type image/*), au plus
+ *      PERCEPTUAL_HASH_MAX_BYTES
+ *   3. Retour { perceptualHash } — null si ffmpeg est absent ou l'image illisible
+ *      (seule la copie exacte est alors recherchée)
+ *
+ * @example
+ *   const res = await fetch('/api/gallery/image-hash', {
+ *     method: 'POST',
+ *     headers: { 'Content-Type': file.type },
+ *     body: file,
+ *   })
+ *   const { perceptualHash } = await res.json()
+ *   // → { perceptualHash: 'f0e4c2d8b0a89c3e' }
+ */
+
+import { headers } from 'next/headers'
+import { NextRequest, NextResponse } from 'next/server'
+
+import { auth } from '@/lib/auth'
+import { perceptualHashOfImage } from '@/lib/media-processing'
+import { rateLimiters, rateLimitResponse } from '@/lib/rate-limit'
+import { PERCEPTUAL_HASH_MAX_BYTES } from '@/modules/media/utils/media-hash'
+
+// ─── Handler POST ─────────────────────────────────────────────────────────────
+
+/**
+ * Calcule le dHash de l'image envoyée.
+ *
+ * @returns 200 { perceptualHash } | 400 (pas une image) | 401 | 413 (image trop lourde) | 429
+ */
+export async function POST(request: NextRequest): Promise<NextResponse> {
+  // ── Authentification ───────────────────────────────────────────────────────
+  const session = await auth.api.getSession({ headers: await headers() })
+  if (!session) {
+    return NextResponse.json({ error: 'Non authentifié' }, { status: 401 })
+  }
+
+  // ── Rate limiting ──────────────────────────────────────────────────────────
+  // Un appel par image importée : même limite que les URLs d'upload (20 req/min)
+  const rl = await rateLimiters.upload(session.user.id)
+  if (!rl.success) return rateLimitResponse(rl.reset)
+
+  // ── Validation du body ─────────────────────────────────────────────────────
+  if (!request.headers.get('content-type')?.startsWith('image/')) {
+    return NextResponse.json({ error: 'Seules les images ont une empreinte perceptuelle' }, { status: 400 })
+  }
+  // Taille annoncée vérifiée avant la lecture, taille réelle après
+  const declaredSize = Number(request.headers.get('content-length') ?? 0)
+  if (declaredSize > PERCEPTUAL_HASH_MAX_BYTES) {
+    return NextResponse.json({ error: 'Image trop lourde pour la recherche de doublons' }, { status: 413 })
+  }
+  const bytes = new Uint8Array(await request.arrayBuffer())
+  if (bytes.byteLength === 0) {
+    return NextResponse.json({ error: 'Image vide' }, { status: 400 })
+  }
+  if (bytes.byteLength > PERCEPTUAL_HASH_MAX_BYTES) {
+    return NextResponse.json({ error: 'Image trop lourde pour la recherche de doublons' }, { status: 413 })
+  }
+
+  return NextResponse.json({ perceptualHash: await perceptualHashOfImage(bytes) })
+}
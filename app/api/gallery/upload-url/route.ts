@@ -28,6 +28,7 @@ import { headers } from 'next/headers'
 import { NextRequest, NextResponse } from 'next/server'
 
 import { auth } from '@/lib/auth'
+import { checkStorageQuota } from '@/lib/storage-quota'
 // createServiceClient bypasse la RLS Supabase — l'auth est gérée par better-auth
 // et déjà vérifiée dans ce handler (session obligatoire).
 import { createServiceClient } from '@/lib/supabase/server'
@@ -48,7 +49,9 @@ const MEDIA_BUCKET = 'post-media'
  * @returns 200 avec { signedUrl, publicUrl, path, mimeType }
  * @returns 400 si les données sont invalides
  * @returns 401 si non authentifié
+ * @returns 413 si le fichier dépasse le quota de stockage de l'utilisateur
  * @returns 500 si la génération du presigned URL échoue
+ * @returns 503 si le quota de stockage ne peut pas être vérifié
  */
 export async function POST(request: NextRequest): Promise<NextResponse> {
   // ─── Authentification ──────────────────────────────────────────────────────
@@ -74,7 +77,22 @@ export async function POST(request: NextRequest): Promise<NextResponse> {
     )
   }
 
-  const { filename, mimeType } = parsed.data
+  const { filename, mimeType, size } = parsed.data
+
+  // ─── Quota de stockage ────────────────────────────────────────────────────────
+  let quotaError: string | null
+  try {
+    quotaError = await checkStorageQuota(session.user.id, size)
+  } catch (err) {
+    console.error('[gallery/upload-url] Quota de stockage illisible :', err)
+    return NextResponse.json(
+      { error: 'Impossible de vérifier l\'espace de stockage, réessayez dans un instant' },
+      { status: 503 },
+    )
+  }
+  if (quotaError) {
+    return NextResponse.json({ error: quotaError }, { status: 413 })
+  }
 
   // ─── Construction du chemin dans le bucket ─────────────────────────────────
   // Format galerie : userId/gallery/timestamp-filename (préfixe "gallery/" distinctif)
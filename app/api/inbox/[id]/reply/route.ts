@@ -0,0 +1,105 @@
+/**
+ * @file app/api/inbox/[id]/reply/route.ts
+ * @description Route Handler POST : répond à un message ou commentaire de l'inbox.
+ *
+ *   Vérifie que le message appartient bien au workspace Late du workspace actif
+ *   avant de relayer la réponse (la clé LATE_API_KEY est partagée entre utilisateurs).
+ *   Répondre au nom des comptes partagés exige le rôle EDITOR.
+ *
+ *   POST /api/inbox/{messageId}/reply
+ *   → Body : { text: string }
+ *   → Response : { success: true }
+ *
+ * @example
+ *   await fetch(`/api/inbox/${messageId}/reply`, {
+ *     method: 'POST',
+ *     headers: { 'Content-Type': 'application/json' },
+ *     body: JSON.stringify({ text: 'Merci !' }),
+ *   })
+ */
+
+import { headers } from 'next/headers'
+import { NextRequest, NextResponse } from 'next/server'
+
+import { auth } from '@/lib/auth'
+import { late } from '@/lib/late'
+import { rateLimiters, rateLimitResponse } from '@/lib/rate-limit'
+import { getWorkspaceContext } from '@/lib/workspace'
+import { InboxReplySchema } from '@/modules/inbox/schemas/inbox.schema'
+import { workspaceRoleError } from '@/modules/workspaces/utils/roles'
+
+/**
+ * POST /api/inbox/[id]/reply
+ * Publie une réponse à un message de l'inbox via getlate.dev.
+ *
+ * @param request - Requête avec body JSON { text }
+ * @param params - Paramètres de route (id = ID du message Late)
+ * @returns 200 avec { success: true }
+ * @returns 400 si le body est invalide
+ * @returns 401 si non authentifié
+ * @returns 403 si rôle Lecteur dans le workspace
+ * @returns 404 si le message n'appartient pas au workspace
+ * @returns 429 si le rate limit est dépassé
+ * @returns 500 si l'envoi échoue
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> },
+): Promise<NextResponse> {
+  // ─── Authentification ─────────────────────────────────────────────────────
+  const session = await auth.api.getSession({ headers: await headers() })
+  if (!session) {
+    return NextResponse.json({ error: 'Non authentifié' }, { status: 401 })
+  }
+
+  const workspace = await getWorkspaceContext(session.user.id)
+  const roleError = workspaceRoleError(workspace.role, 'EDITOR')
+  if (roleError) {
+    return NextResponse.json({ error: roleError }, { status: 403 })
+  }
+
+  // ─── Rate limiting ────────────────────────────────────────────────────────
+  const rl = await rateLimiters.inbox(session.user.id)
+  if (!rl.success) return rateLimitResponse(rl.reset)
+
+  // ─── Validation du body ───────────────────────────────────────────────────
+  let body: unknown
+  try {
+    body = await request.json()
+  } catch {
+    return NextResponse.json({ error: 'Body JSON invalide' }, { status: 400 })
+  }
+
+  const parsed = InboxReplySchema.safeParse(body)
+  if (!parsed.success) {
+    return NextResponse.json(
+      { error: parsed.error.issues[0]?.message ?? 'Données invalides' },
+      { status: 400 },
+    )
+  }
+
+  const { id: messageId } = await params
+
+  try {
+    // ─── Vérification de propriété ───────────────────────────────────────────
+    if (!workspace.lateWorkspaceId) {
+      return NextResponse.json({ error: 'Message introuvable' }, { status: 404 })
+    }
+
+    const messages = await late.inbox.list(workspace.lateWorkspaceId)
+    if (!messages.some((m) => m.id === messageId)) {
+      return NextResponse.json({ error: 'Message introuvable' }, { status: 404 })
+    }
+
+    // ─── Envoi de la réponse ─────────────────────────────────────────────────
+    await late.inbox.reply(messageId, parsed.data.text)
+
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    console.error('[inbox/reply] Erreur :', error)
+    return NextResponse.json(
+      { error: 'Impossible d\'envoyer la réponse' },
+      { status: 500 },
+    )
+  }
+}
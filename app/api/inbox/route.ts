@@ -0,0 +1,177 @@
+/**
+ * @file app/api/inbox/route.ts
+ * @description Route Handler GET : inbox unifiée (messages et commentaires reçus).
+ *
+ *   Source : late.inbox.list(Workspace.lateWorkspaceId), restreinte aux plateformes
+ *   connectées et actives du workspace actif (ConnectedPlatform.isActive).
+ *
+ *   Les messages sont regroupés en fils par post d'origine :
+ *   LateInboxMessage.postId ↔ Post.latePostId (posts du workspace uniquement).
+ *   Un message direct (sans postId) forme son propre fil.
+ *
+ *   GET /api/inbox?platform=instagram&read=unread
+ *   → { threads: InboxThread[], unreadCount: number }
+ *
+ * @example
+ *   const res = await fetch('/api/inbox?read=unread')
+ *   const { threads, unreadCount } = await res.json()
+ */
+
+import { headers } from 'next/headers'
+import { NextRequest, NextResponse } from 'next/server'
+
+import { auth } from '@/lib/auth'
+import { late } from '@/lib/late'
+import type { LateInboxMessage } from '@/lib/late'
+import { prisma } from '@/lib/prisma'
+import { rateLimiters, rateLimitResponse } from '@/lib/rate-limit'
+import { getWorkspaceContext } from '@/lib/workspace'
+import { InboxQuerySchema } from '@/modules/inbox/schemas/inbox.schema'
+import type { InboxThread, InboxThreadPost } from '@/modules/inbox/types'
+
+/**
+ * GET /api/inbox
+ * Retourne les fils de l'inbox filtrés par plateforme et état de lecture.
+ *
+ * @param request - Requête avec query params optionnels `platform` et `read`
+ * @returns 200 avec { threads, unreadCount }
+ * @returns 400 si les paramètres sont invalides
+ * @returns 401 si non authentifié
+ * @returns 429 si le rate limit est dépassé
+ * @returns 502 si l'API Late est injoignable
+ */
+export async function GET(request: NextRequest): Promise<NextResponse> {
+  // ─── Authentification ─────────────────────────────────────────────────────
+  const session = await auth.api.getSession({ headers: await headers() })
+  if (!session) {
+    return NextResponse.json({ error: 'Non authentifié' }, { status: 401 })
+  }
+
+  const userId = session.user.id
+
+  // ─── Rate limiting ────────────────────────────────────────────────────────
+  const rl = await rateLimiters.inbox(userId)
+  if (!rl.success) return rateLimitResponse(rl.reset)
+
+  // ─── Validation des query params ──────────────────────────────────────────
+  const { searchParams } = request.nextUrl
+  const parsed = InboxQuerySchema.safeParse({
+    platform: searchParams.get('platform') ?? undefined,
+    read: searchParams.get('read') ?? undefined,
+  })
+  if (!parsed.success) {
+    return NextResponse.json(
+      { error: parsed.error.issues[0]?.message ?? 'Paramètres invalides' },
+      { status: 400 },
+    )
+  }
+
+  const { platform, read } = parsed.data
+  const platformFilter = platform && platform !== 'all' ? platform : null
+
+  // Source de vérité : Workspace.lateWorkspaceId du workspace actif (Prisma).
+  // IMPORTANT : ne jamais lister les profils via late.profiles.list() — ils incluent
+  // les workspaces des autres utilisateurs (clé LATE_API_KEY partagée).
+  const workspace = await getWorkspaceContext(userId)
+  const connectedPlatforms: { platform: string }[] = await prisma.connectedPlatform.findMany({
+    where: { workspaceId: workspace.id, isActive: true },
+    select: { platform: true },
+  })
+
+  if (!workspace.lateWorkspaceId || connectedPlatforms.length === 0) {
+    return NextResponse.json({ threads: [], unreadCount: 0 })
+  }
+
+  const connectedSet = new Set(connectedPlatforms.map((p: { platform: string }) => p.platform))
+
+  // ─── Récupération des messages Late ───────────────────────────────────────
+  let messages: LateInboxMessage[]
+  try {
+    messages = await late.inbox.list(workspace.lateWorkspaceId)
+  } catch (error) {
+    console.error('[inbox] Erreur late.inbox.list :', error)
+    return NextResponse.json(
+      { error: 'Impossible de récupérer les messages' },
+      { status: 502 },
+    )
+  }
+
+  // Uniquement les plateformes encore connectées (un compte déconnecté ne doit plus apparaître)
+  const scoped = messages.filter((m) => connectedSet.has(m.platform))
+  const unreadCount = scoped.filter((m) => !m.isRead).length
+
+  // ─── Filtres plateforme + état de lecture ─────────────────────────────────
+  const filtered = scoped.filter((m) => {
+    if (platformFilter && m.platform !== platformFilter) return false
+    if (read === 'unread') return !m.isRead
+    if (read === 'read') return m.isRead
+    return true
+  })
+
+  // ─── Regroupement en fils ─────────────────────────────────────────────────
+  const threadMap = new Map<string, InboxThread>()
+
+  for (const message of filtered) {
+    const key = message.postId ? `post:${message.postId}` : `message:${message.id}`
+    const existing = threadMap.get(key)
+    if (existing) {
+      existing.messages.push(message)
+      if (!message.isRead) existing.unreadCount++
+      if (message.createdAt > existing.lastMessageAt) existing.lastMessageAt = message.createdAt
+    } else {
+      threadMap.set(key, {
+        key,
+        platform: message.platform,
+        latePostId: message.postId ?? null,
+        post: null,
+        messages: [message],
+        unreadCount: message.isRead ? 0 : 1,
+        lastMessageAt: message.createdAt,
+      })
+    }
+  }
+
+  // ─── Liaison avec les posts ogolong (Post.latePostId) ─────────────────────
+  const latePostIds = [...threadMap.values()]
+    .map((t) => t.latePostId)
+    .filter((id): id is string => id !== null)
+
+  if (latePostIds.length > 0) {
+    const posts = await prisma.post.findMany({
+      // Filtre workspaceId : un postId Late ne doit jamais révéler le post d'un autre workspace
+      where: { workspaceId: workspace.id, latePostId: { in: latePostIds } },
+      select: {
+        id: true,
+        text: true,
+        platform: true,
+        mediaUrls: true,
+        publishedAt: true,
+        platformPostUrl: true,
+        latePostId: true,
+      },
+    })
+
+    for (const post of posts as (InboxThreadPost & { latePostId: string | null })[]) {
+      const thread = threadMap.get(`post:${post.latePostId}`)
+      if (!thread) continue
+      thread.post = {
+        id: post.id,
+        text: post.text,
+        platform: post.platform,
+        mediaUrls: post.mediaUrls,
+        publishedAt: post.publishedAt,
+        platformPostUrl: post.platformPostUrl,
+      }
+    }
+  }
+
+  // Messages du plus ancien au plus récent dans un fil, fils du plus récent au plus ancien
+  const threads = [...threadMap.values()]
+    .map((t) => ({
+      ...t,
+      messages: t.messages.sort((a, b) => a.createdAt.localeCompare(b.createdAt)),
+    }))
+    .sort((a, b) => b.lastMessageAt.localeCompare(a.lastMessageAt))
+
+  return NextResponse.json({ threads, unreadCount })
+}
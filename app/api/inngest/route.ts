@@ -16,9 +16,17 @@
 import { serve } from 'inngest/next'
 
 import { inngest } from '@/lib/inngest/client'
+import { cleanupUserMedia } from '@/lib/inngest/functions/cleanup-user-media'
 import { handlePostFailure } from '@/lib/inngest/functions/handle-post-failure'
+import { hashMedia } from '@/lib/inngest/functions/hash-media'
+import { materializeNextOccurrence } from '@/lib/inngest/functions/materialize-next-occurrence'
+import { mediaCleanupCron } from '@/lib/inngest/functions/media-cleanup-cron'
+import { mediaHashBackfillCron } from '@/lib/inngest/functions/media-hash-backfill-cron'
+import { processMedia } from '@/lib/inngest/functions/process-media'
 import { publishScheduledPost } from '@/lib/inngest/functions/publish-scheduled-post'
+import { sendWeeklyRecap } from '@/lib/inngest/functions/send-weekly-recap'
 import { watchdogScheduledPost } from '@/lib/inngest/functions/watchdog-scheduled-post'
+import { weeklyRecapCron } from '@/lib/inngest/functions/weekly-recap-cron'
 
 /**
  * Durée maximale d'exécution Lambda Vercel en secondes.
@@ -46,5 +54,21 @@ export const { GET, POST, PUT } = serve({
     handlePostFailure,
     // Watchdog : vérifie 5 min après scheduledFor que le post a bien été publié
     watchdogScheduledPost,
+    // Séries récurrentes : crée l'occurrence suivante après chaque publication
+    materializeNextOccurrence,
+    // Cron du lundi 8h : fan-out "recap/weekly.user" vers les abonnés au récap
+    weeklyRecapCron,
+    // Construit et envoie le récapitulatif hebdomadaire d'un utilisateur
+    sendWeeklyRecap,
+    // Médias : sondage après l'upload, empreintes puis variantes vidéo par plateforme
+    processMedia,
+    // Cron de 3h : fan-out "media/hash" vers les médias sans empreinte
+    mediaHashBackfillCron,
+    // Calcule les empreintes d'un média importé avant leur calcul côté serveur
+    hashMedia,
+    // Cron du dimanche 4h : fan-out "media/cleanup.user" par dossier du bucket
+    mediaCleanupCron,
+    // Supprime les fichiers orphelins d'un dossier utilisateur
+    cleanupUserMedia,
   ],
 })
@@ -0,0 +1,119 @@
+/**
+ * @file app/api/notifications/unsubscribe/route.ts
+ * @description Route Handler de désinscription (emails de notification).
+ *
+ *   Route publique (pas de session requise) : l'authentification repose sur le
+ *   jeton HMAC signé et daté (voir lib/unsubscribe.ts) présent dans le lien de l'email.
+ *
+ *   GET  /api/notifications/unsubscribe?token=xxx
+ *   → Aucune modification : redirige vers la page de confirmation /unsubscribe
+ *     (les scanners de liens des messageries suivent les GET).
+ *
+ *   POST /api/notifications/unsubscribe?token=xxx
+ *   → Désactive la préférence :
+ *     - formulaire de /unsubscribe (champ `confirm`) → redirection 303 vers /unsubscribe?status=…
+ *     - one-click RFC 8058 (header List-Unsubscribe-Post envoyé par Gmail/Outlook) → JSON
+ *
+ * @example
+ *   // En-tête List-Unsubscribe de emails/WeeklyRecap.tsx (send-weekly-recap.ts) :
+ *   `<${baseUrl}/api/notifications/unsubscribe?token=${token}>`
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+
+import { prisma } from '@/lib/prisma'
+import { verifyUnsubscribeToken } from '@/lib/unsubscribe'
+import type { UnsubscribePayload } from '@/lib/unsubscribe'
+
+// ─── Helpers ──────────────────────────────────────────────────────────────────
+
+/**
+ * Désactive la préférence correspondant au jeton.
+ * Upsert : les comptes créés avant NotificationPrefs n'ont pas forcément de ligne.
+ *
+ * @param payload - Contenu du jeton vérifié
+ */
+async function applyUnsubscribe(payload: UnsubscribePayload): Promise<void> {
+  // Un seul type pour l'instant — le switch garantit l'exhaustivité à l'ajout d'un type
+  switch (payload.kind) {
+    case 'weekly-recap':
+      await prisma.notificationPrefs.upsert({
+        where: { userId: payload.userId },
+        update: { emailWeeklyRecap: false },
+        create: { userId: payload.userId, emailWeeklyRecap: false },
+      })
+      break
+  }
+}
+
+/**
+ * La requête vient-elle du formulaire de confirmation de /unsubscribe ?
+ * Le one-click RFC 8058 envoie seulement `List-Unsubscribe=One-Click`.
+ *
+ * @param request - Requête POST
+ * @returns true si le champ `confirm` est présent
+ */
+async function isPageConfirmation(request: NextRequest): Promise<boolean> {
+  const contentType = request.headers.get('content-type') ?? ''
+  if (!contentType.includes('application/x-www-form-urlencoded')) return false
+  try {
+    const form = await request.formData()
+    return form.get('confirm') === '1'
+  } catch {
+    return false
+  }
+}
+
+// ─── Handlers ─────────────────────────────────────────────────────────────────
+
+/**
+ * GET /api/notifications/unsubscribe
+ * Clic sur un ancien lien de l'email → page de confirmation (aucune écriture).
+ *
+ * @param request - Requête avec query param `token`
+ * @returns Redirection vers /unsubscribe?token=xxx
+ */
+export async function GET(request: NextRequest): Promise<NextResponse> {
+  const pageUrl = new URL('/unsubscribe', request.url)
+  pageUrl.searchParams.set('token', request.nextUrl.searchParams.get('token') ?? '')
+  return NextResponse.redirect(pageUrl)
+}
+
+/**
+ * POST /api/notifications/unsubscribe
+ * Désinscription confirmée sur /unsubscribe, ou one-click RFC 8058 du client mail.
+ *
+ * @param request - Requête avec query param `token`
+ * @returns Formulaire : 303 vers /unsubscribe?status=done|invalid|failed ;
+ *   one-click : 200 si désinscrit | 400 si jeton invalide ou expiré | 500 si erreur serveur
+ */
+export async function POST(request: NextRequest): Promise<NextResponse> {
+  const token = request.nextUrl.searchParams.get('token') ?? ''
+  const fromPage = await isPageConfirmation(request)
+
+  /** Réponse adaptée à l'origine de la requête */
+  const respond = (status: 'done' | 'invalid' | 'failed'): NextResponse => {
+    if (fromPage) {
+      const pageUrl = new URL('/unsubscribe', request.url)
+      pageUrl.searchParams.set('status', status)
+      return NextResponse.redirect(pageUrl, 303)
+    }
+    if (status === 'done') return NextResponse.json({ success: true })
+    if (status === 'invalid') {
+      return NextResponse.json({ error: 'Lien de désinscription invalide ou expiré' }, { status: 400 })
+    }
+    return NextResponse.json({ error: 'Erreur lors de la désinscription' }, { status: 500 })
+  }
+
+  try {
+    // Lève une erreur si BETTER_AUTH_SECRET manque (configuration) → 500
+    const payload = verifyUnsubscribeToken(token)
+    if (!payload) return respond('invalid')
+
+    await applyUnsubscribe(payload)
+    return respond('done')
+  } catch (error) {
+    console.error('[unsubscribe] Erreur :', error)
+    return respond('failed')
+  }
+}
@@ -2,7 +2,9 @@
  * @file app/api/platforms/callback/route.ts
  * @description Callback OAuth après autorisation sur le réseau social.
  *   getlate.dev redirige ici avec les paramètres du compte connecté.
- *   Sauvegarde le profil en DB (ConnectedPlatform) puis redirige vers /settings.
+ *   Sauvegarde le profil en DB (ConnectedPlatform) dans le workspace actif — le
+ *   compte est alors partagé par tous les membres — puis redirige vers /settings.
+ *   Seul un propriétaire (OWNER) du workspace peut connecter un compte.
  *
  *   URL appelée : GET /api/platforms/callback?connected=...&profileId=...&username=...
  *
@@ -15,7 +17,7 @@
  *   Filet de sécurité — lateWorkspaceId :
  *   Si connectPlatform.action.ts a créé le workspace Late mais échoué à persister
  *   son ID en DB (timeout réseau, crash serveur), ce callback reçoit quand même
- *   le profileId de getlate.dev et le sauvegarde automatiquement dans User.lateWorkspaceId
+ *   le profileId de getlate.dev et le sauvegarde automatiquement dans Workspace.lateWorkspaceId
  *   si celui-ci est encore NULL. Opération idempotente : sans effet si l'ID est déjà renseigné.
  *
  * @example
@@ -26,9 +28,12 @@
 import { headers } from 'next/headers'
 import { NextRequest, NextResponse } from 'next/server'
 
+import { recordAuditEvents, userActor } from '@/lib/audit'
 import { auth } from '@/lib/auth'
 import { prisma } from '@/lib/prisma'
+import { getWorkspaceContext } from '@/lib/workspace'
 import { PlatformEnum } from '@/modules/platforms/schemas/platform.schema'
+import { hasWorkspaceRole } from '@/modules/workspaces/utils/roles'
 
 /**
  * Handler GET du callback OAuth getlate.dev.
@@ -78,43 +83,67 @@ export async function GET(request: NextRequest): Promise<NextResponse> {
     return NextResponse.redirect(new URL('/login', origin))
   }
 
+  // Les comptes connectés appartiennent au workspace actif (partagés entre membres)
+  const workspace = await getWorkspaceContext(session.user.id)
+  if (!hasWorkspaceRole(workspace.role, 'OWNER')) {
+    return NextResponse.redirect(new URL('/settings?error=platform_forbidden', origin))
+  }
+
   // Upsert : créer ou mettre à jour la plateforme connectée
   // (permet la reconnexion après déconnexion ou changement de compte)
-  await prisma.connectedPlatform.upsert({
-    where: {
-      // Contrainte unique composite définie dans schema.prisma
-      userId_platform_lateProfileId: {
+  const profileKey = { workspaceId: workspace.id, platform, lateProfileId }
+  await prisma.$transaction(async (tx: typeof prisma) => {
+    const existing: { accountName: string; avatarUrl: string | null; isActive: boolean } | null =
+      await tx.connectedPlatform.findUnique({
+        where: { workspaceId_platform_lateProfileId: profileKey },
+        select: { accountName: true, avatarUrl: true, isActive: true },
+      })
+
+    const saved: { id: string } = await tx.connectedPlatform.upsert({
+      where: {
+        // Contrainte unique composite définie dans schema.prisma
+        workspaceId_platform_lateProfileId: profileKey,
+      },
+      create: {
+        workspaceId: workspace.id,
         userId: session.user.id,
         platform,
         lateProfileId,
+        accountName,
+        avatarUrl,
+        isActive: true,
       },
-    },
-    create: {
-      userId: session.user.id,
-      platform,
-      lateProfileId,
-      accountName,
-      avatarUrl,
-      isActive: true,
-    },
-    update: {
-      accountName,
-      avatarUrl,
-      isActive: true,
-    },
+      update: {
+        accountName,
+        avatarUrl,
+        isActive: true,
+      },
+      select: { id: true },
+    })
+
+    await recordAuditEvents(tx, [{
+      workspaceId: workspace.id,
+      actor: userActor(session.user),
+      entityType: 'CONNECTED_PLATFORM',
+      entityId: saved.id,
+      entityLabel: `${platform} · ${accountName}`,
+      action: existing ? 'UPDATED' : 'CREATED',
+      before: existing,
+      after: { platform, accountName, avatarUrl, isActive: true },
+    }])
   })
 
   // Filet de sécurité : sync automatique du lateWorkspaceId si absent.
   // Scénario couvert : connectPlatform.action.ts a appelé late.profiles.create()
-  // et obtenu le lateWorkspaceId, mais la sauvegarde Prisma (User.lateWorkspaceId)
+  // et obtenu le lateWorkspaceId, mais la sauvegarde Prisma (Workspace.lateWorkspaceId)
   // a échoué avant de s'exécuter (erreur réseau, timeout DB, crash serveur).
   // Le workspace existe dans Late mais son ID est perdu en DB → lateWorkspaceId = NULL.
   // getlate.dev renvoie toujours le même profileId dans ce callback → on le récupère ici.
   // updateMany avec where: { lateWorkspaceId: null } est idempotent :
   // aucune mise à jour si l'ID est déjà présent (cas nominal ~100% du temps).
-  await prisma.user.updateMany({
+  await prisma.workspace.updateMany({
     where: {
-      id: session.user.id,
+      id: workspace.id,
       lateWorkspaceId: null, // uniquement si non encore enregistré
     },
     data: { lateWorkspaceId: lateProfileId },
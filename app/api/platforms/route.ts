@@ -1,8 +1,8 @@
 /**
  * @file app/api/platforms/route.ts
- * @description Route Handler GET : liste les plateformes connectées de l'utilisateur.
+ * @description Route Handler GET : liste les plateformes connectées du workspace actif.
  *   Utilisé par le hook usePlatforms (TanStack Query) côté client.
- *   Retourne uniquement les plateformes de l'utilisateur connecté.
+ *   Les comptes sont partagés : tous les membres du workspace voient les mêmes.
  *
  *   GET /api/platforms
  *   → Response : PlatformListItem[]
@@ -18,10 +18,11 @@ import { NextResponse } from 'next/server'
 
 import { auth } from '@/lib/auth'
 import { prisma } from '@/lib/prisma'
+import { getWorkspaceContext } from '@/lib/workspace'
 
 /**
  * GET /api/platforms
- * Liste les plateformes connectées de l'utilisateur authentifié.
+ * Liste les plateformes connectées du workspace actif de l'utilisateur authentifié.
  *
  * @returns 200 avec la liste des plateformes connectées
  * @returns 401 si non authentifié
@@ -33,9 +34,10 @@ export async function GET(): Promise<NextResponse> {
     return NextResponse.json({ error: 'Non authentifié' }, { status: 401 })
   }
 
-  // Récupération des plateformes de l'utilisateur (sans userId — inutile côté client)
+  // Récupération des plateformes du workspace (sans userId — inutile côté client)
+  const workspace = await getWorkspaceContext(session.user.id)
   const platforms = await prisma.connectedPlatform.findMany({
-    where: { userId: session.user.id, isActive: true },
+    where: { workspaceId: workspace.id, isActive: true },
     select: {
       id: true,
       platform: true,
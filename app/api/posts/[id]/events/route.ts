@@ -0,0 +1,92 @@
+/**
+ * @file app/api/posts/[id]/events/route.ts
+ * @description Route Handler GET : historique d'un post (table post_status_events).
+ *   Transitions de statut, soumissions, commentaires, approbations et rejets,
+ *   du plus ancien au plus récent. Affiché par PostReviewPanel dans le détail d'un post.
+ *
+ *   GET /api/posts/[id]/events
+ *   → [{ id, action, fromStatus, toStatus, comment, actorName, createdAt }]
+ *
+ * @example
+ *   const res = await fetch(`/api/posts/${post.id}/events`)
+ *   const events: PostStatusEvent[] = await res.json()
+ */
+
+import { headers } from 'next/headers'
+import { NextRequest, NextResponse } from 'next/server'
+
+import { auth } from '@/lib/auth'
+import { prisma } from '@/lib/prisma'
+import { getWorkspaceContext } from '@/lib/workspace'
+import type { Post, PostEventAction, PostStatusEvent } from '@/modules/posts/types'
+
+/**
+ * GET /api/posts/[id]/events
+ * Liste l'historique d'un post du workspace actif.
+ *
+ * @param request - Requête HTTP
+ * @param params - Paramètres de route contenant l'ID du post
+ * @returns 200 avec les évènements, 401/404 selon le cas
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> },
+): Promise<NextResponse> {
+  // ─── Authentification ─────────────────────────────────────────────────────
+  const session = await auth.api.getSession({ headers: await headers() })
+  if (!session) {
+    return NextResponse.json({ error: 'Non authentifié' }, { status: 401 })
+  }
+
+  const { id: postId } = await params
+
+  // ─── Ownership check ──────────────────────────────────────────────────────
+  const workspace = await getWorkspaceContext(session.user.id)
+  const post: { workspaceId: string } | null = await prisma.post.findUnique({
+    where: { id: postId },
+    select: { workspaceId: true },
+  })
+  if (!post || post.workspaceId !== workspace.id) {
+    return NextResponse.json({ error: 'Post introuvable' }, { status: 404 })
+  }
+
+  try {
+    const rows: Array<{
+      id: string
+      action: string
+      fromStatus: string | null
+      toStatus: string | null
+      comment: string | null
+      createdAt: Date
+      actor: { name: string | null; email: string } | null
+    }> = await prisma.postStatusEvent.findMany({
+      where: { postId },
+      orderBy: { createdAt: 'asc' },
+      select: {
+        id: true,
+        action: true,
+        fromStatus: true,
+        toStatus: true,
+        comment: true,
+        createdAt: true,
+        actor: { select: { name: true, email: true } },
+      },
+    })
+
+    const events: PostStatusEvent[] = rows.map((row) => ({
+      id: row.id,
+      action: row.action as PostEventAction,
+      fromStatus: row.fromStatus as Post['status'] | null,
+      toStatus: row.toStatus as Post['status'] | null,
+      comment: row.comment,
+      // Auteur supprimé ou transition système (Inngest) → null
+      actorName: row.actor ? (row.actor.name || row.actor.email) : null,
+      createdAt: row.createdAt,
+    }))
+
+    return NextResponse.json(events)
+  } catch (error) {
+    console.error('[GET /api/posts/[id]/events] Erreur :', error)
+    return NextResponse.json({ error: 'Erreur serveur' }, { status: 500 })
+  }
+}
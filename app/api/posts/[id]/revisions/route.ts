@@ -0,0 +1,96 @@
+/**
+ * @file app/api/posts/[id]/revisions/route.ts
+ * @description Route Handler GET : révisions du contenu d'un post (table post_revisions).
+ *   Chaque version du texte et des médias avec son origine (composer, agent IA,
+ *   restauration), du plus ancien au plus récent. Affiché par PostRevisionTimeline
+ *   dans le détail d'un post.
+ *
+ *   GET /api/posts/[id]/revisions
+ *   → [{ id, source, text, mediaUrls, instruction, restoredFromId, authorName, createdAt }]
+ *
+ * @example
+ *   const res = await fetch(`/api/posts/${post.id}/revisions`)
+ *   const revisions: PostRevision[] = await res.json()
+ */
+
+import { headers } from 'next/headers'
+import { NextRequest, NextResponse } from 'next/server'
+
+import { auth } from '@/lib/auth'
+import { prisma } from '@/lib/prisma'
+import { getWorkspaceContext } from '@/lib/workspace'
+import type { PostRevision, RevisionSource } from '@/modules/posts/types'
+
+/**
+ * GET /api/posts/[id]/revisions
+ * Liste les révisions d'un post du workspace actif.
+ *
+ * @param request - Requête HTTP
+ * @param params - Paramètres de route contenant l'ID du post
+ * @returns 200 avec les révisions, 401/404 selon le cas
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> },
+): Promise<NextResponse> {
+  // ─── Authentification ─────────────────────────────────────────────────────
+  const session = await auth.api.getSession({ headers: await headers() })
+  if (!session) {
+    return NextResponse.json({ error: 'Non authentifié' }, { status: 401 })
+  }
+
+  const { id: postId } = await params
+
+  // ─── Ownership check ──────────────────────────────────────────────────────
+  const workspace = await getWorkspaceContext(session.user.id)
+  const post: { workspaceId: string } | null = await prisma.post.findUnique({
+    where: { id: postId },
+    select: { workspaceId: true },
+  })
+  if (!post || post.workspaceId !== workspace.id) {
+    return NextResponse.json({ error: 'Post introuvable' }, { status: 404 })
+  }
+
+  try {
+    const rows: Array<{
+      id: string
+      source: string
+      text: string
+      mediaUrls: string[]
+      instruction: string | null
+      restoredFromId: string | null
+      createdAt: Date
+      author: { name: string | null; email: string } | null
+    }> = await prisma.postRevision.findMany({
+      where: { postId },
+      orderBy: { createdAt: 'asc' },
+      select: {
+        id: true,
+        source: true,
+        text: true,
+        mediaUrls: true,
+        instruction: true,
+        restoredFromId: true,
+        createdAt: true,
+        author: { select: { name: true, email: true } },
+      },
+    })
+
+    const revisions: PostRevision[] = rows.map((row) => ({
+      id: row.id,
+      source: row.source as RevisionSource,
+      text: row.text,
+      mediaUrls: row.mediaUrls,
+      instruction: row.instruction,
+      restoredFromId: row.restoredFromId,
+      // Auteur supprimé ou état d'origine → null
+      authorName: row.author ? (row.author.name || row.author.email) : null,
+      createdAt: row.createdAt,
+    }))
+
+    return NextResponse.json(revisions)
+  } catch (error) {
+    console.error('[GET /api/posts/[id]/revisions] Erreur :', error)
+    return NextResponse.json({ error: 'Erreur serveur' }, { status: 500 })
+  }
+}
@@ -3,14 +3,15 @@
  * @description Route Handler pour les opérations sur un post individuel.
  *
  *   DELETE /api/posts/[id]
- *   → Supprime le post si l'utilisateur en est le propriétaire et si le statut le permet
- *     (DRAFT, SCHEDULED ou FAILED — pas PUBLISHED).
+ *   → Supprime le post s'il appartient au workspace actif (rôle EDITOR requis) et si
+ *     le statut le permet (DRAFT, SCHEDULED ou FAILED — pas PUBLISHED).
  *
  * @example
  *   // Suppression depuis PostComposeCard
  *   const res = await fetch(`/api/posts/${post.id}`, { method: 'DELETE' })
  *   // 200 { success: true } si supprimé
- *   // 404 si post introuvable ou non propriétaire
+ *   // 403 si rôle Lecteur dans le workspace
+ *   // 404 si post introuvable ou hors du workspace
  *   // 409 si déjà publié
  */
 
@@ -18,13 +19,16 @@ import { headers } from 'next/headers'
 import { NextRequest, NextResponse } from 'next/server'
 import { revalidatePath } from 'next/cache'
 
+import { POST_AUDIT_SELECT, postAuditSnapshot, recordAuditEvents, userActor } from '@/lib/audit'
 import { auth } from '@/lib/auth'
 import { inngest } from '@/lib/inngest/client'
 import { prisma } from '@/lib/prisma'
+import { getWorkspaceContext } from '@/lib/workspace'
+import { workspaceRoleError } from '@/modules/workspaces/utils/roles'
 
 /**
  * DELETE /api/posts/[id]
- * Supprime un post DRAFT ou SCHEDULED appartenant à l'utilisateur connecté.
+ * Supprime un post DRAFT ou SCHEDULED du workspace actif.
  *
  * @param request - Requête HTTP
  * @param params - Paramètres de route contenant l'ID du post
@@ -40,15 +44,21 @@ export async function DELETE(
     return NextResponse.json({ error: 'Non authentifié' }, { status: 401 })
   }
 
+  const workspace = await getWorkspaceContext(session.user.id)
+  const roleError = workspaceRoleError(workspace.role, 'EDITOR')
+  if (roleError) {
+    return NextResponse.json({ error: roleError }, { status: 403 })
+  }
+
   const { id: postId } = await params
 
   // ── Ownership check + vérification du statut ────────────────────────────
   const post = await prisma.post.findUnique({
     where: { id: postId },
-    select: { userId: true, status: true },
+    select: { ...POST_AUDIT_SELECT, workspaceId: true },
   })
 
-  if (!post || post.userId !== session.user.id) {
+  if (!post || post.workspaceId !== workspace.id) {
     // Ne pas révéler si le post existe ou non (sécurité)
     return NextResponse.json({ error: 'Post introuvable' }, { status: 404 })
   }
@@ -64,7 +74,17 @@ export async function DELETE(
 
   // ── Suppression ──────────────────────────────────────────────────────────
   try {
-    await prisma.post.delete({ where: { id: postId } })
+    await prisma.$transaction(async (tx: typeof prisma) => {
+      await tx.post.delete({ where: { id: postId } })
+      await recordAuditEvents(tx, [{
+        workspaceId: workspace.id,
+        actor: userActor(session.user),
+        entityType: 'POST',
+        entityId: postId,
+        action: 'DELETED',
+        before: postAuditSnapshot(post),
+      }])
+    })
   } catch (error) {
     console.error('[DELETE /api/posts/[id]] Erreur suppression :', error)
     return NextResponse.json({ error: 'Erreur lors de la suppression' }, { status: 500 })
@@ -1,17 +1,18 @@
 /**
  * @file app/api/posts/filter-ai/route.ts
  * @description Route Handler POST : extraction de filtres structurés depuis une description
- *   en langage naturel, via Claude Sonnet (tool use).
+ *   en langage naturel, via le fournisseur LLM (tool use — Claude par défaut, voir lib/llm).
  *
  *   Flow :
  *   1. Authentification better-auth
  *   2. Validation Zod du body ({ query: string })
- *   3. Appel Claude Sonnet avec tool "extract_post_filters"
+ *   3. Appel du LLM (gamme "filter") avec tool "extract_post_filters" (dates relatives
+ *      interprétées dans le fuseau de l'utilisateur — User.timezone)
  *   4. Extraction du résultat tool_use → filtres structurés
  *   5. Retour { statuses, platforms, dateRange, queryText }
  *
  *   Les filtres retournés sont appliqués côté serveur via /api/posts?compose=1&statuses=...
- *   DRAFT, SCHEDULED, PUBLISHED et FAILED sont des statuts valides (mode compose).
+ *   DRAFT, PENDING_REVIEW, SCHEDULED, PUBLISHED et FAILED sont des statuts valides (mode compose).
  *
  * @example
  *   const res = await fetch('/api/posts/filter-ai', {
@@ -26,9 +27,18 @@ import { headers } from 'next/headers'
 import { NextRequest, NextResponse } from 'next/server'
 import { z } from 'zod'
 
-import { FILTER_MODEL, anthropic } from '@/lib/ai'
 import { auth } from '@/lib/auth'
+import { getLlmProvider } from '@/lib/llm'
+import type { LlmToolDefinition } from '@/lib/llm'
 import { rateLimiters, rateLimitResponse } from '@/lib/rate-limit'
+import {
+  formatIsoOffset,
+  formatUtcOffset,
+  getTimezoneOffset,
+  getZonedParts,
+  zonedTimeToUtc,
+} from '@/lib/timezone'
+import { getUserTimezone } from '@/lib/user-timezone'
 
 // ─── Schéma du body entrant ────────────────────────────────────────────────────
 
@@ -40,32 +50,33 @@ const BodySchema = z.object({
   query: z.string().min(1).max(500),
 })
 
-// ─── Définition de l'outil Sonnet ──────────────────────────────────────────────
+// ─── Définition de l'outil ─────────────────────────────────────────────────────
 
 /**
- * Outil Claude "extract_post_filters".
- * Sonnet utilise cet outil pour retourner des filtres structurés
+ * Outil "extract_post_filters" (JSON Schema, tout fournisseur LLM).
+ * Le modèle utilise cet outil pour retourner des filtres structurés
  * extraits depuis la description de l'utilisateur.
  *
  * Tous les champs sont optionnels : Sonnet ne retourne que ce qu'il détecte.
  * Exemple : "posts instagram" → { platforms: ['instagram'] } (pas de statuses ni de dates)
  */
-const filterTool = {
+const filterTool: LlmToolDefinition = {
   name: 'extract_post_filters',
   description:
     'Extrait les critères de recherche depuis la description utilisateur pour filtrer ' +
     'une liste de posts (brouillons, planifiés, publiés ou échoués).',
-  input_schema: {
-    type: 'object' as const,
+  inputSchema: {
+    type: 'object',
     properties: {
       statuses: {
         type: 'array',
         items: {
           type: 'string',
-          enum: ['DRAFT', 'SCHEDULED', 'PUBLISHED', 'FAILED'],
+          enum: ['DRAFT', 'PENDING_REVIEW', 'SCHEDULED', 'PUBLISHED', 'FAILED'],
         },
         description:
-          'Statuts des posts : DRAFT = brouillon, SCHEDULED = planifié, ' +
+          'Statuts des posts : DRAFT = brouillon, PENDING_REVIEW = en attente de validation, ' +
+          'SCHEDULED = planifié, ' +
           'PUBLISHED = publié avec succès, FAILED = échec de publication. ' +
           'Omettre si non spécifié.',
       },
@@ -82,8 +93,8 @@ const filterTool = {
           'Date (et heure optionnelle) de début ISO 8601 pour filtrer sur scheduledFor. ' +
           'Calculer depuis les expressions relatives (ex: "semaine prochaine"). ' +
           "Inclure l'heure si l'utilisateur la mentionne. " +
-          // ⚠️ Les heures sont en heure PARIS : les convertir en UTC (soustraire l'offset Paris actuel)
-          "Convertir l'heure locale Paris en UTC (soustraire l'offset Paris actuel). " +
+          // ⚠️ Les heures sont dans le fuseau de l'utilisateur : suffixer l'offset ISO (pas de "Z")
+          "Heure locale de l'utilisateur suffixée de son offset ISO (ex: 2026-02-24T14:00:00+01:00). " +
           'Omettre si non spécifié.',
       },
       to: {
@@ -91,8 +102,8 @@ const filterTool = {
         description:
           'Date (et heure optionnelle) de fin ISO 8601 pour filtrer sur scheduledFor. ' +
           "Inclure l'heure si l'utilisateur la mentionne. " +
-          // ⚠️ Les heures sont en heure PARIS : les convertir en UTC (soustraire l'offset Paris actuel)
-          "Convertir l'heure locale Paris en UTC (soustraire l'offset Paris actuel). " +
+          // ⚠️ Les heures sont dans le fuseau de l'utilisateur : suffixer l'offset ISO (pas de "Z")
+          "Heure locale de l'utilisateur suffixée de son offset ISO (ex: 2026-02-24T14:00:00+01:00). " +
           'Omettre si la plage est ouverte vers le futur (ex: "depuis le X"). ' +
           'Ne fournir que si une borne de fin est explicitement mentionnée.',
       },
@@ -106,10 +117,34 @@ const filterTool = {
       },
     },
     // Tous les champs sont optionnels — Sonnet ne retourne que ce qu'il détecte
-    required: [] as string[],
+    required: [],
   },
 }
 
+// ─── Helpers ───────────────────────────────────────────────────────────────────
+
+/**
+ * Résout une borne de date retournée par Sonnet en timestamp ISO UTC.
+ * Une date seule ("2026-02-24") désigne le jour entier dans le fuseau de
+ * l'utilisateur : début (00:00) ou fin (23:59:59.999) de ce jour local.
+ * Un timestamp complet (avec offset) est conservé tel quel.
+ *
+ * @param value - Borne ISO fournie par Sonnet
+ * @param bound - 'start' (from) ou 'end' (to)
+ * @param timezone - Fuseau IANA de l'utilisateur
+ * @returns Borne ISO (inchangée si ce n'est pas une date seule)
+ */
+function resolveDateBound(value: string, bound: 'start' | 'end', timezone: string): string {
+  const match = /^(\d{4})-(\d{2})-(\d{2})$/.exec(value)
+  if (!match) return value
+  const [year, month, day] = match.slice(1).map(Number)
+  const date =
+    bound === 'start'
+      ? zonedTimeToUtc({ year, month, day }, timezone)
+      : new Date(zonedTimeToUtc({ year, month, day: day + 1 }, timezone).getTime() - 1)
+  return date.toISOString()
+}
+
 // ─── Type retourné ─────────────────────────────────────────────────────────────
 
 /**
@@ -118,7 +153,7 @@ const filterTool = {
  */
 export interface ExtractedFilters {
   /** Statuts filtrés — vide = tout afficher (DRAFT + SCHEDULED par défaut) */
-  statuses: ('DRAFT' | 'SCHEDULED' | 'PUBLISHED' | 'FAILED')[]
+  statuses: ('DRAFT' | 'PENDING_REVIEW' | 'SCHEDULED' | 'PUBLISHED' | 'FAILED')[]
   /** Plateformes filtrées — vide = tout afficher */
   platforms: string[]
   /**
@@ -143,9 +178,17 @@ export interface ExtractedFilters {
  * Extrait des filtres structurés depuis une description en langage naturel.
  *
  * @param request - Corps : { query: string }
- * @returns 200 ExtractedFilters | 400 requête invalide | 401 non authentifié | 500 erreur Sonnet
+ * @returns 200 ExtractedFilters | 400 requête invalide | 401 non authentifié | 500 erreur LLM
+ *   | 503 fournisseur LLM non configuré
  */
 export async function POST(request: NextRequest): Promise<NextResponse> {
+  // ── Vérification de la configuration du fournisseur LLM ───────────────────
+  const llm = getLlmProvider()
+  const llmConfigError = llm.configError()
+  if (llmConfigError) {
+    return NextResponse.json({ error: llmConfigError }, { status: 503 })
+  }
+
   // ── Authentification ───────────────────────────────────────────────────────
   const session = await auth.api.getSession({ headers: await headers() })
   if (!session) {
@@ -175,58 +218,44 @@ export async function POST(request: NextRequest): Promise<NextResponse> {
 
   const { query } = parsed.data
 
-  // ── Date du jour en heure locale Paris (Europe/Paris) ─────────────────────
+  // ── Fuseau horaire de l'utilisateur ───────────────────────────────────────
+  // "demain 9h" s'entend dans l'heure locale de l'utilisateur (Paris, Montréal, Dakar…).
+  const timezone = await getUserTimezone(session.user.id)
+
+  // ── Date du jour dans le fuseau de l'utilisateur ──────────────────────────
   // ⚠️ Ne PAS utiliser new Date().toISOString() : retourne la date UTC, qui peut
-  //    être le jour PRÉCÉDENT pour un utilisateur parisien entre minuit et 1h00.
+  //    être le jour PRÉCÉDENT ou SUIVANT pour l'utilisateur.
   //    Exemple : 00h30 Paris (mardi 24) = 23h30 UTC (lundi 23) → LLM croirait
-  //    que c'est lundi, calculerait "mercredi prochain" = mercredi 25 au lieu de 25 ✓,
-  //    mais "demain" = mardi 24 au lieu de mercredi 25.
+  //    que c'est lundi et calculerait "demain" = mardi 24 au lieu de mercredi 25.
   //
-  //    Solution : Intl.DateTimeFormat avec timeZone: 'Europe/Paris' donne toujours
-  //    la date locale correcte indépendamment du fuseau du serveur (UTC ou Paris).
+  //    Solution : getZonedParts (Intl.DateTimeFormat + timeZone) donne toujours
+  //    la date locale correcte indépendamment du fuseau du serveur.
   const now = new Date()
-  const parisParts = new Intl.DateTimeFormat('fr-FR', {
-    year: 'numeric',
-    month: '2-digit',
-    day: '2-digit',
-    weekday: 'long',
-    timeZone: 'Europe/Paris',
-  }).formatToParts(now)
-  const p = Object.fromEntries(parisParts.map((x) => [x.type, x.value]))
-  // Reconstruire en ISO YYYY-MM-DD (fr-FR donne jour/mois/année, donc on inverse)
-  const todayIso = `${p.year}-${p.month}-${p.day}`
-  const todayLabel = `${todayIso} (${p.weekday})`
-
-  // ── Offset UTC pour Europe/Paris ─────────────────────────────────────────
-  // CET (hiver) = UTC+1, CEST (été) = UTC+2. Nécessaire pour demander à Claude
-  // de convertir les heures locales Paris en UTC dans les timestamps ISO.
-  // Intl.DateTimeFormat 'shortOffset' retourne "UTC+1" ou "UTC+2" selon la saison.
-  const parisOffsetLabel =
-    new Intl.DateTimeFormat('fr-FR', {
-      timeZone: 'Europe/Paris',
-      timeZoneName: 'shortOffset',
-    })
-      .formatToParts(now)
-      .find((x) => x.type === 'timeZoneName')?.value ?? 'UTC+1'
-
-  // Extraire la valeur numérique : "UTC+1" → 1, "UTC+2" → 2
-  const parisOffsetHours = parseInt(parisOffsetLabel.replace('UTC', ''), 10) || 1
+  const today = getZonedParts(now, timezone)
+  const todayIso = `${today.year}-${String(today.month).padStart(2, '0')}-${String(today.day).padStart(2, '0')}`
+  const weekday = now.toLocaleDateString('fr-FR', { weekday: 'long', timeZone: timezone })
+  const todayLabel = `${todayIso} (${weekday})`
 
-  // Helper local : convertit une heure Paris (entier) en heure UTC string "HH"
-  // Exemple (UTC+1) : h(10) → "09", h(14) → "13"
-  const h = (local: number): string => String(local - parisOffsetHours).padStart(2, '0')
+  // ── Offset UTC du fuseau ──────────────────────────────────────────────────
+  // Varie avec l'heure d'été (Paris : UTC+1 / UTC+2, Montréal : UTC-5 / UTC-4).
+  // Claude suffixe les timestamps avec cet offset ISO ("+01:00", "-04:00") au lieu
+  // de convertir lui-même en UTC : aucun calcul d'heure à faire, aucun débordement
+  // de jour possible, et new Date() côté client interprète correctement l'offset.
+  const offsetMinutes = getTimezoneOffset(now, timezone)
+  const offsetLabel = formatUtcOffset(offsetMinutes)
+  const isoOffset = formatIsoOffset(offsetMinutes)
 
   // ── Prompt système ─────────────────────────────────────────────────────────
   const systemPrompt = [
     `Tu es un assistant d'extraction de filtres pour une application de planification de posts sur les réseaux sociaux.`,
     `Aujourd'hui est le ${todayLabel}.`,
     // ── Règle timezone ──────────────────────────────────────────────────────
-    // Les posts sont stockés en UTC, mais l'utilisateur raisonne en heure Paris.
-    // Claude DOIT soustraire l'offset pour produire le bon timestamp ISO UTC.
-    `L'utilisateur est en heure locale Paris (Europe/Paris, actuellement ${parisOffsetLabel}).`,
-    `⚠️ RÈGLE TIMEZONE OBLIGATOIRE : Toutes les heures que l'utilisateur mentionne sont en heure PARIS, PAS en UTC.`,
-    `Tu DOIS convertir les heures Paris en UTC dans les timestamps ISO en soustrayant ${parisOffsetHours}h.`,
-    `Exemple de conversion : l'utilisateur dit "10h" → timestamp ISO = "T${h(10)}:00:00Z" (10h Paris − ${parisOffsetHours}h = ${h(10)}h UTC).`,
+    // Les posts sont stockés en UTC, mais l'utilisateur raisonne dans son heure locale.
+    // Claude suffixe l'offset du fuseau : le timestamp désigne alors le bon instant.
+    `L'utilisateur est dans le fuseau ${timezone} (actuellement ${offsetLabel}).`,
+    `⚠️ RÈGLE TIMEZONE OBLIGATOIRE : Toutes les heures que l'utilisateur mentionne sont dans SON heure locale, PAS en UTC.`,
+    `Écris-les telles quelles dans les timestamps ISO, suffixées de l'offset "${isoOffset}" (jamais de "Z").`,
+    `Exemple : l'utilisateur dit "10h" → timestamp ISO = "T10:00:00${isoOffset}".`,
     `L'utilisateur décrit ce qu'il cherche dans sa liste de posts (brouillons, planifiés, publiés ou échoués).`,
     `Utilise TOUJOURS le tool extract_post_filters pour retourner les filtres structurés.`,
     `N'extrais que ce qui est explicitement mentionné ou clairement implicite.`,
@@ -247,37 +276,34 @@ export async function POST(request: NextRequest): Promise<NextResponse> {
     `- "posts depuis le 24 février" → { from: "2026-02-24" }  // pas de \`to\` = ouvert vers le futur`,
     `- "posts depuis lundi" → { from: "2026-02-23" }          // pas de \`to\``,
     `- "posts entre le 1er et le 10 mars" → { from: "2026-03-01", to: "2026-03-10" }`,
-    // Exemples avec granularité heure — heures Paris converties en UTC via offset dynamique
-    // h(N) soustrait parisOffsetHours pour produire le bon timestamp UTC
-    `- "posts du 24 février entre 14h et 20h" → { from: "2026-02-24T${h(14)}:00:00Z", to: "2026-02-24T${h(20)}:00:00Z" }  // ${parisOffsetLabel} : −${parisOffsetHours}h`,
-    `- "posts entre le 21 février 17h et le 25 février 23h" → { from: "2026-02-21T${h(17)}:00:00Z", to: "2026-02-25T${h(23)}:00:00Z" }`,
-    `- "posts publiés hier après 18h" → { statuses: ["PUBLISHED"], from: "2026-02-24T${h(18)}:00:00Z" }`,
+    // Exemples avec granularité heure — heure locale + offset ISO du fuseau de l'utilisateur
+    `- "posts du 24 février entre 14h et 20h" → { from: "2026-02-24T14:00:00${isoOffset}", to: "2026-02-24T20:00:00${isoOffset}" }`,
+    `- "posts entre le 21 février 17h et le 25 février 23h" → { from: "2026-02-21T17:00:00${isoOffset}", to: "2026-02-25T23:00:00${isoOffset}" }`,
+    `- "posts publiés hier après 18h" → { statuses: ["PUBLISHED"], from: "2026-02-24T18:00:00${isoOffset}" }`,
   ].join('\n')
 
-  // ── Appel Claude Sonnet ────────────────────────────────────────────────────
+  // ── Appel du LLM ───────────────────────────────────────────────────────────
   try {
-    const response = await anthropic.messages.create({
-      model: FILTER_MODEL,
-      max_tokens: 512,
+    // Le fournisseur force l'usage de l'outil (pas de réponse texte libre)
+    const { toolCall } = await llm.callTool({
+      tier: 'filter',
+      maxTokens: 512,
       system: systemPrompt,
       tools: [filterTool],
-      // Force Sonnet à utiliser l'outil (pas de réponse texte libre)
-      tool_choice: { type: 'any' },
       messages: [{ role: 'user', content: query }],
     })
 
-    // ── Extraction du résultat tool_use ─────────────────────────────────────
-    const toolUse = response.content.find((block) => block.type === 'tool_use')
-    if (!toolUse || toolUse.type !== 'tool_use') {
+    // ── Extraction du résultat du tool ──────────────────────────────────────
+    if (!toolCall) {
       return NextResponse.json(
         { error: 'Impossible d\'extraire les filtres depuis la description' },
         { status: 500 },
       )
     }
 
-    // Cast du résultat Sonnet (input_schema garantit la structure)
-    const input = toolUse.input as {
-      statuses?: ('DRAFT' | 'SCHEDULED' | 'PUBLISHED' | 'FAILED')[]
+    // Cast du résultat (le JSON Schema du tool garantit la structure)
+    const input = toolCall.input as {
+      statuses?: ('DRAFT' | 'PENDING_REVIEW' | 'SCHEDULED' | 'PUBLISHED' | 'FAILED')[]
       platforms?: string[]
       from?: string
       to?: string
@@ -291,8 +317,12 @@ export async function POST(request: NextRequest): Promise<NextResponse> {
       // Si `from` absent → pas de filtre date.
       // `to` n'est inclus que si Claude l'a explicitement fourni :
       //   absent = plage ouverte vers le futur (ex: "depuis le 24 février").
+      // Dates seules → bornes du jour dans le fuseau de l'utilisateur (pas en UTC).
       dateRange: input.from
-        ? { from: input.from, ...(input.to ? { to: input.to } : {}) }
+        ? {
+            from: resolveDateBound(input.from, 'start', timezone),
+            ...(input.to ? { to: resolveDateBound(input.to, 'end', timezone) } : {}),
+          }
         : null,
       queryText: query,
       // Normalisation en minuscules pour correspondre au filtre Prisma insensible à la casse
@@ -301,7 +331,7 @@ export async function POST(request: NextRequest): Promise<NextResponse> {
 
     return NextResponse.json(filters)
   } catch (error) {
-    console.error('[filter-ai] Erreur Sonnet :', error)
+    console.error(`[filter-ai] Erreur LLM (${llm.name}) :`, error)
     return NextResponse.json(
       { error: 'Erreur lors de l\'appel à l\'IA. Veuillez réessayer.' },
       { status: 500 },
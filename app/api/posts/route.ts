@@ -1,6 +1,6 @@
 /**
  * @file app/api/posts/route.ts
- * @description Route Handler GET : liste les posts de l'utilisateur.
+ * @description Route Handler GET : liste les posts du workspace actif (tous auteurs).
  *   Supporte trois modes de filtrage :
  *
  *   Mode compose (infinite scroll) :
@@ -17,6 +17,7 @@
  *   Mode calendrier (défaut) :
  *     GET /api/posts?year=2024&month=3
  *     → Posts du mois (planifiés ou publiés dans cette période)
+ *     Les bornes du mois sont calculées dans le fuseau de l'utilisateur (User.timezone).
  *
  * @example
  *   // Compose infinite scroll — 1ère page
@@ -41,6 +42,9 @@ import { NextRequest, NextResponse } from 'next/server'
 
 import { auth } from '@/lib/auth'
 import { prisma } from '@/lib/prisma'
+import { getZonedParts, zonedTimeToUtc } from '@/lib/timezone'
+import { getUserTimezone } from '@/lib/user-timezone'
+import { getWorkspaceContext } from '@/lib/workspace'
 
 // ─── Sélection commune des champs Post ────────────────────────────────────────
 
@@ -53,8 +57,16 @@ const POST_SELECT = {
   userId: true,
   text: true,
   platform: true,
+  connectedPlatformId: true,
+  groupId: true,
+  seriesId: true,
+  agentSessionId: true,
   mediaUrls: true,
+  mediaAltTexts: true,
+  threadParts: true,
+  platformOptions: true,
   status: true,
+  approvedAt: true,
   scheduledFor: true,
   publishedAt: true,
   latePostId: true,
@@ -79,26 +91,27 @@ export async function GET(request: NextRequest): Promise<NextResponse> {
 
   const { searchParams } = request.nextUrl
   const userId = session.user.id
+  const workspace = await getWorkspaceContext(userId)
 
   // ─── Mode compose : pagination cursor infinie ──────────────────────────────
   // Activé par ?compose=1 — utilisé par useInfiniteQuery sur /compose
   if (searchParams.get('compose') === '1') {
-    return handleComposeMode(searchParams, userId)
+    return handleComposeMode(searchParams, workspace.id)
   }
 
   // ─── Mode brouillons : filtre par statut ──────────────────────────────────
   // Activé si le paramètre `status` est présent (ex: ?status=DRAFT)
   const statusParam = searchParams.get('status')
   if (statusParam) {
-    const allowedStatuses = ['DRAFT', 'SCHEDULED', 'PUBLISHED', 'FAILED']
+    const allowedStatuses = ['DRAFT', 'PENDING_REVIEW', 'SCHEDULED', 'PUBLISHED', 'FAILED']
     if (!allowedStatuses.includes(statusParam)) {
       return NextResponse.json({ error: 'Statut invalide' }, { status: 400 })
     }
 
     const posts = await prisma.post.findMany({
       where: {
-        userId,
-        status: statusParam as 'DRAFT' | 'SCHEDULED' | 'PUBLISHED' | 'FAILED',
+        workspaceId: workspace.id,
+        status: statusParam as 'DRAFT' | 'PENDING_REVIEW' | 'SCHEDULED' | 'PUBLISHED' | 'FAILED',
       },
       select: POST_SELECT,
       orderBy: { createdAt: 'desc' },
@@ -109,9 +122,11 @@ export async function GET(request: NextRequest): Promise<NextResponse> {
   }
 
   // ─── Mode calendrier : filtre par mois ────────────────────────────────────
-  const now = new Date()
-  const year = parseInt(searchParams.get('year') ?? String(now.getFullYear()), 10)
-  const month = parseInt(searchParams.get('month') ?? String(now.getMonth() + 1), 10)
+  // Le mois s'entend dans le fuseau de l'utilisateur, pas dans celui du serveur
+  const timezone = await getUserTimezone(userId)
+  const today = getZonedParts(new Date(), timezone)
+  const year = parseInt(searchParams.get('year') ?? String(today.year), 10)
+  const month = parseInt(searchParams.get('month') ?? String(today.month), 10)
 
   // Validation des paramètres (éviter des requêtes aberrantes)
   if (isNaN(year) || isNaN(month) || month < 1 || month > 12) {
@@ -119,13 +134,17 @@ export async function GET(request: NextRequest): Promise<NextResponse> {
   }
 
   // ─── Calcul de la plage de dates du mois ──────────────────────────────────
-  const firstDay = new Date(year, month - 1, 1)
-  const lastDay = new Date(year, month, 0, 23, 59, 59)
+  // ⚠️ Ne PAS utiliser new Date(year, month - 1, 1) : fuseau LOCAL du serveur (UTC
+  //    en production) → un post planifié le 1er à 1h heure de Paris tomberait dans
+  //    le mois précédent. Bornes = minuit local du 1er du mois → minuit local du
+  //    1er du mois suivant (exclu), converties en UTC.
+  const firstDay = zonedTimeToUtc({ year, month, day: 1 }, timezone)
+  const lastDay = new Date(zonedTimeToUtc({ year, month: month + 1, day: 1 }, timezone).getTime() - 1)
 
   // ─── Requête DB — mode calendrier ─────────────────────────────────────────
   const posts = await prisma.post.findMany({
     where: {
-      userId,
+      workspaceId: workspace.id,
       // Inclure les posts qui ont une date dans ce mois (planifiés OU publiés)
       OR: [
         // Posts planifiés dans ce mois
@@ -165,7 +184,7 @@ export async function GET(request: NextRequest): Promise<NextResponse> {
  * - `nextCursor` : ID du dernier post retourné, ou null si dernière page
  *
  * @param searchParams - Paramètres de la requête
- * @param userId - ID de l'utilisateur authentifié
+ * @param workspaceId - Workspace actif de l'utilisateur authentifié
  * @returns NextResponse avec { posts, nextCursor }
  *
  * @example
@@ -186,13 +205,13 @@ export async function GET(request: NextRequest): Promise<NextResponse> {
  */
 // ─── Statuts valides en mode compose ──────────────────────────────────────────
 
-/** DRAFT, SCHEDULED, PUBLISHED et FAILED sont des statuts valides en mode compose */
-const COMPOSE_STATUSES = ['DRAFT', 'SCHEDULED', 'PUBLISHED', 'FAILED'] as const
+/** DRAFT, PENDING_REVIEW, SCHEDULED, PUBLISHED et FAILED sont des statuts valides en mode compose */
+const COMPOSE_STATUSES = ['DRAFT', 'PENDING_REVIEW', 'SCHEDULED', 'PUBLISHED', 'FAILED'] as const
 type ComposeStatus = (typeof COMPOSE_STATUSES)[number]
 
 async function handleComposeMode(
   searchParams: URLSearchParams,
-  userId: string,
+  workspaceId: string,
 ): Promise<NextResponse> {
   // ── Parsing des paramètres ─────────────────────────────────────────────────
 
@@ -289,7 +308,7 @@ async function handleComposeMode(
     // ── Requête Prisma — pagination cursor ──────────────────────────────────
     const posts = await prisma.post.findMany({
       where: {
-        userId,
+        workspaceId,
         // Filtre statuts dynamique (DRAFT, SCHEDULED, ou les deux selon le paramètre)
         status: { in: resolvedStatuses },
         // Filtre plateforme optionnel — OR inclusif sur la plateforme du post
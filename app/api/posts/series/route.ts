@@ -0,0 +1,81 @@
+/**
+ * @file app/api/posts/series/route.ts
+ * @description Route Handler GET : séries récurrentes actives du workspace actif.
+ *   Utilisé par CalendarGrid pour projeter les occurrences futures (non encore
+ *   matérialisées en posts) à côté des posts réels du mois.
+ *
+ *   GET /api/posts/series
+ *   → [{ id, rule, skipDates, platforms, lastScheduledFor }]
+ *
+ * @example
+ *   const res = await fetch('/api/posts/series')
+ *   const series: PostSeriesSummary[] = await res.json()
+ */
+
+import { headers } from 'next/headers'
+import { NextResponse } from 'next/server'
+
+import { auth } from '@/lib/auth'
+import { prisma } from '@/lib/prisma'
+import { getWorkspaceContext } from '@/lib/workspace'
+import { RecurrenceRuleSchema } from '@/modules/posts/schemas/post.schema'
+import type { PostSeriesSummary } from '@/modules/posts/types'
+
+/**
+ * GET /api/posts/series
+ * Liste les séries actives avec leur dernière occurrence connue.
+ *
+ * @returns 200 avec les séries, 401 si non authentifié
+ */
+export async function GET(): Promise<NextResponse> {
+  // ─── Authentification ─────────────────────────────────────────────────────
+  const session = await auth.api.getSession({ headers: await headers() })
+  if (!session) {
+    return NextResponse.json({ error: 'Non authentifié' }, { status: 401 })
+  }
+
+  try {
+    const workspace = await getWorkspaceContext(session.user.id)
+    const rows: Array<{
+      id: string
+      rule: unknown
+      skipDates: string[]
+      posts: { platform: string; scheduledFor: Date | null }[]
+    }> = await prisma.postSeries.findMany({
+      where: { workspaceId: workspace.id, isActive: true },
+      select: {
+        id: true,
+        rule: true,
+        skipDates: true,
+        posts: {
+          select: { platform: true, scheduledFor: true },
+          orderBy: { scheduledFor: { sort: 'desc', nulls: 'last' } },
+          // Une campagne compte un post par plateforme : 20 couvre largement la dernière occurrence
+          take: 20,
+        },
+      },
+    })
+
+    const series: PostSeriesSummary[] = []
+    for (const row of rows) {
+      // Règle corrompue → série ignorée plutôt que de casser tout le calendrier
+      const rule = RecurrenceRuleSchema.safeParse(row.rule)
+      if (!rule.success) continue
+
+      const lastScheduledFor = row.posts[0]?.scheduledFor ?? null
+      // Plateformes de la dernière occurrence (celle qui sera recopiée)
+      const platforms = [...new Set(
+        row.posts
+          .filter((post) => post.scheduledFor?.getTime() === lastScheduledFor?.getTime())
+          .map((post) => post.platform),
+      )]
+
+      series.push({ id: row.id, rule: rule.data, skipDates: row.skipDates, platforms, lastScheduledFor })
+    }
+
+    return NextResponse.json(series)
+  } catch (error) {
+    console.error('[GET /api/posts/series] Erreur :', error)
+    return NextResponse.json({ error: 'Erreur serveur' }, { status: 500 })
+  }
+}
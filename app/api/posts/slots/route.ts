@@ -0,0 +1,49 @@
+/**
+ * @file app/api/posts/slots/route.ts
+ * @description Route Handler GET : créneaux de publication du workspace actif.
+ *   Utilisé par la section « File de publication » de /settings et par le
+ *   compositeur (bouton « Ajouter à la file » actif si la plateforme a des créneaux).
+ *
+ *   GET /api/posts/slots
+ *   → [{ id, platform, weekday, hour, minute }]
+ *
+ * @example
+ *   const res = await fetch('/api/posts/slots')
+ *   const slots: PostingSlot[] = await res.json()
+ */
+
+import { headers } from 'next/headers'
+import { NextResponse } from 'next/server'
+
+import { auth } from '@/lib/auth'
+import { prisma } from '@/lib/prisma'
+import { getWorkspaceContext } from '@/lib/workspace'
+import type { PostingSlot } from '@/modules/posts/types'
+
+/**
+ * GET /api/posts/slots
+ * Liste les créneaux de toutes les plateformes.
+ *
+ * @returns 200 avec les créneaux, 401 si non authentifié
+ */
+export async function GET(): Promise<NextResponse> {
+  // ─── Authentification ─────────────────────────────────────────────────────
+  const session = await auth.api.getSession({ headers: await headers() })
+  if (!session) {
+    return NextResponse.json({ error: 'Non authentifié' }, { status: 401 })
+  }
+
+  try {
+    const workspace = await getWorkspaceContext(session.user.id)
+    const slots: PostingSlot[] = await prisma.postingSlot.findMany({
+      where: { workspaceId: workspace.id },
+      select: { id: true, platform: true, weekday: true, hour: true, minute: true },
+      orderBy: [{ platform: 'asc' }, { hour: 'asc' }, { minute: 'asc' }, { weekday: 'asc' }],
+    })
+
+    return NextResponse.json(slots)
+  } catch (error) {
+    console.error('[GET /api/posts/slots] Erreur :', error)
+    return NextResponse.json({ error: 'Erreur serveur' }, { status: 500 })
+  }
+}
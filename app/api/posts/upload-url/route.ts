@@ -7,7 +7,9 @@
  *   1. Le client valide le fichier (type, taille) et envoie { filename, mimeType, size }
  *   2. Ce handler vérifie la session, valide avec Zod, génère un presigned URL
  *   3. Le client uploade directement vers Supabase Storage (sans passer par le serveur)
- *   4. Après l'upload, le client appelle addMediaUrl() dans draftStore avec l'URL publique
+ *   4. Après l'upload, le client appelle saveMedia() : le média rejoint la galerie du
+ *      workspace (quota revérifié sur la taille réelle, sondage et variantes par plateforme)
+ *   5. Le client ajoute l'URL publique au brouillon (addMediaUrl() dans draftStore)
  *
  *   POST /api/posts/upload-url
  *   → Body : { filename: string, mimeType: string, size: number }
@@ -28,6 +30,7 @@ import { NextRequest, NextResponse } from 'next/server'
 
 import { auth } from '@/lib/auth'
 import { rateLimiters, rateLimitResponse } from '@/lib/rate-limit'
+import { checkStorageQuota } from '@/lib/storage-quota'
 // createServiceClient bypasse la RLS Supabase — l'auth est gérée par better-auth
 // et déjà vérifiée dans ce handler (session obligatoire).
 import { createServiceClient } from '@/lib/supabase/server'
@@ -44,7 +47,9 @@ const MEDIA_BUCKET = 'post-media'
  * @returns 200 avec { signedUrl, publicUrl, path }
  * @returns 400 si les données sont invalides
  * @returns 401 si non authentifié
+ * @returns 413 si le fichier dépasse le quota de stockage de l'utilisateur
  * @returns 500 si la génération du presigned URL échoue
+ * @returns 503 si le quota de stockage ne peut pas être vérifié
  */
 export async function POST(request: NextRequest): Promise<NextResponse> {
   const t0 = Date.now()
@@ -77,7 +82,22 @@ export async function POST(request: NextRequest): Promise<NextResponse> {
     )
   }
 
-  const { filename, mimeType } = parsed.data
+  const { filename, mimeType, size } = parsed.data
+
+  // ─── Quota de stockage ────────────────────────────────────────────────────────
+  let quotaError: string | null
+  try {
+    quotaError = await checkStorageQuota(session.user.id, size)
+  } catch (err) {
+    console.error('[upload-url] Quota de stockage illisible :', err)
+    return NextResponse.json(
+      { error: 'Impossible de vérifier l\'espace de stockage, réessayez dans un instant' },
+      { status: 503 },
+    )
+  }
+  if (quotaError) {
+    return NextResponse.json({ error: quotaError }, { status: 413 })
+  }
 
   // ─── Construction du chemin dans le bucket ────────────────────────────────────
   // Format : userId/timestamp-filename pour éviter les collisions
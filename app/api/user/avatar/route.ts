@@ -5,7 +5,7 @@
  *
  *   Flux d'upload avatar (client-side) :
  *   1. Client sélectionne un fichier image
- *   2. POST /api/user/avatar { filename, contentType } → { signedUrl, publicUrl }
+ *   2. POST /api/user/avatar { filename, contentType, size } → { signedUrl, publicUrl }
  *   3. Client PUT signedUrl avec le fichier (upload direct Supabase)
  *   4. Client appelle Server Action updateAvatarUrl(publicUrl) pour persister l'URL
  *
@@ -14,12 +14,13 @@
  *   - Chemin de fichier : {userId}/{timestamp}.{ext} → isolé par utilisateur
  *   - Bucket : "avatars" (public, lecture seule pour tous, écriture via service role)
  *   - Type MIME validé côté client + chemin contient l'extension
+ *   - Quota de stockage de l'utilisateur vérifié (lib/storage-quota.ts)
  *
  * @example
  *   const res = await fetch('/api/user/avatar', {
  *     method: 'POST',
  *     headers: { 'Content-Type': 'application/json' },
- *     body: JSON.stringify({ filename: 'photo.jpg', contentType: 'image/jpeg' }),
+ *     body: JSON.stringify({ filename: 'photo.jpg', contentType: 'image/jpeg', size: file.size }),
  *   })
  *   const { signedUrl, publicUrl } = await res.json()
  */
@@ -27,6 +28,7 @@
 import { headers } from 'next/headers'
 
 import { auth } from '@/lib/auth'
+import { checkStorageQuota } from '@/lib/storage-quota'
 import { createServiceClient } from '@/lib/supabase/server'
 
 // ─── Types ────────────────────────────────────────────────────────────────────
@@ -36,6 +38,8 @@ interface AvatarUploadRequest {
   filename: string
   /** Type MIME du fichier (ex: "image/jpeg") */
   contentType: string
+  /** Taille en octets (vérification du quota de stockage) */
+  size: number
 }
 
 interface AvatarUploadResponse {
@@ -50,6 +54,9 @@ interface AvatarUploadResponse {
 /** Bucket Supabase Storage dédié aux avatars utilisateur */
 const AVATARS_BUCKET = 'avatars'
 
+/** Taille maximale d'un avatar (octets), appliquée aussi par le bucket */
+const MAX_AVATAR_SIZE = 5 * 1024 * 1024
+
 /** Types MIME autorisés pour les avatars */
 const ALLOWED_CONTENT_TYPES = ['image/jpeg', 'image/png', 'image/webp', 'image/gif']
 
@@ -58,7 +65,8 @@ const ALLOWED_CONTENT_TYPES = ['image/jpeg', 'image/png', 'image/webp', 'image/g
 /**
  * Génère un presigned URL pour l'upload d'un avatar vers Supabase Storage.
  *
- * @returns 200 { signedUrl, publicUrl } | 400 | 401 | 500
+ * @returns 200 { signedUrl, publicUrl } | 400 | 401 | 413 (avatar trop lourd ou quota de stockage
+ *   dépassé) | 500 | 503 (quota de stockage illisible)
  */
 export async function POST(request: Request): Promise<Response> {
   // ── Vérification de la session ─────────────────────────────────────────────
@@ -75,7 +83,7 @@ export async function POST(request: Request): Promise<Response> {
     return Response.json({ error: 'Body JSON invalide' }, { status: 400 })
   }
 
-  const { filename, contentType } = body
+  const { filename, contentType, size } = body
 
   if (!filename || !contentType) {
     return Response.json({ error: 'filename et contentType sont requis' }, { status: 400 })
@@ -88,6 +96,31 @@ export async function POST(request: Request): Promise<Response> {
     )
   }
 
+  if (typeof size !== 'number' || !Number.isFinite(size) || size <= 0) {
+    return Response.json({ error: 'size est requis (taille du fichier en octets)' }, { status: 400 })
+  }
+
+  if (size > MAX_AVATAR_SIZE) {
+    return Response.json({ error: 'L\'avatar ne doit pas dépasser 5 Mo' }, { status: 413 })
+  }
+
+  // ── Quota de stockage ─────────────────────────────────────────────────────
+  // La taille annoncée n'engage pas le client : le bucket refuse tout fichier
+  // au-delà de MAX_AVATAR_SIZE, ce qui borne le dépassement possible du quota.
+  let quotaError: string | null
+  try {
+    quotaError = await checkStorageQuota(session.user.id, size)
+  } catch (err) {
+    console.error('[POST /api/user/avatar] Quota de stockage illisible :', err)
+    return Response.json(
+      { error: 'Impossible de vérifier l\'espace de stockage, réessayez dans un instant' },
+      { status: 503 },
+    )
+  }
+  if (quotaError) {
+    return Response.json({ error: quotaError }, { status: 413 })
+  }
+
   // ── Construction du chemin de fichier ─────────────────────────────────────
   // Format : {userId}/{timestamp}.{ext}
   // Isoler par userId pour éviter toute collision inter-utilisateurs.
@@ -105,7 +138,7 @@ export async function POST(request: Request): Promise<Response> {
   if (!bucketExists) {
     const { error: createError } = await supabase.storage.createBucket(AVATARS_BUCKET, {
       public: true,                  // Les avatars sont publiquement accessibles en lecture
-      fileSizeLimit: 5 * 1024 * 1024, // Max 5 Mo par fichier
+      fileSizeLimit: MAX_AVATAR_SIZE, // Max 5 Mo par fichier
       allowedMimeTypes: ALLOWED_CONTENT_TYPES,
     })
     if (createError) {
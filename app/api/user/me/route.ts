@@ -2,10 +2,11 @@
  * @file app/api/user/me/route.ts
  * @description API Route — retourne le profil complet de l'utilisateur connecté,
  *   y compris les champs custom Prisma non inclus dans la session better-auth
- *   (avatarUrl, description).
+ *   (avatarUrl, description, timezone).
  *
  *   Utilisée par UserMenu pour afficher l'avatar uploadé sans attendre
- *   l'expiration du cache de session better-auth (cookieCache.maxAge = 5min).
+ *   l'expiration du cache de session better-auth (cookieCache.maxAge = 5min),
+ *   et par useUserTimezone (DateTimePicker, détection du fuseau à la première connexion).
  *
  * @example
  *   const res = await fetch('/api/user/me')
@@ -29,6 +30,8 @@ export interface UserMeResponse {
   email: string
   /** Description / bio de l'utilisateur */
   description: string | null
+  /** Fuseau horaire IANA, null si pas encore détecté */
+  timezone: string | null
 }
 
 // ─── Handler GET ──────────────────────────────────────────────────────────────
@@ -38,7 +41,7 @@ export interface UserMeResponse {
  * Lit directement depuis Prisma pour obtenir les champs non inclus
  * dans le cookie de session better-auth (avatarUrl, description).
  *
- * @returns 200 { avatarUrl, name, email, description } | 401 | 500
+ * @returns 200 { avatarUrl, name, email, description, timezone } | 401 | 500
  */
 export async function GET(): Promise<Response> {
   // ── Vérification de la session ─────────────────────────────────────────────
@@ -56,6 +59,7 @@ export async function GET(): Promise<Response> {
       name: true,
       email: true,
       description: true,
+      timezone: true,
     },
   })
 
@@ -68,6 +72,7 @@ export async function GET(): Promise<Response> {
     name: user.name,
     email: user.email,
     description: user.description,
+    timezone: user.timezone,
   }
 
   return Response.json(response)
@@ -0,0 +1,38 @@
+/**
+ * @file app/api/user/storage/route.ts
+ * @description API Route — retourne l'espace de stockage utilisé par l'utilisateur
+ *   connecté, son quota et la répartition par type de fichier (lib/storage-quota.ts).
+ *
+ *   Utilisée par StorageUsageMeter (section « Stockage » de /settings).
+ *
+ * @example
+ *   const res = await fetch('/api/user/storage')
+ *   const { usedBytes, quotaBytes, byType } = (await res.json()) as StorageUsage
+ */
+
+import { headers } from 'next/headers'
+
+import { auth } from '@/lib/auth'
+import { getStorageUsage } from '@/lib/storage-quota'
+
+// ─── Handler GET ──────────────────────────────────────────────────────────────
+
+/**
+ * Retourne l'utilisation du stockage de l'utilisateur authentifié.
+ *
+ * @returns 200 StorageUsage | 401 | 500
+ */
+export async function GET(): Promise<Response> {
+  // ── Vérification de la session ─────────────────────────────────────────────
+  const session = await auth.api.getSession({ headers: await headers() })
+  if (!session?.user) {
+    return Response.json({ error: 'Non authentifié' }, { status: 401 })
+  }
+
+  try {
+    return Response.json(await getStorageUsage(session.user.id))
+  } catch (err) {
+    console.error('[GET /api/user/storage] Erreur :', err)
+    return Response.json({ error: 'Impossible de calculer l\'espace de stockage' }, { status: 500 })
+  }
+}
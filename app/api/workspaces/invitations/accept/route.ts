@@ -0,0 +1,95 @@
+/**
+ * @file app/api/workspaces/invitations/accept/route.ts
+ * @description Acceptation d'une invitation dans un workspace (lien de l'email).
+ *   L'utilisateur doit être connecté avec l'adresse invitée : sans session, il est
+ *   renvoyé vers /login puis ramené ici (callbackUrl). En cas de succès, il devient
+ *   membre avec le rôle de l'invitation et le workspace devient son workspace actif.
+ *
+ *   URL appelée : GET /api/workspaces/invitations/accept?token=...
+ *   → /settings?success=workspace_joined
+ *   → /settings?error=invitation_invalid&reason=... (token inconnu, expiré, autre adresse)
+ *
+ * @example
+ *   GET /api/workspaces/invitations/accept?token=4f9c...
+ */
+
+import { headers } from 'next/headers'
+import { NextRequest, NextResponse } from 'next/server'
+
+import { auth } from '@/lib/auth'
+import { prisma } from '@/lib/prisma'
+import type { WorkspaceRole } from '@/modules/workspaces/types'
+import { invitationError } from '@/modules/workspaces/utils/roles'
+
+/**
+ * Redirection vers /settings avec le motif du refus.
+ *
+ * @param reason - Message affiché par SettingsToastHandler
+ * @param origin - Origine de la requête
+ */
+function redirectInvalid(reason: string, origin: string): NextResponse {
+  return NextResponse.redirect(
+    new URL(`/settings?error=invitation_invalid&reason=${encodeURIComponent(reason)}`, origin),
+  )
+}
+
+/**
+ * Handler GET : valide le token et ajoute l'utilisateur connecté au workspace.
+ */
+export async function GET(request: NextRequest): Promise<NextResponse> {
+  const { searchParams, origin, pathname, search } = new URL(request.url)
+
+  // Sans session : connexion puis retour sur ce lien
+  const session = await auth.api.getSession({ headers: await headers() })
+  if (!session) {
+    const loginUrl = new URL('/login', origin)
+    loginUrl.searchParams.set('callbackUrl', `${pathname}${search}`)
+    return NextResponse.redirect(loginUrl)
+  }
+
+  const token = searchParams.get('token')
+  if (!token) {
+    return redirectInvalid('Lien d\'invitation incomplet', origin)
+  }
+
+  const invitation: {
+    id: string
+    workspaceId: string
+    email: string
+    role: WorkspaceRole
+    expiresAt: Date
+    acceptedAt: Date | null
+  } | null = await prisma.workspaceInvitation.findUnique({
+    where: { token },
+    select: { id: true, workspaceId: true, email: true, role: true, expiresAt: true, acceptedAt: true },
+  })
+
+  const error = invitationError(invitation, session.user.email, new Date())
+  if (error || !invitation) {
+    return redirectInvalid(error ?? 'Invitation introuvable', origin)
+  }
+
+  try {
+    await prisma.$transaction([
+      // Déjà membre (ex: invité deux fois) → rôle conservé
+      prisma.workspaceMember.upsert({
+        where: { workspaceId_userId: { workspaceId: invitation.workspaceId, userId: session.user.id } },
+        create: { workspaceId: invitation.workspaceId, userId: session.user.id, role: invitation.role },
+        update: {},
+      }),
+      prisma.workspaceInvitation.update({
+        where: { id: invitation.id },
+        data: { acceptedAt: new Date() },
+      }),
+      prisma.user.update({
+        where: { id: session.user.id },
+        data: { activeWorkspaceId: invitation.workspaceId },
+      }),
+    ])
+  } catch (err) {
+    console.error('[invitations/accept] Erreur :', err)
+    return redirectInvalid('Impossible de rejoindre le workspace — réessaie', origin)
+  }
+
+  return NextResponse.redirect(new URL('/settings?success=workspace_joined', origin))
+}
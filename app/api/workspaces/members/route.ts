@@ -0,0 +1,93 @@
+/**
+ * @file app/api/workspaces/members/route.ts
+ * @description Route Handler GET : membres et invitations en attente du workspace actif.
+ *   Utilisé par la section « Équipe » de /settings (WorkspaceMembers).
+ *   Les invitations ne sont renvoyées qu'au propriétaire (OWNER).
+ *
+ *   GET /api/workspaces/members
+ *   → { workspace, role, members, invitations }
+ *
+ * @example
+ *   const res = await fetch('/api/workspaces/members')
+ *   const data: WorkspaceMembersResponse = await res.json()
+ */
+
+import { headers } from 'next/headers'
+import { NextResponse } from 'next/server'
+
+import { auth } from '@/lib/auth'
+import { prisma } from '@/lib/prisma'
+import { resolveTimezone } from '@/lib/timezone'
+import { getWorkspaceContext } from '@/lib/workspace'
+import type {
+  WorkspaceInvitationItem,
+  WorkspaceMembersResponse,
+  WorkspaceRole,
+} from '@/modules/workspaces/types'
+import { hasWorkspaceRole } from '@/modules/workspaces/utils/roles'
+
+/**
+ * GET /api/workspaces/members
+ *
+ * @returns 200 avec membres + invitations, 401 si non authentifié
+ */
+export async function GET(): Promise<NextResponse> {
+  // ─── Authentification ─────────────────────────────────────────────────────
+  const session = await auth.api.getSession({ headers: await headers() })
+  if (!session) {
+    return NextResponse.json({ error: 'Non authentifié' }, { status: 401 })
+  }
+
+  try {
+    const workspace = await getWorkspaceContext(session.user.id)
+
+    const members: {
+      id: string
+      userId: string
+      role: WorkspaceRole
+      user: { name: string | null; email: string }
+    }[] = await prisma.workspaceMember.findMany({
+      where: { workspaceId: workspace.id },
+      select: { id: true, userId: true, role: true, user: { select: { name: true, email: true } } },
+      orderBy: { createdAt: 'asc' },
+    })
+
+    const settings: { requirePostApproval: boolean; timezone: string | null } | null =
+      await prisma.workspace.findUnique({
+        where: { id: workspace.id },
+        select: { requirePostApproval: true, timezone: true },
+      })
+
+    const invitations: WorkspaceInvitationItem[] = hasWorkspaceRole(workspace.role, 'OWNER')
+      ? await prisma.workspaceInvitation.findMany({
+        where: { workspaceId: workspace.id, acceptedAt: null, expiresAt: { gt: new Date() } },
+        select: { id: true, email: true, role: true, expiresAt: true },
+        orderBy: { createdAt: 'desc' },
+      })
+      : []
+
+    const response: WorkspaceMembersResponse = {
+      workspace: {
+        id: workspace.id,
+        name: workspace.name,
+        requirePostApproval: settings?.requirePostApproval ?? false,
+        timezone: resolveTimezone(settings?.timezone),
+      },
+      role: workspace.role,
+      members: members.map((m) => ({
+        id: m.id,
+        userId: m.userId,
+        name: m.user.name,
+        email: m.user.email,
+        role: m.role,
+        isSelf: m.userId === session.user.id,
+      })),
+      invitations,
+    }
+
+    return NextResponse.json(response)
+  } catch (error) {
+    console.error('[GET /api/workspaces/members] Erreur :', error)
+    return NextResponse.json({ error: 'Erreur serveur' }, { status: 500 })
+  }
+}
@@ -0,0 +1,57 @@
+/**
+ * @file app/api/workspaces/route.ts
+ * @description Route Handler GET : workspaces dont l'utilisateur est membre.
+ *   Utilisé par WorkspaceSwitcher (Header) pour changer de workspace affiché.
+ *
+ *   GET /api/workspaces
+ *   → [{ id, name, role, isActive }]
+ *
+ * @example
+ *   const res = await fetch('/api/workspaces')
+ *   const workspaces: WorkspaceSummary[] = await res.json()
+ */
+
+import { headers } from 'next/headers'
+import { NextResponse } from 'next/server'
+
+import { auth } from '@/lib/auth'
+import { prisma } from '@/lib/prisma'
+import { getWorkspaceContext } from '@/lib/workspace'
+import type { WorkspaceRole, WorkspaceSummary } from '@/modules/workspaces/types'
+
+/**
+ * GET /api/workspaces
+ * Liste les workspaces de l'utilisateur, le workspace actif marqué `isActive`.
+ *
+ * @returns 200 avec les workspaces, 401 si non authentifié
+ */
+export async function GET(): Promise<NextResponse> {
+  // ─── Authentification ─────────────────────────────────────────────────────
+  const session = await auth.api.getSession({ headers: await headers() })
+  if (!session) {
+    return NextResponse.json({ error: 'Non authentifié' }, { status: 401 })
+  }
+
+  try {
+    // Résout aussi le workspace affiché quand activeWorkspaceId est vide ou obsolète
+    const active = await getWorkspaceContext(session.user.id)
+    const memberships: { role: WorkspaceRole; workspace: { id: string; name: string } }[] =
+      await prisma.workspaceMember.findMany({
+        where: { userId: session.user.id },
+        select: { role: true, workspace: { select: { id: true, name: true } } },
+        orderBy: { createdAt: 'asc' },
+      })
+
+    const workspaces: WorkspaceSummary[] = memberships.map((m) => ({
+      id: m.workspace.id,
+      name: m.workspace.name,
+      role: m.role,
+      isActive: m.workspace.id === active.id,
+    }))
+
+    return NextResponse.json(workspaces)
+  } catch (error) {
+    console.error('[GET /api/workspaces] Erreur :', error)
+    return NextResponse.json({ error: 'Erreur serveur' }, { status: 500 })
+  }
+}
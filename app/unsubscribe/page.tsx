@@ -0,0 +1,123 @@
+/**
+ * @file app/unsubscribe/page.tsx
+ * @description Page publique de désinscription (/unsubscribe), ouverte depuis le
+ *   lien « Se désinscrire » des emails de notification.
+ *
+ *   L'ouverture de la page ne modifie rien : les scanners de liens des messageries
+ *   suivent les GET. La désinscription n'a lieu qu'après le clic sur le bouton
+ *   (POST /api/notifications/unsubscribe), qui revient ici avec `status`.
+ *
+ *   Query params :
+ *   - token  : jeton signé et daté (lib/unsubscribe.ts) → formulaire de confirmation
+ *   - status : done | invalid | failed → résultat après confirmation
+ *
+ * @example
+ *   // Lien inséré dans emails/WeeklyRecap.tsx :
+ *   `${baseUrl}/unsubscribe?token=${createUnsubscribeToken(userId, 'weekly-recap')}`
+ */
+
+import Link from 'next/link'
+
+import { Button } from '@/components/ui/button'
+import { verifyUnsubscribeToken } from '@/lib/unsubscribe'
+
+import type { Metadata } from 'next'
+
+export const metadata: Metadata = {
+  title: 'Désinscription',
+}
+
+// ─── Types ────────────────────────────────────────────────────────────────────
+
+interface UnsubscribePageProps {
+  searchParams: Promise<{ token?: string; status?: string }>
+}
+
+/** État affiché par la page */
+type PageState = 'confirm' | 'done' | 'invalid' | 'failed'
+
+// ─── Constantes ───────────────────────────────────────────────────────────────
+
+/** Titre et message de chaque état (hors formulaire de confirmation) */
+const MESSAGES: Record<Exclude<PageState, 'confirm'>, { title: string; description: string }> = {
+  done: {
+    title: 'Désinscription confirmée',
+    description: 'Tu ne recevras plus le récapitulatif hebdomadaire. Tu peux le réactiver à tout moment dans les paramètres.',
+  },
+  invalid: {
+    title: 'Lien invalide ou expiré',
+    description: 'Ce lien de désinscription n\'est plus valable. Gère tes notifications depuis les paramètres de ton compte.',
+  },
+  failed: {
+    title: 'La désinscription a échoué',
+    description: 'Une erreur est survenue de notre côté. Réessaie plus tard ou désactive la notification depuis les paramètres.',
+  },
+}
+
+// ─── Helpers ──────────────────────────────────────────────────────────────────
+
+/**
+ * Détermine l'état de la page depuis les query params.
+ *
+ * @param token  - Jeton du lien de l'email
+ * @param status - Résultat renvoyé par la route après confirmation
+ * @returns État à afficher
+ */
+function resolveState(token: string | undefined, status: string | undefined): PageState {
+  if (status === 'done' || status === 'invalid' || status === 'failed') return status
+  try {
+    return token && verifyUnsubscribeToken(token) ? 'confirm' : 'invalid'
+  } catch (error) {
+    // BETTER_AUTH_SECRET manquant : erreur de configuration, pas un lien invalide
+    console.error('[unsubscribe] Erreur :', error)
+    return 'failed'
+  }
+}
+
+// ─── Page ─────────────────────────────────────────────────────────────────────
+
+/**
+ * Page de désinscription.
+ * Server Component — le formulaire est un POST HTML natif, sans JS client.
+ */
+export default async function UnsubscribePage({ searchParams }: UnsubscribePageProps): Promise<React.JSX.Element> {
+  const { token, status } = await searchParams
+  const state = resolveState(token, status)
+  const message = state === 'confirm' ? null : MESSAGES[state]
+
+  return (
+    <div className="flex min-h-screen items-center justify-center bg-muted/40 px-4 py-12">
+      <div className="w-full max-w-md rounded-xl border bg-card p-8 text-center shadow-sm">
+        {message ? (
+          <>
+            <h1 className="text-xl font-bold tracking-tight">{message.title}</h1>
+            <p className="mt-2 text-sm text-muted-foreground">{message.description}</p>
+          </>
+        ) : (
+          <>
+            <h1 className="text-xl font-bold tracking-tight">Se désinscrire du récapitulatif ?</h1>
+            <p className="mt-2 text-sm text-muted-foreground">
+              Tu ne recevras plus l&apos;email hebdomadaire qui résume tes publications.
+            </p>
+            <form
+              method="post"
+              action={`/api/notifications/unsubscribe?token=${encodeURIComponent(token ?? '')}`}
+              className="mt-6"
+            >
+              <input type="hidden" name="confirm" value="1" />
+              <Button type="submit" className="w-full">
+                Confirmer la désinscription
+              </Button>
+            </form>
+          </>
+        )}
+        <Link
+          href="/settings"
+          className="mt-6 inline-block text-sm text-muted-foreground underline-offset-4 hover:underline"
+        >
+          Gérer mes notifications
+        </Link>
+      </div>
+    </div>
+  )
+}
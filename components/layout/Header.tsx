@@ -2,12 +2,13 @@
  * @file Header.tsx
  * @module layout
  * @description Barre supérieure du dashboard.
+ *   - Sélecteur du workspace affiché (WorkspaceSwitcher)
  *   - Menu utilisateur (avatar + dropdown déconnexion/paramètres via better-auth)
  *   - Bouton hamburger (mobile uniquement, md:hidden) → ouvre MobileSidebar
  *
  *   Responsive :
- *   - Mobile (< md) : hamburger à gauche, menu utilisateur à droite
- *   - Desktop (md+) : menu utilisateur à droite uniquement (sidebar toujours visible)
+ *   - Mobile (< md) : hamburger à gauche, workspace + menu utilisateur à droite
+ *   - Desktop (md+) : workspace + menu utilisateur à droite (sidebar toujours visible)
  *
  * @example
  *   // app/(dashboard)/layout.tsx
@@ -21,6 +22,7 @@ import { Menu } from 'lucide-react'
 import { Button } from '@/components/ui/button'
 import { MobileSidebar } from '@/components/layout/MobileSidebar'
 import { UserMenu } from '@/modules/auth/components/UserMenu'
+import { WorkspaceSwitcher } from '@/modules/workspaces/components/WorkspaceSwitcher'
 import { useAppStore } from '@/store/app.store'
 
 // ─── Composant ────────────────────────────────────────────────────────────────
@@ -62,8 +64,11 @@ export function Header(): React.JSX.Element {
        */}
       <div className="hidden md:block" aria-hidden="true" />
 
-      {/* ── Droite : menu utilisateur (avatar + dropdown) ───────────────── */}
+      {/* ── Droite : workspace affiché + menu utilisateur (avatar + dropdown) ── */}
       <div className="flex items-center gap-3">
+        {/* Sélecteur de workspace : change toutes les données affichées */}
+        <WorkspaceSwitcher />
+
         {/* Avatar cliquable → dropdown avec infos, paramètres, déconnexion */}
         <UserMenu />
       </div>
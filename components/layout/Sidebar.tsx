@@ -11,6 +11,7 @@
  *   - Composer (/compose)     → créer / lister / éditer des posts
  *   - Analytics (/analytics)  → statistiques
  *   - Inbox (/inbox)          → messages unifiés
+ *   - Journal (/audit)        → journal d'audit du workspace
  *   - Settings (/settings)    → compte et réseaux
  *
  * @example
@@ -27,6 +28,7 @@ import {
   Inbox,
   LayoutDashboard,
   PenSquare,
+  ScrollText,
   Settings,
   UserCircle,
 } from 'lucide-react'
@@ -61,6 +63,8 @@ export const NAV_ITEMS: NavItem[] = [
   { label: 'Signatures',  href: '/signatures',  icon: FileSignature },
   { label: 'Analytics',   href: '/analytics',   icon: BarChart2 },
   { label: 'Inbox',       href: '/inbox',       icon: Inbox },
+  // Journal : qui a modifié quoi et quand dans le workspace (audit)
+  { label: 'Journal',     href: '/audit',       icon: ScrollText },
   { label: 'Profil',      href: '/profile',     icon: UserCircle },
   { label: 'Paramètres',  href: '/settings',    icon: Settings },
 ]
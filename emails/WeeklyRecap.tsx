@@ -0,0 +1,347 @@
+/**
+ * @file emails/WeeklyRecap.tsx
+ * @description Template React Email du récapitulatif hebdomadaire.
+ *   Envoyé chaque lundi par la fonction Inngest send-weekly-recap.ts
+ *   aux utilisateurs ayant NotificationPrefs.emailWeeklyRecap = true.
+ *
+ *   Sections : bilan des 7 derniers jours (publiés / échecs), meilleur post,
+ *   évolution des abonnés, file des posts planifiés de la semaine à venir.
+ *   Le pied de page contient un lien de désinscription en un clic.
+ *
+ * @example
+ *   import { WeeklyRecapEmail } from '@/emails/WeeklyRecap'
+ *   await resend.emails.send({
+ *     react: WeeklyRecapEmail({
+ *       userName: 'Marie',
+ *       periodLabel: '3 – 9 mars',
+ *       publishedCount: 5,
+ *       failedCount: 1,
+ *       topPost: { text: 'Mon super post', platform: 'instagram', engagementRate: 6.2 },
+ *       followerDeltas: [{ platform: 'instagram', currentFollowers: 1200, growth: 34 }],
+ *       upcomingPosts: [{ text: 'Teaser', platform: 'tiktok', scheduledLabel: 'lun. 10 mars, 18:00' }],
+ *       upcomingCount: 1,
+ *       dashboardUrl: 'https://ogolong.com/compose',
+ *       unsubscribeUrl: 'https://ogolong.com/unsubscribe?token=…',
+ *     }),
+ *   })
+ */
+
+import {
+  Body,
+  Button,
+  Container,
+  Head,
+  Heading,
+  Hr,
+  Html,
+  Preview,
+  Section,
+  Text,
+} from '@react-email/components'
+
+// ─── Props ────────────────────────────────────────────────────────────────────
+
+/** Meilleur post de la semaine (taux d'engagement le plus élevé selon Late) */
+export interface WeeklyRecapTopPost {
+  text: string
+  platform: string
+  /** Taux d'engagement en pourcentage (ex: 5.43) */
+  engagementRate: number
+}
+
+/** Évolution des abonnés d'une plateforme sur la période */
+export interface WeeklyRecapFollowerDelta {
+  platform: string
+  currentFollowers: number
+  /** Variation sur 7 jours (peut être négative) */
+  growth: number
+}
+
+/** Post planifié dans la semaine à venir */
+export interface WeeklyRecapUpcomingPost {
+  text: string
+  platform: string
+  /** Date de publication déjà formatée (ex: "lun. 10 mars, 18:00") */
+  scheduledLabel: string
+}
+
+interface WeeklyRecapEmailProps {
+  /** Prénom ou nom de l'utilisateur */
+  userName: string
+  /** Période couverte, déjà formatée (ex: "3 – 9 mars") */
+  periodLabel: string
+  /** Nombre de posts publiés sur les 7 derniers jours */
+  publishedCount: number
+  /** Nombre de posts en échec sur les 7 derniers jours */
+  failedCount: number
+  /** Meilleur post (null si aucune analytics disponible) */
+  topPost: WeeklyRecapTopPost | null
+  /** Évolution des abonnés par plateforme ([] si add-on analytics absent) */
+  followerDeltas: WeeklyRecapFollowerDelta[]
+  /** Premiers posts planifiés des 7 prochains jours */
+  upcomingPosts: WeeklyRecapUpcomingPost[]
+  /** Nombre total de posts planifiés sur les 7 prochains jours */
+  upcomingCount: number
+  /** URL du compositeur */
+  dashboardUrl: string
+  /** URL de la page de désinscription (confirmation avant toute modification) */
+  unsubscribeUrl: string
+}
+
+// ─── Helpers ──────────────────────────────────────────────────────────────────
+
+/**
+ * Capitalise le nom d'une plateforme pour l'affichage ("tiktok" → "Tiktok").
+ *
+ * @param platform - Identifiant de la plateforme
+ */
+function platformLabel(platform: string): string {
+  return platform.charAt(0).toUpperCase() + platform.slice(1)
+}
+
+/**
+ * Tronque un texte de post pour l'email (évite les blocs trop longs).
+ *
+ * @param text - Texte complet
+ * @param max - Longueur maximale (défaut 100)
+ */
+function excerpt(text: string, max = 100): string {
+  return text.length > max ? `${text.substring(0, max)}…` : text
+}
+
+// ─── Composant ────────────────────────────────────────────────────────────────
+
+/**
+ * Template d'email du récapitulatif hebdomadaire.
+ */
+export function WeeklyRecapEmail({
+  userName,
+  periodLabel,
+  publishedCount,
+  failedCount,
+  topPost,
+  followerDeltas,
+  upcomingPosts,
+  upcomingCount,
+  dashboardUrl,
+  unsubscribeUrl,
+}: WeeklyRecapEmailProps): React.JSX.Element {
+  return (
+    <Html lang="fr">
+      <Head />
+      <Preview>
+        Votre semaine sur ogolong : {String(publishedCount)} post(s) publié(s), {String(upcomingCount)} planifié(s)
+      </Preview>
+      <Body style={styles.body}>
+        <Container style={styles.container}>
+          {/* En-tête */}
+          <Heading style={styles.heading}>📊 Votre semaine — {periodLabel}</Heading>
+
+          <Text style={styles.text}>Bonjour {userName},</Text>
+
+          {/* Bilan des 7 derniers jours */}
+          <Section style={styles.statsRow}>
+            <Text style={styles.stat}>
+              <span style={styles.statValue}>{publishedCount}</span>
+              <br />
+              publié(s)
+            </Text>
+            <Text style={styles.stat}>
+              <span style={failedCount > 0 ? styles.statValueDanger : styles.statValue}>
+                {failedCount}
+              </span>
+              <br />
+              en échec
+            </Text>
+            <Text style={styles.stat}>
+              <span style={styles.statValue}>{upcomingCount}</span>
+              <br />
+              à venir
+            </Text>
+          </Section>
+
+          {/* Meilleur post */}
+          {topPost && (
+            <>
+              <Hr style={styles.hr} />
+              <Text style={styles.sectionTitle}>🏆 Meilleur post</Text>
+              <Section style={styles.postPreview}>
+                <Text style={styles.postText}>&quot;{excerpt(topPost.text)}&quot;</Text>
+              </Section>
+              <Text style={styles.text}>
+                {platformLabel(topPost.platform)} — {topPost.engagementRate.toFixed(1)} % d&apos;engagement
+              </Text>
+            </>
+          )}
+
+          {/* Évolution des abonnés */}
+          {followerDeltas.length > 0 && (
+            <>
+              <Hr style={styles.hr} />
+              <Text style={styles.sectionTitle}>👥 Abonnés</Text>
+              {followerDeltas.map((delta) => (
+                <Text key={delta.platform} style={styles.listItem}>
+                  <strong>{platformLabel(delta.platform)}</strong> :{' '}
+                  {delta.currentFollowers.toLocaleString('fr-FR')}{' '}
+                  <span style={delta.growth >= 0 ? styles.positive : styles.negative}>
+                    ({delta.growth >= 0 ? '+' : ''}
+                    {delta.growth.toLocaleString('fr-FR')})
+                  </span>
+                </Text>
+              ))}
+            </>
+          )}
+
+          {/* Semaine à venir */}
+          <Hr style={styles.hr} />
+          <Text style={styles.sectionTitle}>🗓️ Semaine à venir</Text>
+          {upcomingPosts.length === 0 ? (
+            <Text style={styles.text}>
+              Aucun post planifié pour les 7 prochains jours.
+            </Text>
+          ) : (
+            <>
+              {upcomingPosts.map((post, index) => (
+                <Text key={index} style={styles.listItem}>
+                  <strong>{post.scheduledLabel}</strong> · {platformLabel(post.platform)} —{' '}
+                  {excerpt(post.text, 60)}
+                </Text>
+              ))}
+              {upcomingCount > upcomingPosts.length && (
+                <Text style={styles.muted}>
+                  … et {upcomingCount - upcomingPosts.length} autre(s).
+                </Text>
+              )}
+            </>
+          )}
+
+          {/* Bouton d'action */}
+          <Button href={dashboardUrl} style={styles.button}>
+            Ouvrir ogolong
+          </Button>
+
+          <Hr style={styles.hr} />
+
+          {/* Pied de page */}
+          <Text style={styles.footer}>
+            Vous recevez cet email car le récapitulatif hebdomadaire est activé sur ogolong.
+            <br />
+            <a href={unsubscribeUrl} style={styles.link}>
+              Se désinscrire en un clic
+            </a>
+          </Text>
+        </Container>
+      </Body>
+    </Html>
+  )
+}
+
+// ─── Styles inline ────────────────────────────────────────────────────────────
+// React Email requiert des styles inline (pas de classes CSS)
+
+const styles = {
+  body: {
+    backgroundColor: '#f4f4f5',
+    fontFamily: '-apple-system, BlinkMacSystemFont, "Segoe UI", Roboto, sans-serif',
+  },
+  container: {
+    margin: '40px auto',
+    backgroundColor: '#ffffff',
+    borderRadius: '8px',
+    padding: '40px',
+    maxWidth: '560px',
+  },
+  heading: {
+    fontSize: '24px',
+    fontWeight: '700',
+    color: '#18181b',
+    marginBottom: '24px',
+  },
+  text: {
+    fontSize: '15px',
+    color: '#3f3f46',
+    lineHeight: '1.6',
+    margin: '12px 0',
+  },
+  sectionTitle: {
+    fontSize: '16px',
+    fontWeight: '600',
+    color: '#18181b',
+    margin: '0 0 8px',
+  },
+  statsRow: {
+    width: '100%',
+    textAlign: 'center' as const,
+  },
+  stat: {
+    display: 'inline-block',
+    width: '33%',
+    fontSize: '13px',
+    color: '#71717a',
+    margin: '8px 0',
+  },
+  statValue: {
+    fontSize: '28px',
+    fontWeight: '700',
+    color: '#18181b',
+  },
+  statValueDanger: {
+    fontSize: '28px',
+    fontWeight: '700',
+    color: '#dc2626',
+  },
+  postPreview: {
+    backgroundColor: '#fafafa',
+    borderLeft: '3px solid #e4e4e7',
+    padding: '12px 16px',
+    margin: '8px 0',
+    borderRadius: '4px',
+  },
+  postText: {
+    fontSize: '14px',
+    color: '#71717a',
+    fontStyle: 'italic',
+    margin: '0',
+  },
+  listItem: {
+    fontSize: '14px',
+    color: '#3f3f46',
+    lineHeight: '1.5',
+    margin: '4px 0',
+  },
+  positive: {
+    color: '#16a34a',
+  },
+  negative: {
+    color: '#dc2626',
+  },
+  muted: {
+    fontSize: '13px',
+    color: '#a1a1aa',
+    margin: '4px 0',
+  },
+  button: {
+    backgroundColor: '#18181b',
+    color: '#ffffff',
+    padding: '12px 24px',
+    borderRadius: '6px',
+    fontSize: '14px',
+    fontWeight: '600',
+    textDecoration: 'none',
+    display: 'inline-block',
+    margin: '24px 0 8px',
+  },
+  hr: {
+    borderColor: '#e4e4e7',
+    margin: '24px 0',
+  },
+  footer: {
+    fontSize: '12px',
+    color: '#a1a1aa',
+    lineHeight: '1.6',
+  },
+  link: {
+    color: '#18181b',
+    textDecoration: 'underline',
+  },
+} as const
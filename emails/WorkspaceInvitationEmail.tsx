@@ -0,0 +1,196 @@
+/**
+ * @file emails/WorkspaceInvitationEmail.tsx
+ * @description Template React Email d'invitation dans un workspace (équipe).
+ *   Envoyé par inviteMember (modules/workspaces/actions/workspace.action.ts) via Plunk.
+ *   Le bouton CTA pointe vers /api/workspaces/invitations/accept?token=...
+ *
+ * @example
+ *   import { WorkspaceInvitationEmail } from '@/emails/WorkspaceInvitationEmail'
+ *   const html = await render(WorkspaceInvitationEmail({
+ *     url: 'https://ogolong.com/api/workspaces/invitations/accept?token=abc123',
+ *     workspaceName: 'Studio Lumen',
+ *     inviterName: 'Marie',
+ *     roleLabel: 'Éditeur',
+ *   }))
+ */
+
+import {
+  Body,
+  Button,
+  Container,
+  Head,
+  Heading,
+  Hr,
+  Html,
+  Preview,
+  Section,
+  Text,
+} from '@react-email/components'
+
+// ─── Props ────────────────────────────────────────────────────────────────────
+
+interface WorkspaceInvitationEmailProps {
+  /** Lien d'acceptation (avec token d'invitation) */
+  url: string
+  /** Nom du workspace rejoint */
+  workspaceName: string
+  /** Nom de la personne qui invite (optionnel) */
+  inviterName?: string
+  /** Libellé du rôle attribué (ex: "Éditeur") */
+  roleLabel: string
+}
+
+// ─── Template ─────────────────────────────────────────────────────────────────
+
+/**
+ * Template email d'invitation dans un workspace.
+ * Même mise en page que VerificationEmail.
+ *
+ * @param url           - Lien d'acceptation à insérer dans le bouton CTA
+ * @param workspaceName - Nom du workspace
+ * @param inviterName   - Auteur de l'invitation (optionnel)
+ * @param roleLabel     - Rôle attribué
+ */
+export function WorkspaceInvitationEmail({
+  url,
+  workspaceName,
+  inviterName,
+  roleLabel,
+}: WorkspaceInvitationEmailProps): React.JSX.Element {
+  const intro = inviterName
+    ? `${inviterName} t'invite à rejoindre le workspace « ${workspaceName} » sur ogolong.`
+    : `Tu es invité à rejoindre le workspace « ${workspaceName} » sur ogolong.`
+
+  return (
+    <Html lang="fr">
+      <Head />
+      <Preview>{`Invitation à rejoindre ${workspaceName} sur ogolong`}</Preview>
+
+      <Body style={styles.body}>
+        <Container style={styles.container}>
+
+          {/* ── En-tête logo ───────────────────────────────────────────── */}
+          <Section style={styles.header}>
+            <Text style={styles.logo}>ogolong</Text>
+          </Section>
+
+          {/* ── Corps ─────────────────────────────────────────────────── */}
+          <Section style={styles.content}>
+            <Heading style={styles.heading}>Rejoins {workspaceName}</Heading>
+
+            <Text style={styles.text}>Bonjour,</Text>
+            <Text style={styles.text}>{intro}</Text>
+            <Text style={styles.text}>Rôle attribué : {roleLabel}.</Text>
+
+            {/* Bouton CTA — acceptation de l'invitation */}
+            <Button href={url} style={styles.button}>
+              Rejoindre le workspace
+            </Button>
+
+            <Text style={styles.hint}>
+              Cette invitation expire dans 7 jours. Connecte-toi (ou crée un compte)
+              avec cette adresse email pour l&apos;accepter. Si tu ne t&apos;attendais pas à
+              cette invitation, tu peux ignorer cet email.
+            </Text>
+          </Section>
+
+          <Hr style={styles.hr} />
+
+          {/* ── Pied de page ───────────────────────────────────────────── */}
+          <Section style={styles.footer}>
+            <Text style={styles.footerText}>
+              ogolong · Planification de contenu multiplateforme
+            </Text>
+            <Text style={styles.footerText}>
+              Si le bouton ne fonctionne pas, copie ce lien dans ton navigateur :
+            </Text>
+            <Text style={styles.link}>{url}</Text>
+          </Section>
+
+        </Container>
+      </Body>
+    </Html>
+  )
+}
+
+// ─── Styles inline (requis par les clients email) ─────────────────────────────
+
+const styles = {
+  body: {
+    backgroundColor: '#f4f4f5',
+    fontFamily: '-apple-system, BlinkMacSystemFont, "Segoe UI", Roboto, sans-serif',
+    margin: '0',
+    padding: '0',
+  },
+  container: {
+    backgroundColor: '#ffffff',
+    borderRadius: '8px',
+    margin: '40px auto',
+    maxWidth: '520px',
+    padding: '0',
+  },
+  header: {
+    backgroundColor: '#18181b',
+    borderRadius: '8px 8px 0 0',
+    padding: '24px 32px',
+  },
+  logo: {
+    color: '#ffffff',
+    fontSize: '20px',
+    fontWeight: '700',
+    margin: '0',
+  },
+  content: {
+    padding: '32px',
+  },
+  heading: {
+    color: '#18181b',
+    fontSize: '22px',
+    fontWeight: '700',
+    margin: '0 0 16px',
+  },
+  text: {
+    color: '#3f3f46',
+    fontSize: '15px',
+    lineHeight: '24px',
+    margin: '0 0 12px',
+  },
+  button: {
+    backgroundColor: '#18181b',
+    borderRadius: '6px',
+    color: '#ffffff',
+    display: 'block',
+    fontSize: '15px',
+    fontWeight: '600',
+    margin: '24px 0',
+    padding: '12px 24px',
+    textAlign: 'center' as const,
+    textDecoration: 'none',
+  },
+  hint: {
+    color: '#71717a',
+    fontSize: '13px',
+    lineHeight: '20px',
+    margin: '0',
+  },
+  hr: {
+    borderColor: '#e4e4e7',
+    margin: '0 32px',
+  },
+  footer: {
+    padding: '24px 32px',
+  },
+  footerText: {
+    color: '#a1a1aa',
+    fontSize: '12px',
+    lineHeight: '18px',
+    margin: '0 0 4px',
+  },
+  link: {
+    color: '#71717a',
+    fontSize: '11px',
+    lineHeight: '16px',
+    margin: '8px 0 0',
+    wordBreak: 'break-all' as const,
+  },
+}
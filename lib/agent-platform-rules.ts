@@ -0,0 +1,142 @@
+/**
+ * @file lib/agent-platform-rules.ts
+ * @description Mise en conformité de la sortie de l'agent IA avec les règles des plateformes.
+ *   Le prompt décrit les limites (caractères, médias), mais le modèle peut les
+ *   dépasser : dans ce cas, il est relancé une fois avec la liste des violations.
+ *   Ce qui reste non conforme est ensuite corrigé mécaniquement par la route
+ *   (repairPostContent, modules/posts/utils/post-validation.ts).
+ *
+ *   Partagé par /api/agent/create-posts et /api/agent/edit-post, comme les
+ *   schémas de la suite du thread (threadParts) et des options de publication
+ *   (platformOptions) acceptés par leurs tools.
+ *
+ * @example
+ *   const { toolCall, text } = await callToolWithPlatformRules(llm, request, (input) => {
+ *     const parsed = EditPostToolOutputSchema.safeParse(input)
+ *     return parsed.success ? [{ platform: post.platform, ...parsed.data }] : null
+ *   })
+ */
+
+import { z } from 'zod'
+
+import type { LlmProvider, LlmToolCallRequest, LlmToolCallResult } from '@/lib/llm'
+import { PLATFORM_OPTION_FIELDS } from '@/modules/platforms/config/platform-options'
+import type { Platform } from '@/modules/platforms/types'
+import { platformRulesFeedback, validatePostContent } from '@/modules/posts/utils/post-validation'
+import type { ValidatedPostContent } from '@/modules/posts/utils/post-validation'
+
+// ─── Threads ──────────────────────────────────────────────────────────────────
+
+/**
+ * Suite du thread dans l'entrée des tools de l'agent (X, Threads, Bluesky).
+ * Les URLs invalides et les limites sont corrigées ensuite par repairPostContent.
+ */
+export const AgentThreadPartsSchema = z
+  .array(z.object({
+    text: z.string().max(63206),
+    mediaUrls: z.array(z.string()).default([]),
+  }))
+  .optional()
+
+/** Propriété JSON Schema `threadParts` des tools create_posts_per_platform et edit_post */
+export const THREAD_PARTS_TOOL_PROPERTY = {
+  type: 'array',
+  description: 'Suite du thread, dans l\'ordre, UNIQUEMENT pour les plateformes qui acceptent les threads '
+    + '(voir règles). Le premier segment est text/mediaUrls ; chaque partie respecte les mêmes limites. '
+    + 'Omettre pour un post simple.',
+  items: {
+    type: 'object',
+    properties: {
+      text: { type: 'string', description: 'Texte de la partie' },
+      mediaUrls: {
+        type: 'array',
+        items: { type: 'string' },
+        description: 'URLs des médias de la partie (depuis le pool)',
+      },
+    },
+    required: ['text', 'mediaUrls'],
+  },
+}
+
+// ─── Options de publication ───────────────────────────────────────────────────
+
+/**
+ * Options de publication dans l'entrée des tools de l'agent.
+ * Les clés inconnues et les valeurs invalides sont retirées ensuite par repairPostContent.
+ */
+export const AgentPlatformOptionsSchema = z.record(z.string(), z.string().max(2200)).optional()
+
+/** Propriété JSON Schema `platformOptions` des tools create_posts_per_platform et edit_post */
+export const PLATFORM_OPTIONS_TOOL_PROPERTY = {
+  type: 'object',
+  description: 'Options de publication propres à la plateforme (clés listées dans les règles, '
+    + 'ex: { "title": "…" } pour YouTube). Omettre si la plateforme n\'en a pas.',
+  additionalProperties: { type: 'string' },
+}
+
+/**
+ * Description des options de publication d'une plateforme pour le prompt.
+ *
+ * @param platform - Plateforme du post
+ * @returns Ligne de règles, ou null si la plateforme n'a pas d'options
+ *
+ * @example
+ *   describePlatformOptions('reddit')
+ *   // → 'options (platformOptions) : subreddit (Subreddit, requis), title (Titre du post), flairId (Flair)'
+ */
+export function describePlatformOptions(platform: Platform): string | null {
+  const fields = PLATFORM_OPTION_FIELDS[platform]
+  if (!fields?.length) return null
+
+  const described = fields.map((field) => {
+    const details = [
+      field.label,
+      ...(field.required ? ['requis'] : []),
+      ...(field.choices ? [`valeurs : ${field.choices.map((choice) => choice.value).join(' | ')}`] : []),
+    ]
+    return `${field.key} (${details.join(', ')})`
+  })
+  return `options (platformOptions) : ${described.join(', ')}`
+}
+
+// ─── Relance ──────────────────────────────────────────────────────────────────
+
+/**
+ * Appelle le LLM, puis le relance une fois si les posts produits enfreignent les
+ * règles de leur plateforme (limites de contenu ; le média obligatoire n'est pas
+ * exigé, il dépend du pool fourni par l'utilisateur).
+ *
+ * @param llm      - Fournisseur LLM
+ * @param request  - Requête d'appel du tool
+ * @param extract  - Posts contenus dans l'entrée du tool (null si l'entrée est invalide)
+ * @returns Réponse corrigée si elle est exploitable, sinon la réponse initiale
+ */
+export async function callToolWithPlatformRules(
+  llm: LlmProvider,
+  request: LlmToolCallRequest,
+  extract: (input: unknown) => ValidatedPostContent[] | null,
+): Promise<LlmToolCallResult> {
+  const result = await llm.callTool(request)
+  if (!result.toolCall) return result
+
+  const violations = (extract(result.toolCall.input) ?? [])
+    .flatMap((content) => validatePostContent(content, 'DRAFT'))
+  if (violations.length === 0) return result
+
+  console.warn('[agent-platform-rules] Règles non respectées, nouvel essai :', violations)
+  const retry = await llm.callTool({
+    ...request,
+    messages: [
+      ...request.messages,
+      // Réponse précédente, puis les corrections attendues
+      { role: 'assistant', content: JSON.stringify(result.toolCall.input) },
+      {
+        role: 'user',
+        content: `Ta réponse ne respecte pas les règles des plateformes :\n${platformRulesFeedback(violations)}\n`
+          + 'Rappelle le tool avec la réponse complète corrigée (texte raccourci, médias retirés), sans autre changement.',
+      },
+    ],
+  })
+
+  return retry.toolCall && extract(retry.toolCall.input) ? retry : result
+}
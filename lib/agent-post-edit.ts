@@ -0,0 +1,244 @@
+/**
+ * @file lib/agent-post-edit.ts
+ * @description Application d'une modification de post produite par l'agent IA.
+ *   Partagé par /api/agent/edit-post (post unique) et /api/agent/create-posts
+ *   (tours de suivi d'une conversation, qui peuvent modifier tout post de la session).
+ *
+ *   1. Contenu mis en conformité avec les règles de la plateforme (texte tronqué,
+ *      médias en trop retirés, thread compris) ; date et statut résultants (SCHEDULED si date
+ *      future valide et contenu planifiable, DRAFT sinon)
+ *   2. Compte ciblé : choix explicite > compte actuel > compte unique de la plateforme
+ *   3. Mise à jour + révision AGENT (annulable) + journal d'audit, en transaction
+ *   4. Event Inngest "post/schedule" (et "post/cancel" de l'ancien run) si daté
+ *
+ * @example
+ *   const result = await applyAgentPostEdit({
+ *     workspaceId, user: session.user, post, instruction, now,
+ *     output: { text, mediaUrls, scheduledFor },
+ *   })
+ *   if (!result.ok) throw new AgentStreamError(result.error)
+ *   warnings.push(...result.warnings)
+ */
+
+import { postAuditSnapshot, recordAuditEvents, userActor } from '@/lib/audit'
+import { inngest } from '@/lib/inngest/client'
+import { resolvePostAccount } from '@/lib/post-account'
+import { recordPostRevision } from '@/lib/post-revisions'
+import { prisma } from '@/lib/prisma'
+import type { PlatformOptions } from '@/modules/platforms/config/platform-options'
+import type { Post } from '@/modules/posts/types'
+import { normalizeMediaAltTexts } from '@/modules/posts/utils/accessibility'
+import { platformViolationsError, repairPostContent } from '@/modules/posts/utils/post-validation'
+import { normalizeThreadParts } from '@/modules/posts/utils/thread'
+import type { ThreadPart } from '@/modules/posts/utils/thread'
+
+// ─── Types ────────────────────────────────────────────────────────────────────
+
+/** Champs du post relus avant modification (voir AGENT_EDITABLE_POST_SELECT) */
+export interface AgentEditablePost {
+  id: string
+  platform: string
+  connectedPlatformId: string | null
+  text: string
+  mediaUrls: string[]
+  mediaAltTexts: unknown
+  threadParts: unknown
+  platformOptions: unknown
+  scheduledFor: Date | null
+  status: Post['status']
+  groupId: string | null
+  agentSessionId: string | null
+  updatedAt: Date
+}
+
+/** Modification à appliquer */
+export interface AgentPostEditInput {
+  workspaceId: string
+  /** Auteur de l'instruction */
+  user: { id: string; name?: string | null }
+  post: AgentEditablePost
+  /** Instruction conservée dans la révision AGENT */
+  instruction: string
+  /**
+   * Résultat du tool (texte complet, médias, date ISO ou null).
+   * `threadParts` absent = suite du thread actuelle conservée ([] = thread retiré) ;
+   * `platformOptions` absent = options actuelles conservées.
+   */
+  output: {
+    text: string
+    mediaUrls: string[]
+    threadParts?: ThreadPart[]
+    platformOptions?: PlatformOptions
+    scheduledFor: string | null
+  }
+  /** Compte choisi dans le composer (prioritaire sur le compte actuel) */
+  connectedPlatformId?: string | null
+  /** Conversation agent à rattacher au post */
+  agentSessionId?: string | null
+  /** Textes alternatifs du pool de médias ({ [url]: altText }) — ceux du post restent prioritaires */
+  poolAltTexts?: Record<string, string>
+  /** Référence « maintenant » (cohérente avec la date donnée dans le prompt) */
+  now: Date
+}
+
+/**
+ * Résultat : post mis à jour (+ corrections appliquées au contenu de l'agent),
+ * ou erreur affichable
+ */
+export type AgentPostEditResult =
+  | { ok: true; post: Post; warnings: string[] }
+  | { ok: false; error: string }
+
+// ─── Constantes ───────────────────────────────────────────────────────────────
+
+/** Select Prisma des champs de AgentEditablePost */
+export const AGENT_EDITABLE_POST_SELECT = {
+  id: true,
+  platform: true,
+  connectedPlatformId: true,
+  text: true,
+  mediaUrls: true,
+  mediaAltTexts: true,
+  threadParts: true,
+  platformOptions: true,
+  scheduledFor: true,
+  status: true,
+  groupId: true,
+  agentSessionId: true,
+  updatedAt: true,
+} as const
+
+// ─── Application ──────────────────────────────────────────────────────────────
+
+/**
+ * Applique la modification de l'agent à un post (non publié — à vérifier par l'appelant).
+ *
+ * @param input - Post, résultat du tool et contexte
+ * @returns Post mis à jour, ou erreur si la (re)planification exige un compte indéterminé
+ */
+export async function applyAgentPostEdit(input: AgentPostEditInput): Promise<AgentPostEditResult> {
+  const {
+    workspaceId, user, post, instruction, output, connectedPlatformId, agentSessionId, poolAltTexts, now,
+  } = input
+
+  // ── Calcul de la date et du statut résultant ────────────────────────────
+  const newScheduledDate = output.scheduledFor ? new Date(output.scheduledFor) : null
+  let isValidFutureDate = newScheduledDate !== null
+    && !isNaN(newScheduledDate.getTime())
+    && newScheduledDate > now
+
+  // ── Règles de la plateforme ─────────────────────────────────────────────
+  // Filtrer les URLs vides ou invalides, puis corriger ce qui dépasse les limites.
+  // Un contenu non planifiable (média ou option obligatoire manquant) reste en brouillon.
+  const content = repairPostContent({
+    platform: post.platform,
+    text: output.text,
+    mediaUrls: output.mediaUrls.filter((url) => url.startsWith('http')),
+    threadParts: (output.threadParts ?? normalizeThreadParts(post.threadParts)).map((part) => ({
+      text: part.text,
+      mediaUrls: part.mediaUrls.filter((url) => url.startsWith('http')),
+    })),
+    platformOptions: output.platformOptions ?? post.platformOptions,
+  }, isValidFutureDate ? 'SCHEDULED' : 'DRAFT')
+  const warnings = [...content.warnings]
+  if (content.violations.length > 0 && isValidFutureDate) {
+    warnings.push(`${platformViolationsError(content.violations)} — post laissé en brouillon`)
+    isValidFutureDate = false
+  }
+
+  // Statut précédent du post (pour détecter une replanification)
+  const previousStatus = post.status
+  const newStatus = isValidFutureDate ? 'SCHEDULED' : 'DRAFT'
+
+  // ── Compte ciblé ────────────────────────────────────────────────────────
+  // Choix du composer, sinon compte actuel du post, sinon compte unique de la plateforme.
+  // Une (re)planification exige un compte déterminé.
+  const target = await resolvePostAccount(
+    workspaceId,
+    post.platform,
+    connectedPlatformId ?? post.connectedPlatformId,
+  )
+  if (!target.ok && (isValidFutureDate || connectedPlatformId)) {
+    return { ok: false, error: target.error }
+  }
+
+  // ── Mise à jour en DB + révision (annulable) + journal d'audit ───────────
+  const updatedPost: Post = await prisma.$transaction(async (tx: typeof prisma) => {
+    const updated = await tx.post.update({
+      where: { id: post.id },
+      data: {
+        text: content.text,
+        connectedPlatformId: target.ok ? target.connectedPlatformId : null,
+        mediaUrls: content.mediaUrls,
+        // Textes alternatifs conservés pour les médias restants (+ ceux des médias ajoutés du pool)
+        mediaAltTexts: normalizeMediaAltTexts(
+          { ...poolAltTexts, ...normalizeMediaAltTexts(post.mediaAltTexts) },
+          content.mediaUrls,
+        ),
+        threadParts: normalizeThreadParts(content.threadParts),
+        platformOptions: content.platformOptions,
+        scheduledFor: isValidFutureDate ? newScheduledDate : null,
+        status: newStatus,
+        // Réinitialiser les champs de publication si on replanifie
+        latePostId: null,
+        failureReason: null,
+        publishedAt: null,
+        ...(agentSessionId ? { agentSessionId } : {}),
+      },
+    })
+    // Révision AGENT : la version précédente reste restaurable depuis le détail du post
+    await recordPostRevision(tx, {
+      postId: post.id,
+      authorId: user.id,
+      source: 'AGENT',
+      instruction,
+      before: post,
+      after: updated,
+    })
+    await recordAuditEvents(tx, [{
+      workspaceId,
+      actor: userActor(user),
+      entityType: 'POST',
+      entityId: post.id,
+      action: 'UPDATED',
+      before: postAuditSnapshot(post),
+      after: postAuditSnapshot(updated),
+    }])
+    return updated
+  })
+
+  // ── Event Inngest : déclencher la publication si nouvelle date assignée ──
+  // Opération non-bloquante : un échec Inngest (ex: dev server non démarré)
+  // ne doit PAS faire échouer la sauvegarde du post déjà persistée en DB.
+  // Cas couverts :
+  // - DRAFT → SCHEDULED (nouvelle date assignée via l'agent)
+  // - SCHEDULED → SCHEDULED (replanification : annule l'ancien run puis crée le nouveau)
+  if (isValidFutureDate && newScheduledDate) {
+    if (!process.env.INNGEST_EVENT_KEY) {
+      // En local sans clé Inngest, on skip l'envoi — pas de scheduling à déclencher.
+      console.warn('[agent-post-edit] INNGEST_EVENT_KEY non défini — envoi Inngest ignoré (mode local).')
+    } else {
+      try {
+        // Annuler l'éventuel run Inngest précédent avant d'en créer un nouveau
+        // pour éviter deux runs concurrents sur le même post lors d'une replanification.
+        if (previousStatus === 'SCHEDULED') {
+          await inngest.send({ name: 'post/cancel', data: { postId: post.id } })
+        }
+
+        await inngest.send({
+          name: 'post/schedule',
+          data: {
+            postId: post.id,
+            scheduledFor: newScheduledDate.toISOString(),
+          },
+        })
+      } catch (inngestError) {
+        // Log sans faire échouer la requête — le post est déjà sauvé en DB.
+        // L'utilisateur pourra replanifier manuellement si nécessaire.
+        console.error('[agent-post-edit] Inngest send échoué (non-bloquant) :', inngestError)
+      }
+    }
+  }
+
+  return { ok: true, post: updatedPost, warnings }
+}
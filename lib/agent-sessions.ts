@@ -0,0 +1,162 @@
+/**
+ * @file lib/agent-sessions.ts
+ * @description Conversations multi-tours avec l'agent IA côté serveur
+ *   (tables agent_sessions / agent_messages).
+ *
+ *   Un tour = l'instruction de l'utilisateur + la réponse de l'agent (résumé,
+ *   appel de tool, posts créés ou modifiés). Les posts touchés par un tour sont
+ *   rattachés à la conversation (Post.agentSessionId) pour pouvoir la rouvrir
+ *   depuis le post.
+ *
+ *   Une conversation appartient au workspace : tout éditeur peut la poursuivre,
+ *   comme il peut modifier les posts qu'elle a produits.
+ *
+ * @example
+ *   const session = sessionId ? await loadAgentSession(workspace.id, sessionId) : null
+ *   // … génération + écritures
+ *   const id = session?.id ?? await createAgentSession(workspace.id, userId, instruction)
+ *   await recordAgentTurn(prisma, { sessionId: id, instruction, toolName, toolInput, postIds, summary })
+ */
+
+import { AGENT_EDITABLE_POST_SELECT } from '@/lib/agent-post-edit'
+import type { AgentEditablePost } from '@/lib/agent-post-edit'
+import { prisma } from '@/lib/prisma'
+import { auditExcerpt } from '@/modules/audit/utils/audit-diff'
+import type { StoredAgentMessage } from '@/modules/posts/utils/agent-session'
+
+/** Client Prisma (global ou transactionnel) */
+type DbClient = typeof prisma
+
+// ─── Types ────────────────────────────────────────────────────────────────────
+
+/** Conversation relue avant un tour de suivi */
+export interface LoadedAgentSession {
+  id: string
+  /** Historique, du plus ancien au plus récent */
+  messages: StoredAgentMessage[]
+  /** Posts de la conversation (état actuel), modifiables par l'agent sauf PUBLISHED */
+  posts: AgentEditablePost[]
+}
+
+/** Tour de conversation à enregistrer */
+export interface AgentTurnInput {
+  sessionId: string
+  /** Instruction de l'utilisateur */
+  instruction: string
+  /** Tool appelé par l'agent (ex: "create_posts_per_platform") */
+  toolName: string
+  /** Entrée du tool (JSON) */
+  toolInput: unknown
+  /** Posts créés ou modifiés */
+  postIds: string[]
+  /** Résumé de la réponse (summarizeAgentTurn) */
+  summary: string
+}
+
+// ─── Lecture ──────────────────────────────────────────────────────────────────
+
+/**
+ * Charge une conversation du workspace avec son historique et ses posts.
+ *
+ * @param workspaceId - Workspace actif (ownership check)
+ * @param sessionId   - ID de la conversation
+ * @returns Conversation, ou null si introuvable dans ce workspace
+ */
+export async function loadAgentSession(
+  workspaceId: string,
+  sessionId: string,
+): Promise<LoadedAgentSession | null> {
+  const session: {
+    id: string
+    messages: StoredAgentMessage[]
+    posts: AgentEditablePost[]
+  } | null = await prisma.agentSession.findFirst({
+    where: { id: sessionId, workspaceId },
+    select: {
+      id: true,
+      messages: {
+        orderBy: { createdAt: 'asc' },
+        select: { role: true, content: true, toolInput: true },
+      },
+      posts: {
+        orderBy: { createdAt: 'asc' },
+        select: AGENT_EDITABLE_POST_SELECT,
+      },
+    },
+  })
+  return session
+}
+
+// ─── Écriture ─────────────────────────────────────────────────────────────────
+
+/**
+ * Crée une conversation, intitulée d'après la première instruction.
+ *
+ * @param workspaceId - Workspace actif
+ * @param userId      - Auteur
+ * @param instruction - Première instruction
+ * @returns ID de la conversation
+ */
+export async function createAgentSession(
+  workspaceId: string,
+  userId: string,
+  instruction: string,
+): Promise<string> {
+  const session: { id: string } = await prisma.agentSession.create({
+    data: { workspaceId, userId, title: auditExcerpt(instruction) },
+    select: { id: true },
+  })
+  return session.id
+}
+
+/**
+ * Enregistre un tour (instruction + réponse de l'agent) et remonte la conversation
+ * en tête des plus récentes.
+ *
+ * @param db    - Client Prisma
+ * @param input - Tour de conversation
+ */
+export async function recordAgentTurn(db: DbClient, input: AgentTurnInput): Promise<void> {
+  const askedAt = new Date()
+  // Réponse datée juste après l'instruction : ordre garanti à la relecture
+  const answeredAt = new Date(askedAt.getTime() + 1)
+
+  await db.agentMessage.createMany({
+    data: [
+      { sessionId: input.sessionId, role: 'USER', content: input.instruction, createdAt: askedAt },
+      {
+        sessionId: input.sessionId,
+        role: 'ASSISTANT',
+        content: input.summary,
+        toolName: input.toolName,
+        toolInput: input.toolInput,
+        postIds: input.postIds,
+        createdAt: answeredAt,
+      },
+    ],
+  })
+  await db.agentSession.update({
+    where: { id: input.sessionId },
+    data: { updatedAt: answeredAt },
+  })
+}
+
+// ─── Prompt ───────────────────────────────────────────────────────────────────
+
+/**
+ * Section du prompt système décrivant les posts de la conversation (état actuel).
+ *
+ * @param posts - Posts de la conversation
+ * @returns Liste markdown (id, plateforme, statut, date, texte) ou "" sans post
+ */
+export function formatSessionPostsSection(posts: AgentEditablePost[]): string {
+  if (posts.length === 0) return ''
+  const lines = posts.map((post) => [
+    `- id: ${post.id} | ${post.platform} | ${post.status}`,
+    post.scheduledFor ? ` | planifié ${post.scheduledFor.toISOString()}` : '',
+    post.status === 'PUBLISHED' ? ' (publié : non modifiable)' : '',
+    `\n  Texte : "${post.text}"`,
+    post.mediaUrls.length > 0 ? `\n  Médias : ${post.mediaUrls.join(', ')}` : '',
+  ].join(''))
+  return lines.join('\n')
+}
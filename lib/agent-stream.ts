@@ -0,0 +1,140 @@
+/**
+ * @file lib/agent-stream.ts
+ * @description Streaming des routes agent côté serveur (server-sent events).
+ *
+ *   `agentStreamResponse` : Response text/event-stream qui émet les aperçus
+ *   (`draft`), puis le résultat (`done`) ou l'erreur (`error`). L'entrée partielle
+ *   du tool provient du fournisseur LLM (lib/llm, option `onInput`).
+ *
+ *   Annulation : la déconnexion du client (AbortController côté navigateur)
+ *   interrompt l'appel au LLM. Les écritures en DB ne commencent qu'après la fin
+ *   de la génération : une génération annulée ne crée ni ne modifie aucun post.
+ *
+ *   Format des évènements : modules/posts/utils/agent-stream.ts.
+ *
+ * @example
+ *   const options = { logPrefix: '[edit-post]', fallbackError: 'Erreur lors de la modification' }
+ *   return agentStreamResponse(request.signal, options, async ({ signal, emitDrafts }) => {
+ *     const { toolCall } = await getLlmProvider().callTool({
+ *       ...toolRequest,
+ *       signal,
+ *       onInput: (input) => emitDrafts(extractDraftPreviews(input)),
+ *     })
+ *     // … validation + écritures en DB
+ *     return { post: updatedPost }
+ *   })
+ */
+
+import { formatSseEvent } from '@/modules/posts/utils/agent-stream'
+import type { AgentDraftPreview } from '@/modules/posts/utils/agent-stream'
+
+// ─── Constantes ───────────────────────────────────────────────────────────────
+
+/**
+ * Intervalle minimal entre deux aperçus émis (ms).
+ * Le SDK notifie chaque delta de quelques caractères : sans limite, le texte
+ * complet des posts serait renvoyé des centaines de fois.
+ */
+const DRAFT_EMIT_INTERVAL_MS = 150
+
+// ─── Erreurs ──────────────────────────────────────────────────────────────────
+
+/**
+ * Erreur dont le message est affiché tel quel à l'utilisateur (évènement `error`).
+ * Les autres erreurs sont journalisées et remplacées par un message générique.
+ */
+export class AgentStreamError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'AgentStreamError'
+  }
+}
+
+// ─── Réponse SSE ──────────────────────────────────────────────────────────────
+
+/** Contexte fourni à la génération */
+interface AgentStreamContext {
+  /** Annulé à la déconnexion du client */
+  signal: AbortSignal
+  /** Émet les aperçus partiels (limités à un envoi toutes les DRAFT_EMIT_INTERVAL_MS) */
+  emitDrafts: (drafts: AgentDraftPreview[]) => void
+}
+
+/** Options de la réponse SSE */
+interface AgentStreamOptions {
+  /** Préfixe des logs serveur, ex: "[create-posts]" */
+  logPrefix: string
+  /** Message affiché pour une erreur inattendue */
+  fallbackError: string
+}
+
+/**
+ * Crée la réponse text/event-stream d'une route agent.
+ *
+ * @param requestSignal - request.signal de la route (déconnexion du client)
+ * @param options       - Préfixe de log + message d'erreur générique
+ * @param run           - Génération ; sa valeur de retour est émise dans `done`
+ * @returns Réponse streamée (statut 200 : les erreurs passent par l'évènement `error`)
+ */
+export function agentStreamResponse<T>(
+  requestSignal: AbortSignal,
+  { logPrefix, fallbackError }: AgentStreamOptions,
+  run: (context: AgentStreamContext) => Promise<T>,
+): Response {
+  const encoder = new TextEncoder()
+  // Annulé par la déconnexion du client ou l'annulation du flux
+  const abortController = new AbortController()
+  const abort = (): void => abortController.abort()
+  requestSignal.addEventListener('abort', abort)
+
+  const stream = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      const { signal } = abortController
+      const send = (event: string, data: unknown): void => {
+        if (!signal.aborted) controller.enqueue(encoder.encode(formatSseEvent(event, data)))
+      }
+
+      let lastEmitAt = 0
+      let lastCount = 0
+      const emitDrafts = (drafts: AgentDraftPreview[]): void => {
+        const now = Date.now()
+        // Toujours émettre l'apparition d'un nouveau post (nouvelle plateforme)
+        if (drafts.length === lastCount && now - lastEmitAt < DRAFT_EMIT_INTERVAL_MS) return
+        lastEmitAt = now
+        lastCount = drafts.length
+        send('draft', { drafts })
+      }
+
+      try {
+        send('done', await run({ signal, emitDrafts }))
+      } catch (error) {
+        if (signal.aborted) {
+          console.info(`${logPrefix} Génération annulée par l'utilisateur`)
+        } else if (error instanceof AgentStreamError) {
+          send('error', { error: error.message })
+        } else {
+          console.error(`${logPrefix} Erreur :`, error)
+          send('error', { error: fallbackError })
+        }
+      } finally {
+        requestSignal.removeEventListener('abort', abort)
+        try {
+          controller.close()
+        } catch {
+          // Flux déjà annulé par le client
+        }
+      }
+    },
+    cancel: abort,
+  })
+
+  return new Response(stream, {
+    headers: {
+      'Content-Type': 'text/event-stream; charset=utf-8',
+      'Cache-Control': 'no-cache, no-transform',
+      Connection: 'keep-alive',
+      // Désactive le buffering des proxys (nginx) : les aperçus arrivent au fil de l'eau
+      'X-Accel-Buffering': 'no',
+    },
+  })
+}
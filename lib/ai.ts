@@ -10,6 +10,9 @@
  *     → reçoit un fichier audio (webm/mp4/wav)
  *     → retourne la transcription en français
  *
+ *   Les routes IA n'appellent pas ces clients directement : elles passent par
+ *   le fournisseur choisi via LLM_PROVIDER (lib/llm), qui utilise les modèles ci-dessous.
+ *
  *   Les deux clients sont des singletons (instanciation unique au démarrage).
  *   Ne jamais les importer côté client — server-only.
  *
@@ -58,9 +61,15 @@ export const FILTER_MODEL = 'claude-haiku-4-5-20251001' as const
 
 /**
  * Client OpenAI singleton.
- * Utilisé uniquement pour l'API Whisper (transcription audio).
- * Le modèle de génération de texte reste Claude (Anthropic).
+ * Utilisé pour l'API Whisper (transcription audio) et par le fournisseur
+ * LLM "openai" (LLM_PROVIDER=openai) — Claude reste le fournisseur par défaut.
  */
 export const openaiClient = new OpenAI({
   apiKey: process.env.OPENAI_API_KEY ?? '',
 })
+
+/** Modèle OpenAI équivalent à AGENT_MODEL (fournisseur "openai") */
+export const OPENAI_AGENT_MODEL = 'gpt-4.1' as const
+
+/** Modèle OpenAI équivalent à FILTER_MODEL (fournisseur "openai") */
+export const OPENAI_FILTER_MODEL = 'gpt-4.1-mini' as const
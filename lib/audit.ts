@@ -0,0 +1,191 @@
+/**
+ * @file lib/audit.ts
+ * @description Journal d'audit côté serveur (table audit_events, ajout seul).
+ *   Chaque Server Action, Route Handler ou fonction Inngest qui modifie un post,
+ *   une campagne, un compte connecté, un média ou une signature enregistre un
+ *   évènement : auteur, entité, action et diff avant / après.
+ *
+ *   - auditEventCreate  : évènement à placer dans un prisma.$transaction([...])
+ *   - recordAuditEvents : enregistre des évènements, de préférence dans la même
+ *                         transaction que la mutation (trace et mutation atomiques)
+ *   - userActor / systemActor : auteur d'un évènement
+ *   - postAuditSnapshot : champs d'un post suivis par l'audit
+ *
+ *   Le calcul du diff reste dans modules/audit/utils/audit-diff.ts (pur).
+ *
+ * @example
+ *   await prisma.$transaction(async (tx: typeof prisma) => {
+ *     const updated = await tx.post.update({ where: { id }, data })
+ *     await recordAuditEvents(tx, [{
+ *       workspaceId,
+ *       actor: userActor(session.user),
+ *       entityType: 'POST',
+ *       entityId: id,
+ *       action: 'UPDATED',
+ *       before: postAuditSnapshot(existing),
+ *       after: postAuditSnapshot(updated),
+ *     }])
+ *   })
+ */
+
+import { prisma } from '@/lib/prisma'
+import type { AuditAction, AuditChanges, AuditEntityType } from '@/modules/audit/types'
+import { auditDiff, auditExcerpt } from '@/modules/audit/utils/audit-diff'
+import type { AuditSnapshot } from '@/modules/audit/utils/audit-diff'
+
+/** Client Prisma (global ou transactionnel) */
+type DbClient = typeof prisma
+
+// ─── Types ────────────────────────────────────────────────────────────────────
+
+/** Auteur d'un évènement : membre connecté ou job système (Inngest) */
+export type AuditActor =
+  | { type: 'USER'; id: string; name?: string | null }
+  | { type: 'SYSTEM'; job: string }
+
+/** Évènement à enregistrer */
+export interface AuditEventInput {
+  workspaceId: string
+  actor: AuditActor
+  entityType: AuditEntityType
+  entityId: string
+  /** Libellé lisible de l'entité (déduit du snapshot d'un post si absent) */
+  entityLabel?: string | null
+  action: AuditAction
+  /** État avant la mutation (null / absent = création) */
+  before?: AuditSnapshot | null
+  /** État après la mutation (null / absent = suppression) */
+  after?: AuditSnapshot | null
+}
+
+// ─── Auteurs ──────────────────────────────────────────────────────────────────
+
+/**
+ * Auteur « membre connecté ».
+ *
+ * @param user - Utilisateur de la session better-auth
+ * @returns AuditActor de type USER
+ */
+export function userActor(user: { id: string; name?: string | null }): AuditActor {
+  return { type: 'USER', id: user.id, name: user.name }
+}
+
+/**
+ * Auteur « job système ».
+ *
+ * @param job - Identifiant de la fonction (ex: "publish-scheduled-post")
+ * @returns AuditActor de type SYSTEM
+ */
+export function systemActor(job: string): AuditActor {
+  return { type: 'SYSTEM', job }
+}
+
+// ─── Snapshots ────────────────────────────────────────────────────────────────
+
+/** Champs d'un post relus pour l'audit (select Prisma) */
+export const POST_AUDIT_SELECT = {
+  text: true,
+  platform: true,
+  status: true,
+  scheduledFor: true,
+  connectedPlatformId: true,
+  mediaUrls: true,
+  groupId: true,
+} as const
+
+/** Post relu avec POST_AUDIT_SELECT (champs optionnels : select partiel accepté) */
+export interface PostAuditFields {
+  text?: string
+  platform?: string
+  status?: string
+  scheduledFor?: Date | null
+  connectedPlatformId?: string | null
+  mediaUrls?: string[]
+  groupId?: string | null
+}
+
+/**
+ * Champs d'un post suivis par l'audit. Un champ absent de `post` (non relu)
+ * est ignoré par le diff.
+ *
+ * @param post - Enregistrement Prisma (complet ou partiel)
+ * @returns Snapshot du post
+ */
+export function postAuditSnapshot(post: PostAuditFields): AuditSnapshot {
+  return {
+    text: post.text,
+    platform: post.platform,
+    status: post.status,
+    scheduledFor: post.scheduledFor,
+    connectedPlatformId: post.connectedPlatformId,
+    mediaUrls: post.mediaUrls,
+    groupId: post.groupId,
+  }
+}
+
+// ─── Écriture ─────────────────────────────────────────────────────────────────
+
+/**
+ * Ligne audit_events d'un évènement (diff calculé depuis before / after).
+ *
+ * @param event - Évènement
+ * @returns Données Prisma
+ */
+function toAuditRow(event: AuditEventInput): {
+  workspaceId: string
+  actorType: AuditActor['type']
+  actorId: string | null
+  actorLabel: string | null
+  entityType: AuditEntityType
+  entityId: string
+  entityLabel: string | null
+  action: AuditAction
+  changes: AuditChanges | undefined
+} {
+  const changes = auditDiff(event.before ?? null, event.after ?? null)
+
+  // Libellé par défaut d'un post : extrait de son texte
+  const text = (event.after ?? event.before)?.text
+  const entityLabel = event.entityLabel
+    ?? (event.entityType === 'POST' && typeof text === 'string' ? auditExcerpt(text) : null)
+
+  return {
+    workspaceId: event.workspaceId,
+    actorType: event.actor.type,
+    actorId: event.actor.type === 'USER' ? event.actor.id : null,
+    actorLabel: event.actor.type === 'USER' ? (event.actor.name ?? null) : event.actor.job,
+    entityType: event.entityType,
+    entityId: event.entityId,
+    entityLabel,
+    action: event.action,
+    changes: changes ?? undefined,
+  }
+}
+
+/**
+ * Requête d'insertion d'un évènement, à placer dans un prisma.$transaction([...])
+ * avec la mutation. L'évènement est enregistré même si le diff est vide.
+ *
+ * @param db    - Client Prisma
+ * @param event - Évènement
+ * @returns PrismaPromise (non exécutée hors transaction tant qu'elle n'est pas attendue)
+ */
+export function auditEventCreate(db: DbClient, event: AuditEventInput): Promise<unknown> {
+  return db.auditEvent.create({ data: toAuditRow(event) })
+}
+
+/**
+ * Enregistre des évènements d'audit. Une mise à jour sans changement effectif
+ * (diff vide) n'est pas enregistrée.
+ *
+ * @param db     - Client Prisma (transactionnel de préférence)
+ * @param events - Évènements (aucune requête si vide)
+ */
+export async function recordAuditEvents(db: DbClient, events: AuditEventInput[]): Promise<void> {
+  const rows = events
+    .map(toAuditRow)
+    .filter((row) => row.changes || (row.action !== 'UPDATED' && row.action !== 'STATUS_CHANGED'))
+
+  if (rows.length === 0) return
+  await db.auditEvent.createMany({ data: rows })
+}
@@ -11,6 +11,7 @@
  *
  *   Hooks de base de données :
  *   - Après inscription → création automatique des NotificationPrefs par défaut
+ *     et du workspace personnel (rôle OWNER)
  *
  *   Note : le workspace Late (lateWorkspaceId) n'est plus créé à l'inscription.
  *   Il est créé à la demande (lazy) lors du premier connectPlatform().
@@ -25,6 +26,7 @@ import { prismaAdapter } from 'better-auth/adapters/prisma'
 
 import { prisma } from '@/lib/prisma'
 import { sendPasswordResetEmail, sendVerificationEmail } from '@/lib/plunk'
+import { createPersonalWorkspace } from '@/lib/workspace'
 
 // ─── Helpers ──────────────────────────────────────────────────────────────────
 
@@ -152,8 +154,10 @@ export const auth = betterAuth({
          * Après la création d'un utilisateur, crée ses préférences de notifications
          * avec les valeurs par défaut (emailOnFailure: true, emailWeeklyRecap: true).
          *
-         * Note : lateWorkspaceId reste null à ce stade — le workspace Late est créé
-         * à la demande (lazy) lors du premier connectPlatform() dans
+         * Crée aussi son workspace personnel (rôle OWNER, lib/workspace.ts).
+         *
+         * Note : Workspace.lateWorkspaceId reste null à ce stade — le workspace Late
+         * est créé à la demande (lazy) lors du premier connectPlatform() dans
          * modules/platforms/actions/connect-platform.action.ts.
          *
          * @param user - L'utilisateur nouvellement créé
@@ -166,6 +170,7 @@ export const auth = betterAuth({
               emailWeeklyRecap: true,
             },
           })
+          await createPersonalWorkspace(user.id, user.name || user.email.split('@')[0])
         },
       },
     },
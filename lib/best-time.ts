@@ -0,0 +1,81 @@
+/**
+ * @file lib/best-time.ts
+ * @description Meilleur moment de publication côté serveur : statistiques best-time
+ *   du workspace Late du workspace actif + posts déjà planifiés sur la plateforme.
+ *   Utilisé par la Server Action suggestBestTime (compositeur) et par l'agent
+ *   create-posts (option bestTime du tool).
+ *
+ *   Le choix du créneau reste dans modules/posts/utils/best-time.ts (pur).
+ *
+ * @example
+ *   const suggestion = await findBestTime(workspace, session.user.id, ['instagram'])
+ *   if (suggestion) {
+ *     // suggestion.scheduledFor : Date, suggestion.explanation : texte affiché
+ *   }
+ */
+
+import { late } from '@/lib/late'
+import { prisma } from '@/lib/prisma'
+import { getUserTimezone } from '@/lib/user-timezone'
+import type { WorkspaceContext } from '@/lib/workspace'
+import { describeBestTime, mergeBestTimeSlots, pickBestTime } from '@/modules/posts/utils/best-time'
+
+// ─── Types ────────────────────────────────────────────────────────────────────
+
+/** Créneau proposé pour une plateforme */
+export interface BestTimeSuggestion {
+  scheduledFor: Date
+  /** Explication lisible (fuseau de l'utilisateur) */
+  explanation: string
+}
+
+// ─── findBestTime ─────────────────────────────────────────────────────────────
+
+/**
+ * Meilleur créneau libre des 7 prochains jours pour une ou plusieurs plateformes
+ * (statistiques fusionnées, créneaux pris par l'une d'elles exclus).
+ * Les statistiques viennent de Workspace.lateWorkspaceId (jamais de late.profiles.list(),
+ * qui expose les workspaces des autres utilisateurs).
+ *
+ * @param workspace             - Workspace actif (comptes Late et posts planifiés)
+ * @param userId                - Utilisateur connecté (fuseau de l'explication)
+ * @param platforms             - Plateformes du post (ex: ["instagram"])
+ * @param options.excludePostId - Post replanifié (sa date actuelle ne compte pas comme prise)
+ * @param options.taken         - Dates déjà attribuées hors DB (ex: posts de la même génération agent)
+ * @returns Créneau + explication, ou null sans statistiques / créneau libre
+ * @throws Si l'API Late échoue (l'appelant choisit le message)
+ */
+export async function findBestTime(
+  workspace: WorkspaceContext,
+  userId: string,
+  platforms: string[],
+  options: { excludePostId?: string; taken?: Date[] } = {},
+): Promise<BestTimeSuggestion | null> {
+  if (!workspace.lateWorkspaceId || platforms.length === 0) return null
+  const profileId = workspace.lateWorkspaceId
+
+  const now = new Date()
+  const [rawResults, scheduled, timezone] = await Promise.all([
+    Promise.all(platforms.map((platform) => late.analytics.getBestTime({ profileId, platform }))),
+    prisma.post.findMany({
+      where: {
+        workspaceId: workspace.id,
+        platform: { in: platforms },
+        status: 'SCHEDULED',
+        scheduledFor: { gt: now },
+        ...(options.excludePostId && { id: { not: options.excludePostId } }),
+      },
+      select: { scheduledFor: true },
+    }) as Promise<{ scheduledFor: Date }[]>,
+    getUserTimezone(userId),
+  ])
+
+  const choice = pickBestTime(
+    mergeBestTimeSlots(rawResults),
+    now,
+    [...scheduled.map((post) => post.scheduledFor), ...(options.taken ?? [])],
+  )
+  if (!choice) return null
+
+  return { scheduledFor: choice.scheduledFor, explanation: describeBestTime(choice, timezone) }
+}
@@ -43,3 +43,68 @@ export interface PostScheduleEvent {
     scheduledFor: string
   }
 }
+
+/**
+ * Événement émis après la publication réussie d'un post appartenant à une série
+ * récurrente. Écouté par materializeNextOccurrence (création de l'occurrence suivante).
+ */
+export interface PostSeriesNextEvent {
+  name: 'post/series.next'
+  data: {
+    /** ID du post qui vient d'être publié */
+    postId: string
+    /** ID de la série (PostSeries) — clé de concurrence de la matérialisation */
+    seriesId: string
+  }
+}
+
+/**
+ * Événement de fan-out du récapitulatif hebdomadaire (un par utilisateur abonné).
+ * Émis par la fonction cron weeklyRecapCron, écouté par sendWeeklyRecap.
+ */
+export interface WeeklyRecapUserEvent {
+  name: 'recap/weekly.user'
+  data: {
+    /** ID de l'utilisateur destinataire */
+    userId: string
+    /** Fin de la période couverte (ISO 8601) — identique pour tous les destinataires d'un envoi */
+    periodEnd: string
+  }
+}
+
+/**
+ * Événement émis après l'enregistrement d'un média dans la galerie (saveMedia).
+ * Écouté par processMedia (sondage du fichier puis variantes par plateforme).
+ */
+export interface MediaProcessEvent {
+  name: 'media/process'
+  data: {
+    /** ID du média en DB */
+    mediaId: string
+  }
+}
+
+/**
+ * Événement de fan-out du calcul des empreintes des médias qui n'en ont pas
+ * (importés avant leur calcul côté serveur). Émis par mediaHashBackfillCron,
+ * écouté par hashMedia.
+ */
+export interface MediaHashEvent {
+  name: 'media/hash'
+  data: {
+    /** ID du média en DB */
+    mediaId: string
+  }
+}
+
+/**
+ * Événement de fan-out du nettoyage des fichiers orphelins (un par dossier
+ * `{userId}/` du bucket). Émis par mediaCleanupCron, écouté par cleanupUserMedia.
+ */
+export interface MediaCleanupUserEvent {
+  name: 'media/cleanup.user'
+  data: {
+    /** Dossier du bucket (ID de l'utilisateur, éventuellement supprimé) */
+    userId: string
+  }
+}
@@ -0,0 +1,35 @@
+/**
+ * @file lib/inngest/functions/cleanup-user-media.ts
+ * @description Fonction Inngest : supprime les fichiers orphelins du dossier
+ *   `{userId}/` du bucket `post-media` (ni média, ni variante, ni post, ni révision
+ *   ne les référence, et plus anciens que ORPHAN_MIN_AGE_DAYS).
+ *   Déclenchée par "media/cleanup.user" (fan-out de mediaCleanupCron).
+ *
+ * @example
+ *   // Déclenché automatiquement par mediaCleanupCron — ne pas appeler directement.
+ */
+
+import { inngest } from '@/lib/inngest/client'
+import { cleanupOrphanMedia } from '@/lib/media-cleanup'
+
+/**
+ * Fonction Inngest de nettoyage d'un dossier utilisateur.
+ *
+ * retries: 2 — lecture ou suppression Storage en échec ; un nouveau passage
+ * ne supprime que les fichiers encore orphelins.
+ */
+export const cleanupUserMedia = inngest.createFunction(
+  {
+    id: 'cleanup-user-media',
+    name: 'Nettoyage des fichiers orphelins d\'un utilisateur',
+    retries: 2,
+    // Un dossier à la fois : ménage le Storage et la DB
+    concurrency: { limit: 1 },
+  },
+  { event: 'media/cleanup.user' },
+  async ({ event, step }) => {
+    const { userId } = event.data as { userId: string }
+
+    return step.run('supprimer-orphelins', () => cleanupOrphanMedia(userId))
+  },
+)
@@ -21,7 +21,9 @@
  */
 
 import { PublicationFailedEmail } from '@/emails/PublicationFailed'
+import { recordAuditEvents, systemActor } from '@/lib/audit'
 import { inngest } from '@/lib/inngest/client'
+import { postEventCreate } from '@/lib/post-review'
 import { prisma } from '@/lib/prisma'
 import { getResend } from '@/lib/resend'
 
@@ -67,12 +69,33 @@ export const handlePostFailure = inngest.createFunction(
     // ── Étape 1 : Marquer le post comme FAILED en DB ─────────────────────────
     // Sans `include: { user }` pour éviter qu'une relation brisée empêche l'update
     // (on récupère userId via select, suffisant pour les steps suivants)
+    // Transition système tracée dans l'historique du post (auteur null, raison en commentaire)
     const updatedPost = await step.run('marquer-echec', async () => {
-      return prisma.post.update({
-        where: { id: postId },
-        data: { status: 'FAILED', failureReason },
-        select: { userId: true, text: true, platform: true },
-      })
+      const [post] = await prisma.$transaction([
+        prisma.post.update({
+          where: { id: postId },
+          data: { status: 'FAILED', failureReason },
+          select: { userId: true, workspaceId: true, text: true, platform: true },
+        }),
+        postEventCreate(prisma, {
+          postId,
+          actorId: null,
+          action: 'STATUS_CHANGED',
+          fromStatus: 'SCHEDULED',
+          toStatus: 'FAILED',
+          comment: failureReason,
+        }),
+      ])
+      await recordAuditEvents(prisma, [{
+        workspaceId: post.workspaceId,
+        actor: systemActor('handle-post-failure'),
+        entityType: 'POST',
+        entityId: postId,
+        action: 'STATUS_CHANGED',
+        before: { text: post.text, status: 'SCHEDULED' },
+        after: { text: post.text, status: 'FAILED' },
+      }])
+      return post
     })
 
     // ── Étape 2 : Vérifier les préférences de notification ───────────────────
@@ -0,0 +1,34 @@
+/**
+ * @file lib/inngest/functions/hash-media.ts
+ * @description Fonction Inngest : calcule les empreintes de détection des doublons
+ *   d'un média qui n'en a pas (SHA-256, dHash des images).
+ *   Déclenchée par "media/hash" (fan-out de mediaHashBackfillCron) ; les nouveaux
+ *   médias sont traités par processMedia.
+ *
+ * @example
+ *   // Déclenché automatiquement par mediaHashBackfillCron — ne pas appeler directement.
+ */
+
+import { inngest } from '@/lib/inngest/client'
+import { hashStoredMedia } from '@/lib/media-processing'
+
+/**
+ * Fonction Inngest de calcul des empreintes d'un média.
+ *
+ * retries: 2 — lecture du fichier en échec (réseau, Storage).
+ */
+export const hashMedia = inngest.createFunction(
+  {
+    id: 'hash-media',
+    name: 'Empreintes d\'un média (rattrapage)',
+    retries: 2,
+    // Fichiers lus en entier : quelques médias à la fois
+    concurrency: { limit: 2 },
+  },
+  { event: 'media/hash' },
+  async ({ event, step }) => {
+    const { mediaId } = event.data as { mediaId: string }
+
+    return step.run('empreintes-media', () => hashStoredMedia(mediaId))
+  },
+)
@@ -0,0 +1,191 @@
+/**
+ * @file lib/inngest/functions/materialize-next-occurrence.ts
+ * @description Fonction Inngest : crée l'occurrence suivante d'une série récurrente.
+ *   Déclenchée sur l'événement "post/series.next", émis par publishScheduledPost
+ *   après chaque publication réussie d'un post rattaché à une PostSeries.
+ *
+ *   Workflow :
+ *   1. Charger la série et le post publié (série active uniquement)
+ *   2. Calculer l'occurrence suivante (règle + skipDates, dans le fuseau de la règle)
+ *   3. Créer le post SCHEDULED de l'occurrence (copie texte/médias/plateforme/compte)
+ *      — idempotent : rien n'est créé si l'occurrence existe déjà pour ce compte
+ *   4. Émettre "post/schedule" + "post/watchdog" (même batch que schedulePost)
+ *
+ *   Campagnes récurrentes : chaque post de la campagne matérialise sa propre
+ *   occurrence ; les copies d'une même occurrence partagent une nouvelle campagne.
+ *   La concurrence est limitée à 1 par série pour que ces copies trouvent le
+ *   groupe créé par la première (pas de doublon de campagne).
+ *
+ * @example
+ *   // Déclenché automatiquement par publishScheduledPost — ne pas appeler directement.
+ */
+
+import { POST_AUDIT_SELECT, postAuditSnapshot, recordAuditEvents, systemActor } from '@/lib/audit'
+import type { PostAuditFields } from '@/lib/audit'
+import { inngest } from '@/lib/inngest/client'
+import { prisma } from '@/lib/prisma'
+import { normalizePlatformOptions } from '@/modules/platforms/config/platform-options'
+import { RecurrenceRuleSchema } from '@/modules/posts/schemas/post.schema'
+import { nextOccurrence } from '@/modules/posts/utils/recurrence'
+import { normalizeThreadParts } from '@/modules/posts/utils/thread'
+
+/**
+ * Fonction Inngest de matérialisation de l'occurrence suivante d'une série.
+ *
+ * retries: 2 — la création est idempotente, un replay ne duplique pas le post.
+ */
+export const materializeNextOccurrence = inngest.createFunction(
+  {
+    id: 'materialize-next-occurrence',
+    name: 'Occurrence suivante d\'une série récurrente',
+    retries: 2,
+    // Une seule matérialisation à la fois par série (campagnes : posts publiés simultanément)
+    concurrency: { key: 'event.data.seriesId', limit: 1 },
+  },
+  { event: 'post/series.next' },
+  async ({ event, step }) => {
+    const { postId, seriesId } = event.data as { postId: string; seriesId: string }
+
+    // ── Étape 1 + 2 : Charger la série et calculer l'occurrence suivante ─────
+    // Calcul dans le step : la date est mémorisée par Inngest (replays cohérents).
+    const plan = await step.run('calculer-occurrence', async (): Promise<
+      | { ok: true; nextAt: string }
+      | { ok: false; reason: string }
+    > => {
+      const series: { id: string; rule: unknown; skipDates: string[]; isActive: boolean } | null =
+        await prisma.postSeries.findUnique({
+          where: { id: seriesId },
+          select: { id: true, rule: true, skipDates: true, isActive: true },
+        })
+      if (!series || !series.isActive) return { ok: false, reason: 'Série inactive ou supprimée' }
+
+      const rule = RecurrenceRuleSchema.safeParse(series.rule)
+      if (!rule.success) return { ok: false, reason: 'Règle de récurrence invalide' }
+
+      const post: { scheduledFor: Date | null; publishedAt: Date | null } | null =
+        await prisma.post.findUnique({
+          where: { id: postId },
+          select: { scheduledFor: true, publishedAt: true },
+        })
+      if (!post) return { ok: false, reason: 'Post introuvable' }
+
+      // Référence : l'occurrence publiée, ou maintenant si elle est très en retard
+      // (jamais d'occurrence dans le passé)
+      const reference = post.scheduledFor ?? post.publishedAt ?? new Date()
+      const after = reference > new Date() ? reference : new Date()
+
+      const next = nextOccurrence(rule.data, after, series.skipDates)
+      return next ? { ok: true, nextAt: next.toISOString() } : { ok: false, reason: 'Aucune occurrence à venir' }
+    })
+
+    if (!plan.ok) {
+      return { skipped: true, reason: plan.reason }
+    }
+
+    // ── Étape 3 : Créer le post de l'occurrence (idempotent) ─────────────────
+    const created = await step.run('creer-occurrence', async (): Promise<{ id: string; created: boolean } | null> => {
+      const source: {
+        userId: string
+        workspaceId: string
+        text: string
+        platform: string
+        mediaUrls: string[]
+        threadParts: unknown
+        platformOptions: unknown
+        connectedPlatformId: string | null
+        groupId: string | null
+        group: { instruction: string | null } | null
+      } | null = await prisma.post.findUnique({
+        where: { id: postId },
+        select: {
+          userId: true,
+          workspaceId: true,
+          text: true,
+          platform: true,
+          mediaUrls: true,
+          threadParts: true,
+          platformOptions: true,
+          connectedPlatformId: true,
+          groupId: true,
+          group: { select: { instruction: true } },
+        },
+      })
+      if (!source) return null
+
+      const nextAt = new Date(plan.nextAt)
+
+      // Déjà matérialisée (replay, ou occurrence créée à la main) → ne rien dupliquer
+      const existing: { id: string } | null = await prisma.post.findFirst({
+        where: {
+          seriesId,
+          platform: source.platform,
+          connectedPlatformId: source.connectedPlatformId,
+          scheduledFor: nextAt,
+        },
+        select: { id: true },
+      })
+      if (existing) return { id: existing.id, created: false }
+
+      // Campagne : rejoindre la campagne de l'occurrence si un autre post l'a déjà créée
+      let groupId: string | null = null
+      if (source.groupId) {
+        const sibling: { groupId: string | null } | null = await prisma.post.findFirst({
+          where: { seriesId, scheduledFor: nextAt, groupId: { not: null } },
+          select: { groupId: true },
+        })
+        groupId = sibling?.groupId ?? (
+          await prisma.postGroup.create({
+            data: {
+              userId: source.userId,
+              workspaceId: source.workspaceId,
+              instruction: source.group?.instruction ?? null,
+            },
+            select: { id: true },
+          })
+        ).id
+      }
+
+      const post: { id: string } & PostAuditFields = await prisma.post.create({
+        data: {
+          userId: source.userId,
+          workspaceId: source.workspaceId,
+          text: source.text,
+          platform: source.platform,
+          mediaUrls: source.mediaUrls,
+          threadParts: normalizeThreadParts(source.threadParts),
+          platformOptions: normalizePlatformOptions(source.platform, source.platformOptions),
+          connectedPlatformId: source.connectedPlatformId,
+          groupId,
+          seriesId,
+          scheduledFor: nextAt,
+          status: 'SCHEDULED',
+        },
+        select: { id: true, ...POST_AUDIT_SELECT },
+      })
+      await recordAuditEvents(prisma, [{
+        workspaceId: source.workspaceId,
+        actor: systemActor('materialize-next-occurrence'),
+        entityType: 'POST',
+        entityId: post.id,
+        action: 'CREATED',
+        after: postAuditSnapshot(post),
+      }])
+      return { id: post.id, created: true }
+    })
+
+    if (!created) {
+      return { skipped: true, reason: 'Post source introuvable' }
+    }
+    if (!created.created) {
+      return { skipped: true, reason: 'Occurrence déjà matérialisée', postId: created.id }
+    }
+
+    // ── Étape 4 : Programmer la publication + le watchdog ────────────────────
+    await step.sendEvent('programmer-publication', [
+      { name: 'post/schedule', data: { postId: created.id, scheduledFor: plan.nextAt } },
+      { name: 'post/watchdog', data: { postId: created.id, scheduledFor: plan.nextAt } },
+    ])
+
+    return { materialized: true, postId: created.id, scheduledFor: plan.nextAt }
+  },
+)
@@ -0,0 +1,50 @@
+/**
+ * @file lib/inngest/functions/media-cleanup-cron.ts
+ * @description Fonction Inngest cron : déclenche le nettoyage des fichiers orphelins
+ *   du bucket `post-media`. Chaque dimanche à 4h (Europe/Paris), liste les dossiers
+ *   `{userId}/` du bucket puis émet un événement "media/cleanup.user" par dossier
+ *   (fan-out vers cleanupUserMedia).
+ *
+ *   Les dossiers sont lus dans le Storage (et non la table users) : ceux des
+ *   utilisateurs supprimés sont nettoyés eux aussi.
+ *
+ * @example
+ *   // Déclenché automatiquement par Inngest — ne pas appeler directement.
+ */
+
+import { inngest } from '@/lib/inngest/client'
+import { listStorageUserFolders } from '@/lib/media-cleanup'
+
+/**
+ * Fonction cron du nettoyage des fichiers orphelins.
+ *
+ * retries: 2 — si la lecture du bucket échoue (Storage indisponible).
+ */
+export const mediaCleanupCron = inngest.createFunction(
+  {
+    id: 'media-cleanup-cron',
+    name: 'Nettoyage des fichiers orphelins (cron)',
+    retries: 2,
+  },
+  // Dimanche 4h heure de Paris
+  { cron: 'TZ=Europe/Paris 0 4 * * 0' },
+  async ({ step }) => {
+    // ── Étape 1 : Lister les dossiers utilisateurs du bucket ─────────────────
+    const userIds = await step.run('lister-dossiers', () => listStorageUserFolders())
+
+    if (userIds.length === 0) {
+      return { folders: 0 }
+    }
+
+    // ── Étape 2 : Fan-out — un événement par dossier ─────────────────────────
+    await step.sendEvent(
+      'declencher-nettoyages',
+      userIds.map((userId: string) => ({
+        name: 'media/cleanup.user' as const,
+        data: { userId },
+      })),
+    )
+
+    return { folders: userIds.length }
+  },
+)
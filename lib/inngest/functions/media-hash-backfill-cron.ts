@@ -0,0 +1,61 @@
+/**
+ * @file lib/inngest/functions/media-hash-backfill-cron.ts
+ * @description Fonction Inngest cron : rattrapage des empreintes de détection des
+ *   doublons. Chaque nuit à 3h (Europe/Paris), liste les médias sans SHA-256
+ *   (importés avant le calcul côté serveur, ou dont le traitement n'a pas abouti)
+ *   puis émet un événement "media/hash" par média (fan-out vers hashMedia).
+ *
+ *   Au plus BACKFILL_BATCH_SIZE médias par nuit, les plus anciens d'abord. Un média
+ *   dont le fichier a disparu passe en FAILED et n'est plus proposé.
+ *
+ * @example
+ *   // Déclenché automatiquement par Inngest — ne pas appeler directement.
+ */
+
+import { inngest } from '@/lib/inngest/client'
+import { prisma } from '@/lib/prisma'
+
+/** Médias traités par exécution (lecture complète de chaque fichier) */
+const BACKFILL_BATCH_SIZE = 500
+
+/**
+ * Fonction cron du rattrapage des empreintes.
+ *
+ * retries: 2 — si la lecture des médias échoue (DB indisponible).
+ */
+export const mediaHashBackfillCron = inngest.createFunction(
+  {
+    id: 'media-hash-backfill-cron',
+    name: 'Rattrapage des empreintes des médias (cron)',
+    retries: 2,
+  },
+  // Tous les jours à 3h heure de Paris
+  { cron: 'TZ=Europe/Paris 0 3 * * *' },
+  async ({ step }) => {
+    // ── Étape 1 : Lister les médias sans empreinte ───────────────────────────
+    const mediaIds = await step.run('lister-medias', async (): Promise<string[]> => {
+      const media = await prisma.media.findMany({
+        where: { contentHash: null, processingStatus: { not: 'FAILED' } },
+        orderBy: { createdAt: 'asc' },
+        take: BACKFILL_BATCH_SIZE,
+        select: { id: true },
+      })
+      return media.map((m: { id: string }) => m.id)
+    })
+
+    if (mediaIds.length === 0) {
+      return { media: 0 }
+    }
+
+    // ── Étape 2 : Fan-out — un événement par média ───────────────────────────
+    await step.sendEvent(
+      'declencher-empreintes',
+      mediaIds.map((mediaId: string) => ({
+        name: 'media/hash' as const,
+        data: { mediaId },
+      })),
+    )
+
+    return { media: mediaIds.length }
+  },
+)
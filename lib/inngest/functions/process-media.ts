@@ -0,0 +1,53 @@
+/**
+ * @file lib/inngest/functions/process-media.ts
+ * @description Fonction Inngest : traitement d'un média après l'upload.
+ *   Déclenchée sur l'événement "media/process", émis par saveMedia.
+ *
+ *   Workflow :
+ *   1. Sonder le fichier (type MIME réel, dimensions, durée, codec) → Media
+ *   2. Calculer les empreintes de détection des doublons (SHA-256, dHash) → Media
+ *   3. Générer une variante par plateforme connectée dont les exigences ne sont
+ *      pas respectées (9:16 pour TikTok / Reels, taille plafonnée pour X…)
+ *
+ *   Chaque variante est un step distinct : une plateforme en échec est retentée
+ *   sans refaire les transcodages déjà réussis.
+ *
+ * @example
+ *   // Déclenché automatiquement par saveMedia — ne pas appeler directement.
+ */
+
+import { inngest } from '@/lib/inngest/client'
+import { createMediaVariant, hashStoredMedia, probeStoredMedia } from '@/lib/media-processing'
+
+/**
+ * Fonction Inngest de traitement d'un média.
+ *
+ * retries: 2 — lecture du fichier ou transcodage en échec (réseau, Storage).
+ */
+export const processMedia = inngest.createFunction(
+  {
+    id: 'process-media',
+    name: 'Traitement d\'un média (sondage + variantes)',
+    retries: 2,
+    // Transcodage gourmand en CPU : un média à la fois
+    concurrency: { limit: 1 },
+  },
+  { event: 'media/process' },
+  async ({ event, step }) => {
+    const { mediaId } = event.data as { mediaId: string }
+
+    // ── Étape 1 : Sonder le fichier ───────────────────────────────────────────
+    const plans = await step.run('sonder-media', () => probeStoredMedia(mediaId))
+
+    // ── Étape 2 : Empreintes (même pour un format non reconnu) ────────────────
+    await step.run('empreintes-media', () => hashStoredMedia(mediaId))
+
+    // ── Étape 3 : Une variante par plateforme ─────────────────────────────────
+    const variants: Record<string, string | null> = {}
+    for (const plan of plans) {
+      variants[plan.platform] = await step.run(`variante-${plan.platform}`, () => createMediaVariant(mediaId, plan))
+    }
+
+    return { mediaId, variants }
+  },
+)
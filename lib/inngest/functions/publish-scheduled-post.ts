@@ -11,10 +11,16 @@
  *   Workflow :
  *   1. Attendre la date scheduledFor via step.sleepUntil()
  *   2. Récupérer le post en DB et vérifier son statut (SCHEDULED)
- *   3. Récupérer le profil getlate.dev de la plateforme du post
- *   4. Publier via getlate.dev avec publishNow: true (Inngest a déjà attendu)
+ *   3. Récupérer le compte connecté ciblé (Post.connectedPlatformId) — échec explicite sinon
+ *      puis résoudre les médias : variante de la plateforme et type MIME réel
+ *      (vidéo trop longue pour la plateforme → échec explicite ; variante exigée
+ *      mais absente → générée, échec explicite si ffmpeg manque sur le serveur)
+ *   4. Publier via getlate.dev avec publishNow: true (Inngest a déjà attendu),
+ *      textes alternatifs des images inclus, thread éventuel publié dans l'ordre,
+ *      options de la plateforme (titre YouTube, tableau Pinterest…) transmises
  *   5. Vérifier le statut par plateforme dans la réponse Late
  *   6. Mettre à jour le Post avec PUBLISHED + platformPostUrl (ou FAILED)
+ *   7. Série récurrente : émettre "post/series.next" (occurrence suivante)
  *
  *   Pourquoi `publishNow: true` au lieu de `scheduledAt` ?
  *   - Inngest gère le timing via `step.sleepUntil()` (persistance, retries, backoff)
@@ -25,19 +31,97 @@
  *   En cas d'échec après les 3 retries Inngest :
  *   → L'event "inngest/function.failed" est émis automatiquement
  *
+ *   Échecs définitifs (compte introuvable ou déconnecté, média non publiable,
+ *   refus de Late) : le post passe en FAILED dans un step.run (jamais rejoué),
+ *   puis NonRetriableError — aucun retry, "inngest/function.failed" émis aussitôt.
+ *
  * @example
  *   // Déclenché automatiquement par inngest.send({ name: 'post/schedule', data: { ... } })
  *   // Ne pas appeler directement.
  */
 
+import { NonRetriableError } from 'inngest'
+
+import { auditEventCreate, systemActor } from '@/lib/audit'
 import { inngest } from '@/lib/inngest/client'
 import { late } from '@/lib/late'
+import type { LateMediaItem, LatePlatformSpecificData } from '@/lib/late'
+import { resolveMediaAltTexts } from '@/lib/media-alt-texts'
+import { createMediaVariant } from '@/lib/media-processing'
+import { resolvePublishMedia } from '@/lib/media-variants'
+import type { PublishMedia } from '@/lib/media-variants'
+import { postEventCreate } from '@/lib/post-review'
 import { prisma } from '@/lib/prisma'
+import { mimeTypeFromUrl } from '@/modules/media/utils/media-probe'
+import { videoDurationError } from '@/modules/platforms/config/media-specs'
+import { normalizePlatformOptions } from '@/modules/platforms/config/platform-options'
+import { resolveTargetAccount } from '@/modules/posts/utils/account-target'
+import { normalizeThreadParts } from '@/modules/posts/utils/thread'
 
 /**
  * Fonction Inngest de publication d'un post planifié.
  * Retry automatique : 3 tentatives avec backoff exponentiel (géré par Inngest).
  */
+/** Auteur des évènements d'audit émis par cette fonction */
+const AUDIT_ACTOR = systemActor('publish-scheduled-post')
+
+/**
+ * Requêtes de passage en FAILED d'un post planifié (statut + audit), à placer
+ * dans un prisma.$transaction([...]) exécuté par un step.run.
+ *
+ * @param post          - Post en cours de publication
+ * @param failureReason - Raison affichée à l'utilisateur
+ * @returns Requêtes Prisma (mise à jour du post + évènement d'audit)
+ */
+function markPostFailed(
+  post: { id: string; text: string; workspaceId: string },
+  failureReason: string,
+): Promise<unknown>[] {
+  return [
+    prisma.post.update({
+      where: { id: post.id },
+      data: { status: 'FAILED', failureReason },
+    }),
+    auditEventCreate(prisma, {
+      workspaceId: post.workspaceId,
+      actor: AUDIT_ACTOR,
+      entityType: 'POST',
+      entityId: post.id,
+      action: 'STATUS_CHANGED',
+      before: { text: post.text, status: 'SCHEDULED' },
+      after: { text: post.text, status: 'FAILED' },
+    }),
+  ]
+}
+
+/**
+ * Convertit des URLs Supabase Storage au format LateMediaItem.
+ * Chaque URL est remplacée par le média résolu pour la plateforme (variante
+ * éventuelle, type MIME réel — voir lib/media-variants.ts).
+ *
+ * @param mediaUrls - URLs publiques des médias
+ * @param altTexts  - Textes alternatifs effectifs { [url]: altText }
+ * @param media     - Médias à publier { [url d'origine]: média résolu }
+ * @returns Médias à transmettre à Late
+ */
+function toLateMediaItems(
+  mediaUrls: string[],
+  altTexts: Record<string, string>,
+  media: Record<string, PublishMedia>,
+): LateMediaItem[] {
+  return mediaUrls.map((url) => {
+    const resolved = media[url] ?? { url, mimeType: mimeTypeFromUrl(url) }
+    return {
+      type: resolved.mimeType.startsWith('video/') ? ('video' as const) : ('image' as const),
+      url: resolved.url,
+      mimeType: resolved.mimeType,
+      // Extraire le nom de fichier depuis l'URL publiée
+      filename: resolved.url.split('/').pop() ?? 'media',
+      ...(altTexts[url] && { altText: altTexts[url] }),
+    }
+  })
+}
+
 export const publishScheduledPost = inngest.createFunction(
   {
     id: 'publish-scheduled-post',
@@ -69,10 +153,16 @@ export const publishScheduledPost = inngest.createFunction(
           id: true,
           text: true,
           platform: true,   // Plateforme unique du post (simplifié)
+          connectedPlatformId: true, // Compte ciblé (plateformes multi-comptes)
           mediaUrls: true,
+          mediaAltTexts: true, // Textes alternatifs saisis pour le post (galerie en repli)
+          threadParts: true, // Suite du thread (X, Threads, Bluesky)
+          platformOptions: true, // Options de la plateforme (platformSpecificData)
           status: true,
           userId: true,
+          workspaceId: true, // Comptes connectés partagés par le workspace
           scheduledFor: true,
+          seriesId: true,   // Série récurrente éventuelle (occurrence suivante à créer)
         },
       })
     })
@@ -87,35 +177,39 @@ export const publishScheduledPost = inngest.createFunction(
       }
     }
 
-    // ── Étape 3 : Récupérer le profil getlate.dev de la plateforme ───────────
-    // Chaque post a UNE seule plateforme → un seul profil à récupérer.
+    // ── Étape 3 : Récupérer le compte connecté ciblé par le post ─────────────
+    // Chaque post vise UN compte précis (Post.connectedPlatformId) : un workspace
+    // peut avoir plusieurs comptes d'une même plateforme (une marque par compte).
+    // Jamais de repli sur « un compte quelconque de la plateforme » — seul cas implicite
+    // toléré : aucun compte choisi ET un unique compte actif (anciens posts).
     // lateProfileId = ID du workspace Late (MongoDB ObjectId) stocké lors de l'OAuth.
-    const connectedPlatform = await step.run('recuperer-profil', async () => {
-      return prisma.connectedPlatform.findFirst({
-        where: {
-          userId: post.userId,
-          platform: post.platform,
-          isActive: true,
-        },
-        select: {
-          platform: true,
-          lateProfileId: true,
-        },
-      })
+    const accountResolution = await step.run('recuperer-profil', async (): Promise<
+      | { ok: true; id: string; platform: string; lateProfileId: string; accountName: string }
+      | { ok: false; error: string }
+    > => {
+      const accounts: Array<{ id: string; platform: string; lateProfileId: string; accountName: string }> =
+        await prisma.connectedPlatform.findMany({
+          where: { workspaceId: post.workspaceId, isActive: true },
+          select: { id: true, platform: true, lateProfileId: true, accountName: true },
+        })
+
+      const target = resolveTargetAccount(accounts, post.platform, post.connectedPlatformId)
+      if (!target.ok) return target
+
+      const account = accounts.find((a) => a.id === target.connectedPlatformId)
+      return account ? { ok: true, ...account } : { ok: false, error: 'Compte de publication introuvable' }
     })
 
-    if (!connectedPlatform) {
-      // Profil connecté introuvable → marquer comme FAILED
-      await prisma.post.update({
-        where: { id: postId },
-        data: {
-          status: 'FAILED',
-          failureReason: `Aucun profil ${post.platform} connecté pour la publication`,
-        },
+    if (!accountResolution.ok) {
+      // Compte introuvable, déconnecté ou ambigu → FAILED avec la raison exacte
+      await step.run('echec-compte', async () => {
+        await prisma.$transaction(markPostFailed(post, `${accountResolution.error} — publication annulée`))
       })
-      throw new Error(`Profil ${post.platform} introuvable pour l'utilisateur`)
+      throw new NonRetriableError(`Compte ${post.platform} non résolu pour le post ${postId} : ${accountResolution.error}`)
     }
 
+    const connectedPlatform = accountResolution
+
     // ── Étape 3b : Résoudre l'accountId Late depuis la liste des comptes ─────
     // L'API Late POST /v1/posts attend platforms[].accountId (ID du compte social = _id).
     // C'est DIFFÉRENT du lateProfileId (ID du workspace/profil).
@@ -154,19 +248,9 @@ export const publishScheduledPost = inngest.createFunction(
           && resolveProfileId(a.profileId) === connectedPlatform.lateProfileId,
       )
 
-      if (!account) {
-        // Fallback : prendre le premier compte de cette plateforme (alias inclus)
-        // (cas où le mapping workspace/account a changé côté Late)
-        const fallback = accounts.find((a) => acceptedPlatformNames.includes(a.platform))
-        if (fallback) {
-          console.warn(
-            `[publish-scheduled-post] profileId ${connectedPlatform.lateProfileId} introuvable,`
-            + ` fallback sur account ${fallback._id ?? fallback.id} (platform: ${fallback.platform})`,
-          )
-          return fallback._id ?? fallback.id ?? null
-        }
-        return null
-      }
+      // Pas de repli sur un autre compte de la même plateforme : publier sur le
+      // mauvais compte (autre marque) est pire qu'un échec explicite.
+      if (!account) return null
 
       // Utiliser `_id` en priorité (Late utilise MongoDB ObjectId)
       return account._id ?? account.id ?? null
@@ -176,31 +260,79 @@ export const publishScheduledPost = inngest.createFunction(
       // Alias tentés pour le log de diagnostic
       const tried = (PLATFORM_ALIASES[post.platform] ?? [post.platform]).join(', ')
       console.error(
-        `[publish-scheduled-post] Aucun compte Late trouvé pour ${post.platform}`
-        + ` (aliases essayés : ${tried}). Le token OAuth a probablement expiré — Late ne connaît plus ce compte.`,
+        `[publish-scheduled-post] Compte Late introuvable pour ${post.platform} "${connectedPlatform.accountName}"`
+        + ` (profil ${connectedPlatform.lateProfileId}, aliases essayés : ${tried}).`
+        + ' Le token OAuth a probablement expiré — Late ne connaît plus ce compte.',
       )
 
-      // Marquer la ConnectedPlatform comme inactive.
+      // Marquer CE compte comme inactif (et lui seul : les autres comptes de la
+      // même plateforme restent valides).
       // Late ne possède plus le compte (token expiré ou révoqué) : notre DB doit
-      // refléter cet état pour que l'UI affiche la plateforme comme déconnectée
-      // et invite l'utilisateur à reconnecter son compte sur /settings.
-      await prisma.connectedPlatform.updateMany({
-        where: {
-          userId: post.userId,
-          platform: post.platform,
-          isActive: true,
-        },
-        data: { isActive: false },
+      // refléter cet état pour que l'UI affiche le compte comme déconnecté
+      // et invite l'utilisateur à le reconnecter sur /settings.
+      await step.run('echec-compte-late', async () => {
+        await prisma.$transaction([
+          prisma.connectedPlatform.update({
+            where: { id: connectedPlatform.id },
+            data: { isActive: false },
+          }),
+          auditEventCreate(prisma, {
+            workspaceId: post.workspaceId,
+            actor: AUDIT_ACTOR,
+            entityType: 'CONNECTED_PLATFORM',
+            entityId: connectedPlatform.id,
+            entityLabel: `${connectedPlatform.platform} · ${connectedPlatform.accountName}`,
+            action: 'UPDATED',
+            before: { isActive: true },
+            after: { isActive: false },
+          }),
+          ...markPostFailed(
+            post,
+            `Compte ${post.platform} "${connectedPlatform.accountName}" déconnecté de Late (token expiré ou révoqué) — reconnecte-le sur /settings`,
+          ),
+        ])
       })
+      throw new NonRetriableError(`Aucun account Late trouvé pour ${post.platform} (aliases : ${tried})`)
+    }
 
-      await prisma.post.update({
-        where: { id: postId },
-        data: {
-          status: 'FAILED',
-          failureReason: `Compte ${post.platform} déconnecté de Late (token expiré ou révoqué) — reconnecte-le sur /settings`,
-        },
+    // ── Étape 3c : Résoudre les médias à publier pour la plateforme ──────────
+    // Variante de la plateforme si elle existe (9:16 TikTok, taille plafonnée X…),
+    // type MIME réel sondé après l'upload. Une vidéo trop longue n'est pas
+    // raccourcie : la publication échoue avec la durée en cause.
+    const publishMedia = await step.run('resoudre-medias', async () => {
+      const media = await resolvePublishMedia(post.workspaceId, post.platform, [
+        ...post.mediaUrls,
+        ...normalizeThreadParts(post.threadParts).flatMap((part) => part.mediaUrls),
+      ])
+      const durationError = Object.values(media)
+        .map((item) => videoDurationError(post.platform, item.durationMs))
+        .find((error) => error !== null) ?? null
+      return { media, durationError }
+    })
+
+    // ── Étape 3d : Générer les variantes manquantes ──────────────────────────
+    // Vidéo non conforme sans variante (plateforme connectée après l'upload,
+    // transcodage en échec) : l'original serait refusé par la plateforme.
+    const resolvedMedia = { ...publishMedia.media }
+    let mediaError = publishMedia.durationError
+    for (const [url, item] of Object.entries(resolvedMedia)) {
+      if (mediaError) break
+      if (!item.missingVariant) continue
+      const { mediaId, filename, plan } = item.missingVariant
+      const variantUrl = await step.run(`variante-${mediaId}`, () => createMediaVariant(mediaId, plan))
+      if (!variantUrl) {
+        mediaError = `Variante ${post.platform} requise pour ${filename}, transcodage indisponible (ffmpeg introuvable sur le serveur)`
+        break
+      }
+      resolvedMedia[url] = { ...item, url: variantUrl, mimeType: 'video/mp4', missingVariant: null }
+    }
+
+    if (mediaError) {
+      const reason = mediaError
+      await step.run('echec-medias', async () => {
+        await prisma.$transaction(markPostFailed(post, `${reason} — publication annulée`))
       })
-      throw new Error(`Aucun account Late trouvé pour ${post.platform} (aliases : ${tried})`)
+      throw new NonRetriableError(`Média non publiable sur ${post.platform} pour le post ${postId} : ${mediaError}`)
     }
 
     // ── Étape 4 : Publier via getlate.dev avec publishNow ────────────────────
@@ -212,32 +344,44 @@ export const publishScheduledPost = inngest.createFunction(
     //   - content   : texte du post
     //   - platforms : [{ platform, accountId }] (accountId = _id du LateAccount)
     //   - mediaItems : médias (requis pour TikTok / Instagram — sans eux → 400)
+    //   - platformSpecificData : options de la plateforme (mêmes clés que Post.platformOptions)
+    //     et threadItems, thread complet dans l'ordre (si le post en a un)
     const latePost = await step.run('publier-post', async () => {
+      const threadParts = normalizeThreadParts(post.threadParts)
+      const platformOptions = normalizePlatformOptions(post.platform, post.platformOptions)
+      // Textes alternatifs : ceux du post, sinon ceux de la galerie du workspace
+      const altTexts = await resolveMediaAltTexts(post.workspaceId, [
+        ...post.mediaUrls,
+        ...threadParts.flatMap((part) => part.mediaUrls),
+      ], post.mediaAltTexts)
+      const mediaItems = toLateMediaItems(post.mediaUrls, altTexts, resolvedMedia)
+      const platformSpecificData: LatePlatformSpecificData = {
+        ...platformOptions,
+        // Thread : le premier élément reprend le contenu principal, puis la suite dans l'ordre
+        ...(threadParts.length > 0 && {
+          threadItems: [
+            { content: post.text, mediaItems },
+            ...threadParts.map((part) => ({
+              content: part.text,
+              mediaItems: toLateMediaItems(part.mediaUrls, altTexts, resolvedMedia),
+            })),
+          ],
+        }),
+      }
       return late.posts.create({
         // ID du workspace Late (requis — sans ça, l'API retourne une erreur)
         profileId: connectedPlatform.lateProfileId,
         // Late utilise `content` (et non `text`) pour le corps du post
         content: post.text,
         // `platforms` : chaque entrée cible un compte social (_id du LateAccount)
-        platforms: [{ platform: post.platform, accountId: lateAccountId }],
+        platforms: [{
+          platform: post.platform,
+          accountId: lateAccountId,
+          ...(Object.keys(platformSpecificData).length > 0 && { platformSpecificData }),
+        }],
         // mediaItems : médias joints au post (obligatoire pour TikTok/Instagram vidéo)
         // On mappe les URLs Supabase Storage vers le format LateMediaItem
-        ...(post.mediaUrls.length > 0 && {
-          mediaItems: post.mediaUrls.map((url) => ({
-            // Déduire le type à partir de l'extension (mp4/mov → video, sinon image)
-            type: /\.(mp4|mov|avi|webm)$/i.test(url) ? ('video' as const) : ('image' as const),
-            url,
-            // Déduire le mimeType à partir de l'extension
-            mimeType: /\.(mp4|mov)$/i.test(url) ? 'video/mp4'
-              : /\.mov$/i.test(url) ? 'video/quicktime'
-              : /\.webm$/i.test(url) ? 'video/webm'
-              : /\.gif$/i.test(url) ? 'image/gif'
-              : /\.png$/i.test(url) ? 'image/png'
-              : 'image/jpeg',
-            // Extraire le nom de fichier depuis l'URL
-            filename: url.split('/').pop() ?? 'media',
-          })),
-        }),
+        ...(mediaItems.length > 0 && { mediaItems }),
         // Late publie immédiatement — Inngest a déjà géré le timing via sleepUntil
         publishNow: true,
       })
@@ -245,43 +389,68 @@ export const publishScheduledPost = inngest.createFunction(
 
     // ── Étape 5 : Vérifier le statut de publication par plateforme ───────────
     // Late retourne `platforms[0]` avec status 'success' | 'failed' | 'pending'.
-    // En cas d'échec, on throw pour déclencher les retries Inngest automatiques.
+    // Échec définitif : la réponse de l'étape 'publier-post' est mémorisée par
+    // Inngest, un retry relirait le même refus.
     const platformResult = latePost.platforms?.[0]
 
     if (!platformResult || platformResult.status === 'failed') {
-      // Marquer comme FAILED immédiatement (avant le throw)
-      // pour que l'UI reflète l'erreur même si les retries échouent.
-      await prisma.post.update({
-        where: { id: postId },
-        data: {
-          status: 'FAILED',
-          failureReason: `Late : publication échouée sur ${platformResult?.platform ?? connectedPlatform.platform}`,
-        },
+      const reason = `Late : publication échouée sur ${platformResult?.platform ?? connectedPlatform.platform}`
+      await step.run('echec-publication', async () => {
+        await prisma.$transaction(markPostFailed(post, reason))
       })
-      throw new Error(
-        `Late : publication échouée sur ${platformResult?.platform ?? connectedPlatform.platform}`
-      )
+      throw new NonRetriableError(reason)
     }
 
     // ── Étape 6 : Mettre à jour le statut du Post ─────────────────────────────
     // Récupérer l'ID Late : Late retourne `_id` (MongoDB), fallback sur `id`
     const latePostId = latePost._id ?? latePost.id ?? null
 
+    // Transition système tracée dans l'historique du post (auteur null)
     await step.run('mettre-a-jour-statut', async () => {
-      return prisma.post.update({
-        where: { id: postId },
-        data: {
-          status: 'PUBLISHED',
-          publishedAt: new Date(),
-          latePostId,
-          // platformPostUrl peut être absent (ex: TikTok retourne platformPostId).
-          // On prend platformPostUrl si disponible, sinon platformPostId.
-          platformPostUrl: platformResult.platformPostUrl ?? platformResult.platformPostId ?? null,
-          failureReason: null,
-        },
-      })
+      return prisma.$transaction([
+        prisma.post.update({
+          where: { id: postId },
+          data: {
+            status: 'PUBLISHED',
+            publishedAt: new Date(),
+            // Trace du compte effectivement utilisé (renseigne aussi les anciens posts sans compte)
+            connectedPlatformId: connectedPlatform.id,
+            latePostId,
+            // platformPostUrl peut être absent (ex: TikTok retourne platformPostId).
+            // On prend platformPostUrl si disponible, sinon platformPostId.
+            platformPostUrl: platformResult.platformPostUrl ?? platformResult.platformPostId ?? null,
+            failureReason: null,
+          },
+        }),
+        postEventCreate(prisma, {
+          postId,
+          actorId: null,
+          action: 'STATUS_CHANGED',
+          fromStatus: 'SCHEDULED',
+          toStatus: 'PUBLISHED',
+        }),
+        auditEventCreate(prisma, {
+          workspaceId: post.workspaceId,
+          actor: AUDIT_ACTOR,
+          entityType: 'POST',
+          entityId: postId,
+          action: 'STATUS_CHANGED',
+          before: { text: post.text, status: 'SCHEDULED', connectedPlatformId: post.connectedPlatformId },
+          after: { text: post.text, status: 'PUBLISHED', connectedPlatformId: connectedPlatform.id },
+        }),
+      ])
     })
 
+    // ── Étape 7 : Série récurrente → matérialiser l'occurrence suivante ───────
+    // Uniquement après un succès : une occurrence en échec n'en crée pas d'autre
+    // (l'utilisateur la replanifie ou l'ignore depuis le calendrier).
+    if (post.seriesId) {
+      await step.sendEvent('programmer-occurrence-suivante', {
+        name: 'post/series.next',
+        data: { postId, seriesId: post.seriesId },
+      })
+    }
+
     return {
       published: true,
       platform: post.platform,
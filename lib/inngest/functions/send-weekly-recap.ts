@@ -0,0 +1,235 @@
+/**
+ * @file lib/inngest/functions/send-weekly-recap.ts
+ * @description Fonction Inngest : construit et envoie le récapitulatif hebdomadaire
+ *   d'un utilisateur. Déclenchée par "recap/weekly.user" (fan-out de weeklyRecapCron).
+ *
+ *   Workflow :
+ *   1. Revérifier la préférence emailWeeklyRecap (désinscription entre cron et envoi)
+ *   2. Collecter les posts en DB du workspace actif de l'utilisateur :
+ *      publiés / échoués sur 7 jours, planifiés sur 7 jours
+ *   3. Collecter les analytics Late : meilleur post (engagementRate) + évolution abonnés
+ *      → best-effort : une erreur Late n'empêche pas l'envoi (sections masquées)
+ *   4. Envoyer l'email WeeklyRecap via Resend (avec lien de désinscription en un clic)
+ *
+ * @example
+ *   // Déclenché automatiquement par weeklyRecapCron — ne pas appeler directement.
+ */
+
+import { WeeklyRecapEmail } from '@/emails/WeeklyRecap'
+import type {
+  WeeklyRecapFollowerDelta,
+  WeeklyRecapTopPost,
+  WeeklyRecapUpcomingPost,
+} from '@/emails/WeeklyRecap'
+import { inngest } from '@/lib/inngest/client'
+import { late } from '@/lib/late'
+import { prisma } from '@/lib/prisma'
+import { getResend } from '@/lib/resend'
+import { resolveTimezone } from '@/lib/timezone'
+import { createUnsubscribeToken } from '@/lib/unsubscribe'
+import { getWorkspaceContext } from '@/lib/workspace'
+
+/** Durée de la période couverte (7 jours) */
+const WEEK_MS = 7 * 24 * 60 * 60 * 1000
+
+/** Nombre maximum de posts à venir listés dans l'email */
+const MAX_UPCOMING_POSTS = 5
+
+/** Données issues de la DB pour un récap (résultat sérialisé du step "collecter-posts") */
+interface RecapPostsData {
+  publishedCount: number
+  failedCount: number
+  upcomingPosts: WeeklyRecapUpcomingPost[]
+  upcomingCount: number
+  /** Plateformes connectées actives (filtre des stats followers) */
+  connectedPlatforms: string[]
+}
+
+/**
+ * Fonction Inngest d'envoi du récapitulatif hebdomadaire d'un utilisateur.
+ *
+ * retries: 3 — seuls les steps en échec sont rejoués (Inngest mémorise les autres).
+ */
+export const sendWeeklyRecap = inngest.createFunction(
+  {
+    id: 'send-weekly-recap',
+    name: 'Envoyer le récapitulatif hebdomadaire',
+    retries: 3,
+    // Un seul récap par utilisateur et par période, même si le cron est rejoué
+    idempotency: 'event.data.userId + "-" + event.data.periodEnd',
+  },
+  { event: 'recap/weekly.user' },
+  async ({ event, step }) => {
+    const { userId, periodEnd } = event.data as { userId: string; periodEnd: string }
+    const end = new Date(periodEnd)
+    const start = new Date(end.getTime() - WEEK_MS)
+    const nextWeekEnd = new Date(end.getTime() + WEEK_MS)
+
+    // ── Étape 1 : Revérifier la préférence et charger l'utilisateur ──────────
+    // Le récap couvre le workspace actif de l'utilisateur (posts et comptes partagés)
+    const user = await step.run('verifier-prefs-recap', async () => {
+      const found: { email: string; name: string | null; timezone: string | null } | null =
+        await prisma.user.findFirst({
+          where: { id: userId, notifPrefs: { emailWeeklyRecap: true } },
+          select: { email: true, name: true, timezone: true },
+        })
+      if (!found) return null
+
+      const workspace = await getWorkspaceContext(userId)
+      return { ...found, workspaceId: workspace.id, lateWorkspaceId: workspace.lateWorkspaceId }
+    })
+
+    // Utilisateur supprimé ou désinscrit entre le cron et cet envoi
+    if (!user) {
+      return { sent: false, reason: 'Utilisateur introuvable ou désinscrit' }
+    }
+
+    // Dates de l'email affichées dans le fuseau de l'utilisateur
+    const timezone = resolveTimezone(user.timezone)
+
+    // ── Étape 2 : Posts en DB (7 jours passés + 7 jours à venir) ─────────────
+    const { workspaceId } = user
+    const posts = await step.run('collecter-posts', async (): Promise<RecapPostsData> => {
+      const [publishedCount, failedCount, upcoming, upcomingCount, connected] = await Promise.all([
+        prisma.post.count({
+          where: { workspaceId, status: 'PUBLISHED', publishedAt: { gte: start, lt: end } },
+        }),
+        // Pas de champ failedAt : updatedAt correspond au passage en FAILED
+        prisma.post.count({
+          where: { workspaceId, status: 'FAILED', updatedAt: { gte: start, lt: end } },
+        }),
+        prisma.post.findMany({
+          where: { workspaceId, status: 'SCHEDULED', scheduledFor: { gte: end, lt: nextWeekEnd } },
+          select: { text: true, platform: true, scheduledFor: true },
+          orderBy: { scheduledFor: 'asc' },
+          take: MAX_UPCOMING_POSTS,
+        }),
+        prisma.post.count({
+          where: { workspaceId, status: 'SCHEDULED', scheduledFor: { gte: end, lt: nextWeekEnd } },
+        }),
+        prisma.connectedPlatform.findMany({
+          where: { workspaceId, isActive: true },
+          select: { platform: true },
+        }),
+      ])
+
+      // Formatage ici : les Date ne survivent pas à la sérialisation JSON des steps
+      const upcomingPosts: WeeklyRecapUpcomingPost[] = upcoming.map(
+        (p: { text: string; platform: string; scheduledFor: Date | null }) => ({
+          text: p.text,
+          platform: p.platform,
+          scheduledLabel: p.scheduledFor
+            ? p.scheduledFor.toLocaleString('fr-FR', {
+                weekday: 'short',
+                day: 'numeric',
+                month: 'short',
+                hour: '2-digit',
+                minute: '2-digit',
+                timeZone: timezone,
+              })
+            : '',
+        }),
+      )
+
+      return {
+        publishedCount,
+        failedCount,
+        upcomingPosts,
+        upcomingCount,
+        connectedPlatforms: connected.map((c: { platform: string }) => c.platform),
+      }
+    })
+
+    // ── Étape 3 : Analytics Late (best-effort) ────────────────────────────────
+    const analytics = await step.run('collecter-analytics', async () => {
+      let topPost: WeeklyRecapTopPost | null = null
+      let followerDeltas: WeeklyRecapFollowerDelta[] = []
+
+      if (user.lateWorkspaceId) {
+        try {
+          const { posts: analyticsPosts } = await late.analytics.getPosts({
+            profileId: user.lateWorkspaceId,
+            from: start.toISOString(),
+            to: end.toISOString(),
+            limit: 100,
+          })
+          const best = analyticsPosts.reduce<(typeof analyticsPosts)[number] | null>(
+            (acc, p) => (!acc || p.metrics.engagementRate > acc.metrics.engagementRate ? p : acc),
+            null,
+          )
+          if (best) {
+            topPost = {
+              text: best.text,
+              platform: best.platform,
+              engagementRate: best.metrics.engagementRate,
+            }
+          }
+        } catch (error) {
+          console.warn('[send-weekly-recap] analytics.getPosts indisponible :', error)
+        }
+      }
+
+      try {
+        const stats = await late.accounts.followerStats({
+          from: start.toISOString(),
+          to: end.toISOString(),
+        })
+        // followerStats n'est pas filtrable par workspace : on ne garde que les
+        // plateformes connectées dans ce workspace
+        const connected = new Set(posts.connectedPlatforms)
+        followerDeltas = (Array.isArray(stats?.accounts) ? stats.accounts : [])
+          .filter((a) => connected.has(a.platform))
+          .map((a) => ({
+            platform: a.platform,
+            currentFollowers: a.currentFollowers,
+            growth: a.growth,
+          }))
+      } catch (error) {
+        console.warn('[send-weekly-recap] accounts.followerStats indisponible :', error)
+      }
+
+      return { topPost, followerDeltas }
+    })
+
+    // ── Étape 4 : Envoi de l'email ────────────────────────────────────────────
+    await step.run('envoyer-email-recap', async () => {
+      const baseUrl = process.env.BETTER_AUTH_URL ?? 'https://ogolong.com'
+      const unsubscribeToken = createUnsubscribeToken(userId, 'weekly-recap')
+      // Lien de l'email : page de confirmation (un GET ne désinscrit jamais)
+      const unsubscribeUrl = `${baseUrl}/unsubscribe?token=${unsubscribeToken}`
+      // En-tête one-click RFC 8058 : POST direct sur la route
+      const oneClickUrl = `${baseUrl}/api/notifications/unsubscribe?token=${unsubscribeToken}`
+
+      const periodLabel = [start, new Date(end.getTime() - 1)]
+        .map((d) =>
+          d.toLocaleDateString('fr-FR', { day: 'numeric', month: 'short', timeZone: timezone }),
+        )
+        .join(' – ')
+
+      return getResend().emails.send({
+        from: process.env.RESEND_FROM_EMAIL ?? 'noreply@ogolong.com',
+        to: user.email,
+        subject: '📊 Votre récapitulatif de la semaine — ogolong',
+        // Désinscription one-click RFC 8058 (bouton natif Gmail / Outlook)
+        headers: {
+          'List-Unsubscribe': `<${oneClickUrl}>`,
+          'List-Unsubscribe-Post': 'List-Unsubscribe=One-Click',
+        },
+        react: WeeklyRecapEmail({
+          userName: user.name ?? 'Utilisateur',
+          periodLabel,
+          publishedCount: posts.publishedCount,
+          failedCount: posts.failedCount,
+          topPost: analytics.topPost,
+          followerDeltas: analytics.followerDeltas,
+          upcomingPosts: posts.upcomingPosts,
+          upcomingCount: posts.upcomingCount,
+          dashboardUrl: `${baseUrl}/compose`,
+          unsubscribeUrl,
+        }),
+      })
+    })
+
+    return { sent: true }
+  },
+)
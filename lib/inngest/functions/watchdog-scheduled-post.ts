@@ -23,7 +23,9 @@
  *   // En production : Inngest envoie ["post/schedule", "post/watchdog"] en batch.
  */
 
+import { auditEventCreate, systemActor } from '@/lib/audit'
 import { inngest } from '@/lib/inngest/client'
+import { postEventCreate } from '@/lib/post-review'
 import { prisma } from '@/lib/prisma'
 
 /**
@@ -60,7 +62,7 @@ export const watchdogScheduledPost = inngest.createFunction(
     const post = await step.run('verifier-statut-post', async () => {
       return prisma.post.findUnique({
         where: { id: postId },
-        select: { status: true, scheduledFor: true },
+        select: { status: true, scheduledFor: true, text: true, workspaceId: true },
       })
     })
 
@@ -90,18 +92,37 @@ export const watchdogScheduledPost = inngest.createFunction(
     // ── Étape 3 : Marquer FAILED ──────────────────────────────────────────────
     // Condition atomique `status: 'SCHEDULED'` pour éviter une race condition
     // si publishScheduledPost termine exactement au même moment.
+    // Transition système tracée dans l'historique du post (auteur null)
     await step.run('marquer-failed', async () => {
-      return prisma.post.update({
-        where: {
-          id: postId,
-          status: 'SCHEDULED', // évite d'écraser un PUBLISHED ou FAILED concurrent
-        },
-        data: {
-          status: 'FAILED',
-          failureReason:
-            "Publication non effectuée — la tâche Inngest a échoué (problème réseau ou configuration). Re-planifie ce post depuis /compose.",
-        },
-      })
+      return prisma.$transaction([
+        prisma.post.update({
+          where: {
+            id: postId,
+            status: 'SCHEDULED', // évite d'écraser un PUBLISHED ou FAILED concurrent
+          },
+          data: {
+            status: 'FAILED',
+            failureReason:
+              "Publication non effectuée — la tâche Inngest a échoué (problème réseau ou configuration). Re-planifie ce post depuis /compose.",
+          },
+        }),
+        postEventCreate(prisma, {
+          postId,
+          actorId: null,
+          action: 'STATUS_CHANGED',
+          fromStatus: 'SCHEDULED',
+          toStatus: 'FAILED',
+        }),
+        auditEventCreate(prisma, {
+          workspaceId: post.workspaceId,
+          actor: systemActor('watchdog-scheduled-post'),
+          entityType: 'POST',
+          entityId: postId,
+          action: 'STATUS_CHANGED',
+          before: { text: post.text, status: 'SCHEDULED' },
+          after: { text: post.text, status: 'FAILED' },
+        }),
+      ])
     })
 
     return { synced: true, postId }
@@ -0,0 +1,63 @@
+/**
+ * @file lib/inngest/functions/weekly-recap-cron.ts
+ * @description Fonction Inngest cron : déclenche le récapitulatif hebdomadaire.
+ *   Chaque lundi à 8h (Europe/Paris), liste les utilisateurs ayant
+ *   NotificationPrefs.emailWeeklyRecap = true puis émet un événement
+ *   "recap/weekly.user" par utilisateur (fan-out).
+ *
+ *   Pourquoi un fan-out plutôt qu'une boucle dans cette fonction ?
+ *   - Chaque récap appelle l'API Late (analytics, followers) : un utilisateur en
+ *     erreur ne doit pas bloquer ni rejouer les envois des autres
+ *   - Inngest parallélise et retry chaque récap indépendamment
+ *
+ * @example
+ *   // Déclenché automatiquement par Inngest — ne pas appeler directement.
+ */
+
+import { inngest } from '@/lib/inngest/client'
+import { prisma } from '@/lib/prisma'
+
+/**
+ * Fonction cron du récapitulatif hebdomadaire.
+ *
+ * retries: 2 — si la lecture des préférences échoue (DB indisponible).
+ */
+export const weeklyRecapCron = inngest.createFunction(
+  {
+    id: 'weekly-recap-cron',
+    name: 'Récapitulatif hebdomadaire (cron)',
+    retries: 2,
+  },
+  // Lundi 8h heure de Paris
+  { cron: 'TZ=Europe/Paris 0 8 * * 1' },
+  async ({ step }) => {
+    // ── Étape 1 : Lister les utilisateurs abonnés au récap ───────────────────
+    // periodEnd est calculé dans le step (mémorisé par Inngest) : tous les récaps
+    // d'un même envoi couvrent exactement la même période, même en cas de replay
+    const { userIds, periodEnd } = await step.run('lister-destinataires', async (): Promise<{ userIds: string[]; periodEnd: string }> => {
+      const prefs = await prisma.notificationPrefs.findMany({
+        where: { emailWeeklyRecap: true },
+        select: { userId: true },
+      })
+      return {
+        userIds: prefs.map((p: { userId: string }) => p.userId),
+        periodEnd: new Date().toISOString(),
+      }
+    })
+
+    if (userIds.length === 0) {
+      return { recipients: 0 }
+    }
+
+    // ── Étape 2 : Fan-out — un événement par utilisateur ─────────────────────
+    await step.sendEvent(
+      'declencher-recaps',
+      userIds.map((userId: string) => ({
+        name: 'recap/weekly.user' as const,
+        data: { userId, periodEnd },
+      })),
+    )
+
+    return { recipients: userIds.length }
+  },
+)
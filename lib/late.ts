@@ -178,6 +178,30 @@ export interface LateMediaItem {
   filename?: string
   /** Taille en octets */
   size?: number
+  /** Texte alternatif de l'image (accessibilité, lecteurs d'écran) */
+  altText?: string
+}
+
+/**
+ * Élément d'un thread (X, Threads, Bluesky) : un post de la chaîne, publié
+ * en réponse au précédent. Le premier élément reprend le contenu principal.
+ */
+export interface LateThreadItem {
+  /** Texte de l'élément */
+  content: string
+  /** Médias propres à l'élément */
+  mediaItems?: LateMediaItem[]
+}
+
+/**
+ * Données propres à la plateforme d'une entrée `platforms`.
+ * Hors `threadItems`, les clés sont celles de Post.platformOptions
+ * (ex: `title` YouTube, `boardId` Pinterest, `subreddit` Reddit).
+ */
+export interface LatePlatformSpecificData {
+  /** Thread complet, dans l'ordre (X, Threads, Bluesky) */
+  threadItems?: LateThreadItem[]
+  [option: string]: string | LateThreadItem[] | undefined
 }
 
 /** Paramètres pour créer un post via POST /v1/posts */
@@ -198,10 +222,12 @@ export interface LateCreatePostParams {
    * Plateformes cibles : un objet par compte social à publier.
    * `accountId` est l'`_id` d'un LateAccount (GET /v1/accounts).
    * `platform` est l'identifiant de la plateforme (ex: "instagram", "tiktok").
+   * `platformSpecificData` : options de la plateforme et thread complet (threadItems).
    */
   platforms: Array<{
     platform: string
     accountId: string
+    platformSpecificData?: LatePlatformSpecificData
   }>
   /**
    * Médias à joindre au post (images, vidéos).
@@ -591,11 +617,11 @@ class LateClient {
      * À appeler seulement si aucun workspace n'existe (vérifier via list() d'abord).
      *
      * @param params.name - Nom du workspace (ex: nom de l'utilisateur)
-     * @returns Workspace créé avec son ID à stocker sur User.lateWorkspaceId
+     * @returns Workspace créé avec son ID à stocker sur Workspace.lateWorkspaceId
      *
      * @example
      *   const { id } = await late.profiles.create({ name: 'Marie Dupont' })
-     *   // Sauvegarder id dans User.lateWorkspaceId
+     *   // Sauvegarder id dans Workspace.lateWorkspaceId
      */
     create: (params: { name: string }) =>
       this.request<LateWorkspaceProfile>('/v1/profiles', {
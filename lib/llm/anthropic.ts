@@ -0,0 +1,94 @@
+/**
+ * @file lib/llm/anthropic.ts
+ * @description Fournisseur LLM Anthropic (Claude) — fournisseur par défaut.
+ *   Appel en streaming quand l'appelant suit l'entrée partielle du tool
+ *   (input_json_delta, parsée par le SDK), appel simple sinon.
+ *
+ * @example
+ *   const { toolCall } = await anthropicProvider.callTool({ tier: 'agent', ... })
+ */
+
+import { AGENT_MODEL, FILTER_MODEL, anthropic } from '@/lib/ai'
+import type {
+  LlmMessage,
+  LlmModelTier,
+  LlmProvider,
+  LlmToolCallRequest,
+  LlmToolCallResult,
+} from '@/lib/llm/types'
+
+import type { Message, MessageParam } from '@anthropic-ai/sdk/resources/messages'
+
+/** Modèle Claude par gamme */
+const MODELS: Record<LlmModelTier, string> = {
+  agent: AGENT_MODEL,
+  filter: FILTER_MODEL,
+}
+
+/**
+ * Convertit un message commun au format Anthropic : les images jointes
+ * deviennent des blocs image (source URL) placés avant le texte.
+ *
+ * @param message - Message commun
+ * @returns Message Anthropic
+ */
+function toAnthropicMessage({ role, content, imageUrls }: LlmMessage): MessageParam {
+  if (!imageUrls?.length) return { role, content }
+  return {
+    role,
+    content: [
+      ...imageUrls.map((url) => ({ type: 'image' as const, source: { type: 'url' as const, url } })),
+      { type: 'text' as const, text: content },
+    ],
+  }
+}
+
+/**
+ * Appelle Claude avec tool_choice "any" (réponse texte libre impossible).
+ *
+ * @param request - Requête commune
+ * @returns Premier bloc tool_use + texte éventuel
+ */
+async function callTool(request: LlmToolCallRequest): Promise<LlmToolCallResult> {
+  const { tier, system, tools, messages, maxTokens, signal, onInput } = request
+  const params = {
+    model: MODELS[tier],
+    max_tokens: maxTokens,
+    system,
+    tool_choice: { type: 'any' as const },
+    tools: tools.map((tool) => ({
+      name: tool.name,
+      description: tool.description,
+      input_schema: tool.inputSchema,
+    })),
+    messages: messages.map(toAnthropicMessage),
+  }
+
+  let message: Message
+  if (onInput) {
+    const stream = anthropic.messages.stream(params, { signal })
+    stream.on('inputJson', (_delta, snapshot) => onInput(snapshot))
+    message = await stream.finalMessage()
+  } else {
+    message = await anthropic.messages.create(params, { signal })
+  }
+
+  const toolUse = message.content.find((block) => block.type === 'tool_use')
+  const text = message.content
+    .map((block) => (block.type === 'text' ? block.text : ''))
+    .join('')
+
+  return {
+    toolCall: toolUse && toolUse.type === 'tool_use' ? { name: toolUse.name, input: toolUse.input } : null,
+    text,
+  }
+}
+
+/** Fournisseur Anthropic */
+export const anthropicProvider: LlmProvider = {
+  name: 'anthropic',
+  configError: () => (process.env.ANTHROPIC_API_KEY
+    ? null
+    : 'ANTHROPIC_API_KEY manquante dans .env.local — agent désactivé'),
+  callTool,
+}
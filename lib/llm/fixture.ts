@@ -0,0 +1,114 @@
+/**
+ * @file lib/llm/fixture.ts
+ * @description Fournisseur LLM local et déterministe, adossé à des fixtures JSON.
+ *   Sélectionné par LLM_PROVIDER=fixture : exerce les routes IA sans réseau
+ *   (tests Vitest, développement hors ligne, démo).
+ *
+ *   Une fixture par tool : `<LLM_FIXTURES_DIR>/<nom du tool>.json`
+ *   (par défaut tests/fixtures/llm). Chaque réponse peut cibler une instruction :
+ *   la première dont `match` figure dans le dernier message utilisateur
+ *   (insensible à la casse) est retournée, une réponse sans `match` sert de défaut.
+ *
+ *   {
+ *     "responses": [
+ *       { "match": "linkedin", "input": { "posts": [...] } },
+ *       { "input": { "posts": [...] } }
+ *     ]
+ *   }
+ *
+ * @example
+ *   // .env.test
+ *   LLM_PROVIDER=fixture
+ *   LLM_FIXTURES_DIR=tests/fixtures/llm
+ */
+
+import { existsSync, readFileSync } from 'fs'
+import path from 'path'
+
+import type { LlmMessage, LlmProvider, LlmToolCallRequest, LlmToolCallResult } from '@/lib/llm/types'
+
+// ─── Types ────────────────────────────────────────────────────────────────────
+
+/** Réponse enregistrée pour un tool */
+interface FixtureResponse {
+  /** Extrait attendu dans la dernière instruction (absent = réponse par défaut) */
+  match?: string
+  /** Entrée du tool retournée telle quelle */
+  input: unknown
+}
+
+/** Contenu d'un fichier de fixture */
+interface FixtureFile {
+  responses: FixtureResponse[]
+}
+
+// ─── Constantes ───────────────────────────────────────────────────────────────
+
+/** Dossier des fixtures si LLM_FIXTURES_DIR n'est pas défini (relatif à la racine) */
+const DEFAULT_FIXTURES_DIR = 'tests/fixtures/llm'
+
+// ─── Helpers ──────────────────────────────────────────────────────────────────
+
+/**
+ * Chemin du fichier de fixture d'un tool.
+ * Relu à chaque appel : un test peut changer LLM_FIXTURES_DIR entre deux appels.
+ *
+ * @param toolName - Nom du tool
+ * @returns Chemin absolu
+ */
+function fixturePath(toolName: string): string {
+  const dir = process.env.LLM_FIXTURES_DIR ?? DEFAULT_FIXTURES_DIR
+  return path.resolve(process.cwd(), dir, `${toolName}.json`)
+}
+
+/**
+ * Choisit la réponse correspondant à la dernière instruction.
+ *
+ * @param responses - Réponses de la fixture, dans l'ordre du fichier
+ * @param messages  - Conversation envoyée au fournisseur
+ * @returns Réponse retenue, ou undefined si aucune ne correspond
+ */
+function selectResponse(responses: FixtureResponse[], messages: LlmMessage[]): FixtureResponse | undefined {
+  const instruction = messages.findLast((message) => message.role === 'user')?.content.toLowerCase() ?? ''
+  return responses.find((response) => response.match === undefined
+    || instruction.includes(response.match.toLowerCase()))
+}
+
+// ─── Fournisseur ──────────────────────────────────────────────────────────────
+
+/**
+ * Retourne la réponse enregistrée du premier tool qui a une fixture.
+ * L'entrée complète est transmise une fois à onInput (aperçu final du streaming).
+ *
+ * @param request - Requête commune
+ * @returns Tool « appelé » avec l'entrée de la fixture
+ * @throws Error si aucune fixture ne correspond (test mal configuré)
+ */
+async function callTool(request: LlmToolCallRequest): Promise<LlmToolCallResult> {
+  const { tools, messages, signal, onInput } = request
+  signal?.throwIfAborted()
+
+  for (const tool of tools) {
+    const file = fixturePath(tool.name)
+    if (!existsSync(file)) continue
+
+    const fixture = JSON.parse(readFileSync(file, 'utf8')) as FixtureFile
+    const response = selectResponse(fixture.responses, messages)
+    if (!response) {
+      throw new Error(`[llm/fixture] Aucune réponse de ${file} ne correspond à l'instruction`)
+    }
+
+    onInput?.(response.input)
+    return { toolCall: { name: tool.name, input: response.input }, text: '' }
+  }
+
+  throw new Error(`[llm/fixture] Aucune fixture pour les tools : ${tools.map((tool) => tool.name).join(', ')}`)
+}
+
+/** Fournisseur de fixtures */
+export const fixtureProvider: LlmProvider = {
+  name: 'fixture',
+  // Aucune clé requise : une fixture manquante est signalée à l'appel
+  configError: () => null,
+  callTool,
+}
@@ -0,0 +1,52 @@
+/**
+ * @file lib/llm/index.ts
+ * @description Sélection du fournisseur LLM des routes IA (appels d'outil structurés).
+ *
+ *   LLM_PROVIDER :
+ *   - "anthropic" (défaut) : Claude — lib/llm/anthropic.ts
+ *   - "openai"             : GPT via function calling — lib/llm/openai.ts
+ *   - "fixture"            : réponses JSON locales, sans réseau — lib/llm/fixture.ts
+ *
+ *   Server-only (les adaptateurs importent les clients de lib/ai.ts).
+ *
+ * @example
+ *   import { getLlmProvider } from '@/lib/llm'
+ *   const { toolCall, text } = await getLlmProvider().callTool({ tier: 'agent', ... })
+ */
+
+import { anthropicProvider } from '@/lib/llm/anthropic'
+import { fixtureProvider } from '@/lib/llm/fixture'
+import { openaiProvider } from '@/lib/llm/openai'
+import type { LlmProvider } from '@/lib/llm/types'
+
+export type {
+  LlmMessage,
+  LlmModelTier,
+  LlmProvider,
+  LlmToolCall,
+  LlmToolCallRequest,
+  LlmToolCallResult,
+  LlmToolDefinition,
+} from '@/lib/llm/types'
+
+/** Fournisseurs disponibles, par valeur de LLM_PROVIDER */
+const PROVIDERS: Record<string, LlmProvider> = {
+  anthropic: anthropicProvider,
+  openai: openaiProvider,
+  fixture: fixtureProvider,
+}
+
+/**
+ * Fournisseur configuré par LLM_PROVIDER (relu à chaque appel).
+ *
+ * @returns Fournisseur LLM
+ * @throws Error si LLM_PROVIDER désigne un fournisseur inconnu
+ */
+export function getLlmProvider(): LlmProvider {
+  const name = process.env.LLM_PROVIDER?.trim().toLowerCase() || 'anthropic'
+  const provider = PROVIDERS[name]
+  if (!provider) {
+    throw new Error(`LLM_PROVIDER inconnu : "${name}" (attendu : ${Object.keys(PROVIDERS).join(', ')})`)
+  }
+  return provider
+}
@@ -0,0 +1,116 @@
+/**
+ * @file lib/llm/openai.ts
+ * @description Fournisseur LLM OpenAI (chat completions + function calling).
+ *   Toujours en streaming : les arguments du tool arrivent par fragments JSON,
+ *   parsés partiellement pour les aperçus (même contrat que l'adaptateur Anthropic).
+ *
+ * @example
+ *   // LLM_PROVIDER=openai
+ *   const { toolCall } = await openaiProvider.callTool({ tier: 'filter', ... })
+ */
+
+import { partialParse } from 'openai/_vendor/partial-json-parser/parser'
+
+import { OPENAI_AGENT_MODEL, OPENAI_FILTER_MODEL, openaiClient } from '@/lib/ai'
+import type {
+  LlmMessage,
+  LlmModelTier,
+  LlmProvider,
+  LlmToolCallRequest,
+  LlmToolCallResult,
+} from '@/lib/llm/types'
+
+import type { ChatCompletionMessageParam } from 'openai/resources/chat/completions'
+
+/** Modèle OpenAI par gamme */
+const MODELS: Record<LlmModelTier, string> = {
+  agent: OPENAI_AGENT_MODEL,
+  filter: OPENAI_FILTER_MODEL,
+}
+
+/**
+ * Parse les arguments JSON (éventuellement incomplets) d'un tool.
+ *
+ * @param args - Arguments reçus jusqu'ici
+ * @returns Objet partiel, ou undefined si rien d'exploitable
+ */
+function parsePartialArguments(args: string): unknown {
+  try {
+    return partialParse(args)
+  } catch {
+    return undefined
+  }
+}
+
+/**
+ * Convertit un message commun au format OpenAI : les images jointes
+ * deviennent des parties image_url (messages utilisateur uniquement).
+ *
+ * @param message - Message commun
+ * @returns Message OpenAI
+ */
+function toOpenAiMessage({ role, content, imageUrls }: LlmMessage): ChatCompletionMessageParam {
+  if (role === 'assistant' || !imageUrls?.length) return { role, content }
+  return {
+    role,
+    content: [
+      ...imageUrls.map((url) => ({ type: 'image_url' as const, image_url: { url } })),
+      { type: 'text' as const, text: content },
+    ],
+  }
+}
+
+/**
+ * Appelle OpenAI avec tool_choice "required" (réponse texte libre impossible).
+ *
+ * @param request - Requête commune
+ * @returns Premier tool appelé + texte éventuel
+ */
+async function callTool(request: LlmToolCallRequest): Promise<LlmToolCallResult> {
+  const { tier, system, tools, messages, maxTokens, signal, onInput } = request
+
+  const stream = await openaiClient.chat.completions.create({
+    model: MODELS[tier],
+    max_completion_tokens: maxTokens,
+    tool_choice: 'required',
+    // Un seul tool par réponse, comme avec Claude
+    parallel_tool_calls: false,
+    tools: tools.map((tool) => ({
+      type: 'function' as const,
+      function: { name: tool.name, description: tool.description, parameters: tool.inputSchema },
+    })),
+    messages: [{ role: 'system', content: system }, ...messages.map(toOpenAiMessage)],
+    stream: true,
+  }, { signal })
+
+  let name = ''
+  let args = ''
+  let text = ''
+  for await (const chunk of stream) {
+    const delta = chunk.choices[0]?.delta
+    if (!delta) continue
+    if (delta.content) text += delta.content
+    // Seul le premier tool est retenu (index 0)
+    const toolDelta = delta.tool_calls?.find((call) => call.index === 0)
+    if (!toolDelta?.function) continue
+    if (toolDelta.function.name) name = toolDelta.function.name
+    if (toolDelta.function.arguments) {
+      args += toolDelta.function.arguments
+      const partial = parsePartialArguments(args)
+      if (partial !== undefined) onInput?.(partial)
+    }
+  }
+
+  if (!name) return { toolCall: null, text }
+  // Arguments complets : un JSON invalide ici est une vraie erreur du modèle
+  return { toolCall: { name, input: args ? JSON.parse(args) as unknown : {} }, text }
+}
+
+/** Fournisseur OpenAI */
+export const openaiProvider: LlmProvider = {
+  name: 'openai',
+  configError: () => (process.env.OPENAI_API_KEY
+    ? null
+    : 'OPENAI_API_KEY manquante dans .env.local — agent désactivé'),
+  callTool,
+}
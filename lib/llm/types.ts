@@ -0,0 +1,103 @@
+/**
+ * @file lib/llm/types.ts
+ * @description Contrat commun des fournisseurs LLM (appel d'outil structuré).
+ *
+ *   Les routes IA (create-posts, edit-post, filter-ai, media/alt-text) décrivent leurs tools en
+ *   JSON Schema et reçoivent l'entrée du tool appelé, quel que soit le fournisseur :
+ *   Anthropic, OpenAI ou fixtures locales (tests, développement hors ligne).
+ *
+ * @example
+ *   const { toolCall } = await getLlmProvider().callTool({
+ *     tier: 'filter',
+ *     system,
+ *     tools: [FILTER_TOOL],
+ *     messages: [{ role: 'user', content: query }],
+ *     maxTokens: 512,
+ *   })
+ */
+
+// ─── Requête ──────────────────────────────────────────────────────────────────
+
+/**
+ * Gamme de modèle demandée — chaque fournisseur la traduit en modèle concret.
+ * - agent  : génération de contenu (posts multi-plateformes, édition)
+ * - filter : extraction rapide et peu coûteuse (filtres, classification)
+ */
+export type LlmModelTier = 'agent' | 'filter'
+
+/** Définition d'un tool, indépendante du fournisseur */
+export interface LlmToolDefinition {
+  /** Nom du tool, ex: "edit_post" */
+  name: string
+  /** Description transmise au modèle */
+  description: string
+  /** JSON Schema de l'entrée (type: 'object') */
+  inputSchema: {
+    type: 'object'
+    properties: Record<string, unknown>
+    required?: string[]
+  }
+}
+
+/** Message de la conversation (texte, plus images pour les modèles de vision) */
+export interface LlmMessage {
+  role: 'user' | 'assistant'
+  content: string
+  /** Images jointes (URLs HTTPS publiques) — messages utilisateur uniquement */
+  imageUrls?: string[]
+}
+
+/** Appel d'outil forcé : le modèle doit répondre via l'un des tools fournis */
+export interface LlmToolCallRequest {
+  tier: LlmModelTier
+  /** Prompt système */
+  system: string
+  /** Tools disponibles */
+  tools: LlmToolDefinition[]
+  /** Conversation (commence par un message utilisateur) */
+  messages: LlmMessage[]
+  /** Limite de tokens générés */
+  maxTokens: number
+  /** Annulation (déconnexion du client) */
+  signal?: AbortSignal
+  /** Reçoit l'entrée du tool parsée partiellement pendant la génération (streaming) */
+  onInput?: (input: unknown) => void
+}
+
+// ─── Réponse ──────────────────────────────────────────────────────────────────
+
+/** Tool appelé par le modèle */
+export interface LlmToolCall {
+  name: string
+  /** Entrée du tool (JSON parsé, à valider par l'appelant) */
+  input: unknown
+}
+
+/** Résultat d'un appel d'outil */
+export interface LlmToolCallResult {
+  /** Tool appelé, ou null si le modèle a répondu en texte libre */
+  toolCall: LlmToolCall | null
+  /** Texte libre éventuel (journalisé quand aucun tool n'est appelé) */
+  text: string
+}
+
+// ─── Fournisseur ──────────────────────────────────────────────────────────────
+
+/** Fournisseur LLM sélectionné par LLM_PROVIDER (voir lib/llm/index.ts) */
+export interface LlmProvider {
+  /** Identifiant, ex: "anthropic" (logs) */
+  name: string
+  /**
+   * Configuration manquante (clé d'API…), vérifiée avant tout appel.
+   *
+   * @returns Message d'erreur affichable, ou null si le fournisseur est utilisable
+   */
+  configError: () => string | null
+  /**
+   * Appelle le modèle en forçant l'usage d'un tool.
+   *
+   * @param request - Prompt, tools et options
+   * @returns Tool appelé + texte libre éventuel
+   */
+  callTool: (request: LlmToolCallRequest) => Promise<LlmToolCallResult>
+}
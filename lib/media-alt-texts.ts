@@ -0,0 +1,43 @@
+/**
+ * @file lib/media-alt-texts.ts
+ * @description Résolution serveur des textes alternatifs des médias d'un post.
+ *   Le texte saisi pour le post (Post.mediaAltTexts) est prioritaire ; à défaut,
+ *   celui du média de la galerie du workspace (Media.altText) portant la même URL.
+ *
+ *   Utilisé avant publication (vérification d'accessibilité de schedulePost)
+ *   et à la publication (altText transmis à getlate.dev).
+ *
+ * @example
+ *   const altTexts = await resolveMediaAltTexts(workspace.id, post.mediaUrls, post.mediaAltTexts)
+ *   const warnings = getAccessibilityWarnings(post.text, post.mediaUrls, altTexts)
+ */
+
+import { prisma } from '@/lib/prisma'
+import { normalizeMediaAltTexts } from '@/modules/posts/utils/accessibility'
+
+/**
+ * Textes alternatifs effectifs des médias d'un post.
+ *
+ * @param workspaceId   - Workspace du post (galerie consultée)
+ * @param mediaUrls     - Médias du post
+ * @param mediaAltTexts - Valeur brute de Post.mediaAltTexts
+ * @returns Dictionnaire { [url]: altText } (médias sans texte absents)
+ */
+export async function resolveMediaAltTexts(
+  workspaceId: string,
+  mediaUrls: string[],
+  mediaAltTexts: unknown,
+): Promise<Record<string, string>> {
+  const altTexts = normalizeMediaAltTexts(mediaAltTexts, mediaUrls)
+  const missingUrls = mediaUrls.filter((url) => !altTexts[url])
+  if (missingUrls.length === 0) return altTexts
+
+  const galleryMedia: { url: string; altText: string | null }[] = await prisma.media.findMany({
+    where: { workspaceId, url: { in: missingUrls }, altText: { not: null } },
+    select: { url: true, altText: true },
+  })
+  for (const media of galleryMedia) {
+    if (media.altText?.trim()) altTexts[media.url] = media.altText.trim()
+  }
+  return altTexts
+}
@@ -0,0 +1,157 @@
+/**
+ * @file lib/media-cleanup.ts
+ * @description Nettoyage des fichiers orphelins du bucket `post-media`
+ *   (fonctions Inngest mediaCleanupCron → cleanupUserMedia).
+ *
+ *   Les fichiers sont rangés sous `{userId}/` (uploads du composer),
+ *   `{userId}/gallery/` (galerie) et `{userId}/gallery/variants/` (variantes par
+ *   plateforme). Un fichier est orphelin quand aucun média, aucune variante, aucun
+ *   post ni aucune révision de post ne référence son URL publique (voir
+ *   lib/media-usage.ts) : upload abandonné, post supprimé, image remplacée dans
+ *   l'éditeur… Les fichiers récents sont conservés (ORPHAN_MIN_AGE_DAYS).
+ *
+ *   La lecture du bucket (listStorageFolder) sert aussi au quota de stockage
+ *   (lib/storage-quota.ts).
+ *
+ * @example
+ *   const userIds = await listStorageUserFolders()
+ *   const { scanned, removed } = await cleanupOrphanMedia(userIds[0])
+ */
+
+import { findReferencedUrls } from '@/lib/media-usage'
+import { createServiceClient } from '@/lib/supabase/server'
+import { selectOrphanFiles } from '@/modules/media/utils/media-usage'
+
+// ─── Constantes ───────────────────────────────────────────────────────────────
+
+/** Bucket Supabase Storage contenant les médias (et leurs variantes) */
+const MEDIA_BUCKET = 'post-media'
+
+/** Entrées lues par appel à storage.list() */
+const LIST_PAGE_SIZE = 1000
+
+/** URLs vérifiées par requête en DB */
+const REFERENCE_BATCH_SIZE = 500
+
+/** Fichiers supprimés par appel à storage.remove() */
+const REMOVE_BATCH_SIZE = 100
+
+// ─── Types ────────────────────────────────────────────────────────────────────
+
+/** Entrée d'un dossier du bucket (réponse de storage.list()) */
+export interface StorageEntry {
+  name: string
+  /** null pour un sous-dossier */
+  id: string | null
+  created_at: string | null
+  /** Taille (`size`) et type MIME (`mimetype`) des fichiers */
+  metadata: { size?: number; mimetype?: string } | null
+}
+
+/** Fichier du bucket */
+interface StoredFile {
+  /** Chemin dans le bucket (ex: "usr_abc/gallery/1710000000000-photo.jpg") */
+  path: string
+  /** URL publique (telle qu'enregistrée sur Media et Post) */
+  url: string
+  createdAt: Date
+}
+
+// ─── Helpers ──────────────────────────────────────────────────────────────────
+
+/** Découpe une liste en lots */
+function chunk<T>(items: T[], size: number): T[][] {
+  const batches: T[][] = []
+  for (let i = 0; i < items.length; i += size) batches.push(items.slice(i, i + size))
+  return batches
+}
+
+// ─── Lecture du bucket ─────────────────────────────────────────────────────────
+
+/**
+ * Entrées d'un dossier du bucket (non récursif), toutes pages confondues.
+ * Les sous-dossiers ont un `id` null.
+ *
+ * @param prefix - Dossier ('' = racine du bucket)
+ * @param bucket - Bucket lu (défaut : médias des posts et de la galerie)
+ * @returns Fichiers et sous-dossiers
+ */
+export async function listStorageFolder(prefix: string, bucket = MEDIA_BUCKET): Promise<StorageEntry[]> {
+  const supabase = createServiceClient()
+  const entries: StorageEntry[] = []
+
+  for (let offset = 0; ; offset += LIST_PAGE_SIZE) {
+    const { data, error } = await supabase.storage
+      .from(bucket)
+      .list(prefix, { limit: LIST_PAGE_SIZE, offset })
+    if (error) throw new Error(`Lecture du dossier « ${prefix || '/'} » impossible : ${error.message}`)
+    entries.push(...(data as StorageEntry[]))
+    if (data.length < LIST_PAGE_SIZE) return entries
+  }
+}
+
+/** Fichiers d'un dossier du bucket et de ses sous-dossiers */
+async function listFilesRecursive(prefix: string): Promise<StoredFile[]> {
+  const supabase = createServiceClient()
+  const files: StoredFile[] = []
+
+  for (const entry of await listStorageFolder(prefix)) {
+    const path = `${prefix}/${entry.name}`
+    if (entry.id === null) {
+      files.push(...await listFilesRecursive(path))
+      continue
+    }
+    const { data: { publicUrl } } = supabase.storage.from(MEDIA_BUCKET).getPublicUrl(path)
+    // Date inconnue → traité comme récent (conservé)
+    files.push({ path, url: publicUrl, createdAt: entry.created_at ? new Date(entry.created_at) : new Date() })
+  }
+
+  return files
+}
+
+// ─── Nettoyage ────────────────────────────────────────────────────────────────
+
+/**
+ * Dossiers utilisateurs à la racine du bucket (un par `{userId}/`),
+ * y compris ceux d'utilisateurs supprimés.
+ *
+ * @returns Noms des dossiers (IDs d'utilisateurs)
+ */
+export async function listStorageUserFolders(): Promise<string[]> {
+  const entries = await listStorageFolder('')
+  return entries.filter((entry) => entry.id === null).map((entry) => entry.name)
+}
+
+/**
+ * Supprime les fichiers orphelins du dossier d'un utilisateur.
+ *
+ * @param userId - Dossier `{userId}/` du bucket
+ * @param now    - Date de référence (âge minimal des fichiers supprimés)
+ * @returns Nombre de fichiers examinés et supprimés
+ */
+export async function cleanupOrphanMedia(
+  userId: string,
+  now = new Date(),
+): Promise<{ scanned: number; removed: number }> {
+  const files = await listFilesRecursive(userId)
+
+  const referenced = new Set<string>()
+  for (const batch of chunk(files.map((file) => file.url), REFERENCE_BATCH_SIZE)) {
+    for (const url of await findReferencedUrls(batch)) referenced.add(url)
+  }
+
+  const orphans = selectOrphanFiles(files, referenced, now)
+  if (orphans.length === 0) return { scanned: files.length, removed: 0 }
+
+  const supabase = createServiceClient()
+  let removed = 0
+  for (const batch of chunk(orphans.map((file) => file.path), REMOVE_BATCH_SIZE)) {
+    const { data, error } = await supabase.storage.from(MEDIA_BUCKET).remove(batch)
+    if (error) throw new Error(`Suppression des fichiers orphelins impossible : ${error.message}`)
+    removed += data.length
+  }
+
+  console.log(`[cleanupOrphanMedia] ${userId} : ${removed} fichier(s) orphelin(s) supprimé(s) sur ${files.length}`)
+
+  return { scanned: files.length, removed }
+}
@@ -0,0 +1,378 @@
+/**
+ * @file lib/media-processing.ts
+ * @description Traitement serveur des médias après l'upload (fonction Inngest processMedia).
+ *
+ *   1. probeStoredMedia : lit l'en-tête du fichier stocké (requêtes HTTP Range),
+ *      enregistre le type MIME réel, les dimensions, la durée et le codec sur Media,
+ *      puis calcule les variantes vidéo nécessaires aux plateformes connectées
+ *      du workspace (voir modules/platforms/config/media-specs.ts).
+ *   2. hashStoredMedia : calcule les empreintes de détection des doublons
+ *      (SHA-256 du fichier, dHash des images réduites par ffmpeg) ;
+ *      celles envoyées par le navigateur ne sont jamais enregistrées.
+ *      perceptualHashOfImage est l'unique calcul du dHash : la route
+ *      /api/gallery/image-hash l'utilise aussi pour les fichiers à importer.
+ *   3. createMediaVariant : transcode la vidéo avec le binaire ffmpeg
+ *      (FFMPEG_PATH, défaut "ffmpeg" dans le PATH) en MP4 H.264 / AAC,
+ *      l'uploade dans Supabase Storage et enregistre la MediaVariant.
+ *
+ *   ffmpeg est requis partout où tourne la route Inngest (absent des fonctions
+ *   Vercel : voir README, « Media processing »). Sans lui, l'erreur est enregistrée
+ *   sur Media (affichée sur la carte de la galerie) et la publication d'un post
+ *   dont la plateforme exige une variante échoue (publishScheduledPost).
+ *
+ * @example
+ *   const plans = await probeStoredMedia('clx123')
+ *   await hashStoredMedia('clx123')
+ *   for (const plan of plans) await createMediaVariant('clx123', plan)
+ */
+
+import { execFile } from 'node:child_process'
+import { createHash, randomUUID } from 'node:crypto'
+import { createWriteStream } from 'node:fs'
+import { readFile, rm, writeFile } from 'node:fs/promises'
+import { tmpdir } from 'node:os'
+import { join } from 'node:path'
+import { Readable } from 'node:stream'
+import { pipeline } from 'node:stream/promises'
+import { promisify } from 'node:util'
+
+import { prisma } from '@/lib/prisma'
+import { createServiceClient } from '@/lib/supabase/server'
+import { DHASH_HEIGHT, DHASH_WIDTH, dHashFromRgba } from '@/modules/media/utils/media-hash'
+import type { ByteReader } from '@/modules/media/utils/media-probe'
+import { probeMedia } from '@/modules/media/utils/media-probe'
+import { planVideoVariant } from '@/modules/platforms/config/media-specs'
+import type { VideoVariantPlan } from '@/modules/platforms/config/media-specs'
+import { PlatformEnum } from '@/modules/platforms/schemas/platform.schema'
+
+const execFileAsync = promisify(execFile)
+
+// ─── Constantes ───────────────────────────────────────────────────────────────
+
+/** Bucket Supabase Storage contenant les médias (et leurs variantes) */
+const MEDIA_BUCKET = 'post-media'
+
+/** Débit audio des variantes (kbit/s) */
+const AUDIO_BITRATE_KBPS = 128
+
+/** Marge sous la taille maximale (en-têtes du conteneur, écarts du débit) */
+const SIZE_SAFETY_RATIO = 0.9
+
+/**
+ * Durée maximale d'un transcodage (ms). Chaque step Inngest est une invocation
+ * de app/api/inngest/route.ts (maxDuration = 300 s) : le téléchargement et
+ * l'upload de la variante doivent tenir dans la marge restante.
+ */
+const FFMPEG_TIMEOUT_MS = 4 * 60 * 1000
+
+/** Durée maximale de la réduction d'une image pour son dHash (ms) */
+const DHASH_TIMEOUT_MS = 60 * 1000
+
+/** Binaire ffmpeg (transcodage des variantes, réduction des images) */
+const FFMPEG_BIN = process.env.FFMPEG_PATH ?? 'ffmpeg'
+
+// ─── Erreurs ──────────────────────────────────────────────────────────────────
+
+/**
+ * Le stockage a ignoré une requête Range (réponse 200 avec le fichier entier) :
+ * le sondage est abandonné plutôt que de télécharger la vidéo à chaque lecture.
+ */
+class RangeNotSupportedError extends Error {
+  constructor() {
+    super('Le stockage ne prend pas en charge les lectures partielles (HTTP Range)')
+    this.name = 'RangeNotSupportedError'
+  }
+}
+
+// ─── Helpers ──────────────────────────────────────────────────────────────────
+
+/**
+ * Lecteur d'octets d'un fichier distant via des requêtes HTTP Range.
+ *
+ * @param url - URL publique du fichier
+ * @returns Lecteur utilisable par probeMedia
+ * @throws RangeNotSupportedError si le serveur renvoie le fichier entier (200)
+ */
+function httpRangeReader(url: string): ByteReader {
+  return async (offset, length) => {
+    const response = await fetch(url, {
+      headers: { Range: `bytes=${offset}-${offset + length - 1}` },
+    })
+    if (!response.ok) {
+      throw new Error(`Lecture du média impossible (HTTP ${response.status})`)
+    }
+    if (response.status !== 206) {
+      // Corps = fichier entier : inutile de le télécharger
+      await response.body?.cancel()
+      throw new RangeNotSupportedError()
+    }
+    return new Uint8Array(await response.arrayBuffer())
+  }
+}
+
+/**
+ * SHA-256 d'un fichier distant, lu en flux (une vidéo peut peser jusqu'à 500 Mo).
+ *
+ * @param response - Réponse HTTP du fichier (corps non lu)
+ * @returns Empreinte hexadécimale
+ */
+async function sha256OfResponse(response: Response): Promise<string> {
+  const hash = createHash('sha256')
+  if (response.body) {
+    for await (const chunk of Readable.fromWeb(response.body as Parameters<typeof Readable.fromWeb>[0])) {
+      hash.update(chunk as Uint8Array)
+    }
+  }
+  return hash.digest('hex')
+}
+
+/**
+ * Arguments ffmpeg d'une variante : cadre centré (format imposé) ou réduction,
+ * débit calculé pour tenir sous la taille maximale si nécessaire.
+ */
+function ffmpegArgs(input: string, output: string, plan: VideoVariantPlan, durationMs: number | null): string[] {
+  const { width, height } = plan
+  const filter = plan.reasons.includes('aspect_ratio')
+    ? `scale=${width}:${height}:force_original_aspect_ratio=decrease,pad=${width}:${height}:(ow-iw)/2:(oh-ih)/2,setsar=1`
+    : `scale=${width}:${height},setsar=1`
+
+  let quality = ['-crf', '23']
+  if (plan.maxBytes && durationMs) {
+    const totalKbps = (plan.maxBytes * 8 * SIZE_SAFETY_RATIO) / durationMs
+    const videoKbps = Math.max(100, Math.floor(totalKbps - AUDIO_BITRATE_KBPS))
+    quality = ['-b:v', `${videoKbps}k`, '-maxrate', `${videoKbps}k`, '-bufsize', `${videoKbps * 2}k`]
+  }
+
+  return [
+    '-y', '-i', input,
+    '-vf', filter,
+    '-c:v', 'libx264', '-preset', 'veryfast', '-pix_fmt', 'yuv420p', ...quality,
+    '-c:a', 'aac', '-b:a', `${AUDIO_BITRATE_KBPS}k`,
+    '-movflags', '+faststart',
+    output,
+  ]
+}
+
+// ─── Traitement ───────────────────────────────────────────────────────────────
+
+/**
+ * dHash d'une image, réduite en 9×8 par ffmpeg. Seul calcul de l'empreinte
+ * perceptuelle : médias stockés et fichiers à importer passent par lui, leurs
+ * empreintes sont donc comparables bit à bit.
+ *
+ * @param bytes - Contenu de l'image
+ * @returns Empreinte, ou null si ffmpeg est absent ou l'image illisible
+ *
+ * @example
+ *   const hash = await perceptualHashOfImage(new Uint8Array(await file.arrayBuffer()))
+ *   // → 'f0e4c2d8b0a89c3e'
+ */
+export async function perceptualHashOfImage(bytes: Uint8Array): Promise<string | null> {
+  const input = join(tmpdir(), `${randomUUID()}-image`)
+  try {
+    await writeFile(input, bytes)
+    const { stdout } = await execFileAsync(
+      FFMPEG_BIN,
+      [
+        '-v', 'error', '-i', input, '-frames:v', '1',
+        '-vf', `scale=${DHASH_WIDTH}:${DHASH_HEIGHT}:flags=area,format=rgba`,
+        '-f', 'rawvideo', 'pipe:1',
+      ],
+      { encoding: 'buffer', timeout: DHASH_TIMEOUT_MS },
+    )
+    return dHashFromRgba(stdout)
+  } catch (err) {
+    if ((err as NodeJS.ErrnoException).code === 'ENOENT') {
+      console.error('[perceptualHashOfImage] ffmpeg introuvable (FFMPEG_PATH) — empreinte d\'image non calculée')
+    } else {
+      console.warn('[perceptualHashOfImage] Réduction de l\'image impossible :', err)
+    }
+    return null
+  } finally {
+    await rm(input, { force: true })
+  }
+}
+
+/**
+ * Sonde un média stocké et enregistre ses caractéristiques.
+ *
+ * @param mediaId - ID du média
+ * @returns Variantes à générer pour les plateformes connectées du workspace
+ *   (vide pour une image, une vidéo conforme ou un format illisible)
+ */
+export async function probeStoredMedia(mediaId: string): Promise<VideoVariantPlan[]> {
+  const media = await prisma.media.findUnique({
+    where: { id: mediaId },
+    select: { id: true, workspaceId: true, url: true, size: true },
+  })
+  if (!media) return []
+
+  let probe: Awaited<ReturnType<typeof probeMedia>>
+  try {
+    probe = await probeMedia(httpRangeReader(media.url), media.size)
+  } catch (err) {
+    // Erreur réseau → retry Inngest ; Range ignoré → définitif
+    if (!(err instanceof RangeNotSupportedError)) throw err
+    await prisma.media.update({
+      where: { id: mediaId },
+      data: { processingStatus: 'FAILED', processingError: err.message },
+    })
+    return []
+  }
+  if (!probe) {
+    await prisma.media.update({
+      where: { id: mediaId },
+      data: { processingStatus: 'FAILED', processingError: 'Format de fichier non reconnu' },
+    })
+    return []
+  }
+
+  await prisma.media.update({
+    where: { id: mediaId },
+    data: {
+      // Type réel : un .mov annoncé "video/mp4" par le navigateur est corrigé ici
+      mimeType: probe.mimeType,
+      width: probe.width,
+      height: probe.height,
+      durationMs: probe.durationMs,
+      codec: probe.codec,
+      processingStatus: 'READY',
+      processingError: null,
+    },
+  })
+  if (probe.kind !== 'video') return []
+
+  const accounts: { platform: string }[] = await prisma.connectedPlatform.findMany({
+    where: { workspaceId: media.workspaceId, isActive: true },
+    select: { platform: true },
+    distinct: ['platform'],
+  })
+
+  return accounts.flatMap(({ platform }) => {
+    const parsed = PlatformEnum.safeParse(platform)
+    const plan = parsed.success ? planVideoVariant(parsed.data, { ...probe, size: media.size }) : null
+    return plan ? [plan] : []
+  })
+}
+
+/**
+ * Calcule et enregistre les empreintes d'un média stocké (détection des doublons).
+ * À appeler après probeStoredMedia : le type MIME réel décide du dHash.
+ *
+ * @param mediaId - ID du média
+ * @returns Empreintes enregistrées, ou null si le média ou son fichier n'existent plus
+ * @throws Error si le fichier ne peut pas être lu (retry Inngest)
+ */
+export async function hashStoredMedia(
+  mediaId: string,
+): Promise<{ contentHash: string; perceptualHash: string | null } | null> {
+  const media = await prisma.media.findUnique({
+    where: { id: mediaId },
+    select: { id: true, url: true, mimeType: true },
+  })
+  if (!media) return null
+
+  const response = await fetch(media.url)
+  // Supabase répond 400 pour un objet absent d'un bucket public
+  if (response.status === 404 || response.status === 400) {
+    await response.body?.cancel()
+    await prisma.media.update({
+      where: { id: mediaId },
+      data: { processingStatus: 'FAILED', processingError: 'Fichier introuvable dans le stockage' },
+    })
+    return null
+  }
+  if (!response.ok) throw new Error(`Lecture du média impossible (HTTP ${response.status})`)
+
+  // Image : lue en entier pour sa réduction ; vidéo : SHA-256 en flux seulement
+  let hashes: { contentHash: string; perceptualHash: string | null }
+  if (media.mimeType.startsWith('image/')) {
+    const bytes = new Uint8Array(await response.arrayBuffer())
+    hashes = {
+      contentHash: createHash('sha256').update(bytes).digest('hex'),
+      perceptualHash: await perceptualHashOfImage(bytes),
+    }
+  } else {
+    hashes = { contentHash: await sha256OfResponse(response), perceptualHash: null }
+  }
+  await prisma.media.update({ where: { id: mediaId }, data: hashes })
+  return hashes
+}
+
+/**
+ * Génère, uploade et enregistre la variante d'une vidéo pour une plateforme.
+ * Une variante existante pour la plateforme est remplacée.
+ *
+ * @param mediaId - ID du média d'origine
+ * @param plan    - Variante à générer (voir probeStoredMedia)
+ * @returns URL de la variante, ou null si ffmpeg est absent du serveur
+ * @throws Error si le transcodage ou l'upload échoue (retry Inngest)
+ */
+export async function createMediaVariant(mediaId: string, plan: VideoVariantPlan): Promise<string | null> {
+  const media = await prisma.media.findUniqueOrThrow({
+    where: { id: mediaId },
+    select: { id: true, userId: true, url: true, durationMs: true },
+  })
+
+  const workDir = tmpdir()
+  const input = join(workDir, `${randomUUID()}-source`)
+  const output = join(workDir, `${randomUUID()}-${plan.platform}.mp4`)
+
+  try {
+    const response = await fetch(media.url)
+    if (!response.ok || !response.body) {
+      throw new Error(`Téléchargement du média impossible (HTTP ${response.status})`)
+    }
+    // Écrit au fil de l'eau : une vidéo peut peser jusqu'à 500 Mo
+    await pipeline(Readable.fromWeb(response.body as Parameters<typeof Readable.fromWeb>[0]), createWriteStream(input))
+
+    try {
+      await execFileAsync(
+        FFMPEG_BIN,
+        ffmpegArgs(input, output, plan, media.durationMs),
+        { timeout: FFMPEG_TIMEOUT_MS },
+      )
+    } catch (err) {
+      if ((err as NodeJS.ErrnoException).code !== 'ENOENT') throw err
+      // Pas de ffmpeg sur ce serveur : erreur affichée dans la galerie, la publication
+      // sur cette plateforme échouera tant que la variante manque
+      console.error('[createMediaVariant] ffmpeg introuvable (FFMPEG_PATH) — variante non générée')
+      await prisma.media.update({
+        where: { id: mediaId },
+        data: { processingError: 'Transcodage indisponible (ffmpeg introuvable sur le serveur)' },
+      })
+      return null
+    }
+
+    const file = await readFile(output)
+    const path = `${media.userId}/gallery/variants/${media.id}-${plan.platform}.mp4`
+    const supabase = createServiceClient()
+    const { error: uploadError } = await supabase.storage
+      .from(MEDIA_BUCKET)
+      .upload(path, file, { contentType: 'video/mp4', upsert: true })
+    if (uploadError) throw new Error(`Upload de la variante impossible : ${uploadError.message}`)
+
+    const { data: { publicUrl } } = supabase.storage.from(MEDIA_BUCKET).getPublicUrl(path)
+    const variant = {
+      url: publicUrl,
+      mimeType: 'video/mp4',
+      width: plan.width,
+      height: plan.height,
+      size: file.byteLength,
+    }
+    await prisma.mediaVariant.upsert({
+      where: { mediaId_platform: { mediaId, platform: plan.platform } },
+      create: { mediaId, platform: plan.platform, ...variant },
+      update: variant,
+    })
+    return publicUrl
+  } catch (err) {
+    await prisma.media.update({
+      where: { id: mediaId },
+      data: { processingError: `Variante ${plan.platform} : ${err instanceof Error ? err.message : String(err)}` },
+    })
+    throw err
+  } finally {
+    await Promise.all([rm(input, { force: true }), rm(output, { force: true })])
+  }
+}
@@ -0,0 +1,73 @@
+/**
+ * @file lib/media-usage.ts
+ * @description Graphe de références entre les médias et les posts.
+ *   Un post référence un média par son URL, dans `Post.mediaUrls` (post principal)
+ *   ou dans `Post.threadParts[].mediaUrls` (suite d'un thread). Le graphe est
+ *   calculé à partir de ces colonnes, source de vérité de la publication, plutôt
+ *   que maintenu dans une table de liaison à resynchroniser à chaque écriture d'un post.
+ *
+ *   Utilisé par la galerie (badge « N posts », garde-fou de suppression) et par le
+ *   nettoyage des fichiers orphelins (lib/media-cleanup.ts).
+ *
+ * @example
+ *   const usage = await getMediaUsage(workspace.id, media.map((m) => m.url))
+ *   usage.get(media[0].url) // → { postCount: 3, scheduledPostCount: 1 }
+ */
+
+import { prisma } from '@/lib/prisma'
+import type { MediaUsage } from '@/modules/media/types'
+import { summarizeMediaUsage } from '@/modules/media/utils/media-usage'
+
+// ─── Graphe média ↔ post ──────────────────────────────────────────────────────
+
+/**
+ * Utilisation de médias par les posts d'un workspace.
+ *
+ * @param workspaceId - Workspace des posts
+ * @param urls        - URLs des médias
+ * @returns Utilisation par URL (une entrée par URL demandée)
+ */
+export async function getMediaUsage(workspaceId: string, urls: string[]): Promise<Map<string, MediaUsage>> {
+  if (urls.length === 0) return new Map()
+
+  // Un couple (URL, post) par post qui utilise le média — le thread est une
+  // colonne JSON [{ text, mediaUrls }], interrogée par inclusion (@>)
+  const references: { url: string; status: string }[] = await prisma.$queryRaw`
+    SELECT u.url, p.status::text AS status
+    FROM unnest(${urls}::text[]) AS u(url)
+    JOIN posts p ON p."workspaceId" = ${workspaceId}
+      AND (
+        p."mediaUrls" @> ARRAY[u.url]
+        OR p."threadParts" @> jsonb_build_array(jsonb_build_object('mediaUrls', jsonb_build_array(u.url)))
+      )
+  `
+
+  return summarizeMediaUsage(urls, references)
+}
+
+/**
+ * URLs encore référencées en DB, tous workspaces confondus : médias de la galerie,
+ * variantes par plateforme, posts (thread compris) et révisions de posts
+ * (une révision restaurée remet ses médias dans le post).
+ *
+ * @param urls - URLs publiques de fichiers du bucket
+ * @returns Sous-ensemble des URLs référencées
+ */
+export async function findReferencedUrls(urls: string[]): Promise<Set<string>> {
+  if (urls.length === 0) return new Set()
+
+  const rows: { url: string }[] = await prisma.$queryRaw`
+    SELECT u.url
+    FROM unnest(${urls}::text[]) AS u(url)
+    WHERE EXISTS (SELECT 1 FROM media m WHERE m.url = u.url)
+      OR EXISTS (SELECT 1 FROM media_variants v WHERE v.url = u.url)
+      OR EXISTS (
+        SELECT 1 FROM posts p
+        WHERE p."mediaUrls" @> ARRAY[u.url]
+          OR p."threadParts" @> jsonb_build_array(jsonb_build_object('mediaUrls', jsonb_build_array(u.url)))
+      )
+      OR EXISTS (SELECT 1 FROM post_revisions r WHERE r."mediaUrls" @> ARRAY[u.url])
+  `
+
+  return new Set(rows.map((row) => row.url))
+}
@@ -0,0 +1,115 @@
+/**
+ * @file lib/media-variants.ts
+ * @description Résolution serveur des médias envoyés à getlate.dev pour une plateforme.
+ *   Un média de la galerie est remplacé par sa variante pour la plateforme
+ *   (MediaVariant : 9:16 pour TikTok, taille plafonnée pour X…) si elle existe,
+ *   avec son type MIME réel (sondé après l'upload). Un média absent de la galerie
+ *   garde son URL, avec un type MIME déduit de l'extension.
+ *
+ *   Une vidéo sondée qui ne respecte pas les exigences de la plateforme et n'a pas
+ *   encore de variante (plateforme connectée après l'upload, transcodage en échec)
+ *   est signalée par `missingVariant` : la publication la génère ou échoue.
+ *
+ *   Utilisé à la publication (publishScheduledPost).
+ *
+ * @example
+ *   const media = await resolvePublishMedia(post.workspaceId, post.platform, post.mediaUrls)
+ *   media['https://…/clip.mov'] // → { url: 'https://…/variants/clx1-tiktok.mp4', mimeType: 'video/mp4', durationMs: 32480 }
+ */
+
+import { prisma } from '@/lib/prisma'
+import { mimeTypeFromUrl } from '@/modules/media/utils/media-probe'
+import { planVideoVariant } from '@/modules/platforms/config/media-specs'
+import type { VideoVariantPlan } from '@/modules/platforms/config/media-specs'
+import { PlatformEnum } from '@/modules/platforms/schemas/platform.schema'
+
+// ─── Types ────────────────────────────────────────────────────────────────────
+
+/** Média effectivement publié à la place d'une URL du post */
+export interface PublishMedia {
+  /** URL publiée (variante de la plateforme ou original) */
+  url: string
+  /** Type MIME réel */
+  mimeType: string
+  /** Durée des vidéos sondées (null = image ou inconnue) */
+  durationMs: number | null
+  /** Variante exigée par la plateforme mais absente (null = original publiable) */
+  missingVariant: { mediaId: string; filename: string; plan: VideoVariantPlan } | null
+}
+
+interface GalleryMediaRecord {
+  id: string
+  url: string
+  filename: string
+  mimeType: string
+  size: number
+  width: number | null
+  height: number | null
+  durationMs: number | null
+  codec: string | null
+  processingStatus: string
+  variants: { url: string; mimeType: string }[]
+}
+
+// ─── Helpers ──────────────────────────────────────────────────────────────────
+
+/**
+ * Variante qu'exige la plateforme pour une vidéo de la galerie sans variante.
+ *
+ * @param platform - Plateforme de publication
+ * @param media    - Média sondé
+ * @returns Variante à générer, ou null (image, vidéo conforme ou non sondée)
+ */
+function missingVariantPlan(platform: string, media: GalleryMediaRecord): VideoVariantPlan | null {
+  if (media.processingStatus !== 'READY' || !media.mimeType.startsWith('video/')) return null
+  const parsed = PlatformEnum.safeParse(platform)
+  return parsed.success ? planVideoVariant(parsed.data, media) : null
+}
+
+// ─── Résolution ───────────────────────────────────────────────────────────────
+
+/**
+ * Médias à publier pour une plateforme, par URL d'origine.
+ *
+ * @param workspaceId - Workspace du post (galerie consultée)
+ * @param platform    - Plateforme de publication
+ * @param mediaUrls   - URLs des médias du post (thread compris)
+ * @returns Dictionnaire { [url d'origine]: média publié }
+ */
+export async function resolvePublishMedia(
+  workspaceId: string,
+  platform: string,
+  mediaUrls: string[],
+): Promise<Record<string, PublishMedia>> {
+  if (mediaUrls.length === 0) return {}
+
+  const galleryMedia: GalleryMediaRecord[] = await prisma.media.findMany({
+    where: { workspaceId, url: { in: mediaUrls } },
+    select: {
+      id: true,
+      url: true,
+      filename: true,
+      mimeType: true,
+      size: true,
+      width: true,
+      height: true,
+      durationMs: true,
+      codec: true,
+      processingStatus: true,
+      variants: { where: { platform }, select: { url: true, mimeType: true } },
+    },
+  })
+  const byUrl = new Map(galleryMedia.map((media) => [media.url, media]))
+
+  return Object.fromEntries(mediaUrls.map((url) => {
+    const media = byUrl.get(url)
+    const variant = media?.variants[0]
+    const plan = media && !variant ? missingVariantPlan(platform, media) : null
+    return [url, {
+      url: variant?.url ?? url,
+      mimeType: variant?.mimeType ?? media?.mimeType ?? mimeTypeFromUrl(url),
+      durationMs: media?.durationMs ?? null,
+      missingVariant: media && plan ? { mediaId: media.id, filename: media.filename, plan } : null,
+    }]
+  }))
+}
@@ -4,6 +4,7 @@
  *   Plunk est utilisé pour :
  *   - La vérification d'email lors de l'inscription
  *   - La réinitialisation de mot de passe
+ *   - Les invitations dans un workspace (équipe)
  *
  *   Les templates sont des composants React Email rendus en HTML côté serveur
  *   via @react-email/render, puis passés à plunk.emails.send({ body: html }).
@@ -21,6 +22,7 @@ import { render } from '@react-email/render'
 
 import { ResetPasswordEmail } from '@/emails/ResetPasswordEmail'
 import { VerificationEmail } from '@/emails/VerificationEmail'
+import { WorkspaceInvitationEmail } from '@/emails/WorkspaceInvitationEmail'
 
 // ─── Singleton ────────────────────────────────────────────────────────────────
 
@@ -41,6 +43,19 @@ interface EmailParams {
   name?: string
 }
 
+interface WorkspaceInvitationEmailParams {
+  /** Adresse invitée */
+  email: string
+  /** Lien d'acceptation (/api/workspaces/invitations/accept?token=...) */
+  url: string
+  /** Nom du workspace */
+  workspaceName: string
+  /** Nom de la personne qui invite (optionnel) */
+  inviterName?: string
+  /** Libellé du rôle attribué */
+  roleLabel: string
+}
+
 // ─── Envoi d'emails ───────────────────────────────────────────────────────────
 
 /**
@@ -104,3 +119,42 @@ export async function sendPasswordResetEmail({ email, url, name }: EmailParams):
     console.error('[Plunk] Échec envoi email de reset :', result)
   }
 }
+
+/**
+ * Envoie l'email d'invitation dans un workspace.
+ * Déclenché par inviteMember (section « Équipe » de /settings).
+ *
+ * @param params.email         - Adresse invitée
+ * @param params.url           - Lien d'acceptation avec token
+ * @param params.workspaceName - Nom du workspace
+ * @param params.inviterName   - Auteur de l'invitation (optionnel)
+ * @param params.roleLabel     - Rôle attribué (ex: "Éditeur")
+ *
+ * @example
+ *   await sendWorkspaceInvitationEmail({
+ *     email: 'alice@studio.fr',
+ *     url: 'https://ogolong.com/api/workspaces/invitations/accept?token=abc123',
+ *     workspaceName: 'Studio Lumen',
+ *     roleLabel: 'Éditeur',
+ *   })
+ */
+export async function sendWorkspaceInvitationEmail({
+  email,
+  url,
+  workspaceName,
+  inviterName,
+  roleLabel,
+}: WorkspaceInvitationEmailParams): Promise<void> {
+  // Rendu du template React Email en HTML statique
+  const html = await render(WorkspaceInvitationEmail({ url, workspaceName, inviterName, roleLabel }))
+
+  const result = await plunk.emails.send({
+    to: email,
+    subject: `Invitation à rejoindre ${workspaceName} — ogolong`,
+    body: html,
+  })
+
+  if (!result.success) {
+    console.error('[Plunk] Échec envoi email d\'invitation :', result)
+  }
+}
@@ -0,0 +1,35 @@
+/**
+ * @file lib/post-account.ts
+ * @description Résolution serveur du compte de publication d'un post.
+ *   Charge les comptes actifs du workspace puis délègue à resolveTargetAccount
+ *   (fonction pure, testée unitairement) le choix du ConnectedPlatform ciblé.
+ *
+ * @example
+ *   const target = await resolvePostAccount(workspace.id, 'instagram', body.connectedPlatformId)
+ *   if (!target.ok) return { success: false, error: target.error }
+ */
+
+import { prisma } from '@/lib/prisma'
+import { resolveTargetAccount } from '@/modules/posts/utils/account-target'
+import type { TargetAccountResolution } from '@/modules/posts/utils/account-target'
+
+/**
+ * Résout le compte connecté ciblé par un post du workspace.
+ * Le filtre workspaceId garantit qu'un ID de compte d'un autre workspace est refusé.
+ *
+ * @param workspaceId - Workspace du post
+ * @param platform    - Plateforme du post
+ * @param requestedId - Compte choisi explicitement (null/undefined si aucun)
+ * @returns Résolution réussie avec l'ID, ou erreur en français
+ */
+export async function resolvePostAccount(
+  workspaceId: string,
+  platform: string,
+  requestedId?: string | null,
+): Promise<TargetAccountResolution> {
+  const accounts: { id: string; platform: string }[] = await prisma.connectedPlatform.findMany({
+    where: { workspaceId, isActive: true },
+    select: { id: true, platform: true },
+  })
+  return resolveTargetAccount(accounts, platform, requestedId)
+}
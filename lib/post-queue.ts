@@ -0,0 +1,176 @@
+/**
+ * @file lib/post-queue.ts
+ * @description File de publication côté serveur (créneaux PostingSlot).
+ *   - reserveQueueSlot : prochain créneau libre d'une plateforme, sous verrou
+ *     transactionnel (deux ajouts simultanés n'obtiennent jamais le même créneau)
+ *   - repackQueue      : re-tasse la file quand un post en file libère son créneau
+ *     (suppression, déplanification, replanification manuelle)
+ *
+ *   La file et ses créneaux sont partagés par le workspace ; les heures des
+ *   créneaux suivent toujours le fuseau du workspace (Workspace.timezone),
+ *   quel que soit le membre à l'origine de l'opération.
+ *   Le calcul des créneaux reste dans modules/posts/utils/queue-slots.ts (pur).
+ *
+ * @example
+ *   const post = await prisma.$transaction(async (tx) => {
+ *     const slot = await reserveQueueSlot(tx, workspace.id, 'instagram')
+ *     return slot ? tx.post.create({ data: { ...data, scheduledFor: slot, isQueued: true } }) : null
+ *   })
+ *
+ *   await repackQueue(workspace.id, 'instagram')
+ */
+
+import { inngest } from '@/lib/inngest/client'
+import { prisma } from '@/lib/prisma'
+import { resolveTimezone } from '@/lib/timezone'
+import { packQueue, upcomingSlotTimes } from '@/modules/posts/utils/queue-slots'
+import type { QueuedPostTime, SlotDefinition } from '@/modules/posts/utils/queue-slots'
+
+/** Client transactionnel Prisma (callback de prisma.$transaction) */
+type TransactionClient = typeof prisma
+
+// ─── Helpers ──────────────────────────────────────────────────────────────────
+
+/**
+ * Verrou transactionnel par (workspace, plateforme), libéré au commit/rollback.
+ * Sérialise les attributions et re-tassements d'une même file.
+ * $executeRaw (et non $queryRaw) : pg_advisory_xact_lock retourne `void`.
+ *
+ * @param tx          - Client transactionnel
+ * @param workspaceId - Workspace de la file
+ * @param platform    - Plateforme de la file
+ */
+async function lockQueue(tx: TransactionClient, workspaceId: string, platform: string): Promise<void> {
+  await tx.$executeRaw`SELECT pg_advisory_xact_lock(hashtext(${`queue:${workspaceId}:${platform}`}))`
+}
+
+/**
+ * Créneaux hebdomadaires d'une plateforme.
+ *
+ * @param tx          - Client transactionnel
+ * @param workspaceId - Workspace des créneaux
+ * @param platform    - Plateforme
+ */
+async function findSlots(
+  tx: TransactionClient,
+  workspaceId: string,
+  platform: string,
+): Promise<SlotDefinition[]> {
+  return tx.postingSlot.findMany({
+    where: { workspaceId, platform },
+    select: { weekday: true, hour: true, minute: true },
+  })
+}
+
+/**
+ * Fuseau des créneaux du workspace.
+ *
+ * @param tx          - Client transactionnel
+ * @param workspaceId - Workspace de la file
+ * @returns Fuseau IANA (DEFAULT_TIMEZONE si non défini)
+ */
+async function findQueueTimezone(tx: TransactionClient, workspaceId: string): Promise<string> {
+  const workspace: { timezone: string | null } | null = await tx.workspace.findUnique({
+    where: { id: workspaceId },
+    select: { timezone: true },
+  })
+  return resolveTimezone(workspace?.timezone)
+}
+
+// ─── reserveQueueSlot ─────────────────────────────────────────────────────────
+
+/**
+ * Prochain créneau libre de la plateforme, à appeler DANS une transaction qui
+ * écrit ensuite le post (le verrou est tenu jusqu'au commit).
+ * Un créneau est pris dès qu'un post SCHEDULED de la plateforme est à cette date.
+ *
+ * @param tx            - Client transactionnel
+ * @param workspaceId   - Workspace de la file
+ * @param platform      - Plateforme du post
+ * @param excludePostId - Post replanifié (son créneau actuel ne compte pas comme pris)
+ * @returns Date du créneau, ou null si aucun créneau n'est défini / libre
+ */
+export async function reserveQueueSlot(
+  tx: TransactionClient,
+  workspaceId: string,
+  platform: string,
+  excludePostId?: string,
+): Promise<Date | null> {
+  await lockQueue(tx, workspaceId, platform)
+
+  const now = new Date()
+  const timezone = await findQueueTimezone(tx, workspaceId)
+  const slots = await findSlots(tx, workspaceId, platform)
+  const taken: { scheduledFor: Date }[] = await tx.post.findMany({
+    where: {
+      workspaceId,
+      platform,
+      status: 'SCHEDULED',
+      scheduledFor: { gt: now },
+      ...(excludePostId && { id: { not: excludePostId } }),
+    },
+    select: { scheduledFor: true },
+  })
+
+  const occupied = new Set(taken.map((post) => post.scheduledFor.getTime()))
+  return upcomingSlotTimes(slots, timezone, now, 1, occupied)[0] ?? null
+}
+
+// ─── repackQueue ──────────────────────────────────────────────────────────────
+
+/**
+ * Re-tasse la file d'une plateforme : les posts en file à venir reprennent, dans
+ * l'ordre, les premiers créneaux libres. Les posts déplacés sont reprogrammés
+ * dans Inngest ('post/cancel' puis 'post/schedule' + 'post/watchdog').
+ *
+ * Non-bloquant pour l'appelant : une erreur est journalisée et la file reste en l'état.
+ *
+ * @param workspaceId - Workspace de la file
+ * @param platform    - Plateforme dont un créneau vient de se libérer
+ * @returns Nombre de posts déplacés
+ */
+export async function repackQueue(workspaceId: string, platform: string): Promise<number> {
+  try {
+    const moves: QueuedPostTime[] = await prisma.$transaction(async (tx: TransactionClient) => {
+      await lockQueue(tx, workspaceId, platform)
+
+      const now = new Date()
+      const timezone = await findQueueTimezone(tx, workspaceId)
+      const slots = await findSlots(tx, workspaceId, platform)
+      const scheduled: { id: string; scheduledFor: Date; isQueued: boolean }[] = await tx.post.findMany({
+        where: { workspaceId, platform, status: 'SCHEDULED', scheduledFor: { gt: now } },
+        select: { id: true, scheduledFor: true, isQueued: true },
+      })
+
+      // Les posts planifiés à la main gardent leur date et bloquent leur créneau
+      const occupied = new Set(
+        scheduled.filter((post) => !post.isQueued).map((post) => post.scheduledFor.getTime()),
+      )
+      const pending = packQueue(scheduled.filter((post) => post.isQueued), slots, timezone, now, occupied)
+
+      for (const move of pending) {
+        await tx.post.update({ where: { id: move.id }, data: { scheduledFor: move.scheduledFor } })
+      }
+      return pending
+    })
+
+    if (moves.length > 0) {
+      try {
+        await inngest.send(moves.map((move) => ({ name: 'post/cancel', data: { postId: move.id } })))
+        await inngest.send(
+          moves.flatMap((move) => [
+            { name: 'post/schedule', data: { postId: move.id, scheduledFor: move.scheduledFor.toISOString() } },
+            { name: 'post/watchdog', data: { postId: move.id, scheduledFor: move.scheduledFor.toISOString() } },
+          ]),
+        )
+      } catch (inngestError) {
+        console.warn('[repackQueue] Inngest send échoué (non-bloquant) :', inngestError)
+      }
+    }
+
+    return moves.length
+  } catch (error) {
+    console.error('[repackQueue] Erreur :', error)
+    return 0
+  }
+}
@@ -0,0 +1,76 @@
+/**
+ * @file lib/post-review.ts
+ * @description Historique des posts côté serveur (table post_status_events).
+ *   - postEventCreate    : trace d'une transition, dans la même transaction que la mise à jour
+ *   - recordPostEvents   : enregistre plusieurs transitions / étapes de revue (auteur + horodatage)
+ *   - isApprovalRequired : le workspace exige-t-il une validation avant planification ?
+ *
+ *   Les règles de validation restent dans modules/posts/utils/post-review.ts (pur).
+ *
+ * @example
+ *   await prisma.$transaction([
+ *     prisma.post.update({ where: { id }, data: { status: 'PENDING_REVIEW' } }),
+ *     postEventCreate(prisma, { postId: id, actorId: userId, action: 'SUBMITTED', fromStatus: 'DRAFT', toStatus: 'PENDING_REVIEW' }),
+ *   ])
+ */
+
+import { prisma } from '@/lib/prisma'
+import type { Post, PostEventAction } from '@/modules/posts/types'
+
+/** Client Prisma (global ou transactionnel) */
+type DbClient = typeof prisma
+
+// ─── Types ────────────────────────────────────────────────────────────────────
+
+/** Évènement à enregistrer dans l'historique d'un post */
+export interface PostEventInput {
+  postId: string
+  /** Auteur — null pour une transition système (Inngest) */
+  actorId: string | null
+  action: PostEventAction
+  fromStatus?: Post['status'] | null
+  toStatus?: Post['status'] | null
+  /** Commentaire de revue ou motif du rejet */
+  comment?: string | null
+}
+
+// ─── Écriture ─────────────────────────────────────────────────────────────────
+
+/**
+ * Requête d'insertion d'un évènement, à placer dans un prisma.$transaction([...])
+ * avec la mise à jour du post (la transition et sa trace sont atomiques).
+ *
+ * @param db    - Client Prisma
+ * @param event - Évènement
+ * @returns PrismaPromise (non exécutée hors transaction tant qu'elle n'est pas attendue)
+ */
+export function postEventCreate(db: DbClient, event: PostEventInput): Promise<unknown> {
+  return db.postStatusEvent.create({ data: event })
+}
+
+/**
+ * Enregistre plusieurs évènements (actions groupées, transitions système).
+ *
+ * @param db     - Client Prisma
+ * @param events - Évènements (aucune requête si vide)
+ */
+export async function recordPostEvents(db: DbClient, events: PostEventInput[]): Promise<void> {
+  if (events.length === 0) return
+  await db.postStatusEvent.createMany({ data: events })
+}
+
+// ─── Lecture ──────────────────────────────────────────────────────────────────
+
+/**
+ * Validation avant planification activée pour le workspace (/settings, OWNER).
+ *
+ * @param workspaceId - Workspace du post
+ * @returns true si seuls les posts approuvés peuvent être planifiés
+ */
+export async function isApprovalRequired(workspaceId: string): Promise<boolean> {
+  const workspace: { requirePostApproval: boolean } | null = await prisma.workspace.findUnique({
+    where: { id: workspaceId },
+    select: { requirePostApproval: true },
+  })
+  return workspace?.requirePostApproval ?? false
+}
@@ -0,0 +1,90 @@
+/**
+ * @file lib/post-revisions.ts
+ * @description Révisions du contenu des posts côté serveur (table post_revisions).
+ *   Chaque modification du texte ou des médias (composer, agent IA, restauration)
+ *   enregistre la nouvelle version avec son origine, dans la même transaction
+ *   que la mise à jour du post.
+ *
+ *   Les posts n'ont pas de révision à leur création : lors de la première
+ *   modification, l'état d'origine est enregistré d'abord (daté de la dernière
+ *   mise à jour du post), pour qu'il reste restaurable.
+ *
+ * @example
+ *   await prisma.$transaction(async (tx: typeof prisma) => {
+ *     const updated = await tx.post.update({ where: { id }, data: { text } })
+ *     await recordPostRevision(tx, {
+ *       postId: id,
+ *       authorId: userId,
+ *       source: 'AGENT',
+ *       instruction,
+ *       before: existing,
+ *       after: updated,
+ *     })
+ *   })
+ */
+
+import { prisma } from '@/lib/prisma'
+import type { RevisionSource } from '@/modules/posts/types'
+import { hasContentChanged } from '@/modules/posts/utils/post-review'
+
+/** Client Prisma (global ou transactionnel) */
+type DbClient = typeof prisma
+
+// ─── Types ────────────────────────────────────────────────────────────────────
+
+/** Révision à enregistrer après une mise à jour du post */
+export interface PostRevisionInput {
+  postId: string
+  /** Auteur de la modification */
+  authorId: string
+  source: RevisionSource
+  /** Instruction donnée à l'agent (source AGENT) */
+  instruction?: string | null
+  /** Révision restaurée (source RESTORE) */
+  restoredFromId?: string | null
+  /** Contenu avant la mise à jour (updatedAt = date de l'état d'origine) */
+  before: { text: string; mediaUrls: string[]; updatedAt: Date }
+  /** Contenu après la mise à jour */
+  after: { text: string; mediaUrls: string[] }
+}
+
+// ─── Écriture ─────────────────────────────────────────────────────────────────
+
+/**
+ * Enregistre la nouvelle version du contenu d'un post. Sans changement de texte
+ * ni de médias (ex: simple replanification), rien n'est enregistré — sauf une
+ * restauration, toujours tracée.
+ *
+ * @param db    - Client Prisma (transactionnel de préférence)
+ * @param input - Révision
+ */
+export async function recordPostRevision(db: DbClient, input: PostRevisionInput): Promise<void> {
+  if (input.source !== 'RESTORE' && !hasContentChanged(input.before, input.after)) return
+
+  // Première modification : conserver l'état d'origine
+  const existingCount = await db.postRevision.count({ where: { postId: input.postId } })
+  if (existingCount === 0) {
+    await db.postRevision.create({
+      data: {
+        postId: input.postId,
+        authorId: null,
+        source: 'MANUAL',
+        text: input.before.text,
+        mediaUrls: input.before.mediaUrls,
+        createdAt: input.before.updatedAt,
+      },
+    })
+  }
+
+  await db.postRevision.create({
+    data: {
+      postId: input.postId,
+      authorId: input.authorId,
+      source: input.source,
+      text: input.after.text,
+      mediaUrls: input.after.mediaUrls,
+      instruction: input.instruction ?? null,
+      restoredFromId: input.restoredFromId ?? null,
+    },
+  })
+}
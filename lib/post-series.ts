@@ -0,0 +1,79 @@
+/**
+ * @file lib/post-series.ts
+ * @description Persistance des séries récurrentes (PostSeries) côté serveur.
+ *   Partagé par schedulePost (récurrence choisie dans le compositeur) et les
+ *   Server Actions de post-series.action.ts (post ou campagne entière).
+ *
+ *   Le calcul des occurrences reste dans modules/posts/utils/recurrence.ts (pur).
+ *
+ * @example
+ *   const seriesId = await applyRecurrence(workspace.id, session.user.id, [post.id], post.seriesId, rule)
+ */
+
+import { prisma } from '@/lib/prisma'
+import type { RecurrenceRule } from '@/modules/posts/schemas/post.schema'
+
+/**
+ * Attache, met à jour ou retire la récurrence d'un ensemble de posts.
+ *
+ * - rule fournie + série existante → la règle de la série est remplacée (réactivée si besoin)
+ * - rule fournie sans série        → nouvelle série, rattachée aux posts
+ * - rule null                      → série désactivée (plus d'occurrence matérialisée) et
+ *                                    posts non publiés détachés ; l'historique publié garde son lien
+ *
+ * Les posts doivent appartenir à `workspaceId` (ownership vérifié par l'appelant).
+ *
+ * @param workspaceId      - Workspace des posts
+ * @param userId           - Membre à l'origine de la série (auteur)
+ * @param postIds          - Posts concernés (un post, ou tous les posts d'une campagne)
+ * @param existingSeriesId - Série actuelle des posts (null si aucune)
+ * @param rule             - Nouvelle règle, ou null pour retirer la récurrence
+ * @returns ID de la série active, ou null si la récurrence a été retirée
+ */
+export async function applyRecurrence(
+  workspaceId: string,
+  userId: string,
+  postIds: string[],
+  existingSeriesId: string | null,
+  rule: RecurrenceRule | null,
+): Promise<string | null> {
+  if (rule === null) {
+    if (existingSeriesId) {
+      await prisma.$transaction([
+        prisma.postSeries.updateMany({
+          where: { id: existingSeriesId, workspaceId },
+          data: { isActive: false },
+        }),
+        prisma.post.updateMany({
+          where: { id: { in: postIds }, workspaceId, status: { not: 'PUBLISHED' } },
+          data: { seriesId: null },
+        }),
+      ])
+    }
+    return null
+  }
+
+  if (existingSeriesId) {
+    const updated = await prisma.postSeries.updateMany({
+      where: { id: existingSeriesId, workspaceId },
+      data: { rule, isActive: true },
+    })
+    if (updated.count > 0) {
+      await prisma.post.updateMany({
+        where: { id: { in: postIds }, workspaceId },
+        data: { seriesId: existingSeriesId },
+      })
+      return existingSeriesId
+    }
+  }
+
+  const series: { id: string } = await prisma.postSeries.create({
+    data: { userId, workspaceId, rule },
+    select: { id: true },
+  })
+  await prisma.post.updateMany({
+    where: { id: { in: postIds }, workspaceId },
+    data: { seriesId: series.id },
+  })
+  return series.id
+}
@@ -10,6 +10,7 @@
  *   - `ai`     : 10 req / 1 min  — create-posts, edit-post (coût Claude API)
  *   - `filter` : 30 req / 1 min  — posts/filter-ai (moins coûteux)
  *   - `upload` : 20 req / 1 min  — posts/upload-url (anti-abus Storage)
+ *   - `inbox`  : 30 req / 1 min  — inbox (lecture + réponses, quota API Late)
  *
  *   Usage dans une route API (après le check de session) :
  *   ```typescript
@@ -162,6 +163,8 @@ const LIMITS = {
   filter: { limit: 30, window: 60 },
   /** Génération d'URLs d'upload — anti-abus Storage */
   upload: { limit: 20, window: 60 },
+  /** Inbox (lecture + réponses via Late) — protège le quota API Late */
+  inbox: { limit: 30, window: 60 },
 } as const
 
 /**
@@ -202,6 +205,8 @@ export const rateLimiters = {
   filter: buildLimiter('filter'),
   /** Upload URLs — 20 req / 1 min (posts/upload-url) */
   upload: buildLimiter('upload'),
+  /** Inbox — 30 req / 1 min (GET /api/inbox, POST /api/inbox/[id]/reply) */
+  inbox: buildLimiter('inbox'),
 }
 
 // ─── Réponse 429 standardisée ─────────────────────────────────────────────────
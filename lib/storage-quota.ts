@@ -0,0 +1,133 @@
+/**
+ * @file lib/storage-quota.ts
+ * @description Quota de stockage par utilisateur, vérifié à l'émission des URLs
+ *   d'upload (/api/posts/upload-url, /api/gallery/upload-url, /api/user/avatar)
+ *   et affiché dans /settings (GET /api/user/storage).
+ *
+ *   Espace utilisé = tous les fichiers de l'utilisateur dans le Storage, taille lue
+ *   dans le Storage (pas dans la base, qui peut être faussée par le client) :
+ *   - bucket `post-media`, dossier `{userId}/` récursif : uploads du composer et de
+ *     l'agent, galerie (`gallery/`), variantes par plateforme (`gallery/variants/`)
+ *   - bucket `avatars`, dossier `{userId}/` : avatars successifs
+ *
+ *   Quota : `User.storageQuotaMb`, sinon la variable d'environnement STORAGE_QUOTA_MB,
+ *   sinon DEFAULT_STORAGE_QUOTA_MB (5 Go).
+ *
+ * @example
+ *   const quotaError = await checkStorageQuota(session.user.id, size)
+ *   if (quotaError) return NextResponse.json({ error: quotaError }, { status: 413 })
+ *
+ *   // À la confirmation d'un upload, avec la taille réellement stockée
+ *   const storedError = await checkStoredFileQuota(session.user.id, storedSize)
+ */
+
+import { listStorageFolder } from '@/lib/media-cleanup'
+import { prisma } from '@/lib/prisma'
+import { createServiceClient } from '@/lib/supabase/server'
+import type { StorageUsage } from '@/modules/media/types'
+import {
+  DEFAULT_STORAGE_QUOTA_MB,
+  storageQuotaError,
+  summarizeStorageUsage,
+} from '@/modules/media/utils/storage-quota'
+
+/** Octets par Mo */
+const BYTES_PER_MB = 1024 * 1024
+
+/** Bucket des avatars (créé à la demande par /api/user/avatar) */
+const AVATARS_BUCKET = 'avatars'
+
+// ─── Helpers ──────────────────────────────────────────────────────────────────
+
+/** Fichier stocké, décompté dans le quota */
+interface StoredFileSize {
+  mimeType: string
+  size: number
+}
+
+/**
+ * Fichiers d'un dossier et de ses sous-dossiers, avec type et taille.
+ *
+ * @param prefix - Dossier du bucket
+ * @param bucket - Bucket lu
+ * @returns Fichiers (les dossiers sont parcourus, pas comptés)
+ */
+async function listStoredFileSizes(prefix: string, bucket?: string): Promise<StoredFileSize[]> {
+  const files: StoredFileSize[] = []
+
+  for (const entry of await listStorageFolder(prefix, bucket)) {
+    if (entry.id === null) {
+      files.push(...await listStoredFileSizes(`${prefix}/${entry.name}`, bucket))
+      continue
+    }
+    files.push({ mimeType: entry.metadata?.mimetype ?? '', size: entry.metadata?.size ?? 0 })
+  }
+
+  return files
+}
+
+/**
+ * Avatars d'un utilisateur (aucun tant que le bucket n'a pas été créé).
+ *
+ * @param userId - Utilisateur
+ * @returns Fichiers du dossier `{userId}/` du bucket des avatars
+ */
+async function listAvatarFileSizes(userId: string): Promise<StoredFileSize[]> {
+  const { data: buckets, error } = await createServiceClient().storage.listBuckets()
+  if (error) throw new Error(`Lecture des buckets impossible : ${error.message}`)
+  if (!buckets?.some((b) => b.name === AVATARS_BUCKET)) return []
+
+  return listStoredFileSizes(userId, AVATARS_BUCKET)
+}
+
+// ─── Lecture ──────────────────────────────────────────────────────────────────
+
+/**
+ * Espace de stockage utilisé par un utilisateur, réparti par type.
+ *
+ * @param userId - Utilisateur
+ * @returns Utilisation et quota
+ * @throws Si le Storage ou la base ne répondent pas
+ */
+export async function getStorageUsage(userId: string): Promise<StorageUsage> {
+  const [user, mediaFiles, avatarFiles]: [
+    { storageQuotaMb: number | null } | null,
+    StoredFileSize[],
+    StoredFileSize[],
+  ] = await Promise.all([
+    prisma.user.findUnique({ where: { id: userId }, select: { storageQuotaMb: true } }),
+    listStoredFileSizes(userId),
+    listAvatarFileSizes(userId),
+  ])
+
+  const quotaMb = user?.storageQuotaMb ?? (Number(process.env.STORAGE_QUOTA_MB) || DEFAULT_STORAGE_QUOTA_MB)
+
+  return summarizeStorageUsage([...mediaFiles, ...avatarFiles], quotaMb * BYTES_PER_MB)
+}
+
+// ─── Vérification ─────────────────────────────────────────────────────────────
+
+/**
+ * Vérifie qu'un fichier tient dans le quota de l'utilisateur.
+ *
+ * @param userId - Utilisateur qui uploade
+ * @param size   - Taille du fichier (octets)
+ * @returns Message d'erreur, ou null si l'upload est autorisé
+ */
+export async function checkStorageQuota(userId: string, size: number): Promise<string | null> {
+  return storageQuotaError(await getStorageUsage(userId), size)
+}
+
+/**
+ * Vérifie, après upload, qu'un fichier déjà stocké tient dans le quota.
+ * Le fichier est décompté de l'espace utilisé puis ajouté avec sa taille réelle
+ * (celle annoncée à l'émission de l'URL signée n'engage pas le client).
+ *
+ * @param userId - Utilisateur qui a uploadé
+ * @param size   - Taille du fichier lue dans le Storage (octets)
+ * @returns Message d'erreur, ou null si le fichier peut être conservé
+ */
+export async function checkStoredFileQuota(userId: string, size: number): Promise<string | null> {
+  const usage = await getStorageUsage(userId)
+  return storageQuotaError({ ...usage, usedBytes: Math.max(usage.usedBytes - size, 0) }, size)
+}
@@ -0,0 +1,201 @@
+/**
+ * @file lib/timezone.ts
+ * @description Helpers de fuseau horaire (IANA) sans dépendance externe.
+ *   Utilisés côté serveur (prompts IA, bornes calendrier) et côté client
+ *   (DateTimePicker) pour raisonner dans le fuseau de l'utilisateur
+ *   (`User.timezone`) plutôt que dans celui du serveur ou du navigateur.
+ *
+ *   Toutes les conversions passent par Intl.DateTimeFormat : les règles DST
+ *   (heure d'été) sont donc celles du runtime, sans table maintenue à la main.
+ *
+ * @example
+ *   const tz = resolveTimezone(user.timezone)            // 'America/Montreal' ou défaut
+ *   const offset = formatUtcOffset(getTimezoneOffset(new Date(), tz)) // 'UTC-4'
+ *   const firstDay = zonedTimeToUtc({ year: 2026, month: 3, day: 1 }, tz)
+ */
+
+// ─── Constantes ───────────────────────────────────────────────────────────────
+
+/** Fuseau par défaut (utilisateurs sans fuseau enregistré) */
+export const DEFAULT_TIMEZONE = 'Europe/Paris'
+
+// ─── Types ────────────────────────────────────────────────────────────────────
+
+/** Composantes d'une date « murale » (heure affichée) dans un fuseau donné */
+export interface ZonedDateParts {
+  year: number
+  /** Mois 1-12 */
+  month: number
+  day: number
+  hour: number
+  minute: number
+  second: number
+}
+
+// ─── Validation ───────────────────────────────────────────────────────────────
+
+/**
+ * Vérifie qu'une chaîne est un identifiant de fuseau IANA reconnu par le runtime.
+ *
+ * @param timezone - Identifiant à tester (ex: 'Africa/Dakar')
+ * @returns true si Intl accepte le fuseau
+ *
+ * @example
+ *   isValidTimezone('America/Montreal') // → true
+ *   isValidTimezone('Paris')            // → false
+ */
+export function isValidTimezone(timezone: string): boolean {
+  if (!timezone) return false
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone: timezone })
+    return true
+  } catch {
+    return false
+  }
+}
+
+/**
+ * Retourne le fuseau à utiliser pour un utilisateur : le sien s'il est valide,
+ * sinon DEFAULT_TIMEZONE.
+ *
+ * @param timezone - Valeur de User.timezone (null si jamais détecté)
+ * @returns Identifiant IANA utilisable avec Intl
+ */
+export function resolveTimezone(timezone: string | null | undefined): string {
+  return timezone && isValidTimezone(timezone) ? timezone : DEFAULT_TIMEZONE
+}
+
+// ─── Conversions ──────────────────────────────────────────────────────────────
+
+/**
+ * Décompose un instant en date « murale » dans le fuseau donné.
+ *
+ * @param date - Instant à décomposer
+ * @param timezone - Fuseau IANA
+ * @returns Année, mois (1-12), jour, heure, minute, seconde locales
+ */
+export function getZonedParts(date: Date, timezone: string): ZonedDateParts {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone: timezone,
+    hourCycle: 'h23',
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+    second: '2-digit',
+  }).formatToParts(date)
+  const get = (type: Intl.DateTimeFormatPartTypes): number =>
+    Number(parts.find((p) => p.type === type)?.value ?? 0)
+
+  return {
+    year: get('year'),
+    month: get('month'),
+    day: get('day'),
+    hour: get('hour'),
+    minute: get('minute'),
+    second: get('second'),
+  }
+}
+
+/**
+ * Calcule le décalage UTC (en minutes) d'un fuseau à un instant donné.
+ * Positif à l'est de Greenwich : Paris l'hiver → 60, Montréal l'été → -240.
+ *
+ * @param date - Instant de référence (le décalage varie avec l'heure d'été)
+ * @param timezone - Fuseau IANA
+ * @returns Décalage en minutes
+ */
+export function getTimezoneOffset(date: Date, timezone: string): number {
+  const p = getZonedParts(date, timezone)
+  const asUtc = Date.UTC(p.year, p.month - 1, p.day, p.hour, p.minute, p.second)
+  // Les millisecondes sont ignorées par formatToParts → les retirer de la référence
+  const reference = date.getTime() - date.getMilliseconds()
+  return Math.round((asUtc - reference) / 60_000)
+}
+
+/**
+ * Formate un décalage en libellé lisible.
+ *
+ * @param offsetMinutes - Décalage en minutes (voir getTimezoneOffset)
+ * @returns 'UTC', 'UTC+1', 'UTC-4', 'UTC+5:30'
+ */
+export function formatUtcOffset(offsetMinutes: number): string {
+  if (offsetMinutes === 0) return 'UTC'
+  const sign = offsetMinutes > 0 ? '+' : '-'
+  const abs = Math.abs(offsetMinutes)
+  const hours = Math.floor(abs / 60)
+  const minutes = abs % 60
+  return `UTC${sign}${hours}${minutes ? `:${String(minutes).padStart(2, '0')}` : ''}`
+}
+
+/**
+ * Formate un décalage en suffixe ISO 8601.
+ *
+ * @param offsetMinutes - Décalage en minutes (voir getTimezoneOffset)
+ * @returns '+01:00', '-04:00', '+00:00'
+ */
+export function formatIsoOffset(offsetMinutes: number): string {
+  const sign = offsetMinutes >= 0 ? '+' : '-'
+  const abs = Math.abs(offsetMinutes)
+  return `${sign}${String(Math.floor(abs / 60)).padStart(2, '0')}:${String(abs % 60).padStart(2, '0')}`
+}
+
+/**
+ * Convertit une date « murale » exprimée dans un fuseau en instant UTC.
+ * Deux passes pour gérer correctement les jours de changement d'heure.
+ *
+ * @param parts - Composantes locales (heure/minute/seconde à 0 si omises)
+ * @param timezone - Fuseau IANA dans lequel les composantes sont exprimées
+ * @returns Instant correspondant
+ *
+ * @example
+ *   // 1er mars 2026 00:00 à Montréal (UTC-5) → 2026-03-01T05:00:00.000Z
+ *   zonedTimeToUtc({ year: 2026, month: 3, day: 1 }, 'America/Montreal')
+ */
+export function zonedTimeToUtc(
+  parts: Pick<ZonedDateParts, 'year' | 'month' | 'day'> & Partial<ZonedDateParts>,
+  timezone: string,
+): Date {
+  const asUtc = Date.UTC(
+    parts.year,
+    parts.month - 1,
+    parts.day,
+    parts.hour ?? 0,
+    parts.minute ?? 0,
+    parts.second ?? 0,
+  )
+  // 1re passe : décalage évalué à l'instant « naïf »
+  const firstGuess = asUtc - getTimezoneOffset(new Date(asUtc), timezone) * 60_000
+  // 2e passe : si un changement d'heure sépare les deux instants, corriger avec le bon décalage
+  const corrected = asUtc - getTimezoneOffset(new Date(firstGuess), timezone) * 60_000
+  return new Date(corrected)
+}
+
+/**
+ * Détecte le fuseau du navigateur (côté client uniquement).
+ *
+ * @returns Identifiant IANA, ou DEFAULT_TIMEZONE si indisponible
+ */
+export function detectBrowserTimezone(): string {
+  try {
+    return resolveTimezone(Intl.DateTimeFormat().resolvedOptions().timeZone)
+  } catch {
+    return DEFAULT_TIMEZONE
+  }
+}
+
+/**
+ * Liste des fuseaux IANA supportés par le runtime (sélecteur du profil).
+ * Inclut toujours `current` même si le runtime ne l'énumère pas.
+ *
+ * @param current - Fuseau actuellement enregistré
+ * @returns Identifiants triés alphabétiquement
+ */
+export function listTimezones(current?: string | null): string[] {
+  const supported =
+    typeof Intl.supportedValuesOf === 'function' ? Intl.supportedValuesOf('timeZone') : []
+  const all = new Set<string>([...supported, DEFAULT_TIMEZONE])
+  if (current && isValidTimezone(current)) all.add(current)
+  return [...all].sort()
+}
@@ -0,0 +1,102 @@
+/**
+ * @file lib/unsubscribe.ts
+ * @description Jetons signés de désinscription en un clic (liens dans les emails).
+ *
+ *   Le lien doit fonctionner sans session (client mail, autre appareil) :
+ *   le jeton embarque le userId, le type de notification et sa date d'expiration,
+ *   signés en HMAC-SHA256 avec BETTER_AUTH_SECRET. Aucun stockage en DB n'est nécessaire.
+ *   Un lien transféré ou retrouvé dans une vieille boîte mail cesse de fonctionner
+ *   après UNSUBSCRIBE_TOKEN_TTL_DAYS jours.
+ *
+ *   Format : base64url(`${userId}:${kind}:${expiresAt}`) + '.' + base64url(hmac)
+ *   (expiresAt en secondes Unix)
+ *
+ * @example
+ *   const token = createUnsubscribeToken(user.id, 'weekly-recap')
+ *   const url = `${baseUrl}/api/notifications/unsubscribe?token=${token}`
+ *
+ *   // Dans la route :
+ *   const payload = verifyUnsubscribeToken(token)
+ *   if (payload?.kind === 'weekly-recap') { ... }
+ */
+
+import { createHmac, timingSafeEqual } from 'node:crypto'
+
+// ─── Types ────────────────────────────────────────────────────────────────────
+
+/** Types de notifications désinscriptibles par lien (un par préférence NotificationPrefs) */
+export type UnsubscribeKind = 'weekly-recap'
+
+/** Contenu d'un jeton valide */
+export interface UnsubscribePayload {
+  userId: string
+  kind: UnsubscribeKind
+}
+
+const UNSUBSCRIBE_KINDS: readonly UnsubscribeKind[] = ['weekly-recap']
+
+/** Durée de validité d'un lien de désinscription (jours) */
+export const UNSUBSCRIBE_TOKEN_TTL_DAYS = 60
+
+// ─── Helpers ──────────────────────────────────────────────────────────────────
+
+/**
+ * Calcule la signature HMAC d'un payload.
+ *
+ * @param payload - Payload encodé en base64url
+ * @returns Signature base64url
+ * @throws Error si BETTER_AUTH_SECRET n'est pas défini (un jeton non signé serait falsifiable)
+ */
+function sign(payload: string): string {
+  const secret = process.env.BETTER_AUTH_SECRET
+  if (!secret) {
+    throw new Error('BETTER_AUTH_SECRET manquant — impossible de signer le lien de désinscription')
+  }
+  return createHmac('sha256', secret).update(payload).digest('base64url')
+}
+
+// ─── API publique ─────────────────────────────────────────────────────────────
+
+/**
+ * Crée un jeton de désinscription pour un utilisateur et un type de notification.
+ *
+ * @param userId - ID de l'utilisateur
+ * @param kind - Type de notification à désactiver
+ * @param now - Date d'émission (expiration à now + UNSUBSCRIBE_TOKEN_TTL_DAYS)
+ * @returns Jeton à placer dans le query param `token`
+ * @throws Error si BETTER_AUTH_SECRET n'est pas défini
+ */
+export function createUnsubscribeToken(userId: string, kind: UnsubscribeKind, now: Date = new Date()): string {
+  const expiresAt = Math.floor(now.getTime() / 1000) + UNSUBSCRIBE_TOKEN_TTL_DAYS * 24 * 60 * 60
+  const payload = Buffer.from(`${userId}:${kind}:${expiresAt}`).toString('base64url')
+  return `${payload}.${sign(payload)}`
+}
+
+/**
+ * Vérifie un jeton de désinscription.
+ *
+ * @param token - Jeton reçu dans l'URL
+ * @param now - Date de vérification
+ * @returns Payload si la signature est valide et le jeton non expiré, null sinon
+ * @throws Error si BETTER_AUTH_SECRET n'est pas défini (erreur de configuration,
+ *   à distinguer d'un lien invalide)
+ */
+export function verifyUnsubscribeToken(token: string, now: Date = new Date()): UnsubscribePayload | null {
+  const [payload, signature] = token.split('.')
+  if (!payload || !signature) return null
+
+  const expected = Buffer.from(sign(payload))
+  const received = Buffer.from(signature)
+  // Comparaison à temps constant (évite les attaques temporelles sur la signature)
+  if (expected.length !== received.length || !timingSafeEqual(expected, received)) {
+    return null
+  }
+
+  const [userId, kind, expiresAt] = Buffer.from(payload, 'base64url').toString().split(':')
+  if (!userId || !UNSUBSCRIBE_KINDS.includes(kind as UnsubscribeKind)) return null
+  // Jeton sans expiration (ancien format) ou expiré : lien à redemander
+  const expiresAtSeconds = Number(expiresAt)
+  if (!Number.isInteger(expiresAtSeconds) || expiresAtSeconds * 1000 <= now.getTime()) return null
+
+  return { userId, kind: kind as UnsubscribeKind }
+}
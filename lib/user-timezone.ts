@@ -0,0 +1,27 @@
+/**
+ * @file lib/user-timezone.ts
+ * @description Lecture serveur du fuseau horaire d'un utilisateur (User.timezone).
+ *   Séparé de lib/timezone.ts, importé côté client, pour ne pas embarquer Prisma
+ *   dans le bundle navigateur.
+ *
+ * @example
+ *   const timezone = await getUserTimezone(session.user.id) // 'Africa/Dakar'
+ */
+
+import { prisma } from '@/lib/prisma'
+import { resolveTimezone } from '@/lib/timezone'
+
+/**
+ * Retourne le fuseau IANA de l'utilisateur, ou DEFAULT_TIMEZONE s'il n'en a pas
+ * (pas encore détecté) ou si la valeur enregistrée est invalide.
+ *
+ * @param userId - ID de l'utilisateur
+ * @returns Identifiant IANA utilisable avec Intl
+ */
+export async function getUserTimezone(userId: string): Promise<string> {
+  const user = await prisma.user.findUnique({
+    where: { id: userId },
+    select: { timezone: true },
+  })
+  return resolveTimezone(user?.timezone)
+}
@@ -0,0 +1,100 @@
+/**
+ * @file lib/workspace.ts
+ * @description Workspace courant côté serveur (équipes).
+ *   Toutes les données métier (posts, comptes connectés, signatures, médias,
+ *   campagnes, séries, créneaux) sont filtrées par workspaceId : chaque Server
+ *   Action / Route Handler résout d'abord le workspace affiché et le rôle du membre.
+ *
+ *   - getWorkspaceContext     : workspace actif (User.activeWorkspaceId) + rôle
+ *   - createPersonalWorkspace : workspace personnel (inscription, ou filet si aucun)
+ *
+ *   Les règles par rôle restent dans modules/workspaces/utils/roles.ts (pur).
+ *
+ * @example
+ *   const workspace = await getWorkspaceContext(session.user.id)
+ *   const roleError = workspaceRoleError(workspace.role, 'EDITOR')
+ *   if (roleError) return { success: false, error: roleError }
+ *   await prisma.post.findMany({ where: { workspaceId: workspace.id } })
+ */
+
+import { prisma } from '@/lib/prisma'
+import type { WorkspaceRole } from '@/modules/workspaces/types'
+
+// ─── Types ────────────────────────────────────────────────────────────────────
+
+/** Workspace affiché pour l'utilisateur connecté */
+export interface WorkspaceContext {
+  id: string
+  name: string
+  /** Rôle de l'utilisateur dans ce workspace */
+  role: WorkspaceRole
+  /** Workspace Late (comptes sociaux partagés) — null tant qu'aucun compte n'est connecté */
+  lateWorkspaceId: string | null
+}
+
+// ─── Création ─────────────────────────────────────────────────────────────────
+
+/**
+ * Crée le workspace personnel d'un utilisateur (rôle OWNER) et l'affiche.
+ *
+ * @param userId - Utilisateur
+ * @param name   - Nom du workspace (ex: nom de l'utilisateur)
+ * @returns Contexte du workspace créé
+ */
+export async function createPersonalWorkspace(userId: string, name: string): Promise<WorkspaceContext> {
+  const workspace: { id: string; name: string } = await prisma.workspace.create({
+    data: {
+      name,
+      members: { create: { userId, role: 'OWNER' } },
+      activeUsers: { connect: { id: userId } },
+    },
+    select: { id: true, name: true },
+  })
+  return { ...workspace, role: 'OWNER', lateWorkspaceId: null }
+}
+
+// ─── Lecture ──────────────────────────────────────────────────────────────────
+
+/**
+ * Workspace affiché pour l'utilisateur : User.activeWorkspaceId s'il en est
+ * toujours membre, sinon son plus ancien workspace. Un utilisateur sans aucun
+ * workspace (retiré de tous) en reçoit un nouveau, personnel.
+ *
+ * @param userId - Utilisateur connecté
+ * @returns Workspace + rôle du membre
+ * @throws Si l'utilisateur n'existe pas
+ */
+export async function getWorkspaceContext(userId: string): Promise<WorkspaceContext> {
+  const user: {
+    name: string | null
+    email: string
+    activeWorkspaceId: string | null
+    memberships: {
+      role: WorkspaceRole
+      workspace: { id: string; name: string; lateWorkspaceId: string | null }
+    }[]
+  } | null = await prisma.user.findUnique({
+    where: { id: userId },
+    select: {
+      name: true,
+      email: true,
+      activeWorkspaceId: true,
+      memberships: {
+        select: {
+          role: true,
+          workspace: { select: { id: true, name: true, lateWorkspaceId: true } },
+        },
+        orderBy: { createdAt: 'asc' },
+      },
+    },
+  })
+  if (!user) throw new Error(`Utilisateur ${userId} introuvable`)
+
+  const membership = user.memberships.find((m) => m.workspace.id === user.activeWorkspaceId)
+    ?? user.memberships[0]
+  if (!membership) {
+    return createPersonalWorkspace(userId, user.name || user.email.split('@')[0])
+  }
+
+  return { ...membership.workspace, role: membership.role }
+}
@@ -0,0 +1,82 @@
+/**
+ * @file modules/audit/components/AuditEventItem.tsx
+ * @module audit
+ * @description Ligne du journal d'audit : action, entité, auteur, date et
+ *   champs modifiés (avant → après).
+ *   Utilisé par la page /audit (AuditLog) et l'historique d'un post (PostAuditHistory).
+ *
+ * @example
+ *   <AuditEventItem event={event} showEntity />
+ */
+
+import type { AuditEvent } from '@/modules/audit/types'
+import {
+  AUDIT_ACTION_LABELS,
+  AUDIT_ENTITY_LABELS,
+  auditActorLabel,
+  auditFieldLabel,
+  formatAuditValue,
+} from '@/modules/audit/utils/audit-labels'
+
+// ─── Props ────────────────────────────────────────────────────────────────────
+
+interface AuditEventItemProps {
+  event: AuditEvent
+  /** Affiche le type et le libellé de l'entité (inutile dans l'historique d'un post) */
+  showEntity?: boolean
+}
+
+// ─── Composant ────────────────────────────────────────────────────────────────
+
+/**
+ * Évènement du journal avec son diff.
+ */
+export function AuditEventItem({ event, showEntity = false }: AuditEventItemProps): React.JSX.Element {
+  const date = event.createdAt.toLocaleString('fr-FR', {
+    day: 'numeric',
+    month: 'short',
+    hour: '2-digit',
+    minute: '2-digit',
+  })
+
+  // Suppression : seul l'état précédent est utile, pas la liste des champs vidés
+  const changes = event.action === 'DELETED' ? [] : Object.entries(event.changes ?? {})
+
+  return (
+    <li className="text-xs">
+      <p className="text-muted-foreground">
+        <span className="font-medium text-foreground">{AUDIT_ACTION_LABELS[event.action]}</span>
+        {showEntity && (
+          <>
+            {' · '}
+            {AUDIT_ENTITY_LABELS[event.entityType]}
+            {event.entityLabel && <span className="text-foreground"> « {event.entityLabel} »</span>}
+          </>
+        )}
+        {' · '}
+        {auditActorLabel(event)} · {date}
+      </p>
+
+      {changes.length > 0 && (
+        <ul className="mt-1 space-y-0.5">
+          {changes.map(([field, change]) => (
+            <li key={field} className="break-words">
+              <span className="text-muted-foreground">{auditFieldLabel(field)} : </span>
+              {event.action === 'CREATED' ? (
+                <span>{formatAuditValue(field, change.after)}</span>
+              ) : (
+                <>
+                  <span className="text-muted-foreground line-through">
+                    {formatAuditValue(field, change.before)}
+                  </span>
+                  {' → '}
+                  <span>{formatAuditValue(field, change.after)}</span>
+                </>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+    </li>
+  )
+}
@@ -0,0 +1,136 @@
+/**
+ * @file modules/audit/components/AuditLog/index.tsx
+ * @module audit
+ * @description Journal d'audit du workspace actif (page /audit).
+ *   - Filtres : type d'entité, action, auteur (membre ou jobs système)
+ *   - Pagination par curseur via useInfiniteQuery + bouton « Charger plus »
+ *   - Chaque ligne affiche le diff avant / après (AuditEventItem)
+ *
+ * @example
+ *   // app/(dashboard)/audit/page.tsx
+ *   <AuditLog />
+ */
+
+'use client'
+
+import { useInfiniteQuery, useQuery } from '@tanstack/react-query'
+import { Loader2 } from 'lucide-react'
+import { useState } from 'react'
+
+import { Button } from '@/components/ui/button'
+import { AuditEventItem } from '@/modules/audit/components/AuditEventItem'
+import { auditQueryKeys, fetchAuditPage } from '@/modules/audit/queries/audit.queries'
+import type { AuditFilterValues } from '@/modules/audit/queries/audit.queries'
+import type { AuditAction, AuditEntityType } from '@/modules/audit/types'
+import { AUDIT_ACTION_LABELS, AUDIT_ENTITY_LABELS } from '@/modules/audit/utils/audit-labels'
+import { fetchWorkspaceMembers, workspaceQueryKeys } from '@/modules/workspaces/queries/workspaces.queries'
+
+// ─── Constantes ───────────────────────────────────────────────────────────────
+
+/** Classes des sélecteurs de filtre (select natif) */
+const SELECT_CLASSNAME =
+  'h-8 rounded-md border border-input bg-background px-2 text-xs focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring'
+
+/** Filtres initiaux : tout le journal */
+const EMPTY_FILTERS: AuditFilterValues = { entityType: '', action: '', actor: '' }
+
+// ─── Composant ────────────────────────────────────────────────────────────────
+
+/**
+ * Journal filtrable du workspace actif.
+ */
+export function AuditLog(): React.JSX.Element {
+  const [filters, setFilters] = useState<AuditFilterValues>(EMPTY_FILTERS)
+
+  const { data, isLoading, fetchNextPage, hasNextPage, isFetchingNextPage } = useInfiniteQuery({
+    queryKey: auditQueryKeys.list(filters),
+    queryFn: ({ pageParam }) => fetchAuditPage(filters, pageParam),
+    initialPageParam: undefined as string | undefined,
+    // nextCursor = null → dernière page
+    getNextPageParam: (lastPage) => lastPage.nextCursor ?? undefined,
+  })
+
+  // Membres du workspace pour le filtre « Auteur »
+  const { data: team } = useQuery({
+    queryKey: workspaceQueryKeys.members(),
+    queryFn: fetchWorkspaceMembers,
+  })
+
+  const events = data?.pages.flatMap((page) => page.events) ?? []
+
+  /** Met à jour un filtre (la queryKey change → retour à la page 1) */
+  const setFilter = <K extends keyof AuditFilterValues>(key: K, value: AuditFilterValues[K]): void => {
+    setFilters((current) => ({ ...current, [key]: value }))
+  }
+
+  return (
+    <div className="space-y-4">
+      {/* ── Filtres ── */}
+      <div className="flex flex-wrap items-center gap-2">
+        <select
+          value={filters.entityType}
+          onChange={(e) => setFilter('entityType', e.target.value as AuditEntityType | '')}
+          className={SELECT_CLASSNAME}
+          aria-label="Type d'élément"
+        >
+          <option value="">Tous les éléments</option>
+          {(Object.keys(AUDIT_ENTITY_LABELS) as AuditEntityType[]).map((entityType) => (
+            <option key={entityType} value={entityType}>{AUDIT_ENTITY_LABELS[entityType]}</option>
+          ))}
+        </select>
+
+        <select
+          value={filters.action}
+          onChange={(e) => setFilter('action', e.target.value as AuditAction | '')}
+          className={SELECT_CLASSNAME}
+          aria-label="Action"
+        >
+          <option value="">Toutes les actions</option>
+          {(Object.keys(AUDIT_ACTION_LABELS) as AuditAction[]).map((action) => (
+            <option key={action} value={action}>{AUDIT_ACTION_LABELS[action]}</option>
+          ))}
+        </select>
+
+        <select
+          value={filters.actor}
+          onChange={(e) => setFilter('actor', e.target.value)}
+          className={SELECT_CLASSNAME}
+          aria-label="Auteur"
+        >
+          <option value="">Tous les auteurs</option>
+          {team?.members.map((member) => (
+            <option key={member.userId} value={member.userId}>{member.name ?? member.email}</option>
+          ))}
+          <option value="system">Système (publication automatique)</option>
+        </select>
+      </div>
+
+      {/* ── Évènements ── */}
+      {isLoading ? (
+        <p className="text-sm text-muted-foreground">Chargement du journal…</p>
+      ) : events.length === 0 ? (
+        <p className="text-sm text-muted-foreground">Aucun évènement pour ces filtres.</p>
+      ) : (
+        <ol className="space-y-3 rounded-xl border border-border bg-card p-4">
+          {events.map((event) => (
+            <AuditEventItem key={event.id} event={event} showEntity />
+          ))}
+        </ol>
+      )}
+
+      {hasNextPage && (
+        <div className="flex justify-center">
+          <Button
+            variant="outline"
+            size="sm"
+            disabled={isFetchingNextPage}
+            onClick={() => void fetchNextPage()}
+          >
+            {isFetchingNextPage && <Loader2 className="size-4 animate-spin" />}
+            Charger plus
+          </Button>
+        </div>
+      )}
+    </div>
+  )
+}
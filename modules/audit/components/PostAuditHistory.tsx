@@ -0,0 +1,59 @@
+/**
+ * @file modules/audit/components/PostAuditHistory.tsx
+ * @module audit
+ * @description Historique des modifications d'un post (journal d'audit), affiché
+ *   dans PostDetailModal sous le panneau de revue : qui a modifié quoi et quand,
+ *   y compris les transitions faites par les jobs (publication, échec).
+ *
+ * @example
+ *   <PostAuditHistory postId={post.id} />
+ */
+
+'use client'
+
+import { useQuery } from '@tanstack/react-query'
+import { ScrollText } from 'lucide-react'
+
+import { AuditEventItem } from '@/modules/audit/components/AuditEventItem'
+import { auditQueryKeys, fetchAuditPage } from '@/modules/audit/queries/audit.queries'
+
+// ─── Props ────────────────────────────────────────────────────────────────────
+
+interface PostAuditHistoryProps {
+  postId: string
+}
+
+// ─── Composant ────────────────────────────────────────────────────────────────
+
+/**
+ * Dernières modifications d'un post (50 max, les plus récentes d'abord).
+ */
+export function PostAuditHistory({ postId }: PostAuditHistoryProps): React.JSX.Element {
+  const { data, isLoading } = useQuery({
+    queryKey: auditQueryKeys.entity('POST', postId),
+    queryFn: () => fetchAuditPage({ entityType: 'POST', entityId: postId, action: '', actor: '' }, undefined),
+  })
+
+  const events = data?.events ?? []
+
+  return (
+    <div className="mx-5 mb-4 space-y-3">
+      <span className="flex items-center gap-1.5 text-[11px] font-semibold uppercase tracking-widest text-muted-foreground/70">
+        <ScrollText className="size-3" />
+        Modifications
+      </span>
+
+      {isLoading ? (
+        <p className="text-xs text-muted-foreground">Chargement des modifications…</p>
+      ) : events.length === 0 ? (
+        <p className="text-xs text-muted-foreground">Aucune modification enregistrée.</p>
+      ) : (
+        <ol className="space-y-2 border-l border-border pl-3">
+          {events.map((event) => (
+            <AuditEventItem key={event.id} event={event} />
+          ))}
+        </ol>
+      )}
+    </div>
+  )
+}
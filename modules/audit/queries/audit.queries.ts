@@ -0,0 +1,78 @@
+/**
+ * @file modules/audit/queries/audit.queries.ts
+ * @module audit
+ * @description Clés et fetchers TanStack Query du journal d'audit.
+ *
+ * @example
+ *   import { auditQueryKeys, fetchAuditPage } from '@/modules/audit/queries/audit.queries'
+ *   useInfiniteQuery({
+ *     queryKey: auditQueryKeys.list(filters),
+ *     queryFn: ({ pageParam }) => fetchAuditPage(filters, pageParam),
+ *     initialPageParam: undefined as string | undefined,
+ *     getNextPageParam: (page) => page.nextCursor ?? undefined,
+ *   })
+ */
+
+import type { AuditAction, AuditEntityType, AuditPage } from '@/modules/audit/types'
+
+// ─── Filtres ──────────────────────────────────────────────────────────────────
+
+/** Filtres de la page /audit (chaîne vide = pas de filtre) */
+export interface AuditFilterValues {
+  entityType: AuditEntityType | ''
+  /** Entité précise (historique d'un post) */
+  entityId?: string
+  action: AuditAction | ''
+  /** ID d'un membre, « system » pour les jobs, ou vide */
+  actor: string
+}
+
+// ─── Clés ─────────────────────────────────────────────────────────────────────
+
+export const auditQueryKeys = {
+  /** Clé racine du module */
+  all: () => ['audit'] as const,
+
+  /** Journal filtré (les filtres font partie de la clé → retour à la page 1) */
+  list: (filters: AuditFilterValues) => ['audit', 'list', filters] as const,
+
+  /** Historique d'une entité (ex: un post dans PostDetailModal) */
+  entity: (entityType: AuditEntityType, entityId: string) =>
+    ['audit', 'entity', entityType, entityId] as const,
+}
+
+// ─── Fetchers ─────────────────────────────────────────────────────────────────
+
+/**
+ * Fetche une page du journal d'audit. Les dates JSON sont reconverties en Date.
+ *
+ * @param filters - Filtres actifs
+ * @param cursor  - ID du dernier évènement de la page précédente (absent = 1ère page)
+ * @returns Évènements + curseur de la page suivante
+ */
+export async function fetchAuditPage(
+  filters: AuditFilterValues,
+  cursor: string | undefined,
+): Promise<AuditPage> {
+  const params = new URLSearchParams()
+  if (filters.entityType) params.set('entityType', filters.entityType)
+  if (filters.entityId) params.set('entityId', filters.entityId)
+  if (filters.action) params.set('action', filters.action)
+  if (filters.actor) params.set('actor', filters.actor)
+  if (cursor) params.set('cursor', cursor)
+
+  const response = await fetch(`/api/audit?${params.toString()}`)
+
+  if (!response.ok) {
+    throw new Error(`Erreur lors du chargement du journal : ${response.statusText}`)
+  }
+
+  const raw = (await response.json()) as AuditPage
+  return {
+    ...raw,
+    events: raw.events.map((event) => ({
+      ...event,
+      createdAt: new Date(event.createdAt as unknown as string),
+    })),
+  }
+}
@@ -0,0 +1,32 @@
+/**
+ * @file modules/audit/schemas/audit.schema.ts
+ * @module audit
+ * @description Schéma Zod des filtres du journal d'audit (query params de GET /api/audit).
+ *   Paramètre absent ou vide = pas de filtre.
+ *
+ * @example
+ *   AuditFilterSchema.parse({ entityType: 'POST', entityId: 'post_abc' })
+ */
+
+import { z } from 'zod'
+
+/** Chaîne vide (select « Tous ») → filtre absent */
+const emptyToUndefined = (value: unknown): unknown => (value === '' ? undefined : value)
+
+export const AuditFilterSchema = z.object({
+  entityType: z.preprocess(
+    emptyToUndefined,
+    z.enum(['POST', 'POST_GROUP', 'CONNECTED_PLATFORM', 'MEDIA', 'MEDIA_FOLDER', 'SIGNATURE']).optional(),
+  ),
+  entityId: z.preprocess(emptyToUndefined, z.string().optional()),
+  action: z.preprocess(
+    emptyToUndefined,
+    z.enum(['CREATED', 'UPDATED', 'STATUS_CHANGED', 'DELETED']).optional(),
+  ),
+  /** Membre (ID utilisateur) ou « system » pour les jobs */
+  actor: z.preprocess(emptyToUndefined, z.string().optional()),
+  cursor: z.preprocess(emptyToUndefined, z.string().optional()),
+  limit: z.coerce.number().int().min(1).max(100).default(50),
+})
+
+export type AuditFilters = z.infer<typeof AuditFilterSchema>
@@ -0,0 +1,62 @@
+/**
+ * @file modules/audit/types.ts
+ * @module audit
+ * @description Types TypeScript du journal d'audit (table audit_events).
+ *   Chaque mutation d'un post, d'une campagne, d'un compte connecté, d'un média,
+ *   d'un dossier de la galerie ou d'une signature est tracée : auteur (membre ou job système), entité,
+ *   action et diff avant / après. Le journal est en ajout seul.
+ *
+ * @example
+ *   const event: AuditEvent = {
+ *     id: 'aud_abc',
+ *     actorType: 'USER',
+ *     actorId: 'usr_123',
+ *     actorLabel: 'Marie',
+ *     entityType: 'POST',
+ *     entityId: 'post_456',
+ *     entityLabel: 'Lancement de la collection…',
+ *     action: 'STATUS_CHANGED',
+ *     changes: { status: { before: 'DRAFT', after: 'SCHEDULED' } },
+ *     createdAt: new Date(),
+ *   }
+ */
+
+// ─── Types de domaine ──────────────────────────────────────────────────────────
+
+/** Auteur d'un évènement (enum Prisma AuditActorType) */
+export type AuditActorType = 'USER' | 'SYSTEM'
+
+/** Entité concernée (enum Prisma AuditEntityType) */
+export type AuditEntityType = 'POST' | 'POST_GROUP' | 'CONNECTED_PLATFORM' | 'MEDIA' | 'MEDIA_FOLDER' | 'SIGNATURE'
+
+/**
+ * Nature de l'évènement (enum Prisma AuditAction).
+ * STATUS_CHANGED : transition de statut seule (planification, publication, échec…)
+ */
+export type AuditAction = 'CREATED' | 'UPDATED' | 'STATUS_CHANGED' | 'DELETED'
+
+/** Valeurs avant / après de chaque champ modifié (null = absent avant création / après suppression) */
+export type AuditChanges = Record<string, { before: unknown; after: unknown }>
+
+/** Évènement du journal, tel qu'affiché dans /audit et l'historique d'un post */
+export interface AuditEvent {
+  id: string
+  actorType: AuditActorType
+  actorId: string | null
+  /** Nom du membre ou identifiant du job au moment de l'action */
+  actorLabel: string | null
+  entityType: AuditEntityType
+  entityId: string
+  /** Libellé lisible de l'entité (extrait du texte, nom du compte, fichier…) */
+  entityLabel: string | null
+  action: AuditAction
+  changes: AuditChanges | null
+  createdAt: Date
+}
+
+/** Page de résultats de GET /api/audit (pagination par curseur) */
+export interface AuditPage {
+  events: AuditEvent[]
+  /** ID du dernier évènement de la page, ou null si dernière page */
+  nextCursor: string | null
+}
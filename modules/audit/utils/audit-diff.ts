@@ -0,0 +1,79 @@
+/**
+ * @file modules/audit/utils/audit-diff.ts
+ * @module audit
+ * @description Calcul du diff avant / après d'un évènement d'audit (fonctions pures).
+ *   Les dates sont comparées et stockées en ISO ; les tableaux (mediaUrls)
+ *   sont comparés par valeur, dans l'ordre.
+ *
+ * @example
+ *   auditDiff({ status: 'DRAFT', text: 'A' }, { status: 'SCHEDULED', text: 'A' })
+ *   // → { status: { before: 'DRAFT', after: 'SCHEDULED' } }
+ */
+
+import type { AuditChanges } from '@/modules/audit/types'
+
+/** État d'une entité à un instant donné (champs suivis par l'audit) */
+export type AuditSnapshot = Record<string, unknown>
+
+/**
+ * Valeur sérialisable en JSON (Date → ISO, undefined → null).
+ *
+ * @param value - Valeur d'un champ
+ * @returns Valeur normalisée
+ */
+function normalize(value: unknown): unknown {
+  if (value instanceof Date) return value.toISOString()
+  if (Array.isArray(value)) return value.map(normalize)
+  return value ?? null
+}
+
+/**
+ * Champs modifiés entre deux états.
+ * - before null (création) : tous les champs de after, before = null
+ * - after null (suppression) : tous les champs de before, after = null
+ * - sinon : seuls les champs présents des deux côtés et différents
+ *   (un champ non relu d'un côté n'est pas considéré comme modifié)
+ *
+ * @param before - État avant la mutation (null = création)
+ * @param after  - État après la mutation (null = suppression)
+ * @returns Diff, ou null si rien n'a changé
+ *
+ * @example
+ *   auditDiff(null, { text: 'Bonjour' })
+ *   // → { text: { before: null, after: 'Bonjour' } }
+ */
+export function auditDiff(before: AuditSnapshot | null, after: AuditSnapshot | null): AuditChanges | null {
+  const changes: AuditChanges = {}
+
+  if (!before || !after) {
+    const snapshot = before ?? after ?? {}
+    for (const [field, value] of Object.entries(snapshot)) {
+      if (value === undefined) continue
+      changes[field] = before
+        ? { before: normalize(value), after: null }
+        : { before: null, after: normalize(value) }
+    }
+  } else {
+    for (const field of Object.keys(after)) {
+      if (!(field in before) || after[field] === undefined) continue
+      const previous = normalize(before[field])
+      const next = normalize(after[field])
+      if (JSON.stringify(previous) !== JSON.stringify(next)) {
+        changes[field] = { before: previous, after: next }
+      }
+    }
+  }
+
+  return Object.keys(changes).length > 0 ? changes : null
+}
+
+/**
+ * Libellé court d'un texte pour le journal (première ligne, 60 caractères max).
+ *
+ * @param text - Texte d'un post ou d'une signature
+ * @returns Extrait, ex: "Lancement de la nouvelle collection…"
+ */
+export function auditExcerpt(text: string): string {
+  const firstLine = text.trim().split('\n')[0] ?? ''
+  return firstLine.length > 60 ? `${firstLine.slice(0, 59)}…` : firstLine
+}
@@ -0,0 +1,117 @@
+/**
+ * @file modules/audit/utils/audit-labels.ts
+ * @module audit
+ * @description Libellés français du journal d'audit (entités, actions, champs)
+ *   et mise en forme des valeurs d'un diff pour l'affichage.
+ *   Partagé par la page /audit et l'historique d'un post (PostDetailModal).
+ *
+ * @example
+ *   formatAuditValue('status', 'SCHEDULED') // → 'Planifié'
+ *   formatAuditValue('mediaUrls', ['a', 'b']) // → '2 médias'
+ */
+
+import type { AuditAction, AuditEntityType, AuditEvent } from '@/modules/audit/types'
+import type { Post } from '@/modules/posts/types'
+import { STATUS_LABELS } from '@/modules/posts/utils/status-styles'
+
+// ─── Libellés ─────────────────────────────────────────────────────────────────
+
+/** Libellé d'un type d'entité */
+export const AUDIT_ENTITY_LABELS: Record<AuditEntityType, string> = {
+  POST: 'Post',
+  POST_GROUP: 'Campagne',
+  CONNECTED_PLATFORM: 'Compte connecté',
+  MEDIA: 'Média',
+  MEDIA_FOLDER: 'Dossier de médias',
+  SIGNATURE: 'Signature',
+}
+
+/** Libellé d'une action */
+export const AUDIT_ACTION_LABELS: Record<AuditAction, string> = {
+  CREATED: 'Création',
+  UPDATED: 'Modification',
+  STATUS_CHANGED: 'Changement de statut',
+  DELETED: 'Suppression',
+}
+
+/** Libellé des champs suivis (clé inconnue → nom brut du champ) */
+const FIELD_LABELS: Record<string, string> = {
+  text: 'Texte',
+  platform: 'Plateforme',
+  status: 'Statut',
+  scheduledFor: 'Date de publication',
+  connectedPlatformId: 'Compte',
+  mediaUrls: 'Médias',
+  groupId: 'Campagne',
+  instruction: 'Instruction',
+  accountName: 'Nom du compte',
+  avatarUrl: 'Avatar',
+  isActive: 'Actif',
+  filename: 'Fichier',
+  mimeType: 'Type',
+  size: 'Taille',
+  url: 'URL',
+  altText: 'Texte alternatif',
+  tags: 'Tags',
+  folder: 'Dossier',
+  name: 'Nom',
+  isDefault: 'Par défaut',
+}
+
+/** Longueur maximale d'une valeur texte affichée dans un diff */
+const MAX_VALUE_LENGTH = 80
+
+// ─── Mise en forme ────────────────────────────────────────────────────────────
+
+/**
+ * Libellé d'un champ modifié.
+ *
+ * @param field - Nom du champ (clé du diff)
+ * @returns Libellé français, ex: "Date de publication"
+ */
+export function auditFieldLabel(field: string): string {
+  return FIELD_LABELS[field] ?? field
+}
+
+/**
+ * Valeur d'un champ telle qu'affichée dans un diff.
+ *
+ * @param field - Nom du champ
+ * @param value - Valeur JSON stockée (dates en ISO)
+ * @returns Texte lisible, "—" si absente
+ */
+export function formatAuditValue(field: string, value: unknown): string {
+  if (value === null || value === undefined || value === '') return '—'
+  if (typeof value === 'boolean') return value ? 'Oui' : 'Non'
+  if (field === 'tags' && Array.isArray(value)) return value.length > 0 ? value.join(', ') : '—'
+  if (Array.isArray(value)) {
+    return `${value.length} média${value.length > 1 ? 's' : ''}`
+  }
+  if (field === 'status' && typeof value === 'string' && value in STATUS_LABELS) {
+    return STATUS_LABELS[value as Post['status']]
+  }
+  if (field === 'scheduledFor' && typeof value === 'string') {
+    return new Date(value).toLocaleString('fr-FR', {
+      day: 'numeric',
+      month: 'short',
+      hour: '2-digit',
+      minute: '2-digit',
+    })
+  }
+
+  const text = String(value)
+  return text.length > MAX_VALUE_LENGTH ? `${text.slice(0, MAX_VALUE_LENGTH - 1)}…` : text
+}
+
+/**
+ * Auteur d'un évènement tel qu'affiché.
+ *
+ * @param event - Évènement du journal
+ * @returns Nom du membre, ou "Système (job)" pour un job Inngest
+ */
+export function auditActorLabel(event: Pick<AuditEvent, 'actorType' | 'actorLabel'>): string {
+  if (event.actorType === 'SYSTEM') {
+    return event.actorLabel ? `Système (${event.actorLabel})` : 'Système'
+  }
+  return event.actorLabel ?? 'Membre'
+}
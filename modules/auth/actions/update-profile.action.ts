@@ -3,10 +3,12 @@
  * @module auth
  * @description Server Actions pour la gestion du profil utilisateur.
  *
- *   - `updateProfile`    : met à jour le nom et la description via Prisma
+ *   - `updateProfile`    : met à jour le nom, la description et le fuseau horaire via Prisma
  *   - `updateAvatarUrl`  : enregistre l'URL publique de l'avatar après upload Supabase
+ *   - `detectTimezone`   : enregistre le fuseau du navigateur si aucun n'est encore défini
+ *                          (utilisateur, et file de publication des workspaces qu'il possède)
  *
- *   Les deux actions :
+ *   Les actions :
  *   1. Vérifient la session better-auth (non authentifié → erreur)
  *   2. Mettent à jour uniquement l'utilisateur courant (pas d'accès cross-user)
  *   3. Revalidate `/profile` pour rafraîchir le Server Component
@@ -24,6 +26,7 @@ import { revalidatePath } from 'next/cache'
 
 import { auth } from '@/lib/auth'
 import { prisma } from '@/lib/prisma'
+import { isValidTimezone } from '@/lib/timezone'
 import { ProfileUpdateSchema } from '@/modules/auth/schemas/profile.schema'
 import type { ProfileUpdateData } from '@/modules/auth/schemas/profile.schema'
 
@@ -38,7 +41,7 @@ interface ActionResult {
 // ─── Actions ──────────────────────────────────────────────────────────────────
 
 /**
- * Met à jour le nom et la description du profil de l'utilisateur courant.
+ * Met à jour le nom, la description et le fuseau horaire du profil de l'utilisateur courant.
  * Valide les données avec Zod avant toute modification en base.
  *
  * @param data - Données du formulaire (nom + description optionnelle)
@@ -66,6 +69,8 @@ export async function updateProfile(data: ProfileUpdateData): Promise<ActionResu
         name: result.data.name,
         // null si description vide ou absente (nettoie la valeur précédente)
         description: result.data.description ?? null,
+        // Fuseau absent → valeur existante conservée
+        ...(result.data.timezone && { timezone: result.data.timezone }),
       },
     })
   } catch (err) {
@@ -113,3 +118,45 @@ export async function updateAvatarUrl(avatarUrl: string): Promise<ActionResult>
   revalidatePath('/profile')
   return { success: true }
 }
+
+/**
+ * Enregistre le fuseau horaire détecté par le navigateur, uniquement si
+ * l'utilisateur n'en a pas encore (première connexion). Un fuseau choisi
+ * manuellement dans /profile n'est jamais écrasé.
+ * Les workspaces possédés par l'utilisateur sans fuseau (workspace personnel créé
+ * à l'inscription) le reçoivent aussi : il fixe l'heure des créneaux de leur file.
+ *
+ * @param timezone - Fuseau IANA du navigateur (Intl.DateTimeFormat().resolvedOptions().timeZone)
+ * @returns `{ success: true }` ou `{ success: false, error: string }`
+ *
+ * @example
+ *   await detectTimezone('America/Montreal')
+ */
+export async function detectTimezone(timezone: string): Promise<ActionResult> {
+  // ── Vérification de la session ─────────────────────────────────────────────
+  const session = await auth.api.getSession({ headers: await headers() })
+  if (!session?.user) return { success: false, error: 'Non authentifié' }
+
+  if (!isValidTimezone(timezone)) {
+    return { success: false, error: 'Fuseau horaire invalide' }
+  }
+
+  // ── Mise à jour conditionnelle (timezone IS NULL) ──────────────────────────
+  try {
+    await prisma.$transaction([
+      prisma.user.updateMany({
+        where: { id: session.user.id, timezone: null },
+        data: { timezone },
+      }),
+      prisma.workspace.updateMany({
+        where: { timezone: null, members: { some: { userId: session.user.id, role: 'OWNER' } } },
+        data: { timezone },
+      }),
+    ])
+  } catch (err) {
+    console.error('[detectTimezone] Erreur Prisma :', err)
+    return { success: false, error: 'Erreur lors de l\'enregistrement du fuseau horaire' }
+  }
+
+  return { success: true }
+}
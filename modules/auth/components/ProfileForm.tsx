@@ -7,10 +7,11 @@
  *   1. Photo de profil — avatar cliquable avec upload direct Supabase Storage
  *      via /api/user/avatar (presigned URL) + Server Action updateAvatarUrl
  *   2. Informations — nom complet + email (lecture seule) + description
+ *      + fuseau horaire (utilisé par les agents IA, le calendrier et le DateTimePicker)
  *
  *   Architecture :
  *   - Client Component : gestion des états (upload, sauvegarde, erreurs)
- *   - Server Action `updateProfile` : validation Zod + Prisma (nom + description)
+ *   - Server Action `updateProfile` : validation Zod + Prisma (nom + description + fuseau)
  *   - Server Action `updateAvatarUrl` : persistance URL avatar après upload
  *
  *   Upload avatar :
@@ -29,14 +30,20 @@
 'use client'
 
 import { useQueryClient } from '@tanstack/react-query'
-import { Camera, Loader2, Save } from 'lucide-react'
-import { useRef, useState } from 'react'
+import { Camera, Loader2, LocateFixed, Save } from 'lucide-react'
+import { useMemo, useRef, useState } from 'react'
 
 import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar'
 import { Button } from '@/components/ui/button'
 import { Input } from '@/components/ui/input'
 import { Label } from '@/components/ui/label'
 import { Textarea } from '@/components/ui/textarea'
+import {
+  DEFAULT_TIMEZONE,
+  detectBrowserTimezone,
+  isValidTimezone,
+  listTimezones,
+} from '@/lib/timezone'
 import { updateAvatarUrl, updateProfile } from '@/modules/auth/actions/update-profile.action'
 
 // ─── Types ────────────────────────────────────────────────────────────────────
@@ -49,6 +56,8 @@ export interface UserProfile {
   avatarUrl: string | null
   image: string | null       // Photo OAuth Google
   description: string | null
+  /** Fuseau horaire IANA — null si pas encore détecté */
+  timezone: string | null
 }
 
 interface ProfileFormProps {
@@ -91,6 +100,11 @@ export function ProfileForm({ profile }: ProfileFormProps): React.JSX.Element {
   // ── États du formulaire ───────────────────────────────────────────────────
   const [name, setName] = useState(profile.name ?? '')
   const [description, setDescription] = useState(profile.description ?? '')
+  const [timezone, setTimezone] = useState(profile.timezone ?? DEFAULT_TIMEZONE)
+
+  // Suggestions du champ fuseau (datalist native — ~400 entrées, filtrage navigateur)
+  const timezoneOptions = useMemo(() => listTimezones(profile.timezone), [profile.timezone])
+  const isTimezoneInvalid = !isValidTimezone(timezone)
 
   // ── État de l'avatar ──────────────────────────────────────────────────────
   // Source d'affichage : avatarUrl uploadé > image OAuth > null (fallback initiales)
@@ -154,7 +168,7 @@ export function ProfileForm({ profile }: ProfileFormProps): React.JSX.Element {
       const res = await fetch('/api/user/avatar', {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ filename: file.name, contentType: file.type }),
+        body: JSON.stringify({ filename: file.name, contentType: file.type, size: file.size }),
       })
 
       if (!res.ok) {
@@ -211,9 +225,11 @@ export function ProfileForm({ profile }: ProfileFormProps): React.JSX.Element {
     setIsSaving(true)
     setSaveMessage(null)
 
-    const result = await updateProfile({ name, description: description || undefined })
+    const result = await updateProfile({ name, description: description || undefined, timezone })
 
     if (result.success) {
+      // Le DateTimePicker lit le fuseau depuis ['user', 'me']
+      await queryClient.invalidateQueries({ queryKey: ['user', 'me'] })
       setSaveMessage({ type: 'success', text: 'Profil mis à jour avec succès !' })
     } else {
       setSaveMessage({ type: 'error', text: result.error ?? 'Erreur lors de la sauvegarde' })
@@ -369,6 +385,45 @@ export function ProfileForm({ profile }: ProfileFormProps): React.JSX.Element {
             />
           </div>
 
+          {/* Fuseau horaire — heures saisies et affichées dans ce fuseau */}
+          <div className="space-y-1.5">
+            <Label htmlFor="timezone">Fuseau horaire</Label>
+            <div className="flex gap-2">
+              <Input
+                id="timezone"
+                type="text"
+                list="timezone-options"
+                value={timezone}
+                onChange={(e) => setTimezone(e.target.value)}
+                placeholder="Europe/Paris"
+                autoComplete="off"
+                aria-invalid={isTimezoneInvalid}
+              />
+              <datalist id="timezone-options">
+                {timezoneOptions.map((tz) => (
+                  <option key={tz} value={tz} />
+                ))}
+              </datalist>
+              <Button
+                type="button"
+                variant="outline"
+                size="icon"
+                onClick={() => setTimezone(detectBrowserTimezone())}
+                aria-label="Détecter mon fuseau horaire"
+                title="Détecter mon fuseau horaire"
+              >
+                <LocateFixed className="size-4" />
+              </Button>
+            </div>
+            {isTimezoneInvalid ? (
+              <p className="text-xs text-destructive">Fuseau horaire inconnu (ex : America/Montreal).</p>
+            ) : (
+              <p className="text-xs text-muted-foreground">
+                Utilisé pour interpréter « demain 9h », afficher le calendrier et planifier tes posts.
+              </p>
+            )}
+          </div>
+
         </div>
       </div>
 
@@ -388,7 +443,7 @@ export function ProfileForm({ profile }: ProfileFormProps): React.JSX.Element {
 
         <Button
           type="submit"
-          disabled={isSaving || isDescOver}
+          disabled={isSaving || isDescOver || isTimezoneInvalid}
           className="gap-2"
         >
           {isSaving ? (
@@ -0,0 +1,47 @@
+/**
+ * @file modules/auth/components/TimezoneAutoDetect.tsx
+ * @module auth
+ * @description Composant invisible monté dans le layout du dashboard.
+ *   À la première connexion (User.timezone encore null), enregistre le fuseau
+ *   du navigateur via la Server Action detectTimezone, puis rafraîchit ['user', 'me'].
+ *   Ne fait rien si un fuseau est déjà enregistré (choix manuel respecté).
+ *
+ * @example
+ *   // Dans app/(dashboard)/layout.tsx
+ *   <TimezoneAutoDetect />
+ */
+
+'use client'
+
+import { useQueryClient } from '@tanstack/react-query'
+import { useEffect, useRef } from 'react'
+
+import { detectBrowserTimezone } from '@/lib/timezone'
+import { detectTimezone } from '@/modules/auth/actions/update-profile.action'
+import { useUserTimezone } from '@/modules/auth/hooks/useUserTimezone'
+
+// ─── Composant ────────────────────────────────────────────────────────────────
+
+/**
+ * Détection automatique du fuseau horaire — ne rend rien.
+ */
+export function TimezoneAutoDetect(): null {
+  const queryClient = useQueryClient()
+  const { storedTimezone } = useUserTimezone()
+  // Une seule tentative par montage (évite une boucle si l'action échoue)
+  const attemptedRef = useRef(false)
+
+  useEffect(() => {
+    // undefined = profil en cours de chargement ; string = déjà enregistré
+    if (storedTimezone !== null || attemptedRef.current) return
+    attemptedRef.current = true
+
+    void detectTimezone(detectBrowserTimezone()).then((result) => {
+      if (result.success) {
+        void queryClient.invalidateQueries({ queryKey: ['user', 'me'] })
+      }
+    })
+  }, [storedTimezone, queryClient])
+
+  return null
+}
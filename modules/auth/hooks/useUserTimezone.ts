@@ -0,0 +1,52 @@
+/**
+ * @file modules/auth/hooks/useUserTimezone.ts
+ * @module auth
+ * @description Hook retournant le fuseau horaire de l'utilisateur connecté.
+ *   Lit `timezone` depuis /api/user/me (même queryKey que UserMenu → une seule requête).
+ *   Tant que le profil n'est pas chargé, ou si aucun fuseau n'est enregistré,
+ *   retombe sur le fuseau du navigateur.
+ *
+ * @example
+ *   const { timezone } = useUserTimezone()
+ *   <DateTimePicker value={date} onChange={setDate} timeZone={timezone} />
+ */
+
+'use client'
+
+import { useQuery } from '@tanstack/react-query'
+
+import type { UserMeResponse } from '@/app/api/user/me/route'
+import { detectBrowserTimezone, resolveTimezone } from '@/lib/timezone'
+
+// ─── Types ────────────────────────────────────────────────────────────────────
+
+interface UseUserTimezoneReturn {
+  /** Fuseau effectif (enregistré, sinon navigateur) */
+  timezone: string
+  /** Fuseau enregistré en DB — null si jamais détecté, undefined pendant le chargement */
+  storedTimezone: string | null | undefined
+}
+
+// ─── Hook ─────────────────────────────────────────────────────────────────────
+
+/**
+ * Fuseau horaire de l'utilisateur courant.
+ *
+ * @returns Fuseau effectif et valeur brute enregistrée
+ */
+export function useUserTimezone(): UseUserTimezoneReturn {
+  const { data: profile } = useQuery<UserMeResponse>({
+    queryKey: ['user', 'me'],
+    queryFn: async () => {
+      const res = await fetch('/api/user/me')
+      if (!res.ok) throw new Error('Erreur lors du chargement du profil')
+      return res.json() as Promise<UserMeResponse>
+    },
+    staleTime: 30 * 1000,
+  })
+
+  return {
+    timezone: profile?.timezone ? resolveTimezone(profile.timezone) : detectBrowserTimezone(),
+    storedTimezone: profile ? profile.timezone : undefined,
+  }
+}
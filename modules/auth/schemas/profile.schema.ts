@@ -11,6 +11,8 @@
 
 import { z } from 'zod'
 
+import { isValidTimezone } from '@/lib/timezone'
+
 // ─── Schéma de mise à jour du profil ─────────────────────────────────────────
 
 /**
@@ -31,6 +33,12 @@ export const ProfileUpdateSchema = z.object({
     .max(500, 'La description est trop longue (max 500 caractères)')
     .trim()
     .optional(),
+
+  /** Fuseau horaire IANA (ex: "America/Montreal") — absent = inchangé */
+  timezone: z
+    .string()
+    .refine(isValidTimezone, 'Fuseau horaire invalide')
+    .optional(),
 })
 
 export type ProfileUpdateData = z.infer<typeof ProfileUpdateSchema>
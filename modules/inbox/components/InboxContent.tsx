@@ -0,0 +1,243 @@
+/**
+ * @file modules/inbox/components/InboxContent.tsx
+ * @module inbox
+ * @description Contenu client de la page /inbox.
+ *   Disposition deux colonnes (liste des fils | fil sélectionné) sur desktop,
+ *   une seule colonne sur mobile (la liste disparaît quand un fil est ouvert).
+ *
+ *   Filtres : plateforme (plateformes connectées uniquement) + état de lecture.
+ *   Les filtres sont locaux à la page (pas de persistance entre sessions).
+ *
+ * @example
+ *   <InboxContent />
+ */
+
+'use client'
+
+import { ArrowLeft, ChevronDown, Inbox, Loader2 } from 'lucide-react'
+import { useState } from 'react'
+
+import { Button } from '@/components/ui/button'
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu'
+import { Skeleton } from '@/components/ui/skeleton'
+import type { LatePlatform } from '@/lib/late'
+import { cn } from '@/lib/utils'
+import { useInbox } from '@/modules/inbox/hooks/useInbox'
+import type { InboxReadFilter, InboxThread } from '@/modules/inbox/types'
+import { PlatformIcon } from '@/modules/platforms/components/PlatformIcon'
+import { PLATFORM_CONFIG } from '@/modules/platforms/constants'
+import { usePlatforms } from '@/modules/platforms/hooks/usePlatforms'
+
+import { InboxThreadView } from './InboxThreadView'
+
+// ─── Options des filtres ──────────────────────────────────────────────────────
+
+const READ_OPTIONS: { value: InboxReadFilter; label: string }[] = [
+  { value: 'all', label: 'Tous les messages' },
+  { value: 'unread', label: 'Non lus' },
+  { value: 'read', label: 'Lus' },
+]
+
+// ─── Élément de liste ─────────────────────────────────────────────────────────
+
+interface InboxThreadItemProps {
+  thread: InboxThread
+  isSelected: boolean
+  onSelect: () => void
+}
+
+/**
+ * Ligne de la liste des fils : plateforme, dernier message, compteur de non lus.
+ */
+function InboxThreadItem({ thread, isSelected, onSelect }: InboxThreadItemProps): React.JSX.Element {
+  const lastMessage = thread.messages[thread.messages.length - 1]
+
+  return (
+    <li>
+      <button
+        type="button"
+        onClick={onSelect}
+        className={cn(
+          'flex w-full items-start gap-3 rounded-lg p-3 text-left transition-colors hover:bg-accent',
+          isSelected && 'bg-accent',
+        )}
+      >
+        <PlatformIcon platform={thread.platform as LatePlatform} className="mt-0.5 size-4 shrink-0" />
+        <div className="min-w-0 flex-1">
+          <div className="flex items-center justify-between gap-2">
+            <span
+              className={cn('truncate text-sm', thread.unreadCount > 0 && 'font-semibold')}
+            >
+              {lastMessage?.authorName}
+            </span>
+            <span className="shrink-0 text-xs text-muted-foreground">
+              {new Date(thread.lastMessageAt).toLocaleDateString('fr-FR', {
+                day: 'numeric',
+                month: 'short',
+              })}
+            </span>
+          </div>
+          <p className="truncate text-xs text-muted-foreground">{lastMessage?.text}</p>
+          {thread.post && (
+            <p className="mt-0.5 truncate text-xs text-muted-foreground/70">
+              Sur : {thread.post.text}
+            </p>
+          )}
+        </div>
+        {thread.unreadCount > 0 && (
+          <span className="shrink-0 rounded-full bg-primary px-1.5 text-xs text-primary-foreground">
+            {thread.unreadCount}
+          </span>
+        )}
+      </button>
+    </li>
+  )
+}
+
+// ─── Composant principal ──────────────────────────────────────────────────────
+
+/**
+ * Inbox unifiée : filtres, liste des fils et fil sélectionné.
+ */
+export function InboxContent(): React.JSX.Element {
+  const [platform, setPlatform] = useState<string>('all')
+  const [read, setRead] = useState<InboxReadFilter>('all')
+  const [selectedKey, setSelectedKey] = useState<string | null>(null)
+
+  const { platforms } = usePlatforms()
+  const { threads, unreadCount, isLoading, isFetching, error } = useInbox({ platform, read })
+
+  // Le fil sélectionné peut disparaître après un changement de filtre → null
+  const selectedThread = threads.find((t) => t.key === selectedKey) ?? null
+
+  // Plateformes proposées dans le filtre : uniquement celles connectées (dédupliquées)
+  const platformOptions = [...new Set(platforms.map((p) => p.platform))]
+
+  const currentPlatformLabel =
+    platform === 'all'
+      ? 'Toutes les plateformes'
+      : (PLATFORM_CONFIG[platform as LatePlatform]?.label ?? platform)
+  const currentReadLabel = READ_OPTIONS.find((o) => o.value === read)?.label ?? 'Tous les messages'
+
+  return (
+    <div className="space-y-4">
+      {/* ── Filtres ───────────────────────────────────────────────────────── */}
+      <div className="flex flex-wrap items-center gap-2">
+        <DropdownMenu>
+          <DropdownMenuTrigger asChild>
+            <Button variant="outline" size="sm" className="gap-1.5 text-xs">
+              {currentPlatformLabel}
+              <ChevronDown className="size-3 opacity-60" />
+            </Button>
+          </DropdownMenuTrigger>
+          <DropdownMenuContent align="start">
+            <DropdownMenuItem
+              onClick={() => setPlatform('all')}
+              className={platform === 'all' ? 'bg-accent' : ''}
+            >
+              Toutes les plateformes
+            </DropdownMenuItem>
+            {platformOptions.map((p) => (
+              <DropdownMenuItem
+                key={p}
+                onClick={() => setPlatform(p)}
+                className={platform === p ? 'bg-accent' : ''}
+              >
+                {PLATFORM_CONFIG[p as LatePlatform]?.label ?? p}
+              </DropdownMenuItem>
+            ))}
+          </DropdownMenuContent>
+        </DropdownMenu>
+
+        <DropdownMenu>
+          <DropdownMenuTrigger asChild>
+            <Button variant="outline" size="sm" className="gap-1.5 text-xs">
+              {currentReadLabel}
+              <ChevronDown className="size-3 opacity-60" />
+            </Button>
+          </DropdownMenuTrigger>
+          <DropdownMenuContent align="start">
+            {READ_OPTIONS.map((opt) => (
+              <DropdownMenuItem
+                key={opt.value}
+                onClick={() => setRead(opt.value)}
+                className={read === opt.value ? 'bg-accent' : ''}
+              >
+                {opt.label}
+              </DropdownMenuItem>
+            ))}
+          </DropdownMenuContent>
+        </DropdownMenu>
+
+        <span className="text-xs text-muted-foreground">
+          {unreadCount} non lu{unreadCount > 1 ? 's' : ''}
+        </span>
+        {isFetching && !isLoading && (
+          <Loader2 className="size-3.5 animate-spin text-muted-foreground" />
+        )}
+      </div>
+
+      {/* ── Contenu ───────────────────────────────────────────────────────── */}
+      {isLoading ? (
+        <div className="space-y-2">
+          {Array.from({ length: 5 }).map((_, i) => (
+            <Skeleton key={i} className="h-16 w-full rounded-lg" />
+          ))}
+        </div>
+      ) : error ? (
+        <p className="rounded-xl border border-border bg-card p-6 text-center text-sm text-destructive">
+          {error.message}
+        </p>
+      ) : threads.length === 0 ? (
+        <div className="flex flex-col items-center gap-2 rounded-xl border border-dashed border-border p-10 text-center">
+          <Inbox className="size-8 text-muted-foreground" />
+          <p className="text-sm text-muted-foreground">Aucun message pour ces filtres.</p>
+        </div>
+      ) : (
+        <div className="grid gap-4 md:grid-cols-[320px_1fr]">
+          {/* Liste des fils (masquée sur mobile quand un fil est ouvert) */}
+          <ul
+            className={cn(
+              'space-y-1 rounded-xl border border-border bg-card p-2',
+              selectedThread && 'hidden md:block',
+            )}
+          >
+            {threads.map((thread) => (
+              <InboxThreadItem
+                key={thread.key}
+                thread={thread}
+                isSelected={thread.key === selectedThread?.key}
+                onSelect={() => setSelectedKey(thread.key)}
+              />
+            ))}
+          </ul>
+
+          {/* Fil sélectionné */}
+          {selectedThread ? (
+            <div className="space-y-2">
+              <Button
+                variant="ghost"
+                size="sm"
+                className="gap-1.5 md:hidden"
+                onClick={() => setSelectedKey(null)}
+              >
+                <ArrowLeft className="size-4" />
+                Retour
+              </Button>
+              <InboxThreadView key={selectedThread.key} thread={selectedThread} />
+            </div>
+          ) : (
+            <div className="hidden items-center justify-center rounded-xl border border-dashed border-border p-10 text-sm text-muted-foreground md:flex">
+              Sélectionnez une conversation
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  )
+}
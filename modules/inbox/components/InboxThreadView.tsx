@@ -0,0 +1,240 @@
+/**
+ * @file modules/inbox/components/InboxThreadView.tsx
+ * @module inbox
+ * @description Vue détaillée d'un fil de l'inbox.
+ *   - En-tête : post ogolong d'origine (texte, miniature, lien vers la publication)
+ *   - Liste des messages du fil (plus ancien → plus récent)
+ *   - Réponse inline sous chaque message (un seul formulaire ouvert à la fois)
+ *
+ * @example
+ *   <InboxThreadView thread={selectedThread} />
+ */
+
+'use client'
+
+import { ExternalLink, Loader2, Reply, Send } from 'lucide-react'
+import { useState } from 'react'
+import { toast } from 'sonner'
+
+import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar'
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import { Textarea } from '@/components/ui/textarea'
+import type { LatePlatform } from '@/lib/late'
+import { cn } from '@/lib/utils'
+import { useInboxReply } from '@/modules/inbox/hooks/useInbox'
+import type { InboxMessage, InboxThread } from '@/modules/inbox/types'
+import { PlatformIcon } from '@/modules/platforms/components/PlatformIcon'
+import { PLATFORM_CONFIG } from '@/modules/platforms/constants'
+
+// ─── Helpers ──────────────────────────────────────────────────────────────────
+
+/**
+ * Formate une date ISO de message en "12 mars, 14:05".
+ *
+ * @param iso - Date ISO du message
+ * @returns Date lisible en français
+ */
+function formatMessageDate(iso: string): string {
+  return new Date(iso).toLocaleString('fr-FR', {
+    day: 'numeric',
+    month: 'short',
+    hour: '2-digit',
+    minute: '2-digit',
+  })
+}
+
+// ─── Message individuel ───────────────────────────────────────────────────────
+
+interface InboxMessageItemProps {
+  message: InboxMessage
+  /** Formulaire de réponse ouvert sous ce message */
+  isReplyOpen: boolean
+  onToggleReply: () => void
+}
+
+/**
+ * Message du fil avec son formulaire de réponse inline.
+ */
+function InboxMessageItem({
+  message,
+  isReplyOpen,
+  onToggleReply,
+}: InboxMessageItemProps): React.JSX.Element {
+  const { reply, isReplying } = useInboxReply()
+  const [text, setText] = useState('')
+
+  /**
+   * Envoie la réponse puis referme le formulaire.
+   * Le texte est conservé en cas d'échec pour permettre de réessayer.
+   */
+  const handleSubmit = async (): Promise<void> => {
+    if (!text.trim()) return
+    try {
+      await reply({ messageId: message.id, text })
+      toast.success('Réponse envoyée')
+      setText('')
+      onToggleReply()
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Impossible d\'envoyer la réponse')
+    }
+  }
+
+  return (
+    <li className="space-y-2">
+      <div className="flex items-start gap-3">
+        <Avatar className="size-8">
+          {message.authorAvatarUrl && (
+            <AvatarImage src={message.authorAvatarUrl} alt={message.authorName} />
+          )}
+          <AvatarFallback>{message.authorName.slice(0, 2).toUpperCase()}</AvatarFallback>
+        </Avatar>
+
+        <div className="min-w-0 flex-1">
+          <div className="flex items-center gap-2">
+            <span className="truncate text-sm font-medium">{message.authorName}</span>
+            <span className="text-xs text-muted-foreground">
+              {formatMessageDate(message.createdAt)}
+            </span>
+            {!message.isRead && (
+              <span className="size-2 rounded-full bg-primary" aria-label="Non lu" />
+            )}
+          </div>
+          <p className="mt-0.5 whitespace-pre-wrap text-sm">{message.text}</p>
+
+          <Button
+            variant="ghost"
+            size="sm"
+            className="mt-1 h-7 gap-1.5 px-2 text-xs text-muted-foreground"
+            onClick={onToggleReply}
+          >
+            <Reply className="size-3.5" />
+            Répondre
+          </Button>
+        </div>
+      </div>
+
+      {/* ── Formulaire de réponse inline ──────────────────────────────────── */}
+      {isReplyOpen && (
+        <div className="ml-11 space-y-2">
+          <Textarea
+            value={text}
+            onChange={(e) => setText(e.target.value)}
+            placeholder={`Répondre à ${message.authorName}…`}
+            rows={3}
+            maxLength={2200}
+            autoFocus
+            onKeyDown={(e) => {
+              // Cmd/Ctrl + Entrée = envoi rapide
+              if (e.key === 'Enter' && (e.metaKey || e.ctrlKey)) {
+                e.preventDefault()
+                void handleSubmit()
+              }
+            }}
+          />
+          <div className="flex justify-end gap-2">
+            <Button variant="ghost" size="sm" onClick={onToggleReply} disabled={isReplying}>
+              Annuler
+            </Button>
+            <Button
+              size="sm"
+              className="gap-1.5"
+              onClick={() => void handleSubmit()}
+              disabled={isReplying || !text.trim()}
+            >
+              {isReplying ? (
+                <Loader2 className="size-3.5 animate-spin" />
+              ) : (
+                <Send className="size-3.5" />
+              )}
+              Envoyer
+            </Button>
+          </div>
+        </div>
+      )}
+    </li>
+  )
+}
+
+// ─── Vue du fil ───────────────────────────────────────────────────────────────
+
+interface InboxThreadViewProps {
+  thread: InboxThread
+  className?: string
+}
+
+/**
+ * Vue détaillée d'un fil : post d'origine + messages + réponses inline.
+ *
+ * @param thread - Fil sélectionné
+ * @param className - Classes CSS additionnelles
+ */
+export function InboxThreadView({ thread, className }: InboxThreadViewProps): React.JSX.Element {
+  // ID du message dont le formulaire de réponse est ouvert (un seul à la fois)
+  const [replyingTo, setReplyingTo] = useState<string | null>(null)
+
+  const platformLabel =
+    PLATFORM_CONFIG[thread.platform as LatePlatform]?.label ?? thread.platform
+
+  return (
+    <div className={cn('rounded-xl border border-border bg-card', className)}>
+      {/* ── En-tête : post d'origine ──────────────────────────────────────── */}
+      <div className="space-y-2 border-b border-border p-4">
+        <div className="flex items-center gap-2">
+          <PlatformIcon platform={thread.platform as LatePlatform} className="size-4" />
+          <span className="text-sm font-medium">{platformLabel}</span>
+          <Badge variant="secondary" className="text-xs">
+            {thread.latePostId ? 'Commentaires' : 'Message direct'}
+          </Badge>
+        </div>
+
+        {thread.post ? (
+          <div className="flex gap-3 rounded-lg bg-muted/50 p-3">
+            {thread.post.mediaUrls[0] && (
+              // eslint-disable-next-line @next/next/no-img-element
+              <img
+                src={thread.post.mediaUrls[0]}
+                alt=""
+                className="size-14 shrink-0 rounded-md object-cover"
+              />
+            )}
+            <div className="min-w-0 flex-1 space-y-1">
+              <p className="line-clamp-3 text-sm">{thread.post.text}</p>
+              {thread.post.platformPostUrl && (
+                <a
+                  href={thread.post.platformPostUrl}
+                  target="_blank"
+                  rel="noopener noreferrer"
+                  className="inline-flex items-center gap-1 text-xs text-muted-foreground hover:text-foreground"
+                >
+                  Voir la publication
+                  <ExternalLink className="size-3" />
+                </a>
+              )}
+            </div>
+          </div>
+        ) : (
+          thread.latePostId && (
+            <p className="text-xs text-muted-foreground">
+              Publication introuvable dans ogolong (publiée hors de l&apos;application).
+            </p>
+          )
+        )}
+      </div>
+
+      {/* ── Messages ──────────────────────────────────────────────────────── */}
+      <ul className="space-y-4 p-4">
+        {thread.messages.map((message) => (
+          <InboxMessageItem
+            key={message.id}
+            message={message}
+            isReplyOpen={replyingTo === message.id}
+            onToggleReply={() =>
+              setReplyingTo((current) => (current === message.id ? null : message.id))
+            }
+          />
+        ))}
+      </ul>
+    </div>
+  )
+}
@@ -0,0 +1,93 @@
+/**
+ * @file modules/inbox/hooks/useInbox.ts
+ * @module inbox
+ * @description Hooks TanStack Query du module inbox.
+ *   - useInbox : liste des fils filtrée (refetch périodique, données précédentes conservées)
+ *   - useInboxReply : mutation de réponse inline + invalidation de l'inbox
+ *
+ * @example
+ *   const { threads, unreadCount, isLoading } = useInbox({ platform: 'all', read: 'unread' })
+ *   const { reply, isReplying } = useInboxReply()
+ *   await reply({ messageId: 'msg_1', text: 'Merci !' })
+ */
+
+'use client'
+
+import { keepPreviousData, useMutation, useQuery, useQueryClient } from '@tanstack/react-query'
+
+import {
+  fetchInbox,
+  inboxQueryKeys,
+  replyToInboxMessage,
+} from '@/modules/inbox/queries/inbox.queries'
+import type { InboxReadFilter, InboxThread } from '@/modules/inbox/types'
+
+// ─── Types retournés ──────────────────────────────────────────────────────────
+
+interface UseInboxReturn {
+  /** Fils de l'inbox ([] par défaut) */
+  threads: InboxThread[]
+  /** Nombre de messages non lus (toutes plateformes connectées) */
+  unreadCount: number
+  /** Chargement initial (aucune donnée en cache) */
+  isLoading: boolean
+  /** Refetch en cours (filtre changé ou rafraîchissement périodique) */
+  isFetching: boolean
+  error: Error | null
+}
+
+interface UseInboxReplyReturn {
+  /** Envoie une réponse (rejette en cas d'échec) */
+  reply: (params: { messageId: string; text: string }) => Promise<void>
+  /** Vrai pendant l'envoi */
+  isReplying: boolean
+}
+
+// ─── Hooks ────────────────────────────────────────────────────────────────────
+
+/**
+ * Liste les fils de l'inbox selon les filtres.
+ * Rafraîchi toutes les 60s pour faire apparaître les nouveaux commentaires.
+ *
+ * @param filters - Plateforme ("all" = toutes) et état de lecture
+ * @returns Fils, compteur de non lus et états de chargement
+ */
+export function useInbox(filters: { platform: string; read: InboxReadFilter }): UseInboxReturn {
+  const query = useQuery({
+    queryKey: inboxQueryKeys.list(filters),
+    queryFn: () => fetchInbox(filters),
+    // Conserver les fils affichés pendant un changement de filtre (pas de flash)
+    placeholderData: keepPreviousData,
+    staleTime: 1000 * 30,
+    refetchInterval: 1000 * 60,
+  })
+
+  return {
+    threads: query.data?.threads ?? [],
+    unreadCount: query.data?.unreadCount ?? 0,
+    isLoading: query.isLoading,
+    isFetching: query.isFetching,
+    error: query.error,
+  }
+}
+
+/**
+ * Mutation de réponse inline à un message de l'inbox.
+ * Invalide toutes les listes inbox après succès (le message peut passer en "lu").
+ */
+export function useInboxReply(): UseInboxReplyReturn {
+  const queryClient = useQueryClient()
+
+  const mutation = useMutation({
+    mutationFn: ({ messageId, text }: { messageId: string; text: string }) =>
+      replyToInboxMessage(messageId, text),
+    onSuccess: () => {
+      void queryClient.invalidateQueries({ queryKey: inboxQueryKeys.all })
+    },
+  })
+
+  return {
+    reply: mutation.mutateAsync,
+    isReplying: mutation.isPending,
+  }
+}
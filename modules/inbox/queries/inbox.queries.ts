@@ -0,0 +1,70 @@
+/**
+ * @file modules/inbox/queries/inbox.queries.ts
+ * @module inbox
+ * @description Clés et fetchers TanStack Query pour le module inbox.
+ *   Les fetchers appellent les routes /api/inbox (proxy getlate.dev).
+ *
+ * @example
+ *   // Invalider toute l'inbox après une réponse
+ *   queryClient.invalidateQueries({ queryKey: inboxQueryKeys.all })
+ */
+
+import type { InboxReadFilter, InboxResponse } from '@/modules/inbox/types'
+
+// ─── Query Keys ───────────────────────────────────────────────────────────────
+
+/**
+ * Clés de cache TanStack Query pour le module inbox.
+ * Structure hiérarchique : all > list > [filtres]
+ */
+export const inboxQueryKeys = {
+  /** Toutes les queries inbox (pour invalidation globale) */
+  all: ['inbox'] as const,
+
+  /** Liste des fils filtrée par plateforme et état de lecture */
+  list: (params: { platform: string; read: InboxReadFilter }) =>
+    ['inbox', 'list', params] as const,
+}
+
+// ─── Fetchers ─────────────────────────────────────────────────────────────────
+
+/**
+ * Récupère les fils de l'inbox.
+ *
+ * @param params - Plateforme ("all" = toutes) et état de lecture
+ * @returns Fils triés du plus récent au plus ancien + compteur de non lus
+ * @throws Error si la requête échoue
+ */
+export async function fetchInbox(params: {
+  platform: string
+  read: InboxReadFilter
+}): Promise<InboxResponse> {
+  const query = new URLSearchParams({ read: params.read })
+  if (params.platform !== 'all') query.set('platform', params.platform)
+
+  const res = await fetch(`/api/inbox?${query.toString()}`, {
+    // Abandonne la requête après 10s — évite le hang si Late API ne répond pas
+    signal: AbortSignal.timeout(10_000),
+  })
+  if (!res.ok) throw new Error('Impossible de charger l\'inbox')
+  return res.json() as Promise<InboxResponse>
+}
+
+/**
+ * Envoie une réponse à un message de l'inbox.
+ *
+ * @param messageId - ID Late du message
+ * @param text - Texte de la réponse
+ * @throws Error avec le message de l'API si l'envoi échoue
+ */
+export async function replyToInboxMessage(messageId: string, text: string): Promise<void> {
+  const res = await fetch(`/api/inbox/${messageId}/reply`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ text }),
+  })
+  if (!res.ok) {
+    const data = (await res.json().catch(() => ({}))) as { error?: string }
+    throw new Error(data.error ?? 'Impossible d\'envoyer la réponse')
+  }
+}
@@ -0,0 +1,54 @@
+/**
+ * @file modules/inbox/schemas/inbox.schema.ts
+ * @module inbox
+ * @description Schémas Zod de l'inbox unifiée (messages et commentaires reçus).
+ *   Utilisés côté serveur (routes /api/inbox) et côté client (formulaire de réponse).
+ *
+ * @example
+ *   import { InboxReplySchema } from '@/modules/inbox/schemas/inbox.schema'
+ *   const result = InboxReplySchema.safeParse({ text: 'Merci pour votre message !' })
+ */
+
+import { z } from 'zod'
+
+// ─── Filtres ──────────────────────────────────────────────────────────────────
+
+/**
+ * États de lecture filtrables dans l'inbox.
+ * - all    : tous les messages
+ * - unread : messages non lus uniquement
+ * - read   : messages déjà lus uniquement
+ */
+export const InboxReadFilterSchema = z.enum(['all', 'unread', 'read'])
+
+/**
+ * Query params de GET /api/inbox.
+ * `platform` absent ou "all" = toutes les plateformes connectées.
+ *
+ * @example
+ *   InboxQuerySchema.parse({ platform: 'instagram', read: 'unread' })
+ */
+export const InboxQuerySchema = z.object({
+  platform: z.string().min(1).optional(),
+  read: InboxReadFilterSchema.default('all'),
+})
+
+// ─── Réponse ──────────────────────────────────────────────────────────────────
+
+/**
+ * Corps de POST /api/inbox/[id]/reply.
+ * Limite à 2 200 caractères (plus petite limite commune des commentaires Instagram/TikTok).
+ */
+export const InboxReplySchema = z.object({
+  text: z
+    .string()
+    .trim()
+    .min(1, 'La réponse ne peut pas être vide')
+    .max(2200, 'La réponse ne peut pas dépasser 2 200 caractères'),
+})
+
+// ─── Types inférés ────────────────────────────────────────────────────────────
+
+export type InboxReadFilter = z.infer<typeof InboxReadFilterSchema>
+export type InboxQuery = z.infer<typeof InboxQuerySchema>
+export type InboxReplyData = z.infer<typeof InboxReplySchema>
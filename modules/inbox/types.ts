@@ -0,0 +1,63 @@
+/**
+ * @file modules/inbox/types.ts
+ * @module inbox
+ * @description Types TypeScript du module inbox.
+ *   Re-exporte le type Late du message pour éviter les imports croisés depuis lib/late.ts.
+ *
+ *   Un "fil" (thread) regroupe les messages reçus sur un même post publié
+ *   (LateInboxMessage.postId ↔ Post.latePostId). Les messages directs sans postId
+ *   forment chacun leur propre fil.
+ *
+ * @example
+ *   import type { InboxThread } from '@/modules/inbox/types'
+ */
+
+import type { LateInboxMessage } from '@/lib/late'
+
+export type { LateInboxMessage as InboxMessage } from '@/lib/late'
+export type { InboxReadFilter } from './schemas/inbox.schema'
+
+// ─── Fil de discussion ────────────────────────────────────────────────────────
+
+/**
+ * Post ogolong d'origine d'un fil (retrouvé via Post.latePostId).
+ * Sous-ensemble des champs du Post utile à l'affichage de l'en-tête du fil.
+ */
+export interface InboxThreadPost {
+  id: string
+  text: string
+  platform: string
+  mediaUrls: string[]
+  publishedAt: Date | null
+  platformPostUrl: string | null
+}
+
+/**
+ * Fil de discussion de l'inbox : messages groupés par post d'origine.
+ */
+export interface InboxThread {
+  /** Clé stable : `post:{latePostId}` ou `message:{messageId}` (message direct) */
+  key: string
+  /** Plateforme du fil (celle du premier message) */
+  platform: string
+  /** ID Late du post commenté (null pour un message direct) */
+  latePostId: string | null
+  /** Post ogolong d'origine (null si inconnu ou message direct) */
+  post: InboxThreadPost | null
+  /** Messages du fil, du plus ancien au plus récent */
+  messages: LateInboxMessage[]
+  /** Nombre de messages non lus dans le fil */
+  unreadCount: number
+  /** Date ISO du message le plus récent (tri des fils) */
+  lastMessageAt: string
+}
+
+/**
+ * Réponse de GET /api/inbox.
+ */
+export interface InboxResponse {
+  /** Fils triés du plus récent au plus ancien */
+  threads: InboxThread[]
+  /** Nombre total de messages non lus (toutes plateformes, avant filtre de lecture) */
+  unreadCount: number
+}
@@ -0,0 +1,149 @@
+/**
+ * @file modules/media/actions/media-duplicate.action.ts
+ * @module media
+ * @description Server Actions Next.js de détection des doublons de la galerie.
+ *
+ *   Expose deux actions :
+ *   - `findDuplicateMedia(rawData)` — média de la galerie identique ou visuellement proche
+ *                                     d'un fichier sur le point d'être importé (MediaUploader)
+ *   - `listDuplicateMedia()`        — groupes de doublons du workspace, pour le nettoyage
+ *                                     groupé (MediaDuplicates)
+ *
+ *   Les empreintes des médias sont calculées par le serveur après l'upload
+ *   (processMedia, rattrapage des anciens médias par mediaHashBackfillCron) ;
+ *   celles du fichier à importer avant l'upload (SHA-256 dans le navigateur, dHash
+ *   par le serveur — voir modules/media/utils/media-file-hash.ts). Lecture ouverte à tout membre du
+ *   workspace ; la suppression passe par deleteMedia / deleteMediaBulk.
+ *
+ * @example
+ *   const { contentHash, perceptualHash } = await hashMediaFile(file)
+ *   const { data: match } = await findDuplicateMedia({ contentHash, perceptualHash })
+ *   if (match) console.log(`Déjà dans la galerie : ${match.media.filename}`)
+ *
+ *   const { data: groups } = await listDuplicateMedia()
+ */
+
+'use server'
+
+import { headers } from 'next/headers'
+
+import { auth } from '@/lib/auth'
+import { getMediaUsage } from '@/lib/media-usage'
+import { prisma } from '@/lib/prisma'
+import { getWorkspaceContext } from '@/lib/workspace'
+import { MediaDuplicateQuerySchema } from '@/modules/media/schemas/media.schema'
+import type { MediaDuplicateMatch, MediaItem } from '@/modules/media/types'
+import { clusterDuplicates, findNearestDuplicate } from '@/modules/media/utils/media-hash'
+import { NO_MEDIA_USAGE } from '@/modules/media/utils/media-usage'
+
+// ─── Constantes ───────────────────────────────────────────────────────────────
+
+/**
+ * Médias comparés par empreinte perceptuelle (les plus récents) :
+ * la comparaison est faite en mémoire, deux à deux pour les groupes.
+ */
+const DUPLICATE_SCAN_LIMIT = 5000
+
+// ─── Actions ──────────────────────────────────────────────────────────────────
+
+/**
+ * Cherche dans la galerie du workspace un média identique (même SHA-256) ou,
+ * à défaut, l'image visuellement la plus proche (dHash).
+ *
+ * @param rawData - Empreintes à valider avec MediaDuplicateQuerySchema
+ * @returns `{ data: MediaDuplicateMatch | null }` ou `{ error: string }`
+ *
+ * @example
+ *   const { data } = await findDuplicateMedia({ perceptualHash: 'f0e4c2d8b0a89c3e' })
+ *   // → { media: { filename: 'IMG_1234.jpg', … }, exact: false }
+ */
+export async function findDuplicateMedia(
+  rawData: unknown,
+): Promise<{ data?: MediaDuplicateMatch | null; error?: string }> {
+  // ── Authentification ──────────────────────────────────────────────────────
+  const session = await auth.api.getSession({ headers: await headers() })
+  if (!session) return { error: 'Non authentifié' }
+
+  const workspace = await getWorkspaceContext(session.user.id)
+
+  // ── Validation Zod ────────────────────────────────────────────────────────
+  const parsed = MediaDuplicateQuerySchema.safeParse(rawData)
+  if (!parsed.success) {
+    return { error: parsed.error.issues[0]?.message ?? 'Données invalides' }
+  }
+
+  const { contentHash, perceptualHash } = parsed.data
+
+  try {
+    // ── Copie exacte (index workspaceId + contentHash) ─────────────────────
+    if (contentHash) {
+      const exact = await prisma.media.findFirst({
+        where: { workspaceId: workspace.id, contentHash },
+        orderBy: { createdAt: 'asc' },
+      })
+      if (exact) return { data: { media: exact as MediaItem, exact: true } }
+    }
+
+    // ── Image visuellement proche ──────────────────────────────────────────
+    if (perceptualHash) {
+      const candidates: { id: string; perceptualHash: string }[] = await prisma.media.findMany({
+        where: { workspaceId: workspace.id, perceptualHash: { not: null } },
+        orderBy: { createdAt: 'desc' },
+        take: DUPLICATE_SCAN_LIMIT,
+        select: { id: true, perceptualHash: true },
+      })
+      const nearestId = findNearestDuplicate(perceptualHash, candidates)
+      if (nearestId) {
+        const near = await prisma.media.findUnique({ where: { id: nearestId } })
+        if (near) return { data: { media: near as MediaItem, exact: false } }
+      }
+    }
+
+    return { data: null }
+  } catch (err) {
+    console.error('[findDuplicateMedia] Erreur DB :', err)
+    return { error: 'Impossible de rechercher les doublons' }
+  }
+}
+
+/**
+ * Groupes de médias identiques ou visuellement proches du workspace,
+ * avec l'utilisation de chaque média par les posts (garde-fou de suppression).
+ *
+ * @returns `{ data: MediaItem[][] }` — chaque groupe du plus ancien au plus récent,
+ *   les groupes les plus nombreux d'abord — ou `{ error: string }`
+ *
+ * @example
+ *   const { data: groups } = await listDuplicateMedia()
+ *   const copies = groups.flatMap((group) => group.slice(1))
+ */
+export async function listDuplicateMedia(): Promise<{ data?: MediaItem[][]; error?: string }> {
+  // ── Authentification ──────────────────────────────────────────────────────
+  const session = await auth.api.getSession({ headers: await headers() })
+  if (!session) return { error: 'Non authentifié' }
+
+  const workspace = await getWorkspaceContext(session.user.id)
+
+  try {
+    const items: MediaItem[] = await prisma.media.findMany({
+      where: {
+        workspaceId: workspace.id,
+        OR: [{ contentHash: { not: null } }, { perceptualHash: { not: null } }],
+      },
+      orderBy: { createdAt: 'desc' },
+      take: DUPLICATE_SCAN_LIMIT,
+    })
+
+    const groups = clusterDuplicates(items)
+
+    // ── Utilisation par les posts (badge « N posts », garde-fou de suppression) ─
+    const usage = await getMediaUsage(workspace.id, groups.flat().map((item) => item.url))
+
+    return {
+      data: groups.map((group) => group.map((item) => ({ ...item, usage: usage.get(item.url) ?? NO_MEDIA_USAGE }))),
+    }
+  } catch (err) {
+    console.error('[listDuplicateMedia] Erreur DB :', err)
+    return { error: 'Impossible de charger les doublons' }
+  }
+}
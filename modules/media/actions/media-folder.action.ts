@@ -0,0 +1,165 @@
+/**
+ * @file modules/media/actions/media-folder.action.ts
+ * @module media
+ * @description Server Actions Next.js des dossiers de la galerie.
+ *
+ *   Expose deux actions :
+ *   - `saveMediaFolder(rawData)` — crée un dossier (sans id) ou le renomme (avec id)
+ *   - `deleteMediaFolder(id)`    — supprime un dossier ; ses médias restent dans la galerie, hors dossier
+ *
+ *   Mêmes règles que media.action.ts : écriture réservée aux rôles EDITOR et OWNER,
+ *   chaque mutation est tracée dans le journal d'audit (entité MEDIA_FOLDER).
+ *   La liste des dossiers est chargée avec les filtres (listMediaFacets).
+ *
+ * @example
+ *   const { data } = await saveMediaFolder({ name: 'Collection printemps' })
+ *   await saveMediaFolder({ id: data.id, name: 'Printemps 2026' })
+ *   await deleteMediaFolder(data.id)
+ */
+
+'use server'
+
+import { revalidatePath } from 'next/cache'
+import { headers } from 'next/headers'
+
+import { recordAuditEvents, userActor } from '@/lib/audit'
+import { auth } from '@/lib/auth'
+import { prisma } from '@/lib/prisma'
+import { getWorkspaceContext } from '@/lib/workspace'
+import { MediaDeleteSchema, MediaFolderSchema } from '@/modules/media/schemas/media.schema'
+import type { MediaFolderItem } from '@/modules/media/types'
+import { workspaceRoleError } from '@/modules/workspaces/utils/roles'
+
+// ─── Actions ──────────────────────────────────────────────────────────────────
+
+/**
+ * Crée un dossier, ou renomme un dossier existant si `id` est fourni.
+ * Les noms sont uniques dans un workspace.
+ *
+ * @param rawData - Données brutes à valider avec MediaFolderSchema
+ * @returns `{ data: MediaFolderItem }` ou `{ error: string }`
+ *
+ * @example
+ *   const { data, error } = await saveMediaFolder({ name: 'Collection printemps' })
+ */
+export async function saveMediaFolder(
+  rawData: unknown,
+): Promise<{ data?: MediaFolderItem; error?: string }> {
+  // ── Authentification ──────────────────────────────────────────────────────
+  const session = await auth.api.getSession({ headers: await headers() })
+  if (!session) return { error: 'Non authentifié' }
+
+  const workspace = await getWorkspaceContext(session.user.id)
+  const roleError = workspaceRoleError(workspace.role, 'EDITOR')
+  if (roleError) return { error: roleError }
+
+  // ── Validation Zod ────────────────────────────────────────────────────────
+  const parsed = MediaFolderSchema.safeParse(rawData)
+  if (!parsed.success) {
+    return { error: parsed.error.issues[0]?.message ?? 'Données invalides' }
+  }
+
+  const { id, name } = parsed.data
+
+  try {
+    // ── Vérification ownership (renommage) ────────────────────────────────
+    const existing: { workspaceId: string; name: string } | null = id
+      ? await prisma.mediaFolder.findUnique({ where: { id }, select: { workspaceId: true, name: true } })
+      : null
+    if (id && !existing) return { error: 'Dossier introuvable' }
+    if (existing && existing.workspaceId !== workspace.id) return { error: 'Accès refusé' }
+
+    // ── Unicité du nom dans le workspace ──────────────────────────────────
+    const duplicate = await prisma.mediaFolder.findFirst({
+      where: { workspaceId: workspace.id, name, ...(id && { id: { not: id } }) },
+      select: { id: true },
+    })
+    if (duplicate) return { error: `Un dossier « ${name} » existe déjà` }
+
+    // ── Création ou renommage (+ journal d'audit) ─────────────────────────
+    const folder = await prisma.$transaction(async (tx: typeof prisma) => {
+      const saved = id
+        ? await tx.mediaFolder.update({
+            where: { id },
+            data: { name },
+            select: { id: true, name: true, _count: { select: { media: true } } },
+          })
+        : await tx.mediaFolder.create({
+            data: { workspaceId: workspace.id, name },
+            select: { id: true, name: true, _count: { select: { media: true } } },
+          })
+      await recordAuditEvents(tx, [{
+        workspaceId: workspace.id,
+        actor: userActor(session.user),
+        entityType: 'MEDIA_FOLDER',
+        entityId: saved.id,
+        entityLabel: name,
+        action: existing ? 'UPDATED' : 'CREATED',
+        before: existing ? { name: existing.name } : null,
+        after: { name },
+      }])
+      return saved
+    })
+
+    revalidatePath('/gallery')
+
+    return { data: { id: folder.id, name: folder.name, mediaCount: folder._count.media } }
+  } catch (err) {
+    console.error('[saveMediaFolder] Erreur DB :', err)
+    return { error: "Impossible d'enregistrer le dossier" }
+  }
+}
+
+/**
+ * Supprime un dossier. Ses médias ne sont pas supprimés : ils passent hors dossier
+ * (clé étrangère ON DELETE SET NULL).
+ *
+ * @param id - Identifiant du dossier
+ * @returns `{}` (succès) ou `{ error: string }`
+ *
+ * @example
+ *   const { error } = await deleteMediaFolder('fld_1')
+ */
+export async function deleteMediaFolder(
+  id: string,
+): Promise<{ error?: string }> {
+  // ── Authentification ──────────────────────────────────────────────────────
+  const session = await auth.api.getSession({ headers: await headers() })
+  if (!session) return { error: 'Non authentifié' }
+
+  const workspace = await getWorkspaceContext(session.user.id)
+  const roleError = workspaceRoleError(workspace.role, 'EDITOR')
+  if (roleError) return { error: roleError }
+
+  // ── Validation ────────────────────────────────────────────────────────────
+  const parsed = MediaDeleteSchema.safeParse({ id })
+  if (!parsed.success) return { error: 'ID invalide' }
+
+  try {
+    // ── Vérification ownership ────────────────────────────────────────────
+    const folder = await prisma.mediaFolder.findUnique({ where: { id }, select: { workspaceId: true, name: true } })
+    if (!folder) return { error: 'Dossier introuvable' }
+    if (folder.workspaceId !== workspace.id) return { error: 'Accès refusé' }
+
+    // ── Suppression (+ journal d'audit) ───────────────────────────────────
+    await prisma.$transaction(async (tx: typeof prisma) => {
+      await tx.mediaFolder.delete({ where: { id } })
+      await recordAuditEvents(tx, [{
+        workspaceId: workspace.id,
+        actor: userActor(session.user),
+        entityType: 'MEDIA_FOLDER',
+        entityId: id,
+        entityLabel: folder.name,
+        action: 'DELETED',
+        before: { name: folder.name },
+      }])
+    })
+
+    revalidatePath('/gallery')
+
+    return {}
+  } catch (err) {
+    console.error('[deleteMediaFolder] Erreur DB :', err)
+    return { error: 'Impossible de supprimer le dossier' }
+  }
+}
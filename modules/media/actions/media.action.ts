@@ -3,19 +3,36 @@
  * @module media
  * @description Server Actions Next.js pour la Galerie de médias.
  *
- *   Expose trois actions :
- *   - `listMedia(cursor?, limit?)` — liste paginée (40 items, tri createdAt DESC)
- *   - `saveMedia(rawData)`         — sauvegarde les métadonnées après upload Supabase
- *   - `deleteMedia(id)`            — vérifie l'ownership, supprime Storage + DB
+ *   Expose les actions :
+ *   - `listMedia(cursor?, filters?, limit?)` — liste paginée filtrée (40 items, tri createdAt DESC),
+ *                                        avec l'utilisation de chaque média par les posts
+ *   - `listMediaFacets()`              — dossiers et tags proposés par les filtres
+ *   - `saveMedia(rawData)`             — sauvegarde les métadonnées après upload Supabase (taille
+ *                                        relue dans le Storage, quota revérifié), puis sondage,
+ *                                        empreintes et variantes via Inngest "media/process"
+ *   - `updateMediaAltText(rawData)`    — modifie le texte alternatif (accessibilité)
+ *   - `deleteMedia(id)`                — vérifie l'ownership, supprime Storage + DB
+ *                                        (refusé si des posts planifiés utilisent le média)
+ *   - `tagMedia(rawData)`              — ajoute / retire des tags sur une sélection
+ *   - `moveMedia(rawData)`             — déplace une sélection dans un dossier
+ *   - `deleteMediaBulk(rawData)`       — supprime une sélection
+ *
+ *   Les dossiers sont gérés par media-folder.action.ts, les doublons par
+ *   media-duplicate.action.ts.
  *
  *   Chaque action authentifie l'utilisateur via better-auth (headers()) et
  *   retourne une structure { data?, error? } pour gérer les erreurs côté client.
+ *   La galerie est partagée par le workspace actif : tout membre la consulte,
+ *   l'ajout, la modification et la suppression sont réservés aux rôles EDITOR et OWNER.
  *
  * @example
  *   // Dans un Client Component
  *   const { data, error } = await listMedia()
+ *   const { data } = await listMedia(undefined, { search: 'vitrine', kind: 'image' })
  *   const { error } = await saveMedia({ url, filename, mimeType, size })
+ *   const { data } = await updateMediaAltText({ id: 'clx123', altText: 'Logo de la marque' })
  *   const { error } = await deleteMedia('clx123')
+ *   const { error } = await tagMedia({ ids: ['clx1', 'clx2'], add: ['printemps'] })
  */
 
 'use server'
@@ -23,11 +40,29 @@
 import { headers } from 'next/headers'
 import { revalidatePath } from 'next/cache'
 
+import { recordAuditEvents, userActor } from '@/lib/audit'
+import type { AuditEventInput } from '@/lib/audit'
 import { auth } from '@/lib/auth'
+import { inngest } from '@/lib/inngest/client'
+import { getMediaUsage } from '@/lib/media-usage'
 import { prisma } from '@/lib/prisma'
+import { checkStoredFileQuota } from '@/lib/storage-quota'
 import { createServiceClient } from '@/lib/supabase/server'
-import type { MediaItem, MediaPage } from '@/modules/media/types'
-import { MediaDeleteSchema, MediaSaveSchema } from '@/modules/media/schemas/media.schema'
+import { getWorkspaceContext } from '@/lib/workspace'
+import type { MediaFacets, MediaItem, MediaPage } from '@/modules/media/types'
+import {
+  MEDIA_TAGS_MAX,
+  MediaAltTextSchema,
+  MediaBulkDeleteSchema,
+  MediaBulkTagSchema,
+  MediaDeleteSchema,
+  MediaFilterSchema,
+  MediaMoveSchema,
+  MediaSaveSchema,
+} from '@/modules/media/schemas/media.schema'
+import { applyTagChanges, buildMediaWhere } from '@/modules/media/utils/media-filter'
+import { mediaDeletionError, NO_MEDIA_USAGE } from '@/modules/media/utils/media-usage'
+import { workspaceRoleError } from '@/modules/workspaces/utils/roles'
 
 // ─── Constantes ───────────────────────────────────────────────────────────────
 
@@ -37,6 +72,9 @@ const PAGE_SIZE = 40
 /** Bucket Supabase Storage contenant les médias */
 const MEDIA_BUCKET = 'post-media'
 
+/** Nombre de tags proposés par les filtres de la galerie */
+const FACET_TAGS_LIMIT = 50
+
 // ─── Helpers ──────────────────────────────────────────────────────────────────
 
 /**
@@ -58,35 +96,134 @@ function extractSupabasePath(url: string): string {
   return url.slice(idx + marker.length)
 }
 
+/** Champs d'un média nécessaires à sa suppression (fichiers Storage + audit) */
+const MEDIA_DELETE_SELECT = {
+  id: true,
+  workspaceId: true,
+  filename: true,
+  mimeType: true,
+  size: true,
+  url: true,
+  variants: { select: { url: true } },
+} as const
+
+interface DeletableMedia {
+  id: string
+  workspaceId: string
+  filename: string
+  mimeType: string
+  size: number
+  url: string
+  variants: { url: string }[]
+}
+
+/**
+ * Vérifie qu'une sélection de médias existe entièrement et appartient au workspace.
+ *
+ * @param media       - Médias trouvés en DB pour les IDs demandés
+ * @param ids         - IDs demandés
+ * @param workspaceId - Workspace actif
+ * @returns Message d'erreur, ou null si la sélection est valide
+ */
+function mediaSelectionError(media: { workspaceId: string }[], ids: string[], workspaceId: string): string | null {
+  if (media.length !== new Set(ids).size) return 'Média introuvable'
+  if (media.some((m) => m.workspaceId !== workspaceId)) return 'Accès refusé'
+  return null
+}
+
+/**
+ * Refuse la suppression de médias dont dépendent des posts planifiés.
+ *
+ * @param media       - Médias à supprimer
+ * @param workspaceId - Workspace actif (posts consultés)
+ * @returns Message d'erreur, ou null si la suppression est possible
+ */
+async function mediaUsageError(media: DeletableMedia[], workspaceId: string): Promise<string | null> {
+  const usage = await getMediaUsage(workspaceId, media.map((m) => m.url))
+  return mediaDeletionError(media.map((m) => ({
+    filename: m.filename,
+    usage: usage.get(m.url) ?? NO_MEDIA_USAGE,
+  })))
+}
+
+/**
+ * Efface de Supabase Storage les fichiers de médias et de leurs variantes.
+ * Une erreur Storage est journalisée sans bloquer la suppression en DB
+ * (le fichier peut être déjà supprimé ou le chemin incorrect).
+ *
+ * @param media - Médias à supprimer
+ */
+async function removeMediaFiles(media: DeletableMedia[]): Promise<void> {
+  const supabase = createServiceClient()
+  const storagePaths = media
+    .flatMap((m) => [m.url, ...m.variants.map((v) => v.url)])
+    .map(extractSupabasePath)
+
+  const { error: storageError } = await supabase.storage
+    .from(MEDIA_BUCKET)
+    .remove(storagePaths)
+
+  if (storageError) {
+    console.warn('[deleteMedia] Avertissement Storage :', storageError.message)
+  }
+}
+
+/** Évènement d'audit de la suppression d'un média */
+function deletedMediaAuditEvent(
+  media: DeletableMedia,
+  workspaceId: string,
+  user: { id: string; name?: string | null },
+): AuditEventInput {
+  return {
+    workspaceId,
+    actor: userActor(user),
+    entityType: 'MEDIA',
+    entityId: media.id,
+    entityLabel: media.filename,
+    action: 'DELETED',
+    before: { filename: media.filename, mimeType: media.mimeType, size: media.size, url: media.url },
+  }
+}
+
 // ─── Actions ──────────────────────────────────────────────────────────────────
 
 /**
  * Liste les médias de l'utilisateur connecté avec pagination par curseur.
  * Tri : createdAt DESC (les plus récents en premier).
  *
- * @param cursor - ID du dernier item de la page précédente (undefined = première page)
- * @param limit  - Nombre d'items par page (défaut : 40)
+ * @param cursor     - ID du dernier item de la page précédente (undefined = première page)
+ * @param rawFilters - Filtres à valider avec MediaFilterSchema (recherche, type, tag, dossier, dates)
+ * @param limit      - Nombre d'items par page (défaut : 40)
  * @returns `{ data: MediaPage }` ou `{ error: string }`
  *
  * @example
  *   // Première page
  *   const { data } = await listMedia()
- *   // Page suivante
- *   const { data } = await listMedia(data.nextCursor)
+ *   // Page suivante, mêmes filtres
+ *   const { data } = await listMedia(data.nextCursor, { tag: 'printemps' })
  */
 export async function listMedia(
   cursor?: string,
+  rawFilters: unknown = {},
   limit = PAGE_SIZE,
 ): Promise<{ data?: MediaPage; error?: string }> {
   // ── Authentification ──────────────────────────────────────────────────────
   const session = await auth.api.getSession({ headers: await headers() })
   if (!session) return { error: 'Non authentifié' }
 
+  const workspace = await getWorkspaceContext(session.user.id)
+
+  // ── Validation des filtres ────────────────────────────────────────────────
+  const parsedFilters = MediaFilterSchema.safeParse(rawFilters)
+  if (!parsedFilters.success) {
+    return { error: parsedFilters.error.issues[0]?.message ?? 'Filtres invalides' }
+  }
+
   try {
     // ── Requête paginée par curseur ────────────────────────────────────────
     // On récupère limit+1 items pour savoir s'il y a une page suivante.
     const items = await prisma.media.findMany({
-      where: { userId: session.user.id },
+      where: buildMediaWhere(workspace.id, parsedFilters.data),
       orderBy: { createdAt: 'desc' },
       take: limit + 1,
       // Si cursor fourni, on reprend APRÈS le curseur (skip le curseur lui-même)
@@ -97,12 +234,14 @@ export async function listMedia(
 
     // ── Déterminer s'il y a une page suivante ─────────────────────────────
     const hasNextPage = items.length > limit
-    const pageItems = hasNextPage ? items.slice(0, limit) : items
+    const pageItems: MediaItem[] = hasNextPage ? items.slice(0, limit) : items
+
+    // ── Utilisation par les posts (badge « N posts », garde-fou de suppression) ─
+    const usage = await getMediaUsage(workspace.id, pageItems.map((item) => item.url))
 
     return {
       data: {
-        // Prisma retourne des objets avec des types compatibles — on cast explicitement
-        items: pageItems as MediaItem[],
+        items: pageItems.map((item) => ({ ...item, usage: usage.get(item.url) ?? NO_MEDIA_USAGE })),
         nextCursor: hasNextPage ? (pageItems[pageItems.length - 1]?.id ?? null) : null,
       },
     }
@@ -112,10 +251,64 @@ export async function listMedia(
   }
 }
 
+/**
+ * Dossiers et tags du workspace proposés par les filtres de la galerie.
+ *
+ * @returns `{ data: MediaFacets }` ou `{ error: string }`
+ *
+ * @example
+ *   const { data } = await listMediaFacets()
+ *   data.tags // → [{ tag: 'printemps', count: 42 }, …]
+ */
+export async function listMediaFacets(): Promise<{ data?: MediaFacets; error?: string }> {
+  // ── Authentification ──────────────────────────────────────────────────────
+  const session = await auth.api.getSession({ headers: await headers() })
+  if (!session) return { error: 'Non authentifié' }
+
+  const workspace = await getWorkspaceContext(session.user.id)
+
+  try {
+    const [folders, tags] = await Promise.all([
+      prisma.mediaFolder.findMany({
+        where: { workspaceId: workspace.id },
+        orderBy: { name: 'asc' },
+        select: { id: true, name: true, _count: { select: { media: true } } },
+      }),
+      // Tags dépliés (unnest) et comptés — non exprimable avec le client Prisma
+      prisma.$queryRaw`
+        SELECT tag, COUNT(*)::int AS count
+        FROM media, unnest(tags) AS tag
+        WHERE "workspaceId" = ${workspace.id}
+        GROUP BY tag
+        ORDER BY count DESC, tag ASC
+        LIMIT ${FACET_TAGS_LIMIT}
+      `,
+    ])
+
+    return {
+      data: {
+        folders: folders.map((f: { id: string; name: string; _count: { media: number } }) => ({
+          id: f.id,
+          name: f.name,
+          mediaCount: f._count.media,
+        })),
+        tags: tags as MediaFacets['tags'],
+      },
+    }
+  } catch (err) {
+    console.error('[listMediaFacets] Erreur DB :', err)
+    return { error: 'Impossible de charger les filtres de la galerie' }
+  }
+}
+
 /**
  * Sauvegarde les métadonnées d'un média après son upload réussi vers Supabase Storage.
  * À appeler côté client une fois le PUT vers le presigned URL réussi.
  *
+ * La taille enregistrée est celle du fichier stocké (celle envoyée par le client
+ * n'est qu'indicative) : un fichier qui dépasse finalement le quota de stockage
+ * est supprimé du bucket et refusé.
+ *
  * @param rawData - Données brutes à valider avec MediaSaveSchema
  * @returns `{ data: MediaItem }` ou `{ error: string }`
  *
@@ -134,26 +327,83 @@ export async function saveMedia(
   const session = await auth.api.getSession({ headers: await headers() })
   if (!session) return { error: 'Non authentifié' }
 
+  const workspace = await getWorkspaceContext(session.user.id)
+  const roleError = workspaceRoleError(workspace.role, 'EDITOR')
+  if (roleError) return { error: roleError }
+
   // ── Validation Zod ────────────────────────────────────────────────────────
   const parsed = MediaSaveSchema.safeParse(rawData)
   if (!parsed.success) {
     return { error: parsed.error.issues[0]?.message ?? 'Données invalides' }
   }
 
-  const { url, filename, mimeType, size } = parsed.data
+  const { url, filename, mimeType, folderId } = parsed.data
+
+  // ── Fichier stocké : dans le dossier de l'utilisateur ─────────────────────
+  const path = extractSupabasePath(url)
+  if (!path.startsWith(`${session.user.id}/`)) return { error: 'Fichier introuvable' }
 
   try {
-    // ── Création de l'entrée en DB ────────────────────────────────────────
-    const media = await prisma.media.create({
-      data: {
-        userId: session.user.id,
-        url,
-        filename,
-        mimeType,
-        size,
-      },
+    // ── Vérification du dossier de destination ────────────────────────────
+    if (folderId) {
+      const folder = await prisma.mediaFolder.findUnique({ where: { id: folderId }, select: { workspaceId: true } })
+      if (!folder || folder.workspaceId !== workspace.id) return { error: 'Dossier introuvable' }
+    }
+
+    // ── Taille réelle et quota de stockage ────────────────────────────────
+    const storage = createServiceClient().storage.from(MEDIA_BUCKET)
+    const { data: stored, error: infoError } = await storage.info(path)
+    if (infoError || !stored) {
+      console.error('[saveMedia] Fichier illisible dans le Storage :', infoError)
+      return { error: 'Fichier introuvable' }
+    }
+    const size = stored.size ?? parsed.data.size
+
+    const quotaError = await checkStoredFileQuota(session.user.id, size)
+    if (quotaError) {
+      const { error: removeError } = await storage.remove([path])
+      if (removeError) console.warn('[saveMedia] Suppression du fichier hors quota échouée :', removeError)
+      return { error: quotaError }
+    }
+
+    // ── Création de l'entrée en DB (+ journal d'audit) ────────────────────
+    const media = await prisma.$transaction(async (tx: typeof prisma) => {
+      const created = await tx.media.create({
+        data: {
+          userId: session.user.id,
+          workspaceId: workspace.id,
+          url,
+          filename,
+          mimeType,
+          size,
+          folderId: folderId ?? null,
+        },
+      })
+      await recordAuditEvents(tx, [{
+        workspaceId: workspace.id,
+        actor: userActor(session.user),
+        entityType: 'MEDIA',
+        entityId: created.id,
+        entityLabel: filename,
+        action: 'CREATED',
+        after: { filename, mimeType, size, url },
+      }])
+      return created
     })
 
+    // ── Traitement asynchrone : sondage, empreintes, variantes par plateforme ─
+    // Non-bloquant : le média est enregistré même si Inngest est indisponible
+    // (il reste PENDING et la publication déduit son type de l'extension).
+    if (!process.env.INNGEST_EVENT_KEY) {
+      console.warn('[saveMedia] INNGEST_EVENT_KEY non défini — traitement du média ignoré (mode local).')
+    } else {
+      try {
+        await inngest.send({ name: 'media/process', data: { mediaId: media.id } })
+      } catch (inngestError) {
+        console.warn('[saveMedia] Inngest send échoué (non-bloquant) :', inngestError)
+      }
+    }
+
     // Revalidation de la page galerie pour le cache Next.js
     revalidatePath('/gallery')
 
@@ -165,8 +415,73 @@ export async function saveMedia(
 }
 
 /**
- * Supprime un média : vérifie l'ownership, efface le fichier de Supabase Storage
- * puis supprime l'entrée en DB.
+ * Modifie le texte alternatif d'un média de la galerie.
+ * Repris par défaut dans les posts qui utilisent ce média (voir lib/media-alt-texts.ts).
+ *
+ * @param rawData - Données brutes à valider avec MediaAltTextSchema
+ * @returns `{ data: MediaItem }` ou `{ error: string }`
+ *
+ * @example
+ *   const { data, error } = await updateMediaAltText({ id: 'clx123', altText: 'Logo de la marque' })
+ */
+export async function updateMediaAltText(
+  rawData: unknown,
+): Promise<{ data?: MediaItem; error?: string }> {
+  // ── Authentification ──────────────────────────────────────────────────────
+  const session = await auth.api.getSession({ headers: await headers() })
+  if (!session) return { error: 'Non authentifié' }
+
+  const workspace = await getWorkspaceContext(session.user.id)
+  const roleError = workspaceRoleError(workspace.role, 'EDITOR')
+  if (roleError) return { error: roleError }
+
+  // ── Validation Zod ────────────────────────────────────────────────────────
+  const parsed = MediaAltTextSchema.safeParse(rawData)
+  if (!parsed.success) {
+    return { error: parsed.error.issues[0]?.message ?? 'Données invalides' }
+  }
+
+  const { id, altText } = parsed.data
+
+  try {
+    // ── Vérification ownership ────────────────────────────────────────────
+    const media = await prisma.media.findUnique({ where: { id } })
+    if (!media) return { error: 'Média introuvable' }
+    if (media.workspaceId !== workspace.id) return { error: 'Accès refusé' }
+
+    // ── Mise à jour en DB (+ journal d'audit) ─────────────────────────────
+    const updated = await prisma.$transaction(async (tx: typeof prisma) => {
+      const saved = await tx.media.update({
+        where: { id },
+        // Chaîne vide → texte alternatif retiré
+        data: { altText: altText || null },
+      })
+      await recordAuditEvents(tx, [{
+        workspaceId: workspace.id,
+        actor: userActor(session.user),
+        entityType: 'MEDIA',
+        entityId: id,
+        entityLabel: media.filename,
+        action: 'UPDATED',
+        before: { altText: media.altText },
+        after: { altText: saved.altText },
+      }])
+      return saved
+    })
+
+    revalidatePath('/gallery')
+
+    return { data: updated as MediaItem }
+  } catch (err) {
+    console.error('[updateMediaAltText] Erreur DB :', err)
+    return { error: 'Impossible de modifier le texte alternatif' }
+  }
+}
+
+/**
+ * Supprime un média : vérifie l'ownership, efface le fichier et ses variantes
+ * par plateforme de Supabase Storage puis supprime l'entrée en DB.
+ * Refusé tant que des posts planifiés l'utilisent (leur publication échouerait).
  *
  * @param id - Identifiant unique du média à supprimer
  * @returns `{}` (succès) ou `{ error: string }`
@@ -182,32 +497,30 @@ export async function deleteMedia(
   const session = await auth.api.getSession({ headers: await headers() })
   if (!session) return { error: 'Non authentifié' }
 
+  const workspace = await getWorkspaceContext(session.user.id)
+  const roleError = workspaceRoleError(workspace.role, 'EDITOR')
+  if (roleError) return { error: roleError }
+
   // ── Validation ────────────────────────────────────────────────────────────
   const parsed = MediaDeleteSchema.safeParse({ id })
   if (!parsed.success) return { error: "ID invalide" }
 
   try {
     // ── Vérification ownership ────────────────────────────────────────────
-    const media = await prisma.media.findUnique({ where: { id } })
+    const media = await prisma.media.findUnique({ where: { id }, select: MEDIA_DELETE_SELECT })
     if (!media) return { error: 'Média introuvable' }
-    if (media.userId !== session.user.id) return { error: 'Accès refusé' }
-
-    // ── Suppression du fichier dans Supabase Storage ──────────────────────
-    const supabase = createServiceClient()
-    const storagePath = extractSupabasePath(media.url)
+    if (media.workspaceId !== workspace.id) return { error: 'Accès refusé' }
 
-    const { error: storageError } = await supabase.storage
-      .from(MEDIA_BUCKET)
-      .remove([storagePath])
+    // ── Garde-fou : posts planifiés ───────────────────────────────────────
+    const usageError = await mediaUsageError([media], workspace.id)
+    if (usageError) return { error: usageError }
 
-    // On log l'erreur Storage mais on continue la suppression DB
-    // (le fichier peut être déjà supprimé ou le chemin incorrect)
-    if (storageError) {
-      console.warn('[deleteMedia] Avertissement Storage :', storageError.message)
-    }
-
-    // ── Suppression de l'entrée en DB ─────────────────────────────────────
-    await prisma.media.delete({ where: { id } })
+    // ── Suppression des fichiers puis de l'entrée en DB (+ journal d'audit) ─
+    await removeMediaFiles([media])
+    await prisma.$transaction(async (tx: typeof prisma) => {
+      await tx.media.delete({ where: { id } })
+      await recordAuditEvents(tx, [deletedMediaAuditEvent(media, workspace.id, session.user)])
+    })
 
     // Revalidation de la page galerie
     revalidatePath('/gallery')
@@ -218,3 +531,206 @@ export async function deleteMedia(
     return { error: 'Impossible de supprimer le média' }
   }
 }
+
+// ─── Actions groupées ─────────────────────────────────────────────────────────
+
+/**
+ * Ajoute et retire des tags sur une sélection de médias.
+ *
+ * @param rawData - Données brutes à valider avec MediaBulkTagSchema
+ * @returns `{ data: MediaItem[] }` (médias mis à jour) ou `{ error: string }`
+ *
+ * @example
+ *   const { data } = await tagMedia({ ids: ['clx1', 'clx2'], add: ['printemps'], remove: ['brouillon'] })
+ */
+export async function tagMedia(
+  rawData: unknown,
+): Promise<{ data?: MediaItem[]; error?: string }> {
+  // ── Authentification ──────────────────────────────────────────────────────
+  const session = await auth.api.getSession({ headers: await headers() })
+  if (!session) return { error: 'Non authentifié' }
+
+  const workspace = await getWorkspaceContext(session.user.id)
+  const roleError = workspaceRoleError(workspace.role, 'EDITOR')
+  if (roleError) return { error: roleError }
+
+  // ── Validation Zod ────────────────────────────────────────────────────────
+  const parsed = MediaBulkTagSchema.safeParse(rawData)
+  if (!parsed.success) {
+    return { error: parsed.error.issues[0]?.message ?? 'Données invalides' }
+  }
+
+  const { ids, add, remove } = parsed.data
+
+  try {
+    // ── Vérification ownership ────────────────────────────────────────────
+    const media: { id: string; workspaceId: string; filename: string; tags: string[] }[] =
+      await prisma.media.findMany({
+        where: { id: { in: ids } },
+        select: { id: true, workspaceId: true, filename: true, tags: true },
+      })
+    const selectionError = mediaSelectionError(media, ids, workspace.id)
+    if (selectionError) return { error: selectionError }
+
+    const changes = media
+      .map((m) => ({ media: m, tags: applyTagChanges(m.tags, { add, remove }) }))
+      .filter(({ media: m, tags }) => tags.join(',') !== m.tags.join(','))
+    if (changes.some(({ tags }) => tags.length > MEDIA_TAGS_MAX)) {
+      return { error: `${MEDIA_TAGS_MAX} tags maximum par média` }
+    }
+
+    // ── Mise à jour en DB (+ journal d'audit) ─────────────────────────────
+    const updated = await prisma.$transaction(async (tx: typeof prisma) => {
+      const saved = await Promise.all(changes.map(({ media: m, tags }) =>
+        tx.media.update({ where: { id: m.id }, data: { tags } }),
+      ))
+      await recordAuditEvents(tx, changes.map(({ media: m, tags }) => ({
+        workspaceId: workspace.id,
+        actor: userActor(session.user),
+        entityType: 'MEDIA' as const,
+        entityId: m.id,
+        entityLabel: m.filename,
+        action: 'UPDATED' as const,
+        before: { tags: m.tags },
+        after: { tags },
+      })))
+      return saved
+    })
+
+    revalidatePath('/gallery')
+
+    return { data: updated as MediaItem[] }
+  } catch (err) {
+    console.error('[tagMedia] Erreur DB :', err)
+    return { error: 'Impossible de modifier les tags' }
+  }
+}
+
+/**
+ * Déplace une sélection de médias dans un dossier (ou hors dossier).
+ *
+ * @param rawData - Données brutes à valider avec MediaMoveSchema
+ * @returns `{}` (succès) ou `{ error: string }`
+ *
+ * @example
+ *   const { error } = await moveMedia({ ids: ['clx1', 'clx2'], folderId: 'fld_1' })
+ */
+export async function moveMedia(
+  rawData: unknown,
+): Promise<{ error?: string }> {
+  // ── Authentification ──────────────────────────────────────────────────────
+  const session = await auth.api.getSession({ headers: await headers() })
+  if (!session) return { error: 'Non authentifié' }
+
+  const workspace = await getWorkspaceContext(session.user.id)
+  const roleError = workspaceRoleError(workspace.role, 'EDITOR')
+  if (roleError) return { error: roleError }
+
+  // ── Validation Zod ────────────────────────────────────────────────────────
+  const parsed = MediaMoveSchema.safeParse(rawData)
+  if (!parsed.success) {
+    return { error: parsed.error.issues[0]?.message ?? 'Données invalides' }
+  }
+
+  const { ids, folderId } = parsed.data
+
+  try {
+    // ── Vérification ownership (médias et dossier) ────────────────────────
+    const folder: { workspaceId: string; name: string } | null = folderId
+      ? await prisma.mediaFolder.findUnique({ where: { id: folderId }, select: { workspaceId: true, name: true } })
+      : null
+    if (folderId && (!folder || folder.workspaceId !== workspace.id)) return { error: 'Dossier introuvable' }
+
+    const media: { id: string; workspaceId: string; filename: string; folderId: string | null; folder: { name: string } | null }[] =
+      await prisma.media.findMany({
+        where: { id: { in: ids } },
+        select: { id: true, workspaceId: true, filename: true, folderId: true, folder: { select: { name: true } } },
+      })
+    const selectionError = mediaSelectionError(media, ids, workspace.id)
+    if (selectionError) return { error: selectionError }
+
+    const moved = media.filter((m) => m.folderId !== folderId)
+    if (moved.length === 0) return {}
+
+    // ── Mise à jour en DB (+ journal d'audit) ─────────────────────────────
+    await prisma.$transaction(async (tx: typeof prisma) => {
+      await tx.media.updateMany({ where: { id: { in: moved.map((m) => m.id) } }, data: { folderId } })
+      await recordAuditEvents(tx, moved.map((m) => ({
+        workspaceId: workspace.id,
+        actor: userActor(session.user),
+        entityType: 'MEDIA' as const,
+        entityId: m.id,
+        entityLabel: m.filename,
+        action: 'UPDATED' as const,
+        // Nom du dossier (lisible dans le journal) plutôt que son ID
+        before: { folder: m.folder?.name ?? null },
+        after: { folder: folder?.name ?? null },
+      })))
+    })
+
+    revalidatePath('/gallery')
+
+    return {}
+  } catch (err) {
+    console.error('[moveMedia] Erreur DB :', err)
+    return { error: 'Impossible de déplacer les médias' }
+  }
+}
+
+/**
+ * Supprime une sélection de médias (fichiers, variantes et entrées en DB).
+ * Refusé si des posts planifiés utilisent l'un des médias : rien n'est supprimé.
+ *
+ * @param rawData - Données brutes à valider avec MediaBulkDeleteSchema
+ * @returns `{}` (succès) ou `{ error: string }`
+ *
+ * @example
+ *   const { error } = await deleteMediaBulk({ ids: ['clx1', 'clx2'] })
+ */
+export async function deleteMediaBulk(
+  rawData: unknown,
+): Promise<{ error?: string }> {
+  // ── Authentification ──────────────────────────────────────────────────────
+  const session = await auth.api.getSession({ headers: await headers() })
+  if (!session) return { error: 'Non authentifié' }
+
+  const workspace = await getWorkspaceContext(session.user.id)
+  const roleError = workspaceRoleError(workspace.role, 'EDITOR')
+  if (roleError) return { error: roleError }
+
+  // ── Validation Zod ────────────────────────────────────────────────────────
+  const parsed = MediaBulkDeleteSchema.safeParse(rawData)
+  if (!parsed.success) {
+    return { error: parsed.error.issues[0]?.message ?? 'Données invalides' }
+  }
+
+  const { ids } = parsed.data
+
+  try {
+    // ── Vérification ownership ────────────────────────────────────────────
+    const media: DeletableMedia[] = await prisma.media.findMany({
+      where: { id: { in: ids } },
+      select: MEDIA_DELETE_SELECT,
+    })
+    const selectionError = mediaSelectionError(media, ids, workspace.id)
+    if (selectionError) return { error: selectionError }
+
+    // ── Garde-fou : posts planifiés ───────────────────────────────────────
+    const usageError = await mediaUsageError(media, workspace.id)
+    if (usageError) return { error: usageError }
+
+    // ── Suppression des fichiers puis des entrées en DB (+ journal d'audit) ─
+    await removeMediaFiles(media)
+    await prisma.$transaction(async (tx: typeof prisma) => {
+      await tx.media.deleteMany({ where: { id: { in: ids } } })
+      await recordAuditEvents(tx, media.map((m) => deletedMediaAuditEvent(m, workspace.id, session.user)))
+    })
+
+    revalidatePath('/gallery')
+
+    return {}
+  } catch (err) {
+    console.error('[deleteMediaBulk] Erreur :', err)
+    return { error: 'Impossible de supprimer les médias' }
+  }
+}
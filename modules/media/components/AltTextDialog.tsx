@@ -0,0 +1,179 @@
+/**
+ * @file modules/media/components/AltTextDialog.tsx
+ * @module media
+ * @description Dialog de saisie du texte alternatif d'une image.
+ *   Le bouton « Suggérer » demande une description au modèle de vision
+ *   (POST /api/gallery/alt-text) : la suggestion remplit le champ, l'utilisateur
+ *   la relit avant d'enregistrer.
+ *
+ *   Partagé par la galerie (MediaCard → updateMediaAltText) et le composer
+ *   (MediaUpload → texte alternatif propre au post).
+ *
+ * @example
+ *   <AltTextDialog
+ *     imageUrl={item.url}
+ *     value={item.altText ?? ''}
+ *     open={altTextOpen}
+ *     onOpenChange={setAltTextOpen}
+ *     onSave={async (altText) => { await updateMediaAltText({ id: item.id, altText }) }}
+ *   />
+ */
+
+'use client'
+
+import { Loader2, Sparkles } from 'lucide-react'
+import { useEffect, useState } from 'react'
+
+import { Button } from '@/components/ui/button'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog'
+import { Textarea } from '@/components/ui/textarea'
+import { ALT_TEXT_MAX_LENGTH } from '@/modules/posts/utils/accessibility'
+
+// ─── Props ────────────────────────────────────────────────────────────────────
+
+interface AltTextDialogProps {
+  /** URL publique de l'image décrite */
+  imageUrl: string
+  /** Texte alternatif actuel (chaîne vide si absent) */
+  value: string
+  /** Texte du post illustré — oriente la suggestion (optionnel) */
+  context?: string
+  /** Contrôle l'ouverture du dialog */
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  /** Enregistre le texte saisi (chaîne vide = texte alternatif retiré) ; une erreur levée est affichée */
+  onSave: (altText: string) => void | Promise<void>
+}
+
+// ─── Composant ────────────────────────────────────────────────────────────────
+
+/**
+ * Saisie du texte alternatif d'une image, avec suggestion par l'IA.
+ */
+export function AltTextDialog({
+  imageUrl,
+  value,
+  context,
+  open,
+  onOpenChange,
+  onSave,
+}: AltTextDialogProps): React.JSX.Element {
+  const [altText, setAltText] = useState(value)
+  const [isSuggesting, setIsSuggesting] = useState(false)
+  const [isSaving, setIsSaving] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  // ── Synchronisation avec la valeur actuelle (à chaque ouverture) ──────────
+  useEffect(() => {
+    if (open) {
+      setAltText(value)
+      setError(null)
+    }
+  }, [open, value])
+
+  /**
+   * Demande une description de l'image au modèle de vision.
+   * Remplace le contenu du champ (l'utilisateur peut encore le modifier).
+   */
+  const handleSuggest = async (): Promise<void> => {
+    setError(null)
+    setIsSuggesting(true)
+    try {
+      const res = await fetch('/api/gallery/alt-text', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ url: imageUrl, ...(context?.trim() ? { context: context.trim() } : {}) }),
+      })
+      const data = (await res.json()) as { altText?: string; error?: string }
+      if (!res.ok || !data.altText) {
+        throw new Error(data.error ?? `Erreur ${res.status}`)
+      }
+      setAltText(data.altText)
+    } catch (err) {
+      console.error('[AltTextDialog] Erreur suggestion :', err)
+      setError(err instanceof Error ? err.message : 'Suggestion impossible. Veuillez réessayer.')
+    } finally {
+      setIsSuggesting(false)
+    }
+  }
+
+  /** Enregistre le texte saisi puis ferme le dialog */
+  const handleSave = async (): Promise<void> => {
+    setError(null)
+    setIsSaving(true)
+    try {
+      await onSave(altText.trim())
+      onOpenChange(false)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Enregistrement impossible')
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  const isBusy = isSuggesting || isSaving
+
+  return (
+    <Dialog open={open} onOpenChange={(isOpen) => !isBusy && onOpenChange(isOpen)}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>Texte alternatif</DialogTitle>
+          <DialogDescription>
+            Décrivez l&apos;image pour les personnes qui utilisent un lecteur d&apos;écran.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-3">
+          {/* eslint-disable-next-line @next/next/no-img-element -- média Supabase de taille inconnue, hors optimisation next/image */}
+          <img
+            src={imageUrl}
+            alt={altText || 'Aperçu de l\'image'}
+            className="max-h-48 w-full rounded-md bg-muted object-contain"
+          />
+          <Textarea
+            value={altText}
+            onChange={(e) => setAltText(e.target.value)}
+            maxLength={ALT_TEXT_MAX_LENGTH}
+            rows={3}
+            placeholder="Ex : Vitrine de la boutique éclairée au coucher du soleil"
+            disabled={isBusy}
+          />
+          <div className="flex items-center justify-between gap-2">
+            <Button
+              type="button"
+              variant="outline"
+              size="sm"
+              className="gap-1.5"
+              onClick={() => void handleSuggest()}
+              disabled={isBusy}
+            >
+              {isSuggesting ? <Loader2 className="size-3.5 animate-spin" /> : <Sparkles className="size-3.5" />}
+              Suggérer
+            </Button>
+            <span className="text-xs text-muted-foreground">
+              {altText.length}/{ALT_TEXT_MAX_LENGTH}
+            </span>
+          </div>
+          {error && <p className="text-sm text-destructive">{error}</p>}
+        </div>
+
+        <DialogFooter>
+          <Button variant="ghost" onClick={() => onOpenChange(false)} disabled={isBusy}>
+            Annuler
+          </Button>
+          <Button onClick={() => void handleSave()} disabled={isBusy}>
+            {isSaving && <Loader2 className="size-4 animate-spin" />}
+            Enregistrer
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -141,7 +141,11 @@ export function ImageEditorDialog({
           body: JSON.stringify({ filename, mimeType, size: blob.size }),
         })
 
-        if (!urlRes.ok) throw new Error("Impossible d'obtenir l'URL d'upload")
+        // Message du serveur (ex: quota de stockage dépassé)
+        if (!urlRes.ok) {
+          const err = (await urlRes.json()) as { error?: string }
+          throw new Error(err.error ?? "Impossible d'obtenir l'URL d'upload")
+        }
 
         const { signedUrl, publicUrl } = (await urlRes.json()) as {
           signedUrl: string
@@ -0,0 +1,205 @@
+/**
+ * @file modules/media/components/MediaBulkBar.tsx
+ * @module media
+ * @description Barre d'actions groupées sur les médias sélectionnés
+ *   (MediaGrid et MediaPicker) :
+ *   - ajouter / retirer un tag (tagMedia)
+ *   - déplacer dans un dossier ou hors dossier (moveMedia)
+ *   - supprimer, après confirmation (deleteMediaBulk)
+ *
+ *   Le parent met à jour sa liste via les callbacks (les médias retirés
+ *   du filtre actif sont rechargés par le parent si nécessaire).
+ *
+ * @example
+ *   <MediaBulkBar
+ *     selectedIds={[...selectedIds]}
+ *     folders={facets.folders}
+ *     onTagged={(items) => mergeItems(items)}
+ *     onMoved={(folderId) => reload()}
+ *     onDeleted={(ids) => removeItems(ids)}
+ *     onClear={() => setSelectedIds(new Set())}
+ *   />
+ */
+
+'use client'
+
+import { FolderInput, Tag, Trash2, X } from 'lucide-react'
+import { useState } from 'react'
+
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { deleteMediaBulk, moveMedia, tagMedia } from '@/modules/media/actions/media.action'
+import type { MediaFolderItem, MediaItem } from '@/modules/media/types'
+import { MEDIA_NO_FOLDER } from '@/modules/media/utils/media-filter'
+
+// ─── Constantes ───────────────────────────────────────────────────────────────
+
+/** Classes du sélecteur de dossier (select natif) */
+const SELECT_CLASSNAME =
+  'h-8 rounded-md border border-input bg-background px-2 text-xs focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring disabled:opacity-50'
+
+// ─── Props ────────────────────────────────────────────────────────────────────
+
+interface MediaBulkBarProps {
+  /** IDs des médias sélectionnés */
+  selectedIds: string[]
+  /** Dossiers proposés pour le déplacement */
+  folders: MediaFolderItem[]
+  /** Médias dont les tags ont changé */
+  onTagged: (items: MediaItem[]) => void
+  /** Sélection déplacée (null = hors dossier) */
+  onMoved: (folderId: string | null) => void
+  /** Sélection supprimée */
+  onDeleted: (ids: string[]) => void
+  /** Vide la sélection */
+  onClear: () => void
+}
+
+// ─── Composant ────────────────────────────────────────────────────────────────
+
+/**
+ * Actions groupées (tag, déplacement, suppression) sur une sélection de médias.
+ */
+export function MediaBulkBar({
+  selectedIds,
+  folders,
+  onTagged,
+  onMoved,
+  onDeleted,
+  onClear,
+}: MediaBulkBarProps): React.JSX.Element | null {
+  /** Tag saisi */
+  const [tag, setTag] = useState('')
+  /** Dossier de destination ('' = aucun choix) */
+  const [folderId, setFolderId] = useState('')
+  /** Confirmation de suppression affichée */
+  const [confirmDelete, setConfirmDelete] = useState(false)
+  /** Action en cours */
+  const [isPending, setIsPending] = useState(false)
+  /** Erreur de la dernière action */
+  const [error, setError] = useState<string | null>(null)
+
+  if (selectedIds.length === 0) return null
+
+  /**
+   * Exécute une action groupée et affiche son erreur éventuelle.
+   *
+   * @returns true si l'action a réussi
+   */
+  const run = async (action: () => Promise<{ error?: string }>): Promise<boolean> => {
+    setIsPending(true)
+    setError(null)
+    const result = await action()
+    setIsPending(false)
+    if (result.error) setError(result.error)
+    return !result.error
+  }
+
+  const handleTag = async (mode: 'add' | 'remove'): Promise<void> => {
+    if (!tag.trim()) return
+    await run(async () => {
+      const result = await tagMedia({ ids: selectedIds, [mode]: [tag] })
+      if (result.data) {
+        onTagged(result.data)
+        setTag('')
+      }
+      return result
+    })
+  }
+
+  const handleMove = async (): Promise<void> => {
+    if (!folderId) return
+    const target = folderId === MEDIA_NO_FOLDER ? null : folderId
+    if (await run(() => moveMedia({ ids: selectedIds, folderId: target }))) {
+      onMoved(target)
+      setFolderId('')
+    }
+  }
+
+  const handleDelete = async (): Promise<void> => {
+    const ids = selectedIds
+    if (await run(() => deleteMediaBulk({ ids }))) onDeleted(ids)
+    setConfirmDelete(false)
+  }
+
+  return (
+    <div className="space-y-1.5 rounded-lg border border-primary/30 bg-primary/5 px-3 py-2">
+      <div className="flex flex-wrap items-center gap-2">
+        <span className="text-xs font-medium text-foreground">
+          {selectedIds.length} sélectionné{selectedIds.length > 1 ? 's' : ''}
+        </span>
+        <button
+          type="button"
+          onClick={onClear}
+          aria-label="Vider la sélection"
+          className="flex size-6 items-center justify-center rounded-full text-muted-foreground hover:bg-muted"
+        >
+          <X className="size-3.5" />
+        </button>
+
+        {/* Tag */}
+        <div className="flex items-center gap-1">
+          <Tag className="size-3.5 text-muted-foreground" />
+          <Input
+            value={tag}
+            onChange={(e) => setTag(e.target.value)}
+            placeholder="Tag"
+            aria-label="Tag à ajouter ou retirer"
+            className="h-8 w-32 text-xs"
+          />
+          <Button size="sm" variant="outline" disabled={isPending || !tag.trim()} onClick={() => void handleTag('add')}>
+            Ajouter
+          </Button>
+          <Button size="sm" variant="ghost" disabled={isPending || !tag.trim()} onClick={() => void handleTag('remove')}>
+            Retirer
+          </Button>
+        </div>
+
+        {/* Déplacement */}
+        <div className="flex items-center gap-1">
+          <FolderInput className="size-3.5 text-muted-foreground" />
+          <select
+            value={folderId}
+            onChange={(e) => setFolderId(e.target.value)}
+            aria-label="Dossier de destination"
+            className={SELECT_CLASSNAME}
+          >
+            <option value="">Déplacer vers…</option>
+            <option value={MEDIA_NO_FOLDER}>Hors dossier</option>
+            {folders.map((folder) => (
+              <option key={folder.id} value={folder.id}>{folder.name}</option>
+            ))}
+          </select>
+          <Button size="sm" variant="outline" disabled={isPending || !folderId} onClick={() => void handleMove()}>
+            Déplacer
+          </Button>
+        </div>
+
+        {/* Suppression (confirmation inline) */}
+        {confirmDelete ? (
+          <div className="flex items-center gap-1">
+            <span className="text-xs text-destructive">Supprimer définitivement ?</span>
+            <Button size="sm" variant="destructive" disabled={isPending} onClick={() => void handleDelete()}>
+              Oui
+            </Button>
+            <Button size="sm" variant="ghost" onClick={() => setConfirmDelete(false)}>
+              Non
+            </Button>
+          </div>
+        ) : (
+          <Button
+            size="sm"
+            variant="ghost"
+            disabled={isPending}
+            onClick={() => setConfirmDelete(true)}
+            className="gap-1 text-destructive hover:text-destructive"
+          >
+            <Trash2 className="size-3.5" />
+            Supprimer
+          </Button>
+        )}
+      </div>
+      {error && <p className="text-xs text-destructive">{error}</p>}
+    </div>
+  )
+}
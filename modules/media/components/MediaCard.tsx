@@ -5,29 +5,38 @@
  *
  *   Affiche :
  *   - Image : miniature en ratio 4:3 avec `object-cover`
- *   - Vidéo : fond gris + badge "Vidéo"
- *   - Overlay au survol : nom de fichier, taille, bouton ✏️ (images uniquement), bouton 🗑️
+ *   - Vidéo : fond gris + badge "Vidéo", durée et résolution sondées (ou format non reconnu),
+ *     avertissement si une variante par plateforme n'a pas pu être générée
+ *   - Overlay au survol : nom de fichier, taille, bouton ✏️ et bouton ALT (images uniquement), bouton 🗑️
+ *   - Badge « ALT » permanent quand l'image a un texte alternatif
+ *   - Badge « N posts » quand des posts utilisent le média (item.usage)
+ *   - Tags sous le nom de fichier, case de sélection pour les actions groupées (si onToggleSelect)
  *
- *   Le bouton 🗑️ demande une confirmation inline avant de déclencher onDelete().
+ *   Le bouton 🗑️ demande une confirmation inline avant de déclencher onDelete() :
+ *   impossible si des posts planifiés utilisent le média, avertissement si d'autres
+ *   posts l'utilisent. Une erreur levée par onDelete() est affichée sur la carte.
  *   Le bouton ✏️ ouvre l'ImageEditorDialog (images seulement, masqué pour les vidéos).
+ *   Le bouton ALT ouvre l'AltTextDialog (saisie ou suggestion IA, enregistrée via updateMediaAltText).
  *
  * @example
  *   <MediaCard
  *     item={mediaItem}
  *     onDelete={async () => { await deleteMedia(mediaItem.id) }}
  *     onMediaUpdated={(newUrl) => { /* rafraîchit la grille * / }}
+ *     onAltTextUpdated={(altText) => { /* met à jour l'item * / }}
  *   />
  */
 
 'use client'
 
-import { Pencil, Trash2 } from 'lucide-react'
+import { Check, Pencil, Trash2 } from 'lucide-react'
 import { useState } from 'react'
 
-import { isVideoUrl, formatFileSize } from '@/modules/posts/utils/media.utils'
+import { isVideoUrl, formatDuration, formatFileSize } from '@/modules/posts/utils/media.utils'
 import type { MediaItem } from '@/modules/media/types'
+import { AltTextDialog } from './AltTextDialog'
 import { ImageEditorDialog } from './ImageEditorDialog'
-import { saveMedia } from '@/modules/media/actions/media.action'
+import { saveMedia, updateMediaAltText } from '@/modules/media/actions/media.action'
 
 // ─── Props ────────────────────────────────────────────────────────────────────
 
@@ -36,7 +45,8 @@ interface MediaCardProps {
   item: MediaItem
   /**
    * Callback appelé après confirmation de suppression.
-   * La suppression physique (Storage + DB) est gérée par le parent (MediaGrid).
+   * La suppression physique (Storage + DB) est gérée par le parent (MediaGrid),
+   * qui lève une erreur si elle est refusée.
    */
   onDelete: () => Promise<void>
   /**
@@ -44,6 +54,12 @@ interface MediaCardProps {
    * Le parent met à jour la liste avec la nouvelle URL.
    */
   onMediaUpdated: (newUrl: string) => void
+  /** Callback appelé après enregistrement du texte alternatif (null = retiré) */
+  onAltTextUpdated: (altText: string | null) => void
+  /** Média sélectionné pour une action groupée */
+  selected?: boolean
+  /** Bascule la sélection (case affichée si fourni) */
+  onToggleSelect?: () => void
 }
 
 // ─── Composant ────────────────────────────────────────────────────────────────
@@ -51,25 +67,42 @@ interface MediaCardProps {
 /**
  * Carte d'un média dans la galerie avec overlay actions au survol.
  */
-export function MediaCard({ item, onDelete, onMediaUpdated }: MediaCardProps): React.JSX.Element {
+export function MediaCard({
+  item,
+  onDelete,
+  onMediaUpdated,
+  onAltTextUpdated,
+  selected = false,
+  onToggleSelect,
+}: MediaCardProps): React.JSX.Element {
   /** Indique si l'overlay de suppression (confirmation) est visible */
   const [confirmDelete, setConfirmDelete] = useState(false)
   /** Indique si la suppression est en cours */
   const [isDeleting, setIsDeleting] = useState(false)
+  /** Erreur de la dernière suppression (ex: média utilisé par un post planifié) */
+  const [deleteError, setDeleteError] = useState<string | null>(null)
   /** Contrôle l'ouverture de l'éditeur d'image Filerobot */
   const [editorOpen, setEditorOpen] = useState(false)
+  /** Contrôle l'ouverture du dialog de texte alternatif */
+  const [altTextOpen, setAltTextOpen] = useState(false)
 
   // Détecte le type depuis l'URL (extension) car mimeType stocké en DB peut être "video/*"
   const isVideo = isVideoUrl(item.url) || item.mimeType.startsWith('video/')
 
+  const postCount = item.usage?.postCount ?? 0
+  const scheduledPostCount = item.usage?.scheduledPostCount ?? 0
+
   /**
    * Déclenche la suppression après confirmation.
    * Désactive le bouton pendant l'opération.
    */
   const handleDelete = async (): Promise<void> => {
     setIsDeleting(true)
+    setDeleteError(null)
     try {
       await onDelete()
+    } catch (err) {
+      setDeleteError(err instanceof Error ? err.message : 'Impossible de supprimer le média')
     } finally {
       setIsDeleting(false)
       setConfirmDelete(false)
@@ -83,21 +116,39 @@ export function MediaCard({ item, onDelete, onMediaUpdated }: MediaCardProps): R
    * @param newUrl - URL publique Supabase du fichier édité re-uploadé
    */
   const handleEditorSave = async (newUrl: string): Promise<void> => {
-    // Mettre à jour les métadonnées en DB (nouvelle URL, même filename/mimeType/size)
+    // Mettre à jour les métadonnées en DB (nouvelle URL, même filename/mimeType/size/dossier)
     await saveMedia({
       url: newUrl,
       filename: item.filename,
       mimeType: item.mimeType,
       size: item.size,
+      ...(item.folderId && { folderId: item.folderId }),
     })
     onMediaUpdated(newUrl)
     setEditorOpen(false)
   }
 
+  /**
+   * Enregistre le texte alternatif en DB et notifie le parent.
+   * Une erreur serveur est levée pour être affichée dans le dialog.
+   *
+   * @param altText - Texte saisi (chaîne vide = retiré)
+   */
+  const handleAltTextSave = async (altText: string): Promise<void> => {
+    const { data, error } = await updateMediaAltText({ id: item.id, altText })
+    if (error) throw new Error(error)
+    onAltTextUpdated(data?.altText ?? null)
+  }
+
   return (
     <>
       {/* ── Carte ──────────────────────────────────────────────────────────── */}
-      <div className="group relative aspect-[4/3] overflow-hidden rounded-lg border border-border bg-muted">
+      <div
+        className={[
+          'group relative aspect-[4/3] overflow-hidden rounded-lg border bg-muted',
+          selected ? 'border-primary ring-2 ring-primary/30' : 'border-border',
+        ].join(' ')}
+      >
 
         {/* ── Contenu principal (image ou placeholder vidéo) ─────────────── */}
         {isVideo ? (
@@ -106,17 +157,59 @@ export function MediaCard({ item, onDelete, onMediaUpdated }: MediaCardProps): R
             <div className="rounded-md bg-muted-foreground/20 px-2 py-0.5">
               <span className="text-xs font-medium text-muted-foreground">Vidéo</span>
             </div>
+            {/* Caractéristiques sondées après l'upload (durée, résolution) */}
+            {item.processingStatus === 'FAILED' ? (
+              <span className="text-[10px] text-destructive" title={item.processingError ?? undefined}>
+                Format non reconnu
+              </span>
+            ) : item.durationMs !== null && (
+              <span className="text-[10px] text-muted-foreground">
+                {formatDuration(item.durationMs)}
+                {item.width && item.height ? ` · ${item.width}×${item.height}` : ''}
+              </span>
+            )}
+            {/* Variante non générée : la publication sur la plateforme concernée échouera */}
+            {item.processingStatus === 'READY' && item.processingError && (
+              <span className="px-2 text-center text-[10px] text-amber-600" title={item.processingError}>
+                Conversion impossible pour certains réseaux
+              </span>
+            )}
           </div>
         ) : (
           // Image : miniature pleine taille
           <img
             src={item.url}
-            alt={item.filename}
+            alt={item.altText ?? item.filename}
             className="size-full object-cover transition-transform duration-200 group-hover:scale-105"
             loading="lazy"
           />
         )}
 
+        {/* Badge ALT : l'image a un texte alternatif (masqué au survol par l'overlay) */}
+        {!isVideo && item.altText && (
+          <span
+            title={item.altText}
+            className="absolute bottom-1.5 left-1.5 rounded bg-black/60 px-1 text-[10px] font-semibold text-white group-hover:opacity-0"
+          >
+            ALT
+          </span>
+        )}
+
+        {/* Badge d'utilisation : posts qui référencent le média (masqué au survol) */}
+        {postCount > 0 && (
+          <span
+            title={`Utilisé dans ${postCount} post${postCount > 1 ? 's' : ''}${
+              scheduledPostCount > 0 ? `, dont ${scheduledPostCount} planifié${scheduledPostCount > 1 ? 's' : ''}` : ''
+            }`}
+            className={[
+              'absolute left-1.5 top-1.5 rounded px-1 text-[10px] font-semibold text-white group-hover:opacity-0',
+              scheduledPostCount > 0 ? 'bg-primary/90' : 'bg-black/60',
+            ].join(' ')}
+          >
+            {postCount} post{postCount > 1 ? 's' : ''}
+          </span>
+        )}
+
         {/* ── Overlay au survol ──────────────────────────────────────────── */}
         <div className="absolute inset-0 flex flex-col justify-between bg-black/0 p-1.5 opacity-0 transition-all duration-150 group-hover:bg-black/40 group-hover:opacity-100">
 
@@ -124,14 +217,25 @@ export function MediaCard({ item, onDelete, onMediaUpdated }: MediaCardProps): R
           <div className="flex items-start justify-between gap-1">
             {/* ✏️ Bouton édition — images uniquement */}
             {!isVideo && !confirmDelete && (
-              <button
-                type="button"
-                onClick={() => setEditorOpen(true)}
-                aria-label={`Éditer ${item.filename}`}
-                className="flex size-6 items-center justify-center rounded-full bg-black/60 text-white transition-colors hover:bg-black/80"
-              >
-                <Pencil className="size-3" />
-              </button>
+              <div className="flex items-center gap-1">
+                <button
+                  type="button"
+                  onClick={() => setEditorOpen(true)}
+                  aria-label={`Éditer ${item.filename}`}
+                  className="flex size-6 items-center justify-center rounded-full bg-black/60 text-white transition-colors hover:bg-black/80"
+                >
+                  <Pencil className="size-3" />
+                </button>
+                {/* Texte alternatif (accessibilité) */}
+                <button
+                  type="button"
+                  onClick={() => setAltTextOpen(true)}
+                  aria-label={`Texte alternatif de ${item.filename}`}
+                  className="flex h-6 items-center justify-center rounded-full bg-black/60 px-1.5 text-[10px] font-semibold text-white transition-colors hover:bg-black/80"
+                >
+                  ALT
+                </button>
+              </div>
             )}
             {/* Spacer si pas de bouton édition (vidéo) */}
             {isVideo && <span />}
@@ -143,7 +247,7 @@ export function MediaCard({ item, onDelete, onMediaUpdated }: MediaCardProps): R
                 <button
                   type="button"
                   onClick={handleDelete}
-                  disabled={isDeleting}
+                  disabled={isDeleting || scheduledPostCount > 0}
                   aria-label="Confirmer la suppression"
                   className="rounded bg-destructive px-1.5 py-0.5 text-[10px] font-medium text-destructive-foreground hover:bg-destructive/90 disabled:opacity-50"
                 >
@@ -170,6 +274,15 @@ export function MediaCard({ item, onDelete, onMediaUpdated }: MediaCardProps): R
             )}
           </div>
 
+          {/* Conséquences de la suppression (posts qui utilisent le média) */}
+          {confirmDelete && (scheduledPostCount > 0 || postCount > 0) && (
+            <p className="rounded bg-black/70 px-1.5 py-1 text-[10px] leading-tight text-white">
+              {scheduledPostCount > 0
+                ? `Utilisé par ${scheduledPostCount} post${scheduledPostCount > 1 ? 's' : ''} planifié${scheduledPostCount > 1 ? 's' : ''} : retirez-le de ces posts avant de le supprimer`
+                : `Utilisé dans ${postCount} post${postCount > 1 ? 's' : ''} : ils perdront ce média`}
+            </p>
+          )}
+
           {/* Métadonnées (bas de la carte) */}
           {!confirmDelete && (
             <div className="space-y-0.5">
@@ -179,9 +292,35 @@ export function MediaCard({ item, onDelete, onMediaUpdated }: MediaCardProps): R
               <p className="text-[10px] text-white/70">
                 {formatFileSize(item.size)}
               </p>
+              {item.tags.length > 0 && (
+                <p className="truncate text-[10px] text-white/70">
+                  {item.tags.map((tag) => `#${tag}`).join(' ')}
+                </p>
+              )}
+              {deleteError && (
+                <p className="text-[10px] font-medium text-red-300">{deleteError}</p>
+              )}
             </div>
           )}
         </div>
+
+        {/* Case de sélection (actions groupées) — visible au survol ou une fois cochée */}
+        {onToggleSelect && !confirmDelete && (
+          <button
+            type="button"
+            onClick={onToggleSelect}
+            aria-pressed={selected}
+            aria-label={`${selected ? 'Désélectionner' : 'Sélectionner'} ${item.filename}`}
+            className={[
+              'absolute bottom-1.5 right-1.5 flex size-5 items-center justify-center rounded-full border-2 transition-all',
+              selected
+                ? 'border-primary bg-primary text-primary-foreground'
+                : 'border-white/70 bg-black/40 text-transparent opacity-0 group-hover:opacity-100',
+            ].join(' ')}
+          >
+            <Check className="size-3" strokeWidth={3} />
+          </button>
+        )}
       </div>
 
       {/* ── Éditeur d'image Filerobot ─────────────────────────────────────── */}
@@ -193,6 +332,17 @@ export function MediaCard({ item, onDelete, onMediaUpdated }: MediaCardProps): R
           onSave={handleEditorSave}
         />
       )}
+
+      {/* ── Texte alternatif ──────────────────────────────────────────────── */}
+      {!isVideo && (
+        <AltTextDialog
+          imageUrl={item.url}
+          value={item.altText ?? ''}
+          open={altTextOpen}
+          onOpenChange={setAltTextOpen}
+          onSave={handleAltTextSave}
+        />
+      )}
     </>
   )
 }
@@ -0,0 +1,218 @@
+/**
+ * @file modules/media/components/MediaDuplicates.tsx
+ * @module media
+ * @description Vue « Doublons » de la galerie (onglet de MediaGrid) : médias
+ *   identiques ou visuellement proches regroupés, pour un nettoyage groupé.
+ *
+ *   Fonctionnalités :
+ *   - Charge les groupes via listDuplicateMedia() au montage
+ *   - Un groupe par ligne, du plus ancien (l'original) au plus récent (les copies)
+ *   - « Sélectionner les copies » : coche tout sauf l'original, par groupe ou
+ *     pour toute la galerie
+ *   - Actions groupées (MediaBulkBar) et actions de carte (MediaCard) ; la
+ *     suppression reste refusée pour les médias dont dépendent des posts planifiés
+ *   - Un média est comparé une fois ses empreintes calculées par le serveur
+ *     (quelques minutes après l'import ; la nuit suivante pour les anciens médias)
+ *
+ * @example
+ *   <MediaDuplicates
+ *     folders={facets.folders}
+ *     onDeleted={(ids) => removeItems(ids)}
+ *   />
+ */
+
+'use client'
+
+import { CopyCheck, Loader2 } from 'lucide-react'
+import { useCallback, useEffect, useState } from 'react'
+
+import { Button } from '@/components/ui/button'
+import { listDuplicateMedia } from '@/modules/media/actions/media-duplicate.action'
+import { deleteMedia } from '@/modules/media/actions/media.action'
+import type { MediaFolderItem, MediaItem } from '@/modules/media/types'
+
+import { MediaBulkBar } from './MediaBulkBar'
+import { MediaCard } from './MediaCard'
+
+// ─── Props ────────────────────────────────────────────────────────────────────
+
+interface MediaDuplicatesProps {
+  /** Dossiers proposés pour le déplacement groupé */
+  folders: MediaFolderItem[]
+  /** Médias supprimés depuis la vue (le parent met à jour sa liste) */
+  onDeleted: (ids: string[]) => void
+}
+
+// ─── Helpers ──────────────────────────────────────────────────────────────────
+
+/** IDs des copies d'un groupe (tout sauf l'original, le plus ancien) */
+const copyIds = (group: MediaItem[]): string[] => group.slice(1).map((m) => m.id)
+
+// ─── Composant ────────────────────────────────────────────────────────────────
+
+/**
+ * Groupes de doublons de la galerie, avec sélection des copies et suppression groupée.
+ */
+export function MediaDuplicates({ folders, onDeleted }: MediaDuplicatesProps): React.JSX.Element {
+  /** Groupes de doublons (chaque groupe : original puis copies) */
+  const [groups, setGroups] = useState<MediaItem[][]>([])
+  /** Chargement des groupes en cours */
+  const [isLoading, setIsLoading] = useState(true)
+  /** Erreur de chargement */
+  const [error, setError] = useState<string | null>(null)
+  /** IDs des médias sélectionnés pour une action groupée */
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set())
+
+  // ─── Chargement ──────────────────────────────────────────────────────────
+
+  useEffect(() => {
+    void listDuplicateMedia().then(({ data, error: loadError }) => {
+      setIsLoading(false)
+      if (loadError || !data) {
+        setError(loadError ?? 'Impossible de charger les doublons')
+        return
+      }
+      setGroups(data)
+    })
+  }, [])
+
+  // ─── Mises à jour locales ─────────────────────────────────────────────────
+
+  /** Applique une modification aux médias, en retirant les groupes réduits à un seul média */
+  const updateGroups = useCallback((update: (group: MediaItem[]) => MediaItem[]): void => {
+    setGroups((prev) => prev.map(update).filter((group) => group.length > 1))
+  }, [])
+
+  /** Retire des médias supprimés des groupes, de la sélection et de la liste du parent */
+  const removeMedia = useCallback((ids: string[]): void => {
+    const deleted = new Set(ids)
+    updateGroups((group) => group.filter((m) => !deleted.has(m.id)))
+    setSelectedIds((prev) => new Set([...prev].filter((id) => !deleted.has(id))))
+    onDeleted(ids)
+  }, [updateGroups, onDeleted])
+
+  /** Supprime un média depuis sa carte (erreur affichée sur la carte) */
+  const handleDelete = useCallback(async (id: string): Promise<void> => {
+    const { error: deleteError } = await deleteMedia(id)
+    if (deleteError) throw new Error(deleteError)
+    removeMedia([id])
+  }, [removeMedia])
+
+  /** Met à jour les médias dont les tags ont changé */
+  const handleTagged = useCallback((updated: MediaItem[]): void => {
+    const byId = new Map(updated.map((m) => [m.id, m]))
+    updateGroups((group) => group.map((m) => {
+      const saved = byId.get(m.id)
+      return saved ? { ...m, tags: saved.tags } : m
+    }))
+  }, [updateGroups])
+
+  /** Bascule la sélection d'un média */
+  const toggleSelect = useCallback((id: string): void => {
+    setSelectedIds((prev) => {
+      const next = new Set(prev)
+      if (next.has(id)) next.delete(id)
+      else next.add(id)
+      return next
+    })
+  }, [])
+
+  /** Ajoute des médias à la sélection */
+  const select = useCallback((ids: string[]): void => {
+    setSelectedIds((prev) => new Set([...prev, ...ids]))
+  }, [])
+
+  // ─── Rendu ────────────────────────────────────────────────────────────────
+
+  if (isLoading) {
+    return (
+      <div className="flex justify-center py-12">
+        <Loader2 className="size-5 animate-spin text-muted-foreground" />
+      </div>
+    )
+  }
+
+  if (error) {
+    return (
+      <div className="rounded-lg bg-destructive/10 px-4 py-3 text-sm text-destructive">{error}</div>
+    )
+  }
+
+  if (groups.length === 0) {
+    return (
+      <div className="rounded-lg border border-dashed border-border bg-muted/20 py-12 text-center">
+        <p className="text-sm text-muted-foreground">Aucun doublon dans votre galerie</p>
+        <p className="mt-1 text-xs text-muted-foreground/60">
+          Les médias tout juste importés sont comparés après quelques minutes
+        </p>
+      </div>
+    )
+  }
+
+  const copyCount = groups.reduce((total, group) => total + group.length - 1, 0)
+
+  return (
+    <div className="space-y-6">
+      {/* ── Résumé et sélection de toutes les copies ─────────────────────── */}
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <p className="text-sm text-muted-foreground">
+          {groups.length} groupe{groups.length > 1 ? 's' : ''} · {copyCount} copie{copyCount > 1 ? 's' : ''}
+        </p>
+        <Button
+          type="button"
+          variant="outline"
+          size="sm"
+          className="gap-1.5"
+          onClick={() => select(groups.flatMap(copyIds))}
+        >
+          <CopyCheck className="size-3.5" />
+          Sélectionner toutes les copies
+        </Button>
+      </div>
+
+      <MediaBulkBar
+        selectedIds={[...selectedIds]}
+        folders={folders}
+        onTagged={handleTagged}
+        onMoved={() => setSelectedIds(new Set())}
+        onDeleted={removeMedia}
+        onClear={() => setSelectedIds(new Set())}
+      />
+
+      {/* ── Groupes ──────────────────────────────────────────────────────── */}
+      {groups.map((group) => (
+        <section key={group[0]?.id} className="space-y-3">
+          <div className="flex items-center justify-between gap-2">
+            <h3 className="text-xs font-medium text-muted-foreground uppercase tracking-wide">
+              {group.length} exemplaires
+            </h3>
+            <Button type="button" variant="ghost" size="sm" onClick={() => select(copyIds(group))}>
+              Sélectionner les copies
+            </Button>
+          </div>
+          <div className="grid grid-cols-2 gap-3 sm:grid-cols-3 lg:grid-cols-4">
+            {group.map((item, index) => (
+              <div key={item.id} className="space-y-1">
+                <MediaCard
+                  item={item}
+                  onDelete={() => handleDelete(item.id)}
+                  onMediaUpdated={(newUrl) => updateGroups((g) => g.map((m) => (m.id === item.id ? { ...m, url: newUrl } : m)))}
+                  onAltTextUpdated={(altText) => updateGroups((g) => g.map((m) => (m.id === item.id ? { ...m, altText } : m)))}
+                  selected={selectedIds.has(item.id)}
+                  onToggleSelect={() => toggleSelect(item.id)}
+                />
+                <p className="truncate text-xs text-muted-foreground" title={item.filename}>
+                  <span className={index === 0 ? 'font-medium text-primary' : ''}>
+                    {index === 0 ? 'Original' : 'Copie'}
+                  </span>
+                  {' · '}
+                  {item.filename}
+                </p>
+              </div>
+            ))}
+          </div>
+        </section>
+      ))}
+    </div>
+  )
+}
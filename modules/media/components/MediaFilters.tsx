@@ -0,0 +1,294 @@
+/**
+ * @file modules/media/components/MediaFilters.tsx
+ * @module media
+ * @description Barre de filtres de la galerie, partagée par MediaGrid et MediaPicker.
+ *
+ *   - Recherche plein texte (nom, texte alternatif, tags) — appliquée après 300 ms de pause
+ *   - Puces de type (Tout / Images / Vidéos)
+ *   - Puces de dossier (Tous, Hors dossier, dossiers du workspace)
+ *     + création, renommage et suppression de dossier si `manageFolders`
+ *   - Puces des tags les plus utilisés (un tag actif à la fois)
+ *   - Intervalle de dates d'import (DateRangeFilter)
+ *
+ *   Tous les filtres se combinent en ET ; le parent recharge la liste à chaque changement.
+ *
+ * @example
+ *   <MediaFilters
+ *     filter={filter}
+ *     onChange={setFilter}
+ *     facets={facets}
+ *     onFacetsChange={refreshFacets}
+ *     manageFolders
+ *   />
+ */
+
+'use client'
+
+import { format } from 'date-fns'
+import { FolderPlus, Pencil, Search, X } from 'lucide-react'
+import { useEffect, useState } from 'react'
+
+import { Input } from '@/components/ui/input'
+import { deleteMediaFolder, saveMediaFolder } from '@/modules/media/actions/media-folder.action'
+import type { MediaFilter } from '@/modules/media/schemas/media.schema'
+import type { MediaFacets } from '@/modules/media/types'
+import { MEDIA_NO_FOLDER } from '@/modules/media/utils/media-filter'
+import { DateRangeFilter } from '@/modules/posts/components/PostComposeList/DateRangeFilter'
+
+import type { DateRange } from 'react-day-picker'
+
+// ─── Constantes ───────────────────────────────────────────────────────────────
+
+/** Délai avant application de la recherche saisie (ms) */
+const SEARCH_DEBOUNCE_MS = 300
+
+/** Classes d'une puce de filtre (active ou non) */
+function chipClassName(isActive: boolean): string {
+  return [
+    'flex items-center gap-1 rounded-full border px-2.5 py-1 text-xs transition-colors',
+    isActive
+      ? 'border-primary bg-primary/10 font-medium text-primary'
+      : 'border-border text-muted-foreground hover:bg-muted hover:text-foreground',
+  ].join(' ')
+}
+
+// ─── Props ────────────────────────────────────────────────────────────────────
+
+interface MediaFiltersProps {
+  /** Filtres actifs */
+  filter: MediaFilter
+  /** Callback à chaque changement de filtre */
+  onChange: (filter: MediaFilter) => void
+  /** Dossiers et tags proposés */
+  facets: MediaFacets
+  /** Callback après création / renommage / suppression d'un dossier (recharger les facettes) */
+  onFacetsChange: () => void
+  /** Affiche la gestion des dossiers (galerie) — absente du picker */
+  manageFolders?: boolean
+}
+
+// ─── Composant ────────────────────────────────────────────────────────────────
+
+/**
+ * Filtres de la galerie (recherche, type, dossier, tag, dates).
+ */
+export function MediaFilters({
+  filter,
+  onChange,
+  facets,
+  onFacetsChange,
+  manageFolders = false,
+}: MediaFiltersProps): React.JSX.Element {
+  /** Saisie de recherche (appliquée après SEARCH_DEBOUNCE_MS) */
+  const [search, setSearch] = useState(filter.search ?? '')
+  /** Nom saisi dans l'éditeur de dossier — null = éditeur fermé */
+  const [folderName, setFolderName] = useState<string | null>(null)
+  /** Dossier renommé par l'éditeur (null = création) */
+  const [renamingId, setRenamingId] = useState<string | null>(null)
+  /** Erreur de la dernière opération sur un dossier */
+  const [folderError, setFolderError] = useState<string | null>(null)
+
+  // ── Recherche (debounce) ─────────────────────────────────────────────────
+
+  useEffect(() => {
+    if (search.trim() === (filter.search ?? '')) return
+    const timer = setTimeout(() => onChange({ ...filter, search: search.trim() || undefined }), SEARCH_DEBOUNCE_MS)
+    return () => clearTimeout(timer)
+  }, [search, filter, onChange])
+
+  // ── Dates ────────────────────────────────────────────────────────────────
+
+  const dateRange: DateRange | undefined = filter.from
+    ? {
+        from: new Date(`${filter.from}T00:00:00`),
+        to: filter.to ? new Date(`${filter.to}T00:00:00`) : undefined,
+      }
+    : undefined
+
+  const handleDateRangeChange = (range: DateRange | undefined): void => {
+    onChange({
+      ...filter,
+      from: range?.from ? format(range.from, 'yyyy-MM-dd') : undefined,
+      to: range?.from ? format(range.to ?? range.from, 'yyyy-MM-dd') : undefined,
+    })
+  }
+
+  // ── Dossiers ─────────────────────────────────────────────────────────────
+
+  const activeFolder = facets.folders.find((f) => f.id === filter.folderId)
+
+  /** Ouvre l'éditeur de dossier (création, ou renommage du dossier actif) */
+  const openFolderEditor = (renaming: boolean): void => {
+    setRenamingId(renaming && activeFolder ? activeFolder.id : null)
+    setFolderName(renaming && activeFolder ? activeFolder.name : '')
+    setFolderError(null)
+  }
+
+  /** Crée ou renomme le dossier, puis sélectionne le dossier créé */
+  const handleFolderSubmit = async (): Promise<void> => {
+    if (folderName === null) return
+    const { data, error } = await saveMediaFolder({ ...(renamingId && { id: renamingId }), name: folderName })
+    if (error || !data) {
+      setFolderError(error ?? "Impossible d'enregistrer le dossier")
+      return
+    }
+    setFolderName(null)
+    onFacetsChange()
+    if (!renamingId) onChange({ ...filter, folderId: data.id })
+  }
+
+  /** Supprime le dossier actif (ses médias passent hors dossier) */
+  const handleFolderDelete = async (): Promise<void> => {
+    if (!activeFolder) return
+    const { error } = await deleteMediaFolder(activeFolder.id)
+    if (error) {
+      setFolderError(error)
+      return
+    }
+    onFacetsChange()
+    onChange({ ...filter, folderId: undefined })
+  }
+
+  // ── Rendu ────────────────────────────────────────────────────────────────
+
+  return (
+    <div className="space-y-3">
+      {/* Recherche + type + dates */}
+      <div className="flex flex-wrap items-center gap-2">
+        <div className="relative min-w-48 flex-1">
+          <Search className="absolute left-2.5 top-1/2 size-3.5 -translate-y-1/2 text-muted-foreground" />
+          <Input
+            type="search"
+            value={search}
+            onChange={(e) => setSearch(e.target.value)}
+            placeholder="Rechercher (nom, texte alternatif, tag)…"
+            aria-label="Rechercher dans la galerie"
+            className="h-8 pl-8 text-xs"
+          />
+        </div>
+
+        {([undefined, 'image', 'video'] as const).map((kind) => (
+          <button
+            key={kind ?? 'all'}
+            type="button"
+            onClick={() => onChange({ ...filter, kind })}
+            aria-pressed={filter.kind === kind}
+            className={chipClassName(filter.kind === kind)}
+          >
+            {kind === 'image' ? 'Images' : kind === 'video' ? 'Vidéos' : 'Tout'}
+          </button>
+        ))}
+
+        <DateRangeFilter dateRange={dateRange} onChange={handleDateRangeChange} />
+      </div>
+
+      {/* Dossiers */}
+      <div className="flex flex-wrap items-center gap-1.5">
+        <button
+          type="button"
+          onClick={() => onChange({ ...filter, folderId: undefined })}
+          aria-pressed={!filter.folderId}
+          className={chipClassName(!filter.folderId)}
+        >
+          Tous les dossiers
+        </button>
+        <button
+          type="button"
+          onClick={() => onChange({ ...filter, folderId: MEDIA_NO_FOLDER })}
+          aria-pressed={filter.folderId === MEDIA_NO_FOLDER}
+          className={chipClassName(filter.folderId === MEDIA_NO_FOLDER)}
+        >
+          Hors dossier
+        </button>
+        {facets.folders.map((folder) => (
+          <button
+            key={folder.id}
+            type="button"
+            onClick={() => onChange({ ...filter, folderId: folder.id })}
+            aria-pressed={filter.folderId === folder.id}
+            className={chipClassName(filter.folderId === folder.id)}
+          >
+            {folder.name}
+            <span className="text-[10px] opacity-60">{folder.mediaCount}</span>
+          </button>
+        ))}
+
+        {/* Gestion des dossiers (galerie uniquement) */}
+        {manageFolders && folderName === null && (
+          <>
+            <button
+              type="button"
+              onClick={() => openFolderEditor(false)}
+              className="flex items-center gap-1 rounded-full px-2 py-1 text-xs text-muted-foreground hover:text-foreground"
+            >
+              <FolderPlus className="size-3.5" />
+              Dossier
+            </button>
+            {activeFolder && (
+              <>
+                <button
+                  type="button"
+                  onClick={() => openFolderEditor(true)}
+                  aria-label={`Renommer le dossier ${activeFolder.name}`}
+                  className="flex size-6 items-center justify-center rounded-full text-muted-foreground hover:bg-muted hover:text-foreground"
+                >
+                  <Pencil className="size-3" />
+                </button>
+                <button
+                  type="button"
+                  onClick={() => void handleFolderDelete()}
+                  aria-label={`Supprimer le dossier ${activeFolder.name}`}
+                  title="Supprimer le dossier (les médias restent dans la galerie)"
+                  className="flex size-6 items-center justify-center rounded-full text-muted-foreground hover:bg-destructive/10 hover:text-destructive"
+                >
+                  <X className="size-3.5" />
+                </button>
+              </>
+            )}
+          </>
+        )}
+        {manageFolders && folderName !== null && (
+          <form
+            onSubmit={(e) => {
+              e.preventDefault()
+              void handleFolderSubmit()
+            }}
+            className="flex items-center gap-1"
+          >
+            <Input
+              autoFocus
+              value={folderName}
+              onChange={(e) => setFolderName(e.target.value)}
+              onKeyDown={(e) => e.key === 'Escape' && setFolderName(null)}
+              placeholder="Nom du dossier"
+              aria-label="Nom du dossier"
+              className="h-7 w-40 text-xs"
+            />
+            <button type="submit" className="rounded-md px-2 py-1 text-xs font-medium text-primary hover:bg-primary/10">
+              {renamingId ? 'Renommer' : 'Créer'}
+            </button>
+          </form>
+        )}
+      </div>
+      {folderError && <p className="text-xs text-destructive">{folderError}</p>}
+
+      {/* Tags les plus utilisés */}
+      {facets.tags.length > 0 && (
+        <div className="flex flex-wrap items-center gap-1.5">
+          {facets.tags.map(({ tag, count }) => (
+            <button
+              key={tag}
+              type="button"
+              onClick={() => onChange({ ...filter, tag: filter.tag === tag ? undefined : tag })}
+              aria-pressed={filter.tag === tag}
+              className={chipClassName(filter.tag === tag)}
+            >
+              #{tag}
+              <span className="text-[10px] opacity-60">{count}</span>
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  )
+}
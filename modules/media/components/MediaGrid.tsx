@@ -9,23 +9,37 @@
  *   - Bouton "Importer" → MediaUploader → upload via /api/gallery/upload-url → saveMedia()
  *   - Suppression via MediaCard → deleteMedia() Server Action
  *   - Mise à jour d'URL après édition Filerobot (via MediaCard → onMediaUpdated)
+ *   - Mise à jour du texte alternatif (via MediaCard → onAltTextUpdated)
+ *   - Filtres (MediaFilters) : recherche, type, dossier, tag, dates — la liste
+ *     est rechargée depuis la première page à chaque changement ; un import
+ *     pendant le filtre d'un dossier range le média dans ce dossier
+ *   - Sélection multiple + actions groupées (MediaBulkBar) : tag, déplacement, suppression
+ *   - Doublons : un fichier déjà dans la galerie propose de réutiliser le média
+ *     existant (MediaUploader) ; l'onglet « Doublons » (MediaDuplicates) regroupe
+ *     les médias identiques ou proches pour les supprimer
  *   - État vide : zone d'upload invitant à importer des fichiers
  *
  * @example
  *   <MediaGrid
  *     initialItems={firstPage.items}
  *     initialNextCursor={firstPage.nextCursor}
+ *     initialFacets={facets}
  *   />
  */
 
 'use client'
 
 import { useCallback, useEffect, useId, useRef, useState } from 'react'
-import { Loader2 } from 'lucide-react'
+import { Copy, Images, Loader2 } from 'lucide-react'
 
-import { listMedia, saveMedia, deleteMedia } from '@/modules/media/actions/media.action'
-import type { MediaItem } from '@/modules/media/types'
+import { listMedia, listMediaFacets, saveMedia, deleteMedia } from '@/modules/media/actions/media.action'
+import type { MediaFilter } from '@/modules/media/schemas/media.schema'
+import type { MediaFacets, MediaItem } from '@/modules/media/types'
+import { MEDIA_NO_FOLDER } from '@/modules/media/utils/media-filter'
+import { MediaBulkBar } from './MediaBulkBar'
 import { MediaCard } from './MediaCard'
+import { MediaDuplicates } from './MediaDuplicates'
+import { MediaFilters } from './MediaFilters'
 import { MediaUploader } from './MediaUploader'
 import type { UploadingFile } from '@/modules/posts/types'
 
@@ -36,8 +50,13 @@ interface MediaGridProps {
   initialItems: MediaItem[]
   /** Curseur vers la page suivante, null si c'est la dernière page */
   initialNextCursor: string | null
+  /** Dossiers et tags proposés par les filtres (SSR) */
+  initialFacets: MediaFacets
 }
 
+/** Vue de la galerie : tous les médias (filtrables) ou groupes de doublons */
+type GalleryView = 'all' | 'duplicates'
+
 // ─── Composant ────────────────────────────────────────────────────────────────
 
 /**
@@ -46,6 +65,7 @@ interface MediaGridProps {
 export function MediaGrid({
   initialItems,
   initialNextCursor,
+  initialFacets,
 }: MediaGridProps): React.JSX.Element {
   const uploadIdPrefix = useId()
 
@@ -55,6 +75,15 @@ export function MediaGrid({
   const [nextCursor, setNextCursor] = useState<string | null>(initialNextCursor)
   /** Chargement de la page suivante en cours */
   const [isLoadingMore, setIsLoadingMore] = useState(false)
+  /** Vue affichée */
+  const [view, setView] = useState<GalleryView>('all')
+
+  /** Filtres actifs (vide = toute la galerie) */
+  const [filter, setFilter] = useState<MediaFilter>({})
+  /** Dossiers et tags proposés par les filtres */
+  const [facets, setFacets] = useState<MediaFacets>(initialFacets)
+  /** IDs des médias sélectionnés pour une action groupée */
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set())
 
   /** Fichiers en cours d'upload avec progression */
   const [uploadingFiles, setUploadingFiles] = useState<UploadingFile[]>([])
@@ -72,7 +101,7 @@ export function MediaGrid({
     if (isLoadingMore || !nextCursor) return
 
     setIsLoadingMore(true)
-    const { data, error } = await listMedia(nextCursor)
+    const { data, error } = await listMedia(nextCursor, filter)
 
     if (error || !data) {
       console.error('[MediaGrid] Erreur chargement page suivante :', error)
@@ -88,7 +117,7 @@ export function MediaGrid({
     })
     setNextCursor(data.nextCursor)
     setIsLoadingMore(false)
-  }, [isLoadingMore, nextCursor])
+  }, [isLoadingMore, nextCursor, filter])
 
   /** Observe le sentinel pour déclencher le chargement de la page suivante */
   useEffect(() => {
@@ -107,7 +136,82 @@ export function MediaGrid({
 
     observer.observe(sentinel)
     return () => observer.disconnect()
-  }, [loadNextPage, nextCursor, isLoadingMore])
+    // view : le sentinel est remonté au retour sur « Tous les médias »
+  }, [loadNextPage, nextCursor, isLoadingMore, view])
+
+  // ─── Filtres ──────────────────────────────────────────────────────────────
+
+  /** Recharge les dossiers et tags proposés (après un import, un tag, un dossier…) */
+  const refreshFacets = useCallback(async (): Promise<void> => {
+    const { data } = await listMediaFacets()
+    if (data) setFacets(data)
+  }, [])
+
+  /** Recharge la première page pour les filtres actifs */
+  const reload = useCallback(async (nextFilter: MediaFilter): Promise<void> => {
+    setIsLoadingMore(true)
+    const { data, error } = await listMedia(undefined, nextFilter)
+    setIsLoadingMore(false)
+    if (error || !data) {
+      console.error('[MediaGrid] Erreur filtrage :', error)
+      return
+    }
+    setItems(data.items)
+    setNextCursor(data.nextCursor)
+  }, [])
+
+  /** Applique de nouveaux filtres : sélection vidée, liste rechargée */
+  const handleFilterChange = useCallback((nextFilter: MediaFilter): void => {
+    setFilter(nextFilter)
+    setSelectedIds(new Set())
+    void reload(nextFilter)
+  }, [reload])
+
+  // ─── Sélection et actions groupées ────────────────────────────────────────
+
+  /** Bascule la sélection d'un média */
+  const toggleSelect = useCallback((id: string): void => {
+    setSelectedIds((prev) => {
+      const next = new Set(prev)
+      if (next.has(id)) next.delete(id)
+      else next.add(id)
+      return next
+    })
+  }, [])
+
+  /** Met à jour les médias dont les tags ont changé */
+  const handleTagged = useCallback((updated: MediaItem[]): void => {
+    const byId = new Map(updated.map((m) => [m.id, m]))
+    setItems((prev) => prev.map((i) => {
+      const saved = byId.get(i.id)
+      return saved ? { ...i, tags: saved.tags } : i
+    }))
+    void refreshFacets()
+  }, [refreshFacets])
+
+  /** Après un déplacement : liste rechargée (les médias peuvent sortir du filtre) */
+  const handleMoved = useCallback((): void => {
+    setSelectedIds(new Set())
+    void reload(filter)
+    void refreshFacets()
+  }, [filter, reload, refreshFacets])
+
+  /**
+   * Fichier déjà dans la galerie réutilisé plutôt qu'importé :
+   * le média existant est affiché en tête de liste s'il n'est pas chargé, et sélectionné.
+   */
+  const handleReuse = useCallback((media: MediaItem): void => {
+    setItems((prev) => (prev.some((i) => i.id === media.id) ? prev : [media, ...prev]))
+    setSelectedIds((prev) => new Set([...prev, media.id]))
+  }, [])
+
+  /** Après une suppression groupée : médias retirés de la liste */
+  const handleBulkDeleted = useCallback((ids: string[]): void => {
+    const deleted = new Set(ids)
+    setItems((prev) => prev.filter((i) => !deleted.has(i.id)))
+    setSelectedIds(new Set())
+    void refreshFacets()
+  }, [refreshFacets])
 
   // ─── Upload ───────────────────────────────────────────────────────────────
 
@@ -138,7 +242,11 @@ export function MediaGrid({
           }),
         })
 
-        if (!urlRes.ok) throw new Error("Impossible d'obtenir l'URL d'upload")
+        // Message du serveur (ex: quota de stockage dépassé)
+        if (!urlRes.ok) {
+          const err = (await urlRes.json()) as { error?: string }
+          throw new Error(err.error ?? "Impossible d'obtenir l'URL d'upload")
+        }
 
         const { signedUrl, publicUrl } = (await urlRes.json()) as {
           signedUrl: string
@@ -172,12 +280,14 @@ export function MediaGrid({
           xhr.send(file)
         })
 
-        // ── 3. Sauvegarder les métadonnées en DB ──────────────────────────
+        // ── 3. Sauvegarder les métadonnées en DB ─────────────────────────
         const { data: newMedia, error: saveError } = await saveMedia({
           url: publicUrl,
           filename: file.name,
           mimeType: file.type,
           size: file.size,
+          // Import pendant le filtre d'un dossier → rangé dans ce dossier
+          ...(filter.folderId && filter.folderId !== MEDIA_NO_FOLDER && { folderId: filter.folderId }),
         })
 
         if (saveError || !newMedia) {
@@ -186,11 +296,13 @@ export function MediaGrid({
 
         // Ajouter le nouveau média en tête de liste (les plus récents d'abord)
         setItems((prev) => [newMedia, ...prev])
+        // Compteurs des dossiers
+        if (newMedia.folderId) void refreshFacets()
       } catch (err) {
         console.error('[MediaGrid] Erreur upload :', err)
         // Afficher l'erreur dans la barre de progression
         setUploadingFiles((prev) =>
-          prev.map((f) => (f.id === uploadId ? { ...f, error: 'Upload échoué' } : f)),
+          prev.map((f) => (f.id === uploadId ? { ...f, error: err instanceof Error ? err.message : 'Upload échoué' } : f)),
         )
         setTimeout(
           () => setUploadingFiles((prev) => prev.filter((f) => f.id !== uploadId)),
@@ -202,7 +314,7 @@ export function MediaGrid({
       // Retirer le fichier de la liste des uploads en cours
       setUploadingFiles((prev) => prev.filter((f) => f.id !== uploadId))
     },
-    [uploadIdPrefix],
+    [uploadIdPrefix, filter.folderId, refreshFacets],
   )
 
   /**
@@ -223,18 +335,23 @@ export function MediaGrid({
 
   /**
    * Supprime un média de la liste et de la DB.
+   * Une erreur serveur (ex: média utilisé par un post planifié) est levée
+   * pour être affichée sur la carte.
    *
    * @param id - ID du média à supprimer
    */
   const handleDelete = useCallback(async (id: string): Promise<void> => {
     const { error } = await deleteMedia(id)
-    if (error) {
-      console.error('[MediaGrid] Erreur suppression :', error)
-      return
-    }
+    if (error) throw new Error(error)
     // Retirer le média de la liste locale
     setItems((prev) => prev.filter((i) => i.id !== id))
-  }, [])
+    setSelectedIds((prev) => {
+      const next = new Set(prev)
+      next.delete(id)
+      return next
+    })
+    void refreshFacets()
+  }, [refreshFacets])
 
   /**
    * Met à jour l'URL d'un média dans la liste locale après édition Filerobot.
@@ -251,6 +368,19 @@ export function MediaGrid({
     [],
   )
 
+  /**
+   * Met à jour le texte alternatif d'un média dans la liste locale.
+   *
+   * @param id      - ID du média
+   * @param altText - Texte enregistré (null = retiré)
+   */
+  const handleAltTextUpdated = useCallback(
+    (id: string, altText: string | null): void => {
+      setItems((prev) => prev.map((i) => (i.id === id ? { ...i, altText } : i)))
+    },
+    [],
+  )
+
   // ─── Rendu ────────────────────────────────────────────────────────────────
 
   return (
@@ -258,6 +388,10 @@ export function MediaGrid({
       {/* ── Zone d'upload ─────────────────────────────────────────────────── */}
       <MediaUploader
         onFilesSelected={(files) => void handleFilesSelected(files)}
+        onReuse={(media) => {
+          setView('all')
+          handleReuse(media)
+        }}
         disabled={uploadingFiles.length > 0}
       />
 
@@ -295,45 +429,106 @@ export function MediaGrid({
         </div>
       )}
 
-      {/* ── Grille de médias ─────────────────────────────────────────────── */}
-      {items.length > 0 ? (
-        <div>
-          <h3 className="mb-3 text-xs font-medium text-muted-foreground uppercase tracking-wide">
-            {items.length} média{items.length > 1 ? 's' : ''}
-          </h3>
-          <div className="grid grid-cols-2 gap-3 sm:grid-cols-3 lg:grid-cols-4">
-            {items.map((item) => (
-              <MediaCard
-                key={item.id}
-                item={item}
-                onDelete={() => handleDelete(item.id)}
-                onMediaUpdated={(newUrl) => handleMediaUpdated(item.url, newUrl)}
-              />
-            ))}
-          </div>
-        </div>
+      {/* ── Vue : tous les médias ou doublons ─────────────────────────────── */}
+      <div className="flex gap-1 border-b border-border" role="tablist" aria-label="Vue de la galerie">
+        {([
+          { value: 'all', label: 'Tous les médias', Icon: Images },
+          { value: 'duplicates', label: 'Doublons', Icon: Copy },
+        ] as const).map(({ value, label, Icon }) => (
+          <button
+            key={value}
+            type="button"
+            role="tab"
+            aria-selected={view === value}
+            onClick={() => {
+              setView(value)
+              setSelectedIds(new Set())
+            }}
+            className={[
+              '-mb-px flex items-center gap-1.5 border-b-2 px-3 py-2 text-sm transition-colors',
+              view === value
+                ? 'border-primary font-medium text-foreground'
+                : 'border-transparent text-muted-foreground hover:text-foreground',
+            ].join(' ')}
+          >
+            <Icon className="size-3.5" />
+            {label}
+          </button>
+        ))}
+      </div>
+
+      {view === 'duplicates' ? (
+        <MediaDuplicates folders={facets.folders} onDeleted={handleBulkDeleted} />
       ) : (
-        // État vide (aucun média et aucun upload en cours)
-        uploadingFiles.length === 0 && (
-          <div className="rounded-lg border border-dashed border-border bg-muted/20 py-12 text-center">
-            <p className="text-sm text-muted-foreground">
-              Votre galerie est vide
-            </p>
-            <p className="mt-1 text-xs text-muted-foreground/60">
-              Importez des images ou vidéos pour les réutiliser dans vos posts
-            </p>
-          </div>
-        )
-      )}
-
-      {/* ── Sentinel pour l'infinite scroll ──────────────────────────────── */}
-      <div ref={sentinelRef} className="h-1" aria-hidden="true" />
-
-      {/* Indicateur de chargement de la page suivante */}
-      {isLoadingMore && (
-        <div className="flex justify-center py-4">
-          <Loader2 className="size-5 animate-spin text-muted-foreground" />
-        </div>
+        <>
+          {/* ── Filtres et actions groupées ───────────────────────────────────── */}
+          <MediaFilters
+            filter={filter}
+            onChange={handleFilterChange}
+            facets={facets}
+            onFacetsChange={() => void refreshFacets()}
+            manageFolders
+          />
+          <MediaBulkBar
+            selectedIds={[...selectedIds]}
+            folders={facets.folders}
+            onTagged={handleTagged}
+            onMoved={handleMoved}
+            onDeleted={handleBulkDeleted}
+            onClear={() => setSelectedIds(new Set())}
+          />
+
+          {/* ── Grille de médias ─────────────────────────────────────────────── */}
+          {items.length > 0 ? (
+            <div>
+              <h3 className="mb-3 text-xs font-medium text-muted-foreground uppercase tracking-wide">
+                {items.length} média{items.length > 1 ? 's' : ''}
+              </h3>
+              <div className="grid grid-cols-2 gap-3 sm:grid-cols-3 lg:grid-cols-4">
+                {items.map((item) => (
+                  <MediaCard
+                    key={item.id}
+                    item={item}
+                    onDelete={() => handleDelete(item.id)}
+                    onMediaUpdated={(newUrl) => handleMediaUpdated(item.url, newUrl)}
+                    onAltTextUpdated={(altText) => handleAltTextUpdated(item.id, altText)}
+                    selected={selectedIds.has(item.id)}
+                    onToggleSelect={() => toggleSelect(item.id)}
+                  />
+                ))}
+              </div>
+            </div>
+          ) : Object.values(filter).some(Boolean) ? (
+            // Aucun résultat pour les filtres actifs
+            !isLoadingMore && (
+              <p className="py-12 text-center text-sm text-muted-foreground">
+                Aucun média ne correspond à ces filtres
+              </p>
+            )
+          ) : (
+            // État vide (aucun média et aucun upload en cours)
+            uploadingFiles.length === 0 && (
+              <div className="rounded-lg border border-dashed border-border bg-muted/20 py-12 text-center">
+                <p className="text-sm text-muted-foreground">
+                  Votre galerie est vide
+                </p>
+                <p className="mt-1 text-xs text-muted-foreground/60">
+                  Importez des images ou vidéos pour les réutiliser dans vos posts
+                </p>
+              </div>
+            )
+          )}
+
+          {/* ── Sentinel pour l'infinite scroll ──────────────────────────────── */}
+          <div ref={sentinelRef} className="h-1" aria-hidden="true" />
+
+          {/* Indicateur de chargement de la page suivante */}
+          {isLoadingMore && (
+            <div className="flex justify-center py-4">
+              <Loader2 className="size-5 animate-spin text-muted-foreground" />
+            </div>
+          )}
+        </>
       )}
     </div>
   )
@@ -10,8 +10,12 @@
  *   - Charge la galerie de l'utilisateur au montage via listMedia()
  *   - Affiche les médias en grille avec cases à cocher (sélection multiple)
  *   - Pré-coche les URLs déjà dans le pool (selectedUrls)
- *   - Permet d'uploader de nouveaux médias inline (MediaUploader)
- *   - Bouton "Confirmer (N)" → appelle onConfirm(selectedUrls)
+ *   - Permet d'uploader de nouveaux médias inline (MediaUploader) ; un fichier
+ *     déjà dans la galerie propose de cocher le média existant plutôt que de l'importer
+ *   - Filtres (MediaFilters, sans gestion des dossiers) et actions groupées
+ *     sur la sélection (MediaBulkBar : tag, déplacement, suppression)
+ *   - Bouton "Confirmer (N)" → appelle onConfirm(selectedUrls, selectedItems)
+ *     (les items portent le texte alternatif de la galerie)
  *   - État vide : invite à importer des fichiers
  *
  * @example
@@ -32,9 +36,13 @@ import { useCallback, useEffect, useId, useState } from 'react'
 import { Check, Loader2, X } from 'lucide-react'
 
 import { Button } from '@/components/ui/button'
-import { listMedia, saveMedia } from '@/modules/media/actions/media.action'
-import type { MediaItem } from '@/modules/media/types'
+import { listMedia, listMediaFacets, saveMedia } from '@/modules/media/actions/media.action'
+import type { MediaFilter } from '@/modules/media/schemas/media.schema'
+import type { MediaFacets, MediaItem } from '@/modules/media/types'
+import { MEDIA_NO_FOLDER } from '@/modules/media/utils/media-filter'
 import { isVideoUrl, formatFileSize } from '@/modules/posts/utils/media.utils'
+import { MediaBulkBar } from './MediaBulkBar'
+import { MediaFilters } from './MediaFilters'
 import { MediaUploader } from './MediaUploader'
 import type { UploadingFile } from '@/modules/posts/types'
 
@@ -51,10 +59,11 @@ interface MediaPickerProps {
    */
   selectedUrls: string[]
   /**
-   * Callback appelé avec les URLs sélectionnées lors du clic "Confirmer".
+   * Callback appelé avec les URLs sélectionnées lors du clic "Confirmer",
+   * et les médias de la galerie correspondants (texte alternatif, type MIME).
    * Le parent gère la fusion avec le pool existant (sans doublons).
    */
-  onConfirm: (urls: string[]) => void
+  onConfirm: (urls: string[], items: MediaItem[]) => void
 }
 
 // ─── Composant ────────────────────────────────────────────────────────────────
@@ -78,29 +87,53 @@ export function MediaPicker({
   const [selected, setSelected] = useState<Set<string>>(new Set(selectedUrls))
   /** Fichiers en cours d'upload dans le picker */
   const [uploadingFiles, setUploadingFiles] = useState<UploadingFile[]>([])
+  /** Filtres actifs (vide = toute la galerie) */
+  const [filter, setFilter] = useState<MediaFilter>({})
+  /** Dossiers et tags proposés par les filtres */
+  const [facets, setFacets] = useState<MediaFacets>({ folders: [], tags: [] })
 
-  // ── Chargement de la galerie au montage du dialog ────────────────────────
+  // ── Chargement de la galerie ─────────────────────────────────────────────
 
+  /**
+   * Charge la première page de la galerie pour des filtres.
+   *
+   * @param nextFilter - Filtres à appliquer
+   */
+  const loadItems = useCallback(async (nextFilter: MediaFilter): Promise<void> => {
+    setIsLoading(true)
+    const { data, error } = await listMedia(undefined, nextFilter)
+    setIsLoading(false)
+    if (error || !data) {
+      console.error('[MediaPicker] Erreur chargement galerie :', error)
+      return
+    }
+    setItems(data.items)
+  }, [])
+
+  /** Recharge les dossiers et tags proposés */
+  const refreshFacets = useCallback(async (): Promise<void> => {
+    const { data } = await listMediaFacets()
+    if (data) setFacets(data)
+  }, [])
+
+  // Au montage du dialog : sélection du pool, galerie complète et filtres proposés
   useEffect(() => {
     if (!open) return
 
     // Pré-sélectionner les URLs déjà dans le pool
     setSelected(new Set(selectedUrls))
-
-    // Charger la galerie
-    setIsLoading(true)
-    void listMedia().then(({ data, error }) => {
-      if (error || !data) {
-        console.error('[MediaPicker] Erreur chargement galerie :', error)
-        setIsLoading(false)
-        return
-      }
-      setItems(data.items)
-      setIsLoading(false)
-    })
+    setFilter({})
+    void loadItems({})
+    void refreshFacets()
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [open])
 
+  /** Applique de nouveaux filtres (la sélection est conservée) */
+  const handleFilterChange = useCallback((nextFilter: MediaFilter): void => {
+    setFilter(nextFilter)
+    void loadItems(nextFilter)
+  }, [loadItems])
+
   // ── Sélection / désélection ──────────────────────────────────────────────
 
   /**
@@ -149,7 +182,11 @@ export function MediaPicker({
           }),
         })
 
-        if (!urlRes.ok) throw new Error("Impossible d'obtenir l'URL d'upload")
+        // Message du serveur (ex: quota de stockage dépassé)
+        if (!urlRes.ok) {
+          const err = (await urlRes.json()) as { error?: string }
+          throw new Error(err.error ?? "Impossible d'obtenir l'URL d'upload")
+        }
 
         const { signedUrl, publicUrl } = (await urlRes.json()) as {
           signedUrl: string
@@ -189,6 +226,8 @@ export function MediaPicker({
           filename: file.name,
           mimeType: file.type,
           size: file.size,
+          // Import pendant le filtre d'un dossier → rangé dans ce dossier
+          ...(filter.folderId && filter.folderId !== MEDIA_NO_FOLDER && { folderId: filter.folderId }),
         })
 
         if (saveError || !newMedia) {
@@ -201,7 +240,7 @@ export function MediaPicker({
       } catch (err) {
         console.error('[MediaPicker] Erreur upload :', err)
         setUploadingFiles((prev) =>
-          prev.map((f) => (f.id === uploadId ? { ...f, error: 'Upload échoué' } : f)),
+          prev.map((f) => (f.id === uploadId ? { ...f, error: err instanceof Error ? err.message : 'Upload échoué' } : f)),
         )
         setTimeout(
           () => setUploadingFiles((prev) => prev.filter((f) => f.id !== uploadId)),
@@ -212,9 +251,20 @@ export function MediaPicker({
 
       setUploadingFiles((prev) => prev.filter((f) => f.id !== uploadId))
     },
-    [uploadIdPrefix],
+    [uploadIdPrefix, filter.folderId],
   )
 
+  /**
+   * Fichier déjà dans la galerie : le média existant est coché (et ajouté
+   * en tête de la grille s'il n'est pas chargé) au lieu d'être ré-importé.
+   *
+   * @param media - Média de la galerie réutilisé
+   */
+  const handleReuse = useCallback((media: MediaItem): void => {
+    setItems((prev) => (prev.some((i) => i.id === media.id) ? prev : [media, ...prev]))
+    setSelected((prev) => new Set([...prev, media.url]))
+  }, [])
+
   const handleFilesSelected = useCallback(
     async (files: File[]): Promise<void> => {
       for (const file of files) {
@@ -224,10 +274,30 @@ export function MediaPicker({
     [handleUploadFile],
   )
 
+  // ── Actions groupées ─────────────────────────────────────────────────────
+
+  /** Met à jour les médias dont les tags ont changé */
+  const handleTagged = (updated: MediaItem[]): void => {
+    const byId = new Map(updated.map((m) => [m.id, m]))
+    setItems((prev) => prev.map((i) => {
+      const saved = byId.get(i.id)
+      return saved ? { ...i, tags: saved.tags } : i
+    }))
+    void refreshFacets()
+  }
+
+  /** Après une suppression groupée : médias retirés de la liste et de la sélection */
+  const handleBulkDeleted = (ids: string[]): void => {
+    const deletedUrls = new Set(items.filter((i) => ids.includes(i.id)).map((i) => i.url))
+    setItems((prev) => prev.filter((i) => !ids.includes(i.id)))
+    setSelected((prev) => new Set([...prev].filter((url) => !deletedUrls.has(url))))
+    void refreshFacets()
+  }
+
   // ── Confirmation ─────────────────────────────────────────────────────────
 
   const handleConfirm = (): void => {
-    onConfirm(Array.from(selected))
+    onConfirm(Array.from(selected), items.filter((item) => selected.has(item.url)))
     onOpenChange(false)
   }
 
@@ -236,6 +306,8 @@ export function MediaPicker({
   if (!open) return null
 
   const selectedCount = selected.size
+  // Médias de la galerie sélectionnés (actions groupées) — hors URLs du pool absentes de la liste
+  const selectedIds = items.filter((item) => selected.has(item.url)).map((item) => item.id)
 
   return (
     // Overlay plein écran avec z-index élevé
@@ -269,6 +341,7 @@ export function MediaPicker({
         {/* Zone d'upload inline */}
         <MediaUploader
           onFilesSelected={(files) => void handleFilesSelected(files)}
+          onReuse={handleReuse}
           disabled={uploadingFiles.length > 0}
           placeholder="Glissez des médias ici pour les importer dans la galerie"
         />
@@ -302,6 +375,25 @@ export function MediaPicker({
           </div>
         )}
 
+        {/* Filtres et actions groupées */}
+        <MediaFilters
+          filter={filter}
+          onChange={handleFilterChange}
+          facets={facets}
+          onFacetsChange={() => void refreshFacets()}
+        />
+        <MediaBulkBar
+          selectedIds={selectedIds}
+          folders={facets.folders}
+          onTagged={handleTagged}
+          onMoved={() => {
+            void loadItems(filter)
+            void refreshFacets()
+          }}
+          onDeleted={handleBulkDeleted}
+          onClear={() => setSelected(new Set())}
+        />
+
         {/* ── Chargement initial ─────────────────────────────────────────── */}
         {isLoading ? (
           <div className="flex justify-center py-12">
@@ -311,7 +403,9 @@ export function MediaPicker({
           // État vide
           <div className="rounded-lg border border-dashed border-border bg-muted/20 py-10 text-center">
             <p className="text-sm text-muted-foreground">
-              Galerie vide — importez des fichiers ci-dessus
+              {Object.values(filter).some(Boolean)
+                ? 'Aucun média ne correspond à ces filtres'
+                : 'Galerie vide — importez des fichiers ci-dessus'}
             </p>
           </div>
         ) : (
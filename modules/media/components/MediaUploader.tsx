@@ -8,6 +8,10 @@
  *   - Zone de glisser-déposer avec feedback visuel (anti-faux-dragLeave via compteur)
  *   - Filtre automatique : seuls les fichiers image/* et video/* sont acceptés
  *   - Callback `onFilesSelected` déclenché avec la liste des fichiers valides
+ *   - Détection des doublons (si `onReuse` est fourni) : chaque fichier est comparé
+ *     à la galerie par ses empreintes (hashMediaFile → findDuplicateMedia) ; un fichier
+ *     déjà présent, à l'identique ou retouché, n'est pas importé directement mais
+ *     propose « Réutiliser » (onReuse) ou « Importer quand même » (onFilesSelected)
  *
  *   Utilisé dans :
  *   - `MediaGrid` (galerie principale)
@@ -18,16 +22,20 @@
  *     onFilesSelected={(files) => {
  *       for (const file of files) uploadFile(file)
  *     }}
+ *     onReuse={(media) => selectExisting(media)}
  *     disabled={isUploading}
  *   />
  */
 
 'use client'
 
-import { Upload } from 'lucide-react'
-import { useCallback, useRef } from 'react'
+import { Copy, Loader2, Upload } from 'lucide-react'
+import { useCallback, useRef, useState } from 'react'
 
 import { Button } from '@/components/ui/button'
+import { findDuplicateMedia } from '@/modules/media/actions/media-duplicate.action'
+import type { MediaDuplicateMatch, MediaItem } from '@/modules/media/types'
+import { hashMediaFile } from '@/modules/media/utils/media-file-hash'
 
 // ─── Props ────────────────────────────────────────────────────────────────────
 
@@ -44,6 +52,17 @@ interface MediaUploaderProps {
    * Défaut : "Glissez des images ou vidéos ici"
    */
   placeholder?: string
+  /**
+   * Réutilisation d'un média déjà dans la galerie.
+   * Si fourni, les fichiers sont comparés à la galerie avant l'import.
+   */
+  onReuse?: (media: MediaItem) => void
+}
+
+/** Fichier sélectionné qui correspond à un média de la galerie */
+interface DuplicateFile {
+  file: File
+  match: MediaDuplicateMatch
 }
 
 // ─── Composant ────────────────────────────────────────────────────────────────
@@ -56,9 +75,15 @@ export function MediaUploader({
   onFilesSelected,
   disabled = false,
   placeholder = 'Glissez des images ou vidéos ici',
+  onReuse,
 }: MediaUploaderProps): React.JSX.Element {
   const fileInputRef = useRef<HTMLInputElement>(null)
 
+  /** Fichiers en attente d'un choix (réutiliser ou importer quand même) */
+  const [duplicates, setDuplicates] = useState<DuplicateFile[]>([])
+  /** Comparaison des fichiers sélectionnés avec la galerie en cours */
+  const [isChecking, setIsChecking] = useState(false)
+
   /**
    * Compteur d'entrées DnD.
    * Incrémenté sur dragEnter, décrémenté sur dragLeave.
@@ -77,17 +102,68 @@ export function MediaUploader({
   const filterFiles = (files: File[]): File[] =>
     files.filter((f) => f.type.startsWith('image/') || f.type.startsWith('video/'))
 
+  // ─── Doublons ────────────────────────────────────────────────────────────
+
+  /**
+   * Transmet les fichiers sélectionnés au parent, sauf ceux déjà dans la galerie
+   * (mis en attente d'un choix). Une erreur de comparaison ne bloque jamais l'import.
+   *
+   * @param files - Fichiers filtrés
+   */
+  const handleFiles = useCallback(
+    async (files: File[]): Promise<void> => {
+      if (!onReuse) {
+        onFilesSelected(files)
+        return
+      }
+
+      setIsChecking(true)
+      const fresh: File[] = []
+      const found: DuplicateFile[] = []
+      for (const file of files) {
+        try {
+          const hashes = await hashMediaFile(file)
+          const { data: match } = hashes.contentHash || hashes.perceptualHash
+            ? await findDuplicateMedia(hashes)
+            : { data: null }
+          if (match) found.push({ file, match })
+          else fresh.push(file)
+        } catch (err) {
+          console.warn('[MediaUploader] Recherche de doublon échouée :', err)
+          fresh.push(file)
+        }
+      }
+      setIsChecking(false)
+
+      if (fresh.length > 0) onFilesSelected(fresh)
+      if (found.length > 0) setDuplicates((prev) => [...prev, ...found])
+    },
+    [onFilesSelected, onReuse],
+  )
+
+  /** Réutilise le média de la galerie au lieu d'importer le fichier */
+  const handleReuse = (duplicate: DuplicateFile): void => {
+    setDuplicates((prev) => prev.filter((d) => d !== duplicate))
+    onReuse?.(duplicate.match.media)
+  }
+
+  /** Importe le fichier malgré le doublon */
+  const handleImportAnyway = (duplicate: DuplicateFile): void => {
+    setDuplicates((prev) => prev.filter((d) => d !== duplicate))
+    onFilesSelected([duplicate.file])
+  }
+
   // ─── Handlers input ──────────────────────────────────────────────────────
 
   /** Gère la sélection via l'input file caché */
   const handleInputChange = useCallback(
     (e: React.ChangeEvent<HTMLInputElement>): void => {
       const valid = filterFiles(Array.from(e.target.files ?? []))
-      if (valid.length > 0) onFilesSelected(valid)
+      if (valid.length > 0) void handleFiles(valid)
       // Réinitialise l'input pour permettre la re-sélection du même fichier
       if (fileInputRef.current) fileInputRef.current.value = ''
     },
-    [onFilesSelected],
+    [handleFiles],
   )
 
   // ─── Handlers Drag & Drop ────────────────────────────────────────────────
@@ -113,57 +189,105 @@ export function MediaUploader({
       dragCounterRef.current = 0
 
       const valid = filterFiles(Array.from(e.dataTransfer.files))
-      if (valid.length > 0) onFilesSelected(valid)
+      if (valid.length > 0) void handleFiles(valid)
     },
-    [onFilesSelected],
+    [handleFiles],
   )
 
   // ─── Rendu ───────────────────────────────────────────────────────────────
 
   return (
-    <div
-      onDragEnter={handleDragEnter}
-      onDragLeave={handleDragLeave}
-      onDragOver={handleDragOver}
-      onDrop={handleDrop}
-      className="flex flex-col items-center justify-center gap-3 rounded-lg border-2 border-dashed border-border/60 bg-muted/20 px-4 py-8 text-center transition-colors hover:border-border hover:bg-muted/30"
-    >
-      {/* Icône upload */}
-      <div className="flex size-10 items-center justify-center rounded-full bg-muted">
-        <Upload className="size-4 text-muted-foreground" />
-      </div>
+    <div className="space-y-2">
+      <div
+        onDragEnter={handleDragEnter}
+        onDragLeave={handleDragLeave}
+        onDragOver={handleDragOver}
+        onDrop={handleDrop}
+        className="flex flex-col items-center justify-center gap-3 rounded-lg border-2 border-dashed border-border/60 bg-muted/20 px-4 py-8 text-center transition-colors hover:border-border hover:bg-muted/30"
+      >
+        {/* Icône upload */}
+        <div className="flex size-10 items-center justify-center rounded-full bg-muted">
+          <Upload className="size-4 text-muted-foreground" />
+        </div>
+
+        {/* Texte d'invite */}
+        <div className="space-y-1">
+          <p className="text-sm text-muted-foreground">{placeholder}</p>
+          <p className="text-xs text-muted-foreground/60">
+            ou importez depuis votre appareil
+          </p>
+        </div>
 
-      {/* Texte d'invite */}
-      <div className="space-y-1">
-        <p className="text-sm text-muted-foreground">{placeholder}</p>
-        <p className="text-xs text-muted-foreground/60">
-          ou importez depuis votre appareil
-        </p>
+        {/* Input file caché */}
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept="image/*,video/*"
+          multiple
+          disabled={disabled || isChecking}
+          className="hidden"
+          onChange={handleInputChange}
+        />
+
+        {/* Bouton qui déclenche l'input file */}
+        <Button
+          type="button"
+          variant="outline"
+          size="sm"
+          disabled={disabled || isChecking}
+          onClick={() => fileInputRef.current?.click()}
+          className="gap-1.5"
+        >
+          {isChecking ? <Loader2 className="size-3.5 animate-spin" /> : <Upload className="size-3.5" />}
+          {isChecking ? 'Recherche de doublons…' : 'Choisir des fichiers'}
+        </Button>
       </div>
 
-      {/* Input file caché */}
-      <input
-        ref={fileInputRef}
-        type="file"
-        accept="image/*,video/*"
-        multiple
-        disabled={disabled}
-        className="hidden"
-        onChange={handleInputChange}
-      />
-
-      {/* Bouton qui déclenche l'input file */}
-      <Button
-        type="button"
-        variant="outline"
-        size="sm"
-        disabled={disabled}
-        onClick={() => fileInputRef.current?.click()}
-        className="gap-1.5"
-      >
-        <Upload className="size-3.5" />
-        Choisir des fichiers
-      </Button>
+      {/* ── Fichiers déjà dans la galerie : réutiliser ou importer quand même ── */}
+      {duplicates.map((duplicate) => {
+        const { file, match } = duplicate
+        return (
+          <div
+            key={`${file.name}-${file.lastModified}-${match.media.id}`}
+            className="flex items-center gap-3 rounded-lg border border-amber-500/40 bg-amber-500/5 px-3 py-2"
+          >
+            {match.media.mimeType.startsWith('image/') ? (
+              // eslint-disable-next-line @next/next/no-img-element -- média Supabase de taille inconnue, hors optimisation next/image
+              <img
+                src={match.media.url}
+                alt={match.media.altText ?? match.media.filename}
+                className="size-10 shrink-0 rounded object-cover"
+              />
+            ) : (
+              <div className="flex size-10 shrink-0 items-center justify-center rounded bg-muted">
+                <Copy className="size-4 text-muted-foreground" />
+              </div>
+            )}
+            <div className="min-w-0 flex-1 text-left">
+              <p className="truncate text-sm text-foreground">
+                Déjà dans votre galerie — réutiliser ?
+              </p>
+              <p className="truncate text-xs text-muted-foreground">
+                {match.exact
+                  ? `« ${file.name} » est identique à « ${match.media.filename} »`
+                  : `« ${file.name} » ressemble à « ${match.media.filename} »`}
+              </p>
+            </div>
+            <Button type="button" size="sm" onClick={() => handleReuse(duplicate)}>
+              Réutiliser
+            </Button>
+            <Button
+              type="button"
+              variant="ghost"
+              size="sm"
+              disabled={disabled}
+              onClick={() => handleImportAnyway(duplicate)}
+            >
+              Importer quand même
+            </Button>
+          </div>
+        )
+      })}
     </div>
   )
 }
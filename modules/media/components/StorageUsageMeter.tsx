@@ -0,0 +1,113 @@
+/**
+ * @file modules/media/components/StorageUsageMeter.tsx
+ * @module media
+ * @description Section « Stockage » de /settings : jauge de l'espace utilisé
+ *   (médias de la galerie importés par l'utilisateur + fichiers des posts),
+ *   répartie par type (images, vidéos, autres), sur le quota du compte.
+ *   Au-delà du quota, les nouveaux uploads sont refusés.
+ *
+ * @example
+ *   // Dans settings/page.tsx (Server Component) :
+ *   <StorageUsageMeter />
+ */
+
+'use client'
+
+import { useQuery } from '@tanstack/react-query'
+import { HardDrive } from 'lucide-react'
+
+import type { StorageFileType, StorageUsage } from '@/modules/media/types'
+import { formatFileSize } from '@/modules/posts/utils/media.utils'
+
+// ─── Constantes ───────────────────────────────────────────────────────────────
+
+/** Libellé et couleur de chaque type dans la jauge */
+const FILE_TYPES: { type: StorageFileType; label: string; className: string }[] = [
+  { type: 'image', label: 'Images', className: 'bg-primary' },
+  { type: 'video', label: 'Vidéos', className: 'bg-violet-500' },
+  { type: 'other', label: 'Autres', className: 'bg-muted-foreground' },
+]
+
+/** Seuil d'alerte (part du quota utilisée) */
+const WARNING_RATIO = 0.9
+
+// ─── Composant ────────────────────────────────────────────────────────────────
+
+/**
+ * Jauge de l'espace de stockage de l'utilisateur.
+ * Lit l'utilisation depuis /api/user/storage.
+ */
+export function StorageUsageMeter(): React.JSX.Element {
+  const { data: usage, isLoading, isError } = useQuery<StorageUsage>({
+    queryKey: ['user', 'storage'],
+    queryFn: async () => {
+      const res = await fetch('/api/user/storage')
+      if (!res.ok) throw new Error('Erreur lors du chargement du stockage')
+      return res.json() as Promise<StorageUsage>
+    },
+    staleTime: 60 * 1000,
+  })
+
+  const ratio = usage && usage.quotaBytes > 0 ? usage.usedBytes / usage.quotaBytes : 0
+
+  return (
+    <div className="rounded-xl border border-border bg-card p-5">
+      <div className="flex items-start gap-3">
+        <div className="flex size-8 shrink-0 items-center justify-center rounded-md bg-primary/10 text-primary">
+          <HardDrive className="size-4" />
+        </div>
+        <div className="min-w-0 flex-1 space-y-3">
+          <div className="flex items-baseline justify-between gap-2">
+            <p className="text-sm font-medium leading-none">Espace utilisé</p>
+            {usage && (
+              <p className="text-xs text-muted-foreground">
+                {formatFileSize(usage.usedBytes)} sur {formatFileSize(usage.quotaBytes)}
+              </p>
+            )}
+          </div>
+
+          {/* Jauge segmentée par type */}
+          <div
+            role="meter"
+            aria-label="Espace de stockage utilisé"
+            aria-valuemin={0}
+            aria-valuemax={usage?.quotaBytes ?? 0}
+            aria-valuenow={usage?.usedBytes ?? 0}
+            className="flex h-2 overflow-hidden rounded-full bg-muted"
+          >
+            {usage && FILE_TYPES.map(({ type, className }) => (
+              <div
+                key={type}
+                className={className}
+                style={{ width: `${Math.min((usage.byType[type] / usage.quotaBytes) * 100, 100)}%` }}
+              />
+            ))}
+          </div>
+
+          {isLoading && <p className="text-xs text-muted-foreground">Calcul en cours…</p>}
+          {isError && <p className="text-xs text-destructive">Impossible de calculer l&apos;espace utilisé.</p>}
+
+          {/* Légende */}
+          {usage && (
+            <ul className="flex flex-wrap gap-x-4 gap-y-1 text-xs text-muted-foreground">
+              {FILE_TYPES.map(({ type, label, className }) => (
+                <li key={type} className="flex items-center gap-1.5">
+                  <span className={`size-2 rounded-full ${className}`} />
+                  {label} · {formatFileSize(usage.byType[type])}
+                </li>
+              ))}
+            </ul>
+          )}
+
+          {ratio >= WARNING_RATIO && (
+            <p className={`text-xs ${ratio >= 1 ? 'text-destructive' : 'text-amber-600'}`}>
+              {ratio >= 1
+                ? 'Quota atteint : les nouveaux imports sont refusés. Supprime des médias de la galerie pour libérer de la place.'
+                : 'Tu approches de ton quota de stockage.'}
+            </p>
+          )}
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -2,7 +2,8 @@
  * @file modules/media/schemas/media.schema.ts
  * @module media
  * @description Schémas Zod pour la validation des données du module Galerie.
- *   Utilisés dans les Server Actions (saveMedia) et côté client (MediaUploader).
+ *   Utilisés dans les Server Actions (saveMedia, updateMediaAltText, filtres,
+ *   actions groupées, dossiers, doublons) et côté client (MediaUploader).
  *
  * @example
  *   import { MediaSaveSchema } from '@/modules/media/schemas/media.schema'
@@ -16,13 +17,34 @@
 
 import { z } from 'zod'
 
+import { CONTENT_HASH_REGEX, PERCEPTUAL_HASH_REGEX } from '@/modules/media/utils/media-hash'
+import { ALT_TEXT_MAX_LENGTH } from '@/modules/posts/utils/accessibility'
+
 // ─── Constantes ────────────────────────────────────────────────────────────────
 
 /** Taille maximale d'un fichier : 500 Mo en octets */
 const MAX_SIZE_BYTES = 500 * 1024 * 1024
 
+/** Longueur maximale d'un tag */
+export const MEDIA_TAG_MAX_LENGTH = 40
+
+/** Nombre maximal de tags par média */
+export const MEDIA_TAGS_MAX = 20
+
+/** Nombre maximal de médias par action groupée */
+const BULK_MAX_ITEMS = 100
+
+/** Date calendaire "YYYY-MM-DD" (bornes du filtre par date d'import) */
+const DATE_REGEX = /^\d{4}-\d{2}-\d{2}$/
+
 // ─── Schémas ──────────────────────────────────────────────────────────────────
 
+/** SHA-256 d'un fichier à importer, calculé dans le navigateur */
+const ContentHashSchema = z.string().regex(CONTENT_HASH_REGEX, 'Empreinte de fichier invalide')
+
+/** dHash d'une image à importer, calculé par le serveur (/api/gallery/image-hash) */
+const PerceptualHashSchema = z.string().regex(PERCEPTUAL_HASH_REGEX, "Empreinte d'image invalide")
+
 /**
  * Schéma de sauvegarde des métadonnées d'un média après upload Supabase.
  * Appelé par le client via saveMedia() une fois le PUT vers Supabase réussi.
@@ -56,10 +78,30 @@ export const MediaSaveSchema = z.object({
     .int('La taille doit être un entier')
     .positive('La taille doit être positive')
     .max(MAX_SIZE_BYTES, `Le fichier dépasse la limite de 500 Mo`),
+
+  /** Dossier de destination (dossier affiché dans la galerie lors de l'import) */
+  folderId: z.string().min(1).optional(),
 })
 
 export type MediaSave = z.infer<typeof MediaSaveSchema>
 
+/**
+ * Recherche d'un doublon avant l'import d'un fichier (au moins une empreinte).
+ *
+ * @example
+ *   MediaDuplicateQuerySchema.parse({ contentHash: '9f86d0…0a08', perceptualHash: 'f0e4c2d8b0a89c3e' })
+ */
+export const MediaDuplicateQuerySchema = z
+  .object({
+    contentHash: ContentHashSchema.nullish(),
+    perceptualHash: PerceptualHashSchema.nullish(),
+  })
+  .refine((data) => Boolean(data.contentHash || data.perceptualHash), {
+    message: 'Aucune empreinte à comparer',
+  })
+
+export type MediaDuplicateQuery = z.infer<typeof MediaDuplicateQuerySchema>
+
 /**
  * Schéma de suppression d'un média.
  * Valide l'ID transmis à deleteMedia().
@@ -70,3 +112,126 @@ export const MediaDeleteSchema = z.object({
 })
 
 export type MediaDelete = z.infer<typeof MediaDeleteSchema>
+
+/**
+ * Schéma de modification du texte alternatif d'un média.
+ * Une chaîne vide retire le texte alternatif.
+ *
+ * @example
+ *   MediaAltTextSchema.parse({ id: 'clx123', altText: 'Vitrine de la boutique au coucher du soleil' })
+ */
+export const MediaAltTextSchema = z.object({
+  /** Identifiant unique du média */
+  id: z.string().min(1, "L'ID du média est requis"),
+
+  /** Description de l'image pour les lecteurs d'écran */
+  altText: z
+    .string()
+    .trim()
+    .max(ALT_TEXT_MAX_LENGTH, `Le texte alternatif ne doit pas dépasser ${ALT_TEXT_MAX_LENGTH} caractères`),
+})
+
+export type MediaAltText = z.infer<typeof MediaAltTextSchema>
+
+// ─── Classement (tags, dossiers) ──────────────────────────────────────────────
+
+/**
+ * Tag d'un média : normalisé en minuscules, sans « # » initial ni virgule.
+ *
+ * @example
+ *   MediaTagSchema.parse(' #Printemps ') // → 'printemps'
+ */
+export const MediaTagSchema = z
+  .string()
+  .trim()
+  .toLowerCase()
+  .transform((tag) => tag.replace(/^#+/, '').trim())
+  .pipe(
+    z
+      .string()
+      .min(1, 'Le tag est vide')
+      .max(MEDIA_TAG_MAX_LENGTH, `Un tag ne doit pas dépasser ${MEDIA_TAG_MAX_LENGTH} caractères`)
+      .regex(/^[^,]+$/, 'Un tag ne peut pas contenir de virgule'),
+  )
+
+/** IDs des médias d'une action groupée */
+const MediaIdsSchema = z
+  .array(z.string().min(1))
+  .min(1, 'Aucun média sélectionné')
+  .max(BULK_MAX_ITEMS, `${BULK_MAX_ITEMS} médias maximum par action groupée`)
+
+/**
+ * Ajout / retrait de tags sur une sélection de médias.
+ *
+ * @example
+ *   MediaBulkTagSchema.parse({ ids: ['clx1', 'clx2'], add: ['printemps'], remove: ['brouillon'] })
+ */
+export const MediaBulkTagSchema = z
+  .object({
+    ids: MediaIdsSchema,
+    add: z.array(MediaTagSchema).max(MEDIA_TAGS_MAX).default([]),
+    remove: z.array(MediaTagSchema).max(MEDIA_TAGS_MAX).default([]),
+  })
+  .refine((data) => data.add.length > 0 || data.remove.length > 0, {
+    message: 'Aucun tag à ajouter ou retirer',
+  })
+
+export type MediaBulkTag = z.infer<typeof MediaBulkTagSchema>
+
+/**
+ * Déplacement d'une sélection de médias (folderId null = hors dossier).
+ */
+export const MediaMoveSchema = z.object({
+  ids: MediaIdsSchema,
+  folderId: z.string().min(1).nullable(),
+})
+
+export type MediaMove = z.infer<typeof MediaMoveSchema>
+
+/** Suppression d'une sélection de médias */
+export const MediaBulkDeleteSchema = z.object({
+  ids: MediaIdsSchema,
+})
+
+/**
+ * Création ou renommage d'un dossier de la galerie.
+ *
+ * @example
+ *   MediaFolderSchema.parse({ name: 'Collection printemps' })
+ */
+export const MediaFolderSchema = z.object({
+  /** Absent à la création */
+  id: z.string().min(1).optional(),
+  name: z
+    .string()
+    .trim()
+    .min(1, 'Le nom du dossier est requis')
+    .max(60, 'Le nom du dossier ne doit pas dépasser 60 caractères'),
+})
+
+export type MediaFolderData = z.infer<typeof MediaFolderSchema>
+
+// ─── Filtres de la galerie ────────────────────────────────────────────────────
+
+/**
+ * Filtres de listMedia (tous optionnels, combinés en ET).
+ *
+ * @example
+ *   MediaFilterSchema.parse({ search: 'vitrine', kind: 'image', tag: 'printemps', from: '2026-03-01' })
+ */
+export const MediaFilterSchema = z.object({
+  /** Recherche plein texte : chaque mot dans le nom, le texte alternatif ou un tag */
+  search: z.string().trim().max(100).optional(),
+  /** Images ou vidéos uniquement */
+  kind: z.enum(['image', 'video']).optional(),
+  /** Tag exact */
+  tag: MediaTagSchema.optional(),
+  /** Dossier — "none" = médias hors dossier */
+  folderId: z.string().min(1).optional(),
+  /** Importés à partir du (inclus, "YYYY-MM-DD") */
+  from: z.string().regex(DATE_REGEX, 'Date invalide').optional(),
+  /** Importés jusqu'au (inclus, "YYYY-MM-DD") */
+  to: z.string().regex(DATE_REGEX, 'Date invalide').optional(),
+})
+
+export type MediaFilter = z.infer<typeof MediaFilterSchema>
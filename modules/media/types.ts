@@ -8,6 +8,9 @@
 
 // ─── Types de domaine ─────────────────────────────────────────────────────────
 
+/** État du traitement d'un média après l'upload (miroir de l'enum Prisma) */
+export type MediaProcessingStatus = 'PENDING' | 'READY' | 'FAILED'
+
 /**
  * Représentation d'un média stocké en DB et dans Supabase Storage.
  * Correspond au modèle Prisma `Media`.
@@ -16,18 +19,32 @@
  *   const item: MediaItem = {
  *     id: 'clx123',
  *     userId: 'usr_abc',
+ *     workspaceId: 'ws_abc',
  *     url: 'https://....supabase.co/storage/v1/object/public/post-media/usr_abc/gallery/...',
  *     filename: 'photo.jpg',
  *     mimeType: 'image/jpeg',
  *     size: 204800,
+ *     altText: 'Vitrine de la boutique au coucher du soleil',
+ *     width: 1080,
+ *     height: 1350,
+ *     durationMs: null,
+ *     codec: null,
+ *     processingStatus: 'READY',
+ *     processingError: null,
+ *     folderId: null,
+ *     tags: ['vitrine', 'printemps'],
+ *     contentHash: '9f86d081884c7d659a2feaa0c55ad015a3bf4f1b2b0b822cd15d6c15b0f00a08',
+ *     perceptualHash: 'f0e4c2d8b0a89c3e',
  *     createdAt: new Date('2026-02-27'),
  *   }
  */
 export interface MediaItem {
   /** Identifiant unique (cuid) */
   id: string
-  /** ID de l'utilisateur propriétaire */
+  /** ID de l'utilisateur qui a importé le média */
   userId: string
+  /** Workspace propriétaire (galerie partagée entre les membres) */
+  workspaceId: string
   /** URL publique permanente dans Supabase Storage */
   url: string
   /** Nom du fichier affiché dans la galerie */
@@ -36,8 +53,72 @@ export interface MediaItem {
   mimeType: string
   /** Taille du fichier en octets */
   size: number
+  /** Texte alternatif (accessibilité), proposé par défaut dans les posts — null si absent */
+  altText: string | null
+  /** Dimensions d'affichage sondées après l'upload — null si inconnues */
+  width: number | null
+  height: number | null
+  /** Durée des vidéos en millisecondes — null pour une image */
+  durationMs: number | null
+  /** Codec vidéo sondé ("h264", "hevc", "vp9"…) — null pour une image */
+  codec: string | null
+  /** État du sondage et des variantes par plateforme */
+  processingStatus: MediaProcessingStatus
+  /** Dernière erreur de sondage ou de transcodage */
+  processingError: string | null
+  /** Dossier de la galerie — null si hors dossier */
+  folderId: string | null
+  /** Tags (minuscules) */
+  tags: string[]
+  /** SHA-256 du fichier (hex) — null si non calculé (médias antérieurs, fichiers volumineux) */
+  contentHash: string | null
+  /** Empreinte perceptuelle des images (dHash 64 bits, hex) — null pour une vidéo */
+  perceptualHash: string | null
   /** Date de création de l'entrée en DB */
   createdAt: Date
+  /** Posts qui utilisent le média — chargé par listMedia uniquement */
+  usage?: MediaUsage
+}
+
+/**
+ * Utilisation d'un média par les posts du workspace (texte principal ou thread).
+ *
+ * @example
+ *   const usage: MediaUsage = { postCount: 3, scheduledPostCount: 1 }
+ */
+export interface MediaUsage {
+  /** Posts qui utilisent le média, tous statuts confondus */
+  postCount: number
+  /** Posts planifiés qui en dépendent (suppression bloquée) */
+  scheduledPostCount: number
+}
+
+/**
+ * Empreintes d'un fichier obtenues avant l'import (dHash calculé par le serveur), pour
+ * la recherche des doublons (voir modules/media/utils/media-file-hash.ts).
+ *
+ * @example
+ *   const hashes: MediaHashes = { contentHash: '9f86d0…0a08', perceptualHash: 'f0e4c2d8b0a89c3e' }
+ */
+export interface MediaHashes {
+  /** SHA-256 du fichier (hex) — null si non calculable */
+  contentHash: string | null
+  /** dHash 64 bits (hex) — null pour une vidéo ou une image illisible */
+  perceptualHash: string | null
+}
+
+/**
+ * Média de la galerie qui correspond à un fichier sur le point d'être importé
+ * (findDuplicateMedia).
+ *
+ * @example
+ *   const match: MediaDuplicateMatch = { media: item, exact: false }
+ */
+export interface MediaDuplicateMatch {
+  /** Média déjà dans la galerie */
+  media: MediaItem
+  /** true = fichier identique, false = image visuellement proche */
+  exact: boolean
 }
 
 /**
@@ -56,3 +137,54 @@ export interface MediaPage {
   /** Curseur vers la page suivante (id du dernier item), null si fin */
   nextCursor: string | null
 }
+
+/**
+ * Dossier de la galerie, avec son nombre de médias.
+ *
+ * @example
+ *   const folder: MediaFolderItem = { id: 'fld_1', name: 'Collection printemps', mediaCount: 42 }
+ */
+export interface MediaFolderItem {
+  id: string
+  name: string
+  mediaCount: number
+}
+
+/**
+ * Valeurs proposées par les filtres de la galerie (listMediaFacets).
+ *
+ * @example
+ *   const facets: MediaFacets = {
+ *     folders: [{ id: 'fld_1', name: 'Collection printemps', mediaCount: 42 }],
+ *     tags: [{ tag: 'printemps', count: 42 }, { tag: 'vitrine', count: 7 }],
+ *   }
+ */
+export interface MediaFacets {
+  /** Dossiers du workspace, par nom */
+  folders: MediaFolderItem[]
+  /** Tags les plus utilisés, du plus fréquent au moins fréquent */
+  tags: { tag: string; count: number }[]
+}
+
+/**
+ * Espace de stockage d'un utilisateur : médias de la galerie qu'il a importés
+ * et fichiers uploadés depuis le composer (voir lib/storage-quota.ts).
+ *
+ * @example
+ *   const usage: StorageUsage = {
+ *     usedBytes: 1_288_490_188,
+ *     quotaBytes: 5_368_709_120,
+ *     byType: { image: 214_748_364, video: 1_073_741_824, other: 0 },
+ *   }
+ */
+export interface StorageUsage {
+  /** Octets utilisés */
+  usedBytes: number
+  /** Quota en octets */
+  quotaBytes: number
+  /** Répartition des octets utilisés par type de fichier */
+  byType: Record<StorageFileType, number>
+}
+
+/** Type de fichier de la répartition du stockage */
+export type StorageFileType = 'image' | 'video' | 'other'
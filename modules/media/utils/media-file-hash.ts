@@ -0,0 +1,78 @@
+/**
+ * @file modules/media/utils/media-file-hash.ts
+ * @module media
+ * @description Empreintes d'un fichier avant son import dans la galerie, pour
+ *   proposer de réutiliser un média existant :
+ *   - SHA-256 via Web Crypto, pour les fichiers jusqu'à CONTENT_HASH_MAX_BYTES
+ *     (le fichier est lu entièrement en mémoire) — identique à celui du serveur
+ *   - dHash des images jusqu'à PERCEPTUAL_HASH_MAX_BYTES, demandé au serveur
+ *     (POST /api/gallery/image-hash) : il est calculé par le même code que celui
+ *     des médias stockés, une réduction par le navigateur donnerait une autre empreinte
+ *
+ *   Ces empreintes ne servent qu'à la recherche (findDuplicateMedia) : celles
+ *   enregistrées sur Media sont calculées par le serveur après l'upload
+ *   (hashStoredMedia, lib/media-processing.ts).
+ *
+ * @example
+ *   const { contentHash, perceptualHash } = await hashMediaFile(file)
+ *   const { data: match } = await findDuplicateMedia({ contentHash, perceptualHash })
+ */
+
+import type { MediaHashes } from '@/modules/media/types'
+import { PERCEPTUAL_HASH_MAX_BYTES } from '@/modules/media/utils/media-hash'
+
+// ─── Constantes ───────────────────────────────────────────────────────────────
+
+/** Taille maximale d'un fichier dont on calcule le SHA-256 : 100 Mo */
+const CONTENT_HASH_MAX_BYTES = 100 * 1024 * 1024
+
+/** Empreintes déjà calculées (un même File peut être proposé plusieurs fois) */
+const cache = new WeakMap<File, Promise<MediaHashes>>()
+
+// ─── Helpers ──────────────────────────────────────────────────────────────────
+
+/** SHA-256 hexadécimal du fichier, null s'il est trop volumineux ou hors contexte sécurisé */
+async function computeContentHash(file: File): Promise<string | null> {
+  if (file.size > CONTENT_HASH_MAX_BYTES || !globalThis.crypto?.subtle) return null
+  const digest = await crypto.subtle.digest('SHA-256', await file.arrayBuffer())
+  return Array.from(new Uint8Array(digest), (byte) => byte.toString(16).padStart(2, '0')).join('')
+}
+
+/** dHash d'une image calculé par le serveur, null pour une vidéo, une image trop lourde ou en cas d'échec */
+async function fetchPerceptualHash(file: File): Promise<string | null> {
+  if (!file.type.startsWith('image/') || file.size > PERCEPTUAL_HASH_MAX_BYTES) return null
+  try {
+    const res = await fetch('/api/gallery/image-hash', {
+      method: 'POST',
+      headers: { 'Content-Type': file.type },
+      body: file,
+    })
+    if (!res.ok) return null
+    const { perceptualHash } = (await res.json()) as { perceptualHash: string | null }
+    return perceptualHash
+  } catch {
+    return null
+  }
+}
+
+// ─── Calcul ───────────────────────────────────────────────────────────────────
+
+/**
+ * Empreintes d'un fichier (mémorisées pour ce fichier).
+ * Un échec de calcul donne une empreinte null : l'import n'est jamais bloqué.
+ *
+ * @param file - Fichier sélectionné par l'utilisateur
+ * @returns SHA-256 et dHash (null si non calculables)
+ */
+export function hashMediaFile(file: File): Promise<MediaHashes> {
+  const cached = cache.get(file)
+  if (cached) return cached
+
+  const hashes = Promise.all([
+    computeContentHash(file).catch(() => null),
+    fetchPerceptualHash(file),
+  ]).then(([contentHash, perceptualHash]) => ({ contentHash, perceptualHash }))
+
+  cache.set(file, hashes)
+  return hashes
+}
@@ -0,0 +1,69 @@
+/**
+ * @file modules/media/utils/media-filter.ts
+ * @module media
+ * @description Filtres de la galerie : conversion en clause Prisma (listMedia)
+ *   et manipulation des tags d'une sélection (actions groupées).
+ *
+ * @example
+ *   const where = buildMediaWhere('ws_1', { search: 'vitrine', kind: 'image', folderId: MEDIA_NO_FOLDER })
+ *   applyTagChanges(['promo', 'été'], { add: ['printemps'], remove: ['promo'] }) // → ['été', 'printemps']
+ */
+
+import type { MediaFilter } from '@/modules/media/schemas/media.schema'
+
+// ─── Constantes ───────────────────────────────────────────────────────────────
+
+/** Valeur du filtre par dossier pour les médias hors dossier */
+export const MEDIA_NO_FOLDER = 'none'
+
+// ─── Filtres ──────────────────────────────────────────────────────────────────
+
+/**
+ * Clause `where` Prisma des médias d'un workspace correspondant aux filtres.
+ * Recherche : chaque mot doit apparaître dans le nom du fichier, le texte
+ * alternatif (insensible à la casse) ou être l'un des tags.
+ * Dates : bornes calendaires UTC incluses sur la date d'import.
+ *
+ * @param workspaceId - Workspace de la galerie
+ * @param filter      - Filtres validés (MediaFilterSchema)
+ * @returns Clause `where` pour prisma.media.findMany
+ */
+export function buildMediaWhere(workspaceId: string, filter: MediaFilter): Record<string, unknown> {
+  const keywords = (filter.search ?? '').split(/\s+/).filter(Boolean)
+
+  return {
+    workspaceId,
+    ...(filter.kind && { mimeType: { startsWith: `${filter.kind}/` } }),
+    ...(filter.tag && { tags: { has: filter.tag } }),
+    ...(filter.folderId && { folderId: filter.folderId === MEDIA_NO_FOLDER ? null : filter.folderId }),
+    ...((filter.from || filter.to) && {
+      createdAt: {
+        ...(filter.from && { gte: new Date(`${filter.from}T00:00:00.000Z`) }),
+        ...(filter.to && { lte: new Date(`${filter.to}T23:59:59.999Z`) }),
+      },
+    }),
+    ...(keywords.length > 0 && {
+      AND: keywords.map((keyword) => ({
+        OR: [
+          { filename: { contains: keyword, mode: 'insensitive' as const } },
+          { altText: { contains: keyword, mode: 'insensitive' as const } },
+          { tags: { has: keyword.toLowerCase() } },
+        ],
+      })),
+    }),
+  }
+}
+
+// ─── Tags ─────────────────────────────────────────────────────────────────────
+
+/**
+ * Tags d'un média après ajout et retrait (sans doublon, ordre conservé).
+ *
+ * @param tags    - Tags actuels
+ * @param changes - Tags à ajouter / retirer (normalisés)
+ * @returns Nouveaux tags
+ */
+export function applyTagChanges(tags: string[], changes: { add: string[]; remove: string[] }): string[] {
+  const removed = new Set(changes.remove)
+  return [...new Set([...tags, ...changes.add])].filter((tag) => !removed.has(tag))
+}
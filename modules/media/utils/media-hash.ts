@@ -0,0 +1,202 @@
+/**
+ * @file modules/media/utils/media-hash.ts
+ * @module media
+ * @description Détection des doublons de la galerie à partir des empreintes
+ *   calculées à l'import :
+ *   - `contentHash` : SHA-256 du fichier → copie exacte (même fichier importé
+ *     depuis un autre appareil)
+ *   - `perceptualHash` : dHash 64 bits des images → même photo recompressée,
+ *     redimensionnée ou convertie (JPEG ↔ PNG, export d'une messagerie…)
+ *
+ *   dHash : l'image est réduite à 9×8 pixels en niveaux de gris, chaque bit
+ *   indique si un pixel est plus clair que son voisin de droite. Deux images
+ *   sont proches quand leurs empreintes diffèrent d'au plus
+ *   PERCEPTUAL_HASH_MAX_DISTANCE bits (distance de Hamming).
+ *
+ *   Fonctions pures — le dHash n'est calculé que par le serveur
+ *   (perceptualHashOfImage, lib/media-processing.ts), y compris pour un fichier
+ *   à importer (route /api/gallery/image-hash) ; les requêtes sont dans
+ *   actions/media-duplicate.action.ts.
+ *
+ * @example
+ *   const hash = dHashFromRgba(ffmpegRgbaOutput) // image réduite en 9×8
+ *   hammingDistance(hash, 'f0e4c2d8b0a89c3e') // → 3
+ *   clusterDuplicates(items) // → [[original, copie1, copie2], …]
+ */
+
+// ─── Constantes ───────────────────────────────────────────────────────────────
+
+/** Largeur de l'image réduite (8 comparaisons par ligne) */
+export const DHASH_WIDTH = 9
+
+/** Hauteur de l'image réduite (8 lignes) */
+export const DHASH_HEIGHT = 8
+
+/**
+ * Distance de Hamming maximale entre deux images considérées comme la même photo.
+ * Une recompression ou un redimensionnement changent rarement plus de 5 bits ;
+ * deux photos différentes d'une même scène en diffèrent généralement de plus de 10.
+ */
+export const PERCEPTUAL_HASH_MAX_DISTANCE = 8
+
+/**
+ * Taille maximale d'une image envoyée au serveur pour son dHash avant l'import
+ * (au-delà, seule la copie exacte est recherchée) : 20 Mo
+ */
+export const PERCEPTUAL_HASH_MAX_BYTES = 20 * 1024 * 1024
+
+/** SHA-256 en hexadécimal */
+export const CONTENT_HASH_REGEX = /^[0-9a-f]{64}$/
+
+/** dHash 64 bits en hexadécimal */
+export const PERCEPTUAL_HASH_REGEX = /^[0-9a-f]{16}$/
+
+// ─── Types ────────────────────────────────────────────────────────────────────
+
+/** Champs d'un média utilisés pour le regroupement des doublons */
+export interface HashedMedia {
+  id: string
+  contentHash: string | null
+  perceptualHash: string | null
+  createdAt: Date
+}
+
+// ─── Empreintes ───────────────────────────────────────────────────────────────
+
+/**
+ * dHash d'une image réduite à DHASH_WIDTH × DHASH_HEIGHT pixels.
+ *
+ * @param rgba - Pixels RGBA ligne par ligne (sortie rawvideo de ffmpeg), 9 × 8 × 4 valeurs
+ * @returns Empreinte 64 bits en hexadécimal (16 caractères)
+ */
+export function dHashFromRgba(rgba: ArrayLike<number>): string {
+  if (rgba.length !== DHASH_WIDTH * DHASH_HEIGHT * 4) {
+    throw new Error(`dHash : ${DHASH_WIDTH}×${DHASH_HEIGHT} pixels RGBA attendus`)
+  }
+
+  // Luminance (Rec. 601) de chaque pixel
+  const gray = (x: number, y: number): number => {
+    const i = (y * DHASH_WIDTH + x) * 4
+    return 0.299 * rgba[i] + 0.587 * rgba[i + 1] + 0.114 * rgba[i + 2]
+  }
+
+  // Deux mots de 32 bits (lignes 0-3, puis 4-7) : les opérateurs binaires JS sont sur 32 bits
+  const words = [0, 0]
+  for (let y = 0; y < DHASH_HEIGHT; y++) {
+    for (let x = 0; x < DHASH_WIDTH - 1; x++) {
+      const word = y < DHASH_HEIGHT / 2 ? 0 : 1
+      words[word] = ((words[word] << 1) | (gray(x, y) > gray(x + 1, y) ? 1 : 0)) >>> 0
+    }
+  }
+
+  return words.map((w) => w.toString(16).padStart(8, '0')).join('')
+}
+
+/** Nombre de bits à 1 d'un entier 32 bits */
+function popcount32(n: number): number {
+  let v = n - ((n >>> 1) & 0x55555555)
+  v = (v & 0x33333333) + ((v >>> 2) & 0x33333333)
+  return (((v + (v >>> 4)) & 0x0f0f0f0f) * 0x01010101) >>> 24
+}
+
+/** Découpe une empreinte hexadécimale de 64 bits en deux mots de 32 bits */
+function hashWords(hash: string): [number, number] {
+  return [parseInt(hash.slice(0, 8), 16), parseInt(hash.slice(8, 16), 16)]
+}
+
+/**
+ * Nombre de bits qui diffèrent entre deux empreintes perceptuelles.
+ *
+ * @param a - dHash hexadécimal
+ * @param b - dHash hexadécimal
+ * @returns Distance de Hamming (0 à 64)
+ */
+export function hammingDistance(a: string, b: string): number {
+  const [a1, a2] = hashWords(a)
+  const [b1, b2] = hashWords(b)
+  return popcount32((a1 ^ b1) >>> 0) + popcount32((a2 ^ b2) >>> 0)
+}
+
+// ─── Recherche ────────────────────────────────────────────────────────────────
+
+/**
+ * Image visuellement la plus proche d'une empreinte, dans la limite de
+ * PERCEPTUAL_HASH_MAX_DISTANCE.
+ *
+ * @param perceptualHash - Empreinte du fichier importé
+ * @param candidates     - Médias de la galerie avec leur empreinte
+ * @returns ID du média le plus proche, ou null si aucun n'est assez proche
+ */
+export function findNearestDuplicate(
+  perceptualHash: string,
+  candidates: { id: string; perceptualHash: string }[],
+): string | null {
+  let best: { id: string; distance: number } | null = null
+  for (const candidate of candidates) {
+    const distance = hammingDistance(perceptualHash, candidate.perceptualHash)
+    if (distance <= PERCEPTUAL_HASH_MAX_DISTANCE && (!best || distance < best.distance)) {
+      best = { id: candidate.id, distance }
+    }
+  }
+  return best?.id ?? null
+}
+
+/**
+ * Regroupe les médias identiques (même contentHash) ou visuellement proches
+ * (dHash à PERCEPTUAL_HASH_MAX_DISTANCE bits près). Les groupes sont
+ * transitifs : A proche de B et B proche de C → A, B et C ensemble.
+ *
+ * @param items - Médias avec leurs empreintes
+ * @returns Groupes d'au moins deux médias, du plus ancien (l'original) au plus
+ *   récent, les groupes les plus nombreux d'abord
+ */
+export function clusterDuplicates<T extends HashedMedia>(items: T[]): T[][] {
+  // Union-find sur les index des médias
+  const parent = items.map((_, i) => i)
+  const find = (i: number): number => {
+    while (parent[i] !== i) {
+      parent[i] = parent[parent[i]]
+      i = parent[i]
+    }
+    return i
+  }
+  const union = (a: number, b: number): void => {
+    parent[find(a)] = find(b)
+  }
+
+  // Copies exactes
+  const byContent = new Map<string, number>()
+  items.forEach((item, i) => {
+    if (!item.contentHash) return
+    const first = byContent.get(item.contentHash)
+    if (first === undefined) byContent.set(item.contentHash, i)
+    else union(i, first)
+  })
+
+  // Images proches (comparaison deux à deux des empreintes)
+  const hashed = items
+    .map((item, i) => ({ i, words: item.perceptualHash ? hashWords(item.perceptualHash) : null }))
+    .filter((entry): entry is { i: number; words: [number, number] } => entry.words !== null)
+  for (let a = 0; a < hashed.length; a++) {
+    const [a1, a2] = hashed[a].words
+    for (let b = a + 1; b < hashed.length; b++) {
+      const [b1, b2] = hashed[b].words
+      if (popcount32((a1 ^ b1) >>> 0) + popcount32((a2 ^ b2) >>> 0) <= PERCEPTUAL_HASH_MAX_DISTANCE) {
+        union(hashed[a].i, hashed[b].i)
+      }
+    }
+  }
+
+  const groups = new Map<number, T[]>()
+  items.forEach((item, i) => {
+    const root = find(i)
+    const group = groups.get(root)
+    if (group) group.push(item)
+    else groups.set(root, [item])
+  })
+
+  return [...groups.values()]
+    .filter((group) => group.length > 1)
+    .map((group) => group.sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime()))
+    .sort((a, b) => b.length - a.length)
+}
@@ -0,0 +1,481 @@
+/**
+ * @file modules/media/utils/media-probe.ts
+ * @module media
+ * @description Sondage des fichiers médias à partir de leurs octets : type MIME
+ *   réel (signature du fichier, pas l'extension), dimensions, durée et codec vidéo.
+ *
+ *   Formats lus :
+ *   - Images : JPEG, PNG, GIF, WebP
+ *   - Vidéos MP4 / QuickTime (ISO BMFF) : boîtes moov → mvhd (durée), tkhd
+ *     (dimensions, rotation), stsd (codec)
+ *   - Vidéos WebM / Matroska (EBML) : Info (durée), Tracks (dimensions, codec)
+ *
+ *   Le fichier est lu par morceaux (ByteReader) : côté serveur, des requêtes HTTP
+ *   Range évitent de télécharger une vidéo entière pour trouver sa boîte moov.
+ *
+ * @example
+ *   const probe = await probeMedia(httpRangeReader(media.url), media.size)
+ *   // → { mimeType: 'video/quicktime', kind: 'video', width: 1080, height: 1920, durationMs: 32_480, codec: 'hevc' }
+ */
+
+// ─── Types ────────────────────────────────────────────────────────────────────
+
+/**
+ * Lecture d'un morceau du fichier.
+ * Peut retourner moins d'octets que demandé en fin de fichier.
+ */
+export type ByteReader = (offset: number, length: number) => Promise<Uint8Array>
+
+/** Caractéristiques d'un média sondé */
+export interface MediaProbe {
+  /** Type MIME réel, déduit de la signature du fichier */
+  mimeType: string
+  kind: 'image' | 'video'
+  /** Dimensions d'affichage (rotation appliquée) — null si illisibles */
+  width: number | null
+  height: number | null
+  /** Durée des vidéos en millisecondes */
+  durationMs: number | null
+  /** Codec vidéo : "h264", "hevc", "vp9", "av1"… (null pour une image) */
+  codec: string | null
+}
+
+// ─── Constantes ───────────────────────────────────────────────────────────────
+
+/** Octets lus en tête de fichier (signature, en-têtes d'image, début EBML) */
+const HEAD_SIZE = 256 * 1024
+
+/** Taille maximale d'une boîte moov lue en entier (index des échantillons compris) */
+const MAX_MOOV_SIZE = 32 * 1024 * 1024
+
+/** Types MIME déduits de l'extension (repli pour les fichiers non sondés) */
+const MIME_BY_EXTENSION: Record<string, string> = {
+  jpg: 'image/jpeg',
+  jpeg: 'image/jpeg',
+  png: 'image/png',
+  gif: 'image/gif',
+  webp: 'image/webp',
+  heic: 'image/heic',
+  mp4: 'video/mp4',
+  m4v: 'video/mp4',
+  mov: 'video/quicktime',
+  webm: 'video/webm',
+  mkv: 'video/x-matroska',
+  avi: 'video/x-msvideo',
+}
+
+/** Codecs ISO BMFF (entrée stsd) → nom court */
+const BMFF_CODECS: Record<string, string> = {
+  avc1: 'h264',
+  avc3: 'h264',
+  hvc1: 'hevc',
+  hev1: 'hevc',
+  av01: 'av1',
+  vp09: 'vp9',
+  mp4v: 'mpeg4',
+}
+
+/** Codecs Matroska (CodecID) → nom court */
+const MATROSKA_CODECS: Record<string, string> = {
+  V_VP8: 'vp8',
+  V_VP9: 'vp9',
+  V_AV1: 'av1',
+  'V_MPEG4/ISO/AVC': 'h264',
+  'V_MPEGH/ISO/HEVC': 'hevc',
+}
+
+// ─── Helpers octets ───────────────────────────────────────────────────────────
+
+function ascii(bytes: Uint8Array, offset: number, length: number): string {
+  return String.fromCharCode(...bytes.subarray(offset, offset + length))
+}
+
+function view(bytes: Uint8Array): DataView {
+  return new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength)
+}
+
+function startsWith(bytes: Uint8Array, signature: number[], offset = 0): boolean {
+  return signature.every((byte, i) => bytes[offset + i] === byte)
+}
+
+// ─── Type MIME ────────────────────────────────────────────────────────────────
+
+/**
+ * Type MIME déduit de l'extension d'une URL (paramètres et ancre ignorés).
+ * Repli pour les médias absents de la galerie ou pas encore sondés.
+ *
+ * @param url - URL ou nom de fichier
+ * @returns Type MIME (image/jpeg si l'extension est inconnue)
+ *
+ * @example
+ *   mimeTypeFromUrl('https://…/clip.MOV?v=2') // → 'video/quicktime'
+ */
+export function mimeTypeFromUrl(url: string): string {
+  const extension = url.split(/[?#]/)[0]?.split('.').pop()?.toLowerCase() ?? ''
+  return MIME_BY_EXTENSION[extension] ?? 'image/jpeg'
+}
+
+/**
+ * Type MIME réel d'un fichier d'après sa signature.
+ *
+ * @param head - Premiers octets du fichier (au moins 16)
+ * @returns Type MIME, ou null si le format n'est pas reconnu
+ */
+export function detectMimeType(head: Uint8Array): string | null {
+  if (startsWith(head, [0xff, 0xd8, 0xff])) return 'image/jpeg'
+  if (startsWith(head, [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a])) return 'image/png'
+  if (ascii(head, 0, 4) === 'GIF8') return 'image/gif'
+  if (ascii(head, 0, 4) === 'RIFF' && ascii(head, 8, 4) === 'WEBP') return 'image/webp'
+  if (ascii(head, 0, 4) === 'RIFF' && ascii(head, 8, 4) === 'AVI ') return 'video/x-msvideo'
+  if (startsWith(head, [0x1a, 0x45, 0xdf, 0xa3])) {
+    // DocType EBML : "webm" ou "matroska"
+    return ascii(head, 0, Math.min(head.length, 64)).includes('webm') ? 'video/webm' : 'video/x-matroska'
+  }
+  if (ascii(head, 4, 4) === 'ftyp') {
+    const brand = ascii(head, 8, 4)
+    if (brand === 'qt  ') return 'video/quicktime'
+    if (['heic', 'heix', 'mif1'].includes(brand)) return 'image/heic'
+    return 'video/mp4'
+  }
+  return null
+}
+
+// ─── Images ───────────────────────────────────────────────────────────────────
+
+/**
+ * Dimensions d'une image d'après ses en-têtes.
+ *
+ * @param mimeType - Type MIME détecté
+ * @param head     - Premiers octets du fichier
+ * @returns { width, height } ou null si illisibles
+ */
+function imageDimensions(mimeType: string, head: Uint8Array): { width: number; height: number } | null {
+  const data = view(head)
+  switch (mimeType) {
+    case 'image/png':
+      // Chunk IHDR : largeur et hauteur en big-endian
+      return head.length >= 24 ? { width: data.getUint32(16), height: data.getUint32(20) } : null
+    case 'image/gif':
+      return head.length >= 10 ? { width: data.getUint16(6, true), height: data.getUint16(8, true) } : null
+    case 'image/webp': {
+      const chunk = ascii(head, 12, 4)
+      if (chunk === 'VP8X' && head.length >= 30) {
+        // Dimensions - 1 sur 24 bits little-endian
+        const width = 1 + (head[24]! | (head[25]! << 8) | (head[26]! << 16))
+        const height = 1 + (head[27]! | (head[28]! << 8) | (head[29]! << 16))
+        return { width, height }
+      }
+      if (chunk === 'VP8 ' && head.length >= 30) {
+        return { width: data.getUint16(26, true) & 0x3fff, height: data.getUint16(28, true) & 0x3fff }
+      }
+      if (chunk === 'VP8L' && head.length >= 25) {
+        const bits = data.getUint32(21, true)
+        return { width: (bits & 0x3fff) + 1, height: ((bits >> 14) & 0x3fff) + 1 }
+      }
+      return null
+    }
+    case 'image/jpeg': {
+      // Parcours des segments jusqu'au marqueur SOF (Start Of Frame)
+      let offset = 2
+      while (offset + 9 < head.length) {
+        if (head[offset] !== 0xff) return null
+        const marker = head[offset + 1]!
+        const length = data.getUint16(offset + 2)
+        const isStartOfFrame = marker >= 0xc0 && marker <= 0xcf && ![0xc4, 0xc8, 0xcc].includes(marker)
+        if (isStartOfFrame) {
+          return { width: data.getUint16(offset + 7), height: data.getUint16(offset + 5) }
+        }
+        offset += 2 + length
+      }
+      return null
+    }
+    default:
+      return null
+  }
+}
+
+// ─── ISO BMFF (MP4, QuickTime) ────────────────────────────────────────────────
+
+interface Box {
+  type: string
+  /** Début du contenu (après l'en-tête) */
+  start: number
+  /** Fin de la boîte (exclue) */
+  end: number
+}
+
+/**
+ * Boîtes enfants d'une plage d'octets déjà en mémoire.
+ *
+ * @param bytes - Octets contenant les boîtes
+ * @param start - Début de la plage
+ * @param end   - Fin de la plage (exclue)
+ */
+function childBoxes(bytes: Uint8Array, start: number, end: number): Box[] {
+  const data = view(bytes)
+  const boxes: Box[] = []
+  let offset = start
+  while (offset + 8 <= end) {
+    let size = data.getUint32(offset)
+    let headerSize = 8
+    if (size === 1 && offset + 16 <= end) {
+      size = Number(data.getBigUint64(offset + 8))
+      headerSize = 16
+    } else if (size === 0) {
+      size = end - offset
+    }
+    if (size < headerSize) break
+    boxes.push({ type: ascii(bytes, offset + 4, 4), start: offset + headerSize, end: Math.min(offset + size, end) })
+    offset += size
+  }
+  return boxes
+}
+
+function findBox(bytes: Uint8Array, parent: Box, type: string): Box | undefined {
+  return childBoxes(bytes, parent.start, parent.end).find((box) => box.type === type)
+}
+
+/**
+ * Localise la boîte moov en parcourant les boîtes de premier niveau
+ * (elle peut se trouver en fin de fichier, après les données mdat).
+ *
+ * @returns Contenu complet de la boîte moov, ou null si absente / trop grande
+ */
+async function readMoov(read: ByteReader, size: number): Promise<Uint8Array | null> {
+  let offset = 0
+  while (offset + 8 <= size) {
+    const header = await read(offset, 16)
+    if (header.length < 8) return null
+    const data = view(header)
+    let boxSize = data.getUint32(0)
+    if (boxSize === 1 && header.length >= 16) boxSize = Number(data.getBigUint64(8))
+    else if (boxSize === 0) boxSize = size - offset
+    if (boxSize < 8) return null
+
+    if (ascii(header, 4, 4) === 'moov') {
+      return boxSize <= MAX_MOOV_SIZE ? read(offset, boxSize) : null
+    }
+    offset += boxSize
+  }
+  return null
+}
+
+/**
+ * Durée, dimensions et codec de la piste vidéo d'une boîte moov.
+ *
+ * @param moov - Octets de la boîte moov (en-tête compris)
+ */
+function parseMoov(moov: Uint8Array): Pick<MediaProbe, 'width' | 'height' | 'durationMs' | 'codec'> {
+  const data = view(moov)
+  const root = childBoxes(moov, 0, moov.length)[0]
+  const result: Pick<MediaProbe, 'width' | 'height' | 'durationMs' | 'codec'> = {
+    width: null,
+    height: null,
+    durationMs: null,
+    codec: null,
+  }
+  if (!root) return result
+
+  // mvhd : échelle de temps et durée du film (champs 64 bits en version 1)
+  const mvhd = findBox(moov, root, 'mvhd')
+  if (mvhd) {
+    const isV1 = moov[mvhd.start] === 1
+    const timescale = data.getUint32(mvhd.start + (isV1 ? 20 : 12))
+    const duration = isV1 ? Number(data.getBigUint64(mvhd.start + 24)) : data.getUint32(mvhd.start + 16)
+    if (timescale > 0) result.durationMs = Math.round((duration / timescale) * 1000)
+  }
+
+  for (const trak of childBoxes(moov, root.start, root.end).filter((box) => box.type === 'trak')) {
+    const mdia = findBox(moov, trak, 'mdia')
+    const hdlr = mdia && findBox(moov, mdia, 'hdlr')
+    if (!hdlr || ascii(moov, hdlr.start + 8, 4) !== 'vide') continue
+
+    // tkhd : dimensions en virgule fixe 16.16, précédées de la matrice de transformation
+    const tkhd = findBox(moov, trak, 'tkhd')
+    if (tkhd) {
+      const widthOffset = tkhd.start + (moov[tkhd.start] === 1 ? 88 : 76)
+      const width = Math.round(data.getUint32(widthOffset) / 65536)
+      const height = Math.round(data.getUint32(widthOffset + 4) / 65536)
+      // Rotation de 90° / 270° (vidéo verticale filmée au téléphone) : a = 0, b = ±1
+      const matrixA = data.getInt32(widthOffset - 36)
+      const matrixB = data.getInt32(widthOffset - 32)
+      const isRotated = matrixA === 0 && matrixB !== 0
+      result.width = isRotated ? height : width
+      result.height = isRotated ? width : height
+    }
+
+    // stsd : le format de la première entrée est le codec
+    const minf = mdia && findBox(moov, mdia, 'minf')
+    const stbl = minf && findBox(moov, minf, 'stbl')
+    const stsd = stbl && findBox(moov, stbl, 'stsd')
+    if (stsd && stsd.start + 16 <= stsd.end) {
+      const format = ascii(moov, stsd.start + 12, 4)
+      result.codec = BMFF_CODECS[format] ?? format.trim()
+    }
+    break
+  }
+  return result
+}
+
+// ─── EBML (WebM, Matroska) ────────────────────────────────────────────────────
+
+/** Éléments Matroska parcourus (conteneurs) ou lus (valeurs) */
+const EBML_IDS = {
+  segment: 0x18538067,
+  info: 0x1549a966,
+  tracks: 0x1654ae6b,
+  trackEntry: 0xae,
+  video: 0xe0,
+  cluster: 0x1f43b675,
+  timecodeScale: 0x2ad7b1,
+  duration: 0x4489,
+  trackType: 0x83,
+  codecId: 0x86,
+  pixelWidth: 0xb0,
+  pixelHeight: 0xba,
+} as const
+
+const EBML_CONTAINERS: ReadonlySet<number> = new Set([
+  EBML_IDS.segment,
+  EBML_IDS.info,
+  EBML_IDS.tracks,
+  EBML_IDS.trackEntry,
+  EBML_IDS.video,
+])
+
+/**
+ * Lit un entier à longueur variable EBML.
+ *
+ * @param keepMarker - true pour un identifiant d'élément (bit de longueur conservé)
+ * @returns Valeur (null = taille inconnue) et longueur, ou null si illisible
+ */
+function readVint(bytes: Uint8Array, offset: number, keepMarker: boolean): { value: number | null; length: number } | null {
+  const first = bytes[offset]
+  if (first === undefined || first === 0) return null
+  const length = Math.clz32(first) - 23
+  if (offset + length > bytes.length) return null
+
+  let value = keepMarker ? first : first & (0xff >> length)
+  let allOnes = value === 0xff >> length
+  for (let i = 1; i < length; i++) {
+    value = value * 256 + bytes[offset + i]!
+    allOnes &&= bytes[offset + i] === 0xff
+  }
+  return { value: !keepMarker && allOnes ? null : value, length }
+}
+
+function readUint(bytes: Uint8Array, start: number, end: number): number {
+  let value = 0
+  for (let i = start; i < end; i++) value = value * 256 + bytes[i]!
+  return value
+}
+
+/**
+ * Durée, dimensions et codec de la piste vidéo d'un fichier WebM / Matroska.
+ * Seule la tête du fichier est lue : Info et Tracks précèdent les clusters.
+ *
+ * @param head - Premiers octets du fichier
+ */
+function parseEbml(head: Uint8Array): Pick<MediaProbe, 'width' | 'height' | 'durationMs' | 'codec'> {
+  const data = view(head)
+  let timecodeScale = 1_000_000
+  let duration: number | null = null
+  const result: Pick<MediaProbe, 'width' | 'height' | 'durationMs' | 'codec'> = {
+    width: null,
+    height: null,
+    durationMs: null,
+    codec: null,
+  }
+  // Piste en cours de lecture : retenue si c'est la première piste vidéo
+  let track: { type?: number; codec?: string; width?: number; height?: number } = {}
+
+  const walk = (start: number, end: number): void => {
+    let offset = start
+    while (offset < end) {
+      const id = readVint(head, offset, true)
+      const size = id && readVint(head, offset + id.length, false)
+      if (!id || !size) return
+      const contentStart = offset + id.length + size.length
+      const contentEnd = size.value === null ? end : Math.min(contentStart + size.value, end)
+
+      if (id.value === EBML_IDS.cluster) return
+      if (EBML_CONTAINERS.has(id.value!)) {
+        if (id.value === EBML_IDS.trackEntry) track = {}
+        walk(contentStart, contentEnd)
+        if (id.value === EBML_IDS.trackEntry && track.type === 1 && result.codec === null) {
+          result.codec = track.codec ? (MATROSKA_CODECS[track.codec] ?? track.codec) : null
+          result.width = track.width ?? null
+          result.height = track.height ?? null
+        }
+      } else if (id.value === EBML_IDS.timecodeScale) {
+        timecodeScale = readUint(head, contentStart, contentEnd)
+      } else if (id.value === EBML_IDS.duration) {
+        duration = contentEnd - contentStart === 8 ? data.getFloat64(contentStart) : data.getFloat32(contentStart)
+      } else if (id.value === EBML_IDS.trackType) {
+        track.type = readUint(head, contentStart, contentEnd)
+      } else if (id.value === EBML_IDS.codecId) {
+        track.codec = ascii(head, contentStart, contentEnd - contentStart).replace(/\0+$/, '')
+      } else if (id.value === EBML_IDS.pixelWidth) {
+        track.width = readUint(head, contentStart, contentEnd)
+      } else if (id.value === EBML_IDS.pixelHeight) {
+        track.height = readUint(head, contentStart, contentEnd)
+      }
+      offset = contentEnd
+    }
+  }
+
+  // Premier élément : en-tête EBML, puis le segment
+  const header = readVint(head, 0, true)
+  const headerSize = header && readVint(head, header.length, false)
+  if (!header || !headerSize || headerSize.value === null) return result
+  walk(header.length + headerSize.length + headerSize.value, head.length)
+
+  if (duration !== null) result.durationMs = Math.round((duration * timecodeScale) / 1_000_000)
+  return result
+}
+
+// ─── Sondage ──────────────────────────────────────────────────────────────────
+
+/**
+ * Sonde un média : type MIME réel, dimensions, durée et codec.
+ *
+ * @param read - Lecture d'un morceau du fichier
+ * @param size - Taille totale du fichier en octets
+ * @returns Caractéristiques du média, ou null si le format n'est pas reconnu
+ *
+ * @example
+ *   const bytes = new Uint8Array(await file.arrayBuffer())
+ *   await probeMedia(async (offset, length) => bytes.subarray(offset, offset + length), bytes.length)
+ */
+export async function probeMedia(read: ByteReader, size: number): Promise<MediaProbe | null> {
+  const head = await read(0, Math.min(HEAD_SIZE, size))
+  const mimeType = detectMimeType(head)
+  if (!mimeType) return null
+
+  if (mimeType.startsWith('image/')) {
+    const dimensions = imageDimensions(mimeType, head)
+    return {
+      mimeType,
+      kind: 'image',
+      width: dimensions?.width ?? null,
+      height: dimensions?.height ?? null,
+      durationMs: null,
+      codec: null,
+    }
+  }
+
+  if (mimeType === 'video/webm' || mimeType === 'video/x-matroska') {
+    return { mimeType, kind: 'video', ...parseEbml(head) }
+  }
+
+  if (mimeType === 'video/mp4' || mimeType === 'video/quicktime') {
+    const moov = await readMoov(read, size)
+    return {
+      mimeType,
+      kind: 'video',
+      ...(moov ? parseMoov(moov) : { width: null, height: null, durationMs: null, codec: null }),
+    }
+  }
+
+  return { mimeType, kind: 'video', width: null, height: null, durationMs: null, codec: null }
+}
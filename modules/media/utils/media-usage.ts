@@ -0,0 +1,96 @@
+/**
+ * @file modules/media/utils/media-usage.ts
+ * @module media
+ * @description Utilisation des médias par les posts : décompte par média,
+ *   garde-fou de suppression et sélection des fichiers orphelins du Storage.
+ *
+ *   Fonctions pures — les requêtes sont dans lib/media-usage.ts (graphe média ↔ post)
+ *   et lib/media-cleanup.ts (nettoyage du bucket).
+ *
+ * @example
+ *   const usage = summarizeMediaUsage(urls, [{ url, status: 'SCHEDULED' }])
+ *   mediaDeletionError([{ filename: 'vitrine.jpg', usage: usage.get(url)! }])
+ *   // → '« vitrine.jpg » est utilisé par 1 post planifié : …'
+ */
+
+import type { MediaUsage } from '@/modules/media/types'
+
+// ─── Constantes ───────────────────────────────────────────────────────────────
+
+/** Média utilisé par aucun post */
+export const NO_MEDIA_USAGE: MediaUsage = { postCount: 0, scheduledPostCount: 0 }
+
+/**
+ * Âge minimal d'un fichier orphelin avant suppression (jours).
+ * Laisse le temps d'enregistrer un post ou un média après l'upload
+ * (brouillons locaux du composer, upload interrompu puis repris).
+ */
+export const ORPHAN_MIN_AGE_DAYS = 7
+
+// ─── Décompte ─────────────────────────────────────────────────────────────────
+
+/**
+ * Décompte des posts qui utilisent chaque média.
+ *
+ * @param urls       - URLs des médias
+ * @param references - Un élément par couple (média, post) : URL du média et statut du post
+ * @returns Utilisation par URL (NO_MEDIA_USAGE si le média n'est utilisé par aucun post)
+ */
+export function summarizeMediaUsage(
+  urls: string[],
+  references: { url: string; status: string }[],
+): Map<string, MediaUsage> {
+  const usage = new Map<string, MediaUsage>(urls.map((url) => [url, NO_MEDIA_USAGE]))
+  for (const { url, status } of references) {
+    const current = usage.get(url) ?? NO_MEDIA_USAGE
+    usage.set(url, {
+      postCount: current.postCount + 1,
+      scheduledPostCount: current.scheduledPostCount + (status === 'SCHEDULED' ? 1 : 0),
+    })
+  }
+  return usage
+}
+
+// ─── Suppression ──────────────────────────────────────────────────────────────
+
+/**
+ * Refuse la suppression de médias dont dépendent des posts planifiés :
+ * le fichier disparaîtrait avant la publication, qui échouerait.
+ *
+ * @param media - Médias à supprimer et leur utilisation
+ * @returns Message d'erreur, ou null si aucun post planifié n'en dépend
+ */
+export function mediaDeletionError(media: { filename: string; usage: MediaUsage }[]): string | null {
+  const blocked = media.filter((m) => m.usage.scheduledPostCount > 0)
+  const [first] = blocked
+  if (!first) return null
+
+  if (blocked.length === 1) {
+    const count = first.usage.scheduledPostCount
+    return `« ${first.filename} » est utilisé par ${count} post${count > 1 ? 's' : ''} planifié${count > 1 ? 's' : ''} : `
+      + 'retirez-le de ces posts ou déplanifiez-les avant de le supprimer'
+  }
+  return `${blocked.length} médias sont utilisés par des posts planifiés (${blocked.map((m) => `« ${m.filename} »`).join(', ')}) : `
+    + 'retirez-les de ces posts ou déplanifiez-les avant de les supprimer'
+}
+
+// ─── Fichiers orphelins ───────────────────────────────────────────────────────
+
+/**
+ * Fichiers du Storage à supprimer : ni média de la galerie, ni variante,
+ * ni post (ou révision de post) ne les référence, et ils ont plus de
+ * ORPHAN_MIN_AGE_DAYS jours.
+ *
+ * @param files      - Fichiers listés dans le bucket (URL publique, date de création)
+ * @param referenced - URLs référencées en DB
+ * @param now        - Date de référence
+ * @returns Fichiers orphelins
+ */
+export function selectOrphanFiles<T extends { url: string; createdAt: Date }>(
+  files: T[],
+  referenced: Set<string>,
+  now: Date,
+): T[] {
+  const threshold = now.getTime() - ORPHAN_MIN_AGE_DAYS * 24 * 60 * 60 * 1000
+  return files.filter((file) => !referenced.has(file.url) && file.createdAt.getTime() < threshold)
+}
@@ -0,0 +1,68 @@
+/**
+ * @file modules/media/utils/storage-quota.ts
+ * @module media
+ * @description Quota de stockage par utilisateur : décompte des fichiers par type
+ *   et vérification avant l'émission d'une URL d'upload.
+ *
+ *   Fonctions pures — la lecture des fichiers (DB + Storage) est dans lib/storage-quota.ts.
+ *
+ * @example
+ *   const usage = summarizeStorageUsage([{ mimeType: 'video/mp4', size: 1024 }], 5 * 1024 ** 3)
+ *   storageQuotaError(usage, 200 * 1024 * 1024) // → null (reste de la place)
+ */
+
+import type { StorageFileType, StorageUsage } from '@/modules/media/types'
+import { formatFileSize } from '@/modules/posts/utils/media.utils'
+
+// ─── Constantes ───────────────────────────────────────────────────────────────
+
+/** Quota par défaut (Mo) quand ni User.storageQuotaMb ni STORAGE_QUOTA_MB ne sont définis */
+export const DEFAULT_STORAGE_QUOTA_MB = 5 * 1024
+
+// ─── Décompte ─────────────────────────────────────────────────────────────────
+
+/**
+ * Type d'un fichier pour la répartition du stockage.
+ *
+ * @param mimeType - Type MIME (ex: "image/jpeg")
+ * @returns 'image', 'video' ou 'other'
+ */
+export function storageFileType(mimeType: string): StorageFileType {
+  if (mimeType.startsWith('image/')) return 'image'
+  if (mimeType.startsWith('video/')) return 'video'
+  return 'other'
+}
+
+/**
+ * Espace utilisé par des fichiers, réparti par type.
+ *
+ * @param files      - Fichiers (type MIME, taille en octets)
+ * @param quotaBytes - Quota de l'utilisateur
+ * @returns Utilisation du stockage
+ */
+export function summarizeStorageUsage(
+  files: { mimeType: string; size: number }[],
+  quotaBytes: number,
+): StorageUsage {
+  const byType: Record<StorageFileType, number> = { image: 0, video: 0, other: 0 }
+  for (const file of files) byType[storageFileType(file.mimeType)] += file.size
+  return { usedBytes: byType.image + byType.video + byType.other, quotaBytes, byType }
+}
+
+// ─── Vérification ─────────────────────────────────────────────────────────────
+
+/**
+ * Refuse un upload qui ferait dépasser le quota.
+ *
+ * @param usage - Utilisation actuelle
+ * @param size  - Taille du fichier à uploader (octets)
+ * @returns Message d'erreur, ou null si le fichier tient dans le quota
+ */
+export function storageQuotaError(usage: StorageUsage, size: number): string | null {
+  if (usage.usedBytes + size <= usage.quotaBytes) return null
+
+  const remaining = Math.max(usage.quotaBytes - usage.usedBytes, 0)
+  return `Espace de stockage insuffisant : ${formatFileSize(usage.usedBytes)} utilisés sur ${formatFileSize(usage.quotaBytes)}`
+    + ` (reste ${formatFileSize(remaining)}, fichier de ${formatFileSize(size)}).`
+    + ' Supprimez des médias de la galerie pour libérer de la place.'
+}
@@ -5,14 +5,14 @@
  *
  *   Flux complet :
  *   1. Validation Zod de la plateforme demandée
- *   2. Vérification de la session better-auth
- *   3. Récupérer ou créer le workspace Late de l'utilisateur (POST /api/v1/profiles)
- *      → l'ID est stocké dans User.lateWorkspaceId pour les prochains connects
+ *   2. Vérification de la session better-auth + rôle OWNER dans le workspace actif
+ *   3. Récupérer ou créer le workspace Late du workspace (POST /api/v1/profiles)
+ *      → l'ID est stocké dans Workspace.lateWorkspaceId pour les prochains connects
  *   4. Appel GET /api/v1/connect/get-connect-url?profileId=...&redirect_url=...
  *   5. Retour de authUrl au client pour redirection
  *
  *   Note : Late exige un "profileId" (workspace conteneur) avant tout connect OAuth.
- *   Ce workspace est créé une fois par utilisateur et réutilisé pour toutes les plateformes.
+ *   Ce workspace est créé une fois par workspace d'équipe et réutilisé pour toutes les plateformes.
  *
  * @example
  *   // Dans un Client Component
@@ -27,12 +27,14 @@ import { headers } from 'next/headers'
 import { auth } from '@/lib/auth'
 import { LateApiError, late } from '@/lib/late'
 import { prisma } from '@/lib/prisma'
+import { getWorkspaceContext } from '@/lib/workspace'
 import { ConnectPlatformSchema } from '@/modules/platforms/schemas/platform.schema'
 import type { PlatformActionResult } from '@/modules/platforms/types'
+import { workspaceRoleError } from '@/modules/workspaces/utils/roles'
 
 /**
  * Initie la connexion OAuth d'une plateforme sociale.
- * Crée ou réutilise le workspace Late de l'utilisateur, puis retourne l'URL OAuth.
+ * Crée ou réutilise le workspace Late du workspace actif, puis retourne l'URL OAuth.
  *
  * @param platform - La plateforme à connecter (ex: 'instagram', 'tiktok')
  * @returns { success, redirectUrl } — URL OAuth Late si succès, message d'erreur sinon
@@ -55,53 +57,53 @@ export async function connectPlatform(platform: unknown): Promise<PlatformAction
     return { success: false, error: 'Non authentifié. Reconnecte-toi.' }
   }
 
+  // Comptes partagés par l'équipe : seul le propriétaire du workspace les gère
+  const workspace = await getWorkspaceContext(session.user.id)
+  const roleError = workspaceRoleError(workspace.role, 'OWNER')
+  if (roleError) {
+    return { success: false, error: roleError }
+  }
+
   const callbackUrl = `${process.env.BETTER_AUTH_URL}/api/platforms/callback`
   console.log('[connectPlatform] plateforme:', validPlatform)
   console.log('[connectPlatform] callbackUrl:', callbackUrl)
 
   try {
     // 3. Récupérer le workspace Late existant OU en créer un nouveau
-    //    Le workspace est un conteneur Late qui regroupe les comptes sociaux de l'utilisateur.
-    //    Il est créé une seule fois par utilisateur puis réutilisé pour tous les connects.
-    const user = await prisma.user.findUnique({
-      where: { id: session.user.id },
-      select: { lateWorkspaceId: true, name: true },
-    })
-
-    let lateWorkspaceId = user?.lateWorkspaceId
+    //    Le workspace Late est un conteneur qui regroupe les comptes sociaux du workspace.
+    //    Il est créé une seule fois par workspace puis réutilisé pour tous les connects.
+    let lateWorkspaceId = workspace.lateWorkspaceId
 
     if (!lateWorkspaceId) {
-      // lateWorkspaceId absent = premier connect de cet utilisateur (création lazy).
-      // → Créer un nouveau workspace Late DÉDIÉ à cet utilisateur.
+      // lateWorkspaceId absent = premier connect de ce workspace (création lazy).
+      // → Créer un nouveau workspace Late DÉDIÉ à ce workspace.
       //
       // ⚠️ Ne pas utiliser late.profiles.list() : il retourne TOUS les workspaces du compte
-      //    Late de ogolong.com (tous utilisateurs confondus). Réutiliser le premier / le défaut
-      //    reviendrait à assigner le workspace d'un autre utilisateur → violation d'isolation.
-      console.log('[connectPlatform] lateWorkspaceId absent → création workspace Late pour:', session.user.id)
+      //    Late de ogolong.com (toutes équipes confondues). Réutiliser le premier / le défaut
+      //    reviendrait à assigner le workspace d'une autre équipe → violation d'isolation.
+      console.log('[connectPlatform] lateWorkspaceId absent → création workspace Late pour:', workspace.id)
 
-      const workspace = await late.profiles.create({
-        name: user?.name ?? session.user.email ?? 'ogolong user',
-      })
+      const lateProfile = await late.profiles.create({ name: workspace.name })
       // Late utilise _id (ObjectId MongoDB) et non id
-      lateWorkspaceId = workspace._id
+      lateWorkspaceId = lateProfile._id
       console.log('[connectPlatform] Workspace Late créé:', lateWorkspaceId)
 
       // Persister l'ID EN PRIORITÉ avant tout autre appel réseau.
       // ⚠️ Si cette sauvegarde échoue, le workspace Late existe mais son ID est perdu.
       // → Le log ci-dessous permet la récupération manuelle via Supabase SQL Editor :
-      //   UPDATE "User" SET "lateWorkspaceId" = '<id>' WHERE id = '<userId>'
+      //   UPDATE "workspaces" SET "lateWorkspaceId" = '<id>' WHERE id = '<workspaceId>'
       try {
-        await prisma.user.update({
-          where: { id: session.user.id },
+        await prisma.workspace.update({
+          where: { id: workspace.id },
           data: { lateWorkspaceId },
         })
       } catch (prismaError) {
         // Log critique : le workspace Late existe mais n'est pas enregistré en DB.
         // → Récupérer manuellement via :
-        //   UPDATE "User" SET "lateWorkspaceId" = '<lateWorkspaceId>' WHERE id = '<userId>'
+        //   UPDATE "workspaces" SET "lateWorkspaceId" = '<lateWorkspaceId>' WHERE id = '<workspaceId>'
         console.error(
           `[connectPlatform] ⚠️ CRITIQUE : workspace Late créé (${lateWorkspaceId}) mais` +
-          ` NON SAUVEGARDÉ en DB pour userId=${session.user.id}. Erreur Prisma :`,
+          ` NON SAUVEGARDÉ en DB pour workspaceId=${workspace.id}. Erreur Prisma :`,
           prismaError,
         )
         throw prismaError
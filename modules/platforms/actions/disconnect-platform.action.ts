@@ -6,8 +6,8 @@
  *
  *   Flux :
  *   1. Validation Zod de l'ID reçu
- *   2. Vérification de la session better-auth
- *   3. Récupération du ConnectedPlatform depuis la DB
+ *   2. Vérification de la session better-auth + rôle OWNER dans le workspace actif
+ *   3. Récupération du ConnectedPlatform du workspace depuis la DB
  *   4. late.accounts.list() → trouver le LateAccount correspondant (platform + workspaceId)
  *   5. late.accounts.delete(account._id) → révocation OAuth individuelle (pas le workspace entier)
  *   6. Suppression de la ligne ConnectedPlatform en DB
@@ -23,11 +23,14 @@
 import { revalidatePath } from 'next/cache'
 import { headers } from 'next/headers'
 
+import { recordAuditEvents, userActor } from '@/lib/audit'
 import { auth } from '@/lib/auth'
 import { LateApiError, late } from '@/lib/late'
 import { prisma } from '@/lib/prisma'
+import { getWorkspaceContext } from '@/lib/workspace'
 import { DisconnectPlatformSchema } from '@/modules/platforms/schemas/platform.schema'
 import type { PlatformActionResult } from '@/modules/platforms/types'
+import { workspaceRoleError } from '@/modules/workspaces/utils/roles'
 
 /**
  * Déconnecte une plateforme sociale.
@@ -54,13 +57,20 @@ export async function disconnectPlatform(connectedPlatformId: unknown): Promise<
     return { success: false, error: 'Non authentifié. Reconnecte-toi.' }
   }
 
-  // 3. Récupérer la plateforme et vérifier qu'elle appartient à l'utilisateur
+  // Les comptes sont partagés par le workspace : seul le propriétaire les déconnecte
+  const workspace = await getWorkspaceContext(session.user.id)
+  const roleError = workspaceRoleError(workspace.role, 'OWNER')
+  if (roleError) {
+    return { success: false, error: roleError }
+  }
+
+  // 3. Récupérer la plateforme et vérifier qu'elle appartient au workspace
   const connectedPlatform = await prisma.connectedPlatform.findFirst({
     where: {
       id: validId,
-      userId: session.user.id,
+      workspaceId: workspace.id,
     },
-    select: { id: true, lateProfileId: true, platform: true },
+    select: { id: true, lateProfileId: true, platform: true, accountName: true },
   })
 
   if (!connectedPlatform) {
@@ -97,8 +107,19 @@ export async function disconnectPlatform(connectedPlatformId: unknown): Promise<
     }
   }
 
-  // 5. Supprimer la ligne en DB
-  await prisma.connectedPlatform.delete({ where: { id: validId } })
+  // 5. Supprimer la ligne en DB (+ journal d'audit)
+  await prisma.$transaction(async (tx: typeof prisma) => {
+    await tx.connectedPlatform.delete({ where: { id: validId } })
+    await recordAuditEvents(tx, [{
+      workspaceId: workspace.id,
+      actor: userActor(session.user),
+      entityType: 'CONNECTED_PLATFORM',
+      entityId: validId,
+      entityLabel: `${connectedPlatform.platform} · ${connectedPlatform.accountName}`,
+      action: 'DELETED',
+      before: { platform: connectedPlatform.platform, accountName: connectedPlatform.accountName },
+    }])
+  })
 
   // Invalider le cache de la page settings pour refléter les changements
   revalidatePath('/settings')
@@ -0,0 +1,125 @@
+/**
+ * @file modules/platforms/components/AccountPicker.tsx
+ * @module platforms
+ * @description Sélecteur du compte de publication pour UNE plateforme.
+ *   Un utilisateur peut connecter plusieurs comptes d'une même plateforme
+ *   (ex: deux comptes Instagram de marques différentes) : le post doit alors
+ *   viser un compte précis (Post.connectedPlatformId).
+ *
+ *   Ne rend rien si la plateforme a 0 ou 1 compte connecté (aucun choix à faire).
+ *
+ * @example
+ *   <AccountPicker
+ *     platform="instagram"
+ *     value={connectedPlatformId}
+ *     onChange={setConnectedPlatformId}
+ *   />
+ */
+
+'use client'
+
+import { Check } from 'lucide-react'
+
+import type { LatePlatform } from '@/lib/late'
+import { PLATFORM_CONFIG } from '@/modules/platforms/constants'
+import { usePlatforms } from '@/modules/platforms/hooks/usePlatforms'
+
+import { PlatformIcon } from './PlatformIcon'
+
+// ─── Props ────────────────────────────────────────────────────────────────────
+
+interface AccountPickerProps {
+  /** Plateforme dont on choisit le compte (ex: "instagram") */
+  platform: string
+  /** ID du compte sélectionné (ConnectedPlatform.id), null si aucun */
+  value: string | null
+  /** Callback avec le nouvel ID (null = choix retiré, si `noneLabel` est fourni) */
+  onChange: (connectedPlatformId: string | null) => void
+  /** Libellé d'une option « aucun compte imposé » (absente si non fourni) */
+  noneLabel?: string
+  /** Désactiver toutes les interactions */
+  disabled?: boolean
+}
+
+// ─── Composant ────────────────────────────────────────────────────────────────
+
+/**
+ * Badges cliquables (un par compte connecté de la plateforme).
+ *
+ * @param platform  - Plateforme concernée
+ * @param value     - Compte actuellement sélectionné
+ * @param onChange  - Callback de sélection
+ * @param noneLabel - Option facultative pour ne pas imposer de compte
+ * @param disabled  - Désactivation globale
+ */
+export function AccountPicker({
+  platform,
+  value,
+  onChange,
+  noneLabel,
+  disabled = false,
+}: AccountPickerProps): React.JSX.Element | null {
+  const { platforms } = usePlatforms()
+  const accounts = platforms.filter((p) => p.platform === platform)
+
+  // 0 ou 1 compte : le serveur résout le compte sans ambiguïté
+  if (accounts.length <= 1) return null
+
+  const config = PLATFORM_CONFIG[platform as LatePlatform]
+
+  /** Classes communes des badges, selon l'état sélectionné */
+  const chipClassName = (isSelected: boolean): string => [
+    'flex items-center gap-1.5 rounded-full border px-2.5 py-1 text-xs font-medium transition-all duration-150',
+    'focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring',
+    disabled ? 'cursor-not-allowed opacity-50' : 'cursor-pointer',
+    isSelected
+      ? 'shadow-sm'
+      : 'border-border bg-background text-muted-foreground hover:text-foreground',
+  ].join(' ')
+
+  const selectedStyle = config
+    ? { borderColor: config.color, backgroundColor: config.bgColor, color: config.color }
+    : undefined
+
+  return (
+    <div className="flex flex-wrap items-center gap-1.5" role="radiogroup" aria-label={`Compte ${config?.label ?? platform}`}>
+      <PlatformIcon platform={platform as LatePlatform} className="size-3.5" />
+
+      {noneLabel && (
+        <button
+          type="button"
+          role="radio"
+          aria-checked={value === null}
+          disabled={disabled}
+          onClick={() => onChange(null)}
+          className={chipClassName(value === null)}
+        >
+          {noneLabel}
+        </button>
+      )}
+
+      {accounts.map((account) => {
+        const isSelected = account.id === value
+        return (
+          <button
+            key={account.id}
+            type="button"
+            role="radio"
+            aria-checked={isSelected}
+            disabled={disabled}
+            onClick={() => onChange(account.id)}
+            className={chipClassName(isSelected)}
+            style={isSelected ? selectedStyle : undefined}
+          >
+            {account.avatarUrl && (
+              // eslint-disable-next-line @next/next/no-img-element -- avatar servi par le réseau social (domaine variable)
+              <img src={account.avatarUrl} alt="" className="size-4 rounded-full object-cover" />
+            )}
+            <span>{account.accountName}</span>
+            {isSelected && <Check className="size-3" />}
+          </button>
+        )
+      })}
+    </div>
+  )
+}
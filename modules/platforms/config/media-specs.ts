@@ -0,0 +1,166 @@
+/**
+ * @file modules/platforms/config/media-specs.ts
+ * @module platforms
+ * @description Exigences vidéo des plateformes et variantes à générer.
+ *   Une vidéo qui ne respecte pas le format, la résolution, le codec ou la taille
+ *   attendus par une plateforme est déclinée en variante (MediaVariant) :
+ *   9:16 pour TikTok et les Reels Instagram, résolution et taille plafonnées pour X.
+ *   La durée maximale ne se corrige pas : elle est vérifiée à la publication.
+ *
+ *   - VIDEO_SPECS : exigences par plateforme
+ *   - planVideoVariant : variante nécessaire pour une vidéo sondée (dimensions cibles)
+ *   - videoDurationError : vidéo trop longue pour la plateforme
+ *
+ * @example
+ *   planVideoVariant('tiktok', { mimeType: 'video/mp4', width: 1920, height: 1080, codec: 'h264', size: 8e6, durationMs: 30_000 })
+ *   // → { platform: 'tiktok', reasons: ['aspect_ratio', 'resolution'], width: 1080, height: 1920, maxBytes: null }
+ */
+
+import type { Platform } from '@/modules/platforms/types'
+import { formatDuration } from '@/modules/posts/utils/media.utils'
+
+// ─── Types ────────────────────────────────────────────────────────────────────
+
+/** Exigences vidéo d'une plateforme */
+export interface VideoSpec {
+  /** Format d'image imposé (largeur:hauteur) — absent = format d'origine conservé */
+  aspectRatio?: { width: number; height: number }
+  /** Résolution maximale (ou exacte si aspectRatio est imposé) */
+  maxWidth: number
+  maxHeight: number
+  /** Taille maximale du fichier en octets */
+  maxBytes?: number
+  /** Durée maximale en secondes */
+  maxDurationSec?: number
+  /** Codecs acceptés sans transcodage */
+  codecs: readonly string[]
+  /** Conteneurs acceptés sans transcodage */
+  mimeTypes: readonly string[]
+}
+
+/** Caractéristiques d'une vidéo utiles au choix d'une variante (voir Media) */
+export interface VideoFacts {
+  mimeType: string
+  width: number | null
+  height: number | null
+  codec: string | null
+  /** Taille en octets */
+  size: number
+  durationMs: number | null
+}
+
+/** Motif de génération d'une variante */
+export type VariantReason = 'container' | 'codec' | 'aspect_ratio' | 'resolution' | 'size'
+
+/** Variante à générer (toujours en MP4 H.264 / AAC) */
+export interface VideoVariantPlan {
+  platform: Platform
+  reasons: VariantReason[]
+  /** Dimensions de sortie (paires) */
+  width: number
+  height: number
+  /** Taille visée (débit calculé en conséquence) — null = pas de plafond */
+  maxBytes: number | null
+}
+
+// ─── Exigences ────────────────────────────────────────────────────────────────
+
+/** Exigences vidéo par plateforme (absente = vidéo publiée telle quelle) */
+export const VIDEO_SPECS: Partial<Record<Platform, VideoSpec>> = {
+  tiktok: {
+    aspectRatio: { width: 9, height: 16 },
+    maxWidth: 1080,
+    maxHeight: 1920,
+    maxDurationSec: 600,
+    codecs: ['h264', 'hevc'],
+    mimeTypes: ['video/mp4', 'video/quicktime', 'video/webm'],
+  },
+  instagram: {
+    // Reels
+    aspectRatio: { width: 9, height: 16 },
+    maxWidth: 1080,
+    maxHeight: 1920,
+    maxDurationSec: 900,
+    codecs: ['h264', 'hevc'],
+    mimeTypes: ['video/mp4', 'video/quicktime'],
+  },
+  twitter: {
+    maxWidth: 1920,
+    maxHeight: 1200,
+    maxBytes: 512 * 1024 * 1024,
+    maxDurationSec: 140,
+    codecs: ['h264'],
+    mimeTypes: ['video/mp4', 'video/quicktime'],
+  },
+}
+
+/** Tolérance sur le format d'image (ex: 1080×1918 accepté comme 9:16) */
+const ASPECT_RATIO_TOLERANCE = 0.01
+
+// ─── Helpers ──────────────────────────────────────────────────────────────────
+
+/** Arrondit à l'entier pair inférieur (exigé par H.264 en 4:2:0) */
+function even(value: number): number {
+  return Math.max(2, Math.floor(value / 2) * 2)
+}
+
+/**
+ * Variante vidéo à générer pour une plateforme.
+ *
+ * @param platform - Plateforme cible
+ * @param video    - Caractéristiques de la vidéo d'origine
+ * @returns Variante à générer, ou null si la vidéo convient telle quelle
+ *   (ou si la plateforme n'a pas d'exigences)
+ */
+export function planVideoVariant(platform: Platform, video: VideoFacts): VideoVariantPlan | null {
+  const spec = VIDEO_SPECS[platform]
+  if (!spec) return null
+
+  const { width, height } = video
+  const reasons: VariantReason[] = []
+  if (!spec.mimeTypes.includes(video.mimeType)) reasons.push('container')
+  if (!video.codec || !spec.codecs.includes(video.codec)) reasons.push('codec')
+  if (spec.aspectRatio) {
+    const target = spec.aspectRatio.width / spec.aspectRatio.height
+    if (!width || !height || Math.abs(width / height - target) > ASPECT_RATIO_TOLERANCE) {
+      reasons.push('aspect_ratio')
+    }
+  }
+  if (width && height && (width > spec.maxWidth || height > spec.maxHeight)) reasons.push('resolution')
+  if (spec.maxBytes && video.size > spec.maxBytes) reasons.push('size')
+  if (reasons.length === 0) return null
+
+  // Format imposé : cadre exact (la vidéo y est centrée) ; sinon réduction proportionnelle
+  let outWidth = spec.maxWidth
+  let outHeight = spec.maxHeight
+  if (!spec.aspectRatio) {
+    const scale = width && height ? Math.min(1, spec.maxWidth / width, spec.maxHeight / height) : 1
+    outWidth = width ? width * scale : spec.maxWidth
+    outHeight = height ? height * scale : spec.maxHeight
+  }
+
+  return {
+    platform,
+    reasons,
+    width: even(outWidth),
+    height: even(outHeight),
+    maxBytes: spec.maxBytes ?? null,
+  }
+}
+
+/**
+ * Vidéo trop longue pour une plateforme (non corrigible par une variante).
+ *
+ * @param platform   - Plateforme cible
+ * @param durationMs - Durée de la vidéo (null = inconnue → pas d'erreur)
+ * @returns Message d'erreur, ou null si la durée convient
+ *
+ * @example
+ *   videoDurationError('twitter', 185_000)
+ *   // → 'Vidéo trop longue pour twitter : 3:05 (maximum 2:20)'
+ */
+export function videoDurationError(platform: string, durationMs: number | null): string | null {
+  const maxSec = VIDEO_SPECS[platform as Platform]?.maxDurationSec
+  if (!maxSec || durationMs === null || durationMs <= maxSec * 1000) return null
+  return `Vidéo trop longue pour ${platform} : ${formatDuration(durationMs)} (maximum ${formatDuration(maxSec * 1000)})`
+}
@@ -0,0 +1,255 @@
+/**
+ * @file modules/platforms/config/platform-options.ts
+ * @module platforms
+ * @description Options de publication propres à chaque plateforme (Post.platformOptions) :
+ *   titre, confidentialité et catégorie YouTube, tableau et lien Pinterest,
+ *   subreddit et flair Reddit, confidentialité TikTok, premier commentaire Instagram.
+ *
+ *   - PLATFORM_OPTIONS_SCHEMAS : validation Zod par plateforme
+ *   - PLATFORM_OPTION_FIELDS : description des champs (formulaire du composer, prompt de l'agent)
+ *   - getPlatformOptionsViolations : options invalides, option obligatoire manquante
+ *   - normalizePlatformOptions : lecture de la colonne JSON (champs invalides retirés)
+ *
+ *   Les clés sont celles de `platformSpecificData` de getlate.dev : le publisher
+ *   les transmet telles quelles.
+ *
+ * @example
+ *   getPlatformOptionsViolations('pinterest', { link: 'https://boutique.fr' })
+ *   // → [{ type: 'platform_option_required', message: 'Option « Tableau » requise pour publier', ... }]
+ */
+
+import { z } from 'zod'
+
+import type { PlatformViolation, PlatformViolationOptions } from '@/modules/platforms/config/platform-rules'
+import type { Platform } from '@/modules/platforms/types'
+
+// ─── Types ────────────────────────────────────────────────────────────────────
+
+/** Options de publication d'un post : { clé platformSpecificData → valeur } */
+export type PlatformOptions = Record<string, string>
+
+/** Champ d'options affiché dans le composer et décrit à l'agent */
+export interface PlatformOptionField {
+  /** Clé dans Post.platformOptions (= clé platformSpecificData de Late) */
+  key: string
+  /** Libellé affiché */
+  label: string
+  /** Exigé pour planifier (un brouillon peut rester incomplet) */
+  required?: boolean
+  /** Valeurs possibles (liste déroulante) — absent = saisie libre */
+  choices?: ReadonlyArray<{ value: string; label: string }>
+  /** Exemple affiché dans le champ vide */
+  placeholder?: string
+}
+
+// ─── Schémas par plateforme ───────────────────────────────────────────────────
+
+/** Visibilité d'une vidéo YouTube */
+export const YoutubeVisibilityEnum = z.enum(['public', 'unlisted', 'private'])
+
+/** Confidentialité d'une publication TikTok */
+export const TiktokPrivacyLevelEnum = z.enum([
+  'PUBLIC_TO_EVERYONE',
+  'MUTUAL_FOLLOW_FRIENDS',
+  'FOLLOWER_OF_CREATOR',
+  'SELF_ONLY',
+])
+
+/** Options YouTube : titre, visibilité et catégorie de la vidéo */
+export const YoutubeOptionsSchema = z.object({
+  title: z.string().trim().min(1, 'Valeur vide').max(100, 'Titre YouTube limité à 100 caractères').optional(),
+  visibility: YoutubeVisibilityEnum.optional(),
+  categoryId: z.string().regex(/^\d{1,2}$/, 'Catégorie YouTube invalide').optional(),
+}).strict()
+
+/** Options Pinterest : tableau cible, lien de destination et titre de l'épingle */
+export const PinterestOptionsSchema = z.object({
+  boardId: z.string().trim().min(1, 'Valeur vide').max(100, 'Identifiant de tableau invalide').optional(),
+  link: z.string().trim().url('Lien de destination invalide').max(2048).optional(),
+  title: z.string().trim().min(1, 'Valeur vide').max(100, 'Titre Pinterest limité à 100 caractères').optional(),
+}).strict()
+
+/** Options Reddit : subreddit, titre et flair du post */
+export const RedditOptionsSchema = z.object({
+  subreddit: z.string().trim().regex(/^[A-Za-z0-9_]{3,21}$/, 'Nom de subreddit invalide (sans « r/ »)').optional(),
+  title: z.string().trim().min(1, 'Valeur vide').max(300, 'Titre Reddit limité à 300 caractères').optional(),
+  flairId: z.string().trim().min(1, 'Valeur vide').max(100, 'Identifiant de flair invalide').optional(),
+}).strict()
+
+/** Options TikTok : confidentialité de la publication */
+export const TiktokOptionsSchema = z.object({
+  privacyLevel: TiktokPrivacyLevelEnum.optional(),
+}).strict()
+
+/** Options Instagram : premier commentaire publié sous le post */
+export const InstagramOptionsSchema = z.object({
+  firstComment: z.string().trim().min(1, 'Valeur vide').max(2200, 'Premier commentaire limité à 2 200 caractères').optional(),
+}).strict()
+
+export type YoutubeOptions = z.infer<typeof YoutubeOptionsSchema>
+export type PinterestOptions = z.infer<typeof PinterestOptionsSchema>
+export type RedditOptions = z.infer<typeof RedditOptionsSchema>
+export type TiktokOptions = z.infer<typeof TiktokOptionsSchema>
+export type InstagramOptions = z.infer<typeof InstagramOptionsSchema>
+
+/** Schéma des options de chaque plateforme (absente = aucune option) */
+export const PLATFORM_OPTIONS_SCHEMAS: Partial<Record<Platform, z.ZodObject>> = {
+  youtube: YoutubeOptionsSchema,
+  pinterest: PinterestOptionsSchema,
+  reddit: RedditOptionsSchema,
+  tiktok: TiktokOptionsSchema,
+  instagram: InstagramOptionsSchema,
+}
+
+// ─── Champs par plateforme ────────────────────────────────────────────────────
+
+/**
+ * Champs des options de chaque plateforme, dans l'ordre d'affichage.
+ * Les clés correspondent aux schémas ci-dessus.
+ */
+export const PLATFORM_OPTION_FIELDS: Partial<Record<Platform, PlatformOptionField[]>> = {
+  youtube: [
+    { key: 'title', label: 'Titre de la vidéo', placeholder: 'Ex : Visite de la boutique' },
+    {
+      key: 'visibility',
+      label: 'Visibilité',
+      choices: [
+        { value: 'public', label: 'Publique' },
+        { value: 'unlisted', label: 'Non répertoriée' },
+        { value: 'private', label: 'Privée' },
+      ],
+    },
+    {
+      key: 'categoryId',
+      label: 'Catégorie',
+      choices: [
+        { value: '22', label: 'Vlog et personnes' },
+        { value: '1', label: 'Films et animations' },
+        { value: '10', label: 'Musique' },
+        { value: '17', label: 'Sport' },
+        { value: '19', label: 'Voyages et événements' },
+        { value: '20', label: 'Jeux vidéo' },
+        { value: '23', label: 'Humour' },
+        { value: '24', label: 'Divertissement' },
+        { value: '25', label: 'Actualités et politique' },
+        { value: '26', label: 'Vie pratique et style' },
+        { value: '27', label: 'Éducation' },
+        { value: '28', label: 'Science et technologie' },
+      ],
+    },
+  ],
+  pinterest: [
+    { key: 'boardId', label: 'Tableau', required: true, placeholder: 'Identifiant du tableau' },
+    { key: 'link', label: 'Lien de destination', placeholder: 'https://…' },
+    { key: 'title', label: 'Titre de l\'épingle' },
+  ],
+  reddit: [
+    { key: 'subreddit', label: 'Subreddit', required: true, placeholder: 'Ex : france (sans « r/ »)' },
+    { key: 'title', label: 'Titre du post' },
+    { key: 'flairId', label: 'Flair', placeholder: 'Identifiant du flair' },
+  ],
+  tiktok: [
+    {
+      key: 'privacyLevel',
+      label: 'Confidentialité',
+      choices: [
+        { value: 'PUBLIC_TO_EVERYONE', label: 'Tout le monde' },
+        { value: 'MUTUAL_FOLLOW_FRIENDS', label: 'Amis' },
+        { value: 'FOLLOWER_OF_CREATOR', label: 'Abonnés' },
+        { value: 'SELF_ONLY', label: 'Moi uniquement' },
+      ],
+    },
+  ],
+  instagram: [
+    { key: 'firstComment', label: 'Premier commentaire', placeholder: 'Ex : hashtags, lien en bio…' },
+  ],
+}
+
+// ─── Helpers ──────────────────────────────────────────────────────────────────
+
+/**
+ * Libellé d'un champ d'options (clé brute si inconnue).
+ *
+ * @param platform - Plateforme du post
+ * @param key      - Clé de l'option
+ */
+function optionLabel(platform: Platform, key: PropertyKey | undefined): string {
+  return PLATFORM_OPTION_FIELDS[platform]?.find((field) => field.key === key)?.label ?? String(key)
+}
+
+/**
+ * Violations des options de publication d'un post.
+ * Les options obligatoires (tableau Pinterest, subreddit) ne sont exigées que hors brouillon.
+ *
+ * @param platform - Plateforme du post
+ * @param options  - Valeur brute de Post.platformOptions (absent = aucune option)
+ * @param options.draft - true pour un brouillon
+ * @returns Violations (vide si les options sont conformes)
+ *
+ * @example
+ *   getPlatformOptionsViolations('reddit', { subreddit: 'r/france' })
+ *   // → [{ type: 'invalid_platform_options', message: 'Option « Subreddit » invalide : Nom de subreddit invalide (sans « r/ »)', ... }]
+ */
+export function getPlatformOptionsViolations(
+  platform: Platform,
+  options: unknown,
+  { draft = false }: PlatformViolationOptions = {},
+): PlatformViolation[] {
+  const schema = PLATFORM_OPTIONS_SCHEMAS[platform]
+  const value = options ?? {}
+
+  if (!schema) {
+    const isEmpty = typeof value === 'object' && Object.keys(value).length === 0
+    return isEmpty ? [] : [{
+      type: 'invalid_platform_options',
+      platform,
+      message: 'Cette plateforme n\'accepte pas d\'options de publication',
+    }]
+  }
+
+  const parsed = schema.safeParse(value)
+  if (!parsed.success) {
+    const issue = parsed.error.issues[0]
+    // Clé inconnue : signalée par son nom (issue sans chemin)
+    const key = issue?.code === 'unrecognized_keys' ? issue.keys[0] : issue?.path[0]
+    return [{
+      type: 'invalid_platform_options',
+      platform,
+      message: `Option « ${optionLabel(platform, key)} » invalide : ${issue?.message ?? 'valeur refusée'}`,
+    }]
+  }
+
+  if (draft) return []
+  const data = parsed.data as PlatformOptions
+  return (PLATFORM_OPTION_FIELDS[platform] ?? [])
+    .filter((field) => field.required && !data[field.key])
+    .map((field) => ({
+      type: 'platform_option_required' as const,
+      platform,
+      message: `Option « ${field.label} » requise pour publier`,
+    }))
+}
+
+/**
+ * Options valides d'un post : les champs inconnus ou invalides sont retirés un à un.
+ * Accepte la valeur brute de la colonne JSON ou la sortie de l'agent.
+ *
+ * @param platform - Plateforme du post
+ * @param value    - Valeur de `Post.platformOptions`
+ * @returns Options nettoyées ({} pour une plateforme sans options)
+ *
+ * @example
+ *   normalizePlatformOptions('youtube', { title: ' Visite ', visibility: 'secret', foo: 1 })
+ *   // → { title: 'Visite' }
+ */
+export function normalizePlatformOptions(platform: string, value: unknown): PlatformOptions {
+  const schema = PLATFORM_OPTIONS_SCHEMAS[platform as Platform]
+  if (!schema || !value || typeof value !== 'object' || Array.isArray(value)) return {}
+
+  const options: PlatformOptions = {}
+  for (const [key, fieldSchema] of Object.entries(schema.shape)) {
+    const parsed = fieldSchema.safeParse((value as Record<string, unknown>)[key])
+    if (parsed.success && typeof parsed.data === 'string') options[key] = parsed.data
+  }
+  return options
+}
@@ -8,6 +8,10 @@
  *   - Afficher des avertissements visuels si le contenu dépasse les limites
  *   - Filtrer les types MIME acceptés selon la plateforme
  *
+ *   Côté serveur, les mêmes règles sont imposées à chaque écriture de post
+ *   (modules/posts/utils/post-validation.ts) ; la sortie de l'agent IA est
+ *   d'abord mise en conformité (repairPlatformContent).
+ *
  * @example
  *   import { PLATFORM_RULES, getPlatformViolations } from '@/modules/platforms/config/platform-rules'
  *   const rules = PLATFORM_RULES['instagram']  // { maxPhotos: 10, maxText: 2200, ... }
@@ -35,6 +39,11 @@ export interface PlatformRules {
   requiresMedia: boolean
   /** Types MIME acceptés (ex: ['image/*', 'video/mp4']) */
   allowedMimeTypes: string[]
+  /**
+   * Publication en thread (plusieurs parties enchaînées) possible ?
+   * Chaque partie respecte les limites ci-dessus (modules/posts/utils/thread.ts).
+   */
+  supportsThreads: boolean
 }
 
 /**
@@ -43,9 +52,42 @@ export interface PlatformRules {
  */
 export interface PlatformViolation {
   /** Type de violation pour le tri/affichage */
-  type: 'text_too_long' | 'too_many_photos' | 'too_many_videos' | 'media_required' | 'mixed_not_allowed'
+  type:
+    | 'text_too_long'
+    | 'too_many_photos'
+    | 'too_many_videos'
+    | 'media_required'
+    | 'mixed_not_allowed'
+    | 'unknown_platform'
+    | 'thread_not_supported'
+    | 'too_many_thread_parts'
+    | 'invalid_platform_options'
+    | 'platform_option_required'
+  /** Plateforme concernée */
+  platform: string
   /** Message lisible en français */
   message: string
+  /** Limite de la plateforme (caractères ou nombre de médias) */
+  limit?: number
+  /** Valeur constatée (caractères ou nombre de médias) */
+  actual?: number
+}
+
+/** Options de détection des violations */
+export interface PlatformViolationOptions {
+  /**
+   * Brouillon : le média obligatoire (ex: vidéo YouTube) peut être ajouté plus tard,
+   * seules les limites de contenu sont vérifiées.
+   */
+  draft?: boolean
+}
+
+/** Contenu mis en conformité par repairPlatformContent */
+export interface RepairedPlatformContent {
+  text: string
+  mediaUrls: string[]
+  /** Violations corrigées (vide si le contenu était déjà conforme) */
+  repaired: PlatformViolation[]
 }
 
 // ─── Règles par plateforme ────────────────────────────────────────────────────
@@ -59,10 +101,10 @@ export interface PlatformViolation {
  * - tiktok     : 35 photos OU 1 vidéo, 2200 caractères
  * - youtube    : vidéo obligatoire, 5000 caractères de description
  * - facebook   : jusqu'à 100 photos, 63 206 caractères
- * - twitter    : 4 photos OU 1 vidéo, 280 caractères
+ * - twitter    : 4 photos OU 1 vidéo, 280 caractères, threads
  * - linkedin   : 9 photos OU 1 vidéo, 3000 caractères
- * - bluesky    : 4 photos OU 1 vidéo, 300 caractères
- * - threads    : 10 photos OU 1 vidéo, 500 caractères
+ * - bluesky    : 4 photos OU 1 vidéo, 300 caractères, threads
+ * - threads    : 10 photos OU 1 vidéo, 500 caractères, threads
  * - reddit     : 20 photos OU 1 vidéo, 40 000 caractères
  * - pinterest  : 1 photo OU 1 vidéo, 500 caractères
  * - telegram   : 10 médias (mixte autorisé), 4096 caractères
@@ -77,6 +119,7 @@ export const PLATFORM_RULES: Record<Platform, PlatformRules> = {
     maxText: 2200,
     requiresMedia: false,
     allowedMimeTypes: ['image/*', 'video/*'],
+    supportsThreads: false,
   },
   tiktok: {
     maxPhotos: 35,
@@ -85,6 +128,7 @@ export const PLATFORM_RULES: Record<Platform, PlatformRules> = {
     maxText: 2200,
     requiresMedia: false,
     allowedMimeTypes: ['image/*', 'video/*'],
+    supportsThreads: false,
   },
   youtube: {
     maxPhotos: 0,
@@ -93,6 +137,7 @@ export const PLATFORM_RULES: Record<Platform, PlatformRules> = {
     maxText: 5000,
     requiresMedia: true,
     allowedMimeTypes: ['video/*'],
+    supportsThreads: false,
   },
   facebook: {
     maxPhotos: 100,
@@ -101,6 +146,7 @@ export const PLATFORM_RULES: Record<Platform, PlatformRules> = {
     maxText: 63206,
     requiresMedia: false,
     allowedMimeTypes: ['image/*', 'video/*'],
+    supportsThreads: false,
   },
   twitter: {
     maxPhotos: 4,
@@ -109,6 +155,7 @@ export const PLATFORM_RULES: Record<Platform, PlatformRules> = {
     maxText: 280,
     requiresMedia: false,
     allowedMimeTypes: ['image/*', 'video/*'],
+    supportsThreads: true,
   },
   linkedin: {
     maxPhotos: 9,
@@ -117,6 +164,7 @@ export const PLATFORM_RULES: Record<Platform, PlatformRules> = {
     maxText: 3000,
     requiresMedia: false,
     allowedMimeTypes: ['image/*', 'video/*'],
+    supportsThreads: false,
   },
   bluesky: {
     maxPhotos: 4,
@@ -125,6 +173,7 @@ export const PLATFORM_RULES: Record<Platform, PlatformRules> = {
     maxText: 300,
     requiresMedia: false,
     allowedMimeTypes: ['image/*', 'video/*'],
+    supportsThreads: true,
   },
   threads: {
     maxPhotos: 10,
@@ -133,6 +182,7 @@ export const PLATFORM_RULES: Record<Platform, PlatformRules> = {
     maxText: 500,
     requiresMedia: false,
     allowedMimeTypes: ['image/*', 'video/*'],
+    supportsThreads: true,
   },
   reddit: {
     maxPhotos: 20,
@@ -141,6 +191,7 @@ export const PLATFORM_RULES: Record<Platform, PlatformRules> = {
     maxText: 40000,
     requiresMedia: false,
     allowedMimeTypes: ['image/*', 'video/*'],
+    supportsThreads: false,
   },
   pinterest: {
     maxPhotos: 1,
@@ -149,6 +200,7 @@ export const PLATFORM_RULES: Record<Platform, PlatformRules> = {
     maxText: 500,
     requiresMedia: false,
     allowedMimeTypes: ['image/*', 'video/*'],
+    supportsThreads: false,
   },
   telegram: {
     maxPhotos: 10,
@@ -158,6 +210,7 @@ export const PLATFORM_RULES: Record<Platform, PlatformRules> = {
     maxText: 4096,
     requiresMedia: false,
     allowedMimeTypes: ['image/*', 'video/*'],
+    supportsThreads: false,
   },
   snapchat: {
     maxPhotos: 1,
@@ -166,6 +219,7 @@ export const PLATFORM_RULES: Record<Platform, PlatformRules> = {
     maxText: 250,
     requiresMedia: false,
     allowedMimeTypes: ['image/*', 'video/*'],
+    supportsThreads: false,
   },
   google_business: {
     maxPhotos: 1,
@@ -175,11 +229,39 @@ export const PLATFORM_RULES: Record<Platform, PlatformRules> = {
     requiresMedia: false,
     // Google Business : uniquement les images (pas de vidéo)
     allowedMimeTypes: ['image/*'],
+    supportsThreads: false,
   },
 }
 
 // ─── Helpers ──────────────────────────────────────────────────────────────────
 
+/** Extensions vidéo (détection par URL, paramètres de query string ignorés) */
+const VIDEO_URL_PATTERN = /\.(mp4|mov|avi|webm|mkv|m4v)$/i
+
+/**
+ * Détecte une vidéo d'après l'extension de son URL.
+ *
+ * @param url - URL du média
+ * @returns true si l'URL désigne une vidéo
+ */
+function isVideoMediaUrl(url: string): boolean {
+  return VIDEO_URL_PATTERN.test(url.split('?')[0])
+}
+
+/**
+ * Indique si une plateforme (chaîne libre, ex: sortie de l'agent) est supportée.
+ *
+ * @param platform - Identifiant à vérifier
+ * @returns true si la plateforme a des règles (type guard)
+ *
+ * @example
+ *   isSupportedPlatform('linkedin') // true
+ *   isSupportedPlatform('myspace')  // false
+ */
+export function isSupportedPlatform(platform: string): platform is Platform {
+  return Object.prototype.hasOwnProperty.call(PLATFORM_RULES, platform)
+}
+
 /**
  * Calcule le nombre maximum de médias autorisé pour un ensemble de plateformes.
  * Retourne le minimum de `maxPhotos` sur toutes les plateformes sélectionnées.
@@ -211,21 +293,23 @@ export function getMaxMediaForPlatforms(platforms: Platform[]): number {
  * @param platform - Plateforme à valider
  * @param text - Texte du post (base ou override)
  * @param mediaUrls - URLs des médias (base ou override)
+ * @param options - { draft: true } pour ne pas exiger le média obligatoire
  * @returns Liste de violations (vide si tout est OK)
  *
  * @example
  *   // Texte trop long pour Twitter :
  *   getPlatformViolations('twitter', 'Un texte très long de 400 caractères...', [])
- *   // → [{ type: 'text_too_long', message: 'Texte trop long (400/280 caractères)' }]
+ *   // → [{ type: 'text_too_long', platform: 'twitter', message: 'Texte trop long (400/280 caractères)', limit: 280, actual: 400 }]
  *
  *   // Vidéo requise pour YouTube sans média :
  *   getPlatformViolations('youtube', 'Description vidéo', [])
- *   // → [{ type: 'media_required', message: 'Une vidéo est requise pour YouTube' }]
+ *   // → [{ type: 'media_required', platform: 'youtube', message: 'Un média est requis pour youtube' }]
  */
 export function getPlatformViolations(
   platform: Platform,
   text: string,
   mediaUrls: string[],
+  options: PlatformViolationOptions = {},
 ): PlatformViolation[] {
   const rules = PLATFORM_RULES[platform]
   const violations: PlatformViolation[] = []
@@ -234,29 +318,34 @@ export function getPlatformViolations(
   if (text.length > rules.maxText) {
     violations.push({
       type: 'text_too_long',
+      platform,
       message: `Texte trop long (${text.length}/${rules.maxText} caractères)`,
+      limit: rules.maxText,
+      actual: text.length,
     })
   }
 
-  // Vérification : média requis (ex: YouTube)
-  if (rules.requiresMedia && mediaUrls.length === 0) {
+  // Vérification : média requis (ex: YouTube) — pas pour un brouillon
+  if (rules.requiresMedia && mediaUrls.length === 0 && !options.draft) {
     violations.push({
       type: 'media_required',
+      platform,
       message: `Un média est requis pour ${platform}`,
     })
   }
 
   // Heuristique simple : on détecte les vidéos par extension d'URL
-  const videoUrls = mediaUrls.filter((url) =>
-    /\.(mp4|mov|avi|webm|mkv|m4v)$/i.test(url),
-  )
+  const videoUrls = mediaUrls.filter(isVideoMediaUrl)
   const photoUrls = mediaUrls.filter((url) => !videoUrls.includes(url))
 
   // Vérification : trop de photos
   if (photoUrls.length > rules.maxPhotos) {
     violations.push({
       type: 'too_many_photos',
+      platform,
       message: `Trop de photos (${photoUrls.length}/${rules.maxPhotos} max pour ${platform})`,
+      limit: rules.maxPhotos,
+      actual: photoUrls.length,
     })
   }
 
@@ -264,7 +353,10 @@ export function getPlatformViolations(
   if (videoUrls.length > rules.maxVideos) {
     violations.push({
       type: 'too_many_videos',
+      platform,
       message: `Trop de vidéos (${videoUrls.length}/${rules.maxVideos} max pour ${platform})`,
+      limit: rules.maxVideos,
+      actual: videoUrls.length,
     })
   }
 
@@ -272,9 +364,58 @@ export function getPlatformViolations(
   if (!rules.allowsMixed && photoUrls.length > 0 && videoUrls.length > 0) {
     violations.push({
       type: 'mixed_not_allowed',
+      platform,
       message: `${platform} n'accepte pas les photos et vidéos dans le même post`,
     })
   }
 
   return violations
 }
+
+/**
+ * Met un contenu en conformité avec les règles de la plateforme, sans appel au modèle :
+ * - texte tronqué à maxText (au dernier espace, terminé par « … »)
+ * - mixte interdit : seul le type du premier média est conservé
+ * - médias excédentaires retirés (ordre d'origine conservé)
+ *
+ * Le média obligatoire manquant ne peut pas être corrigé ici (voir getPlatformViolations).
+ *
+ * @param platform - Plateforme cible
+ * @param text - Texte à mettre en conformité
+ * @param mediaUrls - Médias à mettre en conformité
+ * @returns Contenu conforme + violations corrigées
+ *
+ * @example
+ *   repairPlatformContent('pinterest', 'Texte', ['a.jpg', 'b.jpg'])
+ *   // → { text: 'Texte', mediaUrls: ['a.jpg'], repaired: [{ type: 'too_many_photos', ... }] }
+ */
+export function repairPlatformContent(
+  platform: Platform,
+  text: string,
+  mediaUrls: string[],
+): RepairedPlatformContent {
+  const rules = PLATFORM_RULES[platform]
+  const repaired = getPlatformViolations(platform, text, mediaUrls, { draft: true })
+  if (repaired.length === 0) return { text, mediaUrls, repaired }
+
+  let repairedText = text
+  if (text.length > rules.maxText) {
+    // Couper au dernier espace pour ne pas tronquer un mot (sauf mot unique trop long)
+    const cut = text.slice(0, rules.maxText - 1)
+    const lastSpace = cut.lastIndexOf(' ')
+    repairedText = `${(lastSpace > rules.maxText / 2 ? cut.slice(0, lastSpace) : cut).trimEnd()}…`
+  }
+
+  // Mixte interdit : le premier média décide du format (carrousel photo ou vidéo)
+  const keepVideos = !rules.allowsMixed && mediaUrls.length > 0 ? isVideoMediaUrl(mediaUrls[0]) : null
+  let photos = 0
+  let videos = 0
+  const repairedMedia = mediaUrls.filter((url) => {
+    const isVideo = isVideoMediaUrl(url)
+    if (keepVideos !== null && isVideo !== keepVideos) return false
+    if (isVideo) return ++videos <= rules.maxVideos
+    return ++photos <= rules.maxPhotos
+  })
+
+  return { text: repairedText, mediaUrls: repairedMedia, repaired }
+}
@@ -55,7 +55,10 @@ export type ConnectPlatformData = z.infer<typeof ConnectPlatformSchema>
  */
 export const ConnectedPlatformSchema = z.object({
   id: z.string(),
+  /** Membre qui a connecté le compte */
   userId: z.string(),
+  /** Workspace propriétaire (compte partagé entre les membres) */
+  workspaceId: z.string(),
   platform: PlatformEnum,
   /** ID du profil getlate.dev correspondant */
   lateProfileId: z.string(),
@@ -69,9 +72,9 @@ export type ConnectedPlatformData = z.infer<typeof ConnectedPlatformSchema>
 
 /**
  * Schéma de la réponse API `/api/platforms` (GET list).
- * Version allégée sans userId (pas nécessaire côté client).
+ * Version allégée sans userId ni workspaceId (pas nécessaires côté client).
  */
-export const PlatformListItemSchema = ConnectedPlatformSchema.omit({ userId: true })
+export const PlatformListItemSchema = ConnectedPlatformSchema.omit({ userId: true, workspaceId: true })
 
 export type PlatformListItem = z.infer<typeof PlatformListItemSchema>
 
@@ -0,0 +1,66 @@
+/**
+ * @file modules/posts/actions/best-time.action.ts
+ * @module posts
+ * @description Server Action « Meilleur moment » du compositeur.
+ *   Propose la prochaine occurrence du créneau le mieux noté par les statistiques
+ *   best-time (Late) des plateformes du post, en évitant les créneaux déjà pris
+ *   par d'autres posts planifiés (lib/best-time.ts).
+ *
+ *   La date proposée n'est pas enregistrée : le compositeur la place dans le
+ *   DateTimePicker et l'utilisateur planifie ensuite normalement.
+ *
+ * @example
+ *   const result = await suggestBestTime(['instagram', 'tiktok'])
+ *   if (result.success) {
+ *     setScheduledFor(result.scheduledFor!)
+ *     // result.explanation : "mardi 18:00 — meilleur créneau de vos statistiques (…)"
+ *   }
+ */
+
+'use server'
+
+import { headers } from 'next/headers'
+
+import { auth } from '@/lib/auth'
+import { findBestTime } from '@/lib/best-time'
+import { getWorkspaceContext } from '@/lib/workspace'
+import type { BestTimeActionResult } from '@/modules/posts/types'
+
+// ─── suggestBestTime ──────────────────────────────────────────────────────────
+
+/**
+ * Meilleur créneau libre des 7 prochains jours pour les plateformes du post.
+ *
+ * @param platforms - Plateformes sélectionnées dans le compositeur
+ * @param postId    - Post en cours d'édition (sa date actuelle ne compte pas comme prise)
+ * @returns BestTimeActionResult avec la date et l'explication du choix
+ */
+export async function suggestBestTime(
+  platforms: string[],
+  postId?: string,
+): Promise<BestTimeActionResult> {
+  const session = await auth.api.getSession({ headers: await headers() })
+  if (!session) {
+    return { success: false, error: 'Non authentifié' }
+  }
+
+  if (platforms.length === 0) {
+    return { success: false, error: 'Sélectionnez au moins une plateforme' }
+  }
+
+  try {
+    const workspace = await getWorkspaceContext(session.user.id)
+    const suggestion = await findBestTime(workspace, session.user.id, platforms, { excludePostId: postId })
+    if (!suggestion) {
+      return {
+        success: false,
+        error: 'Aucun créneau à proposer : statistiques insuffisantes ou meilleurs créneaux déjà pris',
+      }
+    }
+
+    return { success: true, ...suggestion }
+  } catch (error) {
+    console.error('[suggestBestTime] Erreur :', error)
+    return { success: false, error: 'Impossible de calculer le meilleur moment' }
+  }
+}
@@ -0,0 +1,597 @@
+/**
+ * @file modules/posts/actions/post-group.action.ts
+ * @module posts
+ * @description Server Actions des campagnes (PostGroup) : actions appliquées à
+ *   tous les posts nés d'une même instruction (1 post par plateforme).
+ *
+ *   Chaque post garde son texte propre à sa plateforme ; seules la planification,
+ *   l'annulation, la duplication et la suppression sont groupées.
+ *   Les posts PUBLISHED ne sont jamais modifiés par ces actions.
+ *
+ *   Actions exportées :
+ *   - createPostGroup     : crée une campagne vide (sauvegarde multi-plateformes)
+ *   - reschedulePostGroup : replanifie tous les posts non publiés à une même date
+ *   - cancelPostGroup     : repasse les posts SCHEDULED en DRAFT + 'post/cancel'
+ *   - duplicatePostGroup  : copie la campagne en brouillons (sans date)
+ *   - deletePostGroup     : supprime les posts non publiés (et la campagne si vide)
+ *
+ *   Les campagnes appartiennent au workspace actif (rôle EDITOR requis).
+ *
+ *   Les changements de statut sont tracés dans l'historique des posts
+ *   (post_status_events) ; chaque post et campagne modifié l'est aussi dans le
+ *   journal d'audit (lib/audit.ts). Les posts en revue (PENDING_REVIEW), non approuvés
+ *   quand la validation est exigée, ou dont le contenu enfreint les règles de leur
+ *   plateforme, bloquent la replanification de la campagne.
+ *
+ *   Les posts qui quittent un créneau de la file d'attente (replanifiés, annulés,
+ *   supprimés) libèrent ce créneau : la file de leur plateforme est re-tassée.
+ *
+ * @example
+ *   const result = await cancelPostGroup('grp_abc123')
+ *   if (result.success) {
+ *     // result.posts contient les posts repassés en brouillon
+ *   }
+ */
+
+'use server'
+
+import { revalidatePath } from 'next/cache'
+import { headers } from 'next/headers'
+
+import { auditEventCreate, postAuditSnapshot, recordAuditEvents, userActor } from '@/lib/audit'
+import { auth } from '@/lib/auth'
+import { inngest } from '@/lib/inngest/client'
+import { repackQueue } from '@/lib/post-queue'
+import { isApprovalRequired, recordPostEvents } from '@/lib/post-review'
+import { prisma } from '@/lib/prisma'
+import { getWorkspaceContext } from '@/lib/workspace'
+import { auditExcerpt } from '@/modules/audit/utils/audit-diff'
+import { normalizePlatformOptions } from '@/modules/platforms/config/platform-options'
+import type { Post, PostGroupActionResult } from '@/modules/posts/types'
+import { normalizeMediaAltTexts } from '@/modules/posts/utils/accessibility'
+import { resolveTargetAccount } from '@/modules/posts/utils/account-target'
+import { approvalError } from '@/modules/posts/utils/post-review'
+import { platformViolationsError, validatePostContent } from '@/modules/posts/utils/post-validation'
+import { normalizeThreadParts } from '@/modules/posts/utils/thread'
+import { workspaceRoleError } from '@/modules/workspaces/utils/roles'
+
+// ─── Helpers ─────────────────────────────────────────────────────────────────
+
+/** Enregistrement Prisma brut d'un post (forme retournée par findMany/update) */
+interface PrismaPostRecord {
+  id: string
+  userId: string
+  text: string
+  platform: string
+  connectedPlatformId: string | null
+  groupId: string | null
+  seriesId: string | null
+  agentSessionId: string | null
+  mediaUrls: string[]
+  mediaAltTexts: unknown
+  threadParts: unknown
+  platformOptions: unknown
+  scheduledFor: Date | null
+  publishedAt: Date | null
+  status: string
+  approvedAt: Date | null
+  latePostId: string | null
+  platformPostUrl: string | null
+  failureReason: string | null
+  isQueued: boolean
+  createdAt: Date
+  updatedAt: Date
+}
+
+/**
+ * Mappe un enregistrement Prisma vers l'interface Post du module.
+ *
+ * @param record - Enregistrement Prisma brut
+ * @returns Post typé pour le module
+ */
+function mapPrismaPost(record: PrismaPostRecord): Post {
+  return {
+    id: record.id,
+    userId: record.userId,
+    text: record.text,
+    platform: record.platform,
+    connectedPlatformId: record.connectedPlatformId,
+    groupId: record.groupId,
+    seriesId: record.seriesId,
+    agentSessionId: record.agentSessionId,
+    mediaUrls: record.mediaUrls,
+    mediaAltTexts: normalizeMediaAltTexts(record.mediaAltTexts),
+    threadParts: normalizeThreadParts(record.threadParts),
+    platformOptions: normalizePlatformOptions(record.platform, record.platformOptions),
+    scheduledFor: record.scheduledFor,
+    publishedAt: record.publishedAt,
+    status: record.status as Post['status'],
+    approvedAt: record.approvedAt,
+    latePostId: record.latePostId,
+    platformPostUrl: record.platformPostUrl,
+    failureReason: record.failureReason,
+    createdAt: record.createdAt,
+    updatedAt: record.updatedAt,
+  }
+}
+
+/**
+ * Charge une campagne du workspace avec ses posts (ownership check inclus).
+ *
+ * @param groupId     - ID de la campagne
+ * @param workspaceId - Workspace actif
+ * @returns La campagne et ses posts, ou null si introuvable / hors du workspace
+ */
+async function findOwnedGroup(
+  groupId: string,
+  workspaceId: string,
+): Promise<{ id: string; instruction: string | null; posts: PrismaPostRecord[] } | null> {
+  return prisma.postGroup.findFirst({
+    where: { id: groupId, workspaceId },
+    include: { posts: { orderBy: { createdAt: 'asc' } } },
+  })
+}
+
+/** Invalide le cache des pages qui affichent des posts */
+function revalidatePostPages(): void {
+  revalidatePath('/compose')
+  revalidatePath('/calendar')
+  revalidatePath('/')
+}
+
+/**
+ * Envoie 'post/cancel' pour chaque post (runs Inngest en sommeil à annuler).
+ * Non-bloquant : la DB est déjà à jour, un échec Inngest est seulement loggé.
+ *
+ * @param postIds - IDs des posts dont la publication programmée est annulée
+ * @param tag     - Préfixe de log de l'action appelante
+ */
+async function sendCancelEvents(postIds: string[], tag: string): Promise<void> {
+  if (postIds.length === 0) return
+  try {
+    await inngest.send(postIds.map((postId) => ({ name: 'post/cancel', data: { postId } })))
+  } catch (inngestError) {
+    console.warn(`[${tag}] Inngest send échoué (non-bloquant) :`, inngestError)
+  }
+}
+
+/**
+ * Re-tasse la file des plateformes où des posts de la campagne occupaient un créneau.
+ *
+ * @param posts       - Posts de la campagne avant modification
+ * @param workspaceId - Workspace actif
+ */
+async function repackFreedQueues(posts: PrismaPostRecord[], workspaceId: string): Promise<void> {
+  const platforms = new Set(
+    posts.filter((post) => post.status === 'SCHEDULED' && post.isQueued).map((post) => post.platform),
+  )
+  for (const platform of platforms) {
+    await repackQueue(workspaceId, platform)
+  }
+}
+
+// ─── createPostGroup ──────────────────────────────────────────────────────────
+
+/**
+ * Crée une campagne vide. Les posts y sont ensuite rattachés via savePost({ groupId }).
+ *
+ * @param instruction - Instruction d'origine (facultative, affichée sur la carte)
+ * @returns { success, groupId } ou { success: false, error }
+ *
+ * @example
+ *   const group = await createPostGroup('Annonce du lancement')
+ *   await savePost({ text, platform: 'instagram', groupId: group.groupId })
+ */
+export async function createPostGroup(
+  instruction?: string,
+): Promise<{ success: boolean; groupId?: string; error?: string }> {
+  const session = await auth.api.getSession({ headers: await headers() })
+  if (!session) {
+    return { success: false, error: 'Non authentifié' }
+  }
+
+  const workspace = await getWorkspaceContext(session.user.id)
+  const roleError = workspaceRoleError(workspace.role, 'EDITOR')
+  if (roleError) {
+    return { success: false, error: roleError }
+  }
+
+  try {
+    const group = await prisma.$transaction(async (tx: typeof prisma) => {
+      const created: { id: string; instruction: string | null } = await tx.postGroup.create({
+        data: {
+          userId: session.user.id,
+          workspaceId: workspace.id,
+          instruction: instruction?.trim() || null,
+        },
+        select: { id: true, instruction: true },
+      })
+      await recordAuditEvents(tx, [{
+        workspaceId: workspace.id,
+        actor: userActor(session.user),
+        entityType: 'POST_GROUP',
+        entityId: created.id,
+        entityLabel: created.instruction && auditExcerpt(created.instruction),
+        action: 'CREATED',
+        after: { instruction: created.instruction },
+      }])
+      return created
+    })
+    return { success: true, groupId: group.id }
+  } catch (error) {
+    console.error('[createPostGroup] Erreur :', error)
+    return { success: false, error: 'Erreur lors de la création de la campagne' }
+  }
+}
+
+// ─── reschedulePostGroup ──────────────────────────────────────────────────────
+
+/**
+ * Replanifie tous les posts non publiés d'une campagne à la même date.
+ *
+ * Tout ou rien : si le compte de publication d'un post ne peut pas être résolu
+ * (ex: plusieurs comptes sans choix) ou si un post attend sa validation,
+ * aucun post n'est modifié.
+ * Les posts déjà SCHEDULED voient leur run Inngest annulé puis reprogrammé.
+ *
+ * @param groupId      - ID de la campagne
+ * @param scheduledFor - Nouvelle date de publication (future)
+ * @returns PostGroupActionResult avec les posts replanifiés
+ */
+export async function reschedulePostGroup(
+  groupId: string,
+  scheduledFor: Date,
+): Promise<PostGroupActionResult> {
+  const session = await auth.api.getSession({ headers: await headers() })
+  if (!session) {
+    return { success: false, error: 'Non authentifié' }
+  }
+
+  const workspace = await getWorkspaceContext(session.user.id)
+  const roleError = workspaceRoleError(workspace.role, 'EDITOR')
+  if (roleError) {
+    return { success: false, error: roleError }
+  }
+
+  if (!(scheduledFor instanceof Date) || isNaN(scheduledFor.getTime()) || scheduledFor <= new Date()) {
+    return { success: false, error: 'La date de planification doit être dans le futur' }
+  }
+
+  const group = await findOwnedGroup(groupId, workspace.id)
+  if (!group) {
+    return { success: false, error: 'Campagne introuvable' }
+  }
+
+  const targets = group.posts.filter((post) => post.status !== 'PUBLISHED')
+  if (targets.length === 0) {
+    return { success: false, error: 'Aucun post à replanifier dans cette campagne' }
+  }
+
+  // ─── Validation (avant toute écriture) ────────────────────────────────────
+  // Règles de la plateforme : brouillons et échecs passent en SCHEDULED, comme
+  // dans schedulePost / updatePostStatus
+  for (const post of targets) {
+    if (post.status === 'SCHEDULED') continue
+    const violations = validatePostContent(
+      {
+        ...post,
+        threadParts: normalizeThreadParts(post.threadParts),
+        platformOptions: normalizePlatformOptions(post.platform, post.platformOptions),
+      },
+      'SCHEDULED',
+    )
+    if (violations.length > 0) {
+      return { success: false, error: platformViolationsError(violations), violations }
+    }
+  }
+
+  // Les posts déjà SCHEDULED ont passé la validation lors de leur planification
+  const requireApproval = await isApprovalRequired(workspace.id)
+  for (const post of targets) {
+    if (post.status === 'SCHEDULED') continue
+    const reviewError = approvalError(post, requireApproval)
+    if (reviewError) {
+      return { success: false, error: `Post ${post.platform} : ${reviewError}` }
+    }
+  }
+
+  // ─── Résolution des comptes (avant toute écriture) ────────────────────────
+  const accounts: { id: string; platform: string }[] = await prisma.connectedPlatform.findMany({
+    where: { workspaceId: workspace.id, isActive: true },
+    select: { id: true, platform: true },
+  })
+
+  const accountByPostId = new Map<string, string>()
+  for (const post of targets) {
+    const target = resolveTargetAccount(accounts, post.platform, post.connectedPlatformId)
+    if (!target.ok) {
+      return { success: false, error: target.error }
+    }
+    accountByPostId.set(post.id, target.connectedPlatformId)
+  }
+
+  try {
+    const updatedPosts: PrismaPostRecord[] = await prisma.$transaction(
+      targets.map((post) =>
+        prisma.post.update({
+          where: { id: post.id },
+          data: {
+            status: 'SCHEDULED',
+            scheduledFor,
+            connectedPlatformId: accountByPostId.get(post.id),
+            // Date commune choisie à la main : les posts quittent la file d'attente
+            isQueued: false,
+            // Effacer l'erreur précédente si le post était en échec (retry propre)
+            failureReason: null,
+          },
+        }),
+      ),
+    )
+
+    await recordPostEvents(prisma, targets
+      .filter((post) => post.status !== 'SCHEDULED')
+      .map((post) => ({
+        postId: post.id,
+        actorId: session.user.id,
+        action: 'STATUS_CHANGED' as const,
+        fromStatus: post.status as Post['status'],
+        toStatus: 'SCHEDULED' as const,
+      })))
+    await recordAuditEvents(prisma, targets.map((post, i) => ({
+      workspaceId: workspace.id,
+      actor: userActor(session.user),
+      entityType: 'POST' as const,
+      entityId: post.id,
+      action: 'UPDATED' as const,
+      before: postAuditSnapshot(post),
+      after: postAuditSnapshot(updatedPosts[i]),
+    })))
+
+    // ─── Effets de bord Inngest ─────────────────────────────────────────────
+    // Annuler d'abord les runs en sommeil des posts déjà planifiés,
+    // sinon ils publieraient à l'ancienne date.
+    await sendCancelEvents(
+      targets.filter((post) => post.status === 'SCHEDULED').map((post) => post.id),
+      'reschedulePostGroup',
+    )
+    try {
+      await inngest.send(
+        updatedPosts.flatMap((post) => [
+          { name: 'post/schedule', data: { postId: post.id, scheduledFor: scheduledFor.toISOString() } },
+          { name: 'post/watchdog', data: { postId: post.id, scheduledFor: scheduledFor.toISOString() } },
+        ]),
+      )
+    } catch (inngestError) {
+      console.warn('[reschedulePostGroup] Inngest send échoué (non-bloquant) :', inngestError)
+    }
+
+    await repackFreedQueues(targets, workspace.id)
+
+    revalidatePostPages()
+
+    return { success: true, posts: updatedPosts.map(mapPrismaPost) }
+  } catch (error) {
+    console.error('[reschedulePostGroup] Erreur :', error)
+    return { success: false, error: 'Erreur lors de la replanification' }
+  }
+}
+
+// ─── cancelPostGroup ──────────────────────────────────────────────────────────
+
+/**
+ * Annule la planification de tous les posts SCHEDULED d'une campagne :
+ * retour en DRAFT (date effacée) et envoi de 'post/cancel' pour chacun.
+ *
+ * @param groupId - ID de la campagne
+ * @returns PostGroupActionResult avec les posts repassés en brouillon
+ */
+export async function cancelPostGroup(groupId: string): Promise<PostGroupActionResult> {
+  const session = await auth.api.getSession({ headers: await headers() })
+  if (!session) {
+    return { success: false, error: 'Non authentifié' }
+  }
+
+  const workspace = await getWorkspaceContext(session.user.id)
+  const roleError = workspaceRoleError(workspace.role, 'EDITOR')
+  if (roleError) {
+    return { success: false, error: roleError }
+  }
+
+  const group = await findOwnedGroup(groupId, workspace.id)
+  if (!group) {
+    return { success: false, error: 'Campagne introuvable' }
+  }
+
+  const scheduled = group.posts.filter((post) => post.status === 'SCHEDULED')
+  if (scheduled.length === 0) {
+    return { success: false, error: 'Aucun post planifié dans cette campagne' }
+  }
+
+  try {
+    const updatedPosts: PrismaPostRecord[] = await prisma.$transaction(
+      scheduled.map((post) =>
+        prisma.post.update({
+          where: { id: post.id },
+          data: { status: 'DRAFT', scheduledFor: null, isQueued: false },
+        }),
+      ),
+    )
+
+    await recordPostEvents(prisma, scheduled.map((post) => ({
+      postId: post.id,
+      actorId: session.user.id,
+      action: 'STATUS_CHANGED' as const,
+      fromStatus: 'SCHEDULED' as const,
+      toStatus: 'DRAFT' as const,
+    })))
+    await recordAuditEvents(prisma, scheduled.map((post, i) => ({
+      workspaceId: workspace.id,
+      actor: userActor(session.user),
+      entityType: 'POST' as const,
+      entityId: post.id,
+      action: 'STATUS_CHANGED' as const,
+      before: postAuditSnapshot(post),
+      after: postAuditSnapshot(updatedPosts[i]),
+    })))
+
+    await sendCancelEvents(scheduled.map((post) => post.id), 'cancelPostGroup')
+    await repackFreedQueues(scheduled, workspace.id)
+
+    revalidatePostPages()
+
+    return { success: true, posts: updatedPosts.map(mapPrismaPost) }
+  } catch (error) {
+    console.error('[cancelPostGroup] Erreur :', error)
+    return { success: false, error: 'Erreur lors de l\'annulation' }
+  }
+}
+
+// ─── duplicatePostGroup ───────────────────────────────────────────────────────
+
+/**
+ * Duplique une campagne : nouvelle campagne (même instruction) contenant une
+ * copie de chaque post en DRAFT, sans date. Texte, médias, plateforme et compte
+ * de publication sont conservés.
+ *
+ * @param groupId - ID de la campagne à dupliquer
+ * @returns PostGroupActionResult avec les posts copiés
+ */
+export async function duplicatePostGroup(groupId: string): Promise<PostGroupActionResult> {
+  const session = await auth.api.getSession({ headers: await headers() })
+  if (!session) {
+    return { success: false, error: 'Non authentifié' }
+  }
+
+  const workspace = await getWorkspaceContext(session.user.id)
+  const roleError = workspaceRoleError(workspace.role, 'EDITOR')
+  if (roleError) {
+    return { success: false, error: roleError }
+  }
+
+  const group = await findOwnedGroup(groupId, workspace.id)
+  if (!group) {
+    return { success: false, error: 'Campagne introuvable' }
+  }
+
+  try {
+    const copy: { id: string; posts: PrismaPostRecord[] } = await prisma.postGroup.create({
+      data: {
+        userId: session.user.id,
+        workspaceId: workspace.id,
+        instruction: group.instruction,
+        posts: {
+          createMany: {
+            data: group.posts.map((post) => ({
+              userId: session.user.id,
+              workspaceId: workspace.id,
+              text: post.text,
+              platform: post.platform,
+              connectedPlatformId: post.connectedPlatformId,
+              mediaUrls: post.mediaUrls,
+              threadParts: normalizeThreadParts(post.threadParts),
+              platformOptions: normalizePlatformOptions(post.platform, post.platformOptions),
+              status: 'DRAFT',
+            })),
+          },
+        },
+      },
+      include: { posts: { orderBy: { createdAt: 'asc' } } },
+    })
+
+    const actor = userActor(session.user)
+    await recordAuditEvents(prisma, [
+      {
+        workspaceId: workspace.id,
+        actor,
+        entityType: 'POST_GROUP',
+        entityId: copy.id,
+        entityLabel: group.instruction && auditExcerpt(group.instruction),
+        action: 'CREATED',
+        after: { instruction: group.instruction, duplicatedFrom: group.id },
+      },
+      ...copy.posts.map((post) => ({
+        workspaceId: workspace.id,
+        actor,
+        entityType: 'POST' as const,
+        entityId: post.id,
+        action: 'CREATED' as const,
+        after: postAuditSnapshot(post),
+      })),
+    ])
+
+    revalidatePostPages()
+
+    return { success: true, posts: copy.posts.map(mapPrismaPost) }
+  } catch (error) {
+    console.error('[duplicatePostGroup] Erreur :', error)
+    return { success: false, error: 'Erreur lors de la duplication' }
+  }
+}
+
+// ─── deletePostGroup ──────────────────────────────────────────────────────────
+
+/**
+ * Supprime les posts non publiés d'une campagne (annule les runs des SCHEDULED).
+ * La campagne elle-même est supprimée si aucun post publié n'y reste rattaché.
+ *
+ * @param groupId - ID de la campagne
+ * @returns { success: true } si supprimé, { success: false, error } si KO
+ */
+export async function deletePostGroup(groupId: string): Promise<PostGroupActionResult> {
+  const session = await auth.api.getSession({ headers: await headers() })
+  if (!session) {
+    return { success: false, error: 'Non authentifié' }
+  }
+
+  const workspace = await getWorkspaceContext(session.user.id)
+  const roleError = workspaceRoleError(workspace.role, 'EDITOR')
+  if (roleError) {
+    return { success: false, error: roleError }
+  }
+
+  const group = await findOwnedGroup(groupId, workspace.id)
+  if (!group) {
+    return { success: false, error: 'Campagne introuvable' }
+  }
+
+  const deletable = group.posts.filter((post) => post.status !== 'PUBLISHED')
+  const keepsPublished = deletable.length < group.posts.length
+
+  try {
+    const actor = userActor(session.user)
+    await prisma.$transaction([
+      prisma.post.deleteMany({ where: { id: { in: deletable.map((post) => post.id) } } }),
+      ...(keepsPublished ? [] : [prisma.postGroup.delete({ where: { id: group.id } })]),
+      ...deletable.map((post) => auditEventCreate(prisma, {
+        workspaceId: workspace.id,
+        actor,
+        entityType: 'POST',
+        entityId: post.id,
+        action: 'DELETED',
+        before: postAuditSnapshot(post),
+      })),
+      ...(keepsPublished ? [] : [auditEventCreate(prisma, {
+        workspaceId: workspace.id,
+        actor,
+        entityType: 'POST_GROUP',
+        entityId: group.id,
+        entityLabel: group.instruction && auditExcerpt(group.instruction),
+        action: 'DELETED',
+        before: { instruction: group.instruction },
+      })]),
+    ])
+
+    await sendCancelEvents(
+      deletable.filter((post) => post.status === 'SCHEDULED').map((post) => post.id),
+      'deletePostGroup',
+    )
+    await repackFreedQueues(deletable, workspace.id)
+
+    revalidatePostPages()
+
+    return { success: true }
+  } catch (error) {
+    console.error('[deletePostGroup] Erreur :', error)
+    return { success: false, error: 'Erreur lors de la suppression' }
+  }
+}
@@ -0,0 +1,359 @@
+/**
+ * @file modules/posts/actions/post-review.action.ts
+ * @module posts
+ * @description Server Actions de la validation des posts (statut PENDING_REVIEW).
+ *   Un brouillon est soumis à validation, commenté, puis approuvé (retour en
+ *   DRAFT avec approvedAt) ou rejeté avec un motif (retour en DRAFT sans approbation).
+ *   Quand Workspace.requirePostApproval est actif, seul un post approuvé peut être
+ *   planifié (schedulePost, updatePostStatus).
+ *
+ *   La soumission est ouverte aux membres EDITOR / OWNER du workspace ; approuver
+ *   ou rejeter est réservé aux OWNER, et l'auteur de la soumission ne peut pas
+ *   approuver son propre post. Un VIEWER peut uniquement commenter.
+ *
+ *   Chaque étape est tracée dans post_status_events (auteur + horodatage) et
+ *   dans le journal d'audit, dans la même transaction que la mise à jour du post.
+ *
+ *   Actions exportées :
+ *   - submitPostForReview     : DRAFT → PENDING_REVIEW (commentaire facultatif)
+ *   - approvePost             : PENDING_REVIEW → DRAFT approuvé (commentaire facultatif)
+ *   - rejectPost              : PENDING_REVIEW → DRAFT, motif obligatoire
+ *   - commentOnPost           : commentaire sans changement de statut
+ *   - setPostApprovalRequired : active / désactive la validation avant planification (OWNER)
+ *
+ * @example
+ *   const result = await rejectPost({ postId: post.id, comment: 'Le visuel n\'est pas validé' })
+ *   if (result.success) {
+ *     // result.post.status === 'DRAFT', result.post.approvedAt === null
+ *   }
+ */
+
+'use server'
+
+import { revalidatePath } from 'next/cache'
+import { headers } from 'next/headers'
+
+import { auditEventCreate, userActor } from '@/lib/audit'
+import { auth } from '@/lib/auth'
+import { postEventCreate } from '@/lib/post-review'
+import type { PostEventInput } from '@/lib/post-review'
+import { prisma } from '@/lib/prisma'
+import { getWorkspaceContext } from '@/lib/workspace'
+import { normalizePlatformOptions } from '@/modules/platforms/config/platform-options'
+import { PostCommentSchema, PostReviewSchema } from '@/modules/posts/schemas/post-review.schema'
+import type { Post, PostEventAction, PostReviewActionResult } from '@/modules/posts/types'
+import { normalizeMediaAltTexts } from '@/modules/posts/utils/accessibility'
+import { reviewDecisionError } from '@/modules/posts/utils/post-review'
+import { normalizeThreadParts } from '@/modules/posts/utils/thread'
+import { workspaceRoleError } from '@/modules/workspaces/utils/roles'
+
+// ─── Helpers ─────────────────────────────────────────────────────────────────
+
+/** Enregistrement Prisma brut d'un post (forme retournée par update) */
+interface PrismaPostRecord {
+  id: string
+  userId: string
+  text: string
+  platform: string
+  connectedPlatformId: string | null
+  groupId: string | null
+  seriesId: string | null
+  agentSessionId: string | null
+  mediaUrls: string[]
+  mediaAltTexts: unknown
+  threadParts: unknown
+  platformOptions: unknown
+  scheduledFor: Date | null
+  publishedAt: Date | null
+  status: string
+  approvedAt: Date | null
+  latePostId: string | null
+  platformPostUrl: string | null
+  failureReason: string | null
+  createdAt: Date
+  updatedAt: Date
+}
+
+/**
+ * Mappe un enregistrement Prisma vers l'interface Post du module.
+ *
+ * @param record - Enregistrement Prisma brut
+ * @returns Post typé pour le module
+ */
+function mapPrismaPost(record: PrismaPostRecord): Post {
+  return {
+    id: record.id,
+    userId: record.userId,
+    text: record.text,
+    platform: record.platform,
+    connectedPlatformId: record.connectedPlatformId,
+    groupId: record.groupId,
+    seriesId: record.seriesId,
+    agentSessionId: record.agentSessionId,
+    mediaUrls: record.mediaUrls,
+    mediaAltTexts: normalizeMediaAltTexts(record.mediaAltTexts),
+    threadParts: normalizeThreadParts(record.threadParts),
+    platformOptions: normalizePlatformOptions(record.platform, record.platformOptions),
+    scheduledFor: record.scheduledFor,
+    publishedAt: record.publishedAt,
+    status: record.status as Post['status'],
+    approvedAt: record.approvedAt,
+    latePostId: record.latePostId,
+    platformPostUrl: record.platformPostUrl,
+    failureReason: record.failureReason,
+    createdAt: record.createdAt,
+    updatedAt: record.updatedAt,
+  }
+}
+
+/** Étape de revue appliquée par applyReviewStep */
+interface ReviewStep {
+  /** Statut requis avant l'étape */
+  from: Post['status']
+  /** Statut après l'étape */
+  to: Post['status']
+  action: PostEventAction
+  /** Nouvelle date d'approbation (null = approbation retirée) */
+  approvedAt: Date | null
+  /** Message si le post n'est pas dans le statut `from` */
+  wrongStatusError: string
+}
+
+/**
+ * Applique une étape de revue : vérifie rôle, workspace + statut (et, pour une
+ * décision, les droits du relecteur), met à jour le post et trace l'évènement
+ * dans une seule transaction.
+ *
+ * @param postId  - Post concerné
+ * @param user    - Utilisateur connecté (auteur de l'étape)
+ * @param step    - Transition à appliquer
+ * @param comment - Commentaire / motif éventuel
+ * @returns PostReviewActionResult
+ */
+async function applyReviewStep(
+  postId: string,
+  user: { id: string; name?: string | null },
+  step: ReviewStep,
+  comment: string | undefined,
+): Promise<PostReviewActionResult> {
+  const userId = user.id
+  const workspace = await getWorkspaceContext(userId)
+  const roleError = workspaceRoleError(workspace.role, 'EDITOR')
+  if (roleError) return { success: false, error: roleError }
+
+  const existing: { workspaceId: string; status: string; text: string } | null = await prisma.post.findUnique({
+    where: { id: postId },
+    select: { workspaceId: true, status: true, text: true },
+  })
+  if (!existing || existing.workspaceId !== workspace.id) {
+    return { success: false, error: 'Post introuvable' }
+  }
+  if (existing.status !== step.from) {
+    return { success: false, error: step.wrongStatusError }
+  }
+
+  // Décision : OWNER uniquement, et pas sur sa propre soumission
+  if (step.action === 'APPROVED' || step.action === 'REJECTED') {
+    const submission: { actorId: string | null } | null = await prisma.postStatusEvent.findFirst({
+      where: { postId, action: 'SUBMITTED' },
+      orderBy: { createdAt: 'desc' },
+      select: { actorId: true },
+    })
+    const decisionError = reviewDecisionError(workspace.role, userId, submission?.actorId ?? null, step.action)
+    if (decisionError) return { success: false, error: decisionError }
+  }
+
+  const event: PostEventInput = {
+    postId,
+    actorId: userId,
+    action: step.action,
+    fromStatus: step.from,
+    toStatus: step.to,
+    comment: comment ?? null,
+  }
+
+  try {
+    // Condition sur le statut : une décision concurrente (double clic, autre onglet) échoue
+    const [updated]: [PrismaPostRecord, unknown] = await prisma.$transaction([
+      prisma.post.update({
+        where: { id: postId, status: step.from },
+        data: { status: step.to, approvedAt: step.approvedAt },
+      }),
+      postEventCreate(prisma, event),
+      auditEventCreate(prisma, {
+        workspaceId: workspace.id,
+        actor: userActor(user),
+        entityType: 'POST',
+        entityId: postId,
+        action: 'STATUS_CHANGED',
+        before: { text: existing.text, status: step.from },
+        after: { text: existing.text, status: step.to },
+      }),
+    ])
+
+    revalidatePath('/compose')
+    revalidatePath('/calendar')
+
+    return { success: true, post: mapPrismaPost(updated) }
+  } catch (error) {
+    console.error(`[${step.action}] Erreur :`, error)
+    return { success: false, error: 'Erreur lors de la mise à jour de la revue' }
+  }
+}
+
+// ─── submitPostForReview ──────────────────────────────────────────────────────
+
+/**
+ * Soumet un brouillon à validation. Une approbation précédente est retirée.
+ *
+ * @param rawData - { postId, comment? } (validé par PostReviewSchema)
+ * @returns PostReviewActionResult avec le post PENDING_REVIEW
+ */
+export async function submitPostForReview(rawData: unknown): Promise<PostReviewActionResult> {
+  const session = await auth.api.getSession({ headers: await headers() })
+  if (!session) {
+    return { success: false, error: 'Non authentifié' }
+  }
+
+  const parsed = PostReviewSchema.safeParse(rawData)
+  if (!parsed.success) {
+    return { success: false, error: parsed.error.issues[0]?.message ?? 'Données invalides' }
+  }
+
+  return applyReviewStep(parsed.data.postId, session.user, {
+    from: 'DRAFT',
+    to: 'PENDING_REVIEW',
+    action: 'SUBMITTED',
+    approvedAt: null,
+    wrongStatusError: 'Seul un brouillon peut être soumis à validation',
+  }, parsed.data.comment)
+}
+
+// ─── approvePost ──────────────────────────────────────────────────────────────
+
+/**
+ * Approuve un post en revue : il revient en brouillon, prêt à être planifié.
+ *
+ * @param rawData - { postId, comment? } (validé par PostReviewSchema)
+ * @returns PostReviewActionResult avec le post DRAFT approuvé
+ */
+export async function approvePost(rawData: unknown): Promise<PostReviewActionResult> {
+  const session = await auth.api.getSession({ headers: await headers() })
+  if (!session) {
+    return { success: false, error: 'Non authentifié' }
+  }
+
+  const parsed = PostReviewSchema.safeParse(rawData)
+  if (!parsed.success) {
+    return { success: false, error: parsed.error.issues[0]?.message ?? 'Données invalides' }
+  }
+
+  return applyReviewStep(parsed.data.postId, session.user, {
+    from: 'PENDING_REVIEW',
+    to: 'DRAFT',
+    action: 'APPROVED',
+    approvedAt: new Date(),
+    wrongStatusError: 'Ce post n\'est pas en attente de validation',
+  }, parsed.data.comment)
+}
+
+// ─── rejectPost ───────────────────────────────────────────────────────────────
+
+/**
+ * Rejette un post en revue avec un motif : il revient en brouillon non approuvé.
+ *
+ * @param rawData - { postId, comment } (motif obligatoire, validé par PostCommentSchema)
+ * @returns PostReviewActionResult avec le post DRAFT
+ */
+export async function rejectPost(rawData: unknown): Promise<PostReviewActionResult> {
+  const session = await auth.api.getSession({ headers: await headers() })
+  if (!session) {
+    return { success: false, error: 'Non authentifié' }
+  }
+
+  const parsed = PostCommentSchema.safeParse(rawData)
+  if (!parsed.success) {
+    return { success: false, error: parsed.error.issues[0]?.message ?? 'Le motif du rejet est requis' }
+  }
+
+  return applyReviewStep(parsed.data.postId, session.user, {
+    from: 'PENDING_REVIEW',
+    to: 'DRAFT',
+    action: 'REJECTED',
+    approvedAt: null,
+    wrongStatusError: 'Ce post n\'est pas en attente de validation',
+  }, parsed.data.comment)
+}
+
+// ─── commentOnPost ────────────────────────────────────────────────────────────
+
+/**
+ * Ajoute un commentaire à l'historique d'un post (statut inchangé).
+ * Ouvert à tous les membres du workspace, lecteurs compris.
+ *
+ * @param rawData - { postId, comment } (validé par PostCommentSchema)
+ * @returns PostReviewActionResult (sans post : seul l'historique change)
+ */
+export async function commentOnPost(rawData: unknown): Promise<PostReviewActionResult> {
+  const session = await auth.api.getSession({ headers: await headers() })
+  if (!session) {
+    return { success: false, error: 'Non authentifié' }
+  }
+
+  const parsed = PostCommentSchema.safeParse(rawData)
+  if (!parsed.success) {
+    return { success: false, error: parsed.error.issues[0]?.message ?? 'Données invalides' }
+  }
+
+  const { postId, comment } = parsed.data
+
+  const workspace = await getWorkspaceContext(session.user.id)
+  const existing: { workspaceId: string } | null = await prisma.post.findUnique({
+    where: { id: postId },
+    select: { workspaceId: true },
+  })
+  if (!existing || existing.workspaceId !== workspace.id) {
+    return { success: false, error: 'Post introuvable' }
+  }
+
+  try {
+    await postEventCreate(prisma, { postId, actorId: session.user.id, action: 'COMMENTED', comment })
+    return { success: true }
+  } catch (error) {
+    console.error('[commentOnPost] Erreur :', error)
+    return { success: false, error: 'Erreur lors de l\'ajout du commentaire' }
+  }
+}
+
+// ─── setPostApprovalRequired ──────────────────────────────────────────────────
+
+/**
+ * Active ou désactive la validation avant planification du workspace actif
+ * (/settings, OWNER uniquement). Les posts déjà planifiés ne sont pas affectés.
+ *
+ * @param enabled - true : seuls les posts approuvés peuvent être planifiés
+ * @returns PostReviewActionResult (sans post)
+ */
+export async function setPostApprovalRequired(enabled: boolean): Promise<PostReviewActionResult> {
+  const session = await auth.api.getSession({ headers: await headers() })
+  if (!session) {
+    return { success: false, error: 'Non authentifié' }
+  }
+
+  const workspace = await getWorkspaceContext(session.user.id)
+  const roleError = workspaceRoleError(workspace.role, 'OWNER')
+  if (roleError) return { success: false, error: roleError }
+
+  try {
+    await prisma.workspace.update({
+      where: { id: workspace.id },
+      data: { requirePostApproval: enabled === true },
+    })
+
+    revalidatePath('/settings')
+    return { success: true }
+  } catch (error) {
+    console.error('[setPostApprovalRequired] Erreur :', error)
+    return { success: false, error: 'Erreur lors de l\'enregistrement du paramètre' }
+  }
+}
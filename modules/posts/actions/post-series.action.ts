@@ -0,0 +1,344 @@
+/**
+ * @file modules/posts/actions/post-series.action.ts
+ * @module posts
+ * @description Server Actions des séries récurrentes (PostSeries).
+ *   Une série porte une règle (« chaque lundi à 09:00 », « le 1er du mois »…) ;
+ *   seule l'occurrence suivante existe en base, les autres sont matérialisées
+ *   par Inngest après chaque publication (materialize-next-occurrence.ts).
+ *
+ *   Actions exportées :
+ *   - setPostRecurrence    : définit / retire la récurrence d'un post
+ *   - setGroupRecurrence   : définit / retire la récurrence d'une campagne entière
+ *   - skipSeriesOccurrence : ignore une occurrence sans interrompre la série
+ *
+ * @example
+ *   const result = await skipSeriesOccurrence(series.id, occurrence)
+ *   if (result.success) {
+ *     // result.posts : posts de l'occurrence ignorée, déplacés à l'occurrence suivante
+ *   }
+ */
+
+'use server'
+
+import { revalidatePath } from 'next/cache'
+import { headers } from 'next/headers'
+
+import { POST_AUDIT_SELECT, auditEventCreate, postAuditSnapshot, userActor } from '@/lib/audit'
+import type { PostAuditFields } from '@/lib/audit'
+import { auth } from '@/lib/auth'
+import { inngest } from '@/lib/inngest/client'
+import { applyRecurrence } from '@/lib/post-series'
+import { prisma } from '@/lib/prisma'
+import { getWorkspaceContext } from '@/lib/workspace'
+import { normalizePlatformOptions } from '@/modules/platforms/config/platform-options'
+import { RecurrenceRuleSchema } from '@/modules/posts/schemas/post.schema'
+import type { Post, PostSeriesActionResult, RecurrenceRule } from '@/modules/posts/types'
+import { normalizeMediaAltTexts } from '@/modules/posts/utils/accessibility'
+import { nextOccurrence } from '@/modules/posts/utils/recurrence'
+import { normalizeThreadParts } from '@/modules/posts/utils/thread'
+import { workspaceRoleError } from '@/modules/workspaces/utils/roles'
+
+// ─── Helpers ─────────────────────────────────────────────────────────────────
+
+/** Enregistrement Prisma brut d'un post (forme retournée par update) */
+interface PrismaPostRecord {
+  id: string
+  userId: string
+  text: string
+  platform: string
+  connectedPlatformId: string | null
+  groupId: string | null
+  seriesId: string | null
+  agentSessionId: string | null
+  mediaUrls: string[]
+  mediaAltTexts: unknown
+  threadParts: unknown
+  platformOptions: unknown
+  scheduledFor: Date | null
+  publishedAt: Date | null
+  status: string
+  approvedAt: Date | null
+  latePostId: string | null
+  platformPostUrl: string | null
+  failureReason: string | null
+  createdAt: Date
+  updatedAt: Date
+}
+
+/**
+ * Mappe un enregistrement Prisma vers l'interface Post du module.
+ *
+ * @param record - Enregistrement Prisma brut
+ * @returns Post typé pour le module
+ */
+function mapPrismaPost(record: PrismaPostRecord): Post {
+  return {
+    id: record.id,
+    userId: record.userId,
+    text: record.text,
+    platform: record.platform,
+    connectedPlatformId: record.connectedPlatformId,
+    groupId: record.groupId,
+    seriesId: record.seriesId,
+    agentSessionId: record.agentSessionId,
+    mediaUrls: record.mediaUrls,
+    mediaAltTexts: normalizeMediaAltTexts(record.mediaAltTexts),
+    threadParts: normalizeThreadParts(record.threadParts),
+    platformOptions: normalizePlatformOptions(record.platform, record.platformOptions),
+    scheduledFor: record.scheduledFor,
+    publishedAt: record.publishedAt,
+    status: record.status as Post['status'],
+    approvedAt: record.approvedAt,
+    latePostId: record.latePostId,
+    platformPostUrl: record.platformPostUrl,
+    failureReason: record.failureReason,
+    createdAt: record.createdAt,
+    updatedAt: record.updatedAt,
+  }
+}
+
+/**
+ * Valide une règle brute (null = retrait de la récurrence).
+ *
+ * @param rawRule - Règle reçue du client
+ * @returns Règle validée, null, ou message d'erreur
+ */
+function parseRule(
+  rawRule: unknown,
+): { ok: true; rule: RecurrenceRule | null } | { ok: false; error: string } {
+  if (rawRule === null) return { ok: true, rule: null }
+  const parsed = RecurrenceRuleSchema.safeParse(rawRule)
+  if (!parsed.success) {
+    return { ok: false, error: parsed.error.issues[0]?.message ?? 'Récurrence invalide' }
+  }
+  return { ok: true, rule: parsed.data }
+}
+
+/** Invalide le cache des pages qui affichent des posts */
+function revalidatePostPages(): void {
+  revalidatePath('/compose')
+  revalidatePath('/calendar')
+  revalidatePath('/')
+}
+
+// ─── setPostRecurrence ────────────────────────────────────────────────────────
+
+/**
+ * Définit ou retire la récurrence d'un post (non publié).
+ * La première publication reste à la date du post ; les occurrences suivantes
+ * suivent la règle.
+ *
+ * @param postId  - ID du post
+ * @param rawRule - Règle de récurrence (RecurrenceRuleSchema), ou null pour la retirer
+ * @returns PostSeriesActionResult avec l'ID de la série active
+ *
+ * @example
+ *   await setPostRecurrence('post_abc', { frequency: 'WEEKLY', weekdays: [1], hour: 9, minute: 0, timezone: 'Europe/Paris' })
+ */
+export async function setPostRecurrence(
+  postId: string,
+  rawRule: unknown,
+): Promise<PostSeriesActionResult> {
+  const session = await auth.api.getSession({ headers: await headers() })
+  if (!session) {
+    return { success: false, error: 'Non authentifié' }
+  }
+
+  const workspace = await getWorkspaceContext(session.user.id)
+  const roleError = workspaceRoleError(workspace.role, 'EDITOR')
+  if (roleError) {
+    return { success: false, error: roleError }
+  }
+
+  const parsed = parseRule(rawRule)
+  if (!parsed.ok) {
+    return { success: false, error: parsed.error }
+  }
+
+  const post = await prisma.post.findUnique({
+    where: { id: postId },
+    select: { workspaceId: true, status: true, seriesId: true },
+  })
+  if (!post || post.workspaceId !== workspace.id) {
+    return { success: false, error: 'Post introuvable' }
+  }
+  if (post.status === 'PUBLISHED') {
+    return { success: false, error: 'Ce post ne peut plus être modifié' }
+  }
+
+  try {
+    const seriesId = await applyRecurrence(workspace.id, session.user.id, [postId], post.seriesId, parsed.rule)
+    revalidatePostPages()
+    return { success: true, seriesId }
+  } catch (error) {
+    console.error('[setPostRecurrence] Erreur :', error)
+    return { success: false, error: 'Erreur lors de l\'enregistrement de la récurrence' }
+  }
+}
+
+// ─── setGroupRecurrence ───────────────────────────────────────────────────────
+
+/**
+ * Définit ou retire la récurrence de tous les posts non publiés d'une campagne.
+ * Les posts partagent une seule série : chaque occurrence recrée la campagne.
+ *
+ * @param groupId - ID de la campagne (PostGroup)
+ * @param rawRule - Règle de récurrence, ou null pour la retirer
+ * @returns PostSeriesActionResult avec l'ID de la série active
+ */
+export async function setGroupRecurrence(
+  groupId: string,
+  rawRule: unknown,
+): Promise<PostSeriesActionResult> {
+  const session = await auth.api.getSession({ headers: await headers() })
+  if (!session) {
+    return { success: false, error: 'Non authentifié' }
+  }
+
+  const workspace = await getWorkspaceContext(session.user.id)
+  const roleError = workspaceRoleError(workspace.role, 'EDITOR')
+  if (roleError) {
+    return { success: false, error: roleError }
+  }
+
+  const parsed = parseRule(rawRule)
+  if (!parsed.ok) {
+    return { success: false, error: parsed.error }
+  }
+
+  const group: { posts: { id: string; status: string; seriesId: string | null }[] } | null =
+    await prisma.postGroup.findFirst({
+      where: { id: groupId, workspaceId: workspace.id },
+      select: { posts: { select: { id: true, status: true, seriesId: true } } },
+    })
+  if (!group) {
+    return { success: false, error: 'Campagne introuvable' }
+  }
+
+  const editable = group.posts.filter((post) => post.status !== 'PUBLISHED')
+  if (editable.length === 0) {
+    return { success: false, error: 'Aucun post modifiable dans cette campagne' }
+  }
+
+  try {
+    const existingSeriesId = editable.find((post) => post.seriesId)?.seriesId ?? null
+    const seriesId = await applyRecurrence(
+      workspace.id,
+      session.user.id,
+      editable.map((post) => post.id),
+      existingSeriesId,
+      parsed.rule,
+    )
+    revalidatePostPages()
+    return { success: true, seriesId }
+  } catch (error) {
+    console.error('[setGroupRecurrence] Erreur :', error)
+    return { success: false, error: 'Erreur lors de l\'enregistrement de la récurrence' }
+  }
+}
+
+// ─── skipSeriesOccurrence ─────────────────────────────────────────────────────
+
+/**
+ * Ignore une occurrence d'une série sans l'interrompre.
+ *
+ * - L'occurrence est ajoutée à PostSeries.skipDates (projection calendrier + Inngest)
+ * - Si elle est déjà matérialisée (posts SCHEDULED à cette date), ces posts sont
+ *   déplacés à l'occurrence suivante : 'post/cancel' puis 'post/schedule' + 'post/watchdog'
+ *
+ * @param seriesId   - ID de la série
+ * @param occurrence - Date exacte de l'occurrence à ignorer (future)
+ * @returns PostSeriesActionResult avec les posts déplacés (s'il y en avait)
+ */
+export async function skipSeriesOccurrence(
+  seriesId: string,
+  occurrence: Date,
+): Promise<PostSeriesActionResult> {
+  const session = await auth.api.getSession({ headers: await headers() })
+  if (!session) {
+    return { success: false, error: 'Non authentifié' }
+  }
+
+  const workspace = await getWorkspaceContext(session.user.id)
+  const roleError = workspaceRoleError(workspace.role, 'EDITOR')
+  if (roleError) {
+    return { success: false, error: roleError }
+  }
+
+  if (!(occurrence instanceof Date) || isNaN(occurrence.getTime()) || occurrence <= new Date()) {
+    return { success: false, error: 'Seule une occurrence à venir peut être ignorée' }
+  }
+
+  const series: { id: string; rule: unknown; skipDates: string[] } | null =
+    await prisma.postSeries.findFirst({
+      where: { id: seriesId, workspaceId: workspace.id, isActive: true },
+      select: { id: true, rule: true, skipDates: true },
+    })
+  if (!series) {
+    return { success: false, error: 'Série introuvable' }
+  }
+
+  const rule = RecurrenceRuleSchema.safeParse(series.rule)
+  if (!rule.success) {
+    return { success: false, error: 'Règle de récurrence invalide' }
+  }
+
+  // L'occurrence doit appartenir à la série (pas une date arbitraire)
+  const expected = nextOccurrence(rule.data, new Date(occurrence.getTime() - 1))
+  if (!expected || expected.getTime() !== occurrence.getTime()) {
+    return { success: false, error: 'Cette date ne correspond à aucune occurrence de la série' }
+  }
+
+  const skipDates = [...new Set([...series.skipDates, occurrence.toISOString()])]
+  const nextAt = nextOccurrence(rule.data, occurrence, skipDates)
+
+  const materialized: ({ id: string } & PostAuditFields)[] = await prisma.post.findMany({
+    where: { seriesId, workspaceId: workspace.id, status: 'SCHEDULED', scheduledFor: occurrence },
+    select: { ...POST_AUDIT_SELECT, id: true },
+  })
+
+  // Sans occurrence suivante (horizon dépassé) : retour en brouillon
+  const moveData = nextAt ? { scheduledFor: nextAt } : { status: 'DRAFT', scheduledFor: null }
+
+  try {
+    const actor = userActor(session.user)
+    const [, ...results]: [unknown, ...unknown[]] = await prisma.$transaction([
+      prisma.postSeries.update({ where: { id: seriesId }, data: { skipDates } }),
+      ...materialized.map((post) => prisma.post.update({ where: { id: post.id }, data: moveData })),
+      ...materialized.map((post) => auditEventCreate(prisma, {
+        workspaceId: workspace.id,
+        actor,
+        entityType: 'POST',
+        entityId: post.id,
+        action: 'UPDATED',
+        before: postAuditSnapshot(post),
+        after: postAuditSnapshot({ ...post, ...moveData }),
+      })),
+    ])
+    const movedPosts = results.slice(0, materialized.length) as PrismaPostRecord[]
+
+    // ─── Effets de bord Inngest (non-bloquants) ───────────────────────────
+    if (materialized.length > 0) {
+      try {
+        await inngest.send(materialized.map((post) => ({ name: 'post/cancel', data: { postId: post.id } })))
+        if (nextAt) {
+          await inngest.send(
+            materialized.flatMap((post) => [
+              { name: 'post/schedule', data: { postId: post.id, scheduledFor: nextAt.toISOString() } },
+              { name: 'post/watchdog', data: { postId: post.id, scheduledFor: nextAt.toISOString() } },
+            ]),
+          )
+        }
+      } catch (inngestError) {
+        console.warn('[skipSeriesOccurrence] Inngest send échoué (non-bloquant) :', inngestError)
+      }
+    }
+
+    revalidatePostPages()
+
+    return { success: true, seriesId, posts: movedPosts.map(mapPrismaPost) }
+  } catch (error) {
+    console.error('[skipSeriesOccurrence] Erreur :', error)
+    return { success: false, error: 'Impossible d\'ignorer cette occurrence' }
+  }
+}
@@ -0,0 +1,179 @@
+/**
+ * @file modules/posts/actions/posting-slot.action.ts
+ * @module posts
+ * @description Server Actions des créneaux de publication (file d'attente).
+ *   Les créneaux d'une plateforme définissent où « Ajouter à la file » place
+ *   les posts (lib/post-queue.ts). La liste est lue via GET /api/posts/slots.
+ *   Les créneaux sont partagés par le workspace actif (rôle EDITOR pour les modifier)
+ *   et exprimés dans son fuseau (Workspace.timezone).
+ *
+ *   Actions exportées :
+ *   - createPostingSlots  : ajoute un créneau par jour coché (doublons ignorés)
+ *   - deletePostingSlot   : supprime un créneau (les posts déjà placés gardent leur date)
+ *   - updateQueueTimezone : change le fuseau des créneaux du workspace
+ *
+ * @example
+ *   const result = await createPostingSlots({ platform: 'linkedin', weekdays: [1, 2, 3, 4, 5], hour: 8, minute: 30 })
+ *   if (result.success) {
+ *     // result.slots : créneaux à jour du workspace
+ *   }
+ */
+
+'use server'
+
+import { revalidatePath } from 'next/cache'
+import { headers } from 'next/headers'
+
+import { auth } from '@/lib/auth'
+import { prisma } from '@/lib/prisma'
+import { isValidTimezone } from '@/lib/timezone'
+import { getWorkspaceContext } from '@/lib/workspace'
+import { PostingSlotCreateSchema } from '@/modules/posts/schemas/posting-slot.schema'
+import type { PostingSlot, PostingSlotActionResult } from '@/modules/posts/types'
+import { workspaceRoleError } from '@/modules/workspaces/utils/roles'
+
+// ─── Helpers ─────────────────────────────────────────────────────────────────
+
+/**
+ * Créneaux du workspace, triés par plateforme puis par heure.
+ *
+ * @param workspaceId - Workspace actif
+ * @returns Créneaux de toutes les plateformes
+ */
+async function listWorkspaceSlots(workspaceId: string): Promise<PostingSlot[]> {
+  return prisma.postingSlot.findMany({
+    where: { workspaceId },
+    select: { id: true, platform: true, weekday: true, hour: true, minute: true },
+    orderBy: [{ platform: 'asc' }, { hour: 'asc' }, { minute: 'asc' }, { weekday: 'asc' }],
+  })
+}
+
+// ─── createPostingSlots ───────────────────────────────────────────────────────
+
+/**
+ * Ajoute des créneaux à une plateforme : un par jour coché, à la même heure.
+ * Un créneau déjà défini n'est pas dupliqué (contrainte unique).
+ *
+ * @param rawData - Données du formulaire (validées par PostingSlotCreateSchema)
+ * @returns PostingSlotActionResult avec la liste à jour
+ */
+export async function createPostingSlots(rawData: unknown): Promise<PostingSlotActionResult> {
+  const session = await auth.api.getSession({ headers: await headers() })
+  if (!session) {
+    return { success: false, error: 'Non authentifié' }
+  }
+
+  const workspace = await getWorkspaceContext(session.user.id)
+  const roleError = workspaceRoleError(workspace.role, 'EDITOR')
+  if (roleError) {
+    return { success: false, error: roleError }
+  }
+
+  const parsed = PostingSlotCreateSchema.safeParse(rawData)
+  if (!parsed.success) {
+    return { success: false, error: parsed.error.issues[0]?.message ?? 'Données invalides' }
+  }
+
+  const { platform, weekdays, hour, minute } = parsed.data
+
+  try {
+    await prisma.postingSlot.createMany({
+      data: [...new Set(weekdays)].map((weekday) => ({
+        userId: session.user.id,
+        workspaceId: workspace.id,
+        platform,
+        weekday,
+        hour,
+        minute,
+      })),
+      skipDuplicates: true,
+    })
+
+    revalidatePath('/settings')
+
+    return { success: true, slots: await listWorkspaceSlots(workspace.id) }
+  } catch (error) {
+    console.error('[createPostingSlots] Erreur :', error)
+    return { success: false, error: 'Erreur lors de l\'ajout des créneaux' }
+  }
+}
+
+// ─── deletePostingSlot ────────────────────────────────────────────────────────
+
+/**
+ * Supprime un créneau. Les posts déjà placés sur ce créneau gardent leur date
+ * (aucune publication n'est déplacée sans action de l'utilisateur).
+ *
+ * @param slotId - ID du créneau
+ * @returns PostingSlotActionResult avec la liste à jour
+ */
+export async function deletePostingSlot(slotId: string): Promise<PostingSlotActionResult> {
+  const session = await auth.api.getSession({ headers: await headers() })
+  if (!session) {
+    return { success: false, error: 'Non authentifié' }
+  }
+
+  const workspace = await getWorkspaceContext(session.user.id)
+  const roleError = workspaceRoleError(workspace.role, 'EDITOR')
+  if (roleError) {
+    return { success: false, error: roleError }
+  }
+
+  try {
+    // Filtre workspaceId : un créneau d'un autre workspace n'est jamais supprimé
+    const deleted = await prisma.postingSlot.deleteMany({
+      where: { id: slotId, workspaceId: workspace.id },
+    })
+    if (deleted.count === 0) {
+      return { success: false, error: 'Créneau introuvable' }
+    }
+
+    revalidatePath('/settings')
+
+    return { success: true, slots: await listWorkspaceSlots(workspace.id) }
+  } catch (error) {
+    console.error('[deletePostingSlot] Erreur :', error)
+    return { success: false, error: 'Erreur lors de la suppression du créneau' }
+  }
+}
+
+// ─── updateQueueTimezone ──────────────────────────────────────────────────────
+
+/**
+ * Change le fuseau dans lequel les créneaux du workspace sont lus. Les posts
+ * déjà placés gardent leur date ; les prochains ajouts à la file suivent le
+ * nouveau fuseau.
+ *
+ * @param timezone - Fuseau IANA (ex: "America/Montreal")
+ * @returns PostingSlotActionResult (sans créneaux : la liste ne change pas)
+ */
+export async function updateQueueTimezone(timezone: string): Promise<PostingSlotActionResult> {
+  const session = await auth.api.getSession({ headers: await headers() })
+  if (!session) {
+    return { success: false, error: 'Non authentifié' }
+  }
+
+  const workspace = await getWorkspaceContext(session.user.id)
+  const roleError = workspaceRoleError(workspace.role, 'EDITOR')
+  if (roleError) {
+    return { success: false, error: roleError }
+  }
+
+  if (typeof timezone !== 'string' || !isValidTimezone(timezone)) {
+    return { success: false, error: 'Fuseau horaire invalide' }
+  }
+
+  try {
+    await prisma.workspace.update({
+      where: { id: workspace.id },
+      data: { timezone },
+    })
+
+    revalidatePath('/settings')
+
+    return { success: true }
+  } catch (error) {
+    console.error('[updateQueueTimezone] Erreur :', error)
+    return { success: false, error: 'Erreur lors de l\'enregistrement du fuseau' }
+  }
+}
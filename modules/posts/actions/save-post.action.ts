@@ -7,9 +7,28 @@
  *   Modèle simplifié : 1 post = 1 plateforme (platform string, pas platforms[]).
  *   Les posts sont créés individuellement par l'agent via /api/agent/create-posts.
  *
- *   Deux actions exportées :
+ *   Trois actions exportées :
  *   - savePost : crée un nouveau post ou met à jour un post existant (selon postId)
- *   - deletePost : supprime un post (DRAFT ou SCHEDULED uniquement)
+ *   - restorePostRevision : remet le contenu d'une révision précédente, avec les
+ *     mêmes validations qu'une mise à jour via savePost
+ *   - deletePost : supprime un post (DRAFT ou SCHEDULED uniquement) et re-tasse
+ *     la file de publication si le post y occupait un créneau
+ *
+ *   Les posts appartiennent au workspace actif : tout membre EDITOR ou OWNER peut
+ *   créer, modifier ou supprimer les posts du workspace (userId = auteur).
+ *
+ *   Validation des posts (Workspace.requirePostApproval) : un post ne passe en SCHEDULED
+ *   qu'une fois approuvé, et toute modification du texte ou des médias retire
+ *   l'approbation (modules/posts/utils/post-review.ts).
+ *
+ *   Le contenu effectif doit respecter les règles de sa plateforme (longueur,
+ *   nombre et type de médias) pour être planifié : sinon { success: false, error, violations }.
+ *   Un brouillon non conforme est enregistré, avec ses violations dans
+ *   `platformWarnings` (modules/posts/utils/post-validation.ts).
+ *
+ *   Chaque création, modification et suppression est tracée dans le journal
+ *   d'audit (lib/audit.ts), dans la même transaction que la mutation. Chaque
+ *   modification du texte ou des médias crée une révision (lib/post-revisions.ts).
  *
  *   La logique de publication vers getlate.dev est gérée par Inngest
  *   (lib/inngest/functions/publish-scheduled-post.ts), pas ici.
@@ -30,10 +49,40 @@
 import { revalidatePath } from 'next/cache'
 import { headers } from 'next/headers'
 
+import { POST_AUDIT_SELECT, postAuditSnapshot, recordAuditEvents, userActor } from '@/lib/audit'
+import type { AuditActor } from '@/lib/audit'
 import { auth } from '@/lib/auth'
+import { resolvePostAccount } from '@/lib/post-account'
+import { repackQueue } from '@/lib/post-queue'
+import { isApprovalRequired, postEventCreate } from '@/lib/post-review'
+import { recordPostRevision } from '@/lib/post-revisions'
 import { prisma } from '@/lib/prisma'
-import { PostCreateSchema, PostUpdateSchema } from '@/modules/posts/schemas/post.schema'
-import type { Post, SavePostResult } from '@/modules/posts/types'
+import { getWorkspaceContext } from '@/lib/workspace'
+import type { WorkspaceContext } from '@/lib/workspace'
+import { normalizePlatformOptions } from '@/modules/platforms/config/platform-options'
+import {
+  PostCreateSchema,
+  PostRevisionRestoreSchema,
+  PostUpdateSchema,
+} from '@/modules/posts/schemas/post.schema'
+import type { Post, RevisionSource, SavePostResult } from '@/modules/posts/types'
+import { normalizeMediaAltTexts } from '@/modules/posts/utils/accessibility'
+import { approvalError, hasContentChanged } from '@/modules/posts/utils/post-review'
+import {
+  blockingViolations,
+  platformViolationsError,
+  validatePostContent,
+} from '@/modules/posts/utils/post-validation'
+import { normalizeThreadParts } from '@/modules/posts/utils/thread'
+import { workspaceRoleError } from '@/modules/workspaces/utils/roles'
+
+// ─── Types ───────────────────────────────────────────────────────────────────
+
+/** Origine de la révision créée par une mise à jour (composer ou restauration) */
+interface RevisionContext {
+  source: Extract<RevisionSource, 'MANUAL' | 'RESTORE'>
+  restoredFromId?: string
+}
 
 // ─── Helpers ─────────────────────────────────────────────────────────────────
 
@@ -49,10 +98,18 @@ function mapPrismaPost(record: {
   userId: string
   text: string
   platform: string
+  connectedPlatformId: string | null
+  groupId: string | null
+  seriesId: string | null
+  agentSessionId: string | null
   mediaUrls: string[]
+  mediaAltTexts: unknown
+  threadParts: unknown
+  platformOptions: unknown
   scheduledFor: Date | null
   publishedAt: Date | null
   status: string
+  approvedAt: Date | null
   latePostId: string | null
   platformPostUrl: string | null
   failureReason: string | null
@@ -64,10 +121,18 @@ function mapPrismaPost(record: {
     userId: record.userId,
     text: record.text,
     platform: record.platform,
+    connectedPlatformId: record.connectedPlatformId,
+    groupId: record.groupId,
+    seriesId: record.seriesId,
+    agentSessionId: record.agentSessionId,
     mediaUrls: record.mediaUrls,
+    mediaAltTexts: normalizeMediaAltTexts(record.mediaAltTexts),
+    threadParts: normalizeThreadParts(record.threadParts),
+    platformOptions: normalizePlatformOptions(record.platform, record.platformOptions),
     scheduledFor: record.scheduledFor,
     publishedAt: record.publishedAt,
     status: record.status as Post['status'],
+    approvedAt: record.approvedAt,
     latePostId: record.latePostId,
     platformPostUrl: record.platformPostUrl,
     failureReason: record.failureReason,
@@ -83,14 +148,17 @@ function mapPrismaPost(record: {
  *
  * Logique de statut :
  * - Si scheduledFor est défini → status = 'SCHEDULED'
- * - Si status explicitement fourni → utiliser ce statut
- * - Sinon → status = 'DRAFT'
+ * - Si status explicitement fourni (DRAFT ou SCHEDULED) → utiliser ce statut
+ * - Sinon → 'DRAFT' à la création ; à la mise à jour, statut actuel conservé
+ *   (un post FAILED redevient DRAFT)
+ * - Un post PENDING_REVIEW reste en relecture : seules les actions de relecture
+ *   (post-review.action.ts, updatePostStatus) changent son statut
  *
  * Si rawData contient un champ "id", c'est une mise à jour (PATCH).
  * Sinon c'est une création (POST).
  *
  * @param rawData - Données brutes du formulaire (non validées)
- * @returns { success: true, post } si OK, { success: false, error } si KO
+ * @returns { success: true, post, platformWarnings? } si OK, { success: false, error, violations? } si KO
  *
  * @example
  *   // Création d'un brouillon
@@ -106,6 +174,10 @@ export async function savePost(rawData: unknown): Promise<SavePostResult> {
     return { success: false, error: 'Non authentifié' }
   }
 
+  const workspace = await getWorkspaceContext(session.user.id)
+  const roleError = workspaceRoleError(workspace.role, 'EDITOR')
+  if (roleError) return { success: false, error: roleError }
+
   // ─── Détection : création ou mise à jour ──────────────────────────────────
   const isUpdate =
     typeof rawData === 'object' &&
@@ -113,11 +185,12 @@ export async function savePost(rawData: unknown): Promise<SavePostResult> {
     'id' in rawData &&
     typeof (rawData as Record<string, unknown>).id === 'string'
 
+  const actor = userActor(session.user)
   if (isUpdate) {
-    return updatePost(rawData, session.user.id)
+    return updatePost(rawData, session.user.id, workspace, actor)
   }
 
-  return createPost(rawData, session.user.id)
+  return createPost(rawData, session.user.id, workspace, actor)
 }
 
 // ─── Création ─────────────────────────────────────────────────────────────────
@@ -125,11 +198,18 @@ export async function savePost(rawData: unknown): Promise<SavePostResult> {
 /**
  * Crée un nouveau post en base de données.
  *
- * @param rawData - Données brutes (validées par PostCreateSchema)
- * @param userId - ID de l'utilisateur connecté
+ * @param rawData   - Données brutes (validées par PostCreateSchema)
+ * @param userId    - ID de l'utilisateur connecté (auteur)
+ * @param workspace - Workspace actif
+ * @param actor     - Auteur tracé dans le journal d'audit
  * @returns SavePostResult
  */
-async function createPost(rawData: unknown, userId: string): Promise<SavePostResult> {
+async function createPost(
+  rawData: unknown,
+  userId: string,
+  workspace: WorkspaceContext,
+  actor: AuditActor,
+): Promise<SavePostResult> {
   const parsed = PostCreateSchema.safeParse(rawData)
   if (!parsed.success) {
     return {
@@ -138,21 +218,72 @@ async function createPost(rawData: unknown, userId: string): Promise<SavePostRes
     }
   }
 
-  const { text, platform, mediaUrls, scheduledFor, status } = parsed.data
+  const {
+    text, platform, mediaUrls, mediaAltTexts, threadParts, platformOptions, scheduledFor, status,
+    connectedPlatformId, groupId,
+  } = parsed.data
 
   // Détermination du statut final
   const finalStatus = scheduledFor ? 'SCHEDULED' : (status ?? 'DRAFT')
 
+  // ─── Validation ────────────────────────────────────────────────────────────
+  // Brouillon : violations renvoyées en avertissement, bloquantes à la planification
+  const violations = validatePostContent(
+    { platform, text, mediaUrls: mediaUrls ?? [], threadParts, platformOptions },
+    finalStatus,
+  )
+  const blocking = blockingViolations(violations, finalStatus)
+  if (blocking.length > 0) {
+    return { success: false, error: platformViolationsError(blocking), violations: blocking }
+  }
+
+  // Un nouveau post n'est jamais approuvé : planification directe refusée si exigée
+  if (finalStatus === 'SCHEDULED') {
+    const reviewError = approvalError(null, await isApprovalRequired(workspace.id))
+    if (reviewError) return { success: false, error: reviewError }
+  }
+
+  // ─── Campagne (ownership) ──────────────────────────────────────────────────
+  if (groupId) {
+    const group = await prisma.postGroup.findFirst({ where: { id: groupId, workspaceId: workspace.id }, select: { id: true } })
+    if (!group) return { success: false, error: 'Campagne introuvable' }
+  }
+
+  // ─── Compte de publication ─────────────────────────────────────────────────
+  // Un brouillon peut rester sans compte (choisi plus tard) ; une planification
+  // ou un choix explicite invalide est refusé.
+  const target = await resolvePostAccount(workspace.id, platform, connectedPlatformId)
+  if (!target.ok && (finalStatus === 'SCHEDULED' || connectedPlatformId)) {
+    return { success: false, error: target.error }
+  }
+
   try {
-    const post = await prisma.post.create({
-      data: {
-        userId,
-        text,
-        platform,
-        mediaUrls: mediaUrls ?? [],
-        scheduledFor: scheduledFor ?? null,
-        status: finalStatus,
-      },
+    const post = await prisma.$transaction(async (tx: typeof prisma) => {
+      const created = await tx.post.create({
+        data: {
+          userId,
+          workspaceId: workspace.id,
+          text,
+          platform,
+          connectedPlatformId: target.ok ? target.connectedPlatformId : null,
+          groupId: groupId ?? null,
+          mediaUrls: mediaUrls ?? [],
+          mediaAltTexts: normalizeMediaAltTexts(mediaAltTexts, mediaUrls ?? []),
+          threadParts: normalizeThreadParts(threadParts),
+          platformOptions: normalizePlatformOptions(platform, platformOptions),
+          scheduledFor: scheduledFor ?? null,
+          status: finalStatus,
+        },
+      })
+      await recordAuditEvents(tx, [{
+        workspaceId: workspace.id,
+        actor,
+        entityType: 'POST',
+        entityId: created.id,
+        action: 'CREATED',
+        after: postAuditSnapshot(created),
+      }])
+      return created
     })
 
     // Invalide le cache de la liste des posts
@@ -160,7 +291,11 @@ async function createPost(rawData: unknown, userId: string): Promise<SavePostRes
     revalidatePath('/calendar')
     revalidatePath('/')
 
-    return { success: true, post: mapPrismaPost(post) }
+    return {
+      success: true,
+      post: mapPrismaPost(post),
+      ...(violations.length > 0 && { platformWarnings: violations }),
+    }
   } catch (error) {
     console.error('[savePost] Erreur création post :', error)
     return { success: false, error: 'Erreur lors de la sauvegarde' }
@@ -171,13 +306,22 @@ async function createPost(rawData: unknown, userId: string): Promise<SavePostRes
 
 /**
  * Met à jour un post existant en base de données.
- * Vérifie que le post appartient bien à l'utilisateur connecté (ownership check).
+ * Vérifie que le post appartient bien au workspace actif (ownership check).
  *
- * @param rawData - Données brutes avec `id` (validées par PostUpdateSchema)
- * @param userId - ID de l'utilisateur connecté
+ * @param rawData   - Données brutes avec `id` (validées par PostUpdateSchema)
+ * @param userId    - ID de l'utilisateur connecté
+ * @param workspace - Workspace actif
+ * @param actor     - Auteur tracé dans le journal d'audit
+ * @param revision  - Origine de la révision de contenu (édition manuelle par défaut)
  * @returns SavePostResult
  */
-async function updatePost(rawData: unknown, userId: string): Promise<SavePostResult> {
+async function updatePost(
+  rawData: unknown,
+  userId: string,
+  workspace: WorkspaceContext,
+  actor: AuditActor,
+  revision: RevisionContext = { source: 'MANUAL' },
+): Promise<SavePostResult> {
   const parsed = PostUpdateSchema.safeParse(rawData)
   if (!parsed.success) {
     return {
@@ -186,19 +330,31 @@ async function updatePost(rawData: unknown, userId: string): Promise<SavePostRes
     }
   }
 
-  const { id, text, platform, mediaUrls, scheduledFor, status } = parsed.data
+  const {
+    id, text, platform, mediaUrls, mediaAltTexts, threadParts, platformOptions, scheduledFor, status,
+    connectedPlatformId,
+  } = parsed.data
 
   // ─── Ownership check ────────────────────────────────────────────────────────
   const existingPost = await prisma.post.findUnique({
     where: { id },
-    select: { userId: true, status: true },
+    select: {
+      ...POST_AUDIT_SELECT,
+      mediaAltTexts: true,
+      threadParts: true,
+      platformOptions: true,
+      workspaceId: true,
+      isQueued: true,
+      approvedAt: true,
+      updatedAt: true,
+    },
   })
 
   if (!existingPost) {
     return { success: false, error: 'Post introuvable' }
   }
 
-  if (existingPost.userId !== userId) {
+  if (existingPost.workspaceId !== workspace.id) {
     return { success: false, error: 'Post introuvable' }
   }
 
@@ -209,34 +365,188 @@ async function updatePost(rawData: unknown, userId: string): Promise<SavePostRes
     return { success: false, error: 'Ce post ne peut plus être modifié' }
   }
 
-  // Détermination du statut final
-  const finalStatus = scheduledFor ? 'SCHEDULED' : (status ?? existingPost.status)
+  // Détermination du statut final. Sans statut demandé : statut conservé, un post
+  // FAILED modifié redevient DRAFT. Un post en relecture y reste (SCHEDULED est
+  // refusé plus bas par approvalError).
+  const requestedStatus = scheduledFor
+    ? 'SCHEDULED'
+    : (status ?? (existingPost.status === 'FAILED' ? 'DRAFT' : existingPost.status))
+  const finalStatus = existingPost.status === 'PENDING_REVIEW' && requestedStatus !== 'SCHEDULED'
+    ? existingPost.status
+    : requestedStatus
+
+  // ─── Validation ────────────────────────────────────────────────────────────
+  // Règles de la plateforme sur le contenu effectif (champs omis = valeurs en base)
+  const effectivePlatform = platform ?? existingPost.platform
+  const effectiveContent = {
+    text: text ?? existingPost.text,
+    mediaUrls: mediaUrls ?? existingPost.mediaUrls,
+    threadParts: threadParts ?? normalizeThreadParts(existingPost.threadParts),
+  }
+  // Options omises : celles en base, limitées à la plateforme effective
+  const effectivePlatformOptions = platformOptions
+    ?? normalizePlatformOptions(effectivePlatform, existingPost.platformOptions)
+  // Brouillon : violations renvoyées en avertissement, bloquantes à la planification
+  const violations = validatePostContent(
+    { platform: effectivePlatform, ...effectiveContent, platformOptions: effectivePlatformOptions },
+    finalStatus,
+  )
+  const blocking = blockingViolations(violations, finalStatus)
+  if (blocking.length > 0) {
+    return { success: false, error: platformViolationsError(blocking), violations: blocking }
+  }
+
+  // Contenu modifié → approbation retirée ; planification refusée si elle est exigée
+  const approvedAt = hasContentChanged(existingPost, effectiveContent)
+    ? null
+    : existingPost.approvedAt
+  if (finalStatus === 'SCHEDULED') {
+    const reviewError = approvalError(
+      { status: existingPost.status, approvedAt },
+      await isApprovalRequired(workspace.id),
+    )
+    if (reviewError) return { success: false, error: reviewError }
+  }
+
+  // ─── Compte de publication ─────────────────────────────────────────────────
+  // Sans choix explicite, on conserve le compte actuel — sauf changement de
+  // plateforme, qui invalide l'ancien compte.
+  const requestedAccountId = connectedPlatformId !== undefined
+    ? connectedPlatformId
+    : effectivePlatform === existingPost.platform ? existingPost.connectedPlatformId : null
+  const target = await resolvePostAccount(workspace.id, effectivePlatform, requestedAccountId)
+  if (!target.ok && (finalStatus === 'SCHEDULED' || connectedPlatformId)) {
+    return { success: false, error: target.error }
+  }
 
   try {
-    const post = await prisma.post.update({
-      where: { id },
-      data: {
-        ...(text !== undefined && { text }),
-        ...(platform !== undefined && { platform }),
-        ...(mediaUrls !== undefined && { mediaUrls }),
-        ...(scheduledFor !== undefined && { scheduledFor }),
-        status: finalStatus,
-        // Effacer l'erreur précédente si le post était en échec (retry propre)
-        ...(existingPost.status === 'FAILED' && { failureReason: null }),
-      },
+    const post = await prisma.$transaction(async (tx: typeof prisma) => {
+      const updated = await tx.post.update({
+        where: { id },
+        data: {
+          ...(text !== undefined && { text }),
+          ...(platform !== undefined && { platform }),
+          connectedPlatformId: target.ok ? target.connectedPlatformId : null,
+          ...(mediaUrls !== undefined && { mediaUrls }),
+          // Textes alternatifs limités aux médias restants
+          ...((mediaUrls !== undefined || mediaAltTexts !== undefined) && {
+            mediaAltTexts: normalizeMediaAltTexts(mediaAltTexts ?? existingPost.mediaAltTexts, effectiveContent.mediaUrls),
+          }),
+          ...(threadParts !== undefined && { threadParts: normalizeThreadParts(threadParts) }),
+          ...((platformOptions !== undefined || platform !== undefined) && {
+            platformOptions: normalizePlatformOptions(effectivePlatform, effectivePlatformOptions),
+          }),
+          // Date choisie à la main : le post quitte la file d'attente
+          ...(scheduledFor !== undefined && { scheduledFor, isQueued: false }),
+          status: finalStatus,
+          approvedAt,
+          // Effacer l'erreur précédente si le post était en échec (retry propre)
+          ...(existingPost.status === 'FAILED' && { failureReason: null }),
+        },
+      })
+
+      // Historique : seul un changement de statut est tracé (pas chaque édition)
+      if (finalStatus !== existingPost.status) {
+        await postEventCreate(tx, {
+          postId: id,
+          actorId: userId,
+          action: 'STATUS_CHANGED',
+          fromStatus: existingPost.status,
+          toStatus: finalStatus,
+        })
+      }
+      await recordPostRevision(tx, {
+        postId: id,
+        authorId: userId,
+        source: revision.source,
+        restoredFromId: revision.restoredFromId,
+        before: existingPost,
+        after: updated,
+      })
+      await recordAuditEvents(tx, [{
+        workspaceId: workspace.id,
+        actor,
+        entityType: 'POST',
+        entityId: id,
+        action: 'UPDATED',
+        before: postAuditSnapshot(existingPost),
+        after: postAuditSnapshot(updated),
+      }])
+      return updated
     })
 
+    // Créneau de file libéré : les posts suivants avancent
+    if (existingPost.isQueued && scheduledFor !== undefined) {
+      await repackQueue(workspace.id, existingPost.platform)
+    }
+
     revalidatePath('/compose')
     revalidatePath('/calendar')
     revalidatePath('/')
 
-    return { success: true, post: mapPrismaPost(post) }
+    return {
+      success: true,
+      post: mapPrismaPost(post),
+      ...(violations.length > 0 && { platformWarnings: violations }),
+    }
   } catch (error) {
     console.error('[savePost] Erreur mise à jour post :', error)
     return { success: false, error: 'Erreur lors de la sauvegarde' }
   }
 }
 
+// ─── restorePostRevision ──────────────────────────────────────────────────────
+
+/**
+ * Restaure le texte et les médias d'une révision précédente du post.
+ * Passe par la même mise à jour que savePost (statut, approbation, compte de
+ * publication) et crée une nouvelle révision RESTORE.
+ *
+ * @param rawData - { postId, revisionId } (validé par PostRevisionRestoreSchema)
+ * @returns { success: true, post } si OK, { success: false, error, violations? } si KO
+ *
+ * @example
+ *   const result = await restorePostRevision({ postId: 'post_123', revisionId: 'rev_456' })
+ *   if (result.success) onPostChange(result.post)
+ */
+export async function restorePostRevision(rawData: unknown): Promise<SavePostResult> {
+  const session = await auth.api.getSession({ headers: await headers() })
+  if (!session) {
+    return { success: false, error: 'Non authentifié' }
+  }
+
+  const workspace = await getWorkspaceContext(session.user.id)
+  const roleError = workspaceRoleError(workspace.role, 'EDITOR')
+  if (roleError) return { success: false, error: roleError }
+
+  const parsed = PostRevisionRestoreSchema.safeParse(rawData)
+  if (!parsed.success) {
+    return { success: false, error: parsed.error.issues[0]?.message ?? 'Données invalides' }
+  }
+  const { postId, revisionId } = parsed.data
+
+  // La révision doit appartenir au post (l'ownership du post est vérifiée par updatePost)
+  const revision: {
+    text: string
+    mediaUrls: string[]
+  } | null = await prisma.postRevision.findFirst({
+    where: { id: revisionId, postId },
+    select: { text: true, mediaUrls: true },
+  })
+  if (!revision) {
+    return { success: false, error: 'Révision introuvable' }
+  }
+
+  // Sans statut : le post conserve le sien
+  return updatePost(
+    { id: postId, text: revision.text, mediaUrls: revision.mediaUrls },
+    session.user.id,
+    workspace,
+    userActor(session.user),
+    { source: 'RESTORE', restoredFromId: revisionId },
+  )
+}
+
 // ─── deletePost ───────────────────────────────────────────────────────────────
 
 /**
@@ -258,12 +568,16 @@ export async function deletePost(postId: string): Promise<{ success: boolean; er
     return { success: false, error: 'Non authentifié' }
   }
 
+  const workspace = await getWorkspaceContext(session.user.id)
+  const roleError = workspaceRoleError(workspace.role, 'EDITOR')
+  if (roleError) return { success: false, error: roleError }
+
   const post = await prisma.post.findUnique({
     where: { id: postId },
-    select: { userId: true, status: true },
+    select: { ...POST_AUDIT_SELECT, workspaceId: true, isQueued: true },
   })
 
-  if (!post || post.userId !== session.user.id) {
+  if (!post || post.workspaceId !== workspace.id) {
     return { success: false, error: 'Post introuvable' }
   }
 
@@ -274,7 +588,22 @@ export async function deletePost(postId: string): Promise<{ success: boolean; er
   }
 
   try {
-    await prisma.post.delete({ where: { id: postId } })
+    await prisma.$transaction(async (tx: typeof prisma) => {
+      await tx.post.delete({ where: { id: postId } })
+      await recordAuditEvents(tx, [{
+        workspaceId: workspace.id,
+        actor: userActor(session.user),
+        entityType: 'POST',
+        entityId: postId,
+        action: 'DELETED',
+        before: postAuditSnapshot(post),
+      }])
+    })
+
+    // Post en file : les posts suivants avancent dans le créneau libéré
+    if (post.status === 'SCHEDULED' && post.isQueued) {
+      await repackQueue(workspace.id, post.platform)
+    }
 
     revalidatePath('/compose')
     revalidatePath('/calendar')
@@ -7,13 +7,26 @@
  *
  *   Modèle simplifié : 1 post = 1 plateforme (platform string, pas platforms[]).
  *
+ *   Deux modes :
+ *   - date choisie : scheduledFor fournie par le DateTimePicker
+ *   - file (`queue: true`) : prochain créneau libre de la plateforme (PostingSlot),
+ *     résolu dans la même transaction que l'écriture du post (lib/post-queue.ts)
+ *
  *   Workflow complet :
- *   1. Vérification de session
- *   2. Validation Zod (scheduledFor requis et dans le futur)
- *   3. Vérification de la plateforme connectée (ownership)
- *   4. Création ou mise à jour du post en DB (status: SCHEDULED)
- *   5. Envoi de l'event Inngest → publication différée
- *   6. Revalidation du cache /calendar et /compose
+ *   1. Vérification de session + rôle EDITOR dans le workspace actif
+ *   2. Validation Zod (scheduledFor requise et dans le futur, sauf en mode file)
+ *      puis règles de la plateforme (longueur, médias, média obligatoire, thread)
+ *   3. Validation avant planification : si l'utilisateur l'exige, seul un post
+ *      approuvé (contenu inchangé depuis l'approbation) peut être planifié
+ *   4. Résolution du compte connecté ciblé (workspace + plateforme)
+ *   5. Création ou mise à jour du post en DB (status: SCHEDULED) + trace de la transition
+ *      et évènement du journal d'audit (même transaction)
+ *   6. Récurrence éventuelle (PostSeries) : les occurrences suivantes sont
+ *      matérialisées par Inngest après chaque publication réussie
+ *   7. Envoi de l'event Inngest → publication différée ('post/cancel' d'abord si le
+ *      post était déjà planifié)
+ *   8. Re-tassement de la file si le post y occupait un créneau
+ *   9. Revalidation du cache /calendar et /compose
  *
  * @example
  *   // Depuis PostComposeCard.tsx (action "Planifier") :
@@ -25,6 +38,10 @@
  *   if (result.success) {
  *     // result.post contient le post planifié
  *   }
+ *
+ *   // Depuis le compositeur (bouton "Ajouter à la file") :
+ *   const result = await schedulePost({ text: 'Mon post', platform: 'instagram', queue: true })
+ *   // result.post.scheduledFor = prochain créneau libre Instagram
  */
 
 'use server'
@@ -32,16 +49,57 @@
 import { revalidatePath } from 'next/cache'
 import { headers } from 'next/headers'
 
+import { POST_AUDIT_SELECT, postAuditSnapshot, recordAuditEvents, userActor } from '@/lib/audit'
 import { auth } from '@/lib/auth'
 import { inngest } from '@/lib/inngest/client'
+import { resolveMediaAltTexts } from '@/lib/media-alt-texts'
+import { resolvePostAccount } from '@/lib/post-account'
+import { repackQueue, reserveQueueSlot } from '@/lib/post-queue'
+import { isApprovalRequired, postEventCreate } from '@/lib/post-review'
+import { applyRecurrence } from '@/lib/post-series'
 import { prisma } from '@/lib/prisma'
+import { getWorkspaceContext } from '@/lib/workspace'
+import type { AuditSnapshot } from '@/modules/audit/utils/audit-diff'
+import { normalizePlatformOptions } from '@/modules/platforms/config/platform-options'
 import { PostCreateSchema } from '@/modules/posts/schemas/post.schema'
-import type { SavePostResult } from '@/modules/posts/types'
+import type { Post, SavePostResult } from '@/modules/posts/types'
+import { getAccessibilityWarnings, normalizeMediaAltTexts } from '@/modules/posts/utils/accessibility'
+import { approvalError, hasContentChanged } from '@/modules/posts/utils/post-review'
+import { platformViolationsError, validatePostContent } from '@/modules/posts/utils/post-validation'
+import { normalizeThreadParts } from '@/modules/posts/utils/thread'
+import { workspaceRoleError } from '@/modules/workspaces/utils/roles'
+
+// ─── Helpers ─────────────────────────────────────────────────────────────────
+
+/** Enregistrement Prisma brut d'un post (forme retournée par create / update) */
+interface PrismaPostRecord {
+  id: string
+  userId: string
+  text: string
+  platform: string
+  connectedPlatformId: string | null
+  groupId: string | null
+  seriesId: string | null
+  agentSessionId: string | null
+  mediaUrls: string[]
+  mediaAltTexts: unknown
+  threadParts: unknown
+  platformOptions: unknown
+  scheduledFor: Date | null
+  publishedAt: Date | null
+  status: string
+  approvedAt: Date | null
+  latePostId: string | null
+  platformPostUrl: string | null
+  failureReason: string | null
+  createdAt: Date
+  updatedAt: Date
+}
 
 /**
  * Planifie un post : sauvegarde en DB + event Inngest pour publication différée.
  *
- * @param rawData - Données du post (validées par PostCreateSchema, scheduledFor requis)
+ * @param rawData - Données du post (validées par PostCreateSchema, scheduledFor requise sauf `queue: true`)
  * @param existingPostId - ID d'un post existant à mettre à jour (optionnel)
  * @returns SavePostResult avec le post planifié ou un message d'erreur
  *
@@ -62,6 +120,12 @@ export async function schedulePost(
     return { success: false, error: 'Non authentifié' }
   }
 
+  const workspace = await getWorkspaceContext(session.user.id)
+  const roleError = workspaceRoleError(workspace.role, 'EDITOR')
+  if (roleError) {
+    return { success: false, error: roleError }
+  }
+
   // ─── Validation Zod ───────────────────────────────────────────────────────
   const parsed = PostCreateSchema.safeParse(rawData)
   if (!parsed.success) {
@@ -71,38 +135,52 @@ export async function schedulePost(
     }
   }
 
-  // scheduledFor est requis pour planifier (sinon utiliser savePost pour DRAFT)
-  if (!parsed.data.scheduledFor) {
+  const {
+    text, platform, mediaUrls, mediaAltTexts, threadParts, platformOptions, scheduledFor, connectedPlatformId,
+    recurrence, queue,
+  } = parsed.data
+
+  // scheduledFor est requis pour planifier (sinon utiliser savePost pour DRAFT),
+  // sauf en mode file où la date est celle du prochain créneau libre
+  if (!queue && !scheduledFor) {
     return { success: false, error: 'La date de publication est requise pour planifier' }
   }
 
-  const { text, platform, mediaUrls, scheduledFor } = parsed.data
-
-  // ─── Vérification de la plateforme connectée ──────────────────────────────
-  // Contrôler que l'utilisateur a bien connecté cette plateforme
-  const connectedCount = await prisma.connectedPlatform.count({
-    where: {
-      userId: session.user.id,
-      platform,
-      isActive: true,
-    },
-  })
-
-  if (connectedCount === 0) {
-    return {
-      success: false,
-      error: `La plateforme ${platform} n'est pas connectée`,
-    }
+  // La règle de récurrence est construite depuis la date de première publication
+  if (queue && recurrence) {
+    return { success: false, error: 'Un post récurrent ne peut pas être ajouté à la file' }
   }
 
   // ─── Ownership check pour la mise à jour ─────────────────────────────────
+  // Compte déjà associé au post existant (réutilisé si aucun choix explicite)
+  let existingAccountId: string | null = null
+  // Plateforme dont la file doit être re-tassée (le post y libère un créneau)
+  let queueToRepack: string | null = null
+  // Statut avant planification (null = nouveau post) et approbation conservée
+  let previousStatus: Post['status'] | null = null
+  let approvedAt: Date | null = null
+  // État avant planification (journal d'audit)
+  let auditBefore: AuditSnapshot | null = null
+  // Textes alternatifs, suite du thread et options déjà saisis (conservés si la requête n'en fournit pas)
+  let existingAltTexts: unknown = null
+  let existingThreadParts: unknown = null
+  let existingPlatformOptions: unknown = null
+
   if (existingPostId) {
     const existing = await prisma.post.findUnique({
       where: { id: existingPostId },
-      select: { userId: true, status: true },
+      select: {
+        ...POST_AUDIT_SELECT,
+        mediaAltTexts: true,
+        threadParts: true,
+        platformOptions: true,
+        workspaceId: true,
+        isQueued: true,
+        approvedAt: true,
+      },
     })
 
-    if (!existing || existing.userId !== session.user.id) {
+    if (!existing || existing.workspaceId !== workspace.id) {
       return { success: false, error: 'Post introuvable' }
     }
 
@@ -111,35 +189,139 @@ export async function schedulePost(
     if (existing.status === 'PUBLISHED') {
       return { success: false, error: 'Ce post ne peut plus être modifié' }
     }
+
+    if (existing.platform === platform) existingAccountId = existing.connectedPlatformId
+    if (existing.status === 'SCHEDULED' && existing.isQueued) queueToRepack = existing.platform
+    previousStatus = existing.status as Post['status']
+    auditBefore = postAuditSnapshot(existing)
+    existingAltTexts = existing.mediaAltTexts
+    existingThreadParts = existing.threadParts
+    existingPlatformOptions = existing.platformOptions
+    // Contenu modifié depuis l'approbation : elle ne vaut plus
+    approvedAt = hasContentChanged(existing, { text, mediaUrls: mediaUrls ?? [], threadParts: threadParts ?? existing.threadParts })
+      ? null
+      : existing.approvedAt
+  }
+
+  // ─── Règles de la plateforme ──────────────────────────────────────────────
+  // Contenu effectif : la suite du thread et les options omises restent celles du post existant
+  const effectiveThreadParts = threadParts ?? normalizeThreadParts(existingThreadParts)
+  const effectivePlatformOptions = platformOptions ?? normalizePlatformOptions(platform, existingPlatformOptions)
+  const violations = validatePostContent(
+    { platform, text, mediaUrls: mediaUrls ?? [], threadParts: effectiveThreadParts, platformOptions: effectivePlatformOptions },
+    'SCHEDULED',
+  )
+  if (violations.length > 0) {
+    return { success: false, error: platformViolationsError(violations), violations }
+  }
+
+  // ─── Validation avant planification ──────────────────────────────────────
+  const reviewError = approvalError(
+    previousStatus ? { status: previousStatus, approvedAt } : null,
+    await isApprovalRequired(workspace.id),
+  )
+  if (reviewError) {
+    return { success: false, error: reviewError }
+  }
+
+  // ─── Vérification du compte de publication ────────────────────────────────
+  // Le post doit cibler un compte connecté précis du workspace : choix explicite,
+  // ou compte unique de la plateforme. Plusieurs comptes sans choix → refus.
+  const target = await resolvePostAccount(
+    workspace.id,
+    platform,
+    connectedPlatformId ?? existingAccountId,
+  )
+  if (!target.ok) {
+    return { success: false, error: target.error }
   }
 
   // ─── Sauvegarde en DB ─────────────────────────────────────────────────────
   try {
-    const post = existingPostId
-      ? await prisma.post.update({
-          where: { id: existingPostId },
-          data: {
-            text,
-            platform,
-            mediaUrls: mediaUrls ?? [],
-            scheduledFor,
-            status: 'SCHEDULED',
-            // Effacer l'erreur précédente si le post était en échec (retry propre)
-            failureReason: null,
-          },
-        })
-      : await prisma.post.create({
-          data: {
-            userId: session.user.id,
-            text,
-            platform,
-            mediaUrls: mediaUrls ?? [],
-            scheduledFor,
-            status: 'SCHEDULED',
-          },
+    const userId = session.user.id
+    const writePost = async (
+      db: typeof prisma,
+      publishAt: Date,
+      isQueued: boolean,
+    ): Promise<PrismaPostRecord> => {
+      const data = {
+        text,
+        platform,
+        connectedPlatformId: target.connectedPlatformId,
+        mediaUrls: mediaUrls ?? [],
+        mediaAltTexts: normalizeMediaAltTexts(mediaAltTexts ?? existingAltTexts, mediaUrls ?? []),
+        threadParts: normalizeThreadParts(effectiveThreadParts),
+        platformOptions: normalizePlatformOptions(platform, effectivePlatformOptions),
+        scheduledFor: publishAt,
+        status: 'SCHEDULED',
+        isQueued,
+        approvedAt,
+      }
+      const written: PrismaPostRecord = existingPostId
+        // Effacer l'erreur précédente si le post était en échec (retry propre)
+        ? await db.post.update({ where: { id: existingPostId }, data: { ...data, failureReason: null } })
+        : await db.post.create({ data: { ...data, userId, workspaceId: workspace.id } })
+
+      // Trace de la transition (une simple replanification ne change pas le statut)
+      if (previousStatus !== 'SCHEDULED') {
+        await postEventCreate(db, {
+          postId: written.id,
+          actorId: userId,
+          action: 'STATUS_CHANGED',
+          fromStatus: previousStatus,
+          toStatus: 'SCHEDULED',
         })
+      }
+      await recordAuditEvents(db, [{
+        workspaceId: workspace.id,
+        actor: userActor(session.user),
+        entityType: 'POST',
+        entityId: written.id,
+        action: auditBefore ? 'UPDATED' : 'CREATED',
+        before: auditBefore,
+        after: postAuditSnapshot(written),
+      }])
+      return written
+    }
+
+    let post: PrismaPostRecord
+    if (queue) {
+      // Créneau résolu et post écrit sous le même verrou : pas de double attribution
+      const queued: PrismaPostRecord | null = await prisma.$transaction(async (tx: typeof prisma) => {
+        const slot = await reserveQueueSlot(tx, workspace.id, platform, existingPostId)
+        return slot ? writePost(tx, slot, true) : null
+      })
+      if (!queued) {
+        return {
+          success: false,
+          error: 'Aucun créneau libre pour cette plateforme — définissez vos créneaux dans les paramètres',
+        }
+      }
+      post = queued
+    } else {
+      // scheduledFor garantie par la validation ci-dessus
+      post = await prisma.$transaction((tx: typeof prisma) => writePost(tx, scheduledFor!, false))
+    }
+
+    const publishAt: Date = post.scheduledFor as Date
+
+    // ─── Récurrence ──────────────────────────────────────────────────────────
+    // undefined = récurrence inchangée ; null = retirée ; règle = créée ou remplacée
+    const seriesId: string | null = recurrence !== undefined
+      ? await applyRecurrence(workspace.id, userId, [post.id], post.seriesId, recurrence)
+      : post.seriesId
 
     // ─── Envoi des events Inngest ────────────────────────────────────────────
+    // Post déjà planifié (nouvelle date ou nouveau créneau) : annuler d'abord ses
+    // runs en sommeil, sinon ils publieraient aussi à l'ancienne date.
+    if (previousStatus === 'SCHEDULED') {
+      try {
+        await inngest.send({ name: 'post/cancel', data: { postId: post.id } })
+      } catch (inngestError) {
+        console.warn('[schedulePost] Inngest send échoué (non-bloquant) :', inngestError)
+      }
+    }
+
     // Envoi en batch (un seul appel réseau) de deux events complémentaires :
     // 1. "post/schedule" : publie le post à scheduledFor via step.sleepUntil()
     // 2. "post/watchdog" : vérifie 5 min après scheduledFor que la publication
@@ -150,34 +332,57 @@ export async function schedulePost(
         name: 'post/schedule',
         data: {
           postId: post.id,
-          scheduledFor: scheduledFor.toISOString(),
+          scheduledFor: publishAt.toISOString(),
         },
       },
       {
         name: 'post/watchdog',
         data: {
           postId: post.id,
-          scheduledFor: scheduledFor.toISOString(),
+          scheduledFor: publishAt.toISOString(),
         },
       },
     ])
 
+    // ─── File d'attente ──────────────────────────────────────────────────────
+    // Le post quittait un créneau de la file (replanifié à la main, autre plateforme
+    // ou nouveau créneau) : les posts suivants avancent d'un cran. Après l'envoi des
+    // events : si le re-tassement déplace ce post, ses runs sont bien remplacés.
+    if (queueToRepack) await repackQueue(workspace.id, queueToRepack)
+
     // Invalide le cache des pages affectées
     revalidatePath('/compose')
     revalidatePath('/calendar')
     revalidatePath('/')
 
+    // ─── Accessibilité ───────────────────────────────────────────────────────
+    // Avertissements non bloquants (texte alternatif manquant, hashtags, emojis)
+    const accessibilityWarnings = getAccessibilityWarnings(
+      post.text,
+      post.mediaUrls,
+      await resolveMediaAltTexts(workspace.id, post.mediaUrls, post.mediaAltTexts),
+    )
+
     return {
       success: true,
+      accessibilityWarnings,
       post: {
         id: post.id,
         userId: post.userId,
         text: post.text,
         platform: post.platform,
+        connectedPlatformId: post.connectedPlatformId,
+        groupId: post.groupId,
+        seriesId,
+        agentSessionId: post.agentSessionId,
         mediaUrls: post.mediaUrls,
+        mediaAltTexts: normalizeMediaAltTexts(post.mediaAltTexts),
+        threadParts: normalizeThreadParts(post.threadParts),
+        platformOptions: normalizePlatformOptions(post.platform, post.platformOptions),
         scheduledFor: post.scheduledFor,
         publishedAt: post.publishedAt,
         status: post.status as 'SCHEDULED',
+        approvedAt: post.approvedAt,
         latePostId: post.latePostId,
         // platformPostUrl est null lors de la planification (rempli par Inngest après publication)
         platformPostUrl: post.platformPostUrl,
@@ -4,14 +4,26 @@
  * @description Server Action pour changer le statut d'un post via la vue Kanban (drag & drop).
  *
  *   Gère les transitions de statut autorisées :
- *   - DRAFT → SCHEDULED  : vérifie scheduledFor (présente + future) + envoie event Inngest 'post/schedule'
- *   - SCHEDULED → DRAFT  : status = 'DRAFT', scheduledFor = null + annulation Inngest 'post/cancel'
- *   - FAILED → DRAFT     : status = 'DRAFT', failureReason = null (retry manuel)
- *   - * → PUBLISHED      : ❌ interdit (publication réservée à Inngest)
- *   - PUBLISHED → *      : ❌ interdit (colonne lecture seule)
+ *   - DRAFT → SCHEDULED       : vérifie scheduledFor (présente + future) et l'approbation si la
+ *                               validation est activée + envoie event Inngest 'post/schedule'
+ *   - DRAFT → PENDING_REVIEW  : soumission à validation (approbation précédente retirée)
+ *   - PENDING_REVIEW → DRAFT  : retrait de la demande de validation
+ *                               (approuver / rejeter : voir post-review.action.ts)
+ *   - SCHEDULED → DRAFT       : status = 'DRAFT', scheduledFor = null + annulation Inngest 'post/cancel'
+ *                               (+ re-tassement de la file si le post occupait un créneau)
+ *   - FAILED → DRAFT          : status = 'DRAFT', failureReason = null (retry manuel)
+ *   - * → PUBLISHED           : ❌ interdit (publication réservée à Inngest)
+ *   - PUBLISHED → *           : ❌ interdit (colonne lecture seule)
+ *
+ *   Chaque transition est tracée dans post_status_events (auteur + horodatage).
+ *   Vers SCHEDULED ou PENDING_REVIEW, le contenu doit respecter les règles de sa
+ *   plateforme (modules/posts/utils/post-validation.ts) : un brouillon non conforme
+ *   reste dans sa colonne, avec le détail des violations.
  *
  *   Pour DRAFT → SCHEDULED, valide que scheduledFor est non-null et dans le futur,
  *   puis envoie l'event Inngest 'post/schedule' pour programmer la publication.
+ *   Le Kanban peut fournir la date choisie dans son prompt (`scheduledFor`) quand
+ *   le brouillon n'en a pas encore : elle remplace alors la date en base.
  *   Pour SCHEDULED → DRAFT, envoie l'event Inngest 'post/cancel' pour annuler
  *   le run zombie en état sleeping (cf. cancelOn dans publish-scheduled-post.ts).
  *
@@ -27,10 +39,21 @@
 import { revalidatePath } from 'next/cache'
 import { headers } from 'next/headers'
 
+import { POST_AUDIT_SELECT, auditEventCreate, postAuditSnapshot, userActor } from '@/lib/audit'
 import { auth } from '@/lib/auth'
 import { inngest } from '@/lib/inngest/client'
+import { resolvePostAccount } from '@/lib/post-account'
+import { repackQueue } from '@/lib/post-queue'
+import { isApprovalRequired, postEventCreate } from '@/lib/post-review'
 import { prisma } from '@/lib/prisma'
+import { getWorkspaceContext } from '@/lib/workspace'
+import { normalizePlatformOptions } from '@/modules/platforms/config/platform-options'
 import type { Post, SavePostResult } from '@/modules/posts/types'
+import { normalizeMediaAltTexts } from '@/modules/posts/utils/accessibility'
+import { approvalError } from '@/modules/posts/utils/post-review'
+import { platformViolationsError, validatePostContent } from '@/modules/posts/utils/post-validation'
+import { normalizeThreadParts } from '@/modules/posts/utils/thread'
+import { workspaceRoleError } from '@/modules/workspaces/utils/roles'
 
 // ─── Helper mapper Prisma → Post ──────────────────────────────────────────────
 
@@ -45,10 +68,18 @@ function mapPrismaPost(record: {
   userId: string
   text: string
   platform: string
+  connectedPlatformId: string | null
+  groupId: string | null
+  seriesId: string | null
+  agentSessionId: string | null
   mediaUrls: string[]
+  mediaAltTexts: unknown
+  threadParts: unknown
+  platformOptions: unknown
   scheduledFor: Date | null
   publishedAt: Date | null
   status: string
+  approvedAt: Date | null
   latePostId: string | null
   platformPostUrl: string | null
   failureReason: string | null
@@ -60,10 +91,18 @@ function mapPrismaPost(record: {
     userId: record.userId,
     text: record.text,
     platform: record.platform,
+    connectedPlatformId: record.connectedPlatformId,
+    groupId: record.groupId,
+    seriesId: record.seriesId,
+    agentSessionId: record.agentSessionId,
     mediaUrls: record.mediaUrls,
+    mediaAltTexts: normalizeMediaAltTexts(record.mediaAltTexts),
+    threadParts: normalizeThreadParts(record.threadParts),
+    platformOptions: normalizePlatformOptions(record.platform, record.platformOptions),
     scheduledFor: record.scheduledFor,
     publishedAt: record.publishedAt,
     status: record.status as Post['status'],
+    approvedAt: record.approvedAt,
     latePostId: record.latePostId,
     platformPostUrl: record.platformPostUrl,
     failureReason: record.failureReason,
@@ -79,12 +118,14 @@ function mapPrismaPost(record: {
  * Clé = statut source, valeur = ensemble des statuts cibles autorisés.
  *
  * La colonne PUBLISHED est en lecture seule (entrée et sortie interdites).
+ * PENDING_REVIEW → SCHEDULED est impossible : un post en revue doit d'abord être approuvé.
  */
 const ALLOWED_TRANSITIONS: Record<Post['status'], Post['status'][]> = {
-  DRAFT:     ['SCHEDULED'],
-  SCHEDULED: ['DRAFT'],
-  FAILED:    ['DRAFT'],
-  PUBLISHED: [], // aucune transition autorisée depuis PUBLISHED
+  DRAFT:          ['SCHEDULED', 'PENDING_REVIEW'],
+  PENDING_REVIEW: ['DRAFT'], // retrait de la demande (approuver / rejeter : post-review.action.ts)
+  SCHEDULED:      ['DRAFT'],
+  FAILED:         ['DRAFT'],
+  PUBLISHED:      [], // aucune transition autorisée depuis PUBLISHED
 }
 
 // ─── Server Action ─────────────────────────────────────────────────────────────
@@ -98,9 +139,13 @@ const ALLOWED_TRANSITIONS: Record<Post['status'], Post['status'][]> = {
  * - Refuse les transitions vers PUBLISHED (réservé à Inngest)
  * - Refuse toute transition depuis PUBLISHED
  * - SCHEDULED → DRAFT : remet scheduledFor = null et annule l'event Inngest
+ * - DRAFT → SCHEDULED : refusé si la validation est activée et le post non approuvé
+ * - Hors retour en DRAFT : refusé si le contenu enfreint les règles de la plateforme
+ * - Trace la transition (auteur + horodatage) dans post_status_events et le journal d'audit
  *
  * @param postId - ID du post à mettre à jour
  * @param newStatus - Nouveau statut cible
+ * @param scheduledFor - Date de publication choisie dans le Kanban (DRAFT → SCHEDULED uniquement)
  * @returns SavePostResult — success + post mis à jour, ou error si interdit
  *
  * @example
@@ -113,6 +158,7 @@ const ALLOWED_TRANSITIONS: Record<Post['status'], Post['status'][]> = {
 export async function updatePostStatus(
   postId: string,
   newStatus: Post['status'],
+  scheduledFor?: Date,
 ): Promise<SavePostResult> {
   // ─── Authentification ───────────────────────────────────────────────────
   const session = await auth.api.getSession({ headers: await headers() })
@@ -120,6 +166,12 @@ export async function updatePostStatus(
     return { success: false, error: 'Non authentifié' }
   }
 
+  const workspace = await getWorkspaceContext(session.user.id)
+  const roleError = workspaceRoleError(workspace.role, 'EDITOR')
+  if (roleError) {
+    return { success: false, error: roleError }
+  }
+
   // ─── Vérifier que la cible n'est pas PUBLISHED (interdit depuis le Kanban) ──
   if (newStatus === 'PUBLISHED') {
     return {
@@ -131,7 +183,14 @@ export async function updatePostStatus(
   // ─── Récupérer le post existant ─────────────────────────────────────────
   const existingPost = await prisma.post.findUnique({
     where: { id: postId },
-    select: { userId: true, status: true, scheduledFor: true },
+    select: {
+      ...POST_AUDIT_SELECT,
+      threadParts: true,
+      platformOptions: true,
+      workspaceId: true,
+      isQueued: true,
+      approvedAt: true,
+    },
   })
 
   if (!existingPost) {
@@ -139,7 +198,7 @@ export async function updatePostStatus(
   }
 
   // ─── Vérification d'ownership ───────────────────────────────────────────
-  if (existingPost.userId !== session.user.id) {
+  if (existingPost.workspaceId !== workspace.id) {
     return { success: false, error: 'Post introuvable' }
   }
 
@@ -154,12 +213,31 @@ export async function updatePostStatus(
     }
   }
 
+  // ─── Règles de la plateforme ─────────────────────────────────────────────
+  // Un retour en brouillon reste toujours possible (le contenu sera corrigé ensuite)
+  if (newStatus !== 'DRAFT') {
+    const violations = validatePostContent(
+      {
+        ...existingPost,
+        threadParts: normalizeThreadParts(existingPost.threadParts),
+        platformOptions: normalizePlatformOptions(existingPost.platform, existingPost.platformOptions),
+      },
+      newStatus,
+    )
+    if (violations.length > 0) {
+      return { success: false, error: platformViolationsError(violations), violations }
+    }
+  }
+
   // ─── Validation spécifique DRAFT → SCHEDULED ─────────────────────────────
   // Double protection : le client valide déjà, mais on revalide côté serveur
   // au cas où la requête serait forgée ou les données auraient changé entre-temps.
+  // Date effective : celle choisie dans le prompt du Kanban, sinon celle du brouillon
+  const effectiveScheduledFor: Date | null = scheduledFor ?? existingPost.scheduledFor
+
   if (currentStatus === 'DRAFT' && newStatus === 'SCHEDULED') {
     // Cas 1 : aucune date de planification
-    if (!existingPost.scheduledFor) {
+    if (!effectiveScheduledFor) {
       return {
         success: false,
         error: 'Ce post n\'a pas de date planifiée — assignez une date avant de le planifier',
@@ -167,24 +245,55 @@ export async function updatePostStatus(
     }
 
     // Cas 2 : date déjà passée (comparaison serveur pour éviter les dérives de timezone)
-    if (existingPost.scheduledFor <= new Date()) {
+    if (effectiveScheduledFor <= new Date()) {
       return {
         success: false,
         error: 'La date de publication est déjà passée — modifiez le post pour choisir une date future',
       }
     }
+
+    // Cas 3 : validation activée et post non approuvé
+    const reviewError = approvalError(existingPost, await isApprovalRequired(workspace.id))
+    if (reviewError) {
+      return { success: false, error: reviewError }
+    }
   }
 
   // ─── Préparer les données de mise à jour ────────────────────────────────
   const updateData: {
     status: Post['status']
-    scheduledFor?: null
+    scheduledFor?: Date | null
+    connectedPlatformId?: string
     failureReason?: null
+    isQueued?: boolean
+    approvedAt?: null
   } = { status: newStatus }
 
+  if (currentStatus === 'DRAFT' && newStatus === 'SCHEDULED') {
+    // Un post planifié doit cibler un compte précis (pas de choix arbitraire
+    // à la publication si l'utilisateur a plusieurs comptes sur la plateforme)
+    const target = await resolvePostAccount(
+      workspace.id,
+      existingPost.platform,
+      existingPost.connectedPlatformId,
+    )
+    if (!target.ok) {
+      return { success: false, error: target.error }
+    }
+    updateData.connectedPlatformId = target.connectedPlatformId
+    // Date choisie à la main (prompt ou brouillon) : hors file d'attente
+    updateData.isQueued = false
+  }
+
+  if (currentStatus === 'DRAFT' && newStatus === 'SCHEDULED' && scheduledFor) {
+    // DRAFT → SCHEDULED avec date choisie dans le prompt : persister la nouvelle date
+    updateData.scheduledFor = scheduledFor
+  }
+
   if (currentStatus === 'SCHEDULED' && newStatus === 'DRAFT') {
     // SCHEDULED → DRAFT : effacer la date (annulation de la planification)
     updateData.scheduledFor = null
+    updateData.isQueued = false
   }
 
   if (currentStatus === 'FAILED' && newStatus === 'DRAFT') {
@@ -192,12 +301,36 @@ export async function updatePostStatus(
     updateData.failureReason = null
   }
 
+  if (newStatus === 'PENDING_REVIEW') {
+    // Nouvelle soumission : la décision précédente ne vaut plus
+    updateData.approvedAt = null
+  }
+
   // ─── Mettre à jour en base de données ───────────────────────────────────
   try {
-    const updatedPost = await prisma.post.update({
-      where: { id: postId },
-      data: updateData,
-    })
+    // Mise à jour + trace de la transition dans une seule transaction
+    const [updatedPost] = await prisma.$transaction([
+      prisma.post.update({
+        where: { id: postId },
+        data: updateData,
+      }),
+      postEventCreate(prisma, {
+        postId,
+        actorId: session.user.id,
+        action: newStatus === 'PENDING_REVIEW' ? 'SUBMITTED' : 'STATUS_CHANGED',
+        fromStatus: currentStatus,
+        toStatus: newStatus,
+      }),
+      auditEventCreate(prisma, {
+        workspaceId: workspace.id,
+        actor: userActor(session.user),
+        entityType: 'POST',
+        entityId: postId,
+        action: 'STATUS_CHANGED',
+        before: postAuditSnapshot(existingPost),
+        after: postAuditSnapshot({ ...existingPost, ...updateData }),
+      }),
+    ])
 
     // ─── Effets de bord Inngest selon la transition ───────────────────────
     // Opération non-bloquante : un échec Inngest (ex: INNGEST_EVENT_KEY absent
@@ -221,7 +354,7 @@ export async function updatePostStatus(
           data: {
             postId,
             // eslint-disable-next-line @typescript-eslint/no-non-null-assertion
-            scheduledFor: existingPost.scheduledFor!.toISOString(),
+            scheduledFor: effectiveScheduledFor!.toISOString(),
           },
         })
       }
@@ -230,6 +363,12 @@ export async function updatePostStatus(
       console.warn('[updatePostStatus] Inngest send échoué (non-bloquant) :', inngestError)
     }
 
+    // ─── File d'attente ───────────────────────────────────────────────────
+    // Le créneau libéré est repris par les posts suivants de la file
+    if (currentStatus === 'SCHEDULED' && newStatus === 'DRAFT' && existingPost.isQueued) {
+      await repackQueue(workspace.id, existingPost.platform)
+    }
+
     // Invalider les caches des pages affectées
     revalidatePath('/kanban')
     revalidatePath('/compose')
@@ -0,0 +1,86 @@
+/**
+ * @file modules/posts/components/AgentModal/AgentChatHistory.tsx
+ * @module posts
+ * @description Historique d'une conversation agent (chat) dans l'AgentModal :
+ *   instructions de l'utilisateur à droite, réponses de l'agent à gauche.
+ *   Défile automatiquement jusqu'au dernier message.
+ *
+ * @example
+ *   {sessionId && <AgentChatHistory sessionId={sessionId} />}
+ */
+
+'use client'
+
+import { useQuery } from '@tanstack/react-query'
+import { Bot } from 'lucide-react'
+import { useEffect, useRef } from 'react'
+
+import { cn } from '@/lib/utils'
+import { fetchAgentSession, postQueryKeys } from '@/modules/posts/queries/posts.queries'
+
+// ─── Props ────────────────────────────────────────────────────────────────────
+
+interface AgentChatHistoryProps {
+  /** Conversation à afficher */
+  sessionId: string
+}
+
+// ─── Composant ────────────────────────────────────────────────────────────────
+
+/**
+ * Messages de la conversation, du plus ancien au plus récent.
+ */
+export function AgentChatHistory({ sessionId }: AgentChatHistoryProps): React.JSX.Element {
+  const scrollRef = useRef<HTMLDivElement>(null)
+
+  const { data: agentSession, isLoading, isError } = useQuery({
+    queryKey: postQueryKeys.agentSession(sessionId),
+    queryFn: () => fetchAgentSession(sessionId),
+  })
+
+  const messageCount = agentSession?.messages.length ?? 0
+
+  // Dernier tour visible à l'ouverture et après chaque nouvelle réponse
+  useEffect(() => {
+    const container = scrollRef.current
+    if (container) container.scrollTop = container.scrollHeight
+  }, [messageCount])
+
+  if (isLoading) {
+    return <p className="text-xs text-muted-foreground">Chargement de la conversation…</p>
+  }
+  if (isError || !agentSession) {
+    return <p className="text-xs text-destructive">Conversation indisponible</p>
+  }
+
+  return (
+    <div className="space-y-1.5">
+      <span className="flex items-center gap-1.5 text-sm font-medium text-foreground">
+        <Bot className="size-3.5" />
+        Conversation
+      </span>
+      <div
+        ref={scrollRef}
+        className="max-h-48 space-y-2 overflow-y-auto rounded-lg border border-border bg-muted/20 p-2"
+      >
+        {agentSession.messages.map((message) => (
+          <div
+            key={message.id}
+            className={cn('flex', message.role === 'USER' ? 'justify-end' : 'justify-start')}
+          >
+            <p
+              className={cn(
+                'max-w-[85%] whitespace-pre-line break-words rounded-lg px-2.5 py-1.5 text-xs',
+                message.role === 'USER'
+                  ? 'bg-primary text-primary-foreground'
+                  : 'bg-background text-foreground shadow-sm',
+              )}
+            >
+              {message.content}
+            </p>
+          </div>
+        ))}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,77 @@
+/**
+ * @file modules/posts/components/AgentModal/AgentDraftPreviewList.tsx
+ * @module posts
+ * @description Aperçu en direct des posts pendant la génération par l'agent
+ *   (évènements SSE `draft` de /api/agent/create-posts et /api/agent/edit-post).
+ *   Le dernier post reçu est celui en cours d'écriture (curseur clignotant).
+ *
+ * @example
+ *   <AgentDraftPreviewList drafts={drafts} />
+ */
+
+'use client'
+
+import { Loader2 } from 'lucide-react'
+import Image from 'next/image'
+
+import { PLATFORM_CONFIG } from '@/modules/platforms/constants'
+import type { AgentDraftPreview } from '@/modules/posts/utils/agent-stream'
+
+// ─── Props ────────────────────────────────────────────────────────────────────
+
+interface AgentDraftPreviewListProps {
+  /** Aperçus reçus (vide tant que l'agent n'a rien écrit) */
+  drafts: AgentDraftPreview[]
+}
+
+// ─── Composant ────────────────────────────────────────────────────────────────
+
+/**
+ * Liste des posts en cours de rédaction.
+ */
+export function AgentDraftPreviewList({ drafts }: AgentDraftPreviewListProps): React.JSX.Element {
+  if (drafts.length === 0) {
+    return (
+      <div className="flex items-center gap-2 rounded-lg border border-dashed border-border px-3 py-2.5 text-xs text-muted-foreground">
+        <Loader2 className="size-3.5 animate-spin" />
+        L&apos;agent prépare les posts…
+      </div>
+    )
+  }
+
+  return (
+    <div className="space-y-2" aria-live="polite">
+      {drafts.map((draft, index) => {
+        const config = draft.platform
+          ? PLATFORM_CONFIG[draft.platform as keyof typeof PLATFORM_CONFIG]
+          : undefined
+        const isWriting = index === drafts.length - 1
+        return (
+          <div
+            key={index}
+            className="flex items-start gap-3 rounded-lg border border-border bg-muted/30 p-3"
+          >
+            {config && (
+              <Image
+                src={config.iconPath}
+                alt={config.label}
+                width={16}
+                height={16}
+                className="mt-0.5 size-4 shrink-0 object-contain"
+              />
+            )}
+            <div className="min-w-0 flex-1">
+              <p className="text-xs font-medium text-muted-foreground">
+                {config?.label ?? draft.platform ?? 'Plateforme…'}
+              </p>
+              <p className="mt-0.5 max-h-32 overflow-y-auto whitespace-pre-wrap break-words text-sm text-foreground">
+                {draft.text}
+                {isWriting && <span className="ml-0.5 inline-block h-3.5 w-1.5 animate-pulse bg-foreground/60 align-middle" />}
+              </p>
+            </div>
+          </div>
+        )
+      })}
+    </div>
+  )
+}
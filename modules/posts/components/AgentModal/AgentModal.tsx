@@ -5,6 +5,8 @@
  *
  *   - Mode "create" : Dialog avec AgentModalCreate
  *   - Mode "edit" : Dialog avec AgentModalEdit (nécessite la prop post)
+ *   - Conversation : depuis l'édition d'un post issu d'une conversation agent,
+ *     « Continuer la conversation » bascule sur AgentModalCreate avec cette session
  *
  *   Utilise le composant Dialog de shadcn/ui pour l'accessibilité (focus trap, Esc, backdrop).
  *
@@ -29,6 +31,8 @@
 
 'use client'
 
+import { useState } from 'react'
+
 import {
   Dialog,
   DialogContent,
@@ -48,9 +52,12 @@ interface AgentModalCreateProps {
   mode: 'create'
   open: boolean
   onOpenChange: (open: boolean) => void
+  /** Conversation agent à poursuivre (absent = nouvelle conversation) */
+  sessionId?: string | null
   /** Callback appelé avec les posts créés — met à jour la liste /compose */
   onPostsCreated: (posts: Post[]) => void
-  onPostUpdated?: never
+  /** Callback appelé pour chaque post de la conversation modifié par l'agent */
+  onPostUpdated?: (post: Post) => void
   post?: never
 }
 
@@ -63,7 +70,9 @@ interface AgentModalEditProps {
   onOpenChange: (open: boolean) => void
   /** Callback appelé avec le post mis à jour — met à jour la liste /compose */
   onPostUpdated: (post: Post) => void
-  onPostsCreated?: never
+  /** Callback appelé avec les posts créés en poursuivant la conversation du post */
+  onPostsCreated?: (posts: Post[]) => void
+  sessionId?: never
 }
 
 /** Union discriminée sur le mode */
@@ -78,15 +87,33 @@ type AgentModalProps = AgentModalCreateProps | AgentModalEditProps
 export function AgentModal(props: AgentModalProps): React.JSX.Element {
   const { mode, open, onOpenChange } = props
 
+  /** Conversation rouverte depuis le mode édition (null = mode initial) */
+  const [conversationId, setConversationId] = useState<string | null>(null)
+
+  /** Ouvre / ferme la modale — la fermeture revient au mode initial */
+  const handleOpenChange = (nextOpen: boolean): void => {
+    if (!nextOpen) setConversationId(null)
+    onOpenChange(nextOpen)
+  }
+
   /** Ferme la modale via le prop onOpenChange */
-  const handleClose = (): void => onOpenChange(false)
+  const handleClose = (): void => handleOpenChange(false)
+
+  const isCreate = mode === 'create' || conversationId !== null
 
   return (
-    <Dialog open={open} onOpenChange={onOpenChange}>
+    <Dialog open={open} onOpenChange={handleOpenChange}>
       <DialogContent className="max-w-xl">
         <DialogHeader>
           {/* Titre et description selon le mode */}
-          {mode === 'create' ? (
+          {conversationId !== null ? (
+            <>
+              <DialogTitle>Conversation avec l&apos;IA</DialogTitle>
+              <DialogDescription>
+                Poursuivez la conversation — l&apos;agent peut modifier ses posts ou en créer de nouveaux.
+              </DialogDescription>
+            </>
+          ) : mode === 'create' ? (
             <>
               <DialogTitle>Nouveau post avec l&apos;IA</DialogTitle>
               <DialogDescription>
@@ -104,10 +131,16 @@ export function AgentModal(props: AgentModalProps): React.JSX.Element {
         </DialogHeader>
 
         {/* Contenu selon le mode */}
-        {mode === 'create' ? (
+        {isCreate ? (
           <AgentModalCreate
+            // Remonté à chaque changement de conversation (état du formulaire réinitialisé)
+            key={conversationId ?? 'new'}
+            sessionId={conversationId ?? props.sessionId}
             onPostsCreated={(posts) => {
-              props.onPostsCreated(posts)
+              props.onPostsCreated?.(posts)
+            }}
+            onPostUpdated={(updatedPost) => {
+              props.onPostUpdated?.(updatedPost)
             }}
             onClose={handleClose}
           />
@@ -118,6 +151,7 @@ export function AgentModal(props: AgentModalProps): React.JSX.Element {
               props.onPostUpdated(updatedPost)
               // La modale reste ouverte pour afficher le succès — AgentModalEdit gère son propre état
             }}
+            onOpenSession={setConversationId}
             onClose={handleClose}
           />
         )}
@@ -7,8 +7,14 @@
  *   1. Upload de médias — bouton "Ajouter" OU glisser-déposer (drag & drop)
  *   2. Dictée vocale — bouton micro → Web Speech API → texte inséré dans l'instruction
  *   3. Saisie de l'instruction en texte libre
- *   4. Appel à POST /api/agent/create-posts → N posts DRAFT créés en DB
- *   5. Affichage du résumé des posts créés avant fermeture
+ *   4. Choix du compte pour les plateformes multi-comptes (AccountPicker)
+ *   5. Appel à POST /api/agent/create-posts → N posts DRAFT créés en DB
+ *      (réponse streamée : les posts s'affichent au fil de leur rédaction,
+ *      « Arrêter » annule la génération — aucun post n'est alors créé)
+ *   6. Affichage du résumé des posts créés avant fermeture
+ *   7. Conversation : « Continuer la conversation » enchaîne une instruction de suivi
+ *      dans la même AgentSession (historique affiché) — l'agent peut alors créer de
+ *      nouveaux posts ou modifier ceux de la conversation
  *
  *   Dictée vocale : useSpeechRecognition (natif navigateur, aucun appel serveur).
  *   Le bouton micro est masqué si `isSupported === false` (ex: Firefox sans flag).
@@ -16,30 +22,48 @@
  * @example
  *   <AgentModalCreate
  *     onPostsCreated={(posts) => { setPosts((prev) => [...posts, ...prev]) }}
+ *     onPostUpdated={(post) => updatePostInList(post)}
  *     onClose={() => setOpen(false)}
  *   />
+ *
+ *   // Conversation rouverte depuis un post
+ *   <AgentModalCreate sessionId={post.agentSessionId} onPostsCreated={…} onClose={…} />
  */
 
 'use client'
 
-import { ImagePlus, LayoutGrid, Loader2, Mic, MicOff, Pencil, Sparkles, X } from 'lucide-react'
-import { useCallback, useId, useRef, useState } from 'react'
+import { useQueryClient } from '@tanstack/react-query'
+import { ImagePlus, LayoutGrid, Loader2, MessageSquare, Mic, MicOff, Pencil, Sparkles, Square, X } from 'lucide-react'
+import { useCallback, useEffect, useId, useMemo, useRef, useState } from 'react'
 
 import { Button } from '@/components/ui/button'
 import { Textarea } from '@/components/ui/textarea'
-import { PLATFORM_CONFIG } from '@/modules/platforms/constants'
+import { saveMedia } from '@/modules/media/actions/media.action'
 import { ImageEditorDialog } from '@/modules/media/components/ImageEditorDialog'
 import { MediaPicker } from '@/modules/media/components/MediaPicker'
+import { AccountPicker } from '@/modules/platforms/components/AccountPicker'
+import { PLATFORM_CONFIG } from '@/modules/platforms/constants'
+import { usePlatforms } from '@/modules/platforms/hooks/usePlatforms'
 import { useSpeechRecognition } from '@/modules/posts/hooks/useSpeechRecognition'
+import { postQueryKeys } from '@/modules/posts/queries/posts.queries'
+import { readAgentStream } from '@/modules/posts/utils/agent-stream'
+import type { AgentDraftPreview } from '@/modules/posts/utils/agent-stream'
 import { isVideoUrl } from '@/modules/posts/utils/media.utils'
 import { useAppStore } from '@/store/app.store'
 import type { Post, PoolMedia, UploadingFile } from '@/modules/posts/types'
 
+import { AgentChatHistory } from './AgentChatHistory'
+import { AgentDraftPreviewList } from './AgentDraftPreviewList'
+
 // ─── Props ────────────────────────────────────────────────────────────────────
 
 interface AgentModalCreateProps {
+  /** Conversation à poursuivre (absent = nouvelle conversation) */
+  sessionId?: string | null
   /** Callback appelé après la création réussie des posts */
   onPostsCreated: (posts: Post[]) => void
+  /** Callback appelé pour chaque post de la conversation modifié par l'agent */
+  onPostUpdated?: (post: Post) => void
   /** Callback pour fermer la modale */
   onClose: () => void
 }
@@ -50,7 +74,13 @@ interface AgentModalCreateProps {
  * Zone de création de posts via une instruction libre.
  * Supporte : upload via bouton, drag & drop de fichiers, et dictée vocale.
  */
-export function AgentModalCreate({ onPostsCreated, onClose }: AgentModalCreateProps): React.JSX.Element {
+export function AgentModalCreate({
+  sessionId: initialSessionId = null,
+  onPostsCreated,
+  onPostUpdated,
+  onClose,
+}: AgentModalCreateProps): React.JSX.Element {
+  const queryClient = useQueryClient()
   const uploadIdPrefix = useId()
   const fileInputRef = useRef<HTMLInputElement>(null)
 
@@ -72,12 +102,37 @@ export function AgentModalCreate({ onPostsCreated, onClose }: AgentModalCreatePr
    */
   const [editingMedia, setEditingMedia] = useState<PoolMedia | null>(null)
 
+  // ── Comptes ciblés (plateformes avec plusieurs comptes connectés) ─────────
+  const { platforms } = usePlatforms()
+  /** Plateformes ayant au moins 2 comptes connectés → choix du compte proposé */
+  const multiAccountPlatforms = useMemo(() => {
+    const counts = new Map<string, number>()
+    for (const { platform } of platforms) counts.set(platform, (counts.get(platform) ?? 0) + 1)
+    return [...counts].filter(([, count]) => count > 1).map(([platform]) => platform)
+  }, [platforms])
+  /** Compte choisi par plateforme (plateforme → ConnectedPlatform.id) */
+  const [accountSelections, setAccountSelections] = useState<Record<string, string>>({})
+
   // ── États de chargement / erreur ───────────────────────────────────────────
   const [isGenerating, setIsGenerating] = useState(false)
   const [error, setError] = useState<string | null>(null)
+  /** Posts en cours de rédaction (aperçus streamés par l'agent) */
+  const [drafts, setDrafts] = useState<AgentDraftPreview[]>([])
+  /** Annulation de la génération en cours (bouton « Arrêter » ou fermeture de la modale) */
+  const abortRef = useRef<AbortController | null>(null)
+
+  // Fermeture de la modale pendant la génération : interrompre l'agent
+  useEffect(() => () => abortRef.current?.abort(), [])
+
+  // ── Conversation en cours (null avant la première instruction) ────────────
+  const [sessionId, setSessionId] = useState<string | null>(initialSessionId)
 
-  // ── Posts créés (étape de résumé) ─────────────────────────────────────────
+  // ── Résultat du dernier tour (étape de résumé) ────────────────────────────
   const [createdPosts, setCreatedPosts] = useState<Post[] | null>(null)
+  /** Posts de la conversation modifiés par le dernier tour */
+  const [updatedPosts, setUpdatedPosts] = useState<Post[]>([])
+  /** Modifications non appliquées (ex: compte à choisir avant planification) */
+  const [warnings, setWarnings] = useState<string[]>([])
 
   // ── Drag & Drop ─────────────────────────────────────────────────────────────
   /** Compteur d'entrées DnD (pour gérer les enfants sans faux dragLeave) */
@@ -126,7 +181,11 @@ export function AgentModalCreate({ onPostsCreated, onClose }: AgentModalCreatePr
         body: JSON.stringify({ filename: file.name, mimeType: file.type, size: file.size }),
       })
 
-      if (!urlRes.ok) throw new Error('Impossible d\'obtenir l\'URL d\'upload')
+      // Message du serveur (ex: quota de stockage dépassé)
+      if (!urlRes.ok) {
+        const err = (await urlRes.json()) as { error?: string }
+        throw new Error(err.error ?? "Impossible d'obtenir l'URL d'upload")
+      }
       const { signedUrl, publicUrl } = (await urlRes.json()) as { signedUrl: string; publicUrl: string }
 
       // 2. Upload direct vers Supabase (PUT avec XMLHttpRequest pour la progression)
@@ -154,13 +213,17 @@ export function AgentModalCreate({ onPostsCreated, onClose }: AgentModalCreatePr
         xhr.send(file)
       })
 
-      // 3. Ajouter au pool avec son type détecté
+      // 3. Enregistrer le média : galerie, quota sur la taille réelle, sondage et variantes par plateforme
+      const { error: saveError } = await saveMedia({ url: publicUrl, filename: file.name, mimeType: file.type, size: file.size })
+      if (saveError) throw new Error(saveError)
+
+      // 4. Ajouter au pool avec son type détecté
       const mediaType: PoolMedia['type'] = file.type.startsWith('video/') ? 'video' : 'photo'
       setMediaPool((prev) => [...prev, { url: publicUrl, type: mediaType, filename: file.name }])
     } catch (err) {
       console.error('[AgentModalCreate] Erreur upload :', err)
       setUploadingFiles((prev) =>
-        prev.map((f) => (f.id === uploadId ? { ...f, error: 'Upload échoué' } : f)),
+        prev.map((f) => (f.id === uploadId ? { ...f, error: err instanceof Error ? err.message : 'Upload échoué' } : f)),
       )
       setTimeout(() => setUploadingFiles((prev) => prev.filter((f) => f.id !== uploadId)), 3000)
       return
@@ -235,32 +298,53 @@ export function AgentModalCreate({ onPostsCreated, onClose }: AgentModalCreatePr
 
   /**
    * Appelle POST /api/agent/create-posts avec l'instruction et le pool de médias.
+   * Les aperçus streamés alimentent `drafts` jusqu'à la création des posts.
    */
   const handleGenerate = async (): Promise<void> => {
     if (!instruction.trim() || isGenerating || uploadingFiles.length > 0) return
 
     setError(null)
+    setDrafts([])
     setIsGenerating(true)
+    const abortController = new AbortController()
+    abortRef.current = abortController
 
     try {
       const res = await fetch('/api/agent/create-posts', {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ instruction: instruction.trim(), mediaPool }),
+        body: JSON.stringify({
+          instruction: instruction.trim(),
+          mediaPool,
+          accountSelections,
+          // Omis pour la première instruction (nouvelle conversation)
+          sessionId: sessionId ?? undefined,
+        }),
+        signal: abortController.signal,
       })
 
-      const data = (await res.json()) as { posts?: Post[]; error?: string }
-
-      if (!res.ok || !data.posts) {
-        throw new Error(data.error ?? `Erreur ${res.status}`)
-      }
-
-      setCreatedPosts(data.posts)
-      onPostsCreated(data.posts)
+      const result = await readAgentStream<{
+        posts: Post[]
+        updatedPosts: Post[]
+        sessionId: string
+        warnings: string[]
+      }>(res, setDrafts)
+
+      setSessionId(result.sessionId)
+      void queryClient.invalidateQueries({ queryKey: postQueryKeys.agentSession(result.sessionId) })
+      setCreatedPosts(result.posts)
+      setUpdatedPosts(result.updatedPosts)
+      setWarnings(result.warnings)
+      if (result.posts.length > 0) onPostsCreated(result.posts)
+      result.updatedPosts.forEach((post) => onPostUpdated?.(post))
     } catch (err) {
+      // Annulation volontaire : retour au formulaire, instruction conservée
+      if (abortController.signal.aborted) return
       console.error('[AgentModalCreate] Erreur génération :', err)
       setError(err instanceof Error ? err.message : 'Erreur lors de la génération. Veuillez réessayer.')
     } finally {
+      abortRef.current = null
+      setDrafts([])
       setIsGenerating(false)
     }
   }
@@ -276,14 +360,18 @@ export function AgentModalCreate({ onPostsCreated, onClose }: AgentModalCreatePr
             <Sparkles className="size-3.5" />
           </div>
           <p className="text-sm font-medium">
-            {createdPosts.length} post{createdPosts.length > 1 ? 's' : ''} créé
-            {createdPosts.length > 1 ? 's' : ''} avec succès
+            {[
+              createdPosts.length > 0 &&
+                `${createdPosts.length} post${createdPosts.length > 1 ? 's' : ''} créé${createdPosts.length > 1 ? 's' : ''}`,
+              updatedPosts.length > 0 &&
+                `${updatedPosts.length} post${updatedPosts.length > 1 ? 's' : ''} modifié${updatedPosts.length > 1 ? 's' : ''}`,
+            ].filter(Boolean).join(' · ') || 'Aucun post créé ni modifié'}
           </p>
         </div>
 
-        {/* Liste des posts créés */}
+        {/* Liste des posts créés puis modifiés */}
         <div className="space-y-2">
-          {createdPosts.map((post) => {
+          {[...createdPosts, ...updatedPosts].map((post) => {
             const config = PLATFORM_CONFIG[post.platform as keyof typeof PLATFORM_CONFIG]
             return (
               <div
@@ -308,7 +396,28 @@ export function AgentModalCreate({ onPostsCreated, onClose }: AgentModalCreatePr
           })}
         </div>
 
-        <div className="flex justify-end">
+        {/* Corrections du contenu et modifications non appliquées */}
+        {warnings.length > 0 && (
+          <div className="space-y-1 rounded-lg bg-amber-500/10 px-3.5 py-2.5 text-xs text-amber-700 dark:text-amber-300">
+            {warnings.map((warning) => <p key={warning}>{warning}</p>)}
+          </div>
+        )}
+
+        <div className="flex flex-col-reverse gap-2 sm:flex-row sm:justify-end">
+          {/* Instruction de suivi dans la même conversation */}
+          <Button
+            variant="outline"
+            onClick={() => {
+              setCreatedPosts(null)
+              setUpdatedPosts([])
+              setWarnings([])
+              setInstruction('')
+            }}
+            className="gap-2"
+          >
+            <MessageSquare className="size-4" />
+            Continuer la conversation
+          </Button>
           <Button onClick={onClose} className="w-full sm:w-auto">
             Voir mes brouillons
           </Button>
@@ -325,6 +434,9 @@ export function AgentModalCreate({ onPostsCreated, onClose }: AgentModalCreatePr
   return (
     <div className="space-y-4">
 
+      {/* ── Conversation en cours (tours précédents) ───────────────────────── */}
+      {sessionId && <AgentChatHistory sessionId={sessionId} />}
+
       {/* ── Zone d'instruction ─────────────────────────────────────────────── */}
       <div className="space-y-1.5">
         <div className="flex items-center justify-between">
@@ -345,7 +457,9 @@ export function AgentModalCreate({ onPostsCreated, onClose }: AgentModalCreatePr
 
         <Textarea
           id="agent-instruction"
-          placeholder="Ex: Poste mes 2 photos sur TikTok et Instagram demain matin 9h avec un texte dynamique et des hashtags"
+          placeholder={sessionId
+            ? 'Ex: Raccourcis celui pour LinkedIn et ajoute une version pour X'
+            : 'Ex: Poste mes 2 photos sur TikTok et Instagram demain matin 9h avec un texte dynamique et des hashtags'}
           value={instruction}
           onChange={(e) => setInstruction(e.target.value)}
           disabled={isDisabled}
@@ -509,6 +623,36 @@ export function AgentModalCreate({ onPostsCreated, onClose }: AgentModalCreatePr
         </div>
       </div>
 
+      {/* ── Comptes (plateformes multi-comptes uniquement) ──────────────────── */}
+      {multiAccountPlatforms.length > 0 && (
+        <div className="space-y-2">
+          <span className="text-sm font-medium text-foreground">Comptes</span>
+          {multiAccountPlatforms.map((platform) => (
+            <AccountPicker
+              key={platform}
+              platform={platform}
+              value={accountSelections[platform] ?? null}
+              noneLabel="Selon l'instruction"
+              disabled={isDisabled}
+              onChange={(id) =>
+                setAccountSelections((prev) => {
+                  const next = { ...prev }
+                  if (id) next[platform] = id
+                  else delete next[platform]
+                  return next
+                })
+              }
+            />
+          ))}
+          <p className="text-xs text-muted-foreground">
+            Plusieurs comptes connectés : choisissez celui sur lequel publier, ou nommez-le dans l&apos;instruction.
+          </p>
+        </div>
+      )}
+
+      {/* ── Aperçu en direct pendant la génération ─────────────────────────── */}
+      {isGenerating && <AgentDraftPreviewList drafts={drafts} />}
+
       {/* ── Erreur ─────────────────────────────────────────────────────────── */}
       {error && (
         <div className="rounded-lg bg-destructive/10 px-3.5 py-2.5 text-sm text-destructive">
@@ -527,23 +671,22 @@ export function AgentModalCreate({ onPostsCreated, onClose }: AgentModalCreatePr
           Annuler
         </button>
 
-        <Button
-          onClick={() => void handleGenerate()}
-          disabled={isDisabled || !instruction.trim() || uploadingFiles.length > 0}
-          className="gap-2"
-        >
-          {isGenerating ? (
-            <>
-              <Loader2 className="size-4 animate-spin" />
-              Génération en cours...
-            </>
-          ) : (
-            <>
-              <Sparkles className="size-4" />
-              Générer les posts
-            </>
-          )}
-        </Button>
+        {isGenerating ? (
+          // Arrêt de la génération : aucun post n'est créé
+          <Button variant="outline" onClick={() => abortRef.current?.abort()} className="gap-2">
+            <Square className="size-3.5" />
+            Arrêter
+          </Button>
+        ) : (
+          <Button
+            onClick={() => void handleGenerate()}
+            disabled={isDisabled || !instruction.trim() || uploadingFiles.length > 0}
+            className="gap-2"
+          >
+            <Sparkles className="size-4" />
+            Générer les posts
+          </Button>
+        )}
       </div>
 
       {/* ── Dialog sélection galerie ────────────────────────────────────────── */}
@@ -551,14 +694,16 @@ export function AgentModalCreate({ onPostsCreated, onClose }: AgentModalCreatePr
         open={pickerOpen}
         onOpenChange={setPickerOpen}
         selectedUrls={mediaPool.map((m) => m.url)}
-        onConfirm={(urls) => {
+        onConfirm={(urls, items) => {
           // Fusionner les nouvelles URLs avec le pool existant (sans doublons)
+          // Le texte alternatif de la galerie accompagne le média jusqu'au post
           const newItems = urls
             .filter((url) => !mediaPool.some((m) => m.url === url))
-            .map((url) => ({
+            .map((url): PoolMedia => ({
               url,
-              type: isVideoUrl(url) ? ('video' as const) : ('photo' as const),
+              type: isVideoUrl(url) ? 'video' : 'photo',
               filename: decodeURIComponent(url.split('/').pop()?.split('?')[0] ?? 'fichier'),
+              altText: items.find((item) => item.url === url)?.altText ?? undefined,
             }))
           setMediaPool((prev) => [...prev, ...newItems])
           setPickerOpen(false)
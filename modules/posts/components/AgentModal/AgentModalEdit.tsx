@@ -7,7 +7,14 @@
  *   - Saisir une instruction de modification (texte ou dictée vocale via Web Speech API)
  *   - Ajouter de nouveaux médias via bouton ou glisser-déposer (drag & drop)
  *   - Supprimer des médias existants (croix sur chaque vignette)
+ *   - Changer le compte ciblé si la plateforme a plusieurs comptes connectés
  *   - Appeler POST /api/agent/edit-post → post mis à jour en DB
+ *     (réponse streamée : le nouveau texte s'affiche au fil de sa rédaction,
+ *     « Arrêter » annule la génération — le post n'est alors pas modifié)
+ *
+ *   Post issu d'une conversation agent : l'historique est affiché et l'instruction
+ *   est enregistrée comme tour de cette conversation ; « Continuer la conversation »
+ *   la rouvre en mode création (l'agent peut alors toucher tous ses posts).
  *
  *   Le pool de médias est initialisé avec les URLs actuelles du post.
  *   L'agent reçoit le pool final (ajouts + suppressions) et met à jour le post.
@@ -17,27 +24,37 @@
  *   <AgentModalEdit
  *     post={selectedPost}
  *     onPostUpdated={(updatedPost) => { updatePostInList(updatedPost) }}
+ *     onOpenSession={(sessionId) => setConversationId(sessionId)}
  *     onClose={() => setOpen(false)}
  *   />
  */
 
 'use client'
 
-import { CheckCircle, ImagePlus, LayoutGrid, Loader2, Mic, MicOff, Pencil, X } from 'lucide-react'
-import { useCallback, useId, useRef, useState } from 'react'
+import { useQueryClient } from '@tanstack/react-query'
+import { CheckCircle, ImagePlus, LayoutGrid, Loader2, MessageSquare, Mic, MicOff, Pencil, Square, X } from 'lucide-react'
+import { useCallback, useEffect, useId, useRef, useState } from 'react'
 
 import { Button } from '@/components/ui/button'
 import { Textarea } from '@/components/ui/textarea'
-import { PLATFORM_CONFIG } from '@/modules/platforms/constants'
-import type { Platform } from '@/modules/platforms/types'
+import { saveMedia } from '@/modules/media/actions/media.action'
 import { ImageEditorDialog } from '@/modules/media/components/ImageEditorDialog'
 import { MediaPicker } from '@/modules/media/components/MediaPicker'
+import { AccountPicker } from '@/modules/platforms/components/AccountPicker'
+import { PLATFORM_CONFIG } from '@/modules/platforms/constants'
+import type { Platform } from '@/modules/platforms/types'
 import { useSpeechRecognition } from '@/modules/posts/hooks/useSpeechRecognition'
+import { postQueryKeys } from '@/modules/posts/queries/posts.queries'
+import { readAgentStream } from '@/modules/posts/utils/agent-stream'
+import type { AgentDraftPreview } from '@/modules/posts/utils/agent-stream'
 import { isVideoUrl } from '@/modules/posts/utils/media.utils'
 import { SignaturePicker } from '@/modules/signatures/components/SignaturePicker'
 import { useAppStore } from '@/store/app.store'
 import type { Post, PoolMedia, UploadingFile } from '@/modules/posts/types'
 
+import { AgentChatHistory } from './AgentChatHistory'
+import { AgentDraftPreviewList } from './AgentDraftPreviewList'
+
 // ─── Props ────────────────────────────────────────────────────────────────────
 
 interface AgentModalEditProps {
@@ -45,6 +62,8 @@ interface AgentModalEditProps {
   post: Post
   /** Callback appelé après la mise à jour réussie du post */
   onPostUpdated: (post: Post) => void
+  /** Rouvre la conversation agent du post (mode création avec historique) */
+  onOpenSession?: (sessionId: string) => void
   /** Callback pour fermer la modale */
   onClose: () => void
 }
@@ -55,7 +74,13 @@ interface AgentModalEditProps {
  * Zone d'édition d'un post via instruction libre ou dictée vocale.
  * Affiche le post actuel avec gestion complète des médias (ajout DnD + suppression).
  */
-export function AgentModalEdit({ post, onPostUpdated, onClose }: AgentModalEditProps): React.JSX.Element {
+export function AgentModalEdit({
+  post,
+  onPostUpdated,
+  onOpenSession,
+  onClose,
+}: AgentModalEditProps): React.JSX.Element {
+  const queryClient = useQueryClient()
   const uploadIdPrefix = useId()
   const fileInputRef = useRef<HTMLInputElement>(null)
 
@@ -63,6 +88,19 @@ export function AgentModalEdit({ post, onPostUpdated, onClose }: AgentModalEditP
   const [isUpdating, setIsUpdating] = useState(false)
   const [error, setError] = useState<string | null>(null)
   const [isSuccess, setIsSuccess] = useState(false)
+  /** Corrections appliquées par le serveur (règles de la plateforme) */
+  const [warnings, setWarnings] = useState<string[]>([])
+  /** Conversation du post (créée au premier passage par l'agent) */
+  const [sessionId, setSessionId] = useState<string | null>(post.agentSessionId)
+  /** Texte en cours de rédaction (aperçu streamé par l'agent) */
+  const [drafts, setDrafts] = useState<AgentDraftPreview[]>([])
+  /** Annulation de la génération en cours (bouton « Arrêter » ou fermeture de la modale) */
+  const abortRef = useRef<AbortController | null>(null)
+
+  // Fermeture de la modale pendant la génération : interrompre l'agent
+  useEffect(() => () => abortRef.current?.abort(), [])
+  /** Compte ciblé (AccountPicker affiché seulement si plusieurs comptes) */
+  const [connectedPlatformId, setConnectedPlatformId] = useState<string | null>(post.connectedPlatformId)
 
   // ── Pool de médias — initialisé depuis les URLs actuelles du post ───────────
   const [mediaPool, setMediaPool] = useState<PoolMedia[]>(() =>
@@ -137,7 +175,11 @@ export function AgentModalEdit({ post, onPostUpdated, onClose }: AgentModalEditP
         body: JSON.stringify({ filename: file.name, mimeType: file.type, size: file.size }),
       })
 
-      if (!urlRes.ok) throw new Error("Impossible d'obtenir l'URL d'upload")
+      // Message du serveur (ex: quota de stockage dépassé)
+      if (!urlRes.ok) {
+        const err = (await urlRes.json()) as { error?: string }
+        throw new Error(err.error ?? "Impossible d'obtenir l'URL d'upload")
+      }
       const { signedUrl, publicUrl } = (await urlRes.json()) as {
         signedUrl: string
         publicUrl: string
@@ -170,13 +212,17 @@ export function AgentModalEdit({ post, onPostUpdated, onClose }: AgentModalEditP
         xhr.send(file)
       })
 
-      // 3. Ajouter au pool
+      // 3. Enregistrer le média : galerie, quota sur la taille réelle, sondage et variantes par plateforme
+      const { error: saveError } = await saveMedia({ url: publicUrl, filename: file.name, mimeType: file.type, size: file.size })
+      if (saveError) throw new Error(saveError)
+
+      // 4. Ajouter au pool
       const mediaType: PoolMedia['type'] = file.type.startsWith('video/') ? 'video' : 'photo'
       setMediaPool((prev) => [...prev, { url: publicUrl, type: mediaType, filename: file.name }])
     } catch (err) {
       console.error('[AgentModalEdit] Erreur upload :', err)
       setUploadingFiles((prev) =>
-        prev.map((f) => (f.id === uploadId ? { ...f, error: 'Upload échoué' } : f)),
+        prev.map((f) => (f.id === uploadId ? { ...f, error: err instanceof Error ? err.message : 'Upload échoué' } : f)),
       )
       setTimeout(
         () => setUploadingFiles((prev) => prev.filter((f) => f.id !== uploadId)),
@@ -244,7 +290,10 @@ export function AgentModalEdit({ post, onPostUpdated, onClose }: AgentModalEditP
     if (!instruction.trim() || isUpdating) return
 
     setError(null)
+    setDrafts([])
     setIsUpdating(true)
+    const abortController = new AbortController()
+    abortRef.current = abortController
 
     try {
       const res = await fetch('/api/agent/edit-post', {
@@ -255,23 +304,34 @@ export function AgentModalEdit({ post, onPostUpdated, onClose }: AgentModalEditP
           instruction: instruction.trim(),
           // Passer le pool final (médias conservés + nouveaux ajouts)
           mediaPool,
+          // Omis si aucun compte choisi (compte unique résolu côté serveur)
+          connectedPlatformId: connectedPlatformId ?? undefined,
+          sessionId: sessionId ?? undefined,
         }),
+        signal: abortController.signal,
       })
 
-      const data = (await res.json()) as { post?: Post; error?: string }
+      const { post: updatedPost, sessionId: updatedSessionId, warnings: updateWarnings } = await readAgentStream<{
+        post: Post
+        sessionId: string
+        warnings: string[]
+      }>(res, setDrafts)
 
-      if (!res.ok || !data.post) {
-        throw new Error(data.error ?? `Erreur ${res.status}`)
-      }
-
-      onPostUpdated(data.post)
+      setSessionId(updatedSessionId)
+      setWarnings(updateWarnings)
+      void queryClient.invalidateQueries({ queryKey: postQueryKeys.agentSession(updatedSessionId) })
+      onPostUpdated(updatedPost)
       setIsSuccess(true)
     } catch (err) {
+      // Annulation volontaire : post inchangé, instruction conservée
+      if (abortController.signal.aborted) return
       console.error('[AgentModalEdit] Erreur mise à jour :', err)
       setError(
         err instanceof Error ? err.message : 'Erreur lors de la mise à jour. Veuillez réessayer.',
       )
     } finally {
+      abortRef.current = null
+      setDrafts([])
       setIsUpdating(false)
     }
   }
@@ -285,9 +345,23 @@ export function AgentModalEdit({ post, onPostUpdated, onClose }: AgentModalEditP
           <CheckCircle className="size-5" />
           <p className="text-sm font-medium">Post mis à jour avec succès</p>
         </div>
-        <Button onClick={onClose} className="w-full">
-          Fermer
-        </Button>
+        {/* Corrections appliquées au contenu de l'agent */}
+        {warnings.length > 0 && (
+          <div className="space-y-1 rounded-lg bg-amber-500/10 px-3.5 py-2.5 text-xs text-amber-700 dark:text-amber-300">
+            {warnings.map((warning) => <p key={warning}>{warning}</p>)}
+          </div>
+        )}
+        <div className="flex flex-col gap-2 sm:flex-row">
+          {sessionId && onOpenSession && (
+            <Button variant="outline" onClick={() => onOpenSession(sessionId)} className="flex-1 gap-2">
+              <MessageSquare className="size-4" />
+              Continuer la conversation
+            </Button>
+          )}
+          <Button onClick={onClose} className="flex-1">
+            Fermer
+          </Button>
+        </div>
       </div>
     )
   }
@@ -311,6 +385,26 @@ export function AgentModalEdit({ post, onPostUpdated, onClose }: AgentModalEditP
         </p>
       </div>
 
+      {/* ── Conversation d'origine du post ─────────────────────────────────── */}
+      {sessionId && (
+        <div className="space-y-2">
+          <AgentChatHistory sessionId={sessionId} />
+          {onOpenSession && (
+            <Button
+              type="button"
+              variant="ghost"
+              size="sm"
+              onClick={() => onOpenSession(sessionId)}
+              disabled={isUpdating}
+              className="h-7 gap-1.5 px-2 text-xs"
+            >
+              <MessageSquare className="size-3.5" />
+              Continuer la conversation
+            </Button>
+          )}
+        </div>
+      )}
+
       {/* ── Zone médias (lecture + édition + DnD) ─────────────────────────── */}
       <div className="space-y-2">
         <div className="flex items-center justify-between">
@@ -543,6 +637,17 @@ export function AgentModalEdit({ post, onPostUpdated, onClose }: AgentModalEditP
         </p>
       </div>
 
+      {/* Compte ciblé — rendu uniquement si la plateforme a plusieurs comptes */}
+      <AccountPicker
+        platform={post.platform}
+        value={connectedPlatformId}
+        onChange={setConnectedPlatformId}
+        disabled={isDisabled}
+      />
+
+      {/* Aperçu en direct pendant la génération */}
+      {isUpdating && <AgentDraftPreviewList drafts={drafts} />}
+
       {/* Erreur */}
       {error && (
         <div className="rounded-lg bg-destructive/10 px-3.5 py-2.5 text-sm text-destructive">
@@ -561,23 +666,22 @@ export function AgentModalEdit({ post, onPostUpdated, onClose }: AgentModalEditP
           Annuler
         </button>
 
-        <Button
-          onClick={() => void handleUpdate()}
-          disabled={isDisabled || !instruction.trim() || uploadingFiles.length > 0}
-          className="gap-2"
-        >
-          {isUpdating ? (
-            <>
-              <Loader2 className="size-4 animate-spin" />
-              Modification en cours...
-            </>
-          ) : (
-            <>
-              <Pencil className="size-4" />
-              Modifier le post
-            </>
-          )}
-        </Button>
+        {isUpdating ? (
+          // Arrêt de la génération : le post n'est pas modifié
+          <Button variant="outline" onClick={() => abortRef.current?.abort()} className="gap-2">
+            <Square className="size-3.5" />
+            Arrêter
+          </Button>
+        ) : (
+          <Button
+            onClick={() => void handleUpdate()}
+            disabled={isDisabled || !instruction.trim() || uploadingFiles.length > 0}
+            className="gap-2"
+          >
+            <Pencil className="size-4" />
+            Modifier le post
+          </Button>
+        )}
       </div>
 
       {/* ── Dialog sélection galerie ────────────────────────────────────────── */}
@@ -585,14 +689,16 @@ export function AgentModalEdit({ post, onPostUpdated, onClose }: AgentModalEditP
         open={pickerOpen}
         onOpenChange={setPickerOpen}
         selectedUrls={mediaPool.map((m) => m.url)}
-        onConfirm={(urls) => {
+        onConfirm={(urls, items) => {
           // Fusionner les nouvelles URLs avec le pool existant (sans doublons)
+          // Le texte alternatif de la galerie accompagne le média jusqu'au post
           const newItems = urls
             .filter((url) => !mediaPool.some((m) => m.url === url))
-            .map((url) => ({
+            .map((url): PoolMedia => ({
               url,
-              type: isVideoUrl(url) ? ('video' as const) : ('photo' as const),
+              type: isVideoUrl(url) ? 'video' : 'photo',
               filename: decodeURIComponent(url.split('/').pop()?.split('?')[0] ?? 'fichier'),
+              altText: items.find((item) => item.url === url)?.altText ?? undefined,
             }))
           setMediaPool((prev) => [...prev, ...newItems])
           setPickerOpen(false)
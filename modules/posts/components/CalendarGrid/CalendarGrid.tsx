@@ -12,6 +12,9 @@
  *
  *   Sans ces props → comportement identique à l'original (page /calendar inchangée).
  *
+ *   Séries récurrentes : les occurrences futures non encore créées en base sont
+ *   projetées depuis leur règle (CalendarSeriesChip, en pointillés, avec « Ignorer »).
+ *
  * @example
  *   // Usage basique (/calendar)
  *   <CalendarGrid />
@@ -32,10 +35,15 @@ import { ChevronLeft, ChevronRight } from 'lucide-react'
 import { useState } from 'react'
 
 import { Button } from '@/components/ui/button'
+import { getZonedParts } from '@/lib/timezone'
+import { useUserTimezone } from '@/modules/auth/hooks/useUserTimezone'
 import { useCalendarPosts } from '@/modules/posts/hooks/useCalendarPosts'
+import { useSeriesOccurrences } from '@/modules/posts/hooks/useSeriesOccurrences'
 import type { Post } from '@/modules/posts/types'
+import type { ProjectedOccurrence } from '@/modules/posts/utils/recurrence'
 
 import { CalendarPostChip } from './CalendarPostChip'
+import { CalendarSeriesChip } from './CalendarSeriesChip'
 
 // ─── Constantes ───────────────────────────────────────────────────────────────
 
@@ -143,15 +151,18 @@ export function CalendarGrid({
   filterPosts,
   onMonthChange,
 }: CalendarGridProps): React.JSX.Element {
-  const now = new Date()
-  const [year, setYear] = useState(initialYear ?? now.getFullYear())
-  const [month, setMonth] = useState(initialMonth ?? now.getMonth() + 1)
+  // "Aujourd'hui" s'entend dans le fuseau de l'utilisateur (cohérent avec le regroupement)
+  const { timezone } = useUserTimezone()
+  const now = getZonedParts(new Date(), timezone)
+  const [year, setYear] = useState(initialYear ?? now.year)
+  const [month, setMonth] = useState(initialMonth ?? now.month)
 
   const { postsByDate, isLoading } = useCalendarPosts(year, month)
+  const { occurrencesByDate } = useSeriesOccurrences(year, month)
 
   // Générer les cellules de la grille
   const days = buildCalendarDays(year, month)
-  const today = toDateKey(now)
+  const today = toDateKey(new Date(now.year, now.month - 1, now.day))
 
   /**
    * Navigue vers le mois précédent.
@@ -182,8 +193,8 @@ export function CalendarGrid({
    * Revient au mois courant (date système).
    */
   const goToToday = (): void => {
-    const todayYear = now.getFullYear()
-    const todayMonth = now.getMonth() + 1
+    const todayYear = now.year
+    const todayMonth = now.month
     setYear(todayYear)
     setMonth(todayMonth)
     onMonthChange?.(todayYear, todayMonth)
@@ -255,6 +266,7 @@ export function CalendarGrid({
                 isCurrentMonth={isCurrentMonth}
                 isToday={isToday}
                 posts={posts}
+                occurrences={occurrencesByDate.get(dateKey) ?? []}
                 isLoading={isLoading}
                 interactive={interactive}
                 filterPosts={filterPosts}
@@ -278,6 +290,8 @@ interface CalendarCellProps {
   isCurrentMonth: boolean
   isToday: boolean
   posts: Post[]
+  /** Occurrences projetées des séries récurrentes pour ce jour */
+  occurrences: ProjectedOccurrence[]
   isLoading: boolean
   showBottomBorder: boolean
   showRightBorder: boolean
@@ -305,6 +319,7 @@ function CalendarCell({
   isCurrentMonth,
   isToday,
   posts,
+  occurrences,
   isLoading,
   showBottomBorder,
   showRightBorder,
@@ -365,6 +380,13 @@ function CalendarCell({
                 +{hiddenCount} autre{hiddenCount > 1 ? 's' : ''}
               </p>
             )}
+            {/* Occurrences à venir des séries récurrentes (pas encore en base) */}
+            {occurrences.map((projected) => (
+              <CalendarSeriesChip
+                key={`${projected.seriesId}-${projected.occurrence.getTime()}`}
+                occurrence={projected}
+              />
+            ))}
           </>
         )}
       </div>
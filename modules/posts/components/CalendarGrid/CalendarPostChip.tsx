@@ -21,10 +21,11 @@
  *   <CalendarPostChip post={post} interactive />
  */
 
-import { Calendar, ImageIcon } from 'lucide-react'
+import { Calendar, ImageIcon, Repeat } from 'lucide-react'
 
 import { Badge } from '@/components/ui/badge'
 import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover'
+import { useUserTimezone } from '@/modules/auth/hooks/useUserTimezone'
 import { PLATFORM_CONFIG } from '@/modules/platforms/constants'
 import {
   STATUS_BADGE_CLASSES,
@@ -40,15 +41,17 @@ import type { Post } from '@/modules/posts/types'
  * Exemple de rendu : "21 février à 17:00"
  *
  * @param date - Date à formater
+ * @param timeZone - Fuseau d'affichage (celui de l'utilisateur)
  * @returns Chaîne localisée en français
  */
-function formatScheduledDate(date: Date | string): string {
+function formatScheduledDate(date: Date | string, timeZone: string): string {
   const d = date instanceof Date ? date : new Date(date)
   return d.toLocaleDateString('fr-FR', {
     day: 'numeric',
     month: 'long',
     hour: '2-digit',
     minute: '2-digit',
+    timeZone,
   })
 }
 
@@ -86,6 +89,8 @@ export function CalendarPostChip({
 }: CalendarPostChipProps): React.JSX.Element {
   // Couleur sémantique du chip selon le statut (source : status-styles.ts)
   const style = STATUS_CHIP_CLASSES[post.status]
+  // Heures affichées dans le fuseau utilisé pour placer le post dans la grille
+  const { timezone } = useUserTimezone()
 
   // Heure de planification ou publication (si disponible)
   const dateToShow = post.scheduledFor ?? post.publishedAt
@@ -93,6 +98,7 @@ export function CalendarPostChip({
     ? new Date(dateToShow).toLocaleTimeString('fr-FR', {
         hour: '2-digit',
         minute: '2-digit',
+        timeZone: timezone,
       })
     : null
 
@@ -118,6 +124,8 @@ export function CalendarPostChip({
       ) : (
         <span className="size-1.5 shrink-0 rounded-full bg-current opacity-60" />
       )}
+      {/* Occurrence d'une série récurrente */}
+      {post.seriesId && <Repeat className="size-2.5 shrink-0" aria-label="Récurrent" />}
       {/* Extrait du texte tronqué */}
       <span className="truncate">{truncatedText}</span>
     </>
@@ -184,7 +192,7 @@ export function CalendarPostChip({
           {dateToShow && (
             <div className="flex items-center gap-1">
               <Calendar className="size-3 shrink-0" />
-              <span>{formatScheduledDate(dateToShow)}</span>
+              <span>{formatScheduledDate(dateToShow, timezone)}</span>
             </div>
           )}
           {/* Nombre de médias (masqué si aucun) */}
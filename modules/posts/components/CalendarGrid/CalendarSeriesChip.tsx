@@ -0,0 +1,119 @@
+/**
+ * @file modules/posts/components/CalendarGrid/CalendarSeriesChip.tsx
+ * @module posts
+ * @description Chip d'une occurrence future projetée d'une série récurrente.
+ *   L'occurrence n'existe pas encore en base (elle sera créée par Inngest après la
+ *   publication précédente) : le chip est en pointillés et ouvre un Popover avec
+ *   la règle, les plateformes et l'action « Ignorer cette occurrence ».
+ *
+ *   Ignorer une occurrence ne casse pas la série : la date est ajoutée à
+ *   PostSeries.skipDates et la série reprend à l'occurrence suivante.
+ *
+ * @example
+ *   <CalendarSeriesChip occurrence={projected} />
+ */
+
+'use client'
+
+import { useQueryClient } from '@tanstack/react-query'
+import { CalendarX, Loader2, Repeat } from 'lucide-react'
+import { useState } from 'react'
+import { toast } from 'sonner'
+
+import { Button } from '@/components/ui/button'
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover'
+import { useUserTimezone } from '@/modules/auth/hooks/useUserTimezone'
+import { PLATFORM_CONFIG } from '@/modules/platforms/constants'
+import { skipSeriesOccurrence } from '@/modules/posts/actions/post-series.action'
+import { postQueryKeys } from '@/modules/posts/queries/posts.queries'
+import type { ProjectedOccurrence } from '@/modules/posts/utils/recurrence'
+
+// ─── Props ────────────────────────────────────────────────────────────────────
+
+interface CalendarSeriesChipProps {
+  /** Occurrence projetée (série + date) */
+  occurrence: ProjectedOccurrence
+}
+
+// ─── Composant ────────────────────────────────────────────────────────────────
+
+/**
+ * Chip d'occurrence récurrente à venir, avec action d'ignorance.
+ *
+ * @param occurrence - Occurrence projetée à afficher
+ */
+export function CalendarSeriesChip({ occurrence }: CalendarSeriesChipProps): React.JSX.Element {
+  const queryClient = useQueryClient()
+  const { timezone } = useUserTimezone()
+  const [isSkipping, setIsSkipping] = useState(false)
+
+  const timeLabel = occurrence.occurrence.toLocaleTimeString('fr-FR', {
+    hour: '2-digit',
+    minute: '2-digit',
+    timeZone: timezone,
+  })
+  const platformLabels = occurrence.platforms.map(
+    (platform) => PLATFORM_CONFIG[platform as keyof typeof PLATFORM_CONFIG]?.label ?? platform,
+  )
+
+  /** Ignore l'occurrence puis resynchronise le calendrier (séries + posts déplacés) */
+  const handleSkip = async (): Promise<void> => {
+    if (isSkipping) return
+    setIsSkipping(true)
+    try {
+      const result = await skipSeriesOccurrence(occurrence.seriesId, occurrence.occurrence)
+      if (result.success) {
+        toast.success('Occurrence ignorée — la série continue')
+        void queryClient.invalidateQueries({ queryKey: postQueryKeys.series() })
+        void queryClient.invalidateQueries({ queryKey: postQueryKeys.calendars() })
+      } else {
+        toast.error(result.error ?? 'Impossible d\'ignorer cette occurrence')
+      }
+    } catch (err) {
+      console.error('[CalendarSeriesChip] Erreur :', err)
+      toast.error('Erreur réseau — réessayez')
+    } finally {
+      setIsSkipping(false)
+    }
+  }
+
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <button
+          type="button"
+          className={[
+            'flex w-full items-center gap-1 rounded border border-dashed border-primary/40 px-1.5 py-0.5',
+            'text-[11px] leading-tight text-primary/80 transition-opacity hover:opacity-80',
+          ].join(' ')}
+          title={`${occurrence.label} · ${platformLabels.join(', ')}`}
+        >
+          <Repeat className="size-3 shrink-0" />
+          <span className="shrink-0 font-medium tabular-nums">{timeLabel}</span>
+          <span className="truncate">{platformLabels.join(', ')}</span>
+        </button>
+      </PopoverTrigger>
+
+      <PopoverContent className="w-64 space-y-2 p-3" align="start">
+        <div className="flex items-center gap-1.5 text-xs font-semibold">
+          <Repeat className="size-3.5 shrink-0" />
+          <span>{occurrence.label}</span>
+        </div>
+        <p className="text-[11px] text-muted-foreground">
+          Occurrence à venir · {platformLabels.join(', ')}. Le post sera créé
+          automatiquement après la publication précédente.
+        </p>
+        <Button
+          variant="outline"
+          size="sm"
+          className="h-7 w-full gap-1.5 text-xs"
+          disabled={isSkipping}
+          onClick={() => void handleSkip()}
+        >
+          {isSkipping ? <Loader2 className="size-3 animate-spin" /> : <CalendarX className="size-3" />}
+          Ignorer cette occurrence
+        </Button>
+      </PopoverContent>
+    </Popover>
+  )
+}
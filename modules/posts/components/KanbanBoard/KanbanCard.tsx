@@ -0,0 +1,87 @@
+/**
+ * @file modules/posts/components/KanbanBoard/KanbanCard.tsx
+ * @module posts
+ * @description Carte déplaçable d'un post dans le Kanban.
+ *   Draggable via @dnd-kit (useDraggable) sauf si le post est PUBLISHED
+ *   (colonne en lecture seule). Un clic simple ouvre le détail du post.
+ *
+ * @example
+ *   <KanbanCard post={post} onDetail={handleOpenDetail} />
+ */
+
+'use client'
+
+import { useDraggable } from '@dnd-kit/core'
+import { CSS } from '@dnd-kit/utilities'
+import { Calendar, GripVertical } from 'lucide-react'
+
+import type { LatePlatform } from '@/lib/late'
+import { cn } from '@/lib/utils'
+import { PlatformIcon } from '@/modules/platforms/components/PlatformIcon'
+import type { Post } from '@/modules/posts/types'
+
+// ─── Props ────────────────────────────────────────────────────────────────────
+
+interface KanbanCardProps {
+  post: Post
+  /** Ouvre le modal de détail (clic sur la carte) */
+  onDetail?: (post: Post) => void
+  /** Rendu dans le DragOverlay (copie flottante suivant le curseur) */
+  isOverlay?: boolean
+}
+
+// ─── Composant ────────────────────────────────────────────────────────────────
+
+/**
+ * Carte compacte : plateforme, texte tronqué, date planifiée.
+ */
+export function KanbanCard({ post, onDetail, isOverlay = false }: KanbanCardProps): React.JSX.Element {
+  const isReadOnly = post.status === 'PUBLISHED'
+
+  const { attributes, listeners, setNodeRef, transform, isDragging } = useDraggable({
+    id: post.id,
+    data: { post },
+    disabled: isReadOnly || isOverlay,
+  })
+
+  return (
+    <div
+      ref={isOverlay ? undefined : setNodeRef}
+      style={{ transform: CSS.Translate.toString(transform) }}
+      className={cn(
+        'group rounded-lg border border-border bg-card p-3 text-left shadow-xs transition-shadow',
+        !isReadOnly && 'cursor-grab active:cursor-grabbing',
+        // La carte d'origine s'estompe pendant le drag (la copie suit le curseur)
+        isDragging && 'opacity-40',
+        isOverlay && 'rotate-2 shadow-lg',
+      )}
+      onClick={() => onDetail?.(post)}
+      {...attributes}
+      {...listeners}
+    >
+      <div className="flex items-start gap-2">
+        <PlatformIcon platform={post.platform as LatePlatform} className="mt-0.5 size-4 shrink-0" />
+        <p className="line-clamp-3 flex-1 text-sm">{post.text || <em>Sans texte</em>}</p>
+        {!isReadOnly && (
+          <GripVertical className="size-4 shrink-0 text-muted-foreground/50 group-hover:text-muted-foreground" />
+        )}
+      </div>
+
+      {(post.scheduledFor ?? post.publishedAt) && (
+        <p className="mt-2 flex items-center gap-1 text-xs text-muted-foreground">
+          <Calendar className="size-3" />
+          {new Date((post.publishedAt ?? post.scheduledFor)!).toLocaleString('fr-FR', {
+            day: 'numeric',
+            month: 'short',
+            hour: '2-digit',
+            minute: '2-digit',
+          })}
+        </p>
+      )}
+
+      {post.status === 'FAILED' && post.failureReason && (
+        <p className="mt-1 line-clamp-2 text-xs text-destructive">{post.failureReason}</p>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,81 @@
+/**
+ * @file modules/posts/components/KanbanBoard/KanbanColumn.tsx
+ * @module posts
+ * @description Colonne du Kanban (une par PostStatus), zone de drop @dnd-kit.
+ *   Pendant un drag, la colonne indique visuellement si le drop est autorisé.
+ *
+ * @example
+ *   <KanbanColumn status="DRAFT" posts={drafts} canDrop isDragActive onDetail={openDetail} />
+ */
+
+'use client'
+
+import { useDroppable } from '@dnd-kit/core'
+import { Lock } from 'lucide-react'
+
+import { cn } from '@/lib/utils'
+import type { Post } from '@/modules/posts/types'
+import { STATUS_CHIP_CLASSES, STATUS_LABELS } from '@/modules/posts/utils/status-styles'
+
+import { KanbanCard } from './KanbanCard'
+
+// ─── Props ────────────────────────────────────────────────────────────────────
+
+interface KanbanColumnProps {
+  status: Post['status']
+  posts: Post[]
+  /** La carte en cours de drag peut être déposée ici */
+  canDrop: boolean
+  /** Un drag est en cours (active les indications visuelles) */
+  isDragActive: boolean
+  onDetail?: (post: Post) => void
+}
+
+// ─── Composant ────────────────────────────────────────────────────────────────
+
+/**
+ * Colonne de statut : en-tête (libellé + compteur) et liste de cartes.
+ */
+export function KanbanColumn({
+  status,
+  posts,
+  canDrop,
+  isDragActive,
+  onDetail,
+}: KanbanColumnProps): React.JSX.Element {
+  // La colonne refuse le drop si la transition n'est pas autorisée (over reste null)
+  const { setNodeRef, isOver } = useDroppable({ id: status, disabled: !canDrop })
+
+  return (
+    <div
+      ref={setNodeRef}
+      className={cn(
+        'flex min-h-[200px] w-64 shrink-0 flex-col rounded-xl border border-border bg-muted/30 p-2 transition-colors',
+        isDragActive && !canDrop && 'opacity-50',
+        isDragActive && canDrop && 'border-dashed border-primary/50',
+        isOver && 'bg-primary/5',
+      )}
+    >
+      {/* ── En-tête ───────────────────────────────────────────────────────── */}
+      <div className="mb-2 flex items-center justify-between px-1">
+        <span className={cn('rounded px-1.5 py-0.5 text-xs font-medium', STATUS_CHIP_CLASSES[status])}>
+          {STATUS_LABELS[status]}
+        </span>
+        <span className="flex items-center gap-1 text-xs text-muted-foreground">
+          {status === 'PUBLISHED' && <Lock className="size-3" aria-label="Lecture seule" />}
+          {posts.length}
+        </span>
+      </div>
+
+      {/* ── Cartes ────────────────────────────────────────────────────────── */}
+      <div className="flex flex-1 flex-col gap-2">
+        {posts.map((post) => (
+          <KanbanCard key={post.id} post={post} onDetail={onDetail} />
+        ))}
+        {posts.length === 0 && (
+          <p className="py-6 text-center text-xs text-muted-foreground/70">Aucun post</p>
+        )}
+      </div>
+    </div>
+  )
+}
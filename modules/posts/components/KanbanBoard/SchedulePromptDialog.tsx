@@ -0,0 +1,128 @@
+/**
+ * @file modules/posts/components/KanbanBoard/SchedulePromptDialog.tsx
+ * @module posts
+ * @description Dialog affiché quand un brouillon sans date (ou avec une date passée)
+ *   est déposé dans la colonne Planifié : l'utilisateur choisit la date de publication
+ *   avant que la transition ne soit envoyée au serveur.
+ *   Réutilisé pour replanifier une campagne entière (PostGroupCard), avec sa
+ *   propre description.
+ *   Si `onQueue` est fourni (la plateforme a des créneaux), le bouton « Ajouter à
+ *   la file » évite de choisir une date : le serveur prend le prochain créneau libre.
+ *
+ * @example
+ *   <SchedulePromptDialog
+ *     open={pendingPost !== null}
+ *     onConfirm={(date) => movePost({ post: pendingPost, newStatus: 'SCHEDULED', scheduledFor: date })}
+ *     onCancel={() => setPendingPost(null)}
+ *   />
+ */
+
+'use client'
+
+import { ListPlus } from 'lucide-react'
+import { useState } from 'react'
+
+import { Button } from '@/components/ui/button'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog'
+import { DateTimePicker } from '@/modules/posts/components/PostComposer/DateTimePicker'
+
+// ─── Props ────────────────────────────────────────────────────────────────────
+
+interface SchedulePromptDialogProps {
+  /** Dialog ouvert (ex: un brouillon attend sa date) */
+  open: boolean
+  /** Texte explicatif sous le titre (défaut : cas du brouillon sans date future) */
+  description?: string
+  /** Date confirmée → la transition DRAFT → SCHEDULED peut être envoyée */
+  onConfirm: (scheduledFor: Date) => void
+  /** Annulation → la carte reste dans Brouillons */
+  onCancel: () => void
+  /** Ajout à la file (prochain créneau libre) — bouton masqué si absent */
+  onQueue?: () => void
+}
+
+// ─── Composant ────────────────────────────────────────────────────────────────
+
+/**
+ * Prompt de sélection de date pour planifier un brouillon déposé dans Planifié.
+ */
+export function SchedulePromptDialog({
+  open,
+  description = 'Ce brouillon n\'a pas de date future. Choisissez quand le publier.',
+  onConfirm,
+  onCancel,
+  onQueue,
+}: SchedulePromptDialogProps): React.JSX.Element {
+  const [scheduledFor, setScheduledFor] = useState<Date | null>(null)
+
+  // Seule une date future est acceptée (même règle que updatePostStatus côté serveur)
+  const isValid = scheduledFor !== null && scheduledFor > new Date()
+
+  return (
+    <Dialog
+      open={open}
+      onOpenChange={(isOpen) => {
+        if (!isOpen) {
+          setScheduledFor(null)
+          onCancel()
+        }
+      }}
+    >
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>Choisir une date de publication</DialogTitle>
+          <DialogDescription>{description}</DialogDescription>
+        </DialogHeader>
+
+        <DateTimePicker
+          value={scheduledFor}
+          onChange={setScheduledFor}
+          minDate={new Date()}
+          placeholder="Choisir une date de publication"
+        />
+
+        <DialogFooter>
+          <Button
+            variant="ghost"
+            onClick={() => {
+              setScheduledFor(null)
+              onCancel()
+            }}
+          >
+            Annuler
+          </Button>
+          {onQueue && (
+            <Button
+              variant="outline"
+              className="gap-1.5"
+              onClick={() => {
+                setScheduledFor(null)
+                onQueue()
+              }}
+            >
+              <ListPlus className="size-4" />
+              Ajouter à la file
+            </Button>
+          )}
+          <Button
+            disabled={!isValid}
+            onClick={() => {
+              if (!scheduledFor) return
+              setScheduledFor(null)
+              onConfirm(scheduledFor)
+            }}
+          >
+            Planifier
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,210 @@
+/**
+ * @file modules/posts/components/KanbanBoard/index.tsx
+ * @module posts
+ * @description Vue Kanban des posts (/compose) : une colonne par PostStatus,
+ *   drag & drop via @dnd-kit.
+ *
+ *   Règles de déplacement (miroir de ALLOWED_TRANSITIONS dans updatePostStatus) :
+ *   - DRAFT → SCHEDULED (prompt de date si aucune date future, ou ajout à la file
+ *     si la plateforme a des créneaux de publication)
+ *   - DRAFT → PENDING_REVIEW (soumission à validation) et retour en DRAFT (retrait) ;
+ *     approuver / rejeter se fait depuis le détail du post
+ *   - SCHEDULED → DRAFT (annule la planification)
+ *   - FAILED → DRAFT (permet de corriger et replanifier)
+ *   - PUBLISHED : colonne en lecture seule (cartes non déplaçables)
+ *
+ *   Le déplacement est optimiste (useKanbanPosts) : la carte change de colonne
+ *   immédiatement et revient à sa place si la Server Action retourne une erreur.
+ *
+ * @example
+ *   <KanbanBoard onDetail={(post) => openDetail(post)} />
+ */
+
+'use client'
+
+import {
+  DndContext,
+  DragOverlay,
+  KeyboardSensor,
+  PointerSensor,
+  useSensor,
+  useSensors,
+  type DragEndEvent,
+  type DragStartEvent,
+} from '@dnd-kit/core'
+import { AlertCircle } from 'lucide-react'
+import { useState } from 'react'
+import { toast } from 'sonner'
+
+import { Skeleton } from '@/components/ui/skeleton'
+import { useUserTimezone } from '@/modules/auth/hooks/useUserTimezone'
+import { useKanbanPosts } from '@/modules/posts/hooks/useKanbanPosts'
+import { usePostingSlots } from '@/modules/posts/hooks/usePostingSlots'
+import type { Post } from '@/modules/posts/types'
+
+import { KanbanCard } from './KanbanCard'
+import { KanbanColumn } from './KanbanColumn'
+import { SchedulePromptDialog } from './SchedulePromptDialog'
+
+// ─── Constantes ───────────────────────────────────────────────────────────────
+
+/** Ordre d'affichage des colonnes */
+const COLUMNS: Post['status'][] = ['DRAFT', 'PENDING_REVIEW', 'SCHEDULED', 'PUBLISHED', 'FAILED']
+
+/**
+ * Transitions autorisées par drag & drop.
+ * Dupliqué depuis update-post-status.action.ts : un fichier 'use server'
+ * ne peut exporter que des fonctions async. Le serveur reste la source de vérité.
+ */
+const KANBAN_TRANSITIONS: Record<Post['status'], Post['status'][]> = {
+  DRAFT: ['SCHEDULED', 'PENDING_REVIEW'],
+  PENDING_REVIEW: ['DRAFT'],
+  SCHEDULED: ['DRAFT'],
+  PUBLISHED: [],
+  FAILED: ['DRAFT'],
+}
+
+// ─── Props ────────────────────────────────────────────────────────────────────
+
+interface KanbanBoardProps {
+  /** Ouvre le modal de détail d'un post (clic sur une carte) */
+  onDetail?: (post: Post) => void
+}
+
+// ─── Composant ────────────────────────────────────────────────────────────────
+
+/**
+ * Tableau Kanban des posts avec déplacement optimiste entre statuts.
+ */
+export function KanbanBoard({ onDetail }: KanbanBoardProps): React.JSX.Element {
+  const { postsByStatus, isLoading, error, movePost, queuePost } = useKanbanPosts()
+  const { slotsByPlatform } = usePostingSlots()
+  const { timezone } = useUserTimezone()
+
+  // Post en cours de drag (rendu dans le DragOverlay)
+  const [activePost, setActivePost] = useState<Post | null>(null)
+  // Brouillon déposé dans SCHEDULED en attente d'une date
+  const [pendingSchedule, setPendingSchedule] = useState<Post | null>(null)
+
+  // Distance minimale : un clic simple ouvre le détail au lieu de démarrer un drag
+  const sensors = useSensors(
+    useSensor(PointerSensor, { activationConstraint: { distance: 5 } }),
+    useSensor(KeyboardSensor),
+  )
+
+  /**
+   * Envoie le déplacement — l'UI est mise à jour immédiatement,
+   * le toast d'erreur accompagne le rollback éventuel.
+   */
+  const handleMove = (post: Post, newStatus: Post['status'], scheduledFor?: Date): void => {
+    movePost({ post, newStatus, scheduledFor }).catch((err: Error) => {
+      toast.error(err.message)
+    })
+  }
+
+  /** Place le brouillon sur le prochain créneau libre de sa plateforme */
+  const handleQueue = (post: Post): void => {
+    queuePost(post)
+      .then((queued) => {
+        toast.success(
+          `Ajouté à la file : ${queued.scheduledFor?.toLocaleString('fr-FR', {
+            weekday: 'long',
+            day: 'numeric',
+            month: 'long',
+            hour: '2-digit',
+            minute: '2-digit',
+            timeZone: timezone,
+          })}`,
+        )
+      })
+      .catch((err: Error) => {
+        toast.error(err.message)
+      })
+  }
+
+  const handleDragStart = (event: DragStartEvent): void => {
+    setActivePost((event.active.data.current?.post as Post | undefined) ?? null)
+  }
+
+  const handleDragEnd = (event: DragEndEvent): void => {
+    setActivePost(null)
+    const post = event.active.data.current?.post as Post | undefined
+    const newStatus = event.over?.id as Post['status'] | undefined
+    if (!post || !newStatus || newStatus === post.status) return
+    if (!KANBAN_TRANSITIONS[post.status].includes(newStatus)) return
+
+    // Brouillon sans date future → demander la date avant d'appeler le serveur
+    if (
+      newStatus === 'SCHEDULED' &&
+      (!post.scheduledFor || new Date(post.scheduledFor) <= new Date())
+    ) {
+      setPendingSchedule(post)
+      return
+    }
+
+    handleMove(post, newStatus)
+  }
+
+  if (error) {
+    return (
+      <div className="flex items-center gap-2 rounded-lg border border-destructive/30 bg-destructive/5 p-4 text-sm text-destructive">
+        <AlertCircle className="size-4" />
+        Impossible de charger les posts : {error.message}
+      </div>
+    )
+  }
+
+  if (isLoading) {
+    return (
+      <div className="flex gap-3 overflow-x-auto pb-2">
+        {COLUMNS.map((status) => (
+          <Skeleton key={status} className="h-64 w-64 shrink-0 rounded-xl" />
+        ))}
+      </div>
+    )
+  }
+
+  return (
+    <>
+      <DndContext
+        sensors={sensors}
+        onDragStart={handleDragStart}
+        onDragEnd={handleDragEnd}
+        onDragCancel={() => setActivePost(null)}
+      >
+        {/* Défilement horizontal : les colonnes gardent une largeur fixe */}
+        <div className="flex gap-3 overflow-x-auto pb-2">
+          {COLUMNS.map((status) => (
+            <KanbanColumn
+              key={status}
+              status={status}
+              posts={postsByStatus[status]}
+              isDragActive={activePost !== null}
+              canDrop={activePost !== null && KANBAN_TRANSITIONS[activePost.status].includes(status)}
+              onDetail={onDetail}
+            />
+          ))}
+        </div>
+
+        <DragOverlay>{activePost ? <KanbanCard post={activePost} isOverlay /> : null}</DragOverlay>
+      </DndContext>
+
+      <SchedulePromptDialog
+        open={pendingSchedule !== null}
+        onConfirm={(scheduledFor) => {
+          if (pendingSchedule) handleMove(pendingSchedule, 'SCHEDULED', scheduledFor)
+          setPendingSchedule(null)
+        }}
+        onCancel={() => setPendingSchedule(null)}
+        onQueue={
+          pendingSchedule && slotsByPlatform.has(pendingSchedule.platform)
+            ? () => {
+                handleQueue(pendingSchedule)
+                setPendingSchedule(null)
+              }
+            : undefined
+        }
+      />
+    </>
+  )
+}
@@ -0,0 +1,100 @@
+/**
+ * @file modules/posts/components/PostApprovalSettings/index.tsx
+ * @module posts
+ * @description Section « Validation des posts » de /settings.
+ *   Active / désactive Workspace.requirePostApproval : une fois actif, un post doit être
+ *   soumis à validation puis approuvé par un propriétaire (détail du post →
+ *   PostReviewPanel) avant d'être planifié. Les posts générés par l'agent avec une
+ *   date partent en revue. Seul un OWNER peut modifier le paramètre.
+ *
+ * @example
+ *   // Dans settings/page.tsx (Server Component) :
+ *   <PostApprovalSettings />
+ */
+
+'use client'
+
+import { useQuery, useQueryClient } from '@tanstack/react-query'
+import { Loader2, ShieldCheck } from 'lucide-react'
+import { useState } from 'react'
+import { toast } from 'sonner'
+
+import { Button } from '@/components/ui/button'
+import { setPostApprovalRequired } from '@/modules/posts/actions/post-review.action'
+import { fetchWorkspaceMembers, workspaceQueryKeys } from '@/modules/workspaces/queries/workspaces.queries'
+import type { WorkspaceMembersResponse } from '@/modules/workspaces/types'
+
+// ─── Composant ────────────────────────────────────────────────────────────────
+
+/**
+ * Interrupteur de la validation avant planification.
+ * Lit la valeur depuis /api/workspaces/members (même queryKey que la section « Équipe »).
+ */
+export function PostApprovalSettings(): React.JSX.Element {
+  const queryClient = useQueryClient()
+  const [isSaving, setIsSaving] = useState(false)
+
+  const { data: team } = useQuery({
+    queryKey: workspaceQueryKeys.members(),
+    queryFn: fetchWorkspaceMembers,
+    staleTime: 30 * 1000,
+  })
+
+  const enabled = team?.workspace.requirePostApproval ?? false
+  const isOwner = team?.role === 'OWNER'
+
+  /** Bascule le paramètre puis resynchronise le workspace */
+  const handleToggle = async (): Promise<void> => {
+    if (isSaving || !team || !isOwner) return
+    setIsSaving(true)
+    try {
+      const result = await setPostApprovalRequired(!enabled)
+      if (result.success) {
+        queryClient.setQueryData<WorkspaceMembersResponse>(workspaceQueryKeys.members(), (old) =>
+          old ? { ...old, workspace: { ...old.workspace, requirePostApproval: !enabled } } : old,
+        )
+        toast.success(!enabled ? 'Validation des posts activée' : 'Validation des posts désactivée')
+      } else {
+        toast.error(result.error ?? 'Impossible d\'enregistrer le paramètre')
+      }
+    } catch (err) {
+      console.error('[PostApprovalSettings] Erreur :', err)
+      toast.error('Erreur réseau — réessayez')
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  return (
+    <div className="rounded-xl border border-border bg-card p-5">
+      <div className="flex items-start gap-3">
+        <div className="flex size-8 shrink-0 items-center justify-center rounded-md bg-primary/10 text-primary">
+          <ShieldCheck className="size-4" />
+        </div>
+        <div className="flex-1">
+          <p className="text-sm font-medium leading-none">Validation avant planification</p>
+          <p className="mt-1 text-xs text-muted-foreground">
+            Un post doit être soumis puis approuvé avant d&apos;être planifié. Toute
+            modification du texte ou des médias retire l&apos;approbation.
+          </p>
+          {team && !isOwner && (
+            <p className="mt-1 text-xs text-muted-foreground">
+              Seul un propriétaire du workspace peut modifier ce paramètre.
+            </p>
+          )}
+        </div>
+        <Button
+          variant={enabled ? 'default' : 'outline'}
+          size="sm"
+          className="shrink-0 gap-1.5 text-xs h-8"
+          onClick={() => void handleToggle()}
+          disabled={isSaving || !team || !isOwner}
+          aria-pressed={enabled}
+        >
+          {isSaving && <Loader2 className="size-3 animate-spin" />}
+          {enabled ? 'Activée' : 'Désactivée'}
+        </Button>
+      </div>
+    </div>
+  )
+}
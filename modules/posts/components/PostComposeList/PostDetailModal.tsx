@@ -3,7 +3,9 @@
  * @module posts
  * @description Modal de détail d'un post — affiche toutes les informations d'un post
  *   en un coup d'œil : texte complet, galerie médias, compteur de caractères animé,
- *   grille de métadonnées et actions rapides (modifier / supprimer).
+ *   grille de métadonnées, revue (historique + validation, PostReviewPanel),
+ *   versions du contenu avec diff et restauration (PostRevisionTimeline),
+ *   modifications tracées (PostAuditHistory) et actions rapides (modifier / supprimer).
  *
  *   Aesthetic « Obsidian Ledger » :
  *   - Bande couleur de plateforme (3px) en haut du modal
@@ -19,7 +21,7 @@
  *   - DialogTitle + DialogDescription sr-only pour screen readers
  *   - Boutons avec aria-label
  *
- *   Pattern lastPostRef : conserve le dernier post affiché pendant l'animation
+ *   Pattern lastPost : conserve le dernier post affiché pendant l'animation
  *   de fermeture du modal pour éviter un flash de contenu vide.
  *
  * @example
@@ -46,6 +48,7 @@ import {
   Pencil,
   Play,
   Trash2,
+  UserRound,
   X,
 } from 'lucide-react'
 import { useCallback, useRef, useState } from 'react'
@@ -58,14 +61,19 @@ import {
   DialogDescription,
   DialogTitle,
 } from '@/components/ui/dialog'
+import { PostAuditHistory } from '@/modules/audit/components/PostAuditHistory'
 import { PLATFORM_CONFIG } from '@/modules/platforms/constants'
+import { usePlatforms } from '@/modules/platforms/hooks/usePlatforms'
 import { STATUS_BADGE_CLASSES, STATUS_LABELS } from '@/modules/posts/utils/status-styles'
 import type { Post } from '@/modules/posts/types'
 
+import { PostReviewPanel } from './PostReviewPanel'
+import { PostRevisionTimeline } from './PostRevisionTimeline'
+
 // ─── Props ────────────────────────────────────────────────────────────────────
 
 interface PostDetailModalProps {
-  /** Post à afficher (null pendant l'animation de fermeture — lastPostRef prend le relais) */
+  /** Post à afficher (null pendant l'animation de fermeture — lastPost prend le relais) */
   post: Post | null
   /** État d'ouverture du modal */
   open: boolean
@@ -75,6 +83,8 @@ interface PostDetailModalProps {
   onEdit: (post: Post) => void
   /** Callback après suppression réussie (retire le post de la liste parente) */
   onDelete: (postId: string) => void
+  /** Callback après une action de revue (post soumis, approuvé ou rejeté) ou une restauration de version */
+  onPostChange?: (post: Post) => void
 }
 
 // ─── Helpers ──────────────────────────────────────────────────────────────────
@@ -235,7 +245,7 @@ function MetaRow({ icon, label, value }: MetaRowProps): React.JSX.Element {
 /**
  * Modal de détail d'un post avec aesthetic « Obsidian Ledger ».
  *
- * Utilise `lastPostRef` pour conserver le contenu affiché pendant l'animation
+ * Utilise `lastPost` pour conserver le contenu affiché pendant l'animation
  * de fermeture du Dialog Radix (évite le flash de contenu vide quand `post` passe à null).
  *
  * @param post        - Post à afficher (null pendant la transition de fermeture)
@@ -243,6 +253,7 @@ function MetaRow({ icon, label, value }: MetaRowProps): React.JSX.Element {
  * @param onOpenChange - Callback Radix appelé à chaque changement d'état
  * @param onEdit      - Ouvre l'AgentModal en mode édition après fermeture du détail
  * @param onDelete    - Retire le post de la liste parente après suppression
+ * @param onPostChange - Met à jour le post dans la liste parente après une action de revue ou une restauration
  */
 export function PostDetailModal({
   post,
@@ -250,14 +261,16 @@ export function PostDetailModal({
   onOpenChange,
   onEdit,
   onDelete,
+  onPostChange,
 }: PostDetailModalProps): React.JSX.Element {
-  // ── lastPostRef : préserver le contenu pendant l'animation de fermeture ──────
+  // ── lastPost : préserver le contenu pendant l'animation de fermeture ─────────
   // Radix Dialog maintient l'animation de fermeture ~200ms après que `open` passe à false.
   // Pendant cette durée, `post` peut être null. On conserve la dernière valeur non-null
   // pour que le contenu reste affiché pendant l'animation (pas de flash vide).
-  const lastPostRef = useRef<Post | null>(null)
-  if (post) lastPostRef.current = post
-  const displayPost = post ?? lastPostRef.current
+  // Mémorisé dans un état (mis à jour pendant le rendu, sans lecture de ref).
+  const [lastPost, setLastPost] = useState<Post | null>(post)
+  if (post && post !== lastPost) setLastPost(post)
+  const displayPost = post ?? lastPost
 
   // ── État de suppression (spinner dans le bouton Supprimer) ────────────────
   const [isDeleting, setIsDeleting] = useState(false)
@@ -265,11 +278,22 @@ export function PostDetailModal({
   // ── Index du média sélectionné dans la galerie ────────────────────────────
   const [activeMediaIndex, setActiveMediaIndex] = useState(0)
 
+  // ── Comptes connectés (nom du compte ciblé par le post) ───────────────────
+  const { platforms } = usePlatforms()
+
   // Aucun post à afficher (premier rendu, avant toute ouverture) → fragment vide
   if (!displayPost) return <></>
 
   const config = PLATFORM_CONFIG[displayPost.platform as keyof typeof PLATFORM_CONFIG]
 
+  // Compte ciblé : nom si connu, sinon signalement (à choisir avant planification)
+  const targetAccount = platforms.find((p) => p.id === displayPost.connectedPlatformId)
+  const accountLabel = targetAccount
+    ? targetAccount.accountName
+    : displayPost.connectedPlatformId
+      ? 'Compte déconnecté'
+      : displayPost.status === 'PUBLISHED' ? '—' : 'Non choisi'
+
   // ── Calcul du compteur de caractères ──────────────────────────────────────
   const charCount = displayPost.text.length
   const maxChars = config?.maxChars ?? 0
@@ -583,6 +607,13 @@ export function PostDetailModal({
               value={formatFullDate(displayPost.createdAt)}
             />
 
+            {/* Compte de publication ciblé */}
+            <MetaRow
+              icon={<UserRound className="size-3" />}
+              label="Compte"
+              value={accountLabel}
+            />
+
             {/* Date planifiée (uniquement si présente) */}
             {displayPost.scheduledFor && (
               <MetaRow
@@ -664,6 +695,15 @@ export function PostDetailModal({
             </div>
           )}
 
+          {/* ── Revue : historique + soumission / approbation / rejet ────────── */}
+          <PostReviewPanel post={displayPost} onPostChange={onPostChange} />
+
+          {/* ── Versions : diff mot à mot + restauration ─────────────────────── */}
+          <PostRevisionTimeline post={displayPost} onPostChange={onPostChange} />
+
+          {/* ── Modifications : journal d'audit du post ──────────────────────── */}
+          <PostAuditHistory postId={displayPost.id} />
+
           {/* ── Footer sticky : limite de caractères + actions ───────────────── */}
           {/*
            * bg-muted/30 + border-t : pied de modal visuellement distinct du contenu.
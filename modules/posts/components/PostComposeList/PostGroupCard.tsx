@@ -0,0 +1,203 @@
+/**
+ * @file modules/posts/components/PostComposeList/PostGroupCard.tsx
+ * @module posts
+ * @description Carte d'une campagne (PostGroup) dans la liste /compose.
+ *   Regroupe les posts nés d'une même instruction (1 par plateforme) : chaque post
+ *   reste affiché avec son texte propre via PostComposeCard.
+ *
+ *   Actions de groupe (Server Actions de post-group.action.ts) :
+ *   - Replanifier : même date pour tous les posts non publiés (SchedulePromptDialog)
+ *   - Annuler la planification : SCHEDULED → DRAFT + 'post/cancel' pour chacun
+ *   - Dupliquer : copie de la campagne en brouillons
+ *   - Supprimer : suppression des posts non publiés
+ *
+ * @example
+ *   <PostGroupCard
+ *     groupId={item.groupId}
+ *     posts={item.posts}
+ *     onEdit={handleOpenEdit}
+ *     onDelete={handlePostDeleted}
+ *     onDetail={handleOpenDetail}
+ *     onGroupChanged={handleGroupChanged}
+ *   />
+ */
+
+'use client'
+
+import { CalendarClock, CalendarX, Copy, Layers, Loader2, Trash2 } from 'lucide-react'
+import { useState } from 'react'
+import { toast } from 'sonner'
+
+import { Button } from '@/components/ui/button'
+import {
+  cancelPostGroup,
+  deletePostGroup,
+  duplicatePostGroup,
+  reschedulePostGroup,
+} from '@/modules/posts/actions/post-group.action'
+import { SchedulePromptDialog } from '@/modules/posts/components/KanbanBoard/SchedulePromptDialog'
+import type { Post, PostGroupActionResult } from '@/modules/posts/types'
+
+import { PostComposeCard } from './PostComposeCard'
+
+// ─── Props ────────────────────────────────────────────────────────────────────
+
+interface PostGroupCardProps {
+  /** ID de la campagne (PostGroup.id) */
+  groupId: string
+  /** Posts chargés de la campagne (≥ 2, un par plateforme) */
+  posts: Post[]
+  /** Callback "Modifier" d'un post de la campagne */
+  onEdit: (post: Post) => void
+  /** Callback après la suppression individuelle d'un post */
+  onDelete: (postId: string) => void
+  /** Callback d'ouverture du détail d'un post */
+  onDetail?: (post: Post) => void
+  /** Callback après une action de groupe réussie (resynchronisation des caches) */
+  onGroupChanged: () => void
+}
+
+/** Action de groupe en cours (désactive les boutons pendant l'appel serveur) */
+type PendingAction = 'reschedule' | 'cancel' | 'duplicate' | 'delete' | null
+
+// ─── Composant ────────────────────────────────────────────────────────────────
+
+/**
+ * Carte de campagne : en-tête avec actions de groupe + cartes des posts.
+ */
+export function PostGroupCard({
+  groupId,
+  posts,
+  onEdit,
+  onDelete,
+  onDetail,
+  onGroupChanged,
+}: PostGroupCardProps): React.JSX.Element {
+  const [pendingAction, setPendingAction] = useState<PendingAction>(null)
+  const [scheduleOpen, setScheduleOpen] = useState(false)
+
+  const hasScheduled = posts.some((post) => post.status === 'SCHEDULED')
+  const hasEditable = posts.some((post) => post.status !== 'PUBLISHED')
+
+  /**
+   * Exécute une action de groupe et affiche le résultat.
+   *
+   * @param action         - Action en cours (état des boutons)
+   * @param run            - Appel de la Server Action
+   * @param successMessage - Toast affiché en cas de succès
+   */
+  const runGroupAction = async (
+    action: Exclude<PendingAction, null>,
+    run: () => Promise<PostGroupActionResult>,
+    successMessage: string,
+  ): Promise<void> => {
+    if (pendingAction) return
+    setPendingAction(action)
+    try {
+      const result = await run()
+      if (result.success) {
+        toast.success(successMessage)
+        onGroupChanged()
+      } else {
+        toast.error(result.error ?? 'Action impossible sur cette campagne')
+      }
+    } catch (err) {
+      console.error('[PostGroupCard] Erreur action de groupe :', err)
+      toast.error('Erreur réseau — réessayez')
+    } finally {
+      setPendingAction(null)
+    }
+  }
+
+  /** Icône d'un bouton d'action (spinner si l'action est en cours) */
+  const actionIcon = (action: Exclude<PendingAction, null>, Icon: typeof Copy): React.JSX.Element =>
+    pendingAction === action ? <Loader2 className="size-3 animate-spin" /> : <Icon className="size-3" />
+
+  return (
+    <div className="space-y-2 rounded-xl border border-dashed border-border bg-muted/30 p-3">
+      {/* ── En-tête de campagne ───────────────────────────────────────────── */}
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <div className="flex items-center gap-1.5 text-xs font-medium text-muted-foreground">
+          <Layers className="size-3.5" />
+          <span>Campagne · {posts.length} posts</span>
+        </div>
+
+        <div className="flex flex-wrap items-center gap-1.5">
+          <Button
+            variant="outline"
+            size="sm"
+            className="gap-1.5 text-xs h-7 px-2"
+            disabled={pendingAction !== null || !hasEditable}
+            onClick={() => setScheduleOpen(true)}
+          >
+            {actionIcon('reschedule', CalendarClock)}
+            Replanifier
+          </Button>
+          <Button
+            variant="outline"
+            size="sm"
+            className="gap-1.5 text-xs h-7 px-2"
+            disabled={pendingAction !== null || !hasScheduled}
+            onClick={() =>
+              void runGroupAction('cancel', () => cancelPostGroup(groupId), 'Planification annulée')
+            }
+          >
+            {actionIcon('cancel', CalendarX)}
+            Annuler la planification
+          </Button>
+          <Button
+            variant="outline"
+            size="sm"
+            className="gap-1.5 text-xs h-7 px-2"
+            disabled={pendingAction !== null}
+            onClick={() =>
+              void runGroupAction('duplicate', () => duplicatePostGroup(groupId), 'Campagne dupliquée en brouillons')
+            }
+          >
+            {actionIcon('duplicate', Copy)}
+            Dupliquer
+          </Button>
+          <Button
+            variant="outline"
+            size="sm"
+            className="gap-1.5 text-xs h-7 px-2 hover:border-destructive/50 hover:bg-destructive/10 hover:text-destructive"
+            disabled={pendingAction !== null || !hasEditable}
+            onClick={() =>
+              void runGroupAction('delete', () => deletePostGroup(groupId), 'Campagne supprimée')
+            }
+          >
+            {actionIcon('delete', Trash2)}
+            Supprimer
+          </Button>
+        </div>
+      </div>
+
+      {/* ── Posts de la campagne (texte propre à chaque plateforme) ───────── */}
+      <div className="space-y-2">
+        {posts.map((post) => (
+          <PostComposeCard
+            key={post.id}
+            post={post}
+            onEdit={onEdit}
+            onDelete={onDelete}
+            onDetail={onDetail}
+          />
+        ))}
+      </div>
+
+      <SchedulePromptDialog
+        open={scheduleOpen}
+        description="Tous les posts non publiés de la campagne seront planifiés à cette date."
+        onConfirm={(scheduledFor) => {
+          setScheduleOpen(false)
+          void runGroupAction(
+            'reschedule',
+            () => reschedulePostGroup(groupId, scheduledFor),
+            'Campagne replanifiée',
+          )
+        }}
+        onCancel={() => setScheduleOpen(false)}
+      />
+    </div>
+  )
+}
@@ -0,0 +1,253 @@
+/**
+ * @file modules/posts/components/PostComposeList/PostReviewPanel.tsx
+ * @module posts
+ * @description Panneau de revue affiché dans PostDetailModal : historique du post
+ *   (transitions, commentaires, décisions avec auteur et date) et actions de
+ *   validation selon le statut :
+ *   - DRAFT          : « Soumettre à validation »
+ *   - PENDING_REVIEW : « Approuver » / « Rejeter » (motif obligatoire)
+ *   - tous statuts   : commentaire libre
+ *
+ *   Le commentaire saisi accompagne la soumission / l'approbation, sert de motif
+ *   au rejet, ou est publié seul via « Commenter ».
+ *
+ * @example
+ *   <PostReviewPanel post={post} onPostChange={(updated) => setDetailPost(updated)} />
+ */
+
+'use client'
+
+import { useQuery, useQueryClient } from '@tanstack/react-query'
+import { Check, History, Loader2, MessageSquare, Send, ShieldCheck, X } from 'lucide-react'
+import { useState } from 'react'
+import { toast } from 'sonner'
+
+import { Button } from '@/components/ui/button'
+import { Textarea } from '@/components/ui/textarea'
+import {
+  approvePost,
+  commentOnPost,
+  rejectPost,
+  submitPostForReview,
+} from '@/modules/posts/actions/post-review.action'
+import { fetchPostEvents, postQueryKeys } from '@/modules/posts/queries/posts.queries'
+import type { Post, PostEventAction, PostReviewActionResult, PostStatusEvent } from '@/modules/posts/types'
+import { STATUS_LABELS } from '@/modules/posts/utils/status-styles'
+
+// ─── Props ────────────────────────────────────────────────────────────────────
+
+interface PostReviewPanelProps {
+  /** Post affiché dans le détail */
+  post: Post
+  /** Appelé avec le post mis à jour après une soumission / décision */
+  onPostChange?: (post: Post) => void
+}
+
+/** Action de revue en cours (désactive les boutons pendant l'appel serveur) */
+type PendingAction = 'submit' | 'approve' | 'reject' | 'comment' | null
+
+// ─── Helpers ──────────────────────────────────────────────────────────────────
+
+/** Libellé d'un évènement de l'historique */
+const EVENT_LABELS: Record<PostEventAction, string> = {
+  STATUS_CHANGED: 'Statut modifié',
+  SUBMITTED: 'Soumis à validation',
+  COMMENTED: 'Commentaire',
+  APPROVED: 'Approuvé',
+  REJECTED: 'Rejeté',
+}
+
+/**
+ * Ligne de l'historique : libellé, transition éventuelle, auteur et date.
+ *
+ * @param event - Évènement de l'historique
+ * @returns Texte de l'en-tête, ex: "Statut modifié (Brouillon → Planifié) · Alice · 3 mars 14:05"
+ */
+function formatEventHeader(event: PostStatusEvent): string {
+  const transition = event.action === 'STATUS_CHANGED' && event.fromStatus && event.toStatus
+    ? ` (${STATUS_LABELS[event.fromStatus]} → ${STATUS_LABELS[event.toStatus]})`
+    : ''
+  const date = event.createdAt.toLocaleString('fr-FR', {
+    day: 'numeric',
+    month: 'short',
+    hour: '2-digit',
+    minute: '2-digit',
+  })
+  return `${EVENT_LABELS[event.action]}${transition} · ${event.actorName ?? 'Système'} · ${date}`
+}
+
+// ─── Composant ────────────────────────────────────────────────────────────────
+
+/**
+ * Historique + actions de validation d'un post.
+ */
+export function PostReviewPanel({ post, onPostChange }: PostReviewPanelProps): React.JSX.Element {
+  const queryClient = useQueryClient()
+  const [comment, setComment] = useState('')
+  const [pendingAction, setPendingAction] = useState<PendingAction>(null)
+
+  const { data: events = [], isLoading } = useQuery({
+    queryKey: postQueryKeys.events(post.id),
+    queryFn: () => fetchPostEvents(post.id),
+  })
+
+  /**
+   * Exécute une action de revue, rafraîchit l'historique et notifie le parent.
+   *
+   * @param action         - Action en cours (état des boutons)
+   * @param run            - Appel de la Server Action
+   * @param successMessage - Toast affiché en cas de succès
+   */
+  const runReviewAction = async (
+    action: Exclude<PendingAction, null>,
+    run: () => Promise<PostReviewActionResult>,
+    successMessage: string,
+  ): Promise<void> => {
+    if (pendingAction) return
+    setPendingAction(action)
+    try {
+      const result = await run()
+      if (result.success) {
+        toast.success(successMessage)
+        setComment('')
+        void queryClient.invalidateQueries({ queryKey: postQueryKeys.events(post.id) })
+        if (result.post) onPostChange?.(result.post)
+      } else {
+        toast.error(result.error ?? 'Action de revue impossible')
+      }
+    } catch (err) {
+      console.error('[PostReviewPanel] Erreur action de revue :', err)
+      toast.error('Erreur réseau — réessayez')
+    } finally {
+      setPendingAction(null)
+    }
+  }
+
+  /** Icône d'un bouton d'action (spinner si l'action est en cours) */
+  const actionIcon = (action: Exclude<PendingAction, null>, Icon: typeof Check): React.JSX.Element =>
+    pendingAction === action ? <Loader2 className="size-3 animate-spin" /> : <Icon className="size-3" />
+
+  const trimmedComment = comment.trim()
+  const isReadOnly = post.status === 'PUBLISHED'
+
+  return (
+    <div className="mx-5 mb-4 space-y-3">
+      {/* ── En-tête : titre + indicateur d'approbation ──────────────────────── */}
+      <div className="flex items-center justify-between gap-2">
+        <span className="flex items-center gap-1.5 text-[11px] font-semibold uppercase tracking-widest text-muted-foreground/70">
+          <History className="size-3" />
+          Revue et historique
+        </span>
+        {post.approvedAt && (
+          <span className="flex items-center gap-1 text-xs font-medium text-green-600 dark:text-green-400">
+            <ShieldCheck className="size-3.5" />
+            Approuvé
+          </span>
+        )}
+      </div>
+
+      {/* ── Historique ───────────────────────────────────────────────────────── */}
+      {isLoading ? (
+        <p className="text-xs text-muted-foreground">Chargement de l&apos;historique…</p>
+      ) : events.length === 0 ? (
+        <p className="text-xs text-muted-foreground">Aucun évènement pour ce post.</p>
+      ) : (
+        <ol className="space-y-2 border-l border-border pl-3">
+          {events.map((event) => (
+            <li key={event.id} className="text-xs">
+              <p className="text-muted-foreground">{formatEventHeader(event)}</p>
+              {event.comment && (
+                <p className="mt-0.5 whitespace-pre-wrap break-words text-foreground">
+                  {event.comment}
+                </p>
+              )}
+            </li>
+          ))}
+        </ol>
+      )}
+
+      {/* ── Commentaire + actions ────────────────────────────────────────────── */}
+      {!isReadOnly && (
+        <div className="space-y-2">
+          <Textarea
+            value={comment}
+            onChange={(e) => setComment(e.target.value)}
+            placeholder={post.status === 'PENDING_REVIEW'
+              ? 'Commentaire ou motif du rejet…'
+              : 'Ajouter un commentaire…'}
+            maxLength={2000}
+            className="min-h-14 text-sm"
+            disabled={pendingAction !== null}
+          />
+
+          <div className="flex flex-wrap items-center justify-end gap-1.5">
+            <Button
+              variant="ghost"
+              size="sm"
+              className="gap-1.5 text-xs h-7 px-2"
+              disabled={pendingAction !== null || !trimmedComment}
+              onClick={() => void runReviewAction(
+                'comment',
+                () => commentOnPost({ postId: post.id, comment: trimmedComment }),
+                'Commentaire ajouté',
+              )}
+            >
+              {actionIcon('comment', MessageSquare)}
+              Commenter
+            </Button>
+
+            {post.status === 'DRAFT' && (
+              <Button
+                variant="outline"
+                size="sm"
+                className="gap-1.5 text-xs h-7 px-2"
+                disabled={pendingAction !== null}
+                onClick={() => void runReviewAction(
+                  'submit',
+                  () => submitPostForReview({ postId: post.id, comment: trimmedComment }),
+                  'Post soumis à validation',
+                )}
+              >
+                {actionIcon('submit', Send)}
+                Soumettre à validation
+              </Button>
+            )}
+
+            {post.status === 'PENDING_REVIEW' && (
+              <>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  className="gap-1.5 text-xs h-7 px-2 text-destructive hover:text-destructive"
+                  disabled={pendingAction !== null || !trimmedComment}
+                  title={!trimmedComment ? 'Indiquez le motif du rejet' : undefined}
+                  onClick={() => void runReviewAction(
+                    'reject',
+                    () => rejectPost({ postId: post.id, comment: trimmedComment }),
+                    'Post rejeté',
+                  )}
+                >
+                  {actionIcon('reject', X)}
+                  Rejeter
+                </Button>
+                <Button
+                  size="sm"
+                  className="gap-1.5 text-xs h-7 px-2"
+                  disabled={pendingAction !== null}
+                  onClick={() => void runReviewAction(
+                    'approve',
+                    () => approvePost({ postId: post.id, comment: trimmedComment }),
+                    'Post approuvé — il peut être planifié',
+                  )}
+                >
+                  {actionIcon('approve', Check)}
+                  Approuver
+                </Button>
+              </>
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  )
+}
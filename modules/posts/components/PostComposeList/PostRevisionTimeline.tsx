@@ -0,0 +1,204 @@
+/**
+ * @file modules/posts/components/PostComposeList/PostRevisionTimeline.tsx
+ * @module posts
+ * @description Timeline des révisions du contenu d'un post, affichée dans PostDetailModal.
+ *   Chaque version (composer, agent IA avec son instruction, restauration) est
+ *   dépliable pour voir le diff mot à mot avec la version précédente.
+ *   « Restaurer » remet le texte et les médias d'une version (restorePostRevision :
+ *   mêmes validations qu'une sauvegarde depuis le composer).
+ *
+ * @example
+ *   <PostRevisionTimeline post={post} onPostChange={(updated) => setDetailPost(updated)} />
+ */
+
+'use client'
+
+import { useQuery, useQueryClient } from '@tanstack/react-query'
+import { ChevronDown, ChevronRight, GitCommitVertical, Loader2, RotateCcw } from 'lucide-react'
+import { useState } from 'react'
+import { toast } from 'sonner'
+
+import { Button } from '@/components/ui/button'
+import { cn } from '@/lib/utils'
+import { auditQueryKeys } from '@/modules/audit/queries/audit.queries'
+import { restorePostRevision } from '@/modules/posts/actions/save-post.action'
+import { fetchPostRevisions, postQueryKeys } from '@/modules/posts/queries/posts.queries'
+import type { Post, PostRevision, RevisionSource } from '@/modules/posts/types'
+import { hasContentChanged } from '@/modules/posts/utils/post-review'
+import { diffWords } from '@/modules/posts/utils/revision-diff'
+
+// ─── Props ────────────────────────────────────────────────────────────────────
+
+interface PostRevisionTimelineProps {
+  /** Post affiché dans le détail */
+  post: Post
+  /** Appelé avec le post mis à jour après une restauration */
+  onPostChange?: (post: Post) => void
+}
+
+// ─── Helpers ──────────────────────────────────────────────────────────────────
+
+/** Libellé de l'origine d'une révision */
+const SOURCE_LABELS: Record<RevisionSource, string> = {
+  MANUAL: 'Modification manuelle',
+  AGENT: 'Modification par l\'agent',
+  RESTORE: 'Restauration',
+}
+
+/**
+ * En-tête d'une révision : origine, auteur et date.
+ *
+ * @param revision - Révision
+ * @param isOrigin - Première révision (état d'origine du post)
+ * @returns Texte, ex: "Modification par l'agent · Alice · 3 mars 14:05"
+ */
+function formatRevisionHeader(revision: PostRevision, isOrigin: boolean): string {
+  const date = revision.createdAt.toLocaleString('fr-FR', {
+    day: 'numeric',
+    month: 'short',
+    hour: '2-digit',
+    minute: '2-digit',
+  })
+  const label = isOrigin ? 'Version d\'origine' : SOURCE_LABELS[revision.source]
+  return [label, revision.authorName, date].filter(Boolean).join(' · ')
+}
+
+/**
+ * Résumé du changement de médias entre deux versions.
+ *
+ * @param previous - Médias de la version précédente
+ * @param current  - Médias de la version affichée
+ * @returns Ex: "Médias : 2 → 3", ou null si inchangés
+ */
+function formatMediaChange(previous: string[], current: string[]): string | null {
+  if (!hasContentChanged({ text: '', mediaUrls: previous }, { text: '', mediaUrls: current })) return null
+  return previous.length === current.length
+    ? 'Médias réorganisés ou remplacés'
+    : `Médias : ${previous.length} → ${current.length}`
+}
+
+// ─── Composant ────────────────────────────────────────────────────────────────
+
+/**
+ * Révisions du post (la plus récente en premier) avec diff et restauration.
+ */
+export function PostRevisionTimeline({ post, onPostChange }: PostRevisionTimelineProps): React.JSX.Element | null {
+  const queryClient = useQueryClient()
+  const [expandedId, setExpandedId] = useState<string | null>(null)
+  const [restoringId, setRestoringId] = useState<string | null>(null)
+
+  const { data: revisions = [], isLoading } = useQuery({
+    queryKey: postQueryKeys.revisions(post.id),
+    queryFn: () => fetchPostRevisions(post.id),
+  })
+
+  const handleRestore = async (revision: PostRevision): Promise<void> => {
+    if (restoringId) return
+    setRestoringId(revision.id)
+    try {
+      const result = await restorePostRevision({ postId: post.id, revisionId: revision.id })
+      if (result.success) {
+        toast.success('Version restaurée')
+        void queryClient.invalidateQueries({ queryKey: postQueryKeys.revisions(post.id) })
+        void queryClient.invalidateQueries({ queryKey: postQueryKeys.events(post.id) })
+        void queryClient.invalidateQueries({ queryKey: auditQueryKeys.entity('POST', post.id) })
+        if (result.post) onPostChange?.(result.post)
+      } else {
+        toast.error(result.error ?? 'Restauration impossible')
+      }
+    } catch (err) {
+      console.error('[PostRevisionTimeline] Erreur restauration :', err)
+      toast.error('Erreur réseau — réessayez')
+    } finally {
+      setRestoringId(null)
+    }
+  }
+
+  // Aucune modification de contenu depuis la création : rien à afficher
+  if (!isLoading && revisions.length === 0) return null
+
+  const canRestore = post.status !== 'PUBLISHED'
+
+  return (
+    <div className="mx-5 mb-4 space-y-3">
+      <span className="flex items-center gap-1.5 text-[11px] font-semibold uppercase tracking-widest text-muted-foreground/70">
+        <GitCommitVertical className="size-3" />
+        Versions
+      </span>
+
+      {isLoading ? (
+        <p className="text-xs text-muted-foreground">Chargement des versions…</p>
+      ) : (
+        <ol className="space-y-2 border-l border-border pl-3">
+          {revisions
+            .map((revision, index) => ({ revision, previous: revisions[index - 1] ?? null }))
+            .reverse()
+            .map(({ revision, previous }) => {
+              const isExpanded = expandedId === revision.id
+              const isCurrent = !hasContentChanged(revision, post)
+              const mediaChange = previous ? formatMediaChange(previous.mediaUrls, revision.mediaUrls) : null
+
+              return (
+                <li key={revision.id} className="text-xs">
+                  <div className="flex items-center gap-1.5">
+                    <button
+                      type="button"
+                      onClick={() => setExpandedId(isExpanded ? null : revision.id)}
+                      className="flex min-w-0 flex-1 items-center gap-1 text-left text-muted-foreground hover:text-foreground"
+                      aria-expanded={isExpanded}
+                    >
+                      {isExpanded
+                        ? <ChevronDown className="size-3 shrink-0" />
+                        : <ChevronRight className="size-3 shrink-0" />}
+                      <span className="truncate">{formatRevisionHeader(revision, previous === null)}</span>
+                    </button>
+
+                    {isCurrent ? (
+                      <span className="shrink-0 text-[11px] text-muted-foreground">Actuelle</span>
+                    ) : canRestore && (
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        className="h-6 shrink-0 gap-1 px-1.5 text-[11px]"
+                        disabled={restoringId !== null}
+                        onClick={() => void handleRestore(revision)}
+                      >
+                        {restoringId === revision.id
+                          ? <Loader2 className="size-3 animate-spin" />
+                          : <RotateCcw className="size-3" />}
+                        Restaurer
+                      </Button>
+                    )}
+                  </div>
+
+                  {revision.instruction && (
+                    <p className="mt-0.5 pl-4 italic text-muted-foreground">« {revision.instruction} »</p>
+                  )}
+
+                  {isExpanded && (
+                    <div className="mt-1.5 space-y-1 pl-4">
+                      {/* Diff mot à mot avec la version précédente (texte complet pour l'origine) */}
+                      <p className="whitespace-pre-wrap break-words rounded-md bg-muted/40 p-2 text-foreground">
+                        {diffWords(previous?.text ?? revision.text, revision.text).map((segment, i) => (
+                          <span
+                            key={i}
+                            className={cn(
+                              segment.type === 'added' && 'bg-green-500/15 text-green-700 dark:text-green-300',
+                              segment.type === 'removed' && 'bg-red-500/15 text-red-700 line-through dark:text-red-300',
+                            )}
+                          >
+                            {segment.text}
+                          </span>
+                        ))}
+                      </p>
+                      {mediaChange && <p className="text-muted-foreground">{mediaChange}</p>}
+                    </div>
+                  )}
+                </li>
+              )
+            })}
+        </ol>
+      )}
+    </div>
+  )
+}
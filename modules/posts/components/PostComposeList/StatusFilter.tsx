@@ -36,7 +36,7 @@ import type { Post } from '@/modules/posts/types'
  * Ordre d'affichage des statuts dans le Popover.
  * Suit la progression naturelle du cycle de vie d'un post.
  */
-const ALL_STATUSES: Post['status'][] = ['DRAFT', 'SCHEDULED', 'PUBLISHED', 'FAILED']
+const ALL_STATUSES: Post['status'][] = ['DRAFT', 'PENDING_REVIEW', 'SCHEDULED', 'PUBLISHED', 'FAILED']
 
 /**
  * Config visuelle pour chaque statut.
@@ -48,10 +48,11 @@ const STATUS_FILTER_CONFIG: Record<
   Post['status'],
   { label: string; color: string; bgColor: string }
 > = {
-  DRAFT:     { label: 'Brouillon', color: '#6B7280', bgColor: '#F3F4F6' },
-  SCHEDULED: { label: 'Planifié',  color: '#2563EB', bgColor: '#EFF6FF' },
-  PUBLISHED: { label: 'Publié',    color: '#16A34A', bgColor: '#F0FDF4' },
-  FAILED:    { label: 'Échoué',    color: '#DC2626', bgColor: '#FEF2F2' },
+  DRAFT:          { label: 'Brouillon',  color: '#6B7280', bgColor: '#F3F4F6' },
+  PENDING_REVIEW: { label: 'En revue',   color: '#D97706', bgColor: '#FFFBEB' },
+  SCHEDULED:      { label: 'Planifié',   color: '#2563EB', bgColor: '#EFF6FF' },
+  PUBLISHED:      { label: 'Publié',     color: '#16A34A', bgColor: '#F0FDF4' },
+  FAILED:         { label: 'Échoué',     color: '#DC2626', bgColor: '#FEF2F2' },
 }
 
 // ─── Props ────────────────────────────────────────────────────────────────────
@@ -11,6 +11,10 @@
  *     → reset à la page 1 à chaque changement de filtre
  *   - Updates optimistes (create/update/delete) via queryClient.setQueryData
  *   - Bouton "Nouveau post" → AgentModal (création / édition)
+ *   - Campagnes : les posts d'une même instruction (même groupId) sont regroupés
+ *     dans une PostGroupCard (replanifier / annuler / dupliquer / supprimer en lot)
+ *   - Bascule Liste / Kanban : la vue Kanban (KanbanBoard) affiche tous les statuts
+ *     et permet de changer le statut d'un post par drag & drop
  *
  *   Note : la vue calendrier est disponible à /calendar (page dédiée).
  *
@@ -20,25 +24,28 @@
  *
  * @example
  *   // Dans compose/page.tsx (Server Component)
- *   const { posts, nextCursor } = await fetchInitialPosts(userId)
+ *   const { posts, nextCursor } = await fetchInitialPosts(workspace.id)
  *   <PostComposeList initialPosts={posts} initialNextCursor={nextCursor} />
  */
 
 'use client'
 
 import { useInfiniteQuery, useQueryClient } from '@tanstack/react-query'
-import { FileText, Loader2, Plus, Search, X } from 'lucide-react'
+import { Columns3, FileText, List, Loader2, Plus, Search, X } from 'lucide-react'
 import { useEffect, useMemo, useRef, useState } from 'react'
 
 import { Button } from '@/components/ui/button'
 import { AgentModal } from '@/modules/posts/components/AgentModal'
-import { composeQueryKey, fetchComposePage } from '@/modules/posts/queries/posts.queries'
+import { KanbanBoard } from '@/modules/posts/components/KanbanBoard'
+import { composeQueryKey, fetchComposePage, postQueryKeys } from '@/modules/posts/queries/posts.queries'
 import type { ComposeFilters, ComposePage } from '@/modules/posts/queries/posts.queries'
 import type { Post } from '@/modules/posts/types'
+import { groupComposePosts } from '@/modules/posts/utils/post-groups'
 
 import { AIFilterModal } from './AIFilterModal'
 import { PostComposeCard } from './PostComposeCard'
 import { PostDetailModal } from './PostDetailModal'
+import { PostGroupCard } from './PostGroupCard'
 
 import type { ExtractedFilters } from './AIFilterModal'
 import type { InfiniteData } from '@tanstack/react-query'
@@ -181,6 +188,9 @@ export function PostComposeList({
     [data],
   )
 
+  // ── Regroupement par campagne (ordre serveur conservé) ────────────────────
+  const listItems = useMemo(() => groupComposePosts(allPosts), [allPosts])
+
   // ── Plateformes disponibles (pour un éventuel retour des filtres manuels) ──
   // Accumulateur : une fois vues, les plateformes restent dans la liste même
   // si le filtre actif les masque (évite la disparition du filtre après sélection).
@@ -237,6 +247,8 @@ export function PostComposeList({
    * @param newPosts - Posts créés par l'agent (un par plateforme ciblée)
    */
   const handlePostsCreated = (newPosts: Post[]): void => {
+    // La vue Kanban a son propre cache (tous statuts) → le resynchroniser
+    void queryClient.invalidateQueries({ queryKey: postQueryKeys.kanban() })
     queryClient.setQueryData<ComposeData>(getKey(), (old) => {
       if (!old) return old
       const [first, ...rest] = old.pages
@@ -261,6 +273,8 @@ export function PostComposeList({
    * @param updatedPost - Post mis à jour retourné par l'API
    */
   const handlePostUpdated = (updatedPost: Post): void => {
+    // La vue Kanban a son propre cache (tous statuts) → le resynchroniser
+    void queryClient.invalidateQueries({ queryKey: postQueryKeys.kanban() })
     queryClient.setQueryData<ComposeData>(getKey(), (old) => {
       if (!old) return old
 
@@ -295,6 +309,8 @@ export function PostComposeList({
    * @param postId - ID du post supprimé
    */
   const handlePostDeleted = (postId: string): void => {
+    // La vue Kanban a son propre cache (tous statuts) → le resynchroniser
+    void queryClient.invalidateQueries({ queryKey: postQueryKeys.kanban() })
     queryClient.setQueryData<ComposeData>(getKey(), (old) => {
       if (!old) return old
       return {
@@ -307,6 +323,20 @@ export function PostComposeList({
     })
   }
 
+  /**
+   * Resynchronise les caches après une action de groupe (PostGroupCard).
+   * Une action de campagne touche plusieurs posts (et peut en créer) :
+   * rechargement serveur plutôt qu'un update optimiste.
+   */
+  const handleGroupChanged = (): void => {
+    void queryClient.invalidateQueries({ queryKey: ['posts', 'compose'] })
+    void queryClient.invalidateQueries({ queryKey: postQueryKeys.kanban() })
+    void queryClient.invalidateQueries({ queryKey: postQueryKeys.calendars() })
+  }
+
+  // ── Mode d'affichage (liste paginée ou Kanban par statut) ─────────────────
+  const [viewMode, setViewMode] = useState<'list' | 'kanban'>('list')
+
   // ── État du modal PostDetailModal ─────────────────────────────────────────
   /** Post dont on affiche le détail (null = modal fermé) */
   const [detailPost, setDetailPost] = useState<Post | null>(null)
@@ -366,7 +396,7 @@ export function PostComposeList({
     setSelectedStatuses(
       filters.statuses.length > 0
         ? (filters.statuses as Post['status'][])
-        : ['DRAFT', 'SCHEDULED', 'PUBLISHED', 'FAILED'],
+        : ['DRAFT', 'PENDING_REVIEW', 'SCHEDULED', 'PUBLISHED', 'FAILED'],
     )
     // Convertir les dates string ISO en Date pour react-day-picker DateRange
     // `to` est optionnel (plage ouverte vers le futur) — ne pas créer d'Invalid Date
@@ -451,6 +481,30 @@ export function PostComposeList({
 
         <div className="flex items-center gap-2">
 
+          {/* ── Bascule Liste / Kanban ──────────────────────────────────────── */}
+          <div className="flex items-center rounded-md border border-border p-0.5">
+            <Button
+              variant={viewMode === 'list' ? 'secondary' : 'ghost'}
+              size="icon"
+              className="size-7"
+              onClick={() => setViewMode('list')}
+              aria-label="Vue liste"
+              title="Vue liste"
+            >
+              <List className="size-3.5" />
+            </Button>
+            <Button
+              variant={viewMode === 'kanban' ? 'secondary' : 'ghost'}
+              size="icon"
+              className="size-7"
+              onClick={() => setViewMode('kanban')}
+              aria-label="Vue Kanban"
+              title="Vue Kanban"
+            >
+              <Columns3 className="size-3.5" />
+            </Button>
+          </div>
+
           {/* TODO: filtres manuels — désactivés au profit du filtre IA — décommenter pour réactiver */}
           {/* Filtre plateforme — visible si ≥ 2 plateformes distinctes chargées */}
           {/* {availablePlatforms.length >= 2 && (
@@ -471,24 +525,27 @@ export function PostComposeList({
           {/* <DateRangeFilter dateRange={dateRange} onChange={setDateRange} /> */}
 
           {/* ── Bouton Rechercher (filtre IA en langage naturel) ────────────── */}
-          <Button
-            variant={hasActiveFilter ? 'secondary' : 'outline'}
-            size="sm"
-            onClick={() => setAiModalOpen(true)}
-            className="gap-2"
-          >
-            <Search className="size-3.5" />
-            {hasActiveFilter && activeQueryText
-              ? /* Afficher le début de la requête active (max 20 chars) */
-                activeQueryText.length > 20
-                  ? `${activeQueryText.slice(0, 20)}…`
-                  : activeQueryText
-              : 'Rechercher'
-            }
-          </Button>
+          {/* Masqué en vue Kanban : le tableau affiche tous les posts sans filtre */}
+          {viewMode === 'list' && (
+            <Button
+              variant={hasActiveFilter ? 'secondary' : 'outline'}
+              size="sm"
+              onClick={() => setAiModalOpen(true)}
+              className="gap-2"
+            >
+              <Search className="size-3.5" />
+              {hasActiveFilter && activeQueryText
+                ? /* Afficher le début de la requête active (max 20 chars) */
+                  activeQueryText.length > 20
+                    ? `${activeQueryText.slice(0, 20)}…`
+                    : activeQueryText
+                : 'Rechercher'
+              }
+            </Button>
+          )}
 
           {/* Bouton effacer le filtre — visible uniquement si un filtre est actif */}
-          {hasActiveFilter && (
+          {viewMode === 'list' && hasActiveFilter && (
             <Button
               variant="ghost"
               size="icon"
@@ -507,6 +564,11 @@ export function PostComposeList({
       {/* ── Liste des posts ─────────────────────────────────────────────────── */}
       {/* mt-4 : 16px d'espacement entre la toolbar et le contenu (espace-y-6 du parent
           ne s'applique plus à ces éléments depuis le passage au wrapper <div>) */}
+      {viewMode === 'kanban' ? (
+        <div className="mt-4">
+          <KanbanBoard onDetail={handleOpenDetail} />
+        </div>
+      ) : (
       <div className="mt-4">
           {/* Barre de statut — compteur + indicateur de filtre actif */}
           {allPosts.length > 0 && hasActiveFilter && (
@@ -560,15 +622,27 @@ export function PostComposeList({
           ) : (
             /* Liste des posts (filtrés côté serveur) */
             <div className="space-y-3">
-              {allPosts.map((post) => (
-                <PostComposeCard
-                  key={post.id}
-                  post={post}
-                  onEdit={handleOpenEdit}
-                  onDelete={handlePostDeleted}
-                  onDetail={handleOpenDetail}
-                />
-              ))}
+              {listItems.map((item) =>
+                item.type === 'group' ? (
+                  <PostGroupCard
+                    key={item.groupId}
+                    groupId={item.groupId}
+                    posts={item.posts}
+                    onEdit={handleOpenEdit}
+                    onDelete={handlePostDeleted}
+                    onDetail={handleOpenDetail}
+                    onGroupChanged={handleGroupChanged}
+                  />
+                ) : (
+                  <PostComposeCard
+                    key={item.post.id}
+                    post={item.post}
+                    onEdit={handleOpenEdit}
+                    onDelete={handlePostDeleted}
+                    onDetail={handleOpenDetail}
+                  />
+                ),
+              )}
             </div>
           )}
 
@@ -590,6 +664,7 @@ export function PostComposeList({
             </div>
           )}
       </div>
+      )}
 
       {/* ── PostDetailModal — affichage complet d'un post ───────────────────── */}
       {/*
@@ -608,6 +683,12 @@ export function PostComposeList({
           setModalOpen(true)
         }}
         onDelete={handlePostDeleted}
+        onPostChange={(post) => {
+          // Le détail reste ouvert : afficher le nouveau statut immédiatement
+          setDetailPost(post)
+          handlePostUpdated(post)
+          void queryClient.invalidateQueries({ queryKey: postQueryKeys.calendars() })
+        }}
       />
 
       {/* ── AgentModal — mode création ──────────────────────────────────────── */}
@@ -617,6 +698,7 @@ export function PostComposeList({
           open={modalOpen}
           onOpenChange={setModalOpen}
           onPostsCreated={handlePostsCreated}
+          onPostUpdated={handlePostUpdated}
         />
       )}
 
@@ -628,6 +710,7 @@ export function PostComposeList({
           open={modalOpen}
           onOpenChange={setModalOpen}
           onPostUpdated={handlePostUpdated}
+          onPostsCreated={handlePostsCreated}
         />
       )}
 
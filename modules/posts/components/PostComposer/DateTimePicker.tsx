@@ -13,6 +13,10 @@
  *   4. La valeur remonte via `onChange(date)` à chaque modification
  *   5. Le × dans le bouton efface la sélection (onChange(null))
  *
+ *   Fuseau horaire : le jour et l'heure sont saisis et affichés dans le fuseau
+ *   de l'utilisateur (User.timezone via useUserTimezone), pas dans celui du
+ *   navigateur. `value` reste un instant absolu (Date).
+ *
  * @example
  *   <DateTimePicker
  *     value={scheduledFor}
@@ -34,7 +38,9 @@ import {
   PopoverContent,
   PopoverTrigger,
 } from '@/components/ui/popover'
+import { getZonedParts, zonedTimeToUtc } from '@/lib/timezone'
 import { cn } from '@/lib/utils'
+import { useUserTimezone } from '@/modules/auth/hooks/useUserTimezone'
 
 // ─── Types ────────────────────────────────────────────────────────────────────
 
@@ -49,6 +55,8 @@ interface DateTimePickerProps {
   disabled?: boolean
   /** Texte affiché dans le bouton quand aucune date n'est sélectionnée */
   placeholder?: string
+  /** Fuseau IANA de saisie/affichage (défaut : fuseau de l'utilisateur connecté) */
+  timeZone?: string
 }
 
 // ─── Helpers de formatage ─────────────────────────────────────────────────────
@@ -58,21 +66,37 @@ interface DateTimePickerProps {
  * Utilise les API Intl natives pour éviter toute dépendance date-fns.
  *
  * @param date - La date à formater
+ * @param timeZone - Fuseau d'affichage
  * @returns Chaîne lisible, ex. "lun. 24 févr. à 09:00"
  */
-function formatTrigger(date: Date): string {
+function formatTrigger(date: Date, timeZone: string): string {
   const dayPart = date.toLocaleDateString('fr-FR', {
     weekday: 'short',
     day: 'numeric',
     month: 'short',
+    timeZone,
   })
   const timePart = date.toLocaleTimeString('fr-FR', {
     hour: '2-digit',
     minute: '2-digit',
+    timeZone,
   })
   return `${dayPart} à ${timePart}`
 }
 
+/**
+ * Représente le jour calendaire d'un instant (dans `timeZone`) par une Date à
+ * minuit local navigateur — format attendu par react-day-picker.
+ *
+ * @param date - Instant à projeter
+ * @param timeZone - Fuseau de référence
+ * @returns Date locale à 00:00 du même jour calendaire
+ */
+function toCalendarDay(date: Date, timeZone: string): Date {
+  const p = getZonedParts(date, timeZone)
+  return new Date(p.year, p.month - 1, p.day)
+}
+
 /**
  * Arrondit les minutes à l'intervalle de 5 min le plus proche.
  * Permet d'initialiser le spinner minute sur une valeur "propre".
@@ -198,9 +222,14 @@ export function DateTimePicker({
   minDate,
   disabled = false,
   placeholder = 'Choisir une date…',
+  timeZone,
 }: DateTimePickerProps): React.JSX.Element {
   const [open, setOpen] = useState(false)
 
+  // Fuseau effectif : prop explicite, sinon fuseau de l'utilisateur connecté
+  const { timezone: userTimezone } = useUserTimezone()
+  const tz = timeZone ?? userTimezone
+
   // ── État "en attente" pour l'heure/minute avant qu'un jour soit sélectionné ──
   // Quand `value` est null (aucun jour sélectionné), l'utilisateur peut quand
   // même pré-régler l'heure : ces valeurs seront appliquées au premier clic
@@ -212,8 +241,9 @@ export function DateTimePicker({
   // - si une date est sélectionnée → dérivées directement depuis `value` (pas d'état local)
   // - sinon → état interne "pending" (heure pré-réglée sans jour)
   // Ce pattern évite le useEffect pour synchroniser state/props (anti-pattern React).
-  const displayHour = value ? value.getHours() : pendingHour
-  const displayMinute = value ? roundMinutes(value.getMinutes()) : pendingMinute
+  const zoned = value ? getZonedParts(value, tz) : null
+  const displayHour = zoned ? zoned.hour : pendingHour
+  const displayMinute = zoned ? roundMinutes(zoned.minute) : pendingMinute
 
   // ── Sélection d'un jour dans le calendrier ────────────────────────────────
 
@@ -227,10 +257,20 @@ export function DateTimePicker({
       onChange(null)
       return
     }
-    // Appliquer l'heure affichée dans les spinners sur le nouveau jour
-    const combined = new Date(day)
-    combined.setHours(displayHour, displayMinute, 0, 0)
-    onChange(combined)
+    // Appliquer l'heure affichée dans les spinners sur le nouveau jour,
+    // interprétée dans le fuseau de l'utilisateur
+    onChange(
+      zonedTimeToUtc(
+        {
+          year: day.getFullYear(),
+          month: day.getMonth() + 1,
+          day: day.getDate(),
+          hour: displayHour,
+          minute: displayMinute,
+        },
+        tz,
+      ),
+    )
   }
 
   // ── Mise à jour de l'heure ────────────────────────────────────────────────
@@ -241,10 +281,8 @@ export function DateTimePicker({
    * Sinon → met à jour l'état "pending" (heure pré-réglée).
    */
   const handleHourChange = (hour: number): void => {
-    if (value) {
-      const updated = new Date(value)
-      updated.setHours(hour)
-      onChange(updated)
+    if (zoned) {
+      onChange(zonedTimeToUtc({ ...zoned, hour, second: 0 }, tz))
     } else {
       setPendingHour(hour)
     }
@@ -255,10 +293,8 @@ export function DateTimePicker({
    * Même logique que handleHourChange : date complète si jour sélectionné, pending sinon.
    */
   const handleMinuteChange = (minute: number): void => {
-    if (value) {
-      const updated = new Date(value)
-      updated.setMinutes(minute, 0, 0)
-      onChange(updated)
+    if (zoned) {
+      onChange(zonedTimeToUtc({ ...zoned, minute, second: 0 }, tz))
     } else {
       setPendingMinute(minute)
     }
@@ -295,14 +331,14 @@ export function DateTimePicker({
             // Couleur du texte selon état
             value ? 'text-foreground' : 'text-muted-foreground',
           )}
-          aria-label={value ? `Date de publication : ${formatTrigger(value)}` : placeholder}
+          aria-label={value ? `Date de publication : ${formatTrigger(value, tz)}` : placeholder}
         >
           {/* Icône calendrier */}
           <CalendarIcon className="size-4 shrink-0 text-muted-foreground" />
 
           {/* Texte : date formatée ou placeholder */}
           <span className="flex-1 text-left">
-            {value ? formatTrigger(value) : placeholder}
+            {value ? formatTrigger(value, tz) : placeholder}
           </span>
 
           {/* Bouton ✕ pour effacer — visible uniquement si une date est sélectionnée */}
@@ -335,10 +371,10 @@ export function DateTimePicker({
         {/* Calendrier mensuel — locale française */}
         <Calendar
           mode="single"
-          selected={value ?? undefined}
+          selected={value ? toCalendarDay(value, tz) : undefined}
           onSelect={handleDaySelect}
           // Désactiver les jours avant minDate (ou aujourd'hui si non précisé)
-          disabled={minDate ? { before: minDate } : { before: new Date() }}
+          disabled={{ before: toCalendarDay(minDate ?? new Date(), tz) }}
           locale={fr}
           // Commence la semaine le lundi (ISO)
           weekStartsOn={1}
@@ -375,6 +411,11 @@ export function DateTimePicker({
             ariaLabel="minutes"
           />
         </div>
+
+        {/* Fuseau de saisie — rappel pour les équipes réparties sur plusieurs fuseaux */}
+        <p className="px-3 pb-3 text-center text-[11px] text-muted-foreground">
+          Fuseau : {tz}
+        </p>
       </PopoverContent>
     </Popover>
   )
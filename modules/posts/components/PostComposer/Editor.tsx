@@ -8,10 +8,12 @@
  *     - Onglet "Tous" → limite min de toutes les plateformes sélectionnées
  *     - Onglet plateforme → PLATFORM_RULES[platform].maxText
  *   - Une info-ligne affiche les règles de la plateforme active
+ *   - Mode thread (X, Threads, Bluesky) : segments suivants édités par ThreadEditor,
+ *     découpage automatique d'un texte trop long (splitIntoThread)
  *
  *   Interaction avec le contexte :
- *   - Lit : activeText, activePlatformTab, platforms, isSubmitting
- *   - Écrit : setActiveText
+ *   - Lit : activeText, activePlatformTab, platforms, threadParts, isSubmitting
+ *   - Écrit : setActiveText, addThreadPart, setThreadParts
  *
  * @example
  *   <PostComposer>
@@ -21,14 +23,17 @@
 
 'use client'
 
+import { ListTree, Scissors } from 'lucide-react'
 import { useCallback } from 'react'
 
 import { PLATFORM_RULES } from '@/modules/platforms/config/platform-rules'
 import type { Platform } from '@/modules/platforms/types'
 import { getCharLimit } from '@/modules/posts/schemas/post.schema'
+import { splitIntoThread, THREAD_MAX_PARTS } from '@/modules/posts/utils/thread'
 import { SignaturePicker } from '@/modules/signatures/components/SignaturePicker'
 
 import { usePostComposerContext } from './context'
+import { ThreadEditor } from './ThreadEditor'
 
 // ─── Props ────────────────────────────────────────────────────────────────────
 
@@ -53,8 +58,17 @@ export function Editor({
   placeholder = 'Rédigez votre post...',
   rows = 6,
 }: EditorProps): React.JSX.Element {
-  const { activeText, setActiveText, platforms, activePlatformTab, isSubmitting, appendSignature } =
-    usePostComposerContext()
+  const {
+    activeText,
+    setActiveText,
+    platforms,
+    activePlatformTab,
+    isSubmitting,
+    appendSignature,
+    threadParts,
+    addThreadPart,
+    setThreadParts,
+  } = usePostComposerContext()
 
   // ─── Limite de caractères selon l'onglet actif ──────────────────────────────
   // Onglet "Tous" → limite la plus restrictive des plateformes sélectionnées
@@ -65,6 +79,26 @@ export function Editor({
   const isOverLimit = remaining < 0
   const isNearLimit = remaining >= 0 && remaining <= charLimit * 0.1
 
+  // ─── Mode thread ────────────────────────────────────────────────────────────
+  // Proposé si l'onglet actif (ou une plateforme sélectionnée sur "Tous") accepte les threads
+  const canThread = activePlatformTab
+    ? PLATFORM_RULES[activePlatformTab].supportsThreads
+    : platforms.some((p) => PLATFORM_RULES[p].supportsThreads)
+
+  /**
+   * Découpe le texte principal en thread : le premier segment reste dans l'éditeur,
+   * les suivants sont insérés avant les segments existants (total limité à THREAD_MAX_PARTS).
+   */
+  const handleAutoSplit = useCallback((): void => {
+    const [first, ...rest] = splitIntoThread(activeText, charLimit)
+    if (!first) return
+    setActiveText(first)
+    setThreadParts([
+      ...rest.map((part) => ({ text: part, mediaUrls: [] })),
+      ...threadParts,
+    ].slice(0, THREAD_MAX_PARTS))
+  }, [activeText, charLimit, threadParts, setActiveText, setThreadParts])
+
   /**
    * Handler de changement de texte.
    * Mémoïsé pour éviter les re-renders inutiles de la textarea.
@@ -103,6 +137,9 @@ export function Editor({
         aria-describedby="char-counter"
       />
 
+      {/* Suite du thread (segments 2 à n) */}
+      {canThread && <ThreadEditor charLimit={charLimit} />}
+
       {/* Info-ligne des règles de la plateforme active */}
       {platformInfo && (
         <p className="mt-1 text-[11px] text-muted-foreground/70" aria-live="polite">
@@ -112,11 +149,35 @@ export function Editor({
 
       {/* ── Barre d'outils sous l'éditeur ───────────────────────────────────── */}
       {/* SignaturePicker gère lui-même la visibilité (caché si platforms vide) */}
-      <div className="mt-2 flex items-center">
+      <div className="mt-2 flex items-center gap-3">
         <SignaturePicker
           platforms={platforms}
           onInsert={appendSignature}
         />
+
+        {/* Démarrer un thread (segment vide) ou découper un texte trop long */}
+        {canThread && threadParts.length === 0 && (
+          <button
+            type="button"
+            onClick={addThreadPart}
+            disabled={isSubmitting}
+            className="flex items-center gap-1 text-xs text-muted-foreground transition-colors hover:text-primary disabled:opacity-50"
+          >
+            <ListTree className="size-3.5" />
+            Thread
+          </button>
+        )}
+        {canThread && isOverLimit && (
+          <button
+            type="button"
+            onClick={handleAutoSplit}
+            disabled={isSubmitting}
+            className="flex items-center gap-1 text-xs text-muted-foreground transition-colors hover:text-primary disabled:opacity-50"
+          >
+            <Scissors className="size-3.5" />
+            Découper automatiquement
+          </button>
+        )}
       </div>
 
       {/* Compteur de caractères */}
@@ -2,8 +2,10 @@
  * @file modules/posts/components/PostComposer/Footer.tsx
  * @module posts
  * @description Barre d'actions du PostComposer avec les boutons de soumission.
- *   Fournit deux actions :
+ *   Fournit trois actions :
  *   - "Brouillon" : sauvegarde le post avec status DRAFT
+ *   - "Ajouter à la file" (sans date, si chaque plateforme a des créneaux) :
+ *     planifie sur le prochain créneau libre (PostingSlot)
  *   - "Planifier" (si scheduledFor défini) : sauvegarde avec status SCHEDULED
  *
  *   Les boutons sont désactivés si :
@@ -14,7 +16,7 @@
  *
  *   Interaction avec le contexte :
  *   - Lit : text, platforms, scheduledFor, isSubmitting
- *   - Appelle : saveDraft, schedulePost
+ *   - Appelle : saveDraft, schedulePost, addToQueue
  *
  * @example
  *   <PostComposer>
@@ -24,9 +26,10 @@
 
 'use client'
 
-import { Loader2 } from 'lucide-react'
+import { ListPlus, Loader2 } from 'lucide-react'
 
 import { Button } from '@/components/ui/button'
+import { usePostingSlots } from '@/modules/posts/hooks/usePostingSlots'
 import { getCharLimit } from '@/modules/posts/schemas/post.schema'
 
 import { usePostComposerContext } from './context'
@@ -39,8 +42,9 @@ import { usePostComposerContext } from './context'
  * (planification active ou non).
  */
 export function Footer(): React.JSX.Element {
-  const { text, platforms, scheduledFor, isSubmitting, saveDraft, schedulePost } =
+  const { text, platforms, scheduledFor, isSubmitting, saveDraft, schedulePost, addToQueue } =
     usePostComposerContext()
+  const { slotsByPlatform } = usePostingSlots()
 
   // ─── Calcul de l'état des boutons ─────────────────────────────────────────
   // Limite la plus restrictive parmi les plateformes sélectionnées
@@ -57,6 +61,10 @@ export function Footer(): React.JSX.Element {
   // Bouton "Planifier" disponible uniquement si une date future est définie
   const canSchedule = canSubmit && scheduledFor !== null
 
+  // File disponible si aucune date n'est choisie et que chaque plateforme a des créneaux
+  const canQueue = canSubmit && scheduledFor === null &&
+    platforms.every((platform) => slotsByPlatform.has(platform))
+
   // ─── Messages d'aide ──────────────────────────────────────────────────────
   const helpText = !hasText
     ? 'Rédigez votre post pour continuer'
@@ -99,6 +107,20 @@ export function Footer(): React.JSX.Element {
           )}
         </Button>
 
+        {/* Bouton Ajouter à la file (sans date : prochain créneau libre) */}
+        {canQueue && (
+          <Button
+            type="button"
+            size="sm"
+            className="w-full gap-1.5 sm:w-auto"
+            onClick={addToQueue}
+            aria-label="Ajouter au prochain créneau libre de la file"
+          >
+            <ListPlus className="size-3.5" />
+            Ajouter à la file
+          </Button>
+        )}
+
         {/* Bouton Planifier (uniquement si une date est sélectionnée) */}
         {scheduledFor && (
           <Button
@@ -25,9 +25,13 @@
  *   - Les URLs sélectionnées sont ajoutées au brouillon via addActiveMediaUrl
  *   - Visible uniquement hors état drag (pour ne pas gêner le feedback visuel)
  *
+ *   Texte alternatif :
+ *   - Bouton « ALT » sur chaque image → AltTextDialog (saisie ou suggestion IA)
+ *   - Les médias choisis dans la galerie reprennent leur texte alternatif
+ *
  *   Interaction avec le contexte :
- *   - Lit : activeMediaUrls, activePlatformTab, platforms, uploadingFiles, isSubmitting
- *   - Écrit : uploadFile, removeUploadedFile, addActiveMediaUrl
+ *   - Lit : activeMediaUrls, activeText, mediaAltTexts, activePlatformTab, platforms, uploadingFiles, isSubmitting
+ *   - Écrit : uploadFile, removeUploadedFile, addActiveMediaUrl, setMediaAltText
  *
  * @example
  *   <PostComposer>
@@ -40,6 +44,7 @@
 import { ImagePlus, Images, Loader2, UploadCloud, X } from 'lucide-react'
 import { useRef, useState } from 'react'
 
+import { AltTextDialog } from '@/modules/media/components/AltTextDialog'
 import { MediaPicker } from '@/modules/media/components/MediaPicker'
 
 import { getMaxMediaForPlatforms, PLATFORM_RULES } from '@/modules/platforms/config/platform-rules'
@@ -107,12 +112,15 @@ function computeAcceptedTypes(activePlatformTab: Platform | null): string {
 export function MediaUpload(): React.JSX.Element {
   const {
     activeMediaUrls,
+    activeText,
+    mediaAltTexts,
     activePlatformTab,
     platforms,
     uploadingFiles,
     uploadFile,
     removeUploadedFile,
     addActiveMediaUrl,
+    setMediaAltText,
     isSubmitting,
   } = usePostComposerContext()
 
@@ -250,6 +258,9 @@ export function MediaUpload(): React.JSX.Element {
               <UploadedMediaPreview
                 key={url}
                 url={url}
+                altText={mediaAltTexts[url] ?? ''}
+                postText={activeText}
+                onAltTextChange={(altText) => setMediaAltText(url, altText)}
                 onRemove={() => removeUploadedFile('', url)}
                 disabled={isSubmitting}
               />
@@ -352,13 +363,16 @@ export function MediaUpload(): React.JSX.Element {
         open={pickerOpen}
         onOpenChange={setPickerOpen}
         selectedUrls={activeMediaUrls}
-        onConfirm={(urls) => {
+        onConfirm={(urls, items) => {
           // Conserver uniquement les URLs absentes du brouillon, dans la limite restante
           const newUrls = urls
             .filter((url) => !activeMediaUrls.includes(url))
             .slice(0, maxFiles - activeMediaUrls.length)
           for (const url of newUrls) {
             addActiveMediaUrl(url)
+            // Reprendre le texte alternatif de la galerie (sans écraser une saisie)
+            const galleryAltText = items.find((item) => item.url === url)?.altText
+            if (galleryAltText && !mediaAltTexts[url]) setMediaAltText(url, galleryAltText)
           }
         }}
       />
@@ -369,22 +383,33 @@ export function MediaUpload(): React.JSX.Element {
 // ─── Sous-composants ──────────────────────────────────────────────────────────
 
 /**
- * Aperçu d'un média déjà uploadé avec bouton de suppression.
+ * Aperçu d'un média déjà uploadé avec bouton de suppression
+ * et, pour les images, bouton de texte alternatif.
  *
  * @param url - URL publique du média Supabase
+ * @param altText - Texte alternatif actuel (chaîne vide si absent)
+ * @param postText - Texte du post (oriente la suggestion IA)
+ * @param onAltTextChange - Enregistre le texte alternatif dans le brouillon
  * @param onRemove - Callback de suppression
- * @param disabled - Désactivation du bouton
+ * @param disabled - Désactivation des boutons
  */
 function UploadedMediaPreview({
   url,
+  altText,
+  postText,
+  onAltTextChange,
   onRemove,
   disabled,
 }: {
   url: string
+  altText: string
+  postText: string
+  onAltTextChange: (altText: string) => void
   onRemove: () => void
   disabled: boolean
 }): React.JSX.Element {
   const isVideo = url.includes('.mp4') || url.includes('.mov') || url.includes('.webm')
+  const [altTextOpen, setAltTextOpen] = useState(false)
 
   return (
     <div className="group relative size-16 overflow-hidden rounded-lg border border-border">
@@ -392,7 +417,7 @@ function UploadedMediaPreview({
         <video src={url} className="size-full object-cover" muted />
       ) : (
         // eslint-disable-next-line @next/next/no-img-element
-        <img src={url} alt="Média uploadé" className="size-full object-cover" />
+        <img src={url} alt={altText || 'Média uploadé'} className="size-full object-cover" />
       )}
 
       {/* Bouton de suppression au survol */}
@@ -409,6 +434,34 @@ function UploadedMediaPreview({
       >
         <X className="size-4 text-white" />
       </button>
+
+      {/* Texte alternatif — au-dessus de l'overlay de suppression ; ambre si absent */}
+      {!isVideo && (
+        <>
+          <button
+            type="button"
+            onClick={() => setAltTextOpen(true)}
+            disabled={disabled}
+            className={[
+              'absolute bottom-0.5 left-0.5 z-10 rounded px-1 text-[9px] font-semibold text-white',
+              altText ? 'bg-black/60' : 'bg-amber-500/90',
+              'disabled:cursor-not-allowed',
+            ].join(' ')}
+            aria-label={altText ? 'Modifier le texte alternatif' : 'Ajouter un texte alternatif'}
+            title={altText || 'Texte alternatif manquant'}
+          >
+            ALT
+          </button>
+          <AltTextDialog
+            imageUrl={url}
+            value={altText}
+            context={postText}
+            open={altTextOpen}
+            onOpenChange={setAltTextOpen}
+            onSave={onAltTextChange}
+          />
+        </>
+      )}
     </div>
   )
 }
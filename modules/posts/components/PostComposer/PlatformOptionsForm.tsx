@@ -0,0 +1,92 @@
+/**
+ * @file modules/posts/components/PostComposer/PlatformOptionsForm.tsx
+ * @module posts
+ * @description Options de publication d'une plateforme dans le PostComposer
+ *   (titre et visibilité YouTube, tableau Pinterest, subreddit Reddit…).
+ *   Les champs sont décrits par PLATFORM_OPTION_FIELDS : liste déroulante si
+ *   des valeurs sont imposées, saisie libre sinon.
+ *
+ *   Interaction avec le contexte :
+ *   - Lit : platformOptions, isSubmitting
+ *   - Écrit : setPlatformOption
+ *
+ * @example
+ *   {activePlatformTab && <PlatformOptionsForm platform={activePlatformTab} />}
+ */
+
+'use client'
+
+import { Input } from '@/components/ui/input'
+import { PLATFORM_OPTION_FIELDS } from '@/modules/platforms/config/platform-options'
+import type { Platform } from '@/modules/platforms/types'
+
+import { usePostComposerContext } from './context'
+
+// ─── Constantes ───────────────────────────────────────────────────────────────
+
+const SELECT_CLASSNAME =
+  'h-8 w-full rounded-md border border-input bg-background px-2 text-xs focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring'
+
+// ─── Props ────────────────────────────────────────────────────────────────────
+
+interface PlatformOptionsFormProps {
+  /** Plateforme de l'onglet actif */
+  platform: Platform
+}
+
+// ─── Composant ────────────────────────────────────────────────────────────────
+
+/**
+ * Formulaire des options de publication d'une plateforme.
+ * Rien n'est affiché pour une plateforme sans options.
+ *
+ * @param platform - Plateforme dont les options sont saisies
+ */
+export function PlatformOptionsForm({ platform }: PlatformOptionsFormProps): React.JSX.Element | null {
+  const { platformOptions, setPlatformOption, isSubmitting } = usePostComposerContext()
+
+  const fields = PLATFORM_OPTION_FIELDS[platform]
+  if (!fields?.length) return null
+
+  const options = platformOptions[platform] ?? {}
+
+  return (
+    <fieldset className="mt-2 grid gap-2 rounded-md border border-border/60 p-3 sm:grid-cols-2" disabled={isSubmitting}>
+      <legend className="px-1 text-xs font-medium text-muted-foreground">Options de publication</legend>
+
+      {fields.map((field) => {
+        const id = `platform-option-${platform}-${field.key}`
+        const value = options[field.key] ?? ''
+        return (
+          <div key={field.key} className="space-y-1">
+            <label htmlFor={id} className="text-xs text-muted-foreground">
+              {field.label}
+              {field.required && <span className="text-destructive"> *</span>}
+            </label>
+            {field.choices ? (
+              <select
+                id={id}
+                value={value}
+                onChange={(e) => setPlatformOption(platform, field.key, e.target.value)}
+                className={SELECT_CLASSNAME}
+              >
+                <option value="">Par défaut</option>
+                {field.choices.map((choice) => (
+                  <option key={choice.value} value={choice.value}>{choice.label}</option>
+                ))}
+              </select>
+            ) : (
+              <Input
+                id={id}
+                value={value}
+                onChange={(e) => setPlatformOption(platform, field.key, e.target.value)}
+                placeholder={field.placeholder}
+                className="h-8 text-xs"
+              />
+            )}
+          </div>
+        )
+      })}
+    </fieldset>
+  )
+}
@@ -4,11 +4,13 @@
  * @description Barre d'onglets par plateforme pour le PostComposer.
  *   Affiche un onglet "Tous" (contenu de base commun) + un onglet par plateforme
  *   sélectionnée dans le brouillon. Permet de basculer entre les vues et d'initier
- *   la personnalisation du contenu par canal.
+ *   la personnalisation du contenu par canal. Sous les onglets, l'onglet d'une
+ *   plateforme affiche ses options de publication (PlatformOptionsForm).
  *
  *   Indicateurs visuels :
  *   - Badge ✎ (crayon) : contenu personnalisé sur cette plateforme
- *   - Badge ⚠ : le contenu dépasse les limites de la plateforme
+ *   - Badge ⚠ : le contenu dépasse les limites de la plateforme, options invalides, ou avertissements
+ *     d'accessibilité (texte alternatif manquant, hashtags sans CamelCase, lignes d'emojis)
  *
  *   Interaction avec le contexte :
  *   - Lit : activePlatformTab, platforms, activeText, activeMediaUrls, isPlatformCustomized
@@ -27,11 +29,14 @@ import { AlertTriangle, Pencil, RotateCcw } from 'lucide-react'
 import { Fragment } from 'react'
 
 import { PlatformIcon } from '@/modules/platforms/components/PlatformIcon'
+import { getPlatformOptionsViolations } from '@/modules/platforms/config/platform-options'
 import { getPlatformViolations } from '@/modules/platforms/config/platform-rules'
 import type { Platform } from '@/modules/platforms/types'
 import { useDraftStore } from '@/modules/posts/store/draft.store'
+import { getAccessibilityWarnings } from '@/modules/posts/utils/accessibility'
 
 import { usePostComposerContext } from './context'
+import { PlatformOptionsForm } from './PlatformOptionsForm'
 
 // ─── Constantes ───────────────────────────────────────────────────────────────
 
@@ -77,73 +82,91 @@ export function PlatformTabs(): React.JSX.Element {
 
   // Lire les overrides directement depuis le store pour détecter les violations
   // par plateforme (même sur les onglets non actifs)
-  const { platformOverrides, text: baseText, mediaUrls: baseMediaUrls } = useDraftStore()
+  const {
+    platformOverrides,
+    platformOptions,
+    text: baseText,
+    mediaUrls: baseMediaUrls,
+    mediaAltTexts,
+  } = useDraftStore()
 
   // Si aucune plateforme sélectionnée, pas d'onglets à afficher (sauf "Tous")
   if (platforms.length === 0) return <></>
 
   return (
-    <div
-      role="tablist"
-      aria-label="Onglets de contenu par plateforme"
-      className="flex items-center gap-1 overflow-x-auto pb-1 scrollbar-none"
-    >
-      {/* ── Onglet "Tous" (contenu de base) ─────────────────────────────────── */}
-      <button
-        role="tab"
-        type="button"
-        aria-selected={activePlatformTab === null}
-        onClick={() => setActivePlatformTab(null)}
-        className={[
-          'flex items-center gap-1.5 rounded-md px-3 py-1.5 text-xs font-medium transition-all',
-          'whitespace-nowrap focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring',
-          activePlatformTab === null
-            ? 'bg-primary text-primary-foreground shadow-sm'
-            : 'text-muted-foreground hover:bg-muted hover:text-foreground',
-        ].join(' ')}
+    <div>
+      <div
+        role="tablist"
+        aria-label="Onglets de contenu par plateforme"
+        className="flex items-center gap-1 overflow-x-auto pb-1 scrollbar-none"
       >
-        Tous
-      </button>
-
-      {/* Séparateur visuel */}
-      <div className="h-4 w-px bg-border" aria-hidden="true" />
+        {/* ── Onglet "Tous" (contenu de base) ─────────────────────────────────── */}
+        <button
+          role="tab"
+          type="button"
+          aria-selected={activePlatformTab === null}
+          onClick={() => setActivePlatformTab(null)}
+          className={[
+            'flex items-center gap-1.5 rounded-md px-3 py-1.5 text-xs font-medium transition-all',
+            'whitespace-nowrap focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring',
+            activePlatformTab === null
+              ? 'bg-primary text-primary-foreground shadow-sm'
+              : 'text-muted-foreground hover:bg-muted hover:text-foreground',
+          ].join(' ')}
+        >
+          Tous
+        </button>
 
-      {/* ── Onglets par plateforme ─────────────────────────────────────────── */}
-      {platforms.map((platform) => {
-        const isActive = activePlatformTab === platform
-        const isCustomized = isPlatformCustomized(platform)
+        {/* Séparateur visuel */}
+        <div className="h-4 w-px bg-border" aria-hidden="true" />
 
-        // Calculer les violations pour cette plateforme
-        // (en utilisant le contenu qu'elle afficherait : override ou base)
-        const platformContent = platformOverrides[platform]
-        const textToCheck = platformContent?.text ?? baseText
-        const mediaToCheck = platformContent?.mediaUrls ?? baseMediaUrls
-        const violations = getPlatformViolations(platform, textToCheck, mediaToCheck)
-        const hasViolations = violations.length > 0
+        {/* ── Onglets par plateforme ─────────────────────────────────────────── */}
+        {platforms.map((platform) => {
+          const isActive = activePlatformTab === platform
+          const isCustomized = isPlatformCustomized(platform)
 
-        return (
-          <Fragment key={platform}>
-            <PlatformTabButton
-              platform={platform}
-              label={PLATFORM_LABELS[platform]}
-              isActive={isActive}
-              isCustomized={isCustomized}
-              hasViolations={hasViolations}
-              violationMessages={violations.map((v) => v.message)}
-              onClick={() => setActivePlatformTab(platform)}
-            />
+          // Calculer les violations pour cette plateforme
+          // (en utilisant le contenu qu'elle afficherait : override ou base)
+          const platformContent = platformOverrides[platform]
+          const textToCheck = platformContent?.text ?? baseText
+          const mediaToCheck = platformContent?.mediaUrls ?? baseMediaUrls
+          const violations = [
+            ...getPlatformViolations(platform, textToCheck, mediaToCheck),
+            // Options : seules les valeurs invalides sont signalées (les requises le sont à la planification)
+            ...getPlatformOptionsViolations(platform, platformOptions[platform], { draft: true }),
+          ]
+          // Avertissements d'accessibilité (non bloquants) affichés avec les violations
+          const accessibilityWarnings = getAccessibilityWarnings(textToCheck, mediaToCheck, mediaAltTexts)
+          const warningMessages = [...violations, ...accessibilityWarnings].map((w) => w.message)
+          const hasViolations = warningMessages.length > 0
 
-            {/* Menu contextuel d'override (visible uniquement sur l'onglet actif) */}
-            {isActive && (
-              <PlatformTabActions
+          return (
+            <Fragment key={platform}>
+              <PlatformTabButton
+                platform={platform}
+                label={PLATFORM_LABELS[platform]}
+                isActive={isActive}
                 isCustomized={isCustomized}
-                onCustomize={() => customizePlatform(platform)}
-                onReset={() => resetPlatform(platform)}
+                hasViolations={hasViolations}
+                violationMessages={warningMessages}
+                onClick={() => setActivePlatformTab(platform)}
               />
-            )}
-          </Fragment>
-        )
-      })}
+
+              {/* Menu contextuel d'override (visible uniquement sur l'onglet actif) */}
+              {isActive && (
+                <PlatformTabActions
+                  isCustomized={isCustomized}
+                  onCustomize={() => customizePlatform(platform)}
+                  onReset={() => resetPlatform(platform)}
+                />
+              )}
+            </Fragment>
+          )
+        })}
+      </div>
+
+      {/* ── Options de publication de l'onglet actif ─────────────────────────── */}
+      {activePlatformTab && <PlatformOptionsForm platform={activePlatformTab} />}
     </div>
   )
 }
@@ -159,7 +182,8 @@ export function PlatformTabs(): React.JSX.Element {
  * @param isActive - Vrai si cet onglet est sélectionné
  * @param isCustomized - Vrai si la plateforme a un override de contenu
  * @param hasViolations - Vrai si le contenu dépasse les limites de la plateforme
- * @param violationMessages - Messages d'erreur pour le tooltip
+ *   ou présente un problème d'accessibilité
+ * @param violationMessages - Messages (violations + accessibilité) pour le tooltip
  * @param onClick - Callback de clic sur l'onglet
  */
 function PlatformTabButton({
@@ -5,9 +5,17 @@
  *   Utilise DateTimePicker (Popover + Calendar + spinners heure/minute)
  *   à la place de l'input datetime-local natif.
  *
+ *   Récurrence (optionnelle) : une fois la date choisie, l'utilisateur peut répéter
+ *   la publication tous les jours, certains jours de la semaine ou chaque mois.
+ *   L'heure (et le jour du mois) sont ceux de la première publication.
+ *
+ *   « Meilleur moment » : propose la prochaine occurrence du créneau le mieux noté
+ *   par les statistiques best-time des plateformes sélectionnées (suggestBestTime),
+ *   hors créneaux déjà pris, et affiche l'explication du choix.
+ *
  *   Interaction avec le contexte :
- *   - Lit : scheduledFor, isSubmitting
- *   - Écrit : setScheduledFor
+ *   - Lit : platforms, scheduledFor, recurrence, isSubmitting
+ *   - Écrit : setScheduledFor, setRecurrence
  *
  *   La date minimale est calculée à maintenant + 5 minutes pour éviter
  *   les planifications dans le passé immédiat.
@@ -20,7 +28,14 @@
 
 'use client'
 
-import { CalendarClock } from 'lucide-react'
+import { CalendarClock, Loader2, Repeat, Sparkles } from 'lucide-react'
+import { useState } from 'react'
+import { toast } from 'sonner'
+
+import { useUserTimezone } from '@/modules/auth/hooks/useUserTimezone'
+import { suggestBestTime } from '@/modules/posts/actions/best-time.action'
+import type { RecurrenceFrequency } from '@/modules/posts/schemas/post.schema'
+import { buildRecurrenceRule, describeRecurrence } from '@/modules/posts/utils/recurrence'
 
 import { usePostComposerContext } from './context'
 import { DateTimePicker } from './DateTimePicker'
@@ -40,6 +55,37 @@ function getMinDate(): Date {
   return min
 }
 
+/** Options de répétition proposées (null = publication unique) */
+const FREQUENCY_OPTIONS: { value: RecurrenceFrequency | null; label: string }[] = [
+  { value: null, label: 'Une fois' },
+  { value: 'DAILY', label: 'Tous les jours' },
+  { value: 'WEEKLY', label: 'Chaque semaine' },
+  { value: 'MONTHLY', label: 'Chaque mois' },
+]
+
+/** Jours de la semaine affichés lun → dim (valeur = getUTCDay : 0 = dimanche) */
+const WEEKDAY_OPTIONS = [
+  { value: 1, label: 'L' },
+  { value: 2, label: 'M' },
+  { value: 3, label: 'M' },
+  { value: 4, label: 'J' },
+  { value: 5, label: 'V' },
+  { value: 6, label: 'S' },
+  { value: 0, label: 'D' },
+]
+
+/** Classes d'un badge de choix (fréquence ou jour), selon l'état sélectionné */
+function chipClassName(isSelected: boolean): string {
+  return [
+    'rounded-full border px-2.5 py-1 text-xs font-medium transition-colors',
+    'focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring',
+    'disabled:cursor-not-allowed disabled:opacity-50',
+    isSelected
+      ? 'border-primary bg-primary/10 text-primary'
+      : 'border-border bg-background text-muted-foreground hover:text-foreground',
+  ].join(' ')
+}
+
 // ─── Composant ────────────────────────────────────────────────────────────────
 
 /**
@@ -49,20 +95,96 @@ function getMinDate(): Date {
  * @returns Section planification avec label, picker et confirmation
  */
 export function Schedule(): React.JSX.Element {
-  const { scheduledFor, setScheduledFor, isSubmitting } = usePostComposerContext()
+  const { platforms, scheduledFor, setScheduledFor, recurrence, setRecurrence, isSubmitting } =
+    usePostComposerContext()
+  // Même fuseau que le DateTimePicker pour la confirmation lisible
+  const { timezone } = useUserTimezone()
+  // Explication du créneau « meilleur moment » (effacée si la date est modifiée à la main)
+  const [bestTimeExplanation, setBestTimeExplanation] = useState<string | null>(null)
+  const [isSuggesting, setIsSuggesting] = useState(false)
+
+  /** Date choisie dans le DateTimePicker : l'explication ne s'applique plus */
+  const handleDateChange = (date: Date | null): void => {
+    setBestTimeExplanation(null)
+    setScheduledFor(date)
+  }
+
+  /** Demande le meilleur créneau libre pour les plateformes sélectionnées */
+  const handleBestTime = async (): Promise<void> => {
+    setIsSuggesting(true)
+    try {
+      const result = await suggestBestTime(platforms)
+      if (result.success && result.scheduledFor) {
+        setScheduledFor(new Date(result.scheduledFor))
+        setBestTimeExplanation(result.explanation ?? null)
+      } else {
+        toast.error(result.error ?? 'Impossible de calculer le meilleur moment')
+      }
+    } catch (err) {
+      console.error('[Schedule] Erreur meilleur moment :', err)
+      toast.error('Erreur réseau — réessayez')
+    } finally {
+      setIsSuggesting(false)
+    }
+  }
+
+  /**
+   * Change la fréquence. En hebdomadaire, le jour de la première publication
+   * est présélectionné.
+   */
+  const handleFrequencyChange = (frequency: RecurrenceFrequency | null): void => {
+    if (!frequency) {
+      setRecurrence(null)
+      return
+    }
+    const weekdays = frequency === 'WEEKLY' && scheduledFor
+      ? buildRecurrenceRule('WEEKLY', scheduledFor, timezone).weekdays
+      : []
+    setRecurrence({ frequency, weekdays })
+  }
+
+  /** Ajoute ou retire un jour (au moins un jour reste sélectionné) */
+  const toggleWeekday = (weekday: number): void => {
+    if (!recurrence) return
+    const weekdays = recurrence.weekdays.includes(weekday)
+      ? recurrence.weekdays.filter((d) => d !== weekday)
+      : [...recurrence.weekdays, weekday]
+    if (weekdays.length === 0) return
+    setRecurrence({ ...recurrence, weekdays })
+  }
+
+  // Résumé lisible de la règle (calculé avec la date de première publication)
+  const recurrenceSummary = recurrence && scheduledFor
+    ? describeRecurrence(
+        buildRecurrenceRule(recurrence.frequency, scheduledFor, timezone, recurrence.weekdays),
+      )
+    : null
 
   return (
     <div className="space-y-2">
       {/* Label avec icône */}
-      <p className="flex items-center gap-1.5 text-xs font-medium text-muted-foreground">
-        <CalendarClock className="size-3.5" />
-        Planifier pour
-      </p>
+      <div className="flex items-center justify-between gap-2">
+        <p className="flex items-center gap-1.5 text-xs font-medium text-muted-foreground">
+          <CalendarClock className="size-3.5" />
+          Planifier pour
+        </p>
+
+        {/* Meilleur moment : créneau le mieux noté des statistiques best-time */}
+        <button
+          type="button"
+          onClick={() => void handleBestTime()}
+          disabled={isSubmitting || isSuggesting || platforms.length === 0}
+          className={`${chipClassName(false)} inline-flex items-center gap-1`}
+        >
+          {isSuggesting ? <Loader2 className="size-3 animate-spin" /> : <Sparkles className="size-3" />}
+          Meilleur moment
+        </button>
+      </div>
 
       {/* Sélecteur de date/heure avec popover calendrier + spinners */}
       <DateTimePicker
         value={scheduledFor}
-        onChange={setScheduledFor}
+        onChange={handleDateChange}
         minDate={getMinDate()}
         disabled={isSubmitting}
         placeholder="Choisir une date de publication…"
@@ -78,6 +200,7 @@ export function Schedule(): React.JSX.Element {
               day: 'numeric',
               month: 'long',
               year: 'numeric',
+              timeZone: timezone,
             })}
           </span>
           {' à '}
@@ -85,10 +208,75 @@ export function Schedule(): React.JSX.Element {
             {scheduledFor.toLocaleTimeString('fr-FR', {
               hour: '2-digit',
               minute: '2-digit',
+              timeZone: timezone,
             })}
           </span>
         </p>
       )}
+
+      {/* Pourquoi ce créneau (uniquement s'il vient de « Meilleur moment ») */}
+      {scheduledFor && bestTimeExplanation && (
+        <p className="flex items-start gap-1.5 text-xs text-muted-foreground">
+          <Sparkles className="mt-0.5 size-3 shrink-0 text-primary" />
+          {bestTimeExplanation}
+        </p>
+      )}
+
+      {/* ── Récurrence (disponible une fois la date choisie) ─────────────── */}
+      {scheduledFor && (
+        <div className="space-y-2 pt-1">
+          <p className="flex items-center gap-1.5 text-xs font-medium text-muted-foreground">
+            <Repeat className="size-3.5" />
+            Répéter
+          </p>
+
+          <div className="flex flex-wrap gap-1.5" role="radiogroup" aria-label="Fréquence de répétition">
+            {FREQUENCY_OPTIONS.map((option) => {
+              const isSelected = (recurrence?.frequency ?? null) === option.value
+              return (
+                <button
+                  key={option.label}
+                  type="button"
+                  role="radio"
+                  aria-checked={isSelected}
+                  disabled={isSubmitting}
+                  onClick={() => handleFrequencyChange(option.value)}
+                  className={chipClassName(isSelected)}
+                >
+                  {option.label}
+                </button>
+              )
+            })}
+          </div>
+
+          {/* Jours de la semaine (hebdomadaire uniquement) */}
+          {recurrence?.frequency === 'WEEKLY' && (
+            <div className="flex gap-1" aria-label="Jours de publication">
+              {WEEKDAY_OPTIONS.map((option) => {
+                const isSelected = recurrence.weekdays.includes(option.value)
+                return (
+                  <button
+                    key={option.value}
+                    type="button"
+                    aria-pressed={isSelected}
+                    disabled={isSubmitting}
+                    onClick={() => toggleWeekday(option.value)}
+                    className={`${chipClassName(isSelected)} size-7 px-0`}
+                  >
+                    {option.label}
+                  </button>
+                )
+              })}
+            </div>
+          )}
+
+          {recurrenceSummary && (
+            <p className="text-xs text-muted-foreground">
+              {recurrenceSummary}
+            </p>
+          )}
+        </div>
+      )}
     </div>
   )
 }
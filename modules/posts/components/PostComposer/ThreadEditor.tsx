@@ -0,0 +1,166 @@
+/**
+ * @file modules/posts/components/PostComposer/ThreadEditor.tsx
+ * @module posts
+ * @description Suite du thread dans le PostComposer (X, Threads, Bluesky).
+ *   Le premier segment est la zone de texte principale de l'Editor ; ce composant
+ *   affiche les segments suivants (threadParts), chacun avec son texte, son
+ *   compteur de caractères et ses médias (choisis dans la galerie).
+ *
+ *   La suite du thread est partagée par tous les onglets : elle n'est publiée
+ *   que sur les plateformes qui acceptent les threads.
+ *
+ *   Interaction avec le contexte :
+ *   - Lit : threadParts, isSubmitting
+ *   - Écrit : addThreadPart, updateThreadPart, removeThreadPart
+ *
+ * @example
+ *   <ThreadEditor charLimit={280} />
+ */
+
+'use client'
+
+import { Images, Plus, Trash2, X } from 'lucide-react'
+import { useState } from 'react'
+
+import { MediaPicker } from '@/modules/media/components/MediaPicker'
+import { isVideoUrl } from '@/modules/posts/utils/media.utils'
+import { THREAD_MAX_PARTS } from '@/modules/posts/utils/thread'
+
+import { usePostComposerContext } from './context'
+
+// ─── Props ────────────────────────────────────────────────────────────────────
+
+interface ThreadEditorProps {
+  /** Limite de caractères d'un segment (celle de l'onglet actif) */
+  charLimit: number
+}
+
+// ─── Composant ────────────────────────────────────────────────────────────────
+
+/**
+ * Segments du thread après le texte principal, dans l'ordre de publication.
+ *
+ * @param charLimit - Limite de caractères appliquée à chaque segment
+ */
+export function ThreadEditor({ charLimit }: ThreadEditorProps): React.JSX.Element | null {
+  const { threadParts, addThreadPart, updateThreadPart, removeThreadPart, isSubmitting } =
+    usePostComposerContext()
+
+  // Segment dont le MediaPicker est ouvert (null = fermé)
+  const [pickerIndex, setPickerIndex] = useState<number | null>(null)
+
+  if (threadParts.length === 0) return null
+
+  // Numérotation « 2/4 » : le texte principal est le segment 1
+  const total = threadParts.length + 1
+  const pickerPart = pickerIndex !== null ? threadParts[pickerIndex] : undefined
+
+  return (
+    <div className="mt-3 space-y-3 border-l-2 border-primary/30 pl-3" aria-label="Suite du thread">
+      {threadParts.map((part, index) => {
+        const remaining = charLimit - part.text.length
+        return (
+          <div key={index} className="space-y-1.5">
+            <div className="flex items-center justify-between">
+              <span className="text-xs font-medium text-muted-foreground">
+                Segment {index + 2}/{total}
+              </span>
+              <button
+                type="button"
+                onClick={() => removeThreadPart(index)}
+                disabled={isSubmitting}
+                className="text-muted-foreground transition-colors hover:text-destructive disabled:opacity-50"
+                aria-label={`Retirer le segment ${index + 2}`}
+              >
+                <Trash2 className="size-3.5" />
+              </button>
+            </div>
+
+            <textarea
+              value={part.text}
+              onChange={(e) => updateThreadPart(index, { text: e.target.value })}
+              placeholder="Suite du thread..."
+              rows={3}
+              disabled={isSubmitting}
+              className={[
+                'w-full resize-none rounded-md border border-border/60 bg-transparent px-2 py-1.5',
+                'text-sm leading-relaxed text-foreground placeholder:text-muted-foreground/60',
+                'focus:outline-none focus:ring-1 focus:ring-ring',
+                'disabled:cursor-not-allowed disabled:opacity-50',
+              ].join(' ')}
+              aria-label={`Texte du segment ${index + 2}`}
+            />
+
+            <div className="flex items-center gap-2">
+              {/* Médias du segment */}
+              {part.mediaUrls.map((url) => (
+                <div key={url} className="group relative size-10 overflow-hidden rounded border border-border">
+                  {isVideoUrl(url) ? (
+                    <video src={url} className="size-full object-cover" muted />
+                  ) : (
+                    // eslint-disable-next-line @next/next/no-img-element
+                    <img src={url} alt="" className="size-full object-cover" />
+                  )}
+                  <button
+                    type="button"
+                    onClick={() => updateThreadPart(index, {
+                      mediaUrls: part.mediaUrls.filter((u) => u !== url),
+                    })}
+                    disabled={isSubmitting}
+                    className="absolute right-0 top-0 rounded-bl bg-background/80 p-0.5 opacity-0 group-hover:opacity-100"
+                    aria-label="Retirer le média du segment"
+                  >
+                    <X className="size-3" />
+                  </button>
+                </div>
+              ))}
+              <button
+                type="button"
+                onClick={() => setPickerIndex(index)}
+                disabled={isSubmitting}
+                className="flex items-center gap-1 text-xs text-muted-foreground transition-colors hover:text-primary disabled:opacity-50"
+              >
+                <Images className="size-3.5" />
+                Médias
+              </button>
+
+              {/* Compteur de caractères du segment */}
+              <span
+                className={[
+                  'ml-auto text-xs tabular-nums',
+                  remaining < 0 ? 'font-semibold text-destructive' : 'text-muted-foreground',
+                ].join(' ')}
+              >
+                {remaining < 0 ? `−${Math.abs(remaining)}` : remaining}
+              </span>
+            </div>
+          </div>
+        )
+      })}
+
+      {threadParts.length < THREAD_MAX_PARTS && (
+        <button
+          type="button"
+          onClick={addThreadPart}
+          disabled={isSubmitting}
+          className="flex items-center gap-1 text-xs text-muted-foreground transition-colors hover:text-primary disabled:opacity-50"
+        >
+          <Plus className="size-3.5" />
+          Ajouter un segment
+        </button>
+      )}
+
+      {/* Galerie : médias du segment choisi (remplace la sélection du segment) */}
+      <MediaPicker
+        open={pickerIndex !== null}
+        onOpenChange={(open) => {
+          if (!open) setPickerIndex(null)
+        }}
+        selectedUrls={pickerPart?.mediaUrls ?? []}
+        onConfirm={(urls) => {
+          if (pickerIndex !== null) updateThreadPart(pickerIndex, { mediaUrls: urls })
+        }}
+      />
+    </div>
+  )
+}
@@ -25,8 +25,11 @@
 
 import { createContext, useContext } from 'react'
 
+import type { PlatformOptions } from '@/modules/platforms/config/platform-options'
 import type { Platform } from '@/modules/platforms/types'
+import type { RecurrenceDraft } from '@/modules/posts/store/draft.store'
 import type { UploadingFile } from '@/modules/posts/types'
+import type { ThreadPart } from '@/modules/posts/utils/thread'
 
 // ─── Interface du contexte ────────────────────────────────────────────────────
 
@@ -38,8 +41,16 @@ export interface PostComposerContextValue {
   platforms: Platform[]
   /** URLs de médias de base (onglet "Tous") */
   mediaUrls: string[]
+  /** Textes alternatifs des médias, par URL (tous onglets) */
+  mediaAltTexts: Record<string, string>
+  /** Suite du thread (X, Threads, Bluesky) — [] = post simple */
+  threadParts: ThreadPart[]
+  /** Options de publication par plateforme (titre YouTube, tableau Pinterest…) */
+  platformOptions: Partial<Record<Platform, PlatformOptions>>
   /** Date de planification */
   scheduledFor: Date | null
+  /** Récurrence de la publication (null = publication unique) */
+  recurrence: RecurrenceDraft | null
 
   // ── Actions brouillon de base ──────────────────────────────────────────────
   /** Met à jour le texte de base */
@@ -48,7 +59,16 @@ export interface PostComposerContextValue {
   setPlatforms: (platforms: Platform[]) => void
   addMediaUrl: (url: string) => void
   removeMediaUrl: (url: string) => void
+  /** Définit le texte alternatif d'un média (chaîne vide = retiré) */
+  setMediaAltText: (url: string, altText: string) => void
+  setThreadParts: (parts: ThreadPart[]) => void
+  addThreadPart: () => void
+  updateThreadPart: (index: number, patch: Partial<ThreadPart>) => void
+  removeThreadPart: (index: number) => void
+  /** Définit une option de publication (chaîne vide = retirée) */
+  setPlatformOption: (platform: Platform, key: string, value: string) => void
   setScheduledFor: (date: Date | null) => void
+  setRecurrence: (recurrence: RecurrenceDraft | null) => void
 
   // ── Onglets par plateforme ─────────────────────────────────────────────────
   /**
@@ -146,6 +166,8 @@ export interface PostComposerContextValue {
   saveDraft: () => void
   /** Sauvegarde le post avec planification (async interne via useTransition) */
   schedulePost: () => void
+  /** Planifie le post sur le prochain créneau libre de la file (sans date choisie) */
+  addToQueue: () => void
 }
 
 // ─── Création du contexte ─────────────────────────────────────────────────────
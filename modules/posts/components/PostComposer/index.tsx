@@ -12,7 +12,7 @@
  *   - Calcule le contenu actif (base ou override selon l'onglet)
  *   - Fournit le contexte à tous les sous-composants
  *   - Gère la logique d'upload (état local uploadingFiles)
- *   - Orchestre les soumissions (saveDraft, schedulePost)
+ *   - Orchestre les soumissions (saveDraft, schedulePost, addToQueue)
  *
  *   Structure attendue :
  *   ```tsx
@@ -44,13 +44,18 @@
 import { useCallback, useState, useTransition } from 'react'
 import { toast } from 'sonner'
 
+import { useUserTimezone } from '@/modules/auth/hooks/useUserTimezone'
+import { saveMedia } from '@/modules/media/actions/media.action'
 import { getPlatformViolations } from '@/modules/platforms/config/platform-rules'
+import type { PlatformViolation } from '@/modules/platforms/config/platform-rules'
 import { PLATFORM_CONFIG } from '@/modules/platforms/constants'
 import type { Platform } from '@/modules/platforms/types'
 import { savePost } from '@/modules/posts/actions/save-post.action'
 import { schedulePost } from '@/modules/posts/actions/schedule-post.action'
 import { useDraftStore } from '@/modules/posts/store/draft.store'
 import type { UploadingFile, UploadUrlResult } from '@/modules/posts/types'
+import type { AccessibilityWarning } from '@/modules/posts/utils/accessibility'
+import { buildRecurrenceRule } from '@/modules/posts/utils/recurrence'
 
 import { PostComposerContext } from './context'
 import { Editor } from './Editor'
@@ -70,6 +75,33 @@ interface PostComposerProps {
   className?: string
 }
 
+// ─── Helpers ──────────────────────────────────────────────────────────────────
+
+/**
+ * Affiche les avertissements d'accessibilité retournés par schedulePost
+ * (non bloquants : le post est déjà planifié).
+ *
+ * @param warnings - Avertissements du serveur (absents = rien à signaler)
+ */
+function warnAccessibility(warnings: AccessibilityWarning[] | undefined): void {
+  if (!warnings?.length) return
+  toast.warning(`Accessibilité : ${warnings.map((warning) => warning.message).join(' ; ')}`, { duration: 8000 })
+}
+
+/**
+ * Affiche les règles de plateforme non respectées par un brouillon enregistré
+ * (bloquantes seulement à la planification).
+ *
+ * @param warnings - Violations retournées par savePost (absentes = brouillon conforme)
+ */
+function warnPlatformRules(warnings: PlatformViolation[] | undefined): void {
+  if (!warnings?.length) return
+  toast.warning(
+    `À corriger avant la planification : ${warnings.map((warning) => warning.message).join(' ; ')}`,
+    { duration: 8000 },
+  )
+}
+
 // ─── Composant racine ────────────────────────────────────────────────────────
 
 /**
@@ -85,14 +117,25 @@ function PostComposerRoot({ children, className }: PostComposerProps): React.JSX
     text,
     platforms,
     mediaUrls,
+    mediaAltTexts,
+    threadParts,
+    platformOptions,
     scheduledFor,
+    recurrence,
     platformOverrides,
     setText,
     setPlatforms,
     togglePlatform,
     addMediaUrl,
     removeMediaUrl,
+    setMediaAltText,
+    setThreadParts,
+    addThreadPart,
+    updateThreadPart,
+    removeThreadPart,
+    setPlatformOption,
     setScheduledFor,
+    setRecurrence,
     setPostId,
     postId,
     reset,
@@ -103,6 +146,9 @@ function PostComposerRoot({ children, className }: PostComposerProps): React.JSX
     removePlatformOverrideMediaUrl,
   } = useDraftStore()
 
+  // Fuseau de l'utilisateur : heure murale des occurrences récurrentes
+  const { timezone } = useUserTimezone()
+
   // ─── Onglet actif (null = onglet "Tous") ────────────────────────────────────
   const [activePlatformTab, setActivePlatformTab] = useState<Platform | null>(null)
 
@@ -274,7 +320,8 @@ function PostComposerRoot({ children, className }: PostComposerProps): React.JSX
    * 1. Génère un ID temporaire pour suivre la progression
    * 2. Demande un presigned URL via POST /api/posts/upload-url
    * 3. Uploade le fichier via PUT sur le presigned URL
-   * 4. Ajoute l'URL publique au brouillon (base ou override selon l'onglet actif)
+   * 4. Enregistre le média via saveMedia() (galerie, quota, sondage et variantes)
+   * 5. Ajoute l'URL publique au brouillon (base ou override selon l'onglet actif)
    *
    * @param file - Fichier à uploader
    * @param targetPlatform - Onglet cible pour l'ajout de l'URL (null = onglet actif courant)
@@ -305,7 +352,9 @@ function PostComposerRoot({ children, className }: PostComposerProps): React.JSX
         })
 
         if (!urlRes.ok) {
-          throw new Error('Impossible d\'obtenir le lien d\'upload')
+          // Message du serveur (ex: quota de stockage dépassé)
+          const err = (await urlRes.json()) as { error?: string }
+          throw new Error(err.error ?? 'Impossible d\'obtenir le lien d\'upload')
         }
 
         const { signedUrl, publicUrl, mimeType } = (await urlRes.json()) as UploadUrlResult & {
@@ -341,7 +390,11 @@ function PostComposerRoot({ children, className }: PostComposerProps): React.JSX
           xhr.send(file)
         })
 
-        // Étape 3 : ajouter l'URL publique au bon emplacement selon l'onglet
+        // Étape 3 : enregistrer le média : galerie, quota sur la taille réelle, sondage et variantes par plateforme
+        const { error: saveError } = await saveMedia({ url: publicUrl, filename: file.name, mimeType: mimeType, size: file.size })
+        if (saveError) throw new Error(saveError)
+
+        // Étape 4 : ajouter l'URL publique au bon emplacement selon l'onglet
         if (platform === null || platform === undefined) {
           // Onglet "Tous" : ajouter à la liste de base
           addMediaUrl(publicUrl)
@@ -453,6 +506,8 @@ function PostComposerRoot({ children, className }: PostComposerProps): React.JSX
         text,
         platforms,
         mediaUrls,
+        mediaAltTexts,
+        threadParts,
         status: 'DRAFT',
         // Transmission des overrides pour upsert en DB
         platformOverrides: Object.fromEntries(
@@ -461,20 +516,23 @@ function PostComposerRoot({ children, className }: PostComposerProps): React.JSX
             { text: override!.text, mediaUrls: override!.mediaUrls },
           ]),
         ),
+        // Options de publication, par plateforme
+        platformOptionsByPlatform: platformOptions,
       })
 
       if (result.success && result.post) {
         setPostId(result.post.id)
         toast.success('Brouillon sauvegardé')
+        warnPlatformRules(result.platformWarnings)
       } else {
         toast.error(result.error ?? 'Erreur lors de la sauvegarde')
       }
     })
-  }, [text, platforms, mediaUrls, platformOverrides, postId, setPostId])
+  }, [text, platforms, mediaUrls, mediaAltTexts, threadParts, platformOverrides, platformOptions, postId, setPostId])
 
   /**
    * Planifie le post avec la date définie dans scheduledFor.
-   * Transmet les overrides de plateformes à la Server Action.
+   * Transmet les overrides de plateformes et la récurrence éventuelle à la Server Action.
    */
   const handleSchedulePost = useCallback((): void => {
     if (!scheduledFor) return
@@ -485,7 +543,13 @@ function PostComposerRoot({ children, className }: PostComposerProps): React.JSX
           text,
           platforms,
           mediaUrls,
+          mediaAltTexts,
+          threadParts,
           scheduledFor,
+          // Récurrence : heure et jour repris de scheduledFor, dans le fuseau de l'utilisateur
+          ...(recurrence && {
+            recurrence: buildRecurrenceRule(recurrence.frequency, scheduledFor, timezone, recurrence.weekdays),
+          }),
           // Transmission des overrides pour upsert en DB
           platformOverrides: Object.fromEntries(
             Object.entries(platformOverrides).map(([platform, override]) => [
@@ -493,6 +557,8 @@ function PostComposerRoot({ children, className }: PostComposerProps): React.JSX
               { text: override!.text, mediaUrls: override!.mediaUrls },
             ]),
           ),
+          // Options de publication, par plateforme
+          platformOptionsByPlatform: platformOptions,
         },
         postId ?? undefined,
       )
@@ -506,12 +572,64 @@ function PostComposerRoot({ children, className }: PostComposerProps): React.JSX
             minute: '2-digit',
           })}`,
         )
+        warnAccessibility(result.accessibilityWarnings)
         reset()
       } else {
         toast.error(result.error ?? 'Erreur lors de la planification')
       }
     })
-  }, [text, platforms, mediaUrls, platformOverrides, scheduledFor, postId, reset])
+  }, [
+    text, platforms, mediaUrls, mediaAltTexts, threadParts, platformOverrides, platformOptions,
+    scheduledFor, recurrence, timezone, postId, reset,
+  ])
+
+  /**
+   * Ajoute le post à la file : le serveur choisit le prochain créneau libre
+   * (PostingSlot) au lieu de la date du DateTimePicker.
+   */
+  const handleAddToQueue = useCallback((): void => {
+    startTransition(async () => {
+      const result = await schedulePost(
+        {
+          text,
+          platforms,
+          mediaUrls,
+          mediaAltTexts,
+          threadParts,
+          queue: true,
+          // Transmission des overrides pour upsert en DB
+          platformOverrides: Object.fromEntries(
+            Object.entries(platformOverrides).map(([platform, override]) => [
+              platform,
+              { text: override!.text, mediaUrls: override!.mediaUrls },
+            ]),
+          ),
+          // Options de publication, par plateforme
+          platformOptionsByPlatform: platformOptions,
+        },
+        postId ?? undefined,
+      )
+
+      if (result.success && result.post?.scheduledFor) {
+        toast.success(
+          `Ajouté à la file pour le ${result.post.scheduledFor.toLocaleDateString('fr-FR', {
+            day: 'numeric',
+            month: 'long',
+            hour: '2-digit',
+            minute: '2-digit',
+            timeZone: timezone,
+          })}`,
+        )
+        warnAccessibility(result.accessibilityWarnings)
+        reset()
+      } else {
+        toast.error(result.error ?? 'Erreur lors de l\'ajout à la file')
+      }
+    })
+  }, [
+    text, platforms, mediaUrls, mediaAltTexts, threadParts, platformOverrides, platformOptions,
+    timezone, postId, reset,
+  ])
 
   // ─── Rendu ──────────────────────────────────────────────────────────────────
 
@@ -522,14 +640,25 @@ function PostComposerRoot({ children, className }: PostComposerProps): React.JSX
         text,
         platforms,
         mediaUrls,
+        mediaAltTexts,
+        threadParts,
+        platformOptions,
         scheduledFor,
+        recurrence,
         // Actions brouillon de base
         setText,
         setPlatforms,
         togglePlatform,
         addMediaUrl,
         removeMediaUrl,
+        setMediaAltText,
+        setThreadParts,
+        addThreadPart,
+        updateThreadPart,
+        removeThreadPart,
+        setPlatformOption,
         setScheduledFor,
+        setRecurrence,
         // Onglets par plateforme
         activePlatformTab,
         setActivePlatformTab,
@@ -552,6 +681,7 @@ function PostComposerRoot({ children, className }: PostComposerProps): React.JSX
         isSubmitting,
         saveDraft,
         schedulePost: handleSchedulePost,
+        addToQueue: handleAddToQueue,
       }}
     >
       <div className={className}>
@@ -568,11 +698,11 @@ function PostComposerRoot({ children, className }: PostComposerProps): React.JSX
  *
  * Sous-composants disponibles :
  * - PostComposer.PlatformTabs — onglets par plateforme (base + overrides)
- * - PostComposer.Editor     — zone de texte avec compteur de caractères
+ * - PostComposer.Editor     — zone de texte avec compteur de caractères (et thread)
  * - PostComposer.Platforms  — sélection des plateformes connectées
  * - PostComposer.MediaUpload — upload d'images et vidéos
  * - PostComposer.Schedule   — sélection de la date de planification
- * - PostComposer.Footer     — boutons Brouillon / Planifier
+ * - PostComposer.Footer     — boutons Brouillon / Ajouter à la file / Planifier
  * - PostComposer.Skeleton   — skeleton de chargement
  */
 export const PostComposer = Object.assign(PostComposerRoot, {
@@ -0,0 +1,358 @@
+/**
+ * @file modules/posts/components/PostingSlotSettings/index.tsx
+ * @module posts
+ * @description Section « File de publication » de /settings.
+ *   Pour chaque plateforme connectée : créneaux hebdomadaires (ex : mardi et jeudi
+ *   18:00), ajout de créneaux (jours cochés + heure) et suppression, avec l'aperçu
+ *   du prochain créneau libre. Les heures sont celles du fuseau du workspace,
+ *   commun à tous les membres et modifiable en tête de section.
+ *
+ *   « Ajouter à la file » dans le compositeur utilise ces créneaux au lieu du
+ *   DateTimePicker (schedulePost({ queue: true })).
+ *
+ * @example
+ *   // Dans settings/page.tsx (Server Component) :
+ *   <PostingSlotSettings />
+ */
+
+'use client'
+
+import { useQuery, useQueryClient } from '@tanstack/react-query'
+import { Clock, Loader2, Plus, X } from 'lucide-react'
+import { useMemo, useState } from 'react'
+import { toast } from 'sonner'
+
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import type { LatePlatform } from '@/lib/late'
+import { DEFAULT_TIMEZONE, isValidTimezone, listTimezones } from '@/lib/timezone'
+import { PlatformIcon } from '@/modules/platforms/components/PlatformIcon'
+import { PLATFORM_CONFIG } from '@/modules/platforms/constants'
+import { usePlatforms } from '@/modules/platforms/hooks/usePlatforms'
+import { createPostingSlots, deletePostingSlot, updateQueueTimezone } from '@/modules/posts/actions/posting-slot.action'
+import { usePostingSlots } from '@/modules/posts/hooks/usePostingSlots'
+import { postQueryKeys } from '@/modules/posts/queries/posts.queries'
+import type { PostingSlot } from '@/modules/posts/types'
+import { upcomingSlotTimes } from '@/modules/posts/utils/queue-slots'
+import { fetchWorkspaceMembers, workspaceQueryKeys } from '@/modules/workspaces/queries/workspaces.queries'
+import type { WorkspaceMembersResponse } from '@/modules/workspaces/types'
+
+// ─── Constantes ───────────────────────────────────────────────────────────────
+
+/** Jours affichés lun → dim (valeur = getUTCDay : 0 = dimanche) */
+const WEEKDAY_OPTIONS = [
+  { value: 1, short: 'Lun' },
+  { value: 2, short: 'Mar' },
+  { value: 3, short: 'Mer' },
+  { value: 4, short: 'Jeu' },
+  { value: 5, short: 'Ven' },
+  { value: 6, short: 'Sam' },
+  { value: 0, short: 'Dim' },
+]
+
+/** Rang d'affichage d'un jour (lundi = 0 … dimanche = 6) */
+const weekdayRank = (weekday: number): number => (weekday + 6) % 7
+
+/** Heure "HH:MM" d'un créneau */
+const formatSlotTime = (slot: { hour: number; minute: number }): string =>
+  `${String(slot.hour).padStart(2, '0')}:${String(slot.minute).padStart(2, '0')}`
+
+// ─── Sous-composant : une plateforme ──────────────────────────────────────────
+
+interface PlatformSlotsProps {
+  platform: string
+  slots: PostingSlot[]
+  timezone: string
+}
+
+/**
+ * Créneaux d'une plateforme + formulaire d'ajout.
+ *
+ * @param platform - Plateforme (ex: "instagram")
+ * @param slots    - Créneaux existants de la plateforme
+ * @param timezone - Fuseau du workspace (aperçu du prochain créneau)
+ */
+function PlatformSlots({ platform, slots, timezone }: PlatformSlotsProps): React.JSX.Element {
+  const queryClient = useQueryClient()
+  const [weekdays, setWeekdays] = useState<number[]>([])
+  const [time, setTime] = useState('09:00')
+  const [isSaving, setIsSaving] = useState(false)
+  const [deletingId, setDeletingId] = useState<string | null>(null)
+
+  const label = PLATFORM_CONFIG[platform as LatePlatform]?.label ?? platform
+  const sortedSlots = [...slots].sort(
+    (a, b) => weekdayRank(a.weekday) - weekdayRank(b.weekday) || a.hour - b.hour || a.minute - b.minute,
+  )
+  const nextSlot = upcomingSlotTimes(slots, timezone, new Date(), 1)[0]
+
+  /** Met à jour le cache avec la liste renvoyée par la Server Action */
+  const applySlots = (updated: PostingSlot[] | undefined): void => {
+    if (updated) queryClient.setQueryData(postQueryKeys.slots(), updated)
+  }
+
+  const toggleWeekday = (weekday: number): void => {
+    setWeekdays((current) =>
+      current.includes(weekday) ? current.filter((d) => d !== weekday) : [...current, weekday],
+    )
+  }
+
+  /** Ajoute un créneau par jour coché à l'heure choisie */
+  const handleAdd = async (): Promise<void> => {
+    const [hour, minute] = time.split(':').map(Number)
+    setIsSaving(true)
+    try {
+      const result = await createPostingSlots({ platform, weekdays, hour, minute })
+      if (result.success) {
+        applySlots(result.slots)
+        setWeekdays([])
+        toast.success(`Créneaux ${label} enregistrés`)
+      } else {
+        toast.error(result.error ?? 'Impossible d\'ajouter les créneaux')
+      }
+    } catch (err) {
+      console.error('[PostingSlotSettings] Erreur :', err)
+      toast.error('Erreur réseau — réessayez')
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  /** Supprime un créneau */
+  const handleDelete = async (slotId: string): Promise<void> => {
+    setDeletingId(slotId)
+    try {
+      const result = await deletePostingSlot(slotId)
+      if (result.success) {
+        applySlots(result.slots)
+      } else {
+        toast.error(result.error ?? 'Impossible de supprimer le créneau')
+      }
+    } catch (err) {
+      console.error('[PostingSlotSettings] Erreur :', err)
+      toast.error('Erreur réseau — réessayez')
+    } finally {
+      setDeletingId(null)
+    }
+  }
+
+  return (
+    <div className="space-y-3 rounded-xl border border-border bg-card p-4">
+      {/* ── En-tête plateforme ── */}
+      <div className="flex items-center gap-2">
+        <PlatformIcon platform={platform as LatePlatform} className="size-5" />
+        <p className="text-sm font-medium">{label}</p>
+        {nextSlot && (
+          <p className="ml-auto text-xs text-muted-foreground">
+            Prochain créneau :{' '}
+            {nextSlot.toLocaleString('fr-FR', {
+              weekday: 'long',
+              day: 'numeric',
+              month: 'long',
+              hour: '2-digit',
+              minute: '2-digit',
+              timeZone: timezone,
+            })}
+          </p>
+        )}
+      </div>
+
+      {/* ── Créneaux existants ── */}
+      {sortedSlots.length > 0 ? (
+        <div className="flex flex-wrap gap-1.5">
+          {sortedSlots.map((slot) => (
+            <span
+              key={slot.id}
+              className="inline-flex items-center gap-1 rounded-full border border-border bg-muted/50 py-0.5 pl-2.5 pr-1 text-xs"
+            >
+              {WEEKDAY_OPTIONS.find((option) => option.value === slot.weekday)?.short}{' '}
+              <span className="tabular-nums">{formatSlotTime(slot)}</span>
+              <button
+                type="button"
+                onClick={() => void handleDelete(slot.id)}
+                disabled={deletingId === slot.id}
+                className="rounded-full p-0.5 text-muted-foreground hover:bg-muted hover:text-foreground disabled:opacity-50"
+                aria-label={`Supprimer le créneau ${formatSlotTime(slot)}`}
+              >
+                {deletingId === slot.id ? <Loader2 className="size-3 animate-spin" /> : <X className="size-3" />}
+              </button>
+            </span>
+          ))}
+        </div>
+      ) : (
+        <p className="text-xs text-muted-foreground">
+          Aucun créneau — « Ajouter à la file » n&apos;est pas disponible pour cette plateforme.
+        </p>
+      )}
+
+      {/* ── Ajout de créneaux ── */}
+      <div className="flex flex-wrap items-center gap-2">
+        <div className="flex gap-1" aria-label="Jours du créneau">
+          {WEEKDAY_OPTIONS.map((option) => {
+            const isSelected = weekdays.includes(option.value)
+            return (
+              <button
+                key={option.value}
+                type="button"
+                aria-pressed={isSelected}
+                onClick={() => toggleWeekday(option.value)}
+                className={[
+                  'rounded-md border px-2 py-1 text-xs font-medium transition-colors',
+                  isSelected
+                    ? 'border-primary bg-primary/10 text-primary'
+                    : 'border-border text-muted-foreground hover:text-foreground',
+                ].join(' ')}
+              >
+                {option.short}
+              </button>
+            )
+          })}
+        </div>
+        <Input
+          type="time"
+          value={time}
+          onChange={(e) => setTime(e.target.value)}
+          className="h-8 w-28"
+          aria-label="Heure du créneau"
+        />
+        <Button
+          size="sm"
+          variant="outline"
+          className="h-8 gap-1.5"
+          disabled={weekdays.length === 0 || !time || isSaving}
+          onClick={() => void handleAdd()}
+        >
+          {isSaving ? <Loader2 className="size-3.5 animate-spin" /> : <Plus className="size-3.5" />}
+          Ajouter
+        </Button>
+      </div>
+    </div>
+  )
+}
+
+// ─── Sous-composant : fuseau de la file ───────────────────────────────────────
+
+interface QueueTimezoneProps {
+  timezone: string
+}
+
+/**
+ * Fuseau dans lequel les créneaux du workspace sont lus.
+ *
+ * @param timezone - Fuseau actuel du workspace
+ */
+function QueueTimezone({ timezone }: QueueTimezoneProps): React.JSX.Element {
+  const queryClient = useQueryClient()
+  const [value, setValue] = useState(timezone)
+  const [isSaving, setIsSaving] = useState(false)
+
+  const timezoneOptions = useMemo(() => listTimezones(timezone), [timezone])
+  const isInvalid = !isValidTimezone(value)
+
+  /** Enregistre le fuseau puis met à jour le cache du workspace */
+  const handleSave = async (): Promise<void> => {
+    setIsSaving(true)
+    try {
+      const result = await updateQueueTimezone(value)
+      if (result.success) {
+        queryClient.setQueryData<WorkspaceMembersResponse>(workspaceQueryKeys.members(), (old) =>
+          old ? { ...old, workspace: { ...old.workspace, timezone: value } } : old,
+        )
+        toast.success('Fuseau de la file enregistré')
+      } else {
+        toast.error(result.error ?? 'Impossible d\'enregistrer le fuseau')
+      }
+    } catch (err) {
+      console.error('[PostingSlotSettings] Erreur :', err)
+      toast.error('Erreur réseau — réessayez')
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  return (
+    <div className="flex flex-wrap items-center gap-2 text-xs text-muted-foreground">
+      <span>Heures des créneaux dans le fuseau</span>
+      <Input
+        type="text"
+        list="queue-timezone-options"
+        value={value}
+        onChange={(e) => setValue(e.target.value)}
+        placeholder={DEFAULT_TIMEZONE}
+        autoComplete="off"
+        className="h-8 w-56"
+        aria-label="Fuseau des créneaux"
+        aria-invalid={isInvalid}
+      />
+      <datalist id="queue-timezone-options">
+        {timezoneOptions.map((tz) => (
+          <option key={tz} value={tz} />
+        ))}
+      </datalist>
+      <Button
+        size="sm"
+        variant="outline"
+        className="h-8"
+        disabled={isInvalid || value === timezone || isSaving}
+        onClick={() => void handleSave()}
+      >
+        {isSaving && <Loader2 className="size-3.5 animate-spin" />}
+        Enregistrer
+      </Button>
+    </div>
+  )
+}
+
+// ─── Composant ────────────────────────────────────────────────────────────────
+
+/**
+ * Section de gestion des créneaux de publication dans /settings.
+ * Une carte par plateforme connectée (les comptes multiples d'une même
+ * plateforme partagent ses créneaux).
+ */
+export function PostingSlotSettings(): React.JSX.Element {
+  const { platforms, isLoading: isLoadingPlatforms } = usePlatforms()
+  const { slotsByPlatform, isLoading: isLoadingSlots } = usePostingSlots()
+  // Fuseau du workspace : le même pour tous les membres (lib/post-queue.ts)
+  const { data: team, isLoading: isLoadingTeam } = useQuery({
+    queryKey: workspaceQueryKeys.members(),
+    queryFn: fetchWorkspaceMembers,
+    staleTime: 30 * 1000,
+  })
+  const timezone = team?.workspace.timezone ?? DEFAULT_TIMEZONE
+
+  if (isLoadingPlatforms || isLoadingSlots || isLoadingTeam) {
+    return (
+      <div className="flex items-center gap-2 text-sm text-muted-foreground">
+        <Loader2 className="size-4 animate-spin" />
+        Chargement des créneaux…
+      </div>
+    )
+  }
+
+  const connectedPlatforms = [...new Set(
+    platforms.filter((p) => p.isActive).map((p) => p.platform),
+  )]
+
+  if (connectedPlatforms.length === 0) {
+    return (
+      <div className="flex items-center gap-2 rounded-xl border border-dashed border-border p-5 text-sm text-muted-foreground">
+        <Clock className="size-4" />
+        Connecte un réseau social pour définir ses créneaux de publication.
+      </div>
+    )
+  }
+
+  return (
+    <div className="space-y-3">
+      <QueueTimezone key={timezone} timezone={timezone} />
+      {connectedPlatforms.map((platform) => (
+        <PlatformSlots
+          key={platform}
+          platform={platform}
+          slots={slotsByPlatform.get(platform) ?? []}
+          timezone={timezone}
+        />
+      ))}
+    </div>
+  )
+}
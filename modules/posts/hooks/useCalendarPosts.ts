@@ -3,6 +3,8 @@
  * @module posts
  * @description Hook TanStack Query pour charger les posts d'un mois donné.
  *   Utilisé par la vue calendrier pour afficher les posts par date.
+ *   Le regroupement par jour se fait dans le fuseau de l'utilisateur (User.timezone),
+ *   comme les bornes du mois calculées par GET /api/posts.
  *
  * @example
  *   const { posts, isLoading } = useCalendarPosts(2024, 3)
@@ -13,6 +15,8 @@
 
 import { useQuery } from '@tanstack/react-query'
 
+import { getZonedParts } from '@/lib/timezone'
+import { useUserTimezone } from '@/modules/auth/hooks/useUserTimezone'
 import { fetchCalendarPosts, postQueryKeys } from '@/modules/posts/queries/posts.queries'
 import type { Post } from '@/modules/posts/types'
 
@@ -33,34 +37,36 @@ interface UseCalendarPostsReturn {
 
 /**
  * Formate une date en clé "YYYY-MM-DD" pour le regroupement.
- * Utilise la date locale (pas UTC) pour coller à l'affichage utilisateur.
+ * Utilise la date dans le fuseau de l'utilisateur (pas UTC ni le navigateur).
  *
  * @param date - Date à formater
+ * @param timezone - Fuseau IANA de l'utilisateur
  * @returns Clé de date au format "YYYY-MM-DD"
  *
  * @example
- *   toDateKey(new Date('2024-03-15T10:00:00')) // → "2024-03-15"
+ *   toDateKey(new Date('2024-03-15T23:30:00Z'), 'Europe/Paris') // → "2024-03-16"
  */
-function toDateKey(date: Date | null): string | null {
+function toDateKey(date: Date | null, timezone: string): string | null {
   if (!date) return null
-  const d = new Date(date)
+  const p = getZonedParts(new Date(date), timezone)
   const pad = (n: number): string => String(n).padStart(2, '0')
-  return `${d.getFullYear()}-${pad(d.getMonth() + 1)}-${pad(d.getDate())}`
+  return `${p.year}-${pad(p.month)}-${pad(p.day)}`
 }
 
 /**
  * Groupe une liste de posts par date de planification ou de publication.
  *
  * @param posts - Liste de posts à regrouper
+ * @param timezone - Fuseau IANA de l'utilisateur
  * @returns Map clé=YYYY-MM-DD, valeur=Post[]
  */
-function groupPostsByDate(posts: Post[]): Map<string, Post[]> {
+function groupPostsByDate(posts: Post[], timezone: string): Map<string, Post[]> {
   const map = new Map<string, Post[]>()
 
   for (const post of posts) {
     // Priorité : scheduledFor > publishedAt > createdAt
     const dateToUse = post.scheduledFor ?? post.publishedAt ?? post.createdAt
-    const key = toDateKey(dateToUse)
+    const key = toDateKey(dateToUse, timezone)
     if (!key) continue
 
     const existing = map.get(key) ?? []
@@ -88,6 +94,7 @@ function groupPostsByDate(posts: Post[]): Map<string, Post[]> {
  *   const postsOnMarch15 = postsByDate.get('2024-03-15') ?? []
  */
 export function useCalendarPosts(year: number, month: number): UseCalendarPostsReturn {
+  const { timezone } = useUserTimezone()
   const { data, isLoading, error } = useQuery({
     queryKey: postQueryKeys.calendar(year, month),
     queryFn: () => fetchCalendarPosts(year, month),
@@ -98,7 +105,7 @@ export function useCalendarPosts(year: number, month: number): UseCalendarPostsR
   })
 
   const posts = data ?? []
-  const postsByDate = groupPostsByDate(posts)
+  const postsByDate = groupPostsByDate(posts, timezone)
 
   return {
     posts,
@@ -0,0 +1,191 @@
+/**
+ * @file modules/posts/hooks/useKanbanPosts.ts
+ * @module posts
+ * @description Hook TanStack Query de la vue Kanban (/compose).
+ *   - Charge tous les posts (fetchKanbanPosts) et les groupe par statut côté client
+ *   - Expose `movePost` : déplacement optimiste d'une carte avec rollback si la
+ *     Server Action updatePostStatus retourne une erreur
+ *   - Expose `queuePost` : planifie un brouillon sur le prochain créneau libre de sa
+ *     plateforme (schedulePost en mode file) — non optimiste, la date vient du serveur
+ *
+ * @example
+ *   const { postsByStatus, movePost, isLoading } = useKanbanPosts()
+ *   await movePost({ post, newStatus: 'SCHEDULED', scheduledFor: new Date('2026-03-15T09:00') })
+ */
+
+'use client'
+
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query'
+
+import { schedulePost } from '@/modules/posts/actions/schedule-post.action'
+import { updatePostStatus } from '@/modules/posts/actions/update-post-status.action'
+import { fetchKanbanPosts, postQueryKeys } from '@/modules/posts/queries/posts.queries'
+import type { Post } from '@/modules/posts/types'
+
+// ─── Types ────────────────────────────────────────────────────────────────────
+
+/** Paramètres d'un déplacement de carte */
+export interface MovePostParams {
+  /** Post déplacé (état avant le drop) */
+  post: Post
+  /** Colonne cible */
+  newStatus: Post['status']
+  /** Date choisie dans le prompt (DRAFT sans date → SCHEDULED) */
+  scheduledFor?: Date
+}
+
+interface UseKanbanPostsReturn {
+  /** Posts groupés par statut (une entrée par colonne, [] si vide) */
+  postsByStatus: Record<Post['status'], Post[]>
+  /** Vrai pendant le premier chargement */
+  isLoading: boolean
+  /** Erreur de chargement éventuelle */
+  error: Error | null
+  /** Déplace un post (optimiste) — rejette avec le message de la Server Action en cas d'échec */
+  movePost: (params: MovePostParams) => Promise<Post>
+  /** Ajoute un brouillon à la file — rejette avec le message de la Server Action en cas d'échec */
+  queuePost: (post: Post) => Promise<Post>
+}
+
+// ─── Helpers ──────────────────────────────────────────────────────────────────
+
+/**
+ * Groupe les posts par statut en conservant l'ordre reçu.
+ *
+ * @param posts - Posts à grouper
+ * @returns Record statut → posts
+ */
+function groupByStatus(posts: Post[]): Record<Post['status'], Post[]> {
+  const groups: Record<Post['status'], Post[]> = {
+    DRAFT: [],
+    PENDING_REVIEW: [],
+    SCHEDULED: [],
+    PUBLISHED: [],
+    FAILED: [],
+  }
+  for (const post of posts) {
+    groups[post.status].push(post)
+  }
+  return groups
+}
+
+/**
+ * Applique localement l'effet d'une transition (miroir de updatePostStatus).
+ *
+ * @param post - Post avant déplacement
+ * @param newStatus - Statut cible
+ * @param scheduledFor - Date choisie dans le prompt (optionnelle)
+ * @returns Post tel qu'il devrait apparaître après la transition
+ */
+function applyTransition(post: Post, newStatus: Post['status'], scheduledFor?: Date): Post {
+  return {
+    ...post,
+    status: newStatus,
+    // SCHEDULED → DRAFT efface la date ; DRAFT → SCHEDULED peut en recevoir une
+    scheduledFor:
+      post.status === 'SCHEDULED' && newStatus === 'DRAFT'
+        ? null
+        : (scheduledFor ?? post.scheduledFor),
+    // FAILED → DRAFT efface le message d'erreur
+    failureReason: post.status === 'FAILED' ? null : post.failureReason,
+    // Soumission à validation : l'approbation précédente ne vaut plus
+    approvedAt: newStatus === 'PENDING_REVIEW' ? null : post.approvedAt,
+  }
+}
+
+// ─── Hook ─────────────────────────────────────────────────────────────────────
+
+/**
+ * Hook de la vue Kanban : lecture groupée par statut + déplacement optimiste.
+ *
+ * @returns Colonnes, états de chargement et fonction de déplacement
+ */
+export function useKanbanPosts(): UseKanbanPostsReturn {
+  const queryClient = useQueryClient()
+  const queryKey = postQueryKeys.kanban()
+
+  const query = useQuery({
+    queryKey,
+    queryFn: fetchKanbanPosts,
+    staleTime: 30_000,
+  })
+
+  const mutation = useMutation({
+    mutationFn: async ({ post, newStatus, scheduledFor }: MovePostParams): Promise<Post> => {
+      const result = await updatePostStatus(post.id, newStatus, scheduledFor)
+      // Une erreur métier (transition refusée, date passée…) doit déclencher le rollback
+      if (!result.success || !result.post) {
+        throw new Error(result.error ?? 'Erreur lors du déplacement du post')
+      }
+      return result.post
+    },
+
+    // ── Update optimiste : la carte change de colonne immédiatement ──────────
+    onMutate: async ({ post, newStatus, scheduledFor }) => {
+      // Annuler les fetchs en cours pour qu'ils n'écrasent pas l'état optimiste
+      await queryClient.cancelQueries({ queryKey })
+      const previous = queryClient.getQueryData<Post[]>(queryKey)
+
+      queryClient.setQueryData<Post[]>(queryKey, (old) =>
+        old?.map((p) => (p.id === post.id ? applyTransition(p, newStatus, scheduledFor) : p)),
+      )
+
+      return { previous }
+    },
+
+    // ── Rollback : restaurer le snapshot pris avant le déplacement ───────────
+    onError: (_error, _params, context) => {
+      if (context?.previous) {
+        queryClient.setQueryData(queryKey, context.previous)
+      }
+    },
+
+    // ── Succès : remplacer la version optimiste par celle du serveur ─────────
+    onSuccess: (updatedPost) => {
+      queryClient.setQueryData<Post[]>(queryKey, (old) =>
+        old?.map((p) => (p.id === updatedPost.id ? updatedPost : p)),
+      )
+    },
+
+    // La liste /compose et le calendrier affichent les mêmes posts → resynchroniser.
+    // Le Kanban aussi : déplanifier un post en file avance les posts suivants.
+    onSettled: () => {
+      void queryClient.invalidateQueries({ queryKey })
+      void queryClient.invalidateQueries({ queryKey: ['posts', 'compose'] })
+      void queryClient.invalidateQueries({ queryKey: postQueryKeys.calendars() })
+    },
+  })
+
+  const queueMutation = useMutation({
+    mutationFn: async (post: Post): Promise<Post> => {
+      const result = await schedulePost(
+        {
+          text: post.text,
+          platform: post.platform,
+          mediaUrls: post.mediaUrls,
+          connectedPlatformId: post.connectedPlatformId,
+          queue: true,
+        },
+        post.id,
+      )
+      if (!result.success || !result.post) {
+        throw new Error(result.error ?? 'Erreur lors de l\'ajout à la file')
+      }
+      return result.post
+    },
+
+    onSettled: () => {
+      void queryClient.invalidateQueries({ queryKey })
+      void queryClient.invalidateQueries({ queryKey: ['posts', 'compose'] })
+      void queryClient.invalidateQueries({ queryKey: postQueryKeys.calendars() })
+    },
+  })
+
+  return {
+    postsByStatus: groupByStatus(query.data ?? []),
+    isLoading: query.isLoading,
+    error: query.error,
+    movePost: mutation.mutateAsync,
+    queuePost: queueMutation.mutateAsync,
+  }
+}
@@ -0,0 +1,53 @@
+/**
+ * @file modules/posts/hooks/usePostingSlots.ts
+ * @module posts
+ * @description Hook TanStack Query : créneaux de publication de l'utilisateur
+ *   (file d'attente), toutes plateformes. Partagé par la section de /settings
+ *   et le compositeur (« Ajouter à la file »).
+ *
+ * @example
+ *   const { slots, slotsByPlatform } = usePostingSlots()
+ *   const hasQueue = (slotsByPlatform.get('instagram') ?? []).length > 0
+ */
+
+'use client'
+
+import { useQuery } from '@tanstack/react-query'
+
+import { fetchPostingSlots, postQueryKeys } from '@/modules/posts/queries/posts.queries'
+import type { PostingSlot } from '@/modules/posts/types'
+
+// ─── Types ────────────────────────────────────────────────────────────────────
+
+interface UsePostingSlotsReturn {
+  /** Tous les créneaux ([] pendant le chargement) */
+  slots: PostingSlot[]
+  /** Créneaux groupés par plateforme */
+  slotsByPlatform: Map<string, PostingSlot[]>
+  isLoading: boolean
+}
+
+// ─── Hook ─────────────────────────────────────────────────────────────────────
+
+/**
+ * Créneaux de publication de l'utilisateur.
+ *
+ * @returns Créneaux (liste et groupés par plateforme) + état de chargement
+ */
+export function usePostingSlots(): UsePostingSlotsReturn {
+  const query = useQuery({
+    queryKey: postQueryKeys.slots(),
+    queryFn: fetchPostingSlots,
+    // Les créneaux changent rarement (uniquement depuis /settings)
+    staleTime: 5 * 60 * 1000,
+    refetchOnWindowFocus: false,
+  })
+
+  const slots = query.data ?? []
+  const slotsByPlatform = new Map<string, PostingSlot[]>()
+  for (const slot of slots) {
+    slotsByPlatform.set(slot.platform, [...(slotsByPlatform.get(slot.platform) ?? []), slot])
+  }
+
+  return { slots, slotsByPlatform, isLoading: query.isLoading }
+}
@@ -0,0 +1,62 @@
+/**
+ * @file modules/posts/hooks/useSeriesOccurrences.ts
+ * @module posts
+ * @description Hook TanStack Query : occurrences futures des séries récurrentes
+ *   projetées sur un mois du calendrier. Seule l'occurrence suivante d'une série
+ *   existe en base (vrai post) ; les suivantes sont calculées ici à partir de la règle.
+ *   Le regroupement par jour se fait dans le fuseau de l'utilisateur, comme useCalendarPosts.
+ *
+ * @example
+ *   const { occurrencesByDate } = useSeriesOccurrences(2026, 3)
+ *   occurrencesByDate.get('2026-03-16') // → [{ seriesId, occurrence, platforms, label }]
+ */
+
+'use client'
+
+import { useQuery } from '@tanstack/react-query'
+
+import { getZonedParts, zonedTimeToUtc } from '@/lib/timezone'
+import { useUserTimezone } from '@/modules/auth/hooks/useUserTimezone'
+import { fetchPostSeries, postQueryKeys } from '@/modules/posts/queries/posts.queries'
+import { projectSeriesOccurrences } from '@/modules/posts/utils/recurrence'
+import type { ProjectedOccurrence } from '@/modules/posts/utils/recurrence'
+
+// ─── Types ────────────────────────────────────────────────────────────────────
+
+interface UseSeriesOccurrencesReturn {
+  /** Occurrences projetées groupées par date (clé: "YYYY-MM-DD", fuseau utilisateur) */
+  occurrencesByDate: Map<string, ProjectedOccurrence[]>
+}
+
+// ─── Hook ─────────────────────────────────────────────────────────────────────
+
+/**
+ * Projette les séries actives sur le mois affiché.
+ *
+ * @param year  - Année (ex: 2026)
+ * @param month - Mois 1-indexé
+ * @returns Occurrences projetées par jour
+ */
+export function useSeriesOccurrences(year: number, month: number): UseSeriesOccurrencesReturn {
+  const { timezone } = useUserTimezone()
+  const { data } = useQuery({
+    queryKey: postQueryKeys.series(),
+    queryFn: fetchPostSeries,
+    staleTime: 5 * 60 * 1000,
+    refetchOnWindowFocus: false,
+  })
+
+  // Bornes du mois dans le fuseau de l'utilisateur (grille de 6 semaines : marge d'une semaine)
+  const from = zonedTimeToUtc({ year, month, day: 1 - 7 }, timezone)
+  const to = zonedTimeToUtc({ year, month: month + 1, day: 1 + 14 }, timezone)
+
+  const occurrencesByDate = new Map<string, ProjectedOccurrence[]>()
+  for (const projected of projectSeriesOccurrences(data ?? [], from, to)) {
+    const p = getZonedParts(projected.occurrence, timezone)
+    const pad = (n: number): string => String(n).padStart(2, '0')
+    const key = `${p.year}-${pad(p.month)}-${pad(p.day)}`
+    occurrencesByDate.set(key, [...(occurrencesByDate.get(key) ?? []), projected])
+  }
+
+  return { occurrencesByDate }
+}
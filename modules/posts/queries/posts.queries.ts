@@ -12,7 +12,14 @@
  *   useInfiniteQuery({ queryKey: composeQueryKey(filters), ... })
  */
 
-import type { Post } from '@/modules/posts/types'
+import type {
+  AgentSession,
+  Post,
+  PostRevision,
+  PostSeriesSummary,
+  PostStatusEvent,
+  PostingSlot,
+} from '@/modules/posts/types'
 
 import type { DateRange } from 'react-day-picker'
 
@@ -93,6 +100,42 @@ export const postQueryKeys = {
    *   queryClient.invalidateQueries({ queryKey: postQueryKeys.kanban() })
    */
   kanban: () => ['posts', 'kanban'] as const,
+
+  /**
+   * Séries récurrentes actives (projection des occurrences dans le calendrier).
+   * Sous la racine ['posts'] : invalidée avec le reste des posts.
+   */
+  series: () => ['posts', 'series'] as const,
+
+  /**
+   * Créneaux de publication (file d'attente), toutes plateformes.
+   * Invalidée après ajout/suppression de créneaux dans /settings.
+   */
+  slots: () => ['posts', 'slots'] as const,
+
+  /**
+   * Historique d'un post (transitions, commentaires, décisions de revue).
+   * Invalidée après chaque action de PostReviewPanel.
+   *
+   * @param postId - ID du post
+   */
+  events: (postId: string) => ['posts', 'events', postId] as const,
+
+  /**
+   * Révisions du contenu d'un post (timeline + restauration).
+   * Invalidée après une restauration depuis PostRevisionTimeline.
+   *
+   * @param postId - ID du post
+   */
+  revisions: (postId: string) => ['posts', 'revisions', postId] as const,
+
+  /**
+   * Conversation agent (chat de l'AgentModal).
+   * Invalidée après chaque tour (création ou modification via l'agent).
+   *
+   * @param sessionId - ID de la conversation
+   */
+  agentSession: (sessionId: string) => ['posts', 'agent-session', sessionId] as const,
 }
 
 /**
@@ -115,7 +158,7 @@ export const composeQueryKey = (filters: ComposeFilters): readonly unknown[] =>
 
 /**
  * Fetche tous les posts pour la vue Kanban (limit haute = 200, sans pagination).
- * Récupère les 4 statuts : DRAFT, SCHEDULED, PUBLISHED, FAILED.
+ * Récupère tous les statuts : DRAFT, PENDING_REVIEW, SCHEDULED, PUBLISHED, FAILED.
  * Le groupement par statut est fait côté client dans useKanbanPosts.
  *
  * @returns Liste de tous les posts (max 200)
@@ -128,7 +171,7 @@ export const composeQueryKey = (filters: ComposeFilters): readonly unknown[] =>
 export async function fetchKanbanPosts(): Promise<Post[]> {
   const params = new URLSearchParams({
     compose: '1',
-    statuses: 'DRAFT,SCHEDULED,PUBLISHED,FAILED',
+    statuses: 'DRAFT,PENDING_REVIEW,SCHEDULED,PUBLISHED,FAILED',
     limit: '200',
   })
 
@@ -146,6 +189,7 @@ export async function fetchKanbanPosts(): Promise<Post[]> {
       ...raw,
       scheduledFor: raw.scheduledFor ? new Date(raw.scheduledFor as unknown as string) : null,
       publishedAt: raw.publishedAt ? new Date(raw.publishedAt as unknown as string) : null,
+      approvedAt: raw.approvedAt ? new Date(raw.approvedAt as unknown as string) : null,
       createdAt: new Date(raw.createdAt as unknown as string),
       updatedAt: new Date(raw.updatedAt as unknown as string),
     }
@@ -177,6 +221,107 @@ export async function fetchCalendarPosts(year: number, month: number): Promise<P
   return response.json() as Promise<Post[]>
 }
 
+/**
+ * Fetche les séries récurrentes actives de l'utilisateur.
+ * Appelle GET /api/posts/series et désérialise lastScheduledFor (string → Date).
+ *
+ * @returns Séries actives avec leur dernière occurrence connue
+ * @throws Error si la réponse n'est pas OK
+ */
+export async function fetchPostSeries(): Promise<PostSeriesSummary[]> {
+  const response = await fetch('/api/posts/series')
+
+  if (!response.ok) {
+    throw new Error(`Erreur lors du chargement des séries : ${response.statusText}`)
+  }
+
+  const raw = (await response.json()) as PostSeriesSummary[]
+  return raw.map((series) => ({
+    ...series,
+    lastScheduledFor: series.lastScheduledFor
+      ? new Date(series.lastScheduledFor as unknown as string)
+      : null,
+  }))
+}
+
+/**
+ * Fetche les créneaux de publication de l'utilisateur (GET /api/posts/slots).
+ *
+ * @returns Créneaux de toutes les plateformes
+ * @throws Error si la réponse n'est pas OK
+ */
+export async function fetchPostingSlots(): Promise<PostingSlot[]> {
+  const response = await fetch('/api/posts/slots')
+
+  if (!response.ok) {
+    throw new Error(`Erreur lors du chargement des créneaux : ${response.statusText}`)
+  }
+
+  return response.json() as Promise<PostingSlot[]>
+}
+
+/**
+ * Fetche l'historique d'un post (GET /api/posts/[id]/events), du plus ancien au plus récent.
+ *
+ * @param postId - ID du post
+ * @returns Évènements avec createdAt désérialisé (string → Date)
+ * @throws Error si la réponse n'est pas OK
+ */
+export async function fetchPostEvents(postId: string): Promise<PostStatusEvent[]> {
+  const response = await fetch(`/api/posts/${postId}/events`)
+
+  if (!response.ok) {
+    throw new Error(`Erreur lors du chargement de l'historique : ${response.statusText}`)
+  }
+
+  const raw = (await response.json()) as PostStatusEvent[]
+  return raw.map((event) => ({ ...event, createdAt: new Date(event.createdAt as unknown as string) }))
+}
+
+/**
+ * Fetche les révisions du contenu d'un post (GET /api/posts/[id]/revisions),
+ * de la plus ancienne à la plus récente.
+ *
+ * @param postId - ID du post
+ * @returns Révisions avec createdAt désérialisé (string → Date)
+ * @throws Error si la réponse n'est pas OK
+ */
+export async function fetchPostRevisions(postId: string): Promise<PostRevision[]> {
+  const response = await fetch(`/api/posts/${postId}/revisions`)
+
+  if (!response.ok) {
+    throw new Error(`Erreur lors du chargement des révisions : ${response.statusText}`)
+  }
+
+  const raw = (await response.json()) as PostRevision[]
+  return raw.map((revision) => ({ ...revision, createdAt: new Date(revision.createdAt as unknown as string) }))
+}
+
+/**
+ * Fetche une conversation agent avec son historique (GET /api/agent/sessions/[id]).
+ *
+ * @param sessionId - ID de la conversation
+ * @returns Conversation avec dates désérialisées (string → Date)
+ * @throws Error si la réponse n'est pas OK
+ */
+export async function fetchAgentSession(sessionId: string): Promise<AgentSession> {
+  const response = await fetch(`/api/agent/sessions/${sessionId}`)
+
+  if (!response.ok) {
+    throw new Error(`Erreur lors du chargement de la conversation : ${response.statusText}`)
+  }
+
+  const raw = (await response.json()) as AgentSession
+  return {
+    ...raw,
+    createdAt: new Date(raw.createdAt as unknown as string),
+    messages: raw.messages.map((message) => ({
+      ...message,
+      createdAt: new Date(message.createdAt as unknown as string),
+    })),
+  }
+}
+
 /**
  * Fetche une page de posts pour /compose (mode infinite scroll).
  * Appelé par useInfiniteQuery avec pageParam = cursor | undefined.
@@ -255,6 +400,7 @@ export async function fetchComposePage(
       ...raw,
       scheduledFor: raw.scheduledFor ? new Date(raw.scheduledFor as unknown as string) : null,
       publishedAt: raw.publishedAt ? new Date(raw.publishedAt as unknown as string) : null,
+      approvedAt: raw.approvedAt ? new Date(raw.approvedAt as unknown as string) : null,
       createdAt: new Date(raw.createdAt as unknown as string),
       updatedAt: new Date(raw.updatedAt as unknown as string),
     }
@@ -0,0 +1,44 @@
+/**
+ * @file modules/posts/schemas/post-review.schema.ts
+ * @module posts
+ * @description Schémas Zod de la revue des posts (statut PENDING_REVIEW).
+ *   Commentaire libre (soumission, approbation, discussion) ou motif obligatoire
+ *   d'un rejet.
+ *
+ *   Utilisé côté client (panneau de revue du détail d'un post) ET côté serveur
+ *   (Server Actions de post-review.action.ts).
+ *
+ * @example
+ *   PostReviewSchema.parse({ postId: 'post_abc', comment: 'Ok pour moi' })
+ *   PostCommentSchema.parse({ postId: 'post_abc', comment: 'Le visuel n\'est pas validé' })
+ */
+
+import { z } from 'zod'
+
+/** Longueur maximale d'un commentaire de revue */
+const MAX_COMMENT_LENGTH = 2000
+
+/** Soumission, approbation : commentaire facultatif */
+export const PostReviewSchema = z.object({
+  postId: z.string().min(1, 'Post requis'),
+  comment: z
+    .string()
+    .trim()
+    .max(MAX_COMMENT_LENGTH, `Commentaire limité à ${MAX_COMMENT_LENGTH} caractères`)
+    .optional()
+    // Commentaire vide → absent
+    .transform((value) => value || undefined),
+})
+
+/** Commentaire seul ou rejet : texte obligatoire */
+export const PostCommentSchema = z.object({
+  postId: z.string().min(1, 'Post requis'),
+  comment: z
+    .string()
+    .trim()
+    .min(1, 'Le commentaire est requis')
+    .max(MAX_COMMENT_LENGTH, `Commentaire limité à ${MAX_COMMENT_LENGTH} caractères`),
+})
+
+export type PostReviewInput = z.input<typeof PostReviewSchema>
+export type PostCommentInput = z.input<typeof PostCommentSchema>
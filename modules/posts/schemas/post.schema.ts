@@ -14,6 +14,10 @@
 
 import { z } from 'zod'
 
+import { isValidTimezone } from '@/lib/timezone'
+import { ALT_TEXT_MAX_LENGTH } from '@/modules/posts/utils/accessibility'
+import { THREAD_MAX_PARTS } from '@/modules/posts/utils/thread'
+
 // ─── Limites par plateforme ───────────────────────────────────────────────────
 
 /**
@@ -56,13 +60,71 @@ export function getCharLimit(platform: string): number {
 /**
  * Statuts possibles d'un post.
  * DRAFT : brouillon non planifié
+ * PENDING_REVIEW : soumis à validation (approbation ou rejet motivé)
  * SCHEDULED : planifié pour publication future
  * PUBLISHED : publié avec succès
  * FAILED : publication échouée
  */
-export const PostStatusEnum = z.enum(['DRAFT', 'SCHEDULED', 'PUBLISHED', 'FAILED'])
+export const PostStatusEnum = z.enum(['DRAFT', 'PENDING_REVIEW', 'SCHEDULED', 'PUBLISHED', 'FAILED'])
 export type PostStatus = z.infer<typeof PostStatusEnum>
 
+/**
+ * Statuts qu'un enregistrement (savePost) peut demander.
+ * PENDING_REVIEW et les décisions de relecture passent par post-review.action.ts
+ * et updatePostStatus ; PUBLISHED et FAILED sont posés par la publication.
+ */
+export const PostSaveStatusEnum = z.enum(['DRAFT', 'SCHEDULED'])
+
+/**
+ * Fréquences de récurrence supportées.
+ * DAILY : tous les jours · WEEKLY : certains jours de la semaine · MONTHLY : un jour du mois
+ */
+export const RecurrenceFrequencyEnum = z.enum(['DAILY', 'WEEKLY', 'MONTHLY'])
+export type RecurrenceFrequency = z.infer<typeof RecurrenceFrequencyEnum>
+
+/**
+ * Règle de récurrence d'un post ou d'une campagne (stockée dans PostSeries.rule).
+ * L'heure est exprimée dans le fuseau `timezone` (« chaque lundi à 09:00 » reste
+ * à 09:00 locales après un changement d'heure).
+ *
+ * @example
+ *   // Chaque lundi à 09:00 (Montréal)
+ *   { frequency: 'WEEKLY', weekdays: [1], hour: 9, minute: 0, timezone: 'America/Montreal' }
+ *   // Le 1er de chaque mois à 10:30
+ *   { frequency: 'MONTHLY', monthDay: 1, hour: 10, minute: 30, timezone: 'Europe/Paris' }
+ */
+export const RecurrenceRuleSchema = z
+  .object({
+    frequency: RecurrenceFrequencyEnum,
+    /** Jours de la semaine (0 = dimanche … 6 = samedi) — WEEKLY uniquement */
+    weekdays: z.array(z.number().int().min(0).max(6)).max(7).optional().default([]),
+    /** Jour du mois (1-31, ramené au dernier jour des mois plus courts) — MONTHLY uniquement */
+    monthDay: z.number().int().min(1).max(31).optional(),
+    hour: z.number().int().min(0).max(23),
+    minute: z.number().int().min(0).max(59),
+    /** Fuseau IANA dans lequel hour/minute sont exprimées */
+    timezone: z.string().refine(isValidTimezone, 'Fuseau horaire invalide'),
+  })
+  .refine((rule) => rule.frequency !== 'WEEKLY' || rule.weekdays.length > 0, {
+    message: 'Choisissez au moins un jour de la semaine',
+    path: ['weekdays'],
+  })
+  .refine((rule) => rule.frequency !== 'MONTHLY' || rule.monthDay !== undefined, {
+    message: 'Choisissez le jour du mois',
+    path: ['monthDay'],
+  })
+
+export type RecurrenceRule = z.infer<typeof RecurrenceRuleSchema>
+
+/**
+ * Segment d'un thread après le premier (X, Threads, Bluesky).
+ * Les limites de la plateforme sont vérifiées côté serveur (validatePostContent).
+ */
+export const ThreadPartSchema = z.object({
+  text: z.string().max(63206, 'Le texte dépasse la limite maximale'),
+  mediaUrls: z.array(z.string().url()).max(35).default([]),
+})
+
 /**
  * Schéma de création d'un post simplifié (1 post = 1 plateforme).
  * Valide le texte, la plateforme cible, les médias et la date de planification.
@@ -88,6 +150,33 @@ export const PostCreateSchema = z.object({
   /** URLs des médias uploadés sur Supabase Storage */
   mediaUrls: z.array(z.string().url()).max(35).optional().default([]),
 
+  /**
+   * Textes alternatifs des médias ({ [url]: altText }).
+   * Un média sans entrée reprend le texte alternatif de la galerie à la publication.
+   */
+  mediaAltTexts: z
+    .record(
+      z.string(),
+      z.string().max(ALT_TEXT_MAX_LENGTH, `Le texte alternatif ne doit pas dépasser ${ALT_TEXT_MAX_LENGTH} caractères`),
+    )
+    .optional(),
+
+  /**
+   * Suite du thread, dans l'ordre de publication (plateformes supportsThreads).
+   * [] = post simple · undefined = ne rien changer (mise à jour).
+   */
+  threadParts: z
+    .array(ThreadPartSchema)
+    .max(THREAD_MAX_PARTS, `Un thread ne peut pas dépasser ${THREAD_MAX_PARTS + 1} parties`)
+    .optional(),
+
+  /**
+   * Options de publication de la plateforme (titre YouTube, tableau Pinterest…).
+   * Le détail est validé selon la plateforme par validatePostContent (platform-options.ts).
+   * undefined = ne rien changer (mise à jour).
+   */
+  platformOptions: z.record(z.string(), z.string()).optional(),
+
   /**
    * Date de planification (doit être dans le futur si définie).
    * undefined = enregistrer comme DRAFT (pas de date de publication).
@@ -99,8 +188,33 @@ export const PostCreateSchema = z.object({
     })
     .optional(),
 
-  /** Statut initial du post */
-  status: PostStatusEnum.default('DRAFT'),
+  /** Statut initial du post (DRAFT ou SCHEDULED) */
+  status: PostSaveStatusEnum.default('DRAFT'),
+
+  /**
+   * Compte connecté ciblé (ConnectedPlatform.id).
+   * Requis dès que l'utilisateur a plusieurs comptes sur la plateforme —
+   * vérifié côté serveur par resolveTargetAccount.
+   */
+  connectedPlatformId: z.string().min(1, 'Compte de publication invalide').nullable().optional(),
+
+  /**
+   * Campagne à laquelle rattacher le post (PostGroup.id), à la création uniquement.
+   * Utilisé par les sauvegardes multi-plateformes : un post par plateforme, même groupe.
+   */
+  groupId: z.string().min(1, 'Campagne invalide').nullable().optional(),
+
+  /**
+   * Récurrence de la publication (schedulePost uniquement).
+   * null = retirer la récurrence existante · undefined = ne rien changer.
+   */
+  recurrence: RecurrenceRuleSchema.nullable().optional(),
+
+  /**
+   * Ajout à la file (schedulePost uniquement) : la date est le prochain créneau
+   * libre de la plateforme (PostingSlot) — scheduledFor est alors ignorée.
+   */
+  queue: z.boolean().optional(),
 })
 
 export type PostCreate = z.infer<typeof PostCreateSchema>
@@ -111,10 +225,20 @@ export type PostCreate = z.infer<typeof PostCreateSchema>
  */
 export const PostUpdateSchema = PostCreateSchema.partial().extend({
   id: z.string().min(1, 'ID du post requis'),
+  /** Statut demandé — undefined = statut actuel conservé (pas de DRAFT par défaut) */
+  status: PostSaveStatusEnum.optional(),
 })
 
 export type PostUpdate = z.infer<typeof PostUpdateSchema>
 
+/**
+ * Restauration d'une révision du contenu d'un post (restorePostRevision).
+ */
+export const PostRevisionRestoreSchema = z.object({
+  postId: z.string().min(1, 'ID du post requis'),
+  revisionId: z.string().min(1, 'Révision requise'),
+})
+
 /**
  * Schéma de validation de l'upload de média.
  * Utilisé par le Route Handler POST /api/posts/upload-url.
@@ -126,9 +250,10 @@ export const MediaUploadRequestSchema = z.object({
   mimeType: z
     .string()
     .regex(/^(image|video)\//, 'Seuls les images et vidéos sont acceptées'),
-  /** Taille en octets — max 500 Mo */
+  /** Taille en octets — max 500 Mo, décomptée du quota de stockage */
   size: z
     .number()
+    .nonnegative('Taille de fichier invalide')
     .max(500 * 1024 * 1024, 'Le fichier dépasse la limite de 500 Mo'),
 })
 
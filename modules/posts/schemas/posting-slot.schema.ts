@@ -0,0 +1,33 @@
+/**
+ * @file modules/posts/schemas/posting-slot.schema.ts
+ * @module posts
+ * @description Schéma Zod des créneaux de publication (file d'attente).
+ *   Un ajout crée un créneau par jour coché, à la même heure :
+ *   « LinkedIn du lundi au vendredi à 08:30 » → 5 créneaux.
+ *
+ *   Utilisé côté client (formulaire de /settings) ET côté serveur
+ *   (Server Action createPostingSlots).
+ *
+ * @example
+ *   PostingSlotCreateSchema.parse({ platform: 'instagram', weekdays: [2, 4], hour: 18, minute: 0 })
+ */
+
+import { z } from 'zod'
+
+/**
+ * Schéma d'ajout de créneaux pour une plateforme.
+ * L'heure est celle du fuseau du workspace (Workspace.timezone).
+ */
+export const PostingSlotCreateSchema = z.object({
+  /** Plateforme concernée (ex: "instagram") */
+  platform: z.string().min(1, 'La plateforme est requise'),
+  /** Jours de la semaine (0 = dimanche … 6 = samedi) */
+  weekdays: z
+    .array(z.number().int().min(0).max(6))
+    .min(1, 'Choisissez au moins un jour')
+    .max(7),
+  hour: z.number().int().min(0, 'Heure invalide').max(23, 'Heure invalide'),
+  minute: z.number().int().min(0, 'Minute invalide').max(59, 'Minute invalide'),
+})
+
+export type PostingSlotCreate = z.infer<typeof PostingSlotCreateSchema>
@@ -21,13 +21,29 @@
  *   const { setPlatformOverride, removePlatformOverride } = useDraftStore()
  *   setPlatformOverride('twitter', { text: 'Version courte pour Twitter', mediaUrls: [] })
  *   removePlatformOverride('twitter') // Revenir au contenu de base
+ *
+ *   // Texte alternatif d'une image (partagé par la base et les overrides) :
+ *   const { setMediaAltText } = useDraftStore()
+ *   setMediaAltText('https://…/photo.jpg', 'Vitrine de la boutique')
+ *
+ *   // Thread (X, Threads, Bluesky) : segments publiés après le texte de base
+ *   const { addThreadPart, updateThreadPart } = useDraftStore()
+ *   addThreadPart()
+ *   updateThreadPart(0, { text: 'Suite du thread 2/2' })
+ *
+ *   // Options de publication d'une plateforme (titre YouTube, tableau Pinterest…) :
+ *   const { setPlatformOption } = useDraftStore()
+ *   setPlatformOption('youtube', 'title', 'Visite de la boutique')
  */
 
 import { create } from 'zustand'
 import { createJSONStorage, persist } from 'zustand/middleware'
 import { immer } from 'zustand/middleware/immer'
 
+import type { PlatformOptions } from '@/modules/platforms/config/platform-options'
 import type { Platform } from '@/modules/platforms/types'
+import type { RecurrenceFrequency } from '@/modules/posts/schemas/post.schema'
+import type { ThreadPart } from '@/modules/posts/utils/thread'
 
 // ─── Types ────────────────────────────────────────────────────────────────────
 
@@ -43,6 +59,17 @@ export interface PlatformOverride {
   mediaUrls: string[]
 }
 
+/**
+ * Récurrence choisie dans le compositeur.
+ * L'heure et le jour du mois sont repris de scheduledFor à la planification
+ * (voir buildRecurrenceRule) : seuls la fréquence et les jours de semaine sont stockés.
+ */
+export interface RecurrenceDraft {
+  frequency: RecurrenceFrequency
+  /** Jours de la semaine (0 = dimanche … 6 = samedi) — WEEKLY uniquement */
+  weekdays: number[]
+}
+
 // ─── Interface du store ───────────────────────────────────────────────────────
 
 interface DraftStore {
@@ -57,12 +84,27 @@ interface DraftStore {
   /** URLs publiques des médias de base (Supabase Storage) */
   mediaUrls: string[]
 
+  /**
+   * Textes alternatifs des médias, par URL (base et overrides confondus).
+   * Les entrées des médias retirés sont ignorées à la sauvegarde.
+   */
+  mediaAltTexts: Record<string, string>
+
+  /**
+   * Suite du thread : segments publiés après le texte et les médias de base,
+   * sur les plateformes qui acceptent les threads. [] = post simple.
+   */
+  threadParts: ThreadPart[]
+
   /**
    * Date/heure de planification.
    * null = publier immédiatement ou enregistrer comme DRAFT.
    */
   scheduledFor: Date | null
 
+  /** Récurrence de la publication (null = publication unique) */
+  recurrence: RecurrenceDraft | null
+
   /**
    * ID du post en DB si édition d'un post existant.
    * null = nouveau post (pas encore sauvegardé).
@@ -80,6 +122,12 @@ interface DraftStore {
    */
   platformOverrides: Partial<Record<Platform, PlatformOverride>>
 
+  /**
+   * Options de publication par plateforme (voir platform-options.ts).
+   * Structure : { 'youtube': { title: '...', visibility: 'public' }, ... }
+   */
+  platformOptions: Partial<Record<Platform, PlatformOptions>>
+
   // ── Actions de base ──────────────────────────────────────────────────────────
 
   /** Met à jour le texte de base du brouillon */
@@ -90,7 +138,7 @@ interface DraftStore {
 
   /**
    * Ajoute ou retire une plateforme de la sélection.
-   * Si absente → ajout. Si présente → retrait + suppression de son override.
+   * Si absente → ajout. Si présente → retrait + suppression de son override et de ses options.
    */
   togglePlatform: (platform: Platform) => void
 
@@ -100,9 +148,41 @@ interface DraftStore {
   /** Retire une URL de média de la liste de base */
   removeMediaUrl: (url: string) => void
 
+  /** Définit le texte alternatif d'un média (chaîne vide = retiré) */
+  setMediaAltText: (url: string, altText: string) => void
+
+  /** Remplace la suite du thread ([] = post simple) */
+  setThreadParts: (parts: ThreadPart[]) => void
+
+  /** Ajoute un segment vide à la fin du thread */
+  addThreadPart: () => void
+
+  /**
+   * Met à jour le texte et/ou les médias d'un segment du thread.
+   *
+   * @param index - Position du segment dans threadParts
+   * @param patch - Champs modifiés
+   */
+  updateThreadPart: (index: number, patch: Partial<ThreadPart>) => void
+
+  /** Retire un segment du thread */
+  removeThreadPart: (index: number) => void
+
+  /**
+   * Définit une option de publication d'une plateforme.
+   *
+   * @param platform - Plateforme concernée
+   * @param key      - Clé de l'option (ex: 'title')
+   * @param value    - Valeur saisie (chaîne vide = option retirée)
+   */
+  setPlatformOption: (platform: Platform, key: string, value: string) => void
+
   /** Définit la date de planification (null pour annuler) */
   setScheduledFor: (date: Date | null) => void
 
+  /** Définit la récurrence (null = publication unique) */
+  setRecurrence: (recurrence: RecurrenceDraft | null) => void
+
   /** Lie le brouillon à un post DB existant */
   setPostId: (id: string | null) => void
 
@@ -174,12 +254,25 @@ const initialState = {
   text: '',
   platforms: [] as Platform[],
   mediaUrls: [] as string[],
+  mediaAltTexts: {} as Record<string, string>,
+  threadParts: [] as ThreadPart[],
   scheduledFor: null,
+  recurrence: null as RecurrenceDraft | null,
   postId: null,
   platformOverrides: {} as Partial<Record<Platform, PlatformOverride>>,
+  platformOptions: {} as Partial<Record<Platform, PlatformOptions>>,
 } satisfies Pick<
   DraftStore,
-  'text' | 'platforms' | 'mediaUrls' | 'scheduledFor' | 'postId' | 'platformOverrides'
+  | 'text'
+  | 'platforms'
+  | 'mediaUrls'
+  | 'mediaAltTexts'
+  | 'threadParts'
+  | 'scheduledFor'
+  | 'recurrence'
+  | 'postId'
+  | 'platformOverrides'
+  | 'platformOptions'
 >
 
 // ─── Store ────────────────────────────────────────────────────────────────────
@@ -227,8 +320,9 @@ export const useDraftStore = create<DraftStore>()(
             state.platforms.push(platform)
           } else {
             state.platforms.splice(idx, 1)
-            // Nettoyer l'override de la plateforme retirée
+            // Nettoyer l'override et les options de la plateforme retirée
             delete state.platformOverrides[platform]
+            delete state.platformOptions[platform]
           }
         }),
 
@@ -244,12 +338,75 @@ export const useDraftStore = create<DraftStore>()(
           state.mediaUrls = state.mediaUrls.filter((u) => u !== url)
         }),
 
+      // Définit ou retire le texte alternatif d'un média
+      setMediaAltText: (url, altText) =>
+        set((state) => {
+          if (altText.trim()) {
+            state.mediaAltTexts[url] = altText.trim()
+          } else {
+            delete state.mediaAltTexts[url]
+          }
+        }),
+
+      // ── Actions thread ───────────────────────────────────────────────────────
+
+      // Remplace la suite du thread (ex: découpage automatique)
+      setThreadParts: (parts) =>
+        set((state) => {
+          state.threadParts = parts
+        }),
+
+      // Ajoute un segment vide en fin de thread
+      addThreadPart: () =>
+        set((state) => {
+          state.threadParts.push({ text: '', mediaUrls: [] })
+        }),
+
+      // Met à jour un segment existant (index hors limites : ignoré)
+      updateThreadPart: (index, patch) =>
+        set((state) => {
+          const part = state.threadParts[index]
+          if (part) {
+            Object.assign(part, patch)
+          }
+        }),
+
+      // Retire un segment du thread
+      removeThreadPart: (index) =>
+        set((state) => {
+          state.threadParts.splice(index, 1)
+        }),
+
+      // ── Options de publication ───────────────────────────────────────────────
+
+      // Définit ou retire une option (plateforme sans option restante : entrée supprimée)
+      setPlatformOption: (platform, key, value) =>
+        set((state) => {
+          const options = { ...state.platformOptions[platform] }
+          if (value.trim()) {
+            options[key] = value
+          } else {
+            delete options[key]
+          }
+          if (Object.keys(options).length > 0) {
+            state.platformOptions[platform] = options
+          } else {
+            delete state.platformOptions[platform]
+          }
+        }),
+
       // Définit la date de planification
       setScheduledFor: (date) =>
         set((state) => {
           state.scheduledFor = date
         }),
 
+      // Définit la récurrence (fréquence + jours de semaine)
+      setRecurrence: (recurrence) =>
+        set((state) => {
+          state.recurrence = recurrence
+        }),
+
       // Lie le brouillon à un post DB existant
       setPostId: (id) =>
         set((state) => {
@@ -330,9 +487,13 @@ export const useDraftStore = create<DraftStore>()(
         text: state.text,
         platforms: state.platforms,
         mediaUrls: state.mediaUrls,
+        mediaAltTexts: state.mediaAltTexts,
+        threadParts: state.threadParts,
         scheduledFor: state.scheduledFor,
+        recurrence: state.recurrence,
         postId: state.postId,
         platformOverrides: state.platformOverrides,
+        platformOptions: state.platformOptions,
       }),
     },
   ),
@@ -9,7 +9,15 @@
  *   import type { Post, PostCreate, PostStatus } from '@/modules/posts/types'
  */
 
-export type { PostCreate, PostUpdate, PostStatus } from './schemas/post.schema'
+export type { PostCreate, PostUpdate, PostStatus, RecurrenceRule } from './schemas/post.schema'
+export type { PostingSlotCreate } from './schemas/posting-slot.schema'
+
+import type { PlatformOptions } from '@/modules/platforms/config/platform-options'
+import type { PlatformViolation } from '@/modules/platforms/config/platform-rules'
+import type { AccessibilityWarning } from '@/modules/posts/utils/accessibility'
+import type { ThreadPart } from '@/modules/posts/utils/thread'
+
+import type { RecurrenceRule } from './schemas/post.schema'
 
 // ─── Type Post (modèle complet depuis la DB) ──────────────────────────────────
 
@@ -23,10 +31,26 @@ export interface Post {
   text: string
   /** Plateforme cible unique (ex: "tiktok", "instagram") */
   platform: string
+  /** Compte connecté ciblé (ConnectedPlatform.id) — null si non encore choisi */
+  connectedPlatformId: string | null
+  /** Campagne d'origine (PostGroup.id) — null pour un post isolé */
+  groupId: string | null
+  /** Série récurrente (PostSeries.id) — null pour une publication unique */
+  seriesId: string | null
+  /** Dernière conversation agent ayant créé ou modifié le post (AgentSession.id) */
+  agentSessionId: string | null
   mediaUrls: string[]
+  /** Texte alternatif par média : { [url]: altText } (absent = texte de la galerie) */
+  mediaAltTexts: Record<string, string>
+  /** Suite du thread (X, Threads, Bluesky) publiée après text/mediaUrls — vide pour un post simple */
+  threadParts: ThreadPart[]
+  /** Options de publication de la plateforme (titre YouTube, tableau Pinterest…) — {} si aucune */
+  platformOptions: PlatformOptions
   scheduledFor: Date | null
   publishedAt: Date | null
-  status: 'DRAFT' | 'SCHEDULED' | 'PUBLISHED' | 'FAILED'
+  status: 'DRAFT' | 'PENDING_REVIEW' | 'SCHEDULED' | 'PUBLISHED' | 'FAILED'
+  /** Date d'approbation (validation avant planification) — null si non approuvé */
+  approvedAt: Date | null
   latePostId: string | null
   /** URL directe du post sur la plateforme sociale (ex: "https://tiktok.com/@handle/video/...") */
   platformPostUrl: string | null
@@ -39,11 +63,142 @@ export interface Post {
 
 /**
  * Résultat d'une Server Action de création/mise à jour de post.
+ * `violations` : détail des règles de plateforme non respectées (contenu refusé).
+ * `platformWarnings` : règles non respectées par un brouillon enregistré (savePost),
+ *   bloquantes à la planification.
+ * `accessibilityWarnings` : points d'accessibilité à corriger (non bloquants, schedulePost).
  */
 export interface SavePostResult {
   success: boolean
   post?: Post
   error?: string
+  violations?: PlatformViolation[]
+  platformWarnings?: PlatformViolation[]
+  accessibilityWarnings?: AccessibilityWarning[]
+}
+
+/**
+ * Résultat d'une action groupée sur une campagne (PostGroup).
+ * `posts` contient les posts créés ou modifiés (absent pour une suppression).
+ * `violations` : règles de plateforme non respectées (replanification refusée).
+ */
+export interface PostGroupActionResult {
+  success: boolean
+  posts?: Post[]
+  error?: string
+  violations?: PlatformViolation[]
+}
+
+/**
+ * Résultat d'une action sur une série récurrente (PostSeries).
+ * `seriesId` : série active après l'action (null = récurrence retirée).
+ * `posts` : posts déplacés lorsqu'une occurrence matérialisée est ignorée.
+ */
+export interface PostSeriesActionResult {
+  success: boolean
+  seriesId?: string | null
+  posts?: Post[]
+  error?: string
+}
+
+/**
+ * Série récurrente active telle que retournée par GET /api/posts/series.
+ * Utilisée par CalendarGrid pour projeter les occurrences futures.
+ */
+export interface PostSeriesSummary {
+  id: string
+  /** Règle de récurrence (voir RecurrenceRuleSchema) */
+  rule: RecurrenceRule
+  /** Occurrences ignorées (ISO 8601) */
+  skipDates: string[]
+  /** Plateformes des posts de la série (dernière occurrence connue) */
+  platforms: string[]
+  /** Date de la dernière occurrence existante en base — les suivantes sont projetées */
+  lastScheduledFor: Date | null
+}
+
+/**
+ * Créneau de publication hebdomadaire d'une plateforme (modèle Prisma PostingSlot).
+ * L'heure est exprimée dans le fuseau du workspace (Workspace.timezone).
+ */
+export interface PostingSlot {
+  id: string
+  platform: string
+  /** 0 = dimanche … 6 = samedi */
+  weekday: number
+  hour: number
+  minute: number
+}
+
+/**
+ * Résultat d'une Server Action sur les créneaux de publication.
+ * `slots` contient la liste à jour des créneaux de l'utilisateur.
+ */
+export interface PostingSlotActionResult {
+  success: boolean
+  slots?: PostingSlot[]
+  error?: string
+}
+
+/**
+ * Nature d'un évènement de l'historique d'un post (enum Prisma PostEventAction).
+ * STATUS_CHANGED : transition hors revue (planification, annulation, publication…)
+ */
+export type PostEventAction = 'STATUS_CHANGED' | 'SUBMITTED' | 'COMMENTED' | 'APPROVED' | 'REJECTED'
+
+/**
+ * Évènement de l'historique d'un post tel que retourné par GET /api/posts/[id]/events.
+ * `actorName` : nom (ou email) de l'auteur, null pour une transition système.
+ */
+export interface PostStatusEvent {
+  id: string
+  action: PostEventAction
+  fromStatus: Post['status'] | null
+  toStatus: Post['status'] | null
+  comment: string | null
+  actorName: string | null
+  createdAt: Date
+}
+
+/** Origine d'une révision (enum Prisma RevisionSource) */
+export type RevisionSource = 'MANUAL' | 'AGENT' | 'RESTORE'
+
+/**
+ * Version du contenu d'un post telle que retournée par GET /api/posts/[id]/revisions.
+ * `authorName` : nom (ou email) de l'auteur, null si l'auteur a été supprimé.
+ */
+export interface PostRevision {
+  id: string
+  source: RevisionSource
+  text: string
+  mediaUrls: string[]
+  /** Instruction donnée à l'agent (source AGENT) */
+  instruction: string | null
+  /** Révision restaurée (source RESTORE) */
+  restoredFromId: string | null
+  authorName: string | null
+  createdAt: Date
+}
+
+/**
+ * Résultat d'une action de revue (soumission, commentaire, approbation, rejet).
+ * `post` : post après l'action (statut et approbation à jour).
+ */
+export interface PostReviewActionResult {
+  success: boolean
+  post?: Post
+  error?: string
+}
+
+/**
+ * Résultat de suggestBestTime : créneau « meilleur moment » proposé au compositeur.
+ * `explanation` justifie le choix (rang, engagement moyen, créneaux déjà pris).
+ */
+export interface BestTimeActionResult {
+  success: boolean
+  scheduledFor?: Date
+  explanation?: string
+  error?: string
 }
 
 /**
@@ -88,6 +243,8 @@ export interface PoolMedia {
   type: 'photo' | 'video'
   /** Nom du fichier original */
   filename: string
+  /** Texte alternatif repris de la galerie ou saisi dans le pool */
+  altText?: string
 }
 
 /**
@@ -110,6 +267,58 @@ export interface PostDraft {
   text: string
   /** URLs des médias Supabase sélectionnés pour ce post */
   mediaUrls: string[]
+  /** Suite du thread (X, Threads, Bluesky) — absente pour un post simple */
+  threadParts?: ThreadPart[]
+  /** Options de publication de la plateforme (titre YouTube, subreddit…) */
+  platformOptions?: PlatformOptions
   /** Date de publication ISO 8601, ou null si brouillon (pas de date) */
   scheduledFor: string | null
+  /** Compte ciblé quand la plateforme a plusieurs comptes connectés */
+  connectedPlatformId?: string | null
+  /** Planifier au meilleur moment (statistiques best-time) quand scheduledFor est null */
+  bestTime?: boolean
+}
+
+/**
+ * Modification d'un post de la conversation, produite par l'agent lors d'un tour de suivi.
+ * Mêmes champs qu'un PostDraft, appliqués au post existant `postId`.
+ */
+export interface PostDraftEdit {
+  /** Post de la conversation à modifier */
+  postId: string
+  /** Texte complet mis à jour */
+  text: string
+  /** URLs des médias conservés ou ajoutés */
+  mediaUrls: string[]
+  /** Suite du thread après modification (X, Threads, Bluesky) */
+  threadParts?: ThreadPart[]
+  /** Options de publication après modification */
+  platformOptions?: PlatformOptions
+  /** Date de publication ISO 8601, ou null si brouillon */
+  scheduledFor: string | null
+}
+
+/** Auteur d'un message de conversation agent (enum Prisma AgentMessageRole) */
+export type AgentMessageRole = 'USER' | 'ASSISTANT'
+
+/**
+ * Message d'une conversation agent (GET /api/agent/sessions/[id]).
+ * Instruction de l'utilisateur ou résumé de la réponse de l'agent.
+ */
+export interface AgentMessage {
+  id: string
+  role: AgentMessageRole
+  content: string
+  /** Posts créés ou modifiés par ce tour (ASSISTANT uniquement) */
+  postIds: string[]
+  createdAt: Date
+}
+
+/** Conversation agent avec son historique, du plus ancien au plus récent message */
+export interface AgentSession {
+  id: string
+  /** Première instruction, tronquée */
+  title: string
+  messages: AgentMessage[]
+  createdAt: Date
 }
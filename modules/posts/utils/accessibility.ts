@@ -0,0 +1,142 @@
+/**
+ * @file modules/posts/utils/accessibility.ts
+ * @module posts
+ * @description Vérifications d'accessibilité d'un post avant publication :
+ *   images sans texte alternatif, hashtags multi-mots sans CamelCase (mal lus
+ *   par les lecteurs d'écran) et lignes composées uniquement d'emojis.
+ *
+ *   Contrairement aux PlatformViolation, ces avertissements ne bloquent pas
+ *   l'écriture : ils sont affichés dans le composer (PlatformTabs) et retournés
+ *   par schedulePost dans `accessibilityWarnings`.
+ *
+ * @example
+ *   const warnings = getAccessibilityWarnings(post.text, post.mediaUrls, post.mediaAltTexts)
+ *   // → [{ type: 'missing_alt_text', message: 'Média 1 : image sans texte alternatif', mediaUrl: '…/photo.jpg' }]
+ */
+
+import { isVideoUrl } from './media.utils'
+
+// ─── Types ────────────────────────────────────────────────────────────────────
+
+/** Avertissement d'accessibilité (non bloquant) */
+export interface AccessibilityWarning {
+  type: 'missing_alt_text' | 'hashtag_not_camel_case' | 'emoji_only_line'
+  /** Message en français affichable tel quel */
+  message: string
+  /** Média concerné (missing_alt_text uniquement) */
+  mediaUrl?: string
+}
+
+// ─── Constantes ───────────────────────────────────────────────────────────────
+
+/** Longueur maximale d'un texte alternatif (limite de X, la plus stricte) */
+export const ALT_TEXT_MAX_LENGTH = 1000
+
+/**
+ * Nombre de lettres à partir duquel un hashtag sans majuscule interne est
+ * considéré comme multi-mots (ex: #socialmediatips, mais pas #marketing).
+ */
+const MULTI_WORD_HASHTAG_MIN_LETTERS = 11
+
+/** Hashtag : # suivi de lettres, chiffres ou underscores (Unicode) */
+const HASHTAG_PATTERN = new RegExp('#([\\p{L}\\p{N}_]+)', 'gu')
+
+/** Emoji (pictogramme, hors chiffres et symboles # / * des keycaps) */
+const EMOJI_PATTERN = new RegExp('\\p{Extended_Pictographic}', 'u')
+
+/** Lettre ou chiffre, quelle que soit l'écriture */
+const WORD_CHARACTER_PATTERN = new RegExp('[\\p{L}\\p{N}]', 'u')
+
+// ─── Helpers ──────────────────────────────────────────────────────────────────
+
+/**
+ * Textes alternatifs valides d'un post : valeurs non vides, limitées aux médias
+ * du post si `mediaUrls` est fourni. Accepte la valeur brute de la colonne JSON.
+ *
+ * @param value     - Valeur de `Post.mediaAltTexts` (JSON) ou saisie du composer
+ * @param mediaUrls - Médias du post (optionnel)
+ * @returns Dictionnaire { [url]: altText } nettoyé
+ *
+ * @example
+ *   normalizeMediaAltTexts({ 'a.jpg': ' Logo ', 'b.jpg': '' }, ['a.jpg'])
+ *   // → { 'a.jpg': 'Logo' }
+ */
+export function normalizeMediaAltTexts(
+  value: unknown,
+  mediaUrls?: string[],
+): Record<string, string> {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) return {}
+
+  const altTexts: Record<string, string> = {}
+  for (const [url, altText] of Object.entries(value)) {
+    if (typeof altText !== 'string' || !altText.trim()) continue
+    if (mediaUrls && !mediaUrls.includes(url)) continue
+    altTexts[url] = altText.trim()
+  }
+  return altTexts
+}
+
+/**
+ * Indique si un hashtag multi-mots est écrit sans CamelCase
+ * (tout en minuscules ou tout en majuscules).
+ *
+ * @param tag - Hashtag sans le # (ex: "socialmediatips")
+ * @returns true si le hashtag gagnerait à être écrit en CamelCase
+ */
+function isUnreadableHashtag(tag: string): boolean {
+  const letters = tag.replace(/[^a-zA-ZÀ-ÿ]/g, '')
+  if (letters.length < MULTI_WORD_HASHTAG_MIN_LETTERS) return false
+  return letters === letters.toLowerCase() || letters === letters.toUpperCase()
+}
+
+// ─── Vérifications ────────────────────────────────────────────────────────────
+
+/**
+ * Avertissements d'accessibilité d'un post.
+ *
+ * @param text      - Texte du post
+ * @param mediaUrls - Médias du post (les vidéos ne sont pas concernées par le texte alternatif)
+ * @param altTexts  - Textes alternatifs par URL (post, puis galerie)
+ * @returns Avertissements (vide si le post est accessible)
+ *
+ * @example
+ *   getAccessibilityWarnings('Nouveautés #socialmediatips\n🎉🎉🎉', ['a.jpg'], {})
+ *   // → missing_alt_text (a.jpg), hashtag_not_camel_case, emoji_only_line
+ */
+export function getAccessibilityWarnings(
+  text: string,
+  mediaUrls: string[],
+  altTexts: Record<string, string>,
+): AccessibilityWarning[] {
+  const warnings: AccessibilityWarning[] = []
+
+  mediaUrls.forEach((url, index) => {
+    if (isVideoUrl(url) || altTexts[url]?.trim()) return
+    warnings.push({
+      type: 'missing_alt_text',
+      message: `Média ${index + 1} : image sans texte alternatif`,
+      mediaUrl: url,
+    })
+  })
+
+  const hashtags = new Set(Array.from(text.matchAll(HASHTAG_PATTERN), (match) => match[1]))
+  for (const tag of hashtags) {
+    if (!isUnreadableHashtag(tag)) continue
+    warnings.push({
+      type: 'hashtag_not_camel_case',
+      message: `Hashtag #${tag} difficile à lire : écrivez-le en CamelCase (ex: #MonHashtag)`,
+    })
+  }
+
+  const emojiOnlyLines = text
+    .split('\n')
+    .filter((line) => EMOJI_PATTERN.test(line) && !WORD_CHARACTER_PATTERN.test(line))
+  if (emojiOnlyLines.length > 0) {
+    warnings.push({
+      type: 'emoji_only_line',
+      message: `${emojiOnlyLines.length} ligne(s) composée(s) uniquement d'emojis, lues une à une par les lecteurs d'écran`,
+    })
+  }
+
+  return warnings
+}
@@ -0,0 +1,80 @@
+/**
+ * @file modules/posts/utils/account-target.ts
+ * @module posts
+ * @description Résolution du compte connecté (ConnectedPlatform) ciblé par un post.
+ *   Un utilisateur peut connecter plusieurs comptes d'une même plateforme
+ *   (ex: deux comptes Instagram de marques différentes) : un post doit donc viser
+ *   un `connectedPlatformId` explicite. Seul cas implicite toléré : un unique compte
+ *   actif pour la plateforme (aucune ambiguïté possible).
+ *
+ *   Fonction pure, partagée par les Server Actions, les routes agent et Inngest.
+ *
+ * @example
+ *   const result = resolveTargetAccount(accounts, 'instagram', body.connectedPlatformId)
+ *   if (!result.ok) return { success: false, error: result.error }
+ *   await prisma.post.create({ data: { ..., connectedPlatformId: result.connectedPlatformId } })
+ */
+
+// ─── Types ────────────────────────────────────────────────────────────────────
+
+/** Compte connecté minimal nécessaire à la résolution */
+export interface TargetAccountCandidate {
+  id: string
+  platform: string
+  accountName?: string
+}
+
+/** Résultat de la résolution : ID du compte, ou message d'erreur affichable */
+export type TargetAccountResolution =
+  | { ok: true; connectedPlatformId: string }
+  | { ok: false; error: string }
+
+// ─── Résolution ───────────────────────────────────────────────────────────────
+
+/**
+ * Détermine le compte de publication d'un post.
+ *
+ * - `requestedId` fourni → doit exister parmi les comptes actifs ET être de la bonne plateforme
+ * - sinon, un seul compte actif pour la plateforme → ce compte
+ * - sinon (aucun ou plusieurs comptes) → erreur : jamais de choix arbitraire
+ *
+ * @param accounts    - Comptes actifs de l'utilisateur (toutes plateformes confondues)
+ * @param platform    - Plateforme du post (ex: "instagram")
+ * @param requestedId - Compte choisi explicitement (null/undefined si aucun)
+ * @returns Résolution réussie avec l'ID, ou erreur en français
+ *
+ * @example
+ *   resolveTargetAccount([{ id: 'cp_1', platform: 'tiktok' }], 'tiktok')
+ *   // { ok: true, connectedPlatformId: 'cp_1' }
+ */
+export function resolveTargetAccount(
+  accounts: TargetAccountCandidate[],
+  platform: string,
+  requestedId?: string | null,
+): TargetAccountResolution {
+  if (requestedId) {
+    const account = accounts.find((a) => a.id === requestedId)
+    if (!account) {
+      return { ok: false, error: 'Compte de publication introuvable ou déconnecté' }
+    }
+    if (account.platform !== platform) {
+      return { ok: false, error: `Le compte sélectionné n'est pas un compte ${platform}` }
+    }
+    return { ok: true, connectedPlatformId: account.id }
+  }
+
+  const candidates = accounts.filter((a) => a.platform === platform)
+
+  if (candidates.length === 0) {
+    return { ok: false, error: `Aucun compte ${platform} connecté` }
+  }
+
+  if (candidates.length > 1) {
+    return {
+      ok: false,
+      error: `Plusieurs comptes ${platform} connectés — choisis le compte de publication`,
+    }
+  }
+
+  return { ok: true, connectedPlatformId: candidates[0].id }
+}
@@ -0,0 +1,101 @@
+/**
+ * @file modules/posts/utils/agent-session.ts
+ * @module posts
+ * @description Conversations multi-tours avec l'agent (fonctions pures).
+ *   Reconstruit l'historique transmis à Claude depuis les messages stockés
+ *   et résume chaque réponse de l'agent (affichée dans le chat de l'AgentModal).
+ *
+ *   L'historique est transmis en texte (instruction / résumé + entrée du tool) :
+ *   l'état à jour des posts de la conversation est fourni séparément dans le
+ *   prompt système, l'historique sert aux références ("comme avant").
+ *
+ * @example
+ *   const messages = [
+ *     ...agentHistoryMessages(session.messages),
+ *     { role: 'user', content: instruction },
+ *   ]
+ */
+
+import { PLATFORM_CONFIG } from '@/modules/platforms/constants'
+import type { AgentMessageRole } from '@/modules/posts/types'
+
+// ─── Constantes ───────────────────────────────────────────────────────────────
+
+/**
+ * Nombre maximal de messages d'historique transmis à Claude (les plus récents).
+ * Limite la taille du prompt sur les longues conversations.
+ */
+export const AGENT_HISTORY_LIMIT = 20
+
+// ─── Types ────────────────────────────────────────────────────────────────────
+
+/** Message stocké, tel que relu pour construire l'historique */
+export interface StoredAgentMessage {
+  role: AgentMessageRole
+  content: string
+  /** Entrée du tool appelé par l'agent (ASSISTANT) */
+  toolInput: unknown
+}
+
+/** Message de conversation transmis au fournisseur LLM (LlmMessage) */
+export interface AgentHistoryMessage {
+  role: 'user' | 'assistant'
+  content: string
+}
+
+// ─── Historique ───────────────────────────────────────────────────────────────
+
+/**
+ * Historique d'une conversation au format des fournisseurs LLM.
+ * Conserve les AGENT_HISTORY_LIMIT derniers messages et commence toujours
+ * par un message utilisateur (exigence des API).
+ *
+ * @param messages - Messages stockés, du plus ancien au plus récent
+ * @returns Messages alternés user / assistant
+ */
+export function agentHistoryMessages(messages: StoredAgentMessage[]): AgentHistoryMessage[] {
+  const recent = messages.slice(-AGENT_HISTORY_LIMIT)
+  const firstUser = recent.findIndex((message) => message.role === 'USER')
+  if (firstUser === -1) return []
+
+  return recent.slice(firstUser).map((message) => {
+    if (message.role === 'USER') return { role: 'user' as const, content: message.content }
+    // La réponse de l'agent inclut l'entrée du tool : textes exacts des versions précédentes
+    const toolInput = message.toolInput != null ? `\n${JSON.stringify(message.toolInput)}` : ''
+    return { role: 'assistant' as const, content: `${message.content}${toolInput}` }
+  })
+}
+
+// ─── Résumé d'un tour ─────────────────────────────────────────────────────────
+
+/**
+ * Libellés des plateformes, dans l'ordre.
+ *
+ * @param platforms - Plateformes (ex: ['linkedin', 'tiktok'])
+ * @returns Ex: "LinkedIn, TikTok"
+ */
+function formatPlatforms(platforms: string[]): string {
+  return platforms
+    .map((platform) => PLATFORM_CONFIG[platform as keyof typeof PLATFORM_CONFIG]?.label ?? platform)
+    .join(', ')
+}
+
+/**
+ * Résumé de la réponse de l'agent pour un tour de conversation.
+ *
+ * @param created - Plateformes des posts créés
+ * @param updated - Plateformes des posts modifiés
+ * @returns Ex: "2 posts créés (LinkedIn, TikTok) · 1 post modifié (Instagram)"
+ */
+export function summarizeAgentTurn(created: string[], updated: string[]): string {
+  const parts: string[] = []
+  if (created.length > 0) {
+    const plural = created.length > 1 ? 's' : ''
+    parts.push(`${created.length} post${plural} créé${plural} (${formatPlatforms(created)})`)
+  }
+  if (updated.length > 0) {
+    const plural = updated.length > 1 ? 's' : ''
+    parts.push(`${updated.length} post${plural} modifié${plural} (${formatPlatforms(updated)})`)
+  }
+  return parts.length > 0 ? parts.join(' · ') : 'Aucun post créé ni modifié'
+}
@@ -0,0 +1,174 @@
+/**
+ * @file modules/posts/utils/agent-stream.ts
+ * @module posts
+ * @description Protocole de streaming des routes agent (/api/agent/create-posts,
+ *   /api/agent/edit-post) : server-sent events partagés client / serveur.
+ *
+ *   Évènements émis :
+ *   - `draft` : aperçu partiel des posts pendant que l'agent écrit le tool_use
+ *   - `done`  : résultat final (posts créés ou post modifié), une seule fois
+ *   - `error` : message d'erreur affichable, une seule fois
+ *
+ *   Les erreurs détectées avant la génération (auth, validation…) restent des
+ *   réponses JSON classiques avec leur statut HTTP.
+ *
+ * @example
+ *   const res = await fetch('/api/agent/create-posts', { method: 'POST', body, signal })
+ *   const { posts } = await readAgentStream<{ posts: Post[] }>(res, (drafts) => setDrafts(drafts))
+ */
+
+// ─── Types ────────────────────────────────────────────────────────────────────
+
+/** Aperçu d'un post en cours de rédaction par l'agent */
+export interface AgentDraftPreview {
+  /** Plateforme cible (null tant que l'agent ne l'a pas encore écrite) */
+  platform: string | null
+  /** Texte partiel */
+  text: string
+}
+
+/** Évènement SSE décodé */
+export interface AgentStreamEvent {
+  event: string
+  data: unknown
+}
+
+// ─── Encodage / décodage SSE ──────────────────────────────────────────────────
+
+/**
+ * Encode un évènement au format server-sent events.
+ *
+ * @param event - Nom de l'évènement ('draft' | 'done' | 'error')
+ * @param data  - Données (sérialisées en JSON sur une ligne)
+ * @returns Bloc SSE terminé par une ligne vide
+ */
+export function formatSseEvent(event: string, data: unknown): string {
+  return `event: ${event}\ndata: ${JSON.stringify(data)}\n\n`
+}
+
+/**
+ * Extrait les évènements complets d'un tampon SSE.
+ * Le dernier bloc, éventuellement incomplet, est renvoyé dans `rest`
+ * pour être complété par le prochain chunk.
+ *
+ * @param buffer - Texte reçu (chunks concaténés)
+ * @returns Évènements décodés + reste non terminé
+ */
+export function parseSseEvents(buffer: string): { events: AgentStreamEvent[]; rest: string } {
+  const blocks = buffer.replace(/\r\n/g, '\n').split('\n\n')
+  const rest = blocks.pop() ?? ''
+  const events: AgentStreamEvent[] = []
+
+  for (const block of blocks) {
+    let event = 'message'
+    const dataLines: string[] = []
+    for (const line of block.split('\n')) {
+      if (line.startsWith('event:')) event = line.slice(6).trim()
+      else if (line.startsWith('data:')) dataLines.push(line.slice(5).trimStart())
+    }
+    // Bloc sans données (commentaire ":" ou keep-alive) : ignoré
+    if (dataLines.length === 0) continue
+    try {
+      events.push({ event, data: JSON.parse(dataLines.join('\n')) as unknown })
+    } catch {
+      // Données non JSON : ignorées (le protocole n'émet que du JSON)
+    }
+  }
+
+  return { events, rest }
+}
+
+// ─── Aperçus ──────────────────────────────────────────────────────────────────
+
+/**
+ * Convertit un post partiel (JSON du tool_use en cours d'écriture) en aperçu.
+ *
+ * @param value            - Objet partiel, ex: { platform: 'instagram', text: 'Nouve' }
+ * @param fallbackPlatform - Plateforme connue à l'avance (édition d'un post)
+ * @returns Aperçu, ou null si l'objet n'a encore ni plateforme ni texte
+ */
+function toDraftPreview(value: unknown, fallbackPlatform: string | null): AgentDraftPreview | null {
+  if (typeof value !== 'object' || value === null) return null
+  const { platform, text } = value as Record<string, unknown>
+  const preview = {
+    platform: typeof platform === 'string' && platform ? platform : fallbackPlatform,
+    text: typeof text === 'string' ? text : '',
+  }
+  return preview.platform || preview.text ? preview : null
+}
+
+/**
+ * Aperçus des posts depuis l'entrée partielle d'un tool agent.
+ * Gère les deux tools : create_posts_per_platform ({ posts: [...], edits: [...] })
+ * et edit_post ({ text, mediaUrls, ... }).
+ *
+ * @param snapshot         - Entrée du tool parsée partiellement par le SDK
+ * @param fallbackPlatform - Plateforme du post édité (edit_post n'a pas de champ platform)
+ * @param postPlatforms    - Plateforme des posts de la conversation (edits : postId → plateforme)
+ * @returns Aperçus dans l'ordre d'écriture : nouveaux posts puis posts modifiés
+ */
+export function extractDraftPreviews(
+  snapshot: unknown,
+  fallbackPlatform: string | null = null,
+  postPlatforms: Record<string, string> = {},
+): AgentDraftPreview[] {
+  if (typeof snapshot !== 'object' || snapshot === null) return []
+  const { posts, edits } = snapshot as Record<string, unknown>
+
+  if (Array.isArray(posts) || Array.isArray(edits)) {
+    const created = (Array.isArray(posts) ? posts : []).map((post) => toDraftPreview(post, null))
+    const updated = (Array.isArray(edits) ? edits : []).map((edit) => {
+      const postId = (edit as { postId?: unknown } | null)?.postId
+      return toDraftPreview(edit, typeof postId === 'string' ? (postPlatforms[postId] ?? null) : null)
+    })
+    return [...created, ...updated].filter((preview): preview is AgentDraftPreview => preview !== null)
+  }
+
+  const preview = toDraftPreview(snapshot, fallbackPlatform)
+  return preview ? [preview] : []
+}
+
+// ─── Lecture côté client ──────────────────────────────────────────────────────
+
+/**
+ * Lit la réponse d'une route agent jusqu'à l'évènement final.
+ * Accepte aussi une réponse JSON (erreur avant génération).
+ *
+ * @param res     - Réponse de fetch (annulable via AbortController → AbortError)
+ * @param onDraft - Appelé à chaque aperçu partiel
+ * @returns Données de l'évènement `done`
+ * @throws Error avec le message de l'évènement `error` ou de la réponse JSON
+ */
+export async function readAgentStream<T>(
+  res: Response,
+  onDraft: (drafts: AgentDraftPreview[]) => void,
+): Promise<T> {
+  if (!res.headers.get('Content-Type')?.includes('text/event-stream') || !res.body) {
+    const data = (await res.json().catch(() => ({}))) as { error?: string }
+    throw new Error(data.error ?? `Erreur ${res.status}`)
+  }
+
+  const reader = res.body.pipeThrough(new TextDecoderStream()).getReader()
+  let buffer = ''
+
+  for (;;) {
+    const { value, done } = await reader.read()
+    if (value) buffer += value
+    // En fin de flux, forcer le traitement du dernier bloc
+    const { events, rest } = parseSseEvents(done ? `${buffer}\n\n` : buffer)
+    buffer = rest
+
+    for (const { event, data } of events) {
+      if (event === 'draft') {
+        onDraft((data as { drafts: AgentDraftPreview[] }).drafts)
+      } else if (event === 'done') {
+        void reader.cancel()
+        return data as T
+      } else if (event === 'error') {
+        throw new Error((data as { error?: string }).error ?? 'Erreur de génération')
+      }
+    }
+
+    if (done) throw new Error('Connexion interrompue avant la fin de la génération')
+  }
+}
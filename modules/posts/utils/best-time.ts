@@ -0,0 +1,174 @@
+/**
+ * @file modules/posts/utils/best-time.ts
+ * @module posts
+ * @description Planification au « meilleur moment » à partir des statistiques
+ *   best-time de Late (GET /v1/analytics/best-time).
+ *
+ *   Un créneau Late est un couple (jour, heure) en UTC, lundi = 0 … dimanche = 6,
+ *   noté par son engagement moyen. On retient la prochaine occurrence (7 jours
+ *   glissants) du créneau le mieux noté qui n'est pas déjà pris par un post
+ *   SCHEDULED de la même plateforme.
+ *
+ *   Fonctions pures, partagées par la route /api/analytics/best-time (fusion),
+ *   la Server Action suggestBestTime (compositeur) et l'agent create-posts.
+ *
+ * @example
+ *   const slots = mergeBestTimeSlots([rawLateResponse])
+ *   const choice = pickBestTime(slots, new Date(), takenTimes)
+ *   if (choice) console.log(describeBestTime(choice, 'Europe/Paris'))
+ */
+
+import type { LateBestTimeSlot } from '@/lib/late'
+
+// ─── Types ────────────────────────────────────────────────────────────────────
+
+/** Créneau retenu pour une publication */
+export interface BestTimeChoice {
+  /** Date de publication (début de l'heure UTC du créneau) */
+  scheduledFor: Date
+  /** Créneau Late correspondant */
+  slot: LateBestTimeSlot
+  /** Rang du créneau dans le classement (1 = meilleur) */
+  rank: number
+  /** Nombre de créneaux mieux classés ignorés car déjà pris */
+  skipped: number
+}
+
+// ─── Constantes ───────────────────────────────────────────────────────────────
+
+/** Délai minimal avant la publication (même marge que le DateTimePicker) */
+const MIN_LEAD_MS = 5 * 60 * 1000
+
+const HOUR_MS = 60 * 60 * 1000
+const DAY_MS = 24 * HOUR_MS
+
+// ─── Fusion des réponses Late ─────────────────────────────────────────────────
+
+/**
+ * Fusionne des réponses best-time brutes (snake_case ou camelCase) :
+ * même (dayOfWeek, hour) → somme des postCount, moyenne d'engagement pondérée.
+ *
+ * @param rawResults - Réponses brutes de late.analytics.getBestTime
+ * @returns Créneaux triés par engagement moyen décroissant
+ */
+export function mergeBestTimeSlots(rawResults: unknown[]): LateBestTimeSlot[] {
+  const slotMap = new Map<string, { dayOfWeek: number; hour: number; totalEngagement: number; postCount: number }>()
+
+  for (const raw of rawResults) {
+    type RawSlot = Record<string, unknown>
+    const rawSlots = raw && typeof raw === 'object' && Array.isArray((raw as RawSlot).slots)
+      ? ((raw as RawSlot).slots as RawSlot[])
+      : []
+    for (const s of rawSlots) {
+      const dow  = Number(s.day_of_week ?? s.dayOfWeek ?? 0)
+      const hour = Number(s.hour ?? 0)
+      const eng  = Number(s.avg_engagement ?? s.avgEngagement ?? 0)
+      const cnt  = Number(s.post_count ?? s.postCount ?? 0)
+      const key  = `${dow}-${hour}`
+
+      const existing = slotMap.get(key)
+      if (existing) {
+        // Somme pondérée pour recalculer la moyenne d'engagement
+        existing.totalEngagement += eng * cnt
+        existing.postCount       += cnt
+      } else {
+        slotMap.set(key, { dayOfWeek: dow, hour, totalEngagement: eng * cnt, postCount: cnt })
+      }
+    }
+  }
+
+  return [...slotMap.values()]
+    .map((s) => ({
+      dayOfWeek:     s.dayOfWeek,
+      hour:          s.hour,
+      avgEngagement: s.postCount > 0 ? s.totalEngagement / s.postCount : 0,
+      postCount:     s.postCount,
+    }))
+    .sort((a, b) => b.avgEngagement - a.avgEngagement)
+}
+
+// ─── Choix du créneau ─────────────────────────────────────────────────────────
+
+/**
+ * Prochaine occurrence d'un créneau Late après `after` (au plus 7 jours plus tard).
+ *
+ * @param slot  - Créneau (lundi = 0, heure UTC)
+ * @param after - Instant minimal
+ * @returns Début de l'heure UTC du créneau
+ */
+function nextOccurrence(slot: LateBestTimeSlot, after: Date): Date {
+  // Late : lundi = 0 ; getUTCDay : dimanche = 0
+  const utcDay = (slot.dayOfWeek + 1) % 7
+  const start = new Date(after)
+  start.setUTCHours(slot.hour, 0, 0, 0)
+  start.setUTCDate(start.getUTCDate() + ((utcDay - start.getUTCDay() + 7) % 7))
+  return start < after ? new Date(start.getTime() + 7 * DAY_MS) : start
+}
+
+/**
+ * Meilleur créneau libre des 7 prochains jours.
+ * Les créneaux sans publication mesurée (postCount = 0) sont ignorés ; un créneau
+ * est pris dès qu'un post planifié tombe dans son heure. À note égale, le plus proche gagne.
+ *
+ * @param slots - Créneaux Late de la plateforme (ordre indifférent)
+ * @param now   - Instant de référence
+ * @param taken - Dates des posts SCHEDULED de la plateforme
+ * @returns Créneau retenu, ou null si aucune statistique / tous les créneaux sont pris
+ *
+ * @example
+ *   pickBestTime([{ dayOfWeek: 1, hour: 17, avgEngagement: 4.2, postCount: 12 }], monday, [])
+ *   // → { scheduledFor: mardi 17:00 UTC, rank: 1, skipped: 0, ... }
+ */
+export function pickBestTime(
+  slots: LateBestTimeSlot[],
+  now: Date,
+  taken: Date[],
+): BestTimeChoice | null {
+  const after = new Date(now.getTime() + MIN_LEAD_MS)
+  const takenHours = new Set(taken.map((date) => Math.floor(date.getTime() / HOUR_MS)))
+
+  const ranked = slots
+    .filter((slot) => slot.postCount > 0)
+    .map((slot) => ({ slot, scheduledFor: nextOccurrence(slot, after) }))
+    .sort(
+      (a, b) => b.slot.avgEngagement - a.slot.avgEngagement
+        || a.scheduledFor.getTime() - b.scheduledFor.getTime(),
+    )
+
+  const index = ranked.findIndex(
+    ({ scheduledFor }) => !takenHours.has(Math.floor(scheduledFor.getTime() / HOUR_MS)),
+  )
+  if (index === -1) return null
+
+  return { ...ranked[index], rank: index + 1, skipped: index }
+}
+
+// ─── Explication ──────────────────────────────────────────────────────────────
+
+/**
+ * Explication lisible du créneau retenu, dans le fuseau de l'utilisateur.
+ *
+ * @param choice   - Créneau retenu par pickBestTime
+ * @param timezone - Fuseau IANA de l'utilisateur
+ * @returns Ex: "mardi 18:00 — meilleur créneau de vos statistiques (engagement moyen 4,2 sur 12 posts)"
+ */
+export function describeBestTime(choice: BestTimeChoice, timezone: string): string {
+  const when = choice.scheduledFor.toLocaleString('fr-FR', {
+    weekday: 'long',
+    hour: '2-digit',
+    minute: '2-digit',
+    timeZone: timezone,
+  })
+  const rankLabel = choice.rank === 1 ? 'meilleur créneau' : `${choice.rank}e meilleur créneau`
+  const engagement = choice.slot.avgEngagement.toLocaleString('fr-FR', { maximumFractionDigits: 1 })
+  const posts = `${choice.slot.postCount} post${choice.slot.postCount > 1 ? 's' : ''}`
+
+  let explanation = `${when} — ${rankLabel} de vos statistiques (engagement moyen ${engagement} sur ${posts})`
+  if (choice.skipped > 0) {
+    explanation += choice.skipped === 1
+      ? ', le meilleur étant déjà pris par un post planifié'
+      : `, les ${choice.skipped} meilleurs étant déjà pris par des posts planifiés`
+  }
+  return explanation
+}
+
@@ -57,3 +57,18 @@ export function formatFileSize(bytes: number): string {
   if (bytes < 1024 * 1024 * 1024) return `${(bytes / (1024 * 1024)).toFixed(2)} Mo`
   return `${(bytes / (1024 * 1024 * 1024)).toFixed(2)} Go`
 }
+
+/**
+ * Formate une durée en minutes:secondes.
+ *
+ * @param durationMs - Durée en millisecondes
+ * @returns Chaîne "m:ss"
+ *
+ * @example
+ *   formatDuration(32_480)  // "0:32"
+ *   formatDuration(185_000) // "3:05"
+ */
+export function formatDuration(durationMs: number): string {
+  const seconds = Math.floor(durationMs / 1000)
+  return `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, '0')}`
+}
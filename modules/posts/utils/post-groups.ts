@@ -0,0 +1,69 @@
+/**
+ * @file modules/posts/utils/post-groups.ts
+ * @module posts
+ * @description Regroupement des posts chargés dans /compose par campagne (PostGroup).
+ *   Les posts nés d'une même instruction (1 par plateforme) partagent un `groupId` :
+ *   la liste les affiche alors dans une seule carte de campagne.
+ *
+ *   Fonction pure : conserve l'ordre serveur (une campagne prend la place de son
+ *   premier post chargé) et n'invente aucun groupe d'un seul post.
+ *
+ * @example
+ *   groupComposePosts(allPosts).map((item) =>
+ *     item.type === 'group' ? <PostGroupCard posts={item.posts} /> : <PostComposeCard post={item.post} />,
+ *   )
+ */
+
+import type { Post } from '@/modules/posts/types'
+
+// ─── Types ────────────────────────────────────────────────────────────────────
+
+/** Élément affiché dans la liste : post isolé ou campagne de plusieurs posts */
+export type ComposeListItem =
+  | { type: 'post'; post: Post }
+  | { type: 'group'; groupId: string; posts: Post[] }
+
+// ─── Regroupement ─────────────────────────────────────────────────────────────
+
+/**
+ * Regroupe les posts partageant un même groupId.
+ *
+ * - Un groupe n'est formé qu'à partir de 2 posts chargés (sinon : carte simple)
+ * - Le groupe est placé à la position de son premier post dans `posts`
+ * - L'ordre relatif des posts d'un groupe est conservé
+ *
+ * @param posts - Posts dans l'ordre d'affichage (ordre serveur)
+ * @returns Éléments de liste, dans l'ordre d'affichage
+ *
+ * @example
+ *   // A(g1), B(null), C(g1)
+ *   groupComposePosts([A, B, C])
+ *   // → [{ type: 'group', groupId: 'g1', posts: [A, C] }, { type: 'post', post: B }]
+ */
+export function groupComposePosts(posts: Post[]): ComposeListItem[] {
+  const postsByGroup = new Map<string, Post[]>()
+  for (const post of posts) {
+    if (!post.groupId) continue
+    const members = postsByGroup.get(post.groupId) ?? []
+    members.push(post)
+    postsByGroup.set(post.groupId, members)
+  }
+
+  const items: ComposeListItem[] = []
+  const emittedGroups = new Set<string>()
+
+  for (const post of posts) {
+    const members = post.groupId ? postsByGroup.get(post.groupId) : undefined
+
+    if (!post.groupId || !members || members.length < 2) {
+      items.push({ type: 'post', post })
+      continue
+    }
+
+    if (emittedGroups.has(post.groupId)) continue
+    emittedGroups.add(post.groupId)
+    items.push({ type: 'group', groupId: post.groupId, posts: members })
+  }
+
+  return items
+}
@@ -0,0 +1,105 @@
+/**
+ * @file modules/posts/utils/post-review.ts
+ * @module posts
+ * @description Règles de la validation des posts (statut PENDING_REVIEW).
+ *   Quand le workspace exige la « Validation avant planification »
+ *   (Workspace.requirePostApproval), seul un post approuvé peut atteindre SCHEDULED ;
+ *   toute modification du contenu retire l'approbation. Seul un OWNER décide
+ *   (approbation / rejet), et jamais sur un post qu'il a lui-même soumis.
+ *
+ *   Fonctions pures, partagées par schedulePost, updatePostStatus, les actions
+ *   de revue (post-review.action.ts) et l'agent create-posts.
+ *
+ * @example
+ *   const error = approvalError(post, workspace.requirePostApproval)
+ *   if (error) return { success: false, error }
+ */
+
+import type { WorkspaceRole } from '@/modules/workspaces/types'
+
+import { normalizeThreadParts } from './thread'
+
+// ─── Types ────────────────────────────────────────────────────────────────────
+
+/** Contenu d'un post soumis à validation */
+export interface ReviewedContent {
+  text: string
+  mediaUrls: string[]
+  /** Suite du thread (valeur brute acceptée) — comparée seulement si les deux côtés la fournissent */
+  threadParts?: unknown
+}
+
+// ─── Règles ───────────────────────────────────────────────────────────────────
+
+/**
+ * Raison pour laquelle un post ne peut pas encore être planifié.
+ *
+ * @param post            - Statut et date d'approbation du post (null = nouveau post) ;
+ *                          approvedAt doit déjà tenir compte d'un contenu modifié
+ * @param requireApproval - Validation exigée par le workspace
+ * @returns Message d'erreur, ou null si la planification est autorisée
+ *
+ * @example
+ *   approvalError({ status: 'PENDING_REVIEW', approvedAt: null }, true)
+ *   // → 'Ce post est en attente de validation — …'
+ */
+export function approvalError(
+  post: { status: string; approvedAt: Date | null } | null,
+  requireApproval: boolean,
+): string | null {
+  // Un post en revue attend une décision, même si la validation n'est plus exigée
+  if (post?.status === 'PENDING_REVIEW') {
+    return 'Ce post est en attente de validation — il pourra être planifié une fois approuvé'
+  }
+  if (!requireApproval) return null
+  if (!post?.approvedAt) {
+    return 'Ce post doit être soumis à validation et approuvé avant d\'être planifié'
+  }
+  return null
+}
+
+/**
+ * Raison pour laquelle un membre ne peut pas approuver ou rejeter un post en revue.
+ * Les décisions sont réservées aux OWNER ; l'auteur de la soumission ne peut pas
+ * approuver son propre post (il peut en revanche le rejeter pour le retirer).
+ *
+ * @param role        - Rôle du membre dans le workspace
+ * @param reviewerId  - Membre qui décide
+ * @param submitterId - Auteur de la dernière soumission (null si inconnu)
+ * @param decision    - APPROVED ou REJECTED
+ * @returns Message d'erreur, ou null si la décision est autorisée
+ *
+ * @example
+ *   reviewDecisionError('OWNER', 'u1', 'u1', 'APPROVED')
+ *   // → 'Un post ne peut pas être approuvé par la personne qui l'a soumis'
+ */
+export function reviewDecisionError(
+  role: WorkspaceRole,
+  reviewerId: string,
+  submitterId: string | null,
+  decision: 'APPROVED' | 'REJECTED',
+): string | null {
+  if (role !== 'OWNER') {
+    return 'Seul un propriétaire du workspace peut approuver ou rejeter un post'
+  }
+  if (decision === 'APPROVED' && submitterId === reviewerId) {
+    return 'Un post ne peut pas être approuvé par la personne qui l\'a soumis'
+  }
+  return null
+}
+
+/**
+ * Le contenu a-t-il changé depuis la version approuvée ?
+ * L'ordre des médias compte (carrousel).
+ *
+ * @param approved - Contenu en base
+ * @param next     - Contenu envoyé
+ * @returns true si le texte, les médias ou la suite du thread diffèrent
+ */
+export function hasContentChanged(approved: ReviewedContent, next: ReviewedContent): boolean {
+  return approved.text !== next.text
+    || approved.mediaUrls.length !== next.mediaUrls.length
+    || approved.mediaUrls.some((url, i) => url !== next.mediaUrls[i])
+    || (approved.threadParts !== undefined && next.threadParts !== undefined
+      && JSON.stringify(normalizeThreadParts(approved.threadParts)) !== JSON.stringify(normalizeThreadParts(next.threadParts)))
+}
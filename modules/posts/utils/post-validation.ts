@@ -0,0 +1,286 @@
+/**
+ * @file modules/posts/utils/post-validation.ts
+ * @module posts
+ * @description Validation serveur du contenu d'un post selon les règles de sa
+ *   plateforme (PLATFORM_RULES) : longueur du texte, nombre et type de médias.
+ *   Le PostComposer affiche déjà ces violations, mais seul le serveur fait foi :
+ *   savePost, schedulePost, updatePostStatus et les routes de l'agent
+ *   passent par validatePostContent avant d'écrire en base.
+ *
+ *   Un brouillon (DRAFT) ou un post en échec (FAILED) peut rester sans le
+ *   média obligatoire (ex: vidéo YouTube). Les limites ne bloquent que la
+ *   planification : un brouillon non conforme est enregistré, ses violations
+ *   sont renvoyées en avertissement (blockingViolations).
+ *
+ *   Thread (X, Threads, Bluesky) : chaque partie suivante (threadParts) respecte
+ *   les mêmes limites que le premier segment.
+ *
+ *   Options de publication (platformOptions : titre YouTube, tableau Pinterest…) :
+ *   validées par le schéma de la plateforme, options obligatoires exigées hors brouillon.
+ *
+ *   La sortie de l'agent IA n'est pas refusée mais corrigée : feedback au modèle
+ *   (platformRulesFeedback, lib/agent-platform-rules.ts), puis correction
+ *   mécanique de ce qui reste (repairPostContent).
+ *
+ * @example
+ *   const violations = validatePostContent({ platform, text, mediaUrls }, 'SCHEDULED')
+ *   if (violations.length > 0) {
+ *     return { success: false, error: platformViolationsError(violations), violations }
+ *   }
+ */
+
+import {
+  getPlatformOptionsViolations,
+  normalizePlatformOptions,
+} from '@/modules/platforms/config/platform-options'
+import type { PlatformOptions } from '@/modules/platforms/config/platform-options'
+import {
+  getPlatformViolations,
+  isSupportedPlatform,
+  PLATFORM_RULES,
+  repairPlatformContent,
+} from '@/modules/platforms/config/platform-rules'
+import type { PlatformViolation } from '@/modules/platforms/config/platform-rules'
+import { PLATFORM_CONFIG } from '@/modules/platforms/constants'
+import { THREAD_MAX_PARTS } from '@/modules/posts/utils/thread'
+import type { ThreadPart } from '@/modules/posts/utils/thread'
+
+// ─── Types ────────────────────────────────────────────────────────────────────
+
+/** Contenu d'un post soumis aux règles de sa plateforme */
+export interface ValidatedPostContent {
+  platform: string
+  text: string
+  mediaUrls: string[]
+  /** Suite du thread (plateformes supportsThreads uniquement) */
+  threadParts?: ThreadPart[]
+  /** Options de publication (valeur brute — absent = aucune option) */
+  platformOptions?: unknown
+}
+
+/** Contenu mis en conformité par repairPostContent */
+export interface RepairedPostContent {
+  text: string
+  mediaUrls: string[]
+  threadParts: ThreadPart[]
+  /** Options de publication valides (les options invalides sont retirées) */
+  platformOptions: PlatformOptions
+  /** Corrections appliquées, affichables (ex: "X (Twitter) : texte tronqué à 280 caractères") */
+  warnings: string[]
+  /** Violations non corrigeables restantes (média obligatoire, plateforme inconnue) */
+  violations: PlatformViolation[]
+}
+
+// ─── Constantes ───────────────────────────────────────────────────────────────
+
+/** Statuts pour lesquels le média obligatoire peut encore manquer */
+const DRAFT_STATUSES = new Set(['DRAFT', 'FAILED'])
+
+// ─── Validation ───────────────────────────────────────────────────────────────
+
+/**
+ * Violations des règles de la plateforme pour un post dans un statut donné.
+ *
+ * @param content - Plateforme, texte, médias, suite du thread et options effectifs du post
+ * @param status  - Statut que le post aura après l'écriture
+ * @returns Violations (vide si le contenu est conforme)
+ *
+ * @example
+ *   validatePostContent({ platform: 'google_business', text: 'Promo', mediaUrls: ['a.mp4'] }, 'DRAFT')
+ *   // → [{ type: 'too_many_videos', platform: 'google_business', limit: 0, actual: 1, ... }]
+ */
+export function validatePostContent(
+  content: ValidatedPostContent,
+  status: string,
+): PlatformViolation[] {
+  if (!isSupportedPlatform(content.platform)) {
+    return [{
+      type: 'unknown_platform',
+      platform: content.platform,
+      message: `Plateforme non supportée : ${content.platform}`,
+    }]
+  }
+  const { platform } = content
+  const draft = DRAFT_STATUSES.has(status)
+  const violations = [
+    ...getPlatformViolations(platform, content.text, content.mediaUrls, { draft }),
+    ...getPlatformOptionsViolations(platform, content.platformOptions, { draft }),
+  ]
+
+  const threadParts = content.threadParts ?? []
+  if (threadParts.length === 0) return violations
+  if (!PLATFORM_RULES[platform].supportsThreads) {
+    violations.push({
+      type: 'thread_not_supported',
+      platform,
+      message: `${platformLabel(platform)} ne permet pas de publier un thread`,
+    })
+    return violations
+  }
+  if (threadParts.length > THREAD_MAX_PARTS) {
+    violations.push({
+      type: 'too_many_thread_parts',
+      platform,
+      message: `Thread trop long (${threadParts.length + 1}/${THREAD_MAX_PARTS + 1} parties max)`,
+      limit: THREAD_MAX_PARTS,
+      actual: threadParts.length,
+    })
+  }
+  // Parties suivantes : mêmes limites (le média obligatoire ne concerne que la première)
+  threadParts.forEach((part, i) => {
+    for (const violation of getPlatformViolations(platform, part.text, part.mediaUrls, { draft: true })) {
+      violations.push({ ...violation, message: `Partie ${i + 2} : ${violation.message}` })
+    }
+  })
+  return violations
+}
+
+/**
+ * Violations qui empêchent d'enregistrer un post dans un statut donné.
+ * Un brouillon peut dépasser les limites de sa plateforme (il sera corrigé avant
+ * la planification) ; une plateforme inconnue est toujours refusée.
+ *
+ * @param violations - Violations retournées par validatePostContent
+ * @param status     - Statut que le post aura après l'écriture
+ * @returns Violations bloquantes (vide si l'écriture est permise)
+ *
+ * @example
+ *   blockingViolations(validatePostContent(content, 'DRAFT'), 'DRAFT')
+ *   // → [] même pour un texte trop long
+ */
+export function blockingViolations(violations: PlatformViolation[], status: string): PlatformViolation[] {
+  if (!DRAFT_STATUSES.has(status)) return violations
+  return violations.filter((violation) => violation.type === 'unknown_platform')
+}
+
+/**
+ * Libellé affichable d'une plateforme (ex: 'twitter' → 'X (Twitter)').
+ *
+ * @param platform - Identifiant de plateforme
+ * @returns Libellé, ou l'identifiant si la plateforme est inconnue
+ */
+function platformLabel(platform: string): string {
+  return PLATFORM_CONFIG[platform as keyof typeof PLATFORM_CONFIG]?.label ?? platform
+}
+
+/**
+ * Message d'erreur unique pour un toast ou une réponse d'API.
+ * Le détail structuré reste disponible dans `violations`.
+ *
+ * @param violations - Violations d'un même post (non vide)
+ * @returns Message en français
+ *
+ * @example
+ *   platformViolationsError([{ type: 'text_too_long', platform: 'twitter', message: 'Texte trop long (400/280 caractères)' }])
+ *   // → 'Contenu non conforme pour X (Twitter) : Texte trop long (400/280 caractères)'
+ */
+export function platformViolationsError(violations: PlatformViolation[]): string {
+  const platform = violations[0]?.platform ?? ''
+  return `Contenu non conforme pour ${platformLabel(platform)} : ${
+    violations.map((violation) => violation.message).join(' ; ')
+  }`
+}
+
+/**
+ * Liste des violations pour le modèle, une par ligne, afin qu'il corrige sa réponse.
+ *
+ * @param violations - Violations de un ou plusieurs posts
+ * @returns Lignes "- <plateforme> : <message>"
+ */
+export function platformRulesFeedback(violations: PlatformViolation[]): string {
+  return violations
+    .map((violation) => `- ${platformLabel(violation.platform)} : ${violation.message}`)
+    .join('\n')
+}
+
+/**
+ * Description d'une correction mécanique.
+ *
+ * @param violation - Violation corrigée
+ * @returns Correction en français (ex: "2 photo(s) retirée(s) (max 1)")
+ */
+function describeRepair(violation: PlatformViolation): string {
+  const removed = (violation.actual ?? 0) - (violation.limit ?? 0)
+  switch (violation.type) {
+    case 'text_too_long':
+      return `texte tronqué à ${violation.limit} caractères`
+    case 'too_many_photos':
+      return `${removed} photo(s) retirée(s) (max ${violation.limit})`
+    case 'too_many_videos':
+      return `${removed} vidéo(s) retirée(s) (max ${violation.limit})`
+    case 'mixed_not_allowed':
+      return 'photos et vidéos mélangées : seul le type du premier média est conservé'
+    default:
+      return violation.message
+  }
+}
+
+/**
+ * Corrige sans appel au modèle le contenu produit par l'agent (texte tronqué,
+ * médias en trop retirés, y compris dans chaque partie du thread, options
+ * invalides retirées), puis vérifie le résultat pour le statut visé.
+ *
+ * @param content - Plateforme, texte, médias, suite du thread et options produits par l'agent
+ * @param status  - Statut visé (SCHEDULED : le média obligatoire est exigé)
+ * @returns Contenu corrigé, corrections appliquées et violations restantes
+ *
+ * @example
+ *   repairPostContent({ platform: 'google_business', text: 'Promo', mediaUrls: ['a.jpg', 'b.jpg'] }, 'DRAFT')
+ *   // → { mediaUrls: ['a.jpg'], warnings: ['Google Business : 1 photo(s) retirée(s) (max 1)'], violations: [] }
+ */
+export function repairPostContent(
+  content: ValidatedPostContent,
+  status: string,
+): RepairedPostContent {
+  const threadParts = content.threadParts ?? []
+  if (!isSupportedPlatform(content.platform)) {
+    return {
+      text: content.text,
+      mediaUrls: content.mediaUrls,
+      threadParts,
+      platformOptions: {},
+      warnings: [],
+      violations: validatePostContent(content, status),
+    }
+  }
+
+  const { platform } = content
+  const label = platformLabel(platform)
+  const warnings: string[] = []
+
+  // Thread : retiré si la plateforme n'en publie pas, limité à THREAD_MAX_PARTS sinon
+  let keptParts = threadParts
+  if (!PLATFORM_RULES[platform].supportsThreads && threadParts.length > 0) {
+    warnings.push(`${label} : thread non supporté, ${threadParts.length} partie(s) retirée(s)`)
+    keptParts = []
+  } else if (threadParts.length > THREAD_MAX_PARTS) {
+    warnings.push(`${label} : thread limité à ${THREAD_MAX_PARTS + 1} parties`)
+    keptParts = threadParts.slice(0, THREAD_MAX_PARTS)
+  }
+
+  // Options : seuls les champs valides sont conservés
+  const platformOptions = normalizePlatformOptions(platform, content.platformOptions)
+  const droppedOptions = content.platformOptions && typeof content.platformOptions === 'object'
+    ? Object.keys(content.platformOptions).filter((key) => !(key in platformOptions))
+    : []
+  if (droppedOptions.length > 0) {
+    warnings.push(`${label} : option(s) invalide(s) retirée(s) (${droppedOptions.join(', ')})`)
+  }
+
+  const { text, mediaUrls, repaired } = repairPlatformContent(platform, content.text, content.mediaUrls)
+  warnings.push(...repaired.map((violation) => `${label} : ${describeRepair(violation)}`))
+  const repairedParts = keptParts.map((part, i) => {
+    const repairedPart = repairPlatformContent(platform, part.text, part.mediaUrls)
+    warnings.push(...repairedPart.repaired.map((violation) => `${label} (partie ${i + 2}) : ${describeRepair(violation)}`))
+    return { text: repairedPart.text, mediaUrls: repairedPart.mediaUrls }
+  })
+
+  return {
+    text,
+    mediaUrls,
+    threadParts: repairedParts,
+    platformOptions,
+    warnings,
+    violations: validatePostContent({ platform, text, mediaUrls, threadParts: repairedParts, platformOptions }, status),
+  }
+}
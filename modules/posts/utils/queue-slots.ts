@@ -0,0 +1,132 @@
+/**
+ * @file modules/posts/utils/queue-slots.ts
+ * @module posts
+ * @description Calcul des créneaux de la file de publication (PostingSlot).
+ *   Un créneau est un jour de la semaine + une heure locale (fuseau du workspace) :
+ *   « Instagram mardi et jeudi 18:00 ». Les dates concrètes sont calculées à la volée,
+ *   comme les occurrences des séries récurrentes (utils/recurrence.ts).
+ *
+ *   Fonctions pures, partagées par lib/post-queue.ts (attribution transactionnelle,
+ *   re-tassement) et l'aperçu des prochains créneaux dans /settings.
+ *
+ * @example
+ *   const next = upcomingSlotTimes(slots, 'Europe/Paris', new Date(), 1, occupied)[0]
+ *   const moves = packQueue(queuedPosts, slots, 'Europe/Paris', new Date(), occupied)
+ */
+
+import { getZonedParts, zonedTimeToUtc } from '@/lib/timezone'
+
+// ─── Types ────────────────────────────────────────────────────────────────────
+
+/** Créneau hebdomadaire (champs utiles de PostingSlot) */
+export interface SlotDefinition {
+  /** 0 = dimanche … 6 = samedi */
+  weekday: number
+  hour: number
+  minute: number
+}
+
+/** Post de la file à (re)placer */
+export interface QueuedPostTime {
+  id: string
+  scheduledFor: Date
+}
+
+// ─── Constantes ───────────────────────────────────────────────────────────────
+
+/** Horizon de recherche des créneaux (jours) — une file ne s'étend pas au-delà d'un an */
+const SEARCH_HORIZON_DAYS = 366
+
+// ─── Calcul des créneaux ──────────────────────────────────────────────────────
+
+/**
+ * Prochains créneaux libres strictement postérieurs à `after`.
+ *
+ * @param slots    - Créneaux hebdomadaires de la plateforme
+ * @param timezone - Fuseau IANA du workspace (heure des créneaux)
+ * @param after    - Instant de référence (en général maintenant)
+ * @param count    - Nombre de créneaux voulus
+ * @param occupied - Instants déjà pris par d'autres posts (getTime())
+ * @returns Créneaux triés par date (moins de `count` si l'horizon est atteint)
+ *
+ * @example
+ *   // Mardi 18:00 Paris, après le lundi 2 mars 2026
+ *   upcomingSlotTimes([{ weekday: 2, hour: 18, minute: 0 }], 'Europe/Paris', monday, 1)
+ *   // → [2026-03-03T17:00:00.000Z]
+ */
+export function upcomingSlotTimes(
+  slots: SlotDefinition[],
+  timezone: string,
+  after: Date,
+  count: number,
+  occupied: Set<number> = new Set(),
+): Date[] {
+  if (slots.length === 0 || count <= 0) return []
+
+  const start = getZonedParts(after, timezone)
+  const times: Date[] = []
+
+  for (let offset = 0; offset <= SEARCH_HORIZON_DAYS; offset++) {
+    // Arithmétique sur les jours calendaires locaux (UTC neutre, pas de DST)
+    const cursor = new Date(Date.UTC(start.year, start.month - 1, start.day + offset))
+    const weekday = cursor.getUTCDay()
+
+    const daySlots = slots
+      .filter((slot) => slot.weekday === weekday)
+      .sort((a, b) => a.hour * 60 + a.minute - (b.hour * 60 + b.minute))
+
+    for (const slot of daySlots) {
+      const time = zonedTimeToUtc(
+        {
+          year: cursor.getUTCFullYear(),
+          month: cursor.getUTCMonth() + 1,
+          day: cursor.getUTCDate(),
+          hour: slot.hour,
+          minute: slot.minute,
+        },
+        timezone,
+      )
+      if (time <= after || occupied.has(time.getTime())) continue
+
+      times.push(time)
+      if (times.length === count) return times
+    }
+  }
+
+  return times
+}
+
+/**
+ * Re-tasse la file : les posts en file, dans leur ordre actuel, reprennent les
+ * premiers créneaux libres. Un créneau libéré (post supprimé ou déplanifié) est
+ * ainsi comblé par le post suivant, qui laisse sa place au suivant, etc.
+ *
+ * Les posts sans créneau disponible (créneaux supprimés entre-temps) gardent leur date.
+ *
+ * @param queued   - Posts en file (SCHEDULED, isQueued) de la plateforme
+ * @param slots    - Créneaux hebdomadaires de la plateforme
+ * @param timezone - Fuseau IANA du workspace
+ * @param now      - Instant courant
+ * @param occupied - Instants pris par les posts planifiés hors file
+ * @returns Posts dont la date change, avec leur nouvelle date
+ */
+export function packQueue(
+  queued: QueuedPostTime[],
+  slots: SlotDefinition[],
+  timezone: string,
+  now: Date,
+  occupied: Set<number> = new Set(),
+): QueuedPostTime[] {
+  const ordered = [...queued].sort((a, b) => a.scheduledFor.getTime() - b.scheduledFor.getTime())
+  const times = upcomingSlotTimes(slots, timezone, now, ordered.length, occupied)
+
+  const moves: QueuedPostTime[] = []
+  ordered.forEach((post, index) => {
+    const time = times[index]
+    if (time && time.getTime() !== post.scheduledFor.getTime()) {
+      moves.push({ id: post.id, scheduledFor: time })
+    }
+  })
+
+  return moves
+}
@@ -0,0 +1,246 @@
+/**
+ * @file modules/posts/utils/recurrence.ts
+ * @module posts
+ * @description Calcul des occurrences d'une série récurrente (PostSeries).
+ *   Les règles sont exprimées en heure « murale » dans le fuseau de la règle :
+ *   « chaque lundi à 09:00 » reste à 09:00 locales de part et d'autre d'un
+ *   changement d'heure. Conversions via lib/timezone (Intl, sans dépendance).
+ *
+ *   Fonctions pures, partagées par les Server Actions, la fonction Inngest de
+ *   matérialisation et la projection des séries dans CalendarGrid.
+ *
+ * @example
+ *   const rule = buildRecurrenceRule('WEEKLY', scheduledFor, 'Europe/Paris')
+ *   const next = nextOccurrence(rule, post.scheduledFor, series.skipDates)
+ *   describeRecurrence(rule) // → "Chaque lundi à 09:00"
+ */
+
+import { getZonedParts, zonedTimeToUtc } from '@/lib/timezone'
+import type { RecurrenceFrequency, RecurrenceRule } from '@/modules/posts/schemas/post.schema'
+import type { PostSeriesSummary } from '@/modules/posts/types'
+
+// ─── Types ────────────────────────────────────────────────────────────────────
+
+/** Occurrence future projetée (pas encore matérialisée en post) */
+export interface ProjectedOccurrence {
+  seriesId: string
+  /** Date de l'occurrence */
+  occurrence: Date
+  /** Plateformes qui seront publiées */
+  platforms: string[]
+  /** Libellé de la règle (ex: "Chaque lundi à 09:00") */
+  label: string
+}
+
+// ─── Constantes ───────────────────────────────────────────────────────────────
+
+/** Horizon de recherche d'une occurrence (jours) — couvre les séries mensuelles très sautées */
+const SEARCH_HORIZON_DAYS = 3 * 366
+
+/** Nombre maximal d'occurrences listées sur un intervalle (garde-fou) */
+const MAX_LISTED_OCCURRENCES = 400
+
+/** Noms des jours (index = getUTCDay : 0 = dimanche) */
+export const WEEKDAY_LABELS = ['dimanche', 'lundi', 'mardi', 'mercredi', 'jeudi', 'vendredi', 'samedi']
+
+// ─── Helpers ──────────────────────────────────────────────────────────────────
+
+/**
+ * Nombre de jours d'un mois.
+ *
+ * @param year  - Année
+ * @param month - Mois 1-12
+ */
+function daysInMonth(year: number, month: number): number {
+  return new Date(Date.UTC(year, month, 0)).getUTCDate()
+}
+
+/**
+ * Indique si un jour calendaire (dans le fuseau de la règle) porte une occurrence.
+ *
+ * @param rule  - Règle de récurrence
+ * @param year  - Année locale
+ * @param month - Mois local 1-12
+ * @param day   - Jour local
+ */
+function matchesDay(rule: RecurrenceRule, year: number, month: number, day: number): boolean {
+  switch (rule.frequency) {
+    case 'DAILY':
+      return true
+    case 'WEEKLY':
+      return rule.weekdays.includes(new Date(Date.UTC(year, month - 1, day)).getUTCDay())
+    case 'MONTHLY':
+      // Le 31 devient le 30 (ou le 28/29) les mois plus courts : jamais de mois sauté
+      return day === Math.min(rule.monthDay ?? 1, daysInMonth(year, month))
+  }
+}
+
+// ─── Calcul des occurrences ───────────────────────────────────────────────────
+
+/**
+ * Première occurrence strictement postérieure à `after`, hors occurrences ignorées.
+ *
+ * @param rule      - Règle de récurrence
+ * @param after     - Instant de référence (ex: date de la publication qui vient d'avoir lieu)
+ * @param skipDates - Occurrences ignorées (ISO 8601, cf. PostSeries.skipDates)
+ * @returns Instant de l'occurrence suivante, ou null si aucune dans l'horizon de recherche
+ *
+ * @example
+ *   // Règle « chaque lundi 09:00 Paris », après le lundi 2 mars 2026 09:00
+ *   nextOccurrence(rule, new Date('2026-03-02T08:00:00Z')) // → 2026-03-09T08:00:00.000Z
+ */
+export function nextOccurrence(
+  rule: RecurrenceRule,
+  after: Date,
+  skipDates: string[] = [],
+): Date | null {
+  const skipped = new Set(skipDates.map((iso) => new Date(iso).getTime()))
+  const start = getZonedParts(after, rule.timezone)
+
+  for (let offset = 0; offset <= SEARCH_HORIZON_DAYS; offset++) {
+    // Arithmétique sur les jours calendaires locaux (UTC neutre, pas de DST)
+    const cursor = new Date(Date.UTC(start.year, start.month - 1, start.day + offset))
+    const year = cursor.getUTCFullYear()
+    const month = cursor.getUTCMonth() + 1
+    const day = cursor.getUTCDate()
+
+    if (!matchesDay(rule, year, month, day)) continue
+
+    const occurrence = zonedTimeToUtc(
+      { year, month, day, hour: rule.hour, minute: rule.minute },
+      rule.timezone,
+    )
+    if (occurrence > after && !skipped.has(occurrence.getTime())) return occurrence
+  }
+
+  return null
+}
+
+/**
+ * Occurrences comprises dans ]from, to], hors occurrences ignorées.
+ * Utilisé pour projeter une série sur un mois du calendrier.
+ *
+ * @param rule      - Règle de récurrence
+ * @param from      - Borne basse exclue
+ * @param to        - Borne haute incluse
+ * @param skipDates - Occurrences ignorées (ISO 8601)
+ * @returns Occurrences triées par date croissante
+ */
+export function listOccurrences(
+  rule: RecurrenceRule,
+  from: Date,
+  to: Date,
+  skipDates: string[] = [],
+): Date[] {
+  const occurrences: Date[] = []
+  let cursor = from
+
+  while (occurrences.length < MAX_LISTED_OCCURRENCES) {
+    const next = nextOccurrence(rule, cursor, skipDates)
+    if (!next || next > to) break
+    occurrences.push(next)
+    cursor = next
+  }
+
+  return occurrences
+}
+
+// ─── Construction et affichage ────────────────────────────────────────────────
+
+/**
+ * Construit une règle à partir de la date de première publication :
+ * heure, jour de la semaine et jour du mois sont repris de cette date
+ * (dans le fuseau de l'utilisateur).
+ *
+ * @param frequency - Fréquence choisie
+ * @param firstDate - Date de la première publication
+ * @param timezone  - Fuseau IANA de l'utilisateur
+ * @param weekdays  - Jours choisis (WEEKLY) — défaut : jour de `firstDate`
+ * @returns Règle prête à être validée par RecurrenceRuleSchema
+ *
+ * @example
+ *   // Lundi 2 mars 2026 09:00 à Paris
+ *   buildRecurrenceRule('MONTHLY', date, 'Europe/Paris')
+ *   // → { frequency: 'MONTHLY', weekdays: [], monthDay: 2, hour: 9, minute: 0, timezone: 'Europe/Paris' }
+ */
+export function buildRecurrenceRule(
+  frequency: RecurrenceFrequency,
+  firstDate: Date,
+  timezone: string,
+  weekdays?: number[],
+): RecurrenceRule {
+  const local = getZonedParts(firstDate, timezone)
+  const localWeekday = new Date(Date.UTC(local.year, local.month - 1, local.day)).getUTCDay()
+
+  return {
+    frequency,
+    weekdays: frequency === 'WEEKLY'
+      ? [...new Set(weekdays && weekdays.length > 0 ? weekdays : [localWeekday])].sort((a, b) => a - b)
+      : [],
+    ...(frequency === 'MONTHLY' && { monthDay: local.day }),
+    hour: local.hour,
+    minute: local.minute,
+    timezone,
+  }
+}
+
+/**
+ * Libellé français d'une règle (badge de série, résumé du compositeur).
+ *
+ * @param rule - Règle de récurrence
+ * @returns Ex: "Tous les jours à 09:00", "Chaque lundi, jeudi à 18:30", "Le 1er de chaque mois à 10:00"
+ */
+export function describeRecurrence(rule: RecurrenceRule): string {
+  const time = `${String(rule.hour).padStart(2, '0')}:${String(rule.minute).padStart(2, '0')}`
+
+  switch (rule.frequency) {
+    case 'DAILY':
+      return `Tous les jours à ${time}`
+    case 'WEEKLY':
+      // Ordre d'affichage lundi → dimanche
+      return `Chaque ${[...rule.weekdays]
+        .sort((a, b) => ((a + 6) % 7) - ((b + 6) % 7))
+        .map((day) => WEEKDAY_LABELS[day])
+        .join(', ')} à ${time}`
+    case 'MONTHLY': {
+      const day = rule.monthDay ?? 1
+      return `Le ${day === 1 ? '1er' : day} de chaque mois à ${time}`
+    }
+  }
+}
+
+// ─── Projection calendrier ────────────────────────────────────────────────────
+
+/**
+ * Projette les occurrences futures des séries sur un intervalle (mois du calendrier).
+ * Seules les occurrences postérieures à la dernière occurrence existante en base
+ * (et à maintenant) sont projetées : les autres sont déjà de vrais posts.
+ * Une série jamais planifiée (lastScheduledFor null) n'est pas projetée.
+ *
+ * @param series - Séries actives (GET /api/posts/series)
+ * @param from   - Début de l'intervalle
+ * @param to     - Fin de l'intervalle
+ * @param now    - Instant courant (injectable pour les tests)
+ * @returns Occurrences projetées, triées par date
+ */
+export function projectSeriesOccurrences(
+  series: PostSeriesSummary[],
+  from: Date,
+  to: Date,
+  now: Date = new Date(),
+): ProjectedOccurrence[] {
+  const projected: ProjectedOccurrence[] = []
+
+  for (const item of series) {
+    if (!item.lastScheduledFor) continue
+
+    const lowerBound = new Date(Math.max(from.getTime(), now.getTime(), item.lastScheduledFor.getTime()))
+    const label = describeRecurrence(item.rule)
+
+    for (const occurrence of listOccurrences(item.rule, lowerBound, to, item.skipDates)) {
+      projected.push({ seriesId: item.id, occurrence, platforms: item.platforms, label })
+    }
+  }
+
+  return projected.sort((a, b) => a.occurrence.getTime() - b.occurrence.getTime())
+}
@@ -0,0 +1,136 @@
+/**
+ * @file modules/posts/utils/revision-diff.ts
+ * @module posts
+ * @description Diff mot à mot entre deux versions du texte d'un post (fonctions pures).
+ *   Utilisé par la timeline des révisions de PostDetailModal.
+ *
+ *   Le texte est découpé en mots et en blancs (les retours à la ligne sont conservés),
+ *   puis comparé par plus longue sous-séquence commune (LCS). Le préfixe et le
+ *   suffixe communs sont retirés avant le calcul pour limiter la matrice.
+ *
+ * @example
+ *   diffWords('Bonjour le monde', 'Bonjour tout le monde')
+ *   // → [
+ *   //   { type: 'equal', text: 'Bonjour ' },
+ *   //   { type: 'added', text: 'tout ' },
+ *   //   { type: 'equal', text: 'le monde' },
+ *   // ]
+ */
+
+// ─── Types ────────────────────────────────────────────────────────────────────
+
+/** Segment du diff : texte inchangé, ajouté ou supprimé */
+export interface WordDiffSegment {
+  type: 'equal' | 'added' | 'removed'
+  text: string
+}
+
+// ─── Constantes ───────────────────────────────────────────────────────────────
+
+/**
+ * Taille maximale de la matrice LCS (mots avant × mots après).
+ * Au-delà, la partie modifiée est affichée comme un bloc supprimé + un bloc ajouté.
+ */
+const MAX_LCS_CELLS = 1_000_000
+
+// ─── Helpers ──────────────────────────────────────────────────────────────────
+
+/**
+ * Découpe un texte en mots et blancs (la concaténation redonne le texte).
+ *
+ * @param text - Texte à découper
+ * @returns Tokens, ex: "Bonjour  le" → ["Bonjour", "  ", "le"]
+ */
+function tokenize(text: string): string[] {
+  return text.split(/(\s+)/).filter((token) => token !== '')
+}
+
+/**
+ * Ajoute un token au diff en fusionnant avec le segment précédent de même type.
+ *
+ * @param segments - Diff en cours de construction
+ * @param type     - Type du token
+ * @param text     - Token
+ */
+function pushSegment(segments: WordDiffSegment[], type: WordDiffSegment['type'], text: string): void {
+  const last = segments[segments.length - 1]
+  if (last && last.type === type) {
+    last.text += text
+  } else {
+    segments.push({ type, text })
+  }
+}
+
+// ─── Diff ─────────────────────────────────────────────────────────────────────
+
+/**
+ * Diff mot à mot de deux textes.
+ *
+ * @param before - Texte de la version précédente
+ * @param after  - Texte de la version suivante
+ * @returns Segments dans l'ordre du texte (vide si les deux textes sont vides)
+ */
+export function diffWords(before: string, after: string): WordDiffSegment[] {
+  const a = tokenize(before)
+  const b = tokenize(after)
+  const segments: WordDiffSegment[] = []
+
+  // Préfixe commun
+  let start = 0
+  while (start < a.length && start < b.length && a[start] === b[start]) {
+    pushSegment(segments, 'equal', a[start]!)
+    start++
+  }
+
+  // Suffixe commun (ajouté en fin de diff)
+  let endA = a.length
+  let endB = b.length
+  while (endA > start && endB > start && a[endA - 1] === b[endB - 1]) {
+    endA--
+    endB--
+  }
+
+  const midA = a.slice(start, endA)
+  const midB = b.slice(start, endB)
+
+  if (midA.length * midB.length > MAX_LCS_CELLS) {
+    // Texte très long et très modifié : pas de diff fin
+    if (midA.length > 0) pushSegment(segments, 'removed', midA.join(''))
+    if (midB.length > 0) pushSegment(segments, 'added', midB.join(''))
+  } else {
+    // lcs[i][j] = longueur de la LCS de midA[i..] et midB[j..]
+    const lcs: number[][] = Array.from({ length: midA.length + 1 }, () =>
+      new Array<number>(midB.length + 1).fill(0),
+    )
+    for (let i = midA.length - 1; i >= 0; i--) {
+      for (let j = midB.length - 1; j >= 0; j--) {
+        lcs[i]![j] = midA[i] === midB[j]
+          ? lcs[i + 1]![j + 1]! + 1
+          : Math.max(lcs[i + 1]![j]!, lcs[i]![j + 1]!)
+      }
+    }
+
+    // Parcours : suppressions avant ajouts à égalité (lecture « barré → nouveau »)
+    let i = 0
+    let j = 0
+    while (i < midA.length || j < midB.length) {
+      if (i < midA.length && j < midB.length && midA[i] === midB[j]) {
+        pushSegment(segments, 'equal', midA[i]!)
+        i++
+        j++
+      } else if (j >= midB.length || (i < midA.length && lcs[i + 1]![j]! >= lcs[i]![j + 1]!)) {
+        pushSegment(segments, 'removed', midA[i]!)
+        i++
+      } else {
+        pushSegment(segments, 'added', midB[j]!)
+        j++
+      }
+    }
+  }
+
+  for (const token of a.slice(endA)) {
+    pushSegment(segments, 'equal', token)
+  }
+
+  return segments
+}
@@ -7,10 +7,11 @@
  *   entre PostComposeCard, CalendarPostChip et la légende du calendrier.
  *
  *   Statuts disponibles :
- *   - DRAFT     → gris neutre  (brouillon non soumis)
- *   - SCHEDULED → bleu         (planifié, en attente de publication)
- *   - PUBLISHED → vert         (publié avec succès)
- *   - FAILED    → rouge        (échec de publication)
+ *   - DRAFT          → gris neutre  (brouillon non soumis)
+ *   - PENDING_REVIEW → ambre        (en attente de validation)
+ *   - SCHEDULED      → bleu         (planifié, en attente de publication)
+ *   - PUBLISHED      → vert         (publié avec succès)
+ *   - FAILED         → rouge        (échec de publication)
  *
  * @example
  *   import { STATUS_BADGE_CLASSES, STATUS_LABELS } from '@/modules/posts/utils/status-styles'
@@ -32,10 +33,11 @@ import type { Post } from '@/modules/posts/types'
  *   STATUS_LABELS['PUBLISHED'] // → 'Publié'
  */
 export const STATUS_LABELS: Record<Post['status'], string> = {
-  DRAFT:     'Brouillon',
-  SCHEDULED: 'Planifié',
-  PUBLISHED: 'Publié',
-  FAILED:    'Échoué',
+  DRAFT:          'Brouillon',
+  PENDING_REVIEW: 'En revue',
+  SCHEDULED:      'Planifié',
+  PUBLISHED:      'Publié',
+  FAILED:         'Échoué',
 }
 
 // ─── Styles Badge (PostComposeCard + popover CalendarPostChip) ─────────────────
@@ -51,10 +53,11 @@ export const STATUS_LABELS: Record<Post['status'], string> = {
  *   STATUS_BADGE_CLASSES['FAILED'] // → 'bg-red-100 text-red-700 border-0 dark:bg-red-900/40 dark:text-red-300'
  */
 export const STATUS_BADGE_CLASSES: Record<Post['status'], string> = {
-  DRAFT:     'bg-muted/80 text-muted-foreground border-0',
-  SCHEDULED: 'bg-blue-100 text-blue-700 border-0 dark:bg-blue-900/40 dark:text-blue-300',
-  PUBLISHED: 'bg-green-100 text-green-700 border-0 dark:bg-green-900/40 dark:text-green-300',
-  FAILED:    'bg-red-100 text-red-700 border-0 dark:bg-red-900/40 dark:text-red-300',
+  DRAFT:          'bg-muted/80 text-muted-foreground border-0',
+  PENDING_REVIEW: 'bg-amber-100 text-amber-700 border-0 dark:bg-amber-900/40 dark:text-amber-300',
+  SCHEDULED:      'bg-blue-100 text-blue-700 border-0 dark:bg-blue-900/40 dark:text-blue-300',
+  PUBLISHED:      'bg-green-100 text-green-700 border-0 dark:bg-green-900/40 dark:text-green-300',
+  FAILED:         'bg-red-100 text-red-700 border-0 dark:bg-red-900/40 dark:text-red-300',
 }
 
 // ─── Styles Chip (CalendarPostChip + légende CalendarPage) ───────────────────
@@ -69,8 +72,9 @@ export const STATUS_BADGE_CLASSES: Record<Post['status'], string> = {
  *   STATUS_CHIP_CLASSES['PUBLISHED'] // → 'bg-green-100 text-green-700 dark:bg-green-900/40 dark:text-green-300'
  */
 export const STATUS_CHIP_CLASSES: Record<Post['status'], string> = {
-  DRAFT:     'bg-muted/80 text-muted-foreground',
-  SCHEDULED: 'bg-blue-100 text-blue-700 dark:bg-blue-900/40 dark:text-blue-300',
-  PUBLISHED: 'bg-green-100 text-green-700 dark:bg-green-900/40 dark:text-green-300',
-  FAILED:    'bg-red-100 text-red-700 dark:bg-red-900/40 dark:text-red-300',
+  DRAFT:          'bg-muted/80 text-muted-foreground',
+  PENDING_REVIEW: 'bg-amber-100 text-amber-700 dark:bg-amber-900/40 dark:text-amber-300',
+  SCHEDULED:      'bg-blue-100 text-blue-700 dark:bg-blue-900/40 dark:text-blue-300',
+  PUBLISHED:      'bg-green-100 text-green-700 dark:bg-green-900/40 dark:text-green-300',
+  FAILED:         'bg-red-100 text-red-700 dark:bg-red-900/40 dark:text-red-300',
 }
@@ -0,0 +1,134 @@
+/**
+ * @file modules/posts/utils/thread.ts
+ * @module posts
+ * @description Threads (posts en plusieurs parties) pour X, Threads et Bluesky.
+ *   Le premier segment est le contenu du post (Post.text / Post.mediaUrls) ;
+ *   la suite est stockée dans Post.threadParts et publiée dans l'ordre.
+ *
+ *   - normalizeThreadParts : lecture de la colonne JSON (segments vides retirés)
+ *   - splitIntoThread : découpage d'un texte trop long aux limites de mots,
+ *     avec numérotation « 1/5 »
+ *
+ * @example
+ *   const [first, ...rest] = splitIntoThread(longText, PLATFORM_RULES.twitter.maxText)
+ *   // first → Post.text, rest → Post.threadParts (sans média)
+ */
+
+// ─── Types ────────────────────────────────────────────────────────────────────
+
+/** Segment d'un thread après le premier (texte et médias propres) */
+export interface ThreadPart {
+  text: string
+  mediaUrls: string[]
+}
+
+/** Options de splitIntoThread */
+export interface SplitThreadOptions {
+  /** Ajoute « i/n » à la fin de chaque segment (défaut : true) */
+  numbering?: boolean
+}
+
+// ─── Constantes ───────────────────────────────────────────────────────────────
+
+/** Nombre maximum de segments après le premier (X limite un thread à 25 posts) */
+export const THREAD_MAX_PARTS = 24
+
+// ─── Helpers ──────────────────────────────────────────────────────────────────
+
+/**
+ * Segments valides d'un thread : texte ou média présent, URLs de médias en chaîne.
+ * Accepte la valeur brute de la colonne JSON.
+ *
+ * @param value - Valeur de `Post.threadParts` (JSON) ou saisie du composer
+ * @returns Segments nettoyés, dans l'ordre
+ *
+ * @example
+ *   normalizeThreadParts([{ text: ' Suite ', mediaUrls: [] }, { text: '', mediaUrls: [] }])
+ *   // → [{ text: 'Suite', mediaUrls: [] }]
+ */
+export function normalizeThreadParts(value: unknown): ThreadPart[] {
+  if (!Array.isArray(value)) return []
+
+  return value.flatMap((part: unknown) => {
+    if (!part || typeof part !== 'object') return []
+    const { text, mediaUrls } = part as { text?: unknown; mediaUrls?: unknown }
+    const cleanText = typeof text === 'string' ? text.trim() : ''
+    const cleanMedia = Array.isArray(mediaUrls)
+      ? mediaUrls.filter((url): url is string => typeof url === 'string' && url.length > 0)
+      : []
+    return cleanText || cleanMedia.length > 0 ? [{ text: cleanText, mediaUrls: cleanMedia }] : []
+  })
+}
+
+/**
+ * Répartit un texte en segments d'au plus `limit` caractères, sans couper de mot
+ * (sauf un mot plus long que la limite). Les sauts de ligne sont conservés.
+ *
+ * @param text  - Texte à découper (déjà trimé)
+ * @param limit - Longueur maximale d'un segment
+ * @returns Segments trimés
+ */
+function packWords(text: string, limit: number): string[] {
+  const parts: string[] = []
+  let current = ''
+
+  // Jetons alternés mot / espaces : les espaces d'origine sont conservés dans un segment
+  for (const token of text.split(/(\s+)/)) {
+    if (!token) continue
+    if ((current + token).trimEnd().length <= limit) {
+      current += token
+      continue
+    }
+
+    if (current.trim()) parts.push(current.trim())
+    current = ''
+
+    // Mot plus long qu'un segment entier (ex: URL) : coupé net
+    let word = token
+    while (word.length > limit) {
+      parts.push(word.slice(0, limit))
+      word = word.slice(limit)
+    }
+    current = word
+  }
+  if (current.trim()) parts.push(current.trim())
+
+  return parts
+}
+
+/**
+ * Découpe un texte en thread : segments d'au plus `maxLength` caractères,
+ * coupés aux limites de mots et numérotés « 1/5 » (numéro compris dans la limite).
+ *
+ * @param text      - Texte complet
+ * @param maxLength - Limite de caractères de la plateforme (ex: 280 pour X)
+ * @param options   - { numbering: false } pour ne pas numéroter
+ * @returns Segments dans l'ordre (un seul, inchangé, si le texte tient déjà)
+ *
+ * @example
+ *   splitIntoThread('Un texte de 600 caractères…', 280)
+ *   // → ['Un texte … 1/3', '… 2/3', '… 3/3']
+ */
+export function splitIntoThread(
+  text: string,
+  maxLength: number,
+  { numbering = true }: SplitThreadOptions = {},
+): string[] {
+  const clean = text.trim()
+  if (!clean) return []
+  if (clean.length <= maxLength) return [clean]
+  if (!numbering) return packWords(clean, maxLength)
+
+  // La place du suffixe « i/n » dépend du nombre de chiffres de n :
+  // on redécoupe jusqu'à ce que ce nombre de chiffres soit stable
+  let parts = packWords(clean, maxLength)
+  for (;;) {
+    const suffixLength = ` ${parts.length}/${parts.length}`.length
+    const next = packWords(clean, maxLength - suffixLength)
+    const isStable = String(next.length).length === String(parts.length).length
+    parts = next
+    if (isStable) break
+  }
+
+  return parts.map((part, i) => `${part} ${i + 1}/${parts.length}`)
+}
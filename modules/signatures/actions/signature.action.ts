@@ -2,8 +2,9 @@
  * @file modules/signatures/actions/signature.action.ts
  * @module signatures
  * @description Server Actions Next.js pour la gestion des signatures.
- *   Toutes les actions vérifient la session utilisateur et l'ownership
- *   avant toute opération DB.
+ *   Toutes les actions vérifient la session utilisateur, le rôle dans le workspace
+ *   actif et l'ownership avant toute opération DB. Les signatures sont partagées
+ *   par les membres du workspace (écriture réservée aux rôles EDITOR et OWNER).
  *
  *   Actions disponibles :
  *   - `listSignatures(platform?)` — liste les signatures (toutes ou par plateforme)
@@ -12,7 +13,7 @@
  *   - `deleteSignature(id)`      — supprime et promeut le suivant si c'était le défaut
  *
  * @example
- *   // Lister les signatures Instagram de l'user connecté
+ *   // Lister les signatures Instagram du workspace actif
  *   const sigs = await listSignatures('instagram')
  *
  *   // Créer une signature
@@ -30,21 +31,30 @@
 import { revalidatePath } from 'next/cache'
 import { headers } from 'next/headers'
 
+import { auditEventCreate, recordAuditEvents, userActor } from '@/lib/audit'
+import type { AuditActor } from '@/lib/audit'
 import { auth } from '@/lib/auth'
 import { prisma } from '@/lib/prisma'
+import { getWorkspaceContext } from '@/lib/workspace'
 import { SignatureUpsertSchema } from '@/modules/signatures/schemas/signature.schema'
 import type { Signature } from '@/modules/signatures/types'
+import type { WorkspaceRole } from '@/modules/workspaces/types'
+import { workspaceRoleError } from '@/modules/workspaces/utils/roles'
 
 // ─── Helpers internes ─────────────────────────────────────────────────────────
 
 /**
- * Récupère l'utilisateur connecté ou lance une erreur si non authentifié.
+ * Récupère l'utilisateur connecté et son workspace actif, ou lance une erreur
+ * si non authentifié / rôle insuffisant.
  * Utilisé au début de chaque Server Action pour garantir la sécurité.
  *
- * @returns userId de l'utilisateur connecté
- * @throws Error si non authentifié
+ * @param required - Rôle minimal dans le workspace (VIEWER en lecture, EDITOR en écriture)
+ * @returns userId de l'utilisateur connecté + workspaceId actif + auteur pour l'audit
+ * @throws Error si non authentifié ou rôle insuffisant
  */
-async function requireUserId(): Promise<string> {
+async function requireWorkspace(
+  required: WorkspaceRole,
+): Promise<{ userId: string; workspaceId: string; actor: AuditActor }> {
   // `headers()` de next/headers transmet les cookies de la requête courante,
   // requis par better-auth pour identifier la session utilisateur.
   const session = await auth.api.getSession({
@@ -53,7 +63,28 @@ async function requireUserId(): Promise<string> {
   if (!session?.user?.id) {
     throw new Error('Non authentifié')
   }
-  return session.user.id
+
+  const workspace = await getWorkspaceContext(session.user.id)
+  const roleError = workspaceRoleError(workspace.role, required)
+  if (roleError) {
+    throw new Error(roleError)
+  }
+  return { userId: session.user.id, workspaceId: workspace.id, actor: userActor(session.user) }
+}
+
+/**
+ * Champs d'une signature suivis par le journal d'audit.
+ *
+ * @param raw - Enregistrement Prisma
+ * @returns Snapshot de la signature
+ */
+function signatureAuditSnapshot(raw: {
+  name: string
+  text: string
+  platform: string
+  isDefault: boolean
+}): Record<string, unknown> {
+  return { name: raw.name, text: raw.text, platform: raw.platform, isDefault: raw.isDefault }
 }
 
 /**
@@ -88,7 +119,7 @@ function toSignature(raw: {
 // ─── Actions ──────────────────────────────────────────────────────────────────
 
 /**
- * Liste les signatures de l'utilisateur connecté.
+ * Liste les signatures du workspace actif.
  * Si `platform` est fourni, filtre par plateforme.
  * Ordre : défaut en premier, puis par createdAt DESC.
  *
@@ -103,11 +134,11 @@ function toSignature(raw: {
  *   const insta = await listSignatures('instagram')
  */
 export async function listSignatures(platform?: string): Promise<Signature[]> {
-  const userId = await requireUserId()
+  const { workspaceId } = await requireWorkspace('VIEWER')
 
   const rows = await prisma.signature.findMany({
     where: {
-      userId,
+      workspaceId,
       // Filtre par plateforme si fourni, sinon toutes
       ...(platform ? { platform } : {}),
     },
@@ -127,7 +158,7 @@ export async function listSignatures(platform?: string): Promise<Signature[]> {
  * - Si `rawData.id` est présent → mise à jour de la signature existante
  *
  * Validé via Zod (SignatureUpsertSchema) côté serveur.
- * Ownership vérifié : l'user ne peut modifier que ses propres signatures.
+ * Ownership vérifié : seules les signatures du workspace actif sont modifiables.
  *
  * @param rawData - Données brutes du formulaire (non validées)
  * @returns La signature créée ou mise à jour
@@ -151,15 +182,15 @@ export async function listSignatures(platform?: string): Promise<Signature[]> {
  *   })
  */
 export async function upsertSignature(rawData: unknown): Promise<Signature> {
-  const userId = await requireUserId()
+  const { userId, workspaceId, actor } = await requireWorkspace('EDITOR')
   const data = SignatureUpsertSchema.parse(rawData)
 
   let signature
 
   if (data.id) {
-    // Mise à jour : vérifier que la signature appartient à l'user
+    // Mise à jour : vérifier que la signature appartient au workspace
     const existing = await prisma.signature.findUnique({ where: { id: data.id } })
-    if (!existing || existing.userId !== userId) {
+    if (!existing || existing.workspaceId !== workspaceId) {
       throw new Error('Signature introuvable ou accès refusé')
     }
 
@@ -171,15 +202,27 @@ export async function upsertSignature(rawData: unknown): Promise<Signature> {
         // La plateforme n'est pas modifiable après création (évite les incohérences)
       },
     })
+
+    await recordAuditEvents(prisma, [{
+      workspaceId,
+      actor,
+      entityType: 'SIGNATURE',
+      entityId: signature.id,
+      entityLabel: signature.name,
+      action: 'UPDATED',
+      before: signatureAuditSnapshot(existing),
+      after: signatureAuditSnapshot(signature),
+    }])
   } else {
     // Création : si c'est la première signature de cette plateforme, elle devient défaut
     const existingCount = await prisma.signature.count({
-      where: { userId, platform: data.platform },
+      where: { workspaceId, platform: data.platform },
     })
 
     signature = await prisma.signature.create({
       data: {
         userId,
+        workspaceId,
         name: data.name,
         text: data.text,
         platform: data.platform,
@@ -187,6 +230,16 @@ export async function upsertSignature(rawData: unknown): Promise<Signature> {
         isDefault: existingCount === 0,
       },
     })
+
+    await recordAuditEvents(prisma, [{
+      workspaceId,
+      actor,
+      entityType: 'SIGNATURE',
+      entityId: signature.id,
+      entityLabel: signature.name,
+      action: 'CREATED',
+      after: signatureAuditSnapshot(signature),
+    }])
   }
 
   revalidatePath('/signatures')
@@ -206,15 +259,15 @@ export async function upsertSignature(rawData: unknown): Promise<Signature> {
  *
  * @example
  *   await setDefaultSignature('clxxx')
- *   // Toutes les autres signatures Instagram de l'user passent à isDefault = false
+ *   // Toutes les autres signatures Instagram du workspace passent à isDefault = false
  *   // La signature clxxx passe à isDefault = true
  */
 export async function setDefaultSignature(id: string): Promise<void> {
-  const userId = await requireUserId()
+  const { workspaceId, actor } = await requireWorkspace('EDITOR')
 
   // Vérifier l'ownership et récupérer la plateforme
   const existing = await prisma.signature.findUnique({ where: { id } })
-  if (!existing || existing.userId !== userId) {
+  if (!existing || existing.workspaceId !== workspaceId) {
     throw new Error('Signature introuvable ou accès refusé')
   }
 
@@ -224,7 +277,7 @@ export async function setDefaultSignature(id: string): Promise<void> {
   await prisma.$transaction([
     // Étape 1 : remettre à false tous les défauts de la plateforme
     prisma.signature.updateMany({
-      where: { userId, platform },
+      where: { workspaceId, platform },
       data: { isDefault: false },
     }),
     // Étape 2 : définir la signature cible comme défaut
@@ -232,6 +285,16 @@ export async function setDefaultSignature(id: string): Promise<void> {
       where: { id },
       data: { isDefault: true },
     }),
+    auditEventCreate(prisma, {
+      workspaceId,
+      actor,
+      entityType: 'SIGNATURE',
+      entityId: id,
+      entityLabel: existing.name,
+      action: 'UPDATED',
+      before: { isDefault: existing.isDefault },
+      after: { isDefault: true },
+    }),
   ])
 
   revalidatePath('/signatures')
@@ -252,23 +315,34 @@ export async function setDefaultSignature(id: string): Promise<void> {
  *   // Si clxxx était le défaut, la signature suivante devient défaut automatiquement
  */
 export async function deleteSignature(id: string): Promise<void> {
-  const userId = await requireUserId()
+  const { workspaceId, actor } = await requireWorkspace('EDITOR')
 
   // Vérifier l'ownership et si c'était le défaut
   const existing = await prisma.signature.findUnique({ where: { id } })
-  if (!existing || existing.userId !== userId) {
+  if (!existing || existing.workspaceId !== workspaceId) {
     throw new Error('Signature introuvable ou accès refusé')
   }
 
   const { platform, isDefault } = existing
 
-  // Supprimer la signature
-  await prisma.signature.delete({ where: { id } })
+  // Supprimer la signature (+ journal d'audit)
+  await prisma.$transaction([
+    prisma.signature.delete({ where: { id } }),
+    auditEventCreate(prisma, {
+      workspaceId,
+      actor,
+      entityType: 'SIGNATURE',
+      entityId: id,
+      entityLabel: existing.name,
+      action: 'DELETED',
+      before: signatureAuditSnapshot(existing),
+    }),
+  ])
 
   // Si c'était le défaut, promouvoir la suivante (la plus récente restante)
   if (isDefault) {
     const next = await prisma.signature.findFirst({
-      where: { userId, platform },
+      where: { workspaceId, platform },
       orderBy: { createdAt: 'desc' },
     })
 
@@ -0,0 +1,399 @@
+/**
+ * @file modules/workspaces/actions/workspace.action.ts
+ * @module workspaces
+ * @description Server Actions des workspaces (équipes).
+ *   Le workspace affiché est User.activeWorkspaceId (voir lib/workspace.ts) ;
+ *   la gestion des membres et des invitations est réservée au rôle OWNER.
+ *
+ *   Actions exportées :
+ *   - switchWorkspace  : change le workspace affiché (membre uniquement)
+ *   - createWorkspace  : crée un workspace (l'utilisateur en devient OWNER) et l'affiche
+ *   - inviteMember     : invite une adresse email avec un rôle (lien valable 7 jours)
+ *   - revokeInvitation : annule une invitation en attente
+ *   - updateMemberRole : change le rôle d'un membre
+ *   - removeMember     : retire un membre du workspace
+ *   - leaveWorkspace   : quitte le workspace affiché
+ *
+ *   Un workspace garde toujours au moins un propriétaire (memberChangeError).
+ *   L'acceptation d'une invitation passe par GET /api/workspaces/invitations/accept.
+ *
+ * @example
+ *   const result = await inviteMember({ email: 'alice@studio.fr', role: 'EDITOR' })
+ *   if (!result.success) toast.error(result.error)
+ */
+
+'use server'
+
+import { randomBytes } from 'crypto'
+
+import { revalidatePath } from 'next/cache'
+import { headers } from 'next/headers'
+
+import { auth } from '@/lib/auth'
+import { sendWorkspaceInvitationEmail } from '@/lib/plunk'
+import { prisma } from '@/lib/prisma'
+import { getWorkspaceContext } from '@/lib/workspace'
+import {
+  WorkspaceCreateSchema,
+  WorkspaceInviteSchema,
+  WorkspaceMemberRoleSchema,
+  WorkspaceSwitchSchema,
+} from '@/modules/workspaces/schemas/workspace.schema'
+import type { WorkspaceActionResult, WorkspaceRole } from '@/modules/workspaces/types'
+import { ROLE_LABELS, memberChangeError, workspaceRoleError } from '@/modules/workspaces/utils/roles'
+
+// ─── Constantes ───────────────────────────────────────────────────────────────
+
+/** Durée de validité d'une invitation */
+const INVITATION_TTL_MS = 7 * 24 * 60 * 60 * 1000
+
+// ─── Helpers ─────────────────────────────────────────────────────────────────
+
+/**
+ * Les données affichées dépendent du workspace : tout le dashboard est revalidé.
+ */
+function revalidateWorkspace(): void {
+  revalidatePath('/', 'layout')
+}
+
+/**
+ * Membre du workspace `workspaceId` + nombre de propriétaires (règle du dernier OWNER).
+ *
+ * @param memberId    - ID de la ligne WorkspaceMember
+ * @param workspaceId - Workspace du propriétaire connecté
+ * @returns Le membre et le nombre d'OWNER, ou null si le membre n'appartient pas au workspace
+ */
+async function findMember(
+  memberId: string,
+  workspaceId: string,
+): Promise<{ member: { id: string; role: WorkspaceRole }; ownerCount: number } | null> {
+  const member: { id: string; workspaceId: string; role: WorkspaceRole } | null =
+    await prisma.workspaceMember.findUnique({
+      where: { id: memberId },
+      select: { id: true, workspaceId: true, role: true },
+    })
+  if (!member || member.workspaceId !== workspaceId) return null
+
+  const ownerCount = await prisma.workspaceMember.count({
+    where: { workspaceId, role: 'OWNER' },
+  })
+  return { member, ownerCount }
+}
+
+// ─── switchWorkspace ──────────────────────────────────────────────────────────
+
+/**
+ * Change le workspace affiché pour l'utilisateur connecté.
+ *
+ * @param rawData - { workspaceId } (validé par WorkspaceSwitchSchema)
+ * @returns WorkspaceActionResult
+ */
+export async function switchWorkspace(rawData: unknown): Promise<WorkspaceActionResult> {
+  const session = await auth.api.getSession({ headers: await headers() })
+  if (!session) {
+    return { success: false, error: 'Non authentifié' }
+  }
+
+  const parsed = WorkspaceSwitchSchema.safeParse(rawData)
+  if (!parsed.success) {
+    return { success: false, error: parsed.error.issues[0]?.message ?? 'Données invalides' }
+  }
+
+  const membership = await prisma.workspaceMember.findUnique({
+    where: { workspaceId_userId: { workspaceId: parsed.data.workspaceId, userId: session.user.id } },
+    select: { id: true },
+  })
+  if (!membership) {
+    return { success: false, error: 'Workspace introuvable' }
+  }
+
+  try {
+    await prisma.user.update({
+      where: { id: session.user.id },
+      data: { activeWorkspaceId: parsed.data.workspaceId },
+    })
+    revalidateWorkspace()
+    return { success: true }
+  } catch (error) {
+    console.error('[switchWorkspace] Erreur :', error)
+    return { success: false, error: 'Erreur lors du changement de workspace' }
+  }
+}
+
+// ─── createWorkspace ──────────────────────────────────────────────────────────
+
+/**
+ * Crée un workspace dont l'utilisateur connecté est propriétaire, et l'affiche.
+ *
+ * @param rawData - { name } (validé par WorkspaceCreateSchema)
+ * @returns WorkspaceActionResult
+ */
+export async function createWorkspace(rawData: unknown): Promise<WorkspaceActionResult> {
+  const session = await auth.api.getSession({ headers: await headers() })
+  if (!session) {
+    return { success: false, error: 'Non authentifié' }
+  }
+
+  const parsed = WorkspaceCreateSchema.safeParse(rawData)
+  if (!parsed.success) {
+    return { success: false, error: parsed.error.issues[0]?.message ?? 'Données invalides' }
+  }
+
+  try {
+    await prisma.workspace.create({
+      data: {
+        name: parsed.data.name,
+        members: { create: { userId: session.user.id, role: 'OWNER' } },
+        activeUsers: { connect: { id: session.user.id } },
+      },
+    })
+    revalidateWorkspace()
+    return { success: true }
+  } catch (error) {
+    console.error('[createWorkspace] Erreur :', error)
+    return { success: false, error: 'Erreur lors de la création du workspace' }
+  }
+}
+
+// ─── inviteMember ─────────────────────────────────────────────────────────────
+
+/**
+ * Invite une adresse email dans le workspace affiché (OWNER).
+ * Une invitation en attente pour la même adresse est remplacée (nouveau lien).
+ * L'échec d'envoi de l'email est journalisé sans annuler l'invitation.
+ *
+ * @param rawData - { email, role } (validé par WorkspaceInviteSchema)
+ * @returns WorkspaceActionResult
+ */
+export async function inviteMember(rawData: unknown): Promise<WorkspaceActionResult> {
+  const session = await auth.api.getSession({ headers: await headers() })
+  if (!session) {
+    return { success: false, error: 'Non authentifié' }
+  }
+
+  const workspace = await getWorkspaceContext(session.user.id)
+  const roleError = workspaceRoleError(workspace.role, 'OWNER')
+  if (roleError) {
+    return { success: false, error: roleError }
+  }
+
+  const parsed = WorkspaceInviteSchema.safeParse(rawData)
+  if (!parsed.success) {
+    return { success: false, error: parsed.error.issues[0]?.message ?? 'Données invalides' }
+  }
+  const { email, role } = parsed.data
+
+  const existingMember = await prisma.workspaceMember.findFirst({
+    where: { workspaceId: workspace.id, user: { email: { equals: email, mode: 'insensitive' } } },
+    select: { id: true },
+  })
+  if (existingMember) {
+    return { success: false, error: `${email} est déjà membre de ce workspace` }
+  }
+
+  const token = randomBytes(32).toString('hex')
+
+  try {
+    await prisma.$transaction([
+      prisma.workspaceInvitation.deleteMany({
+        where: { workspaceId: workspace.id, email, acceptedAt: null },
+      }),
+      prisma.workspaceInvitation.create({
+        data: {
+          workspaceId: workspace.id,
+          email,
+          role,
+          token,
+          invitedById: session.user.id,
+          expiresAt: new Date(Date.now() + INVITATION_TTL_MS),
+        },
+      }),
+    ])
+  } catch (error) {
+    console.error('[inviteMember] Erreur :', error)
+    return { success: false, error: 'Erreur lors de la création de l\'invitation' }
+  }
+
+  const baseUrl = process.env.BETTER_AUTH_URL ?? 'https://ogolong.com'
+  try {
+    await sendWorkspaceInvitationEmail({
+      email,
+      url: `${baseUrl}/api/workspaces/invitations/accept?token=${token}`,
+      workspaceName: workspace.name,
+      inviterName: session.user.name || undefined,
+      roleLabel: ROLE_LABELS[role],
+    })
+  } catch (error) {
+    // Non bloquant : l'invitation reste valide, l'owner peut la renvoyer
+    console.warn('[inviteMember] Échec envoi email :', error)
+  }
+
+  revalidatePath('/settings')
+  return { success: true }
+}
+
+// ─── revokeInvitation ─────────────────────────────────────────────────────────
+
+/**
+ * Annule une invitation en attente du workspace affiché (OWNER).
+ *
+ * @param invitationId - ID de la WorkspaceInvitation
+ * @returns WorkspaceActionResult
+ */
+export async function revokeInvitation(invitationId: unknown): Promise<WorkspaceActionResult> {
+  const session = await auth.api.getSession({ headers: await headers() })
+  if (!session) {
+    return { success: false, error: 'Non authentifié' }
+  }
+
+  const workspace = await getWorkspaceContext(session.user.id)
+  const roleError = workspaceRoleError(workspace.role, 'OWNER')
+  if (roleError) {
+    return { success: false, error: roleError }
+  }
+
+  if (typeof invitationId !== 'string' || !invitationId) {
+    return { success: false, error: 'Invitation invalide' }
+  }
+
+  const { count } = await prisma.workspaceInvitation.deleteMany({
+    where: { id: invitationId, workspaceId: workspace.id, acceptedAt: null },
+  })
+  if (count === 0) {
+    return { success: false, error: 'Invitation introuvable' }
+  }
+
+  revalidatePath('/settings')
+  return { success: true }
+}
+
+// ─── updateMemberRole ─────────────────────────────────────────────────────────
+
+/**
+ * Change le rôle d'un membre du workspace affiché (OWNER).
+ *
+ * @param rawData - { memberId, role } (validé par WorkspaceMemberRoleSchema)
+ * @returns WorkspaceActionResult
+ */
+export async function updateMemberRole(rawData: unknown): Promise<WorkspaceActionResult> {
+  const session = await auth.api.getSession({ headers: await headers() })
+  if (!session) {
+    return { success: false, error: 'Non authentifié' }
+  }
+
+  const workspace = await getWorkspaceContext(session.user.id)
+  const roleError = workspaceRoleError(workspace.role, 'OWNER')
+  if (roleError) {
+    return { success: false, error: roleError }
+  }
+
+  const parsed = WorkspaceMemberRoleSchema.safeParse(rawData)
+  if (!parsed.success) {
+    return { success: false, error: parsed.error.issues[0]?.message ?? 'Données invalides' }
+  }
+
+  const found = await findMember(parsed.data.memberId, workspace.id)
+  if (!found) {
+    return { success: false, error: 'Membre introuvable' }
+  }
+  const changeError = memberChangeError(found.member.role, parsed.data.role, found.ownerCount)
+  if (changeError) {
+    return { success: false, error: changeError }
+  }
+
+  try {
+    await prisma.workspaceMember.update({
+      where: { id: found.member.id },
+      data: { role: parsed.data.role },
+    })
+    revalidatePath('/settings')
+    return { success: true }
+  } catch (error) {
+    console.error('[updateMemberRole] Erreur :', error)
+    return { success: false, error: 'Erreur lors du changement de rôle' }
+  }
+}
+
+// ─── removeMember ─────────────────────────────────────────────────────────────
+
+/**
+ * Retire un membre du workspace affiché (OWNER). Ses posts restent dans le workspace.
+ *
+ * @param memberId - ID de la ligne WorkspaceMember
+ * @returns WorkspaceActionResult
+ */
+export async function removeMember(memberId: unknown): Promise<WorkspaceActionResult> {
+  const session = await auth.api.getSession({ headers: await headers() })
+  if (!session) {
+    return { success: false, error: 'Non authentifié' }
+  }
+
+  const workspace = await getWorkspaceContext(session.user.id)
+  const roleError = workspaceRoleError(workspace.role, 'OWNER')
+  if (roleError) {
+    return { success: false, error: roleError }
+  }
+
+  if (typeof memberId !== 'string' || !memberId) {
+    return { success: false, error: 'Membre invalide' }
+  }
+
+  const found = await findMember(memberId, workspace.id)
+  if (!found) {
+    return { success: false, error: 'Membre introuvable' }
+  }
+  const changeError = memberChangeError(found.member.role, null, found.ownerCount)
+  if (changeError) {
+    return { success: false, error: changeError }
+  }
+
+  try {
+    // Le membre retiré retombe sur un autre de ses workspaces (getWorkspaceContext)
+    await prisma.workspaceMember.delete({ where: { id: found.member.id } })
+    revalidatePath('/settings')
+    return { success: true }
+  } catch (error) {
+    console.error('[removeMember] Erreur :', error)
+    return { success: false, error: 'Erreur lors du retrait du membre' }
+  }
+}
+
+// ─── leaveWorkspace ───────────────────────────────────────────────────────────
+
+/**
+ * Quitte le workspace affiché. Le dernier propriétaire ne peut pas partir.
+ *
+ * @returns WorkspaceActionResult
+ */
+export async function leaveWorkspace(): Promise<WorkspaceActionResult> {
+  const session = await auth.api.getSession({ headers: await headers() })
+  if (!session) {
+    return { success: false, error: 'Non authentifié' }
+  }
+
+  const workspace = await getWorkspaceContext(session.user.id)
+  const ownerCount = await prisma.workspaceMember.count({
+    where: { workspaceId: workspace.id, role: 'OWNER' },
+  })
+  const changeError = memberChangeError(workspace.role, null, ownerCount)
+  if (changeError) {
+    return { success: false, error: changeError }
+  }
+
+  try {
+    await prisma.$transaction([
+      prisma.workspaceMember.delete({
+        where: { workspaceId_userId: { workspaceId: workspace.id, userId: session.user.id } },
+      }),
+      prisma.user.update({
+        where: { id: session.user.id },
+        data: { activeWorkspaceId: null },
+      }),
+    ])
+    revalidateWorkspace()
+    return { success: true }
+  } catch (error) {
+    console.error('[leaveWorkspace] Erreur :', error)
+    return { success: false, error: 'Erreur lors du départ du workspace' }
+  }
+}
@@ -0,0 +1,258 @@
+/**
+ * @file modules/workspaces/components/WorkspaceMembers/index.tsx
+ * @module workspaces
+ * @description Section « Équipe » de /settings : membres du workspace actif et
+ *   invitations en attente.
+ *   - OWNER : change les rôles, retire des membres, invite par email, annule une invitation
+ *   - autres rôles : liste des membres en lecture seule
+ *   - tout membre peut quitter le workspace (sauf le dernier propriétaire)
+ *
+ * @example
+ *   // Dans settings/page.tsx (Server Component) :
+ *   <WorkspaceMembers />
+ */
+
+'use client'
+
+import { useQuery, useQueryClient } from '@tanstack/react-query'
+import { Loader2, LogOut, Mail, UserPlus, X } from 'lucide-react'
+import { useRouter } from 'next/navigation'
+import { useState } from 'react'
+import { toast } from 'sonner'
+
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import {
+  inviteMember,
+  leaveWorkspace,
+  removeMember,
+  revokeInvitation,
+  updateMemberRole,
+} from '@/modules/workspaces/actions/workspace.action'
+import { fetchWorkspaceMembers, workspaceQueryKeys } from '@/modules/workspaces/queries/workspaces.queries'
+import type { WorkspaceActionResult, WorkspaceRole } from '@/modules/workspaces/types'
+import { ROLE_LABELS, hasWorkspaceRole } from '@/modules/workspaces/utils/roles'
+
+// ─── Constantes ───────────────────────────────────────────────────────────────
+
+/** Rôles proposés dans les sélecteurs */
+const ROLE_OPTIONS: WorkspaceRole[] = ['OWNER', 'EDITOR', 'VIEWER']
+
+/** Classes du sélecteur de rôle (select natif) */
+const SELECT_CLASSNAME =
+  'h-8 rounded-md border border-input bg-background px-2 text-xs focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring disabled:opacity-50'
+
+// ─── Composant ────────────────────────────────────────────────────────────────
+
+/**
+ * Membres, invitations et formulaire d'invitation du workspace actif.
+ */
+export function WorkspaceMembers(): React.JSX.Element {
+  const router = useRouter()
+  const queryClient = useQueryClient()
+  const [email, setEmail] = useState('')
+  const [role, setRole] = useState<WorkspaceRole>('EDITOR')
+  /** Clé de l'action en cours (ex: "invite", "role:<id>") — désactive le contrôle concerné */
+  const [pendingKey, setPendingKey] = useState<string | null>(null)
+
+  const { data, isLoading } = useQuery({
+    queryKey: workspaceQueryKeys.members(),
+    queryFn: fetchWorkspaceMembers,
+  })
+
+  /**
+   * Exécute une Server Action, affiche le résultat et rafraîchit la liste.
+   *
+   * @param key            - Action en cours
+   * @param run            - Appel de la Server Action
+   * @param successMessage - Toast affiché en cas de succès
+   * @returns true si l'action a réussi
+   */
+  const runAction = async (
+    key: string,
+    run: () => Promise<WorkspaceActionResult>,
+    successMessage: string,
+  ): Promise<boolean> => {
+    if (pendingKey) return false
+    setPendingKey(key)
+    try {
+      const result = await run()
+      if (!result.success) {
+        toast.error(result.error ?? 'Action impossible')
+        return false
+      }
+      toast.success(successMessage)
+      void queryClient.invalidateQueries({ queryKey: workspaceQueryKeys.all() })
+      return true
+    } catch (err) {
+      console.error('[WorkspaceMembers] Erreur :', err)
+      toast.error('Erreur réseau — réessayez')
+      return false
+    } finally {
+      setPendingKey(null)
+    }
+  }
+
+  const handleInvite = async (): Promise<void> => {
+    const sent = await runAction('invite', () => inviteMember({ email, role }), `Invitation envoyée à ${email.trim()}`)
+    if (sent) setEmail('')
+  }
+
+  const handleLeave = async (): Promise<void> => {
+    if (!data || !window.confirm(`Quitter le workspace « ${data.workspace.name} » ?`)) return
+    const left = await runAction('leave', () => leaveWorkspace(), 'Tu as quitté le workspace')
+    if (left) {
+      // Le workspace affiché change : tout le cache est périmé
+      await queryClient.invalidateQueries()
+      router.refresh()
+    }
+  }
+
+  if (isLoading || !data) {
+    return <p className="text-sm text-muted-foreground">Chargement de l&apos;équipe…</p>
+  }
+
+  const isOwner = hasWorkspaceRole(data.role, 'OWNER')
+
+  return (
+    <div className="space-y-4 rounded-xl border border-border bg-card p-4">
+      {/* ── En-tête : workspace + rôle ── */}
+      <div className="flex items-center justify-between gap-2">
+        <p className="text-sm font-medium">{data.workspace.name}</p>
+        <p className="text-xs text-muted-foreground">Ton rôle : {ROLE_LABELS[data.role]}</p>
+      </div>
+
+      {/* ── Membres ── */}
+      <ul className="divide-y divide-border">
+        {data.members.map((member) => (
+          <li key={member.id} className="flex items-center gap-3 py-2">
+            <div className="min-w-0 flex-1">
+              <p className="truncate text-sm">
+                {member.name ?? member.email}
+                {member.isSelf && <span className="text-muted-foreground"> (toi)</span>}
+              </p>
+              {member.name && <p className="truncate text-xs text-muted-foreground">{member.email}</p>}
+            </div>
+
+            {isOwner ? (
+              <>
+                <select
+                  value={member.role}
+                  onChange={(e) => void runAction(
+                    `role:${member.id}`,
+                    () => updateMemberRole({ memberId: member.id, role: e.target.value }),
+                    'Rôle mis à jour',
+                  )}
+                  disabled={pendingKey !== null}
+                  className={SELECT_CLASSNAME}
+                  aria-label={`Rôle de ${member.email}`}
+                >
+                  {ROLE_OPTIONS.map((option) => (
+                    <option key={option} value={option}>{ROLE_LABELS[option]}</option>
+                  ))}
+                </select>
+                {!member.isSelf && (
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="size-8 text-muted-foreground hover:text-destructive"
+                    disabled={pendingKey !== null}
+                    onClick={() => void runAction(
+                      `remove:${member.id}`,
+                      () => removeMember(member.id),
+                      `${member.name ?? member.email} a été retiré du workspace`,
+                    )}
+                    aria-label={`Retirer ${member.email}`}
+                  >
+                    {pendingKey === `remove:${member.id}`
+                      ? <Loader2 className="size-4 animate-spin" />
+                      : <X className="size-4" />}
+                  </Button>
+                )}
+              </>
+            ) : (
+              <span className="text-xs text-muted-foreground">{ROLE_LABELS[member.role]}</span>
+            )}
+          </li>
+        ))}
+      </ul>
+
+      {/* ── Invitations (OWNER) ── */}
+      {isOwner && (
+        <div className="space-y-3">
+          {data.invitations.length > 0 && (
+            <ul className="space-y-1.5">
+              {data.invitations.map((invitation) => (
+                <li key={invitation.id} className="flex items-center gap-2 text-xs text-muted-foreground">
+                  <Mail className="size-3.5 shrink-0" />
+                  <span className="flex-1 truncate">
+                    {invitation.email} · {ROLE_LABELS[invitation.role]} · expire le{' '}
+                    {invitation.expiresAt.toLocaleDateString('fr-FR', { day: 'numeric', month: 'short' })}
+                  </span>
+                  <button
+                    type="button"
+                    onClick={() => void runAction(
+                      `revoke:${invitation.id}`,
+                      () => revokeInvitation(invitation.id),
+                      'Invitation annulée',
+                    )}
+                    disabled={pendingKey !== null}
+                    className="rounded-full p-0.5 hover:bg-muted hover:text-foreground disabled:opacity-50"
+                    aria-label={`Annuler l'invitation de ${invitation.email}`}
+                  >
+                    <X className="size-3" />
+                  </button>
+                </li>
+              ))}
+            </ul>
+          )}
+
+          <div className="flex flex-wrap items-center gap-2">
+            <Input
+              type="email"
+              value={email}
+              onChange={(e) => setEmail(e.target.value)}
+              placeholder="email@exemple.fr"
+              className="h-8 flex-1 text-sm"
+              disabled={pendingKey !== null}
+            />
+            <select
+              value={role}
+              onChange={(e) => setRole(e.target.value as WorkspaceRole)}
+              disabled={pendingKey !== null}
+              className={SELECT_CLASSNAME}
+              aria-label="Rôle de l'invité"
+            >
+              {ROLE_OPTIONS.map((option) => (
+                <option key={option} value={option}>{ROLE_LABELS[option]}</option>
+              ))}
+            </select>
+            <Button
+              size="sm"
+              className="h-8 gap-1.5"
+              disabled={pendingKey !== null || !email.trim()}
+              onClick={() => void handleInvite()}
+            >
+              {pendingKey === 'invite' ? <Loader2 className="size-4 animate-spin" /> : <UserPlus className="size-4" />}
+              Inviter
+            </Button>
+          </div>
+        </div>
+      )}
+
+      {/* ── Quitter ── */}
+      <div className="flex justify-end">
+        <Button
+          variant="ghost"
+          size="sm"
+          className="gap-1.5 text-xs text-muted-foreground hover:text-destructive"
+          disabled={pendingKey !== null}
+          onClick={() => void handleLeave()}
+        >
+          <LogOut className="size-3.5" />
+          Quitter le workspace
+        </Button>
+      </div>
+    </div>
+  )
+}
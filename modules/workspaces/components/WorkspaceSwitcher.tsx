@@ -0,0 +1,175 @@
+/**
+ * @file modules/workspaces/components/WorkspaceSwitcher.tsx
+ * @module workspaces
+ * @description Sélecteur du workspace affiché, dans le Header du dashboard.
+ *   Liste les workspaces de l'utilisateur (avec son rôle) et permet d'en créer un.
+ *   Changer de workspace change toutes les données affichées : le cache TanStack
+ *   Query est entièrement invalidé et les Server Components rafraîchis.
+ *
+ * @example
+ *   // components/layout/Header.tsx
+ *   <WorkspaceSwitcher />
+ */
+
+'use client'
+
+import { useQuery, useQueryClient } from '@tanstack/react-query'
+import { Check, ChevronsUpDown, Loader2, Plus, Users } from 'lucide-react'
+import { useRouter } from 'next/navigation'
+import { useState } from 'react'
+import { toast } from 'sonner'
+
+import { Button } from '@/components/ui/button'
+import {
+  Dialog,
+  DialogContent,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog'
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu'
+import { Input } from '@/components/ui/input'
+import { Skeleton } from '@/components/ui/skeleton'
+import { createWorkspace, switchWorkspace } from '@/modules/workspaces/actions/workspace.action'
+import { fetchWorkspaces, workspaceQueryKeys } from '@/modules/workspaces/queries/workspaces.queries'
+import { ROLE_LABELS } from '@/modules/workspaces/utils/roles'
+
+// ─── Composant ────────────────────────────────────────────────────────────────
+
+/**
+ * Menu déroulant des workspaces + dialog de création.
+ */
+export function WorkspaceSwitcher(): React.JSX.Element | null {
+  const router = useRouter()
+  const queryClient = useQueryClient()
+  const [isCreateOpen, setIsCreateOpen] = useState(false)
+  const [newName, setNewName] = useState('')
+  const [isPending, setIsPending] = useState(false)
+
+  const { data: workspaces, isLoading } = useQuery({
+    queryKey: workspaceQueryKeys.list(),
+    queryFn: fetchWorkspaces,
+  })
+
+  if (isLoading) {
+    return <Skeleton className="h-8 w-36" />
+  }
+  if (!workspaces || workspaces.length === 0) return null
+
+  const active = workspaces.find((workspace) => workspace.isActive) ?? workspaces[0]
+
+  /** Toutes les données dépendent du workspace : cache vidé + Server Components rafraîchis */
+  const refreshAll = async (): Promise<void> => {
+    await queryClient.invalidateQueries()
+    router.refresh()
+  }
+
+  const handleSwitch = async (workspaceId: string): Promise<void> => {
+    if (workspaceId === active.id || isPending) return
+    setIsPending(true)
+    try {
+      const result = await switchWorkspace({ workspaceId })
+      if (result.success) {
+        await refreshAll()
+      } else {
+        toast.error(result.error ?? 'Impossible de changer de workspace')
+      }
+    } catch (err) {
+      console.error('[WorkspaceSwitcher] Erreur :', err)
+      toast.error('Erreur réseau — réessayez')
+    } finally {
+      setIsPending(false)
+    }
+  }
+
+  const handleCreate = async (): Promise<void> => {
+    if (isPending) return
+    setIsPending(true)
+    try {
+      const result = await createWorkspace({ name: newName })
+      if (result.success) {
+        toast.success(`Workspace « ${newName.trim()} » créé`)
+        setIsCreateOpen(false)
+        setNewName('')
+        await refreshAll()
+      } else {
+        toast.error(result.error ?? 'Impossible de créer le workspace')
+      }
+    } catch (err) {
+      console.error('[WorkspaceSwitcher] Erreur :', err)
+      toast.error('Erreur réseau — réessayez')
+    } finally {
+      setIsPending(false)
+    }
+  }
+
+  return (
+    <>
+      <DropdownMenu>
+        <DropdownMenuTrigger asChild>
+          <Button variant="outline" size="sm" className="max-w-56 gap-2" disabled={isPending}>
+            {isPending ? <Loader2 className="size-4 animate-spin" /> : <Users className="size-4" />}
+            <span className="truncate">{active.name}</span>
+            <ChevronsUpDown className="size-3.5 shrink-0 opacity-50" />
+          </Button>
+        </DropdownMenuTrigger>
+
+        <DropdownMenuContent align="start" className="w-60">
+          <DropdownMenuLabel className="text-xs font-normal text-muted-foreground">
+            Workspaces
+          </DropdownMenuLabel>
+          {workspaces.map((workspace) => (
+            <DropdownMenuItem
+              key={workspace.id}
+              onClick={() => void handleSwitch(workspace.id)}
+              className="flex items-center gap-2"
+            >
+              <Check className={workspace.isActive ? 'size-4' : 'size-4 invisible'} />
+              <span className="flex-1 truncate">{workspace.name}</span>
+              <span className="text-xs text-muted-foreground">{ROLE_LABELS[workspace.role]}</span>
+            </DropdownMenuItem>
+          ))}
+
+          <DropdownMenuSeparator />
+
+          <DropdownMenuItem onClick={() => setIsCreateOpen(true)} className="flex items-center gap-2">
+            <Plus className="size-4" />
+            <span>Nouveau workspace</span>
+          </DropdownMenuItem>
+        </DropdownMenuContent>
+      </DropdownMenu>
+
+      {/* ── Dialog de création ── */}
+      <Dialog open={isCreateOpen} onOpenChange={setIsCreateOpen}>
+        <DialogContent className="sm:max-w-sm">
+          <DialogHeader>
+            <DialogTitle>Nouveau workspace</DialogTitle>
+          </DialogHeader>
+          <Input
+            value={newName}
+            onChange={(e) => setNewName(e.target.value)}
+            placeholder="Ex : Studio Lumen"
+            maxLength={60}
+            autoFocus
+          />
+          <DialogFooter>
+            <Button variant="ghost" onClick={() => setIsCreateOpen(false)}>
+              Annuler
+            </Button>
+            <Button onClick={() => void handleCreate()} disabled={isPending || !newName.trim()}>
+              {isPending && <Loader2 className="size-4 animate-spin" />}
+              Créer
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </>
+  )
+}
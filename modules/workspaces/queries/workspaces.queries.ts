@@ -0,0 +1,64 @@
+/**
+ * @file modules/workspaces/queries/workspaces.queries.ts
+ * @module workspaces
+ * @description Clés et fetchers TanStack Query pour le module workspaces.
+ *
+ * @example
+ *   import { workspaceQueryKeys, fetchWorkspaces } from '@/modules/workspaces/queries/workspaces.queries'
+ *   useQuery({ queryKey: workspaceQueryKeys.list(), queryFn: fetchWorkspaces })
+ */
+
+import type { WorkspaceMembersResponse, WorkspaceSummary } from '@/modules/workspaces/types'
+
+// ─── Clés ─────────────────────────────────────────────────────────────────────
+
+export const workspaceQueryKeys = {
+  /** Clé racine du module */
+  all: () => ['workspaces'] as const,
+
+  /** Workspaces dont l'utilisateur est membre (sélecteur du Header) */
+  list: () => ['workspaces', 'list'] as const,
+
+  /** Membres + invitations du workspace actif (section « Équipe ») */
+  members: () => ['workspaces', 'members'] as const,
+}
+
+// ─── Fetchers ─────────────────────────────────────────────────────────────────
+
+/**
+ * Fetche les workspaces de l'utilisateur depuis /api/workspaces.
+ *
+ * @returns Workspaces avec le rôle de l'utilisateur et le workspace actif
+ */
+export async function fetchWorkspaces(): Promise<WorkspaceSummary[]> {
+  const response = await fetch('/api/workspaces')
+
+  if (!response.ok) {
+    throw new Error(`Erreur lors du chargement des workspaces : ${response.statusText}`)
+  }
+
+  return response.json() as Promise<WorkspaceSummary[]>
+}
+
+/**
+ * Fetche les membres et invitations du workspace actif.
+ * Les dates d'expiration JSON sont reconverties en Date.
+ *
+ * @returns Membres, invitations et rôle de l'utilisateur connecté
+ */
+export async function fetchWorkspaceMembers(): Promise<WorkspaceMembersResponse> {
+  const response = await fetch('/api/workspaces/members')
+
+  if (!response.ok) {
+    throw new Error(`Erreur lors du chargement de l'équipe : ${response.statusText}`)
+  }
+
+  const raw = (await response.json()) as WorkspaceMembersResponse
+  return {
+    ...raw,
+    invitations: raw.invitations.map((invitation) => ({
+      ...invitation,
+      expiresAt: new Date(invitation.expiresAt as unknown as string),
+    })),
+  }
+}
@@ -0,0 +1,43 @@
+/**
+ * @file modules/workspaces/schemas/workspace.schema.ts
+ * @module workspaces
+ * @description Schémas Zod des workspaces (équipes) : création, changement de
+ *   workspace actif, invitation d'un membre et changement de rôle.
+ *
+ *   Utilisés côté client (sélecteur du Header, section « Équipe » de /settings)
+ *   ET côté serveur (Server Actions de workspace.action.ts).
+ *
+ * @example
+ *   WorkspaceInviteSchema.parse({ email: 'alice@studio.fr', role: 'EDITOR' })
+ */
+
+import { z } from 'zod'
+
+/** Rôles attribuables à un membre */
+const WorkspaceRoleSchema = z.enum(['OWNER', 'EDITOR', 'VIEWER'])
+
+/** Nom d'un workspace (création) */
+export const WorkspaceCreateSchema = z.object({
+  name: z.string().trim().min(1, 'Le nom est requis').max(60, 'Nom trop long (max 60 caractères)'),
+})
+
+/** Changement du workspace affiché */
+export const WorkspaceSwitchSchema = z.object({
+  workspaceId: z.string().min(1, 'Workspace requis'),
+})
+
+/** Invitation d'un membre par email (adresse normalisée en minuscules) */
+export const WorkspaceInviteSchema = z.object({
+  email: z.string().trim().toLowerCase().email('Adresse email invalide'),
+  role: WorkspaceRoleSchema,
+})
+
+/** Changement de rôle d'un membre */
+export const WorkspaceMemberRoleSchema = z.object({
+  memberId: z.string().min(1, 'Membre requis'),
+  role: WorkspaceRoleSchema,
+})
+
+export type WorkspaceCreateInput = z.infer<typeof WorkspaceCreateSchema>
+export type WorkspaceInviteInput = z.infer<typeof WorkspaceInviteSchema>
+export type WorkspaceMemberRoleInput = z.infer<typeof WorkspaceMemberRoleSchema>
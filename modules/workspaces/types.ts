@@ -0,0 +1,77 @@
+/**
+ * @file modules/workspaces/types.ts
+ * @module workspaces
+ * @description Types TypeScript du module Workspaces (équipes).
+ *   Un Workspace regroupe les comptes connectés, posts, signatures et médias
+ *   partagés par ses membres. Chaque membre a un rôle : OWNER, EDITOR ou VIEWER.
+ *
+ * @example
+ *   const summary: WorkspaceSummary = {
+ *     id: 'ws_abc',
+ *     name: 'Studio Lumen',
+ *     role: 'EDITOR',
+ *     isActive: true,
+ *   }
+ */
+
+// ─── Types de domaine ──────────────────────────────────────────────────────────
+
+/**
+ * Rôle d'un membre (enum Prisma WorkspaceRole).
+ * OWNER  : gère les membres, les invitations et les comptes connectés
+ * EDITOR : crée, modifie, planifie et supprime les contenus
+ * VIEWER : lecture seule (peut commenter les posts en revue)
+ */
+export type WorkspaceRole = 'OWNER' | 'EDITOR' | 'VIEWER'
+
+/** Workspace dont l'utilisateur est membre (sélecteur du Header) */
+export interface WorkspaceSummary {
+  id: string
+  name: string
+  /** Rôle de l'utilisateur connecté dans ce workspace */
+  role: WorkspaceRole
+  /** Workspace actuellement affiché */
+  isActive: boolean
+}
+
+/** Membre du workspace actif (section « Équipe » de /settings) */
+export interface WorkspaceMemberItem {
+  id: string
+  userId: string
+  name: string | null
+  email: string
+  role: WorkspaceRole
+  /** Utilisateur connecté */
+  isSelf: boolean
+}
+
+/** Invitation en attente (non acceptée, non expirée) */
+export interface WorkspaceInvitationItem {
+  id: string
+  email: string
+  role: WorkspaceRole
+  expiresAt: Date
+}
+
+/**
+ * Réponse de GET /api/workspaces/members : membres + invitations du workspace actif.
+ * `role` : rôle de l'utilisateur connecté (détermine les actions affichées).
+ */
+export interface WorkspaceMembersResponse {
+  /**
+   * requirePostApproval : validation des posts avant planification (modifiable par un OWNER) ;
+   * timezone : fuseau des créneaux de la file de publication
+   */
+  workspace: { id: string; name: string; requirePostApproval: boolean; timezone: string }
+  role: WorkspaceRole
+  members: WorkspaceMemberItem[]
+  invitations: WorkspaceInvitationItem[]
+}
+
+// ─── Types de résultats ───────────────────────────────────────────────────────
+
+/** Résultat générique des Server Actions du module */
+export interface WorkspaceActionResult {
+  success: boolean
+  error?: string
+}
@@ -0,0 +1,111 @@
+/**
+ * @file modules/workspaces/utils/roles.ts
+ * @module workspaces
+ * @description Règles d'accès par rôle dans un workspace (fonctions pures).
+ *   Hiérarchie : OWNER > EDITOR > VIEWER — un rôle inclut les droits des rôles inférieurs.
+ *
+ *   Partagé par lib/workspace.ts (Server Actions, Route Handlers) et par l'UI
+ *   (boutons masqués pour un VIEWER, gestion des membres réservée à l'OWNER).
+ *
+ * @example
+ *   const error = workspaceRoleError(workspace.role, 'EDITOR')
+ *   if (error) return { success: false, error }
+ */
+
+import type { WorkspaceRole } from '@/modules/workspaces/types'
+
+// ─── Constantes ───────────────────────────────────────────────────────────────
+
+/** Rang de chaque rôle (plus élevé = plus de droits) */
+const ROLE_RANK: Record<WorkspaceRole, number> = {
+  VIEWER: 0,
+  EDITOR: 1,
+  OWNER: 2,
+}
+
+/** Libellés affichés dans l'UI */
+export const ROLE_LABELS: Record<WorkspaceRole, string> = {
+  OWNER: 'Propriétaire',
+  EDITOR: 'Éditeur',
+  VIEWER: 'Lecteur',
+}
+
+/** Message d'erreur quand le rôle est insuffisant */
+const ROLE_ERRORS: Record<WorkspaceRole, string> = {
+  OWNER: 'Action réservée au propriétaire du workspace',
+  EDITOR: 'Accès en lecture seule : demande le rôle Éditeur au propriétaire du workspace',
+  VIEWER: 'Accès refusé',
+}
+
+// ─── Règles ───────────────────────────────────────────────────────────────────
+
+/**
+ * Le rôle atteint-il le niveau requis ?
+ *
+ * @param role     - Rôle du membre
+ * @param required - Rôle minimal
+ * @returns true si role ≥ required
+ *
+ * @example
+ *   hasWorkspaceRole('EDITOR', 'VIEWER') // → true
+ *   hasWorkspaceRole('VIEWER', 'EDITOR') // → false
+ */
+export function hasWorkspaceRole(role: WorkspaceRole, required: WorkspaceRole): boolean {
+  return ROLE_RANK[role] >= ROLE_RANK[required]
+}
+
+/**
+ * Message d'erreur si le rôle est insuffisant.
+ *
+ * @param role     - Rôle du membre
+ * @param required - Rôle minimal
+ * @returns Message, ou null si l'action est autorisée
+ */
+export function workspaceRoleError(role: WorkspaceRole, required: WorkspaceRole): string | null {
+  return hasWorkspaceRole(role, required) ? null : ROLE_ERRORS[required]
+}
+
+/**
+ * Raison pour laquelle le rôle d'un membre ne peut pas changer (ou le membre être retiré).
+ * Un workspace garde toujours au moins un propriétaire.
+ *
+ * @param current    - Rôle actuel du membre
+ * @param next       - Nouveau rôle (null = retrait du workspace)
+ * @param ownerCount - Nombre de propriétaires du workspace
+ * @returns Message d'erreur, ou null si le changement est autorisé
+ *
+ * @example
+ *   memberChangeError('OWNER', 'EDITOR', 1) // → 'Le workspace doit garder au moins un propriétaire'
+ */
+export function memberChangeError(
+  current: WorkspaceRole,
+  next: WorkspaceRole | null,
+  ownerCount: number,
+): string | null {
+  if (current === 'OWNER' && next !== 'OWNER' && ownerCount <= 1) {
+    return 'Le workspace doit garder au moins un propriétaire'
+  }
+  return null
+}
+
+/**
+ * Raison pour laquelle une invitation ne peut pas être acceptée.
+ *
+ * @param invitation - Invitation (null = token inconnu)
+ * @param email      - Email de l'utilisateur connecté
+ * @param now        - Date de référence
+ * @returns Message d'erreur, ou null si l'invitation est valide pour cet utilisateur
+ */
+export function invitationError(
+  invitation: { email: string; expiresAt: Date; acceptedAt: Date | null } | null,
+  email: string,
+  now: Date,
+): string | null {
+  if (!invitation) return 'Invitation introuvable'
+  if (invitation.acceptedAt) return 'Cette invitation a déjà été acceptée'
+  if (invitation.expiresAt <= now) return 'Cette invitation a expiré — demande une nouvelle invitation'
+  if (invitation.email.toLowerCase() !== email.toLowerCase()) {
+    return `Cette invitation est destinée à ${invitation.email} — connecte-toi avec cette adresse`
+  }
+  return null
+}
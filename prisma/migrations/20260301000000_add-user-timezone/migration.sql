@@ -0,0 +1,8 @@
+-- Migration : add-user-timezone
+-- Ajoute le fuseau horaire IANA de l'utilisateur (ex: "America/Montreal", "Africa/Dakar").
+-- Utilisé par les agents IA (create-posts, edit-post, filter-ai), le DateTimePicker
+-- et les bornes du calendrier (GET /api/posts?year=&month=).
+-- NULL = pas encore détecté → l'application retombe sur Europe/Paris.
+
+-- AlterTable
+ALTER TABLE "users" ADD COLUMN "timezone" TEXT;
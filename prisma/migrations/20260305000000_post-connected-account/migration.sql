@@ -0,0 +1,25 @@
+-- Migration : post-connected-account
+-- Les posts ciblent désormais un compte connecté explicite (posts.connectedPlatformId) :
+-- un utilisateur peut avoir plusieurs comptes d'une même plateforme (une marque par compte).
+-- Backfill : les posts non publiés sans compte reçoivent le compte actif de leur plateforme
+-- UNIQUEMENT s'il n'y en a qu'un. Les cas ambigus restent NULL — le compte devra être
+-- choisi dans le composer avant planification.
+
+-- Backfill
+UPDATE "posts" AS p
+SET "connectedPlatformId" = cp."id"
+FROM "connected_platforms" AS cp
+WHERE p."connectedPlatformId" IS NULL
+  AND p."status" <> 'PUBLISHED'
+  AND cp."userId" = p."userId"
+  AND cp."platform" = p."platform"
+  AND cp."isActive" = true
+  AND (
+    SELECT COUNT(*) FROM "connected_platforms" AS other
+    WHERE other."userId" = p."userId"
+      AND other."platform" = p."platform"
+      AND other."isActive" = true
+  ) = 1;
+
+-- CreateIndex
+CREATE INDEX "posts_connectedPlatformId_idx" ON "posts"("connectedPlatformId");
@@ -0,0 +1,38 @@
+-- Migration : add-post-groups
+-- Ajoute la table `post_groups` (campagnes) : les N posts par plateforme créés par
+-- une même instruction de l'agent (ou une même sauvegarde multi-plateformes)
+-- partagent un groupId. Actions groupées : replanifier, annuler, dupliquer, supprimer.
+-- Suppression d'un groupe → les posts restants redeviennent isolés (SET NULL).
+
+-- CreateTable
+CREATE TABLE "post_groups" (
+    "id"          TEXT NOT NULL,
+    "userId"      TEXT NOT NULL,
+    "instruction" TEXT,
+    "createdAt"   TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt"   TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "post_groups_pkey" PRIMARY KEY ("id")
+);
+
+-- AlterTable
+ALTER TABLE "posts" ADD COLUMN "groupId" TEXT;
+
+-- CreateIndex
+CREATE INDEX "post_groups_userId_idx" ON "post_groups"("userId");
+
+-- CreateIndex
+CREATE INDEX "posts_groupId_idx" ON "posts"("groupId");
+
+-- AddForeignKey : cascade → supprime les groupes si l'user est supprimé
+ALTER TABLE "post_groups" ADD CONSTRAINT "post_groups_userId_fkey"
+    FOREIGN KEY ("userId") REFERENCES "users"("id")
+    ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey : SET NULL → un post survit à la suppression de son groupe
+ALTER TABLE "posts" ADD CONSTRAINT "posts_groupId_fkey"
+    FOREIGN KEY ("groupId") REFERENCES "post_groups"("id")
+    ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- RLS activé sans politique (refus implicite) — accès via Prisma (service_role) uniquement
+ALTER TABLE public.post_groups ENABLE ROW LEVEL SECURITY;
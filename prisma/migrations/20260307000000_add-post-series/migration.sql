@@ -0,0 +1,40 @@
+-- Migration : add-post-series
+-- Ajoute la table `post_series` (publications récurrentes) : une règle de récurrence
+-- (quotidienne, hebdomadaire, mensuelle) portée par un post ou une campagne.
+-- Seule l'occurrence suivante est matérialisée en post SCHEDULED ; les occurrences
+-- ignorées sont listées dans skipDates sans interrompre la série.
+
+-- CreateTable
+CREATE TABLE "post_series" (
+    "id"        TEXT NOT NULL,
+    "userId"    TEXT NOT NULL,
+    "rule"      JSONB NOT NULL,
+    "skipDates" TEXT[] DEFAULT ARRAY[]::TEXT[],
+    "isActive"  BOOLEAN NOT NULL DEFAULT true,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "post_series_pkey" PRIMARY KEY ("id")
+);
+
+-- AlterTable
+ALTER TABLE "posts" ADD COLUMN "seriesId" TEXT;
+
+-- CreateIndex
+CREATE INDEX "post_series_userId_idx" ON "post_series"("userId");
+
+-- CreateIndex
+CREATE INDEX "posts_seriesId_idx" ON "posts"("seriesId");
+
+-- AddForeignKey : cascade → supprime les séries si l'user est supprimé
+ALTER TABLE "post_series" ADD CONSTRAINT "post_series_userId_fkey"
+    FOREIGN KEY ("userId") REFERENCES "users"("id")
+    ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey : SET NULL → les posts déjà publiés survivent à la suppression de la série
+ALTER TABLE "posts" ADD CONSTRAINT "posts_seriesId_fkey"
+    FOREIGN KEY ("seriesId") REFERENCES "post_series"("id")
+    ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- RLS activé sans politique (refus implicite) — accès via Prisma (service_role) uniquement
+ALTER TABLE public.post_series ENABLE ROW LEVEL SECURITY;
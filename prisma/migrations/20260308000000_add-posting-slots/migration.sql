@@ -0,0 +1,39 @@
+-- Migration : add-posting-slots
+-- Ajoute la table `posting_slots` (créneaux de publication par plateforme) et le
+-- drapeau posts.isQueued : un post ajouté à la file reçoit le prochain créneau libre,
+-- et la file est re-tassée quand un post en file est supprimé ou déplanifié.
+
+-- CreateTable
+CREATE TABLE "posting_slots" (
+    "id"        TEXT NOT NULL,
+    "userId"    TEXT NOT NULL,
+    "platform"  TEXT NOT NULL,
+    "weekday"   INTEGER NOT NULL,
+    "hour"      INTEGER NOT NULL,
+    "minute"    INTEGER NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "posting_slots_pkey" PRIMARY KEY ("id")
+);
+
+-- AlterTable
+ALTER TABLE "posts" ADD COLUMN "isQueued" BOOLEAN NOT NULL DEFAULT false;
+
+-- CreateIndex
+CREATE UNIQUE INDEX "posting_slots_userId_platform_weekday_hour_minute_key"
+    ON "posting_slots"("userId", "platform", "weekday", "hour", "minute");
+
+-- CreateIndex
+CREATE INDEX "posting_slots_userId_platform_idx" ON "posting_slots"("userId", "platform");
+
+-- CreateIndex
+CREATE INDEX "posts_userId_platform_isQueued_idx" ON "posts"("userId", "platform", "isQueued");
+
+-- AddForeignKey : cascade → supprime les créneaux si l'user est supprimé
+ALTER TABLE "posting_slots" ADD CONSTRAINT "posting_slots_userId_fkey"
+    FOREIGN KEY ("userId") REFERENCES "users"("id")
+    ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- RLS activé sans politique (refus implicite) — accès via Prisma (service_role) uniquement
+ALTER TABLE public.posting_slots ENABLE ROW LEVEL SECURITY;
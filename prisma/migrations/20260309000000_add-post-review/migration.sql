@@ -0,0 +1,46 @@
+-- Migration : add-post-review
+-- Ajoute le statut PENDING_REVIEW (validation avant planification), l'option
+-- users.requirePostApproval, posts.approvedAt et la table `post_status_events`
+-- (historique des transitions et de la revue : auteur + horodatage).
+
+-- AlterEnum
+ALTER TYPE "PostStatus" ADD VALUE 'PENDING_REVIEW' BEFORE 'SCHEDULED';
+
+-- CreateEnum
+CREATE TYPE "PostEventAction" AS ENUM ('STATUS_CHANGED', 'SUBMITTED', 'COMMENTED', 'APPROVED', 'REJECTED');
+
+-- AlterTable
+ALTER TABLE "users" ADD COLUMN "requirePostApproval" BOOLEAN NOT NULL DEFAULT false;
+
+-- AlterTable
+ALTER TABLE "posts" ADD COLUMN "approvedAt" TIMESTAMP(3);
+
+-- CreateTable
+CREATE TABLE "post_status_events" (
+    "id"         TEXT NOT NULL,
+    "postId"     TEXT NOT NULL,
+    "actorId"    TEXT,
+    "action"     "PostEventAction" NOT NULL,
+    "fromStatus" "PostStatus",
+    "toStatus"   "PostStatus",
+    "comment"    TEXT,
+    "createdAt"  TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "post_status_events_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "post_status_events_postId_createdAt_idx" ON "post_status_events"("postId", "createdAt");
+
+-- AddForeignKey : cascade → l'historique disparaît avec le post
+ALTER TABLE "post_status_events" ADD CONSTRAINT "post_status_events_postId_fkey"
+    FOREIGN KEY ("postId") REFERENCES "posts"("id")
+    ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey : l'auteur supprimé laisse l'évènement (actorId = null)
+ALTER TABLE "post_status_events" ADD CONSTRAINT "post_status_events_actorId_fkey"
+    FOREIGN KEY ("actorId") REFERENCES "users"("id")
+    ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- RLS activé sans politique (refus implicite) — accès via Prisma (service_role) uniquement
+ALTER TABLE public.post_status_events ENABLE ROW LEVEL SECURITY;
@@ -0,0 +1,158 @@
+-- Migration : add-workspaces
+-- Ajoute les espaces de travail d'équipe (workspaces, membres avec rôle,
+-- invitations par email) et re-scope les données métier au workspace.
+--
+-- Reprise des données : chaque utilisateur existant reçoit un workspace
+-- personnel (rôle OWNER) qui hérite de son workspace Late et de toutes ses
+-- données. `userId` reste sur les tables métier comme auteur.
+
+-- CreateEnum
+CREATE TYPE "WorkspaceRole" AS ENUM ('OWNER', 'EDITOR', 'VIEWER');
+
+-- CreateTable
+CREATE TABLE "workspaces" (
+    "id"              TEXT NOT NULL,
+    "name"            TEXT NOT NULL,
+    "lateWorkspaceId" TEXT,
+    "createdAt"       TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt"       TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "workspaces_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "workspace_members" (
+    "id"          TEXT NOT NULL,
+    "workspaceId" TEXT NOT NULL,
+    "userId"      TEXT NOT NULL,
+    "role"        "WorkspaceRole" NOT NULL DEFAULT 'EDITOR',
+    "createdAt"   TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "workspace_members_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "workspace_invitations" (
+    "id"          TEXT NOT NULL,
+    "workspaceId" TEXT NOT NULL,
+    "email"       TEXT NOT NULL,
+    "role"        "WorkspaceRole" NOT NULL DEFAULT 'EDITOR',
+    "token"       TEXT NOT NULL,
+    "invitedById" TEXT,
+    "expiresAt"   TIMESTAMP(3) NOT NULL,
+    "acceptedAt"  TIMESTAMP(3),
+    "createdAt"   TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "workspace_invitations_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "workspace_members_workspaceId_userId_key" ON "workspace_members"("workspaceId", "userId");
+CREATE INDEX "workspace_members_userId_idx" ON "workspace_members"("userId");
+CREATE UNIQUE INDEX "workspace_invitations_token_key" ON "workspace_invitations"("token");
+CREATE INDEX "workspace_invitations_workspaceId_idx" ON "workspace_invitations"("workspaceId");
+CREATE INDEX "workspace_invitations_email_idx" ON "workspace_invitations"("email");
+
+-- ─── Reprise : un workspace personnel par utilisateur ─────────────────────────
+-- L'ID du workspace personnel est dérivé de l'ID utilisateur (reprise déterministe)
+INSERT INTO "workspaces" ("id", "name", "lateWorkspaceId", "createdAt", "updatedAt")
+SELECT 'ws_' || "id", COALESCE(NULLIF("name", ''), split_part("email", '@', 1)), "lateWorkspaceId", "createdAt", CURRENT_TIMESTAMP
+FROM "users";
+
+INSERT INTO "workspace_members" ("id", "workspaceId", "userId", "role", "createdAt")
+SELECT 'wm_' || "id", 'ws_' || "id", "id", 'OWNER', "createdAt"
+FROM "users";
+
+-- AlterTable : workspace affiché + workspace Late déplacé sur le workspace
+ALTER TABLE "users" ADD COLUMN "activeWorkspaceId" TEXT;
+UPDATE "users" SET "activeWorkspaceId" = 'ws_' || "id";
+ALTER TABLE "users" DROP COLUMN "lateWorkspaceId";
+
+-- ─── Re-scope des données métier ──────────────────────────────────────────────
+ALTER TABLE "connected_platforms" ADD COLUMN "workspaceId" TEXT;
+ALTER TABLE "posts"               ADD COLUMN "workspaceId" TEXT;
+ALTER TABLE "post_groups"         ADD COLUMN "workspaceId" TEXT;
+ALTER TABLE "post_series"         ADD COLUMN "workspaceId" TEXT;
+ALTER TABLE "posting_slots"       ADD COLUMN "workspaceId" TEXT;
+ALTER TABLE "signatures"          ADD COLUMN "workspaceId" TEXT;
+ALTER TABLE "media"               ADD COLUMN "workspaceId" TEXT;
+
+UPDATE "connected_platforms" SET "workspaceId" = 'ws_' || "userId";
+UPDATE "posts"               SET "workspaceId" = 'ws_' || "userId";
+UPDATE "post_groups"         SET "workspaceId" = 'ws_' || "userId";
+UPDATE "post_series"         SET "workspaceId" = 'ws_' || "userId";
+UPDATE "posting_slots"       SET "workspaceId" = 'ws_' || "userId";
+UPDATE "signatures"          SET "workspaceId" = 'ws_' || "userId";
+UPDATE "media"               SET "workspaceId" = 'ws_' || "userId";
+
+ALTER TABLE "connected_platforms" ALTER COLUMN "workspaceId" SET NOT NULL;
+ALTER TABLE "posts"               ALTER COLUMN "workspaceId" SET NOT NULL;
+ALTER TABLE "post_groups"         ALTER COLUMN "workspaceId" SET NOT NULL;
+ALTER TABLE "post_series"         ALTER COLUMN "workspaceId" SET NOT NULL;
+ALTER TABLE "posting_slots"       ALTER COLUMN "workspaceId" SET NOT NULL;
+ALTER TABLE "signatures"          ALTER COLUMN "workspaceId" SET NOT NULL;
+ALTER TABLE "media"               ALTER COLUMN "workspaceId" SET NOT NULL;
+
+-- DropIndex : index par utilisateur remplacés par des index par workspace
+DROP INDEX "connected_platforms_userId_idx";
+DROP INDEX "connected_platforms_userId_platform_lateProfileId_key";
+DROP INDEX "posts_userId_status_idx";
+DROP INDEX "posts_userId_platform_isQueued_idx";
+DROP INDEX "post_groups_userId_idx";
+DROP INDEX "post_series_userId_idx";
+DROP INDEX "posting_slots_userId_platform_weekday_hour_minute_key";
+DROP INDEX "posting_slots_userId_platform_idx";
+DROP INDEX "signatures_userId_idx";
+DROP INDEX "signatures_userId_platform_idx";
+DROP INDEX "media_userId_idx";
+DROP INDEX "media_userId_createdAt_idx";
+
+-- CreateIndex
+CREATE INDEX "connected_platforms_workspaceId_idx" ON "connected_platforms"("workspaceId");
+CREATE UNIQUE INDEX "connected_platforms_workspaceId_platform_lateProfileId_key" ON "connected_platforms"("workspaceId", "platform", "lateProfileId");
+CREATE INDEX "posts_workspaceId_status_idx" ON "posts"("workspaceId", "status");
+CREATE INDEX "posts_workspaceId_platform_isQueued_idx" ON "posts"("workspaceId", "platform", "isQueued");
+CREATE INDEX "post_groups_workspaceId_idx" ON "post_groups"("workspaceId");
+CREATE INDEX "post_series_workspaceId_idx" ON "post_series"("workspaceId");
+CREATE UNIQUE INDEX "posting_slots_workspaceId_platform_weekday_hour_minute_key"
+    ON "posting_slots"("workspaceId", "platform", "weekday", "hour", "minute");
+CREATE INDEX "posting_slots_workspaceId_platform_idx" ON "posting_slots"("workspaceId", "platform");
+CREATE INDEX "signatures_workspaceId_idx" ON "signatures"("workspaceId");
+CREATE INDEX "signatures_workspaceId_platform_idx" ON "signatures"("workspaceId", "platform");
+CREATE INDEX "media_workspaceId_idx" ON "media"("workspaceId");
+CREATE INDEX "media_workspaceId_createdAt_idx" ON "media"("workspaceId", "createdAt" DESC);
+
+-- AddForeignKey : membres et invitations disparaissent avec le workspace
+ALTER TABLE "workspace_members" ADD CONSTRAINT "workspace_members_workspaceId_fkey"
+    FOREIGN KEY ("workspaceId") REFERENCES "workspaces"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+ALTER TABLE "workspace_members" ADD CONSTRAINT "workspace_members_userId_fkey"
+    FOREIGN KEY ("userId") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+ALTER TABLE "workspace_invitations" ADD CONSTRAINT "workspace_invitations_workspaceId_fkey"
+    FOREIGN KEY ("workspaceId") REFERENCES "workspaces"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+ALTER TABLE "workspace_invitations" ADD CONSTRAINT "workspace_invitations_invitedById_fkey"
+    FOREIGN KEY ("invitedById") REFERENCES "users"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey : workspace supprimé → plus de workspace affiché
+ALTER TABLE "users" ADD CONSTRAINT "users_activeWorkspaceId_fkey"
+    FOREIGN KEY ("activeWorkspaceId") REFERENCES "workspaces"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey : données métier supprimées avec leur workspace
+ALTER TABLE "connected_platforms" ADD CONSTRAINT "connected_platforms_workspaceId_fkey"
+    FOREIGN KEY ("workspaceId") REFERENCES "workspaces"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+ALTER TABLE "posts" ADD CONSTRAINT "posts_workspaceId_fkey"
+    FOREIGN KEY ("workspaceId") REFERENCES "workspaces"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+ALTER TABLE "post_groups" ADD CONSTRAINT "post_groups_workspaceId_fkey"
+    FOREIGN KEY ("workspaceId") REFERENCES "workspaces"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+ALTER TABLE "post_series" ADD CONSTRAINT "post_series_workspaceId_fkey"
+    FOREIGN KEY ("workspaceId") REFERENCES "workspaces"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+ALTER TABLE "posting_slots" ADD CONSTRAINT "posting_slots_workspaceId_fkey"
+    FOREIGN KEY ("workspaceId") REFERENCES "workspaces"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+ALTER TABLE "signatures" ADD CONSTRAINT "signatures_workspaceId_fkey"
+    FOREIGN KEY ("workspaceId") REFERENCES "workspaces"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+ALTER TABLE "media" ADD CONSTRAINT "media_workspaceId_fkey"
+    FOREIGN KEY ("workspaceId") REFERENCES "workspaces"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- RLS activé sans politique (refus implicite) — accès via Prisma (service_role) uniquement
+ALTER TABLE public.workspaces ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.workspace_members ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.workspace_invitations ENABLE ROW LEVEL SECURITY;
@@ -0,0 +1,44 @@
+-- Migration : add-audit-events
+-- Journal d'audit append-only `audit_events` : auteur (utilisateur ou job système),
+-- entité, action et diff avant / après de chaque mutation.
+-- Pas de clé étrangère : l'évènement survit à l'entité, à l'auteur et au workspace.
+
+-- CreateEnum
+CREATE TYPE "AuditActorType" AS ENUM ('USER', 'SYSTEM');
+CREATE TYPE "AuditEntityType" AS ENUM ('POST', 'POST_GROUP', 'CONNECTED_PLATFORM', 'MEDIA', 'SIGNATURE');
+CREATE TYPE "AuditAction" AS ENUM ('CREATED', 'UPDATED', 'STATUS_CHANGED', 'DELETED');
+
+-- CreateTable
+CREATE TABLE "audit_events" (
+    "id"          TEXT NOT NULL,
+    "workspaceId" TEXT NOT NULL,
+    "actorType"   "AuditActorType" NOT NULL,
+    "actorId"     TEXT,
+    "actorLabel"  TEXT,
+    "entityType"  "AuditEntityType" NOT NULL,
+    "entityId"    TEXT NOT NULL,
+    "entityLabel" TEXT,
+    "action"      "AuditAction" NOT NULL,
+    "changes"     JSONB,
+    "createdAt"   TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "audit_events_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "audit_events_workspaceId_createdAt_idx" ON "audit_events"("workspaceId", "createdAt");
+CREATE INDEX "audit_events_entityType_entityId_createdAt_idx" ON "audit_events"("entityType", "entityId", "createdAt");
+
+-- Append-only : toute modification ou suppression d'un évènement est refusée
+CREATE FUNCTION "audit_events_append_only"() RETURNS trigger AS $$
+BEGIN
+    RAISE EXCEPTION 'audit_events est en ajout seul (% refusé)', TG_OP;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER "audit_events_no_update_delete"
+    BEFORE UPDATE OR DELETE ON "audit_events"
+    FOR EACH ROW EXECUTE FUNCTION "audit_events_append_only"();
+
+-- RLS activé sans politique (refus implicite) — accès via Prisma (service_role) uniquement
+ALTER TABLE public.audit_events ENABLE ROW LEVEL SECURITY;
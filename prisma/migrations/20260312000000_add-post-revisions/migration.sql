@@ -0,0 +1,37 @@
+-- Migration : add-post-revisions
+-- Ajoute la table `post_revisions` : chaque version du contenu d'un post
+-- (texte + médias) avec son origine (édition manuelle, agent IA, restauration).
+
+-- CreateEnum
+CREATE TYPE "RevisionSource" AS ENUM ('MANUAL', 'AGENT', 'RESTORE');
+
+-- CreateTable
+CREATE TABLE "post_revisions" (
+    "id"             TEXT NOT NULL,
+    "postId"         TEXT NOT NULL,
+    "authorId"       TEXT,
+    "source"         "RevisionSource" NOT NULL,
+    "text"           TEXT NOT NULL,
+    "mediaUrls"      TEXT[],
+    "instruction"    TEXT,
+    "restoredFromId" TEXT,
+    "createdAt"      TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "post_revisions_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "post_revisions_postId_createdAt_idx" ON "post_revisions"("postId", "createdAt");
+
+-- AddForeignKey : cascade → les révisions disparaissent avec le post
+ALTER TABLE "post_revisions" ADD CONSTRAINT "post_revisions_postId_fkey"
+    FOREIGN KEY ("postId") REFERENCES "posts"("id")
+    ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey : l'auteur supprimé laisse la révision (authorId = null)
+ALTER TABLE "post_revisions" ADD CONSTRAINT "post_revisions_authorId_fkey"
+    FOREIGN KEY ("authorId") REFERENCES "users"("id")
+    ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- RLS activé sans politique (refus implicite) — accès via Prisma (service_role) uniquement
+ALTER TABLE public.post_revisions ENABLE ROW LEVEL SECURITY;
@@ -0,0 +1,64 @@
+-- Migration : add-agent-sessions
+-- Ajoute les conversations multi-tours avec l'agent IA : `agent_sessions`
+-- (une conversation par workspace / auteur), `agent_messages` (instructions et
+-- réponses avec l'appel de tool) et `posts.agentSessionId` (dernière conversation
+-- ayant créé ou modifié le post).
+
+-- CreateEnum
+CREATE TYPE "AgentMessageRole" AS ENUM ('USER', 'ASSISTANT');
+
+-- CreateTable
+CREATE TABLE "agent_sessions" (
+    "id"          TEXT NOT NULL,
+    "workspaceId" TEXT NOT NULL,
+    "userId"      TEXT NOT NULL,
+    "title"       TEXT NOT NULL,
+    "createdAt"   TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt"   TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "agent_sessions_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "agent_messages" (
+    "id"        TEXT NOT NULL,
+    "sessionId" TEXT NOT NULL,
+    "role"      "AgentMessageRole" NOT NULL,
+    "content"   TEXT NOT NULL,
+    "toolName"  TEXT,
+    "toolInput" JSONB,
+    "postIds"   TEXT[] DEFAULT ARRAY[]::TEXT[],
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "agent_messages_pkey" PRIMARY KEY ("id")
+);
+
+-- AlterTable
+ALTER TABLE "posts" ADD COLUMN "agentSessionId" TEXT;
+
+-- CreateIndex
+CREATE INDEX "agent_sessions_workspaceId_updatedAt_idx" ON "agent_sessions"("workspaceId", "updatedAt");
+CREATE INDEX "agent_messages_sessionId_createdAt_idx" ON "agent_messages"("sessionId", "createdAt");
+CREATE INDEX "posts_agentSessionId_idx" ON "posts"("agentSessionId");
+
+-- AddForeignKey : cascade → les conversations disparaissent avec le workspace / l'auteur
+ALTER TABLE "agent_sessions" ADD CONSTRAINT "agent_sessions_workspaceId_fkey"
+    FOREIGN KEY ("workspaceId") REFERENCES "workspaces"("id")
+    ON DELETE CASCADE ON UPDATE CASCADE;
+ALTER TABLE "agent_sessions" ADD CONSTRAINT "agent_sessions_userId_fkey"
+    FOREIGN KEY ("userId") REFERENCES "users"("id")
+    ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey : les messages disparaissent avec la conversation
+ALTER TABLE "agent_messages" ADD CONSTRAINT "agent_messages_sessionId_fkey"
+    FOREIGN KEY ("sessionId") REFERENCES "agent_sessions"("id")
+    ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey : la conversation supprimée laisse le post (agentSessionId = null)
+ALTER TABLE "posts" ADD CONSTRAINT "posts_agentSessionId_fkey"
+    FOREIGN KEY ("agentSessionId") REFERENCES "agent_sessions"("id")
+    ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- RLS activé sans politique (refus implicite) — accès via Prisma (service_role) uniquement
+ALTER TABLE public.agent_sessions ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.agent_messages ENABLE ROW LEVEL SECURITY;
@@ -0,0 +1,10 @@
+-- Migration : add-media-alt-text
+-- Ajoute le texte alternatif des médias : `media.altText` (galerie, valeur par
+-- défaut) et `posts.mediaAltTexts` (texte alternatif par média du post,
+-- { [url]: altText }), transmis à getlate.dev lors de la publication.
+
+-- AlterTable
+ALTER TABLE "media" ADD COLUMN "altText" TEXT;
+
+-- AlterTable
+ALTER TABLE "posts" ADD COLUMN "mediaAltTexts" JSONB NOT NULL DEFAULT '{}';
@@ -0,0 +1,7 @@
+-- Migration : add-post-thread-parts
+-- Ajoute `posts.threadParts` : suite d'un thread (X, Threads, Bluesky), liste
+-- ordonnée de segments [{ text, mediaUrls }] publiés après le premier
+-- (posts.text / posts.mediaUrls).
+
+-- AlterTable
+ALTER TABLE "posts" ADD COLUMN "threadParts" JSONB NOT NULL DEFAULT '[]';
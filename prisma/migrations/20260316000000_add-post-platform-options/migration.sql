@@ -0,0 +1,7 @@
+-- Migration : add-post-platform-options
+-- Ajoute `posts.platformOptions` : options de publication propres à la plateforme
+-- (titre et visibilité YouTube, tableau Pinterest, subreddit Reddit, confidentialité
+-- TikTok, premier commentaire Instagram), transmises à getlate.dev.
+
+-- AlterTable
+ALTER TABLE "posts" ADD COLUMN "platformOptions" JSONB NOT NULL DEFAULT '{}';
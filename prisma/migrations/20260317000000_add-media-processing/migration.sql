@@ -0,0 +1,43 @@
+-- Migration : add-media-processing
+-- Ajoute le traitement des médias après l'upload : caractéristiques sondées
+-- (`media.width`, `height`, `durationMs`, `codec`, `processingStatus`,
+-- `processingError`) et `media_variants` (vidéo déclinée par plateforme :
+-- 9:16 pour TikTok / Reels, taille plafonnée pour X), envoyée à getlate.dev
+-- à la place de l'original.
+
+-- CreateEnum
+CREATE TYPE "MediaProcessingStatus" AS ENUM ('PENDING', 'READY', 'FAILED');
+
+-- AlterTable
+ALTER TABLE "media" ADD COLUMN "width" INTEGER,
+ADD COLUMN "height" INTEGER,
+ADD COLUMN "durationMs" INTEGER,
+ADD COLUMN "codec" TEXT,
+ADD COLUMN "processingStatus" "MediaProcessingStatus" NOT NULL DEFAULT 'PENDING',
+ADD COLUMN "processingError" TEXT;
+
+-- CreateTable
+CREATE TABLE "media_variants" (
+    "id"        TEXT NOT NULL,
+    "mediaId"   TEXT NOT NULL,
+    "platform"  TEXT NOT NULL,
+    "url"       TEXT NOT NULL,
+    "mimeType"  TEXT NOT NULL,
+    "width"     INTEGER NOT NULL,
+    "height"    INTEGER NOT NULL,
+    "size"      INTEGER NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "media_variants_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "media_variants_mediaId_platform_key" ON "media_variants"("mediaId", "platform");
+
+-- AddForeignKey : les variantes disparaissent avec le média d'origine
+ALTER TABLE "media_variants" ADD CONSTRAINT "media_variants_mediaId_fkey"
+    FOREIGN KEY ("mediaId") REFERENCES "media"("id")
+    ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- RLS activé sans politique (refus implicite) — accès via Prisma (service_role) uniquement
+ALTER TABLE public.media_variants ENABLE ROW LEVEL SECURITY;
@@ -0,0 +1,39 @@
+-- Migration : add-media-organization
+-- Classement de la galerie : dossiers par workspace (`media_folders`),
+-- `media.folderId` (dossier, null = hors dossier) et `media.tags` (tags en minuscules).
+-- Les dossiers sont tracés dans le journal d'audit (AuditEntityType MEDIA_FOLDER).
+
+-- AlterEnum
+ALTER TYPE "AuditEntityType" ADD VALUE 'MEDIA_FOLDER' AFTER 'MEDIA';
+
+-- CreateTable
+CREATE TABLE "media_folders" (
+    "id"          TEXT NOT NULL,
+    "workspaceId" TEXT NOT NULL,
+    "name"        TEXT NOT NULL,
+    "createdAt"   TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "media_folders_pkey" PRIMARY KEY ("id")
+);
+
+-- AlterTable
+ALTER TABLE "media" ADD COLUMN "folderId" TEXT,
+ADD COLUMN "tags" TEXT[] DEFAULT ARRAY[]::TEXT[];
+
+-- CreateIndex
+CREATE UNIQUE INDEX "media_folders_workspaceId_name_key" ON "media_folders"("workspaceId", "name");
+CREATE INDEX "media_workspaceId_folderId_idx" ON "media"("workspaceId", "folderId");
+CREATE INDEX "media_tags_idx" ON "media" USING GIN ("tags");
+
+-- AddForeignKey
+ALTER TABLE "media_folders" ADD CONSTRAINT "media_folders_workspaceId_fkey"
+    FOREIGN KEY ("workspaceId") REFERENCES "workspaces"("id")
+    ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey : supprimer un dossier laisse ses médias dans la galerie, hors dossier
+ALTER TABLE "media" ADD CONSTRAINT "media_folderId_fkey"
+    FOREIGN KEY ("folderId") REFERENCES "media_folders"("id")
+    ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- RLS activé sans politique (refus implicite) — accès via Prisma (service_role) uniquement
+ALTER TABLE public.media_folders ENABLE ROW LEVEL SECURITY;
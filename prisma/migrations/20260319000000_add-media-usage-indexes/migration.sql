@@ -0,0 +1,10 @@
+-- Migration : add-media-usage-indexes
+-- Graphe de références média ↔ post (lib/media-usage.ts), calculé depuis les URLs
+-- des posts : index GIN sur `posts.mediaUrls`, `posts.threadParts` (jsonb_path_ops,
+-- requêtes @>) et `post_revisions.mediaUrls`, index sur `media.url`.
+
+-- CreateIndex
+CREATE INDEX "posts_mediaUrls_idx" ON "posts" USING GIN ("mediaUrls");
+CREATE INDEX "posts_threadParts_idx" ON "posts" USING GIN ("threadParts" jsonb_path_ops);
+CREATE INDEX "post_revisions_mediaUrls_idx" ON "post_revisions" USING GIN ("mediaUrls");
+CREATE INDEX "media_url_idx" ON "media"("url");
@@ -0,0 +1,6 @@
+-- Migration : add-user-storage-quota
+-- Quota de stockage par utilisateur (`users.storageQuotaMb`, en Mo), vérifié à
+-- l'émission des URLs d'upload. null = quota par défaut (STORAGE_QUOTA_MB).
+
+-- AlterTable
+ALTER TABLE "users" ADD COLUMN "storageQuotaMb" INTEGER;
@@ -0,0 +1,11 @@
+-- Migration : add-media-hashes
+-- Empreintes des médias calculées à l'import : SHA-256 du fichier (copies exactes)
+-- et dHash des images (copies retouchées ou recompressées). Les médias existants
+-- n'ont pas d'empreinte et ne sont pas comparés.
+
+-- AlterTable
+ALTER TABLE "media" ADD COLUMN "contentHash" TEXT,
+ADD COLUMN "perceptualHash" TEXT;
+
+-- CreateIndex
+CREATE INDEX "media_workspaceId_contentHash_idx" ON "media"("workspaceId", "contentHash");
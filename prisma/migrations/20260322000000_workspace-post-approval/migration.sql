@@ -0,0 +1,24 @@
+-- Migration : workspace-post-approval
+-- La validation avant planification devient un paramètre du workspace (et non
+-- plus de chaque membre) : un éditeur ne peut plus la désactiver pour lui-même.
+--
+-- Reprise des données : un workspace exige la validation si l'un de ses
+-- propriétaires l'avait activée.
+
+-- AlterTable
+ALTER TABLE "workspaces" ADD COLUMN "requirePostApproval" BOOLEAN NOT NULL DEFAULT false;
+
+-- Reprise
+UPDATE "workspaces" w
+SET "requirePostApproval" = true
+WHERE EXISTS (
+    SELECT 1
+    FROM "workspace_members" m
+    JOIN "users" u ON u."id" = m."userId"
+    WHERE m."workspaceId" = w."id"
+      AND m."role" = 'OWNER'
+      AND u."requirePostApproval" = true
+);
+
+-- AlterTable
+ALTER TABLE "users" DROP COLUMN "requirePostApproval";
@@ -0,0 +1,22 @@
+-- Migration : workspace-queue-timezone
+-- Les créneaux de la file de publication sont lus dans le fuseau du workspace,
+-- et non plus dans celui du membre qui ajoute ou retire un post de la file.
+--
+-- Reprise des données : fuseau du premier propriétaire du workspace (null si
+-- aucun n'est encore détecté → Europe/Paris).
+
+-- AlterTable
+ALTER TABLE "workspaces" ADD COLUMN "timezone" TEXT;
+
+-- Reprise
+UPDATE "workspaces" w
+SET "timezone" = (
+    SELECT u."timezone"
+    FROM "workspace_members" m
+    JOIN "users" u ON u."id" = m."userId"
+    WHERE m."workspaceId" = w."id"
+      AND m."role" = 'OWNER'
+      AND u."timezone" IS NOT NULL
+    ORDER BY m."createdAt" ASC
+    LIMIT 1
+);
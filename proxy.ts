@@ -20,7 +20,8 @@ import type { Session } from '@/lib/auth'
 
 // ─── Routes publiques (pas de vérification de session) ────────────────────────
 // '/' = landing page publique (app/page.tsx) — accessible à tous
-const PUBLIC_PATHS = ['/', '/login', '/register', '/reset-password']
+// '/unsubscribe' = confirmation de désinscription ouverte depuis un email (jeton signé)
+const PUBLIC_PATHS = ['/', '/login', '/register', '/reset-password', '/unsubscribe']
 
 /**
  * Proxy de protection des routes (Next.js 16 — remplace middleware).
@@ -0,0 +1,63 @@
+/**
+ * @file tests/integration/modules/media/alt-text.test.ts
+ * @description Test d'intégration de POST /api/gallery/alt-text avec le fournisseur
+ *   LLM de fixtures (LLM_PROVIDER=fixture, tests/fixtures/llm) : aucun appel réseau.
+ *   Session et rate limiting sont simulés.
+ *
+ *   Environnement node : les SDK Anthropic / OpenAI refusent de s'instancier sous jsdom.
+ * @vitest-environment node
+ */
+
+import { NextRequest } from 'next/server'
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+
+import { POST } from '@/app/api/gallery/alt-text/route'
+
+vi.mock('next/headers', () => ({ headers: async () => new Headers() }))
+vi.mock('@/lib/auth', () => ({
+  auth: { api: { getSession: async () => ({ user: { id: 'user_1' } }) } },
+}))
+vi.mock('@/lib/rate-limit', () => ({
+  rateLimiters: { ai: async () => ({ success: true, reset: 0 }) },
+  rateLimitResponse: vi.fn(),
+}))
+
+// ─── Helpers ──────────────────────────────────────────────────────────────────
+
+/** Appelle la route pour une image (et le texte du post éventuel) */
+async function suggest(body: { url: string; context?: string }): Promise<Response> {
+  return POST(new NextRequest('http://localhost/api/gallery/alt-text', {
+    method: 'POST',
+    body: JSON.stringify(body),
+  }))
+}
+
+beforeEach(() => {
+  vi.stubEnv('LLM_PROVIDER', 'fixture')
+})
+
+afterEach(() => {
+  vi.unstubAllEnvs()
+})
+
+// ─── POST /api/gallery/alt-text ───────────────────────────────────────────────
+
+describe('POST /api/gallery/alt-text', () => {
+  it('retourne la description du tool describe_image', async () => {
+    const res = await suggest({ url: 'https://cdn.example.com/vitrine.jpg' })
+
+    expect(res.status).toBe(200)
+    expect(await res.json()).toEqual({ altText: 'Vitrine de la boutique éclairée au coucher du soleil' })
+  })
+
+  it('transmet le texte du post au modèle', async () => {
+    const res = await suggest({ url: 'https://cdn.example.com/flacon.jpg', context: 'Lancement du parfum' })
+
+    expect((await res.json() as { altText: string }).altText).toContain('Nouvelle collection')
+  })
+
+  it('refuse une vidéo ou une URL non HTTPS', async () => {
+    expect((await suggest({ url: 'https://cdn.example.com/clip.mp4' })).status).toBe(400)
+    expect((await suggest({ url: 'http://cdn.example.com/photo.jpg' })).status).toBe(400)
+  })
+})
@@ -0,0 +1,110 @@
+/**
+ * @file tests/integration/modules/media/image-hash.test.ts
+ * @description Test d'intégration du dHash : une même image obtient la même empreinte
+ *   avant l'import (POST /api/gallery/image-hash) et une fois stockée
+ *   (hashStoredMedia), les deux passant par perceptualHashOfImage.
+ *
+ *   ffmpeg est simulé : la « réduction » lit le fichier d'entrée et en tire une
+ *   image 9×8 déterministe. Session, rate limiting, Prisma et Storage sont simulés.
+ * @vitest-environment node
+ */
+
+import { NextRequest } from 'next/server'
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+
+import { POST } from '@/app/api/gallery/image-hash/route'
+import { hashStoredMedia } from '@/lib/media-processing'
+
+const ffmpegCalls = vi.hoisted((): string[][] => [])
+const mediaUpdate = vi.hoisted(() => vi.fn())
+
+vi.mock('node:child_process', async () => {
+  const { readFile } = await import('node:fs/promises')
+  return {
+    execFile: (
+      _bin: string,
+      args: string[],
+      _options: unknown,
+      callback: (err: Error | null, result?: { stdout: Buffer }) => void,
+    ) => {
+      ffmpegCalls.push(args)
+      readFile(args[args.indexOf('-i') + 1]).then((bytes) => {
+        // Image 9×8 en niveaux de gris tirée des octets du fichier
+        const rgba = Buffer.alloc(9 * 8 * 4)
+        for (let i = 0; i < 9 * 8; i++) {
+          rgba.fill(bytes[i % bytes.length], i * 4, i * 4 + 3)
+          rgba[i * 4 + 3] = 255
+        }
+        callback(null, { stdout: rgba })
+      }, callback)
+    },
+  }
+})
+vi.mock('next/headers', () => ({ headers: async () => new Headers() }))
+vi.mock('@/lib/auth', () => ({
+  auth: { api: { getSession: async () => ({ user: { id: 'user_1' } }) } },
+}))
+vi.mock('@/lib/rate-limit', () => ({
+  rateLimiters: { upload: async () => ({ success: true, reset: 0 }) },
+  rateLimitResponse: vi.fn(),
+}))
+vi.mock('@/lib/prisma', () => ({
+  prisma: {
+    media: {
+      findUnique: async () => ({ id: 'media_1', url: 'https://cdn.example.com/vitrine.jpg', mimeType: 'image/jpeg' }),
+      update: mediaUpdate,
+    },
+  },
+}))
+vi.mock('@/lib/supabase/server', () => ({ createServiceClient: vi.fn() }))
+
+// ─── Helpers ──────────────────────────────────────────────────────────────────
+
+/** Contenu d'une image (octets variés : l'empreinte n'est pas triviale) */
+const IMAGE = new Uint8Array(Array.from({ length: 2048 }, (_, i) => (i * 97 + (i >> 3) * 31) % 256))
+
+/** Envoie une image à la route avant son import */
+async function hashBeforeImport(bytes: Uint8Array<ArrayBuffer>, contentType = 'image/jpeg'): Promise<Response> {
+  return POST(new NextRequest('http://localhost/api/gallery/image-hash', {
+    method: 'POST',
+    headers: { 'content-type': contentType },
+    body: bytes,
+  }))
+}
+
+beforeEach(() => {
+  ffmpegCalls.length = 0
+  mediaUpdate.mockReset()
+  vi.stubGlobal('fetch', async () => new Response(IMAGE))
+})
+
+afterEach(() => {
+  vi.unstubAllGlobals()
+})
+
+// ─── Empreinte avant import / après stockage ──────────────────────────────────
+
+describe('dHash d\'une image', () => {
+  it('est identique avant l\'import et une fois l\'image stockée', async () => {
+    const res = await hashBeforeImport(IMAGE)
+    const { perceptualHash } = await res.json() as { perceptualHash: string | null }
+    const stored = await hashStoredMedia('media_1')
+
+    expect(res.status).toBe(200)
+    expect(perceptualHash).toMatch(/^[0-9a-f]{16}$/)
+    expect(stored?.perceptualHash).toBe(perceptualHash)
+    expect(mediaUpdate).toHaveBeenCalledWith(expect.objectContaining({
+      data: expect.objectContaining({ perceptualHash }),
+    }))
+
+    // Même réduction ffmpeg des deux côtés, seul le fichier temporaire change
+    const [beforeImport, afterStorage] = ffmpegCalls
+    const withoutInput = (args: string[]): string[] => args.filter((_, i) => args[i - 1] !== '-i')
+    expect(withoutInput(beforeImport)).toEqual(withoutInput(afterStorage))
+  })
+
+  it('refuse un fichier qui n\'est pas une image', async () => {
+    expect((await hashBeforeImport(IMAGE, 'video/mp4')).status).toBe(400)
+    expect(ffmpegCalls).toHaveLength(0)
+  })
+})
@@ -0,0 +1,155 @@
+/**
+ * @file tests/integration/modules/posts/create-posts.test.ts
+ * @description Test d'intégration de POST /api/agent/create-posts avec le fournisseur
+ *   LLM de fixtures (LLM_PROVIDER=fixture, tests/fixtures/llm) : aucun appel réseau.
+ *   Session, rate limiting, workspace, conversation et base de données sont simulés ;
+ *   le flux SSE (aperçus `draft`, puis `done`), la relance sur les règles des
+ *   plateformes et l'annulation par le client passent par le code réel.
+ *
+ *   Environnement node : les SDK Anthropic / OpenAI refusent de s'instancier sous jsdom.
+ * @vitest-environment node
+ */
+
+import { NextRequest } from 'next/server'
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+
+import { POST } from '@/app/api/agent/create-posts/route'
+import { fixtureProvider } from '@/lib/llm/fixture'
+import { parseSseEvents } from '@/modules/posts/utils/agent-stream'
+import type { AgentStreamEvent } from '@/modules/posts/utils/agent-stream'
+
+const db = vi.hoisted(() => ({
+  connectedPlatform: { findMany: vi.fn() },
+  postGroup: { create: vi.fn() },
+  post: { findMany: vi.fn() },
+}))
+
+vi.mock('next/headers', () => ({ headers: async () => new Headers() }))
+vi.mock('next/cache', () => ({ revalidatePath: vi.fn() }))
+vi.mock('@/lib/auth', () => ({
+  auth: { api: { getSession: async () => ({ user: { id: 'user_1' } }) } },
+}))
+vi.mock('@/lib/rate-limit', () => ({
+  rateLimiters: { ai: async () => ({ success: true, reset: 0 }) },
+  rateLimitResponse: vi.fn(),
+}))
+vi.mock('@/lib/user-timezone', () => ({ getUserTimezone: async () => 'Europe/Paris' }))
+vi.mock('@/lib/workspace', () => ({
+  getWorkspaceContext: async () => ({ id: 'ws_1', name: 'Boutique', role: 'OWNER', lateWorkspaceId: null }),
+}))
+vi.mock('@/lib/post-review', () => ({ isApprovalRequired: async () => false, recordPostEvents: vi.fn() }))
+vi.mock('@/lib/audit', async (importOriginal) => ({
+  ...await importOriginal<typeof import('@/lib/audit')>(),
+  recordAuditEvents: vi.fn(),
+}))
+vi.mock('@/lib/agent-sessions', async (importOriginal) => ({
+  ...await importOriginal<typeof import('@/lib/agent-sessions')>(),
+  createAgentSession: async () => 'session_1',
+  recordAgentTurn: vi.fn(),
+}))
+vi.mock('@/lib/prisma', () => ({ prisma: db }))
+
+// ─── Helpers ──────────────────────────────────────────────────────────────────
+
+/** Post créé, tel que renvoyé dans l'évènement `done` */
+interface CreatedPost {
+  id: string
+  platform: string
+  text: string
+  status: string
+}
+
+/** Appelle la route avec une instruction (signal : déconnexion du client) */
+async function createPosts(instruction: string, signal?: AbortSignal): Promise<Response> {
+  return POST(new NextRequest('http://localhost/api/agent/create-posts', {
+    method: 'POST',
+    body: JSON.stringify({ instruction }),
+    signal,
+  }))
+}
+
+/** Lit le flux SSE jusqu'à sa fermeture */
+async function readEvents(res: Response): Promise<AgentStreamEvent[]> {
+  return parseSseEvents(await res.text()).events
+}
+
+beforeEach(() => {
+  vi.stubEnv('LLM_PROVIDER', 'fixture')
+
+  db.connectedPlatform.findMany.mockResolvedValue([
+    { id: 'cp_linkedin', platform: 'linkedin', accountName: 'Boutique' },
+    { id: 'cp_twitter', platform: 'twitter', accountName: 'boutique' },
+    { id: 'cp_instagram', platform: 'instagram', accountName: 'boutique' },
+  ])
+  db.postGroup.create.mockResolvedValue({ id: 'group_1' })
+  // Posts relus : ceux créés avec la campagne
+  db.post.findMany.mockImplementation(async () => {
+    const { data } = db.postGroup.create.mock.calls[0][0].data.posts.createMany
+    return data.map((post: object, i: number) => ({ id: `post_${i + 1}`, groupId: 'group_1', ...post }))
+  })
+})
+
+afterEach(() => {
+  vi.unstubAllEnvs()
+  vi.restoreAllMocks()
+  vi.clearAllMocks()
+})
+
+// ─── POST /api/agent/create-posts ─────────────────────────────────────────────
+
+describe('POST /api/agent/create-posts', () => {
+  it('diffuse les aperçus puis les posts créés, un par plateforme', async () => {
+    const res = await createPosts('Annonce la collection sur LinkedIn et X')
+
+    expect(res.status).toBe(200)
+    expect(res.headers.get('Content-Type')).toContain('text/event-stream')
+
+    const events = await readEvents(res)
+    expect(events.map((e) => e.event)).toEqual(['draft', 'done'])
+    expect(events[0].data).toMatchObject({
+      drafts: [{ platform: 'linkedin' }, { platform: 'twitter' }],
+    })
+
+    const done = events[1].data as { posts: CreatedPost[]; sessionId: string }
+    expect(done.sessionId).toBe('session_1')
+    expect(done.posts.map((p) => [p.platform, p.status])).toEqual([
+      ['linkedin', 'DRAFT'],
+      ['twitter', 'DRAFT'],
+    ])
+  })
+
+  it('relance le modèle quand un post dépasse les limites de la plateforme', async () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {})
+    const callTool = vi.spyOn(fixtureProvider, 'callTool')
+
+    const events = await readEvents(await createPosts('Un tweet détaillé sur la collection'))
+
+    expect(callTool).toHaveBeenCalledTimes(2)
+    const done = events.find((e) => e.event === 'done')?.data as { posts: CreatedPost[]; warnings: string[] }
+    // Réponse corrigée par le modèle : aucune troncature mécanique
+    expect(done.posts).toHaveLength(1)
+    expect(done.posts[0].text.length).toBeLessThanOrEqual(280)
+    expect(done.warnings).toEqual([])
+  })
+
+  it('n’écrit rien en DB si le client se déconnecte pendant la génération', async () => {
+    vi.spyOn(console, 'info').mockImplementation(() => {})
+    const controller = new AbortController()
+    const callTool = fixtureProvider.callTool
+    vi.spyOn(fixtureProvider, 'callTool').mockImplementationOnce(async (request) => {
+      const result = await callTool(request)
+      controller.abort()
+      return result
+    })
+
+    const events = await readEvents(await createPosts('Annonce la collection sur LinkedIn et X', controller.signal))
+
+    // Aperçu émis avant la déconnexion, ni `done` ni `error` ensuite
+    expect(events.map((e) => e.event)).toEqual(['draft'])
+    expect(db.postGroup.create).not.toHaveBeenCalled()
+  })
+
+  it('refuse une instruction vide', async () => {
+    expect((await createPosts('')).status).toBe(400)
+  })
+})
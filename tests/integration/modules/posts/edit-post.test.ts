@@ -0,0 +1,156 @@
+/**
+ * @file tests/integration/modules/posts/edit-post.test.ts
+ * @description Test d'intégration de POST /api/agent/edit-post avec le fournisseur
+ *   LLM de fixtures (LLM_PROVIDER=fixture, tests/fixtures/llm) : aucun appel réseau.
+ *   Session, rate limiting, workspace, conversation, base de données et mise à jour
+ *   du post (applyAgentPostEdit) sont simulés ; le flux SSE, la relance sur les
+ *   règles de la plateforme et l'annulation par le client passent par le code réel.
+ *
+ *   Environnement node : les SDK Anthropic / OpenAI refusent de s'instancier sous jsdom.
+ * @vitest-environment node
+ */
+
+import { NextRequest } from 'next/server'
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+
+import { POST } from '@/app/api/agent/edit-post/route'
+import { applyAgentPostEdit } from '@/lib/agent-post-edit'
+import type { AgentPostEditInput } from '@/lib/agent-post-edit'
+import { fixtureProvider } from '@/lib/llm/fixture'
+import { parseSseEvents } from '@/modules/posts/utils/agent-stream'
+import type { AgentStreamEvent } from '@/modules/posts/utils/agent-stream'
+
+const db = vi.hoisted(() => ({
+  post: { findFirst: vi.fn() },
+  agentSession: { delete: vi.fn() },
+}))
+
+vi.mock('next/headers', () => ({ headers: async () => new Headers() }))
+vi.mock('next/cache', () => ({ revalidatePath: vi.fn() }))
+vi.mock('@/lib/auth', () => ({
+  auth: { api: { getSession: async () => ({ user: { id: 'user_1' } }) } },
+}))
+vi.mock('@/lib/rate-limit', () => ({
+  rateLimiters: { ai: async () => ({ success: true, reset: 0 }) },
+  rateLimitResponse: vi.fn(),
+}))
+vi.mock('@/lib/user-timezone', () => ({ getUserTimezone: async () => 'Europe/Paris' }))
+vi.mock('@/lib/workspace', () => ({
+  getWorkspaceContext: async () => ({ id: 'ws_1', name: 'Boutique', role: 'OWNER', lateWorkspaceId: null }),
+}))
+vi.mock('@/lib/agent-sessions', async (importOriginal) => ({
+  ...await importOriginal<typeof import('@/lib/agent-sessions')>(),
+  createAgentSession: async () => 'session_1',
+  recordAgentTurn: vi.fn(),
+}))
+vi.mock('@/lib/agent-post-edit', async (importOriginal) => ({
+  ...await importOriginal<typeof import('@/lib/agent-post-edit')>(),
+  // Post mis à jour avec le résultat du tool
+  applyAgentPostEdit: vi.fn(async ({ post, output }: AgentPostEditInput) => ({
+    ok: true,
+    post: { ...post, text: output.text, mediaUrls: output.mediaUrls },
+    warnings: [],
+  })),
+}))
+vi.mock('@/lib/prisma', () => ({ prisma: db }))
+
+// ─── Helpers ──────────────────────────────────────────────────────────────────
+
+/** Post modifié, tel que renvoyé dans l'évènement `done` */
+interface EditedPost {
+  id: string
+  text: string
+}
+
+/** Appelle la route pour le post de test (signal : déconnexion du client) */
+async function editPost(instruction: string, signal?: AbortSignal): Promise<Response> {
+  return POST(new NextRequest('http://localhost/api/agent/edit-post', {
+    method: 'POST',
+    body: JSON.stringify({ postId: 'post_1', instruction }),
+    signal,
+  }))
+}
+
+/** Lit le flux SSE jusqu'à sa fermeture */
+async function readEvents(res: Response): Promise<AgentStreamEvent[]> {
+  return parseSseEvents(await res.text()).events
+}
+
+beforeEach(() => {
+  vi.stubEnv('LLM_PROVIDER', 'fixture')
+
+  db.post.findFirst.mockResolvedValue({
+    id: 'post_1',
+    platform: 'twitter',
+    connectedPlatformId: 'cp_twitter',
+    text: 'Nouvelle collection lundi',
+    mediaUrls: [],
+    mediaAltTexts: {},
+    threadParts: [],
+    platformOptions: {},
+    scheduledFor: null,
+    status: 'DRAFT',
+    groupId: null,
+    agentSessionId: null,
+    updatedAt: new Date('2026-03-01T10:00:00Z'),
+  })
+})
+
+afterEach(() => {
+  vi.unstubAllEnvs()
+  vi.restoreAllMocks()
+  vi.clearAllMocks()
+})
+
+// ─── POST /api/agent/edit-post ────────────────────────────────────────────────
+
+describe('POST /api/agent/edit-post', () => {
+  it('diffuse l’aperçu puis le post réécrit', async () => {
+    const res = await editPost('Réécris le texte')
+
+    expect(res.status).toBe(200)
+    expect(res.headers.get('Content-Type')).toContain('text/event-stream')
+
+    const events = await readEvents(res)
+    expect(events.map((e) => e.event)).toEqual(['draft', 'done'])
+    expect(events[0].data).toMatchObject({ drafts: [{ platform: 'twitter' }] })
+    expect(events[1].data).toMatchObject({
+      post: { id: 'post_1', text: 'Texte réécrit par le fournisseur de fixtures.' },
+      sessionId: 'session_1',
+    })
+  })
+
+  it('relance le modèle quand le texte dépasse la limite de la plateforme', async () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {})
+    const callTool = vi.spyOn(fixtureProvider, 'callTool')
+
+    const events = await readEvents(await editPost('Développe le texte'))
+
+    expect(callTool).toHaveBeenCalledTimes(2)
+    const { post } = events.find((e) => e.event === 'done')?.data as { post: EditedPost }
+    expect(post.text.length).toBeLessThanOrEqual(280)
+  })
+
+  it('ne modifie pas le post si le client se déconnecte pendant la génération', async () => {
+    vi.spyOn(console, 'info').mockImplementation(() => {})
+    const controller = new AbortController()
+    const callTool = fixtureProvider.callTool
+    vi.spyOn(fixtureProvider, 'callTool').mockImplementationOnce(async (request) => {
+      const result = await callTool(request)
+      controller.abort()
+      return result
+    })
+
+    const events = await readEvents(await editPost('Réécris le texte', controller.signal))
+
+    // Aperçu émis avant la déconnexion, ni `done` ni `error` ensuite
+    expect(events.map((e) => e.event)).toEqual(['draft'])
+    expect(applyAgentPostEdit).not.toHaveBeenCalled()
+  })
+
+  it('refuse un post hors du workspace', async () => {
+    db.post.findFirst.mockResolvedValue(null)
+
+    expect((await editPost('Réécris le texte')).status).toBe(404)
+  })
+})
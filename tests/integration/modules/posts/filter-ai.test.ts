@@ -0,0 +1,74 @@
+/**
+ * @file tests/integration/modules/posts/filter-ai.test.ts
+ * @description Test d'intégration de POST /api/posts/filter-ai avec le fournisseur
+ *   LLM de fixtures (LLM_PROVIDER=fixture, tests/fixtures/llm) : aucun appel réseau.
+ *   Session, rate limiting et fuseau de l'utilisateur sont simulés.
+ *
+ *   Environnement node : les SDK Anthropic / OpenAI refusent de s'instancier sous jsdom.
+ * @vitest-environment node
+ */
+
+import { NextRequest } from 'next/server'
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+
+import { POST } from '@/app/api/posts/filter-ai/route'
+
+vi.mock('next/headers', () => ({ headers: async () => new Headers() }))
+vi.mock('@/lib/auth', () => ({
+  auth: { api: { getSession: async () => ({ user: { id: 'user_1' } }) } },
+}))
+vi.mock('@/lib/rate-limit', () => ({
+  rateLimiters: { filter: async () => ({ success: true, reset: 0 }) },
+  rateLimitResponse: vi.fn(),
+}))
+vi.mock('@/lib/user-timezone', () => ({ getUserTimezone: async () => 'Europe/Paris' }))
+
+// ─── Helpers ──────────────────────────────────────────────────────────────────
+
+/** Appelle la route avec une requête en langage naturel */
+async function filter(query: string): Promise<Response> {
+  return POST(new NextRequest('http://localhost/api/posts/filter-ai', {
+    method: 'POST',
+    body: JSON.stringify({ query }),
+  }))
+}
+
+beforeEach(() => {
+  vi.stubEnv('LLM_PROVIDER', 'fixture')
+})
+
+afterEach(() => {
+  vi.unstubAllEnvs()
+})
+
+// ─── POST /api/posts/filter-ai ────────────────────────────────────────────────
+
+describe('POST /api/posts/filter-ai', () => {
+  it('normalise les filtres du tool et borne les dates seules au jour local', async () => {
+    const res = await filter('mes brouillons TikTok de la semaine prochaine')
+
+    expect(res.status).toBe(200)
+    expect(await res.json()).toEqual({
+      statuses: ['DRAFT'],
+      platforms: ['tiktok'],
+      // Europe/Paris en mars (UTC+1) : 00:00 et 23:59:59.999 heure locale
+      dateRange: { from: '2026-03-01T23:00:00.000Z', to: '2026-03-08T22:59:59.999Z' },
+      queryText: 'mes brouillons TikTok de la semaine prochaine',
+    })
+  })
+
+  it('extrait les mots-clés sans filtre de date', async () => {
+    const res = await filter('posts sur le lancement produit')
+
+    expect(await res.json()).toMatchObject({
+      statuses: [],
+      platforms: [],
+      dateRange: null,
+      search: 'lancement produit',
+    })
+  })
+
+  it('refuse une requête vide', async () => {
+    expect((await filter('')).status).toBe(400)
+  })
+})
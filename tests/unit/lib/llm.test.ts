@@ -0,0 +1,112 @@
+/**
+ * @file tests/unit/lib/llm.test.ts
+ * @description Tests unitaires de la couche fournisseur LLM (lib/llm).
+ *   Vérifie la sélection du fournisseur par LLM_PROVIDER et le fournisseur de
+ *   fixtures (choix de la réponse selon l'instruction, aperçu, erreurs), utilisé
+ *   pour exercer les routes IA sans réseau.
+ *
+ *   Environnement node : les SDK Anthropic / OpenAI refusent de s'instancier sous jsdom.
+ * @vitest-environment node
+ */
+
+import { afterEach, describe, expect, it, vi } from 'vitest'
+
+import { getLlmProvider } from '@/lib/llm'
+import type { LlmToolCallRequest, LlmToolDefinition } from '@/lib/llm'
+
+// ─── Helpers ──────────────────────────────────────────────────────────────────
+
+/** Tool minimal (seul le nom sert au fournisseur de fixtures) */
+function tool(name: string): LlmToolDefinition {
+  return { name, description: '', inputSchema: { type: 'object', properties: {} } }
+}
+
+/** Requête d'appel d'outil avec une instruction utilisateur */
+function request(toolName: string, instruction: string): LlmToolCallRequest {
+  return {
+    tier: 'agent',
+    system: '',
+    tools: [tool(toolName)],
+    messages: [{ role: 'user', content: instruction }],
+    maxTokens: 1024,
+  }
+}
+
+afterEach(() => {
+  vi.unstubAllEnvs()
+})
+
+// ─── getLlmProvider ───────────────────────────────────────────────────────────
+
+describe('getLlmProvider', () => {
+  it('utilise Anthropic par défaut', () => {
+    vi.stubEnv('LLM_PROVIDER', '')
+    expect(getLlmProvider().name).toBe('anthropic')
+  })
+
+  it('sélectionne le fournisseur configuré', () => {
+    vi.stubEnv('LLM_PROVIDER', 'OpenAI')
+    expect(getLlmProvider().name).toBe('openai')
+    vi.stubEnv('LLM_PROVIDER', 'fixture')
+    expect(getLlmProvider().name).toBe('fixture')
+  })
+
+  it('refuse un fournisseur inconnu', () => {
+    vi.stubEnv('LLM_PROVIDER', 'mistral')
+    expect(() => getLlmProvider()).toThrow('LLM_PROVIDER inconnu')
+  })
+
+  it('signale la clé d\'API manquante', () => {
+    vi.stubEnv('LLM_PROVIDER', 'anthropic')
+    vi.stubEnv('ANTHROPIC_API_KEY', '')
+    expect(getLlmProvider().configError()).toContain('ANTHROPIC_API_KEY')
+  })
+})
+
+// ─── Fournisseur de fixtures ──────────────────────────────────────────────────
+
+describe('fournisseur fixture', () => {
+  it('retourne la réponse dont le match figure dans la dernière instruction', async () => {
+    vi.stubEnv('LLM_PROVIDER', 'fixture')
+    const { toolCall } = await getLlmProvider().callTool(
+      request('create_posts_per_platform', 'Annonce la collection sur LinkedIn et X'),
+    )
+
+    expect(toolCall?.name).toBe('create_posts_per_platform')
+    expect((toolCall?.input as { posts: { platform: string }[] }).posts.map((post) => post.platform))
+      .toEqual(['linkedin', 'twitter'])
+  })
+
+  it('retombe sur la réponse par défaut et transmet l\'aperçu', async () => {
+    vi.stubEnv('LLM_PROVIDER', 'fixture')
+    const onInput = vi.fn()
+    const { toolCall } = await getLlmProvider().callTool({
+      ...request('edit_post', 'Rends-le plus dynamique'),
+      onInput,
+    })
+
+    expect(toolCall?.input).toEqual({
+      text: 'Texte réécrit par le fournisseur de fixtures.',
+      mediaUrls: [],
+      scheduledFor: null,
+    })
+    expect(onInput).toHaveBeenCalledExactlyOnceWith(toolCall?.input)
+  })
+
+  it('échoue sans fixture pour le tool', async () => {
+    vi.stubEnv('LLM_PROVIDER', 'fixture')
+    await expect(getLlmProvider().callTool(request('inconnu', 'Bonjour'))).rejects.toThrow(
+      'Aucune fixture pour les tools : inconnu',
+    )
+  })
+
+  it('respecte l\'annulation', async () => {
+    vi.stubEnv('LLM_PROVIDER', 'fixture')
+    const controller = new AbortController()
+    controller.abort()
+    await expect(getLlmProvider().callTool({
+      ...request('edit_post', 'Bonjour'),
+      signal: controller.signal,
+    })).rejects.toThrow()
+  })
+})
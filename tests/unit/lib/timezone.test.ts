@@ -0,0 +1,96 @@
+/**
+ * @file tests/unit/lib/timezone.test.ts
+ * @description Tests unitaires des helpers de fuseau horaire.
+ *   Vérifie la validation IANA, les décalages (heure d'été incluse) et la
+ *   conversion heure locale → UTC pour Paris, Montréal et Dakar.
+ */
+
+import { describe, expect, it } from 'vitest'
+
+import {
+  DEFAULT_TIMEZONE,
+  formatIsoOffset,
+  formatUtcOffset,
+  getTimezoneOffset,
+  getZonedParts,
+  isValidTimezone,
+  resolveTimezone,
+  zonedTimeToUtc,
+} from '@/lib/timezone'
+
+// ─── Validation ───────────────────────────────────────────────────────────────
+
+describe('isValidTimezone / resolveTimezone', () => {
+  it('accepte les identifiants IANA', () => {
+    expect(isValidTimezone('America/Montreal')).toBe(true)
+    expect(isValidTimezone('Africa/Dakar')).toBe(true)
+  })
+
+  it('rejette les valeurs inconnues ou vides', () => {
+    expect(isValidTimezone('Paris')).toBe(false)
+    expect(isValidTimezone('')).toBe(false)
+  })
+
+  it('retombe sur le fuseau par défaut si absent ou invalide', () => {
+    expect(resolveTimezone(null)).toBe(DEFAULT_TIMEZONE)
+    expect(resolveTimezone('Mars/Olympus')).toBe(DEFAULT_TIMEZONE)
+    expect(resolveTimezone('Africa/Dakar')).toBe('Africa/Dakar')
+  })
+})
+
+// ─── Décalages ────────────────────────────────────────────────────────────────
+
+describe('getTimezoneOffset', () => {
+  it("tient compte de l'heure d'été", () => {
+    expect(getTimezoneOffset(new Date('2026-01-15T12:00:00Z'), 'Europe/Paris')).toBe(60)
+    expect(getTimezoneOffset(new Date('2026-07-15T12:00:00Z'), 'Europe/Paris')).toBe(120)
+    expect(getTimezoneOffset(new Date('2026-07-15T12:00:00Z'), 'America/Montreal')).toBe(-240)
+    expect(getTimezoneOffset(new Date('2026-07-15T12:00:00Z'), 'Africa/Dakar')).toBe(0)
+  })
+})
+
+describe('formatUtcOffset / formatIsoOffset', () => {
+  it('formate les décalages positifs, négatifs, nuls et fractionnaires', () => {
+    expect(formatUtcOffset(60)).toBe('UTC+1')
+    expect(formatUtcOffset(-240)).toBe('UTC-4')
+    expect(formatUtcOffset(0)).toBe('UTC')
+    expect(formatUtcOffset(330)).toBe('UTC+5:30')
+    expect(formatIsoOffset(60)).toBe('+01:00')
+    expect(formatIsoOffset(-240)).toBe('-04:00')
+    expect(formatIsoOffset(0)).toBe('+00:00')
+  })
+})
+
+// ─── Conversions ──────────────────────────────────────────────────────────────
+
+describe('zonedTimeToUtc', () => {
+  it('convertit "9h locale" en instant UTC selon le fuseau', () => {
+    const parts = { year: 2026, month: 3, day: 2, hour: 9, minute: 0 }
+    expect(zonedTimeToUtc(parts, 'Europe/Paris').toISOString()).toBe('2026-03-02T08:00:00.000Z')
+    expect(zonedTimeToUtc(parts, 'America/Montreal').toISOString()).toBe('2026-03-02T14:00:00.000Z')
+    expect(zonedTimeToUtc(parts, 'Africa/Dakar').toISOString()).toBe('2026-03-02T09:00:00.000Z')
+  })
+
+  it('calcule le début de mois local (bornes calendrier)', () => {
+    expect(zonedTimeToUtc({ year: 2026, month: 3, day: 1 }, 'Europe/Paris').toISOString()).toBe(
+      '2026-02-28T23:00:00.000Z',
+    )
+    // Mois 13 → janvier de l'année suivante
+    expect(zonedTimeToUtc({ year: 2026, month: 13, day: 1 }, 'Africa/Dakar').toISOString()).toBe(
+      '2027-01-01T00:00:00.000Z',
+    )
+  })
+
+  it("gère le jour du passage à l'heure d'été", () => {
+    // 29 mars 2026 : Paris passe de UTC+1 à UTC+2 à 2h
+    const parts = { year: 2026, month: 3, day: 29, hour: 12, minute: 0 }
+    expect(zonedTimeToUtc(parts, 'Europe/Paris').toISOString()).toBe('2026-03-29T10:00:00.000Z')
+  })
+
+  it("fait l'aller-retour avec getZonedParts", () => {
+    const instant = new Date('2026-11-05T03:30:00Z')
+    const parts = getZonedParts(instant, 'America/Montreal')
+    expect(parts).toMatchObject({ year: 2026, month: 11, day: 4, hour: 22, minute: 30 })
+    expect(zonedTimeToUtc(parts, 'America/Montreal').getTime()).toBe(instant.getTime())
+  })
+})
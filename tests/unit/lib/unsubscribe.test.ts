@@ -0,0 +1,73 @@
+/**
+ * @file tests/unit/lib/unsubscribe.test.ts
+ * @description Tests unitaires des jetons de désinscription en un clic.
+ *   Vérifie l'aller-retour création → vérification, le rejet des jetons altérés
+ *   ou expirés et l'erreur levée sans secret.
+ */
+
+import { afterAll, beforeAll, describe, expect, it } from 'vitest'
+
+import { UNSUBSCRIBE_TOKEN_TTL_DAYS, createUnsubscribeToken, verifyUnsubscribeToken } from '@/lib/unsubscribe'
+
+// ─── Secret de test ───────────────────────────────────────────────────────────
+
+const previousSecret = process.env.BETTER_AUTH_SECRET
+
+beforeAll(() => {
+  process.env.BETTER_AUTH_SECRET = 'test-secret'
+})
+
+afterAll(() => {
+  process.env.BETTER_AUTH_SECRET = previousSecret
+})
+
+// ─── createUnsubscribeToken / verifyUnsubscribeToken ──────────────────────────
+
+describe('verifyUnsubscribeToken', () => {
+  it('retrouve le userId et le type depuis un jeton valide', () => {
+    const token = createUnsubscribeToken('user_123', 'weekly-recap')
+    expect(verifyUnsubscribeToken(token)).toEqual({ userId: 'user_123', kind: 'weekly-recap' })
+  })
+
+  it('rejette un jeton dont la signature a été altérée', () => {
+    const token = createUnsubscribeToken('user_123', 'weekly-recap')
+    const [payload] = token.split('.')
+    expect(verifyUnsubscribeToken(`${payload}.signature-falsifiee`)).toBeNull()
+  })
+
+  it('rejette un jeton dont le payload a été remplacé', () => {
+    const token = createUnsubscribeToken('user_123', 'weekly-recap')
+    const [payload, signature] = token.split('.')
+    const expiresAt = Buffer.from(payload, 'base64url').toString().split(':')[2]
+    const forged = Buffer.from(`user_999:weekly-recap:${expiresAt}`).toString('base64url')
+    expect(verifyUnsubscribeToken(`${forged}.${signature}`)).toBeNull()
+  })
+
+  it('rejette un jeton mal formé', () => {
+    expect(verifyUnsubscribeToken('')).toBeNull()
+    expect(verifyUnsubscribeToken('sans-point')).toBeNull()
+  })
+
+  it('rejette un jeton signé avec un autre secret', () => {
+    const token = createUnsubscribeToken('user_123', 'weekly-recap')
+    process.env.BETTER_AUTH_SECRET = 'autre-secret'
+    expect(verifyUnsubscribeToken(token)).toBeNull()
+    process.env.BETTER_AUTH_SECRET = 'test-secret'
+  })
+
+  it('rejette un jeton expiré', () => {
+    const issuedAt = new Date('2026-03-01T09:00:00Z')
+    const token = createUnsubscribeToken('user_123', 'weekly-recap', issuedAt)
+    const beforeExpiry = new Date(issuedAt.getTime() + (UNSUBSCRIBE_TOKEN_TTL_DAYS - 1) * 24 * 60 * 60 * 1000)
+    const afterExpiry = new Date(issuedAt.getTime() + (UNSUBSCRIBE_TOKEN_TTL_DAYS + 1) * 24 * 60 * 60 * 1000)
+    expect(verifyUnsubscribeToken(token, beforeExpiry)).toEqual({ userId: 'user_123', kind: 'weekly-recap' })
+    expect(verifyUnsubscribeToken(token, afterExpiry)).toBeNull()
+  })
+
+  it('lève une erreur de configuration sans BETTER_AUTH_SECRET', () => {
+    const token = createUnsubscribeToken('user_123', 'weekly-recap')
+    delete process.env.BETTER_AUTH_SECRET
+    expect(() => verifyUnsubscribeToken(token)).toThrow('BETTER_AUTH_SECRET')
+    process.env.BETTER_AUTH_SECRET = 'test-secret'
+  })
+})
@@ -0,0 +1,72 @@
+/**
+ * @file tests/unit/modules/audit/audit-diff.test.ts
+ * @description Tests unitaires du diff du journal d'audit (utils/audit-diff.ts).
+ *   Vérifie création / suppression / mise à jour, la normalisation des dates
+ *   et des tableaux, et l'extrait de texte utilisé comme libellé.
+ */
+
+import { describe, expect, it } from 'vitest'
+
+import { auditDiff, auditExcerpt } from '@/modules/audit/utils/audit-diff'
+
+// ─── auditDiff ────────────────────────────────────────────────────────────────
+
+describe('auditDiff', () => {
+  it('création : tous les champs définis, before = null', () => {
+    expect(auditDiff(null, { text: 'Bonjour', status: 'DRAFT', groupId: undefined })).toEqual({
+      text: { before: null, after: 'Bonjour' },
+      status: { before: null, after: 'DRAFT' },
+    })
+  })
+
+  it('suppression : tous les champs définis, after = null', () => {
+    expect(auditDiff({ filename: 'photo.jpg', size: 1200 }, null)).toEqual({
+      filename: { before: 'photo.jpg', after: null },
+      size: { before: 1200, after: null },
+    })
+  })
+
+  it('mise à jour : seuls les champs modifiés', () => {
+    expect(auditDiff(
+      { text: 'A', status: 'DRAFT' },
+      { text: 'A', status: 'SCHEDULED' },
+    )).toEqual({ status: { before: 'DRAFT', after: 'SCHEDULED' } })
+  })
+
+  it('ignore un champ absent de l\'un des deux états (non relu)', () => {
+    expect(auditDiff({ status: 'DRAFT' }, { status: 'DRAFT', text: 'Nouveau' })).toBeNull()
+  })
+
+  it('compare les dates par valeur et les stocke en ISO', () => {
+    const date = new Date('2026-03-10T09:00:00.000Z')
+    expect(auditDiff({ scheduledFor: date }, { scheduledFor: new Date(date) })).toBeNull()
+    expect(auditDiff({ scheduledFor: null }, { scheduledFor: date })).toEqual({
+      scheduledFor: { before: null, after: '2026-03-10T09:00:00.000Z' },
+    })
+  })
+
+  it('compare les tableaux par valeur, dans l\'ordre', () => {
+    expect(auditDiff({ mediaUrls: ['a', 'b'] }, { mediaUrls: ['a', 'b'] })).toBeNull()
+    expect(auditDiff({ mediaUrls: ['a', 'b'] }, { mediaUrls: ['b', 'a'] })).toEqual({
+      mediaUrls: { before: ['a', 'b'], after: ['b', 'a'] },
+    })
+  })
+
+  it('retourne null sans aucun état', () => {
+    expect(auditDiff(null, null)).toBeNull()
+  })
+})
+
+// ─── auditExcerpt ─────────────────────────────────────────────────────────────
+
+describe('auditExcerpt', () => {
+  it('garde la première ligne', () => {
+    expect(auditExcerpt('  Lancement demain\n#mode #collection')).toBe('Lancement demain')
+  })
+
+  it('tronque au-delà de 60 caractères', () => {
+    const excerpt = auditExcerpt('x'.repeat(80))
+    expect(excerpt).toHaveLength(60)
+    expect(excerpt.endsWith('…')).toBe(true)
+  })
+})
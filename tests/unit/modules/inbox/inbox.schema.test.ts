@@ -0,0 +1,54 @@
+/**
+ * @file tests/unit/modules/inbox/inbox.schema.test.ts
+ * @description Tests unitaires des schémas Zod du module inbox.
+ *   Vérifie les filtres de GET /api/inbox et le corps des réponses inline.
+ */
+
+import { describe, expect, it } from 'vitest'
+
+import { InboxQuerySchema, InboxReplySchema } from '@/modules/inbox/schemas/inbox.schema'
+
+// ─── InboxQuerySchema ─────────────────────────────────────────────────────────
+
+describe('InboxQuerySchema', () => {
+  it('applique read = "all" par défaut', () => {
+    const result = InboxQuerySchema.safeParse({})
+    expect(result.success).toBe(true)
+    expect(result.data?.read).toBe('all')
+    expect(result.data?.platform).toBeUndefined()
+  })
+
+  it('accepte les filtres plateforme + non lus', () => {
+    const result = InboxQuerySchema.safeParse({ platform: 'instagram', read: 'unread' })
+    expect(result.success).toBe(true)
+    expect(result.data).toEqual({ platform: 'instagram', read: 'unread' })
+  })
+
+  it('rejette un état de lecture inconnu', () => {
+    expect(InboxQuerySchema.safeParse({ read: 'archived' }).success).toBe(false)
+  })
+
+  it('rejette une plateforme vide', () => {
+    expect(InboxQuerySchema.safeParse({ platform: '' }).success).toBe(false)
+  })
+})
+
+// ─── InboxReplySchema ─────────────────────────────────────────────────────────
+
+describe('InboxReplySchema', () => {
+  it('accepte une réponse valide et supprime les espaces superflus', () => {
+    const result = InboxReplySchema.safeParse({ text: '  Merci !  ' })
+    expect(result.success).toBe(true)
+    expect(result.data?.text).toBe('Merci !')
+  })
+
+  it('rejette une réponse vide ou composée uniquement d\'espaces', () => {
+    expect(InboxReplySchema.safeParse({ text: '' }).success).toBe(false)
+    expect(InboxReplySchema.safeParse({ text: '   ' }).success).toBe(false)
+  })
+
+  it('rejette une réponse de plus de 2 200 caractères', () => {
+    expect(InboxReplySchema.safeParse({ text: 'a'.repeat(2201) }).success).toBe(false)
+    expect(InboxReplySchema.safeParse({ text: 'a'.repeat(2200) }).success).toBe(true)
+  })
+})
@@ -0,0 +1,81 @@
+/**
+ * @file tests/unit/modules/media/media-filter.test.ts
+ * @description Tests unitaires des filtres de la galerie (utils/media-filter.ts)
+ *   et de la normalisation des tags (MediaTagSchema) : clause Prisma, médias
+ *   hors dossier, bornes de dates, recherche par mot, ajout / retrait de tags.
+ */
+
+import { describe, expect, it } from 'vitest'
+
+import { MediaBulkTagSchema, MediaTagSchema } from '@/modules/media/schemas/media.schema'
+import { applyTagChanges, buildMediaWhere, MEDIA_NO_FOLDER } from '@/modules/media/utils/media-filter'
+
+// ─── buildMediaWhere ──────────────────────────────────────────────────────────
+
+describe('buildMediaWhere', () => {
+  it('sans filtre, limite la galerie au workspace', () => {
+    expect(buildMediaWhere('ws_1', {})).toEqual({ workspaceId: 'ws_1' })
+  })
+
+  it('combine type, tag, dossier et dates', () => {
+    expect(buildMediaWhere('ws_1', {
+      kind: 'video',
+      tag: 'promo',
+      folderId: 'fld_1',
+      from: '2026-03-01',
+      to: '2026-03-31',
+    })).toEqual({
+      workspaceId: 'ws_1',
+      mimeType: { startsWith: 'video/' },
+      tags: { has: 'promo' },
+      folderId: 'fld_1',
+      createdAt: {
+        gte: new Date('2026-03-01T00:00:00.000Z'),
+        lte: new Date('2026-03-31T23:59:59.999Z'),
+      },
+    })
+  })
+
+  it('filtre les médias hors dossier', () => {
+    expect(buildMediaWhere('ws_1', { folderId: MEDIA_NO_FOLDER })).toMatchObject({ folderId: null })
+  })
+
+  it('exige chaque mot de la recherche dans le nom, le texte alternatif ou les tags', () => {
+    const where = buildMediaWhere('ws_1', { search: '  Vitrine  Été ' })
+    expect(where.AND).toEqual([
+      {
+        OR: [
+          { filename: { contains: 'Vitrine', mode: 'insensitive' } },
+          { altText: { contains: 'Vitrine', mode: 'insensitive' } },
+          { tags: { has: 'vitrine' } },
+        ],
+      },
+      {
+        OR: [
+          { filename: { contains: 'Été', mode: 'insensitive' } },
+          { altText: { contains: 'Été', mode: 'insensitive' } },
+          { tags: { has: 'été' } },
+        ],
+      },
+    ])
+  })
+})
+
+// ─── Tags ─────────────────────────────────────────────────────────────────────
+
+describe('tags', () => {
+  it('applyTagChanges ajoute sans doublon et retire en conservant l’ordre', () => {
+    expect(applyTagChanges(['promo', 'été'], { add: ['printemps', 'été'], remove: ['promo'] }))
+      .toEqual(['été', 'printemps'])
+  })
+
+  it('normalise un tag (casse, #, espaces) et refuse les virgules', () => {
+    expect(MediaTagSchema.parse('  #Soldes ')).toBe('soldes')
+    expect(MediaTagSchema.safeParse('a,b').success).toBe(false)
+  })
+
+  it('refuse une action groupée sans tag à ajouter ni à retirer', () => {
+    expect(MediaBulkTagSchema.safeParse({ ids: ['med_1'] }).success).toBe(false)
+    expect(MediaBulkTagSchema.safeParse({ ids: ['med_1'], add: ['promo'] }).success).toBe(true)
+  })
+})
@@ -0,0 +1,99 @@
+/**
+ * @file tests/unit/modules/media/media-hash.test.ts
+ * @description Tests unitaires de la détection des doublons (utils/media-hash.ts) :
+ *   dHash d'une image réduite, distance entre empreintes, recherche du média le
+ *   plus proche et regroupement des doublons.
+ */
+
+import { describe, expect, it } from 'vitest'
+
+import {
+  clusterDuplicates,
+  dHashFromRgba,
+  DHASH_HEIGHT,
+  DHASH_WIDTH,
+  findNearestDuplicate,
+  hammingDistance,
+} from '@/modules/media/utils/media-hash'
+import type { HashedMedia } from '@/modules/media/utils/media-hash'
+
+/** Image 9×8 RGBA en niveaux de gris, luminance donnée par pixel */
+function grayImage(luminance: (x: number, y: number) => number): number[] {
+  const rgba: number[] = []
+  for (let y = 0; y < DHASH_HEIGHT; y++) {
+    for (let x = 0; x < DHASH_WIDTH; x++) {
+      const v = luminance(x, y)
+      rgba.push(v, v, v, 255)
+    }
+  }
+  return rgba
+}
+
+const media = (id: string, day: number, hashes: { contentHash?: string; perceptualHash?: string }): HashedMedia => ({
+  id,
+  contentHash: hashes.contentHash ?? null,
+  perceptualHash: hashes.perceptualHash ?? null,
+  createdAt: new Date(`2026-03-${String(day).padStart(2, '0')}`),
+})
+
+// ─── dHashFromRgba ────────────────────────────────────────────────────────────
+
+describe('dHashFromRgba', () => {
+  it('met un bit à 1 quand le pixel est plus clair que son voisin de droite', () => {
+    expect(dHashFromRgba(grayImage((x) => 255 - x * 20))).toBe('ffffffffffffffff')
+    expect(dHashFromRgba(grayImage((x) => x * 20))).toBe('0000000000000000')
+    // Moitié haute décroissante, moitié basse croissante
+    expect(dHashFromRgba(grayImage((x, y) => (y < 4 ? 255 - x * 20 : x * 20)))).toBe('ffffffff00000000')
+  })
+
+  it('résiste à un éclaircissement uniforme de l’image', () => {
+    const original = grayImage((x, y) => (x * 37 + y * 11) % 200)
+    const brighter = original.map((v, i) => (i % 4 === 3 ? v : v + 40))
+    expect(hammingDistance(dHashFromRgba(original), dHashFromRgba(brighter))).toBe(0)
+  })
+
+  it('refuse une image qui n’est pas en 9×8', () => {
+    expect(() => dHashFromRgba(new Array(64 * 4).fill(0))).toThrow()
+  })
+})
+
+// ─── hammingDistance / findNearestDuplicate ───────────────────────────────────
+
+describe('hammingDistance', () => {
+  it('compte les bits différents sur les 64 bits', () => {
+    expect(hammingDistance('ffffffff00000000', 'ffffffff00000000')).toBe(0)
+    expect(hammingDistance('ffffffff00000000', 'fffffffe00000001')).toBe(2)
+    expect(hammingDistance('0000000000000000', 'ffffffffffffffff')).toBe(64)
+  })
+})
+
+describe('findNearestDuplicate', () => {
+  it('retient l’image la plus proche dans la limite de distance', () => {
+    expect(findNearestDuplicate('ffffffff00000000', [
+      { id: 'loin', perceptualHash: '00000000ffffffff' },
+      { id: 'proche', perceptualHash: 'ffffff0f00000000' },
+      { id: 'tres-proche', perceptualHash: 'fffffffe00000000' },
+    ])).toBe('tres-proche')
+    expect(findNearestDuplicate('ffffffff00000000', [{ id: 'loin', perceptualHash: 'ffff000000000000' }])).toBeNull()
+  })
+})
+
+// ─── clusterDuplicates ────────────────────────────────────────────────────────
+
+describe('clusterDuplicates', () => {
+  it('regroupe copies exactes et images proches, de l’original aux copies', () => {
+    const groups = clusterDuplicates([
+      media('copie-recompressee', 12, { perceptualHash: 'ffffffff00000003' }),
+      media('original', 1, { contentHash: 'a'.repeat(64), perceptualHash: 'ffffffff00000000' }),
+      media('copie-exacte', 5, { contentHash: 'a'.repeat(64) }),
+      media('video-1', 2, { contentHash: 'b'.repeat(64) }),
+      media('video-2', 3, { contentHash: 'b'.repeat(64) }),
+      media('unique', 4, { contentHash: 'c'.repeat(64), perceptualHash: '00000000ffffffff' }),
+    ])
+
+    expect(groups.map((group) => group.map((m) => m.id))).toEqual([
+      ['original', 'copie-exacte', 'copie-recompressee'],
+      ['video-1', 'video-2'],
+    ])
+  })
+})
@@ -0,0 +1,141 @@
+/**
+ * @file tests/unit/modules/media/media-probe.test.ts
+ * @description Tests unitaires du sondage des médias (utils/media-probe.ts) et
+ *   des variantes vidéo par plateforme (platforms/config/media-specs.ts) :
+ *   type MIME réel, dimensions, durée et codec d'un MP4 / MOV, choix des variantes.
+ */
+
+import { describe, expect, it } from 'vitest'
+
+import { mimeTypeFromUrl, probeMedia } from '@/modules/media/utils/media-probe'
+import type { MediaProbe } from '@/modules/media/utils/media-probe'
+import { planVideoVariant, videoDurationError } from '@/modules/platforms/config/media-specs'
+
+// ─── Helpers ──────────────────────────────────────────────────────────────────
+
+/** Boîte ISO BMFF : taille (32 bits) + type + contenu */
+function box(type: string, ...payloads: Uint8Array[]): Uint8Array {
+  const size = 8 + payloads.reduce((total, payload) => total + payload.length, 0)
+  const bytes = new Uint8Array(size)
+  new DataView(bytes.buffer).setUint32(0, size)
+  bytes.set(new TextEncoder().encode(type), 4)
+  let offset = 8
+  for (const payload of payloads) {
+    bytes.set(payload, offset)
+    offset += payload.length
+  }
+  return bytes
+}
+
+/** Contenu de longueur fixe avec des champs 32 bits ou ASCII aux positions données */
+function payload(length: number, fields: Record<number, number | string>): Uint8Array {
+  const bytes = new Uint8Array(length)
+  const data = new DataView(bytes.buffer)
+  for (const [offset, value] of Object.entries(fields)) {
+    if (typeof value === 'number') data.setInt32(Number(offset), value)
+    else bytes.set(new TextEncoder().encode(value), Number(offset))
+  }
+  return bytes
+}
+
+/**
+ * Vidéo ISO BMFF minimale (moov après mdat, comme à la sortie d'un téléphone).
+ * Piste 1920×1080 pivotée de 90° → affichée 1080×1920.
+ */
+function isoVideo(brand: string, codec: string): Uint8Array {
+  const moov = box('moov',
+    // mvhd v0 : timescale 1000, durée 32 480
+    box('mvhd', payload(100, { 12: 1000, 16: 32_480 })),
+    box('trak',
+      // tkhd v0 : matrice (a = 0, b = 1.0) puis largeur / hauteur en 16.16
+      box('tkhd', payload(84, { 40: 0, 44: 0x10000, 76: 1920 * 65536, 80: 1080 * 65536 })),
+      box('mdia',
+        box('hdlr', payload(24, { 8: 'vide' })),
+        box('minf', box('stbl', box('stsd', payload(16, { 4: 1, 12: codec })))),
+      ),
+    ),
+  )
+  const parts = [box('ftyp', payload(8, { 0: brand })), box('mdat', new Uint8Array(64)), moov]
+  const bytes = new Uint8Array(parts.reduce((total, part) => total + part.length, 0))
+  let offset = 0
+  for (const part of parts) {
+    bytes.set(part, offset)
+    offset += part.length
+  }
+  return bytes
+}
+
+async function probe(bytes: Uint8Array): Promise<MediaProbe | null> {
+  return probeMedia(async (offset, length) => bytes.subarray(offset, offset + length), bytes.length)
+}
+
+// ─── probeMedia ───────────────────────────────────────────────────────────────
+
+describe('probeMedia', () => {
+  it('sonde un MOV : type réel, rotation appliquée, durée et codec', async () => {
+    expect(await probe(isoVideo('qt  ', 'hvc1'))).toEqual({
+      mimeType: 'video/quicktime',
+      kind: 'video',
+      width: 1080,
+      height: 1920,
+      durationMs: 32_480,
+      codec: 'hevc',
+    })
+    expect((await probe(isoVideo('isom', 'avc1')))?.mimeType).toBe('video/mp4')
+  })
+
+  it('lit les dimensions d\'un PNG et refuse un format inconnu', async () => {
+    const png = new Uint8Array(32)
+    png.set([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a])
+    png.set(box('IHDR', payload(8, { 0: 640, 4: 480 })).subarray(0, 16), 8)
+    expect(await probe(png)).toMatchObject({ mimeType: 'image/png', kind: 'image', width: 640, height: 480 })
+    expect(await probe(new TextEncoder().encode('pas un média'))).toBeNull()
+  })
+})
+
+// ─── mimeTypeFromUrl ──────────────────────────────────────────────────────────
+
+describe('mimeTypeFromUrl', () => {
+  it('distingue .mov (QuickTime) de .mp4', () => {
+    expect(mimeTypeFromUrl('https://cdn.test/clip.MOV?v=2')).toBe('video/quicktime')
+    expect(mimeTypeFromUrl('https://cdn.test/clip.mp4')).toBe('video/mp4')
+    expect(mimeTypeFromUrl('https://cdn.test/fichier')).toBe('image/jpeg')
+  })
+})
+
+// ─── Variantes par plateforme ─────────────────────────────────────────────────
+
+describe('planVideoVariant', () => {
+  const landscape = { mimeType: 'video/mp4', width: 1920, height: 1080, codec: 'h264', size: 8e6, durationMs: 30_000 }
+
+  it('recadre en 9:16 pour TikTok et laisse une vidéo conforme telle quelle', () => {
+    expect(planVideoVariant('tiktok', landscape)).toEqual({
+      platform: 'tiktok',
+      reasons: ['aspect_ratio', 'resolution'],
+      width: 1080,
+      height: 1920,
+      maxBytes: null,
+    })
+    expect(planVideoVariant('tiktok', { ...landscape, width: 1080, height: 1920 })).toBeNull()
+    expect(planVideoVariant('youtube', landscape)).toBeNull()
+  })
+
+  it('réduit résolution et taille pour X, codec compris', () => {
+    const plan = planVideoVariant('twitter', { ...landscape, width: 3840, height: 2160, codec: 'hevc', size: 600e6 })
+    expect(plan).toEqual({
+      platform: 'twitter',
+      reasons: ['codec', 'resolution', 'size'],
+      width: 1920,
+      height: 1080,
+      maxBytes: 512 * 1024 * 1024,
+    })
+  })
+})
+
+describe('videoDurationError', () => {
+  it('signale une vidéo trop longue pour la plateforme', () => {
+    expect(videoDurationError('twitter', 185_000)).toBe('Vidéo trop longue pour twitter : 3:05 (maximum 2:20)')
+    expect(videoDurationError('twitter', 60_000)).toBeNull()
+    expect(videoDurationError('linkedin', 3_600_000)).toBeNull()
+  })
+})
@@ -0,0 +1,73 @@
+/**
+ * @file tests/unit/modules/media/media-usage.test.ts
+ * @description Tests unitaires de l'utilisation des médias par les posts
+ *   (utils/media-usage.ts) : décompte par média, garde-fou de suppression
+ *   (posts planifiés) et sélection des fichiers orphelins du Storage.
+ */
+
+import { describe, expect, it } from 'vitest'
+
+import {
+  mediaDeletionError,
+  NO_MEDIA_USAGE,
+  selectOrphanFiles,
+  summarizeMediaUsage,
+} from '@/modules/media/utils/media-usage'
+
+const VITRINE = 'https://proj.supabase.co/storage/v1/object/public/post-media/u1/gallery/vitrine.jpg'
+const CLIP = 'https://proj.supabase.co/storage/v1/object/public/post-media/u1/gallery/clip.mp4'
+
+// ─── summarizeMediaUsage ──────────────────────────────────────────────────────
+
+describe('summarizeMediaUsage', () => {
+  it('compte les posts par média, dont les posts planifiés', () => {
+    const usage = summarizeMediaUsage([VITRINE, CLIP], [
+      { url: VITRINE, status: 'SCHEDULED' },
+      { url: VITRINE, status: 'DRAFT' },
+      { url: VITRINE, status: 'PUBLISHED' },
+    ])
+
+    expect(usage.get(VITRINE)).toEqual({ postCount: 3, scheduledPostCount: 1 })
+    expect(usage.get(CLIP)).toEqual(NO_MEDIA_USAGE)
+  })
+})
+
+// ─── mediaDeletionError ───────────────────────────────────────────────────────
+
+describe('mediaDeletionError', () => {
+  it('autorise la suppression de médias utilisés par des brouillons ou des posts publiés', () => {
+    expect(mediaDeletionError([
+      { filename: 'vitrine.jpg', usage: { postCount: 4, scheduledPostCount: 0 } },
+    ])).toBeNull()
+  })
+
+  it('refuse la suppression d’un média dont dépend un post planifié', () => {
+    expect(mediaDeletionError([
+      { filename: 'vitrine.jpg', usage: { postCount: 3, scheduledPostCount: 2 } },
+    ])).toMatch(/^« vitrine\.jpg » est utilisé par 2 posts planifiés/)
+  })
+
+  it('liste les médias bloquants d’une sélection', () => {
+    expect(mediaDeletionError([
+      { filename: 'vitrine.jpg', usage: { postCount: 1, scheduledPostCount: 1 } },
+      { filename: 'logo.png', usage: NO_MEDIA_USAGE },
+      { filename: 'clip.mp4', usage: { postCount: 2, scheduledPostCount: 1 } },
+    ])).toMatch(/^2 médias sont utilisés par des posts planifiés \(« vitrine\.jpg », « clip\.mp4 »\)/)
+  })
+})
+
+// ─── selectOrphanFiles ────────────────────────────────────────────────────────
+
+describe('selectOrphanFiles', () => {
+  const now = new Date('2026-03-20T04:00:00Z')
+
+  it('garde les fichiers référencés et les fichiers de moins de 7 jours', () => {
+    const files = [
+      { url: VITRINE, createdAt: new Date('2026-01-10T00:00:00Z') },
+      { url: CLIP, createdAt: new Date('2026-01-10T00:00:00Z') },
+      { url: `${CLIP}?recent`, createdAt: new Date('2026-03-18T00:00:00Z') },
+    ]
+
+    expect(selectOrphanFiles(files, new Set([VITRINE]), now)).toEqual([files[1]])
+  })
+})
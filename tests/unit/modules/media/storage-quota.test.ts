@@ -0,0 +1,41 @@
+/**
+ * @file tests/unit/modules/media/storage-quota.test.ts
+ * @description Tests unitaires du quota de stockage (utils/storage-quota.ts) :
+ *   répartition par type de fichier et refus d'un upload au-delà du quota.
+ */
+
+import { describe, expect, it } from 'vitest'
+
+import { storageQuotaError, summarizeStorageUsage } from '@/modules/media/utils/storage-quota'
+
+const MB = 1024 * 1024
+
+describe('summarizeStorageUsage', () => {
+  it('répartit les octets utilisés par type de fichier', () => {
+    expect(summarizeStorageUsage([
+      { mimeType: 'image/jpeg', size: 2 * MB },
+      { mimeType: 'video/mp4', size: 300 * MB },
+      { mimeType: 'image/png', size: MB },
+      { mimeType: '', size: 10 },
+    ], 1024 * MB)).toEqual({
+      usedBytes: 303 * MB + 10,
+      quotaBytes: 1024 * MB,
+      byType: { image: 3 * MB, video: 300 * MB, other: 10 },
+    })
+  })
+})
+
+describe('storageQuotaError', () => {
+  const usage = summarizeStorageUsage([{ mimeType: 'video/mp4', size: 900 * MB }], 1024 * MB)
+
+  it('autorise un fichier qui tient dans le quota', () => {
+    expect(storageQuotaError(usage, 124 * MB)).toBeNull()
+  })
+
+  it('refuse un fichier qui dépasse le quota, avec l’espace restant', () => {
+    expect(storageQuotaError(usage, 200 * MB)).toBe(
+      'Espace de stockage insuffisant : 900.00 Mo utilisés sur 1.00 Go (reste 124.00 Mo, fichier de 200.00 Mo).'
+      + ' Supprimez des médias de la galerie pour libérer de la place.',
+    )
+  })
+})
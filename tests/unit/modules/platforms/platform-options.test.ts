@@ -0,0 +1,54 @@
+/**
+ * @file tests/unit/modules/platforms/platform-options.test.ts
+ * @description Tests unitaires des options de publication par plateforme
+ *   (config/platform-options.ts) : options invalides, options requises hors
+ *   brouillon, et nettoyage des options stockées en JSON.
+ */
+
+import { describe, expect, it } from 'vitest'
+
+import {
+  getPlatformOptionsViolations,
+  normalizePlatformOptions,
+} from '@/modules/platforms/config/platform-options'
+
+// ─── getPlatformOptionsViolations ─────────────────────────────────────────────
+
+describe('getPlatformOptionsViolations', () => {
+  it('accepte des options conformes', () => {
+    expect(getPlatformOptionsViolations('youtube', { title: 'Visite', visibility: 'unlisted', categoryId: '22' }))
+      .toEqual([])
+    expect(getPlatformOptionsViolations('twitter', undefined)).toEqual([])
+  })
+
+  it('signale une valeur invalide ou une clé inconnue', () => {
+    expect(getPlatformOptionsViolations('reddit', { subreddit: 'r/france' })).toEqual([{
+      type: 'invalid_platform_options',
+      platform: 'reddit',
+      message: 'Option « Subreddit » invalide : Nom de subreddit invalide (sans « r/ »)',
+    }])
+    expect(getPlatformOptionsViolations('youtube', { tags: 'promo' })[0]?.message)
+      .toMatch(/^Option « tags » invalide/)
+    expect(getPlatformOptionsViolations('twitter', { title: 'Titre' })[0]?.type).toBe('invalid_platform_options')
+  })
+
+  it('exige les options requises hors brouillon uniquement', () => {
+    expect(getPlatformOptionsViolations('pinterest', { link: 'https://boutique.fr' }, { draft: true })).toEqual([])
+    expect(getPlatformOptionsViolations('pinterest', { link: 'https://boutique.fr' })).toEqual([{
+      type: 'platform_option_required',
+      platform: 'pinterest',
+      message: 'Option « Tableau » requise pour publier',
+    }])
+  })
+})
+
+// ─── normalizePlatformOptions ─────────────────────────────────────────────────
+
+describe('normalizePlatformOptions', () => {
+  it('retire les champs inconnus ou invalides', () => {
+    expect(normalizePlatformOptions('youtube', { title: ' Visite ', visibility: 'secret', foo: 1 }))
+      .toEqual({ title: 'Visite' })
+    expect(normalizePlatformOptions('linkedin', { title: 'Titre' })).toEqual({})
+    expect(normalizePlatformOptions('reddit', null)).toEqual({})
+  })
+})
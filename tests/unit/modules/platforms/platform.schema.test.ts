@@ -90,6 +90,7 @@ describe('ConnectedPlatformSchema', () => {
   const validPlatform = {
     id: 'cpl_abc123',
     userId: 'usr_xyz',
+    workspaceId: 'ws_abc',
     platform: 'instagram',
     lateProfileId: 'prof_abc',
     accountName: '@marie',
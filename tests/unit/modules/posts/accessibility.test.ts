@@ -0,0 +1,58 @@
+/**
+ * @file tests/unit/modules/posts/accessibility.test.ts
+ * @description Tests unitaires des vérifications d'accessibilité (utils/accessibility.ts) :
+ *   texte alternatif manquant, hashtags sans CamelCase, lignes d'emojis seuls,
+ *   et nettoyage des textes alternatifs stockés en JSON.
+ */
+
+import { describe, expect, it } from 'vitest'
+
+import { getAccessibilityWarnings, normalizeMediaAltTexts } from '@/modules/posts/utils/accessibility'
+
+// ─── normalizeMediaAltTexts ───────────────────────────────────────────────────
+
+describe('normalizeMediaAltTexts', () => {
+  it('ignore les valeurs vides ou non textuelles', () => {
+    expect(normalizeMediaAltTexts({ 'a.jpg': ' Logo ', 'b.jpg': '', 'c.jpg': 3 }))
+      .toEqual({ 'a.jpg': 'Logo' })
+    expect(normalizeMediaAltTexts(null)).toEqual({})
+    expect(normalizeMediaAltTexts(['a.jpg'])).toEqual({})
+  })
+
+  it('limite les entrées aux médias du post', () => {
+    expect(normalizeMediaAltTexts({ 'a.jpg': 'Logo', 'b.jpg': 'Vitrine' }, ['b.jpg']))
+      .toEqual({ 'b.jpg': 'Vitrine' })
+  })
+})
+
+// ─── getAccessibilityWarnings ─────────────────────────────────────────────────
+
+describe('getAccessibilityWarnings', () => {
+  it('accepte un post accessible', () => {
+    expect(getAccessibilityWarnings('Nouveautés #SocialMediaTips 🎉', ['https://cdn/a.jpg'], {
+      'https://cdn/a.jpg': 'Vitrine de la boutique',
+    })).toEqual([])
+  })
+
+  it('signale les images sans texte alternatif, pas les vidéos', () => {
+    const warnings = getAccessibilityWarnings('Promo', ['https://cdn/clip.mp4', 'https://cdn/a.jpg'], {})
+    expect(warnings).toEqual([{
+      type: 'missing_alt_text',
+      message: 'Média 2 : image sans texte alternatif',
+      mediaUrl: 'https://cdn/a.jpg',
+    }])
+  })
+
+  it('signale les hashtags multi-mots sans CamelCase', () => {
+    const warnings = getAccessibilityWarnings('#socialmediatips #MARKETINGDIGITAL #marketing #SocialMedia', [], {})
+    expect(warnings.map((warning) => warning.message)).toEqual([
+      'Hashtag #socialmediatips difficile à lire : écrivez-le en CamelCase (ex: #MonHashtag)',
+      'Hashtag #MARKETINGDIGITAL difficile à lire : écrivez-le en CamelCase (ex: #MonHashtag)',
+    ])
+  })
+
+  it('compte les lignes composées uniquement d\'emojis', () => {
+    const warnings = getAccessibilityWarnings('Lancement 🚀\n🎉🎉🎉\n👍🏽 ✨', [], {})
+    expect(warnings).toEqual([expect.objectContaining({ type: 'emoji_only_line', message: expect.stringMatching(/^2 ligne/) })])
+  })
+})
@@ -0,0 +1,51 @@
+/**
+ * @file tests/unit/modules/posts/account-target.test.ts
+ * @description Tests unitaires de resolveTargetAccount (compte de publication d'un post).
+ *   Vérifie le choix explicite, le compte unique implicite et le refus des cas ambigus
+ *   (plusieurs comptes d'une même plateforme sans choix).
+ */
+
+import { describe, expect, it } from 'vitest'
+
+import { resolveTargetAccount } from '@/modules/posts/utils/account-target'
+
+// ─── Fixtures ─────────────────────────────────────────────────────────────────
+
+const ACCOUNTS = [
+  { id: 'cp_ig_marque_a', platform: 'instagram' },
+  { id: 'cp_ig_marque_b', platform: 'instagram' },
+  { id: 'cp_tiktok', platform: 'tiktok' },
+]
+
+// ─── resolveTargetAccount ─────────────────────────────────────────────────────
+
+describe('resolveTargetAccount', () => {
+  it('retient le compte choisi explicitement', () => {
+    expect(resolveTargetAccount(ACCOUNTS, 'instagram', 'cp_ig_marque_b')).toEqual({
+      ok: true,
+      connectedPlatformId: 'cp_ig_marque_b',
+    })
+  })
+
+  it('retient le compte unique de la plateforme sans choix explicite', () => {
+    expect(resolveTargetAccount(ACCOUNTS, 'tiktok')).toEqual({
+      ok: true,
+      connectedPlatformId: 'cp_tiktok',
+    })
+  })
+
+  it('refuse de choisir parmi plusieurs comptes sans choix explicite', () => {
+    const result = resolveTargetAccount(ACCOUNTS, 'instagram', null)
+    expect(result.ok).toBe(false)
+  })
+
+  it("refuse un compte d'une autre plateforme", () => {
+    const result = resolveTargetAccount(ACCOUNTS, 'instagram', 'cp_tiktok')
+    expect(result.ok).toBe(false)
+  })
+
+  it('refuse un compte inconnu ou déconnecté, sans repli', () => {
+    expect(resolveTargetAccount(ACCOUNTS, 'tiktok', 'cp_supprime').ok).toBe(false)
+    expect(resolveTargetAccount(ACCOUNTS, 'linkedin').ok).toBe(false)
+  })
+})
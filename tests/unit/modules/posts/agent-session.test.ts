@@ -0,0 +1,82 @@
+/**
+ * @file tests/unit/modules/posts/agent-session.test.ts
+ * @description Tests unitaires des conversations multi-tours avec l'agent (utils/agent-session.ts).
+ *   Vérifie la reconstruction de l'historique transmis à Claude (limite, premier
+ *   message utilisateur, entrée du tool) et le résumé de chaque tour.
+ */
+
+import { describe, expect, it } from 'vitest'
+
+import {
+  AGENT_HISTORY_LIMIT,
+  agentHistoryMessages,
+  summarizeAgentTurn,
+} from '@/modules/posts/utils/agent-session'
+import type { StoredAgentMessage } from '@/modules/posts/utils/agent-session'
+
+// ─── Helpers ──────────────────────────────────────────────────────────────────
+
+/** Tour complet : instruction + réponse de l'agent */
+function turn(index: number): StoredAgentMessage[] {
+  return [
+    { role: 'USER', content: `Instruction ${index}`, toolInput: null },
+    { role: 'ASSISTANT', content: `Réponse ${index}`, toolInput: null },
+  ]
+}
+
+// ─── agentHistoryMessages ─────────────────────────────────────────────────────
+
+describe('agentHistoryMessages', () => {
+  it('alterne user / assistant et ajoute l\'entrée du tool à la réponse', () => {
+    expect(agentHistoryMessages([
+      { role: 'USER', content: 'Un post LinkedIn', toolInput: null },
+      {
+        role: 'ASSISTANT',
+        content: '1 post créé (LinkedIn)',
+        toolInput: { posts: [{ platform: 'linkedin', text: 'Bonjour' }] },
+      },
+    ])).toEqual([
+      { role: 'user', content: 'Un post LinkedIn' },
+      {
+        role: 'assistant',
+        content: '1 post créé (LinkedIn)\n{"posts":[{"platform":"linkedin","text":"Bonjour"}]}',
+      },
+    ])
+  })
+
+  it('ne conserve que les derniers messages', () => {
+    const messages = Array.from({ length: 15 }, (_, i) => turn(i)).flat()
+    const history = agentHistoryMessages(messages)
+
+    expect(history).toHaveLength(AGENT_HISTORY_LIMIT)
+    expect(history[0]).toEqual({ role: 'user', content: 'Instruction 5' })
+    expect(history.at(-1)).toEqual({ role: 'assistant', content: 'Réponse 14' })
+  })
+
+  it('commence toujours par un message utilisateur', () => {
+    // 21 messages : la limite tombe sur une réponse, écartée de l'historique
+    const messages = [
+      ...Array.from({ length: 10 }, (_, i) => turn(i)).flat(),
+      { role: 'USER' as const, content: 'Dernière', toolInput: null },
+    ]
+    const history = agentHistoryMessages(messages)
+
+    expect(history).toHaveLength(AGENT_HISTORY_LIMIT - 1)
+    expect(history[0]).toEqual({ role: 'user', content: 'Instruction 1' })
+    expect(agentHistoryMessages([{ role: 'ASSISTANT', content: 'Seul', toolInput: null }])).toEqual([])
+  })
+})
+
+// ─── summarizeAgentTurn ───────────────────────────────────────────────────────
+
+describe('summarizeAgentTurn', () => {
+  it('résume les posts créés et modifiés avec les libellés des plateformes', () => {
+    expect(summarizeAgentTurn(['linkedin', 'tiktok'], ['instagram'])).toBe(
+      '2 posts créés (LinkedIn, TikTok) · 1 post modifié (Instagram)',
+    )
+  })
+
+  it('indique un tour sans effet', () => {
+    expect(summarizeAgentTurn([], [])).toBe('Aucun post créé ni modifié')
+  })
+})
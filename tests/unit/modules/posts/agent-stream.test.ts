@@ -0,0 +1,90 @@
+/**
+ * @file tests/unit/modules/posts/agent-stream.test.ts
+ * @description Tests unitaires du protocole de streaming des routes agent (utils/agent-stream.ts).
+ *   Vérifie l'encodage / décodage SSE (blocs découpés entre deux chunks)
+ *   et l'extraction des aperçus depuis l'entrée partielle des tools.
+ */
+
+import { describe, expect, it } from 'vitest'
+
+import {
+  extractDraftPreviews,
+  formatSseEvent,
+  parseSseEvents,
+} from '@/modules/posts/utils/agent-stream'
+
+// ─── formatSseEvent / parseSseEvents ──────────────────────────────────────────
+
+describe('parseSseEvents', () => {
+  it('décode les évènements encodés par formatSseEvent', () => {
+    const buffer = formatSseEvent('draft', { drafts: [] }) + formatSseEvent('done', { posts: [] })
+    expect(parseSseEvents(buffer)).toEqual({
+      events: [
+        { event: 'draft', data: { drafts: [] } },
+        { event: 'done', data: { posts: [] } },
+      ],
+      rest: '',
+    })
+  })
+
+  it('conserve le bloc incomplet pour le chunk suivant', () => {
+    const full = formatSseEvent('error', { error: 'Échec\nligne 2' })
+    const first = parseSseEvents(full.slice(0, 12))
+    expect(first.events).toEqual([])
+
+    const second = parseSseEvents(first.rest + full.slice(12))
+    expect(second.events).toEqual([{ event: 'error', data: { error: 'Échec\nligne 2' } }])
+  })
+
+  it('ignore les commentaires et les données non JSON', () => {
+    expect(parseSseEvents(': keep-alive\n\nevent: draft\ndata: {oups\n\n').events).toEqual([])
+  })
+})
+
+// ─── extractDraftPreviews ─────────────────────────────────────────────────────
+
+describe('extractDraftPreviews', () => {
+  it('create_posts_per_platform : un aperçu par post partiel', () => {
+    expect(extractDraftPreviews({
+      posts: [
+        { platform: 'instagram', text: 'Nouvelle collection', mediaUrls: [] },
+        { platform: 'tiktok' },
+      ],
+    })).toEqual([
+      { platform: 'instagram', text: 'Nouvelle collection' },
+      { platform: 'tiktok', text: '' },
+    ])
+  })
+
+  it('ignore un post encore vide', () => {
+    expect(extractDraftPreviews({ posts: [{ platform: 'x', text: 'Go' }, {}] })).toEqual([
+      { platform: 'x', text: 'Go' },
+    ])
+  })
+
+  it('tour de suivi : posts modifiés après les nouveaux, plateforme depuis la conversation', () => {
+    expect(extractDraftPreviews(
+      {
+        posts: [{ platform: 'x', text: 'Nouveau' }],
+        edits: [{ postId: 'post_1', text: 'Plus court' }, { postId: 'inconnu', text: 'Hm' }],
+      },
+      null,
+      { post_1: 'linkedin' },
+    )).toEqual([
+      { platform: 'x', text: 'Nouveau' },
+      { platform: 'linkedin', text: 'Plus court' },
+      { platform: null, text: 'Hm' },
+    ])
+  })
+
+  it('edit_post : plateforme du post édité', () => {
+    expect(extractDraftPreviews({ text: 'Texte réécr' }, 'linkedin')).toEqual([
+      { platform: 'linkedin', text: 'Texte réécr' },
+    ])
+  })
+
+  it('retourne une liste vide sans entrée exploitable', () => {
+    expect(extractDraftPreviews(undefined)).toEqual([])
+    expect(extractDraftPreviews({})).toEqual([])
+  })
+})
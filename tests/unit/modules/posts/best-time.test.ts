@@ -0,0 +1,80 @@
+/**
+ * @file tests/unit/modules/posts/best-time.test.ts
+ * @description Tests unitaires du « meilleur moment » (utils/best-time.ts).
+ *   Vérifie la fusion des réponses Late, le choix du créneau libre le mieux noté
+ *   sur 7 jours glissants et l'explication affichée dans le compositeur.
+ */
+
+import { describe, expect, it } from 'vitest'
+
+import type { LateBestTimeSlot } from '@/lib/late'
+import { describeBestTime, mergeBestTimeSlots, pickBestTime } from '@/modules/posts/utils/best-time'
+
+// ─── Fixtures ─────────────────────────────────────────────────────────────────
+
+/** Mardi 17h UTC (meilleur), jeudi 12h UTC, dimanche 8h UTC — lundi = 0 */
+const SLOTS: LateBestTimeSlot[] = [
+  { dayOfWeek: 3, hour: 12, avgEngagement: 3.1, postCount: 8 },
+  { dayOfWeek: 1, hour: 17, avgEngagement: 4.2, postCount: 12 },
+  { dayOfWeek: 6, hour: 8, avgEngagement: 1.5, postCount: 3 },
+]
+
+/** Lundi 2 mars 2026 09:00 UTC */
+const MONDAY_MORNING = new Date('2026-03-02T09:00:00Z')
+
+// ─── mergeBestTimeSlots ───────────────────────────────────────────────────────
+
+describe('mergeBestTimeSlots', () => {
+  it('fusionne les créneaux identiques avec une moyenne pondérée', () => {
+    const slots = mergeBestTimeSlots([
+      { slots: [{ day_of_week: 1, hour: 17, avg_engagement: 2, post_count: 1 }] },
+      { slots: [{ dayOfWeek: 1, hour: 17, avgEngagement: 5, postCount: 3 }] },
+    ])
+    expect(slots).toEqual([{ dayOfWeek: 1, hour: 17, avgEngagement: 4.25, postCount: 4 }])
+  })
+
+  it('ignore les réponses sans créneaux', () => {
+    expect(mergeBestTimeSlots([null, {}, { slots: 'invalide' }])).toEqual([])
+  })
+})
+
+// ─── pickBestTime ─────────────────────────────────────────────────────────────
+
+describe('pickBestTime', () => {
+  it('retient la prochaine occurrence du créneau le mieux noté', () => {
+    const choice = pickBestTime(SLOTS, MONDAY_MORNING, [])
+    expect(choice?.scheduledFor.toISOString()).toBe('2026-03-03T17:00:00.000Z')
+    expect(choice?.rank).toBe(1)
+    expect(choice?.skipped).toBe(0)
+  })
+
+  it('passe au créneau suivant quand l\'heure est déjà prise', () => {
+    const choice = pickBestTime(SLOTS, MONDAY_MORNING, [new Date('2026-03-03T17:30:00Z')])
+    expect(choice?.scheduledFor.toISOString()).toBe('2026-03-05T12:00:00.000Z')
+    expect(choice?.rank).toBe(2)
+    expect(choice?.skipped).toBe(1)
+  })
+
+  it('reporte à la semaine suivante un créneau déjà passé', () => {
+    // Mardi 17:58 UTC : le créneau de 17h est passé
+    const choice = pickBestTime(SLOTS, new Date('2026-03-03T17:58:00Z'), [])
+    expect(choice?.scheduledFor.toISOString()).toBe('2026-03-10T17:00:00.000Z')
+  })
+
+  it('retourne null sans statistiques exploitables', () => {
+    expect(pickBestTime([], MONDAY_MORNING, [])).toBeNull()
+    expect(pickBestTime([{ dayOfWeek: 1, hour: 17, avgEngagement: 0, postCount: 0 }], MONDAY_MORNING, [])).toBeNull()
+  })
+})
+
+// ─── describeBestTime ─────────────────────────────────────────────────────────
+
+describe('describeBestTime', () => {
+  it('explique le créneau dans le fuseau de l\'utilisateur', () => {
+    const choice = pickBestTime(SLOTS, MONDAY_MORNING, [new Date('2026-03-03T17:00:00Z')])!
+    const explanation = describeBestTime(choice, 'Europe/Paris')
+    expect(explanation).toContain('jeudi 13:00')
+    expect(explanation).toContain('2e meilleur créneau')
+    expect(explanation).toContain('le meilleur étant déjà pris')
+  })
+})
@@ -0,0 +1,74 @@
+/**
+ * @file tests/unit/modules/posts/post-groups.test.ts
+ * @description Tests unitaires de groupComposePosts (cartes de campagne dans /compose).
+ *   Vérifie le regroupement par groupId, la conservation de l'ordre serveur
+ *   et l'absence de groupe pour un post isolé.
+ */
+
+import { describe, expect, it } from 'vitest'
+
+import type { Post } from '@/modules/posts/types'
+import { groupComposePosts } from '@/modules/posts/utils/post-groups'
+
+// ─── Fixtures ─────────────────────────────────────────────────────────────────
+
+/** Construit un post minimal (seuls id, platform et groupId importent ici) */
+function makePost(id: string, groupId: string | null, platform = 'instagram'): Post {
+  return {
+    id,
+    userId: 'user_1',
+    text: `Texte ${id}`,
+    platform,
+    connectedPlatformId: null,
+    groupId,
+    seriesId: null,
+    agentSessionId: null,
+    mediaUrls: [],
+    mediaAltTexts: {},
+    threadParts: [],
+    platformOptions: {},
+    scheduledFor: null,
+    publishedAt: null,
+    status: 'DRAFT',
+    approvedAt: null,
+    latePostId: null,
+    platformPostUrl: null,
+    failureReason: null,
+    createdAt: new Date('2026-03-01T10:00:00Z'),
+    updatedAt: new Date('2026-03-01T10:00:00Z'),
+  }
+}
+
+// ─── groupComposePosts ────────────────────────────────────────────────────────
+
+describe('groupComposePosts', () => {
+  it('laisse les posts sans campagne en cartes simples', () => {
+    const a = makePost('a', null)
+    const b = makePost('b', null)
+    expect(groupComposePosts([a, b])).toEqual([
+      { type: 'post', post: a },
+      { type: 'post', post: b },
+    ])
+  })
+
+  it('regroupe les posts d\'une campagne à la position du premier', () => {
+    const a = makePost('a', 'g1', 'instagram')
+    const b = makePost('b', null)
+    const c = makePost('c', 'g1', 'tiktok')
+    expect(groupComposePosts([a, b, c])).toEqual([
+      { type: 'group', groupId: 'g1', posts: [a, c] },
+      { type: 'post', post: b },
+    ])
+  })
+
+  it('ne forme pas de groupe avec un seul post chargé', () => {
+    const a = makePost('a', 'g1')
+    expect(groupComposePosts([a])).toEqual([{ type: 'post', post: a }])
+  })
+
+  it('sépare les campagnes distinctes', () => {
+    const posts = [makePost('a', 'g1'), makePost('b', 'g2'), makePost('c', 'g2'), makePost('d', 'g1')]
+    const items = groupComposePosts(posts)
+    expect(items.map((item) => (item.type === 'group' ? item.groupId : item.post.id))).toEqual(['g1', 'g2'])
+  })
+})
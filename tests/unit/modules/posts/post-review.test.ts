@@ -0,0 +1,68 @@
+/**
+ * @file tests/unit/modules/posts/post-review.test.ts
+ * @description Tests unitaires des règles de validation (utils/post-review.ts).
+ *   Vérifie le blocage de la planification selon le statut, l'approbation et le
+ *   paramètre du workspace, les droits de décision et la détection d'un contenu modifié.
+ */
+
+import { describe, expect, it } from 'vitest'
+
+import { approvalError, hasContentChanged, reviewDecisionError } from '@/modules/posts/utils/post-review'
+
+// ─── approvalError ────────────────────────────────────────────────────────────
+
+describe('approvalError', () => {
+  it('autorise la planification quand la validation n\'est pas exigée', () => {
+    expect(approvalError(null, false)).toBeNull()
+    expect(approvalError({ status: 'DRAFT', approvedAt: null }, false)).toBeNull()
+  })
+
+  it('bloque un post en revue, même sans validation exigée', () => {
+    expect(approvalError({ status: 'PENDING_REVIEW', approvedAt: null }, false)).toContain('en attente de validation')
+  })
+
+  it('exige une approbation quand la validation est activée', () => {
+    expect(approvalError(null, true)).toContain('approuvé')
+    expect(approvalError({ status: 'DRAFT', approvedAt: null }, true)).toContain('approuvé')
+    expect(approvalError({ status: 'DRAFT', approvedAt: new Date('2026-03-02T09:00:00Z') }, true)).toBeNull()
+  })
+})
+
+// ─── reviewDecisionError ──────────────────────────────────────────────────────
+
+describe('reviewDecisionError', () => {
+  it('réserve les décisions aux propriétaires', () => {
+    expect(reviewDecisionError('EDITOR', 'u2', 'u1', 'APPROVED')).toContain('propriétaire')
+    expect(reviewDecisionError('EDITOR', 'u2', 'u1', 'REJECTED')).toContain('propriétaire')
+    expect(reviewDecisionError('VIEWER', 'u2', 'u1', 'APPROVED')).toContain('propriétaire')
+  })
+
+  it('refuse l\'approbation par l\'auteur de la soumission', () => {
+    expect(reviewDecisionError('OWNER', 'u1', 'u1', 'APPROVED')).toContain('soumis')
+    expect(reviewDecisionError('OWNER', 'u1', 'u1', 'REJECTED')).toBeNull()
+  })
+
+  it('autorise un propriétaire qui n\'a pas soumis le post', () => {
+    expect(reviewDecisionError('OWNER', 'u2', 'u1', 'APPROVED')).toBeNull()
+    expect(reviewDecisionError('OWNER', 'u2', null, 'APPROVED')).toBeNull()
+  })
+})
+
+// ─── hasContentChanged ────────────────────────────────────────────────────────
+
+describe('hasContentChanged', () => {
+  const approved = { text: 'Lancement demain', mediaUrls: ['https://cdn/a.jpg', 'https://cdn/b.jpg'] }
+
+  it('ne signale rien pour un contenu identique', () => {
+    expect(hasContentChanged(approved, { ...approved, mediaUrls: [...approved.mediaUrls] })).toBe(false)
+  })
+
+  it('détecte un texte ou des médias modifiés', () => {
+    expect(hasContentChanged(approved, { ...approved, text: 'Lancement aujourd\'hui' })).toBe(true)
+    expect(hasContentChanged(approved, { ...approved, mediaUrls: ['https://cdn/a.jpg'] })).toBe(true)
+  })
+
+  it('tient compte de l\'ordre des médias (carrousel)', () => {
+    expect(hasContentChanged(approved, { ...approved, mediaUrls: ['https://cdn/b.jpg', 'https://cdn/a.jpg'] })).toBe(true)
+  })
+})
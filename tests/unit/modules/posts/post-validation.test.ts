@@ -0,0 +1,129 @@
+/**
+ * @file tests/unit/modules/posts/post-validation.test.ts
+ * @description Tests unitaires de la validation serveur des posts (utils/post-validation.ts).
+ *   Vérifie les violations selon le statut visé (média obligatoire exigé hors
+ *   brouillon), les threads, les violations bloquantes selon le statut, le message
+ *   d'erreur et la correction mécanique de la sortie de l'agent.
+ */
+
+import { describe, expect, it } from 'vitest'
+
+import {
+  blockingViolations,
+  platformViolationsError,
+  repairPostContent,
+  validatePostContent,
+} from '@/modules/posts/utils/post-validation'
+
+// ─── validatePostContent ──────────────────────────────────────────────────────
+
+describe('validatePostContent', () => {
+  it('accepte un contenu conforme', () => {
+    expect(validatePostContent({ platform: 'twitter', text: 'Lancement demain', mediaUrls: [] }, 'SCHEDULED'))
+      .toEqual([])
+  })
+
+  it('retourne des violations structurées', () => {
+    expect(validatePostContent({ platform: 'twitter', text: 'a'.repeat(300), mediaUrls: [] }, 'DRAFT'))
+      .toEqual([expect.objectContaining({ type: 'text_too_long', platform: 'twitter', limit: 280, actual: 300 })])
+  })
+
+  it('n\'exige le média obligatoire que hors brouillon', () => {
+    const content = { platform: 'youtube', text: 'Nouvelle vidéo', mediaUrls: [] }
+    expect(validatePostContent(content, 'DRAFT')).toEqual([])
+    expect(validatePostContent(content, 'FAILED')).toEqual([])
+    expect(validatePostContent(content, 'SCHEDULED').map((violation) => violation.type)).toEqual(['media_required'])
+  })
+
+  it('reconnaît une vidéo malgré la query string', () => {
+    const violations = validatePostContent(
+      { platform: 'google_business', text: 'Promo', mediaUrls: ['https://cdn/clip.mp4?token=abc'] },
+      'DRAFT',
+    )
+    expect(violations.map((violation) => violation.type)).toEqual(['too_many_videos'])
+  })
+
+  it('refuse une plateforme inconnue', () => {
+    expect(validatePostContent({ platform: 'myspace', text: 'Hello', mediaUrls: [] }, 'DRAFT'))
+      .toEqual([expect.objectContaining({ type: 'unknown_platform', platform: 'myspace' })])
+  })
+
+  it('valide chaque partie d\'un thread et refuse les plateformes sans thread', () => {
+    const threadParts = [{ text: 'a'.repeat(281), mediaUrls: [] }]
+
+    expect(validatePostContent({ platform: 'twitter', text: 'Début 1/2', mediaUrls: [], threadParts }, 'DRAFT'))
+      .toEqual([expect.objectContaining({ type: 'text_too_long', message: expect.stringMatching(/^Partie 2 : /) })])
+    expect(validatePostContent({ platform: 'linkedin', text: 'Début', mediaUrls: [], threadParts }, 'DRAFT'))
+      .toEqual([expect.objectContaining({ type: 'thread_not_supported' })])
+  })
+})
+
+// ─── blockingViolations ───────────────────────────────────────────────────────
+
+describe('blockingViolations', () => {
+  it('n\'applique les limites qu\'à la planification', () => {
+    const violations = validatePostContent({ platform: 'twitter', text: 'a'.repeat(300), mediaUrls: [] }, 'DRAFT')
+    expect(blockingViolations(violations, 'DRAFT')).toEqual([])
+    expect(blockingViolations(violations, 'SCHEDULED')).toEqual(violations)
+  })
+
+  it('refuse toujours une plateforme inconnue', () => {
+    const violations = validatePostContent({ platform: 'myspace', text: 'Hello', mediaUrls: [] }, 'DRAFT')
+    expect(blockingViolations(violations, 'DRAFT')).toEqual(violations)
+  })
+})
+
+// ─── platformViolationsError ──────────────────────────────────────────────────
+
+describe('platformViolationsError', () => {
+  it('préfixe les messages du libellé de la plateforme', () => {
+    const violations = validatePostContent({ platform: 'twitter', text: 'a'.repeat(300), mediaUrls: [] }, 'DRAFT')
+    expect(platformViolationsError(violations))
+      .toBe('Contenu non conforme pour X (Twitter) : Texte trop long (300/280 caractères)')
+  })
+})
+
+// ─── repairPostContent ────────────────────────────────────────────────────────
+
+describe('repairPostContent', () => {
+  it('laisse un contenu conforme inchangé', () => {
+    expect(repairPostContent({ platform: 'linkedin', text: 'Bonjour', mediaUrls: ['https://cdn/a.jpg'] }, 'SCHEDULED'))
+      .toEqual({ text: 'Bonjour', mediaUrls: ['https://cdn/a.jpg'], threadParts: [], platformOptions: {}, warnings: [], violations: [] })
+  })
+
+  it('tronque le texte au dernier mot complet', () => {
+    const { text, warnings, violations } = repairPostContent(
+      { platform: 'twitter', text: 'mot '.repeat(100).trim(), mediaUrls: [] },
+      'DRAFT',
+    )
+    expect(text.length).toBeLessThanOrEqual(280)
+    expect(text.endsWith('mot…')).toBe(true)
+    expect(warnings).toEqual(['X (Twitter) : texte tronqué à 280 caractères'])
+    expect(violations).toEqual([])
+  })
+
+  it('retire les médias en trop et les vidéos non supportées', () => {
+    const { mediaUrls, warnings } = repairPostContent({
+      platform: 'google_business',
+      text: 'Promo',
+      mediaUrls: ['https://cdn/a.jpg', 'https://cdn/b.jpg', 'https://cdn/c.mp4'],
+    }, 'DRAFT')
+    expect(mediaUrls).toEqual(['https://cdn/a.jpg'])
+    expect(warnings).toContain('Google Business : 1 photo(s) retirée(s) (max 1)')
+    expect(warnings).toContain('Google Business : 1 vidéo(s) retirée(s) (max 0)')
+  })
+
+  it('garde le type du premier média quand le mixte est interdit', () => {
+    const { mediaUrls } = repairPostContent({
+      platform: 'instagram',
+      text: 'Carrousel',
+      mediaUrls: ['https://cdn/clip.mp4', 'https://cdn/a.jpg'],
+    }, 'DRAFT')
+    expect(mediaUrls).toEqual(['https://cdn/clip.mp4'])
+  })
+
+  it('signale le média obligatoire, non corrigeable', () => {
+    const { violations } = repairPostContent({ platform: 'youtube', text: 'Nouvelle vidéo', mediaUrls: [] }, 'SCHEDULED')
+    expect(violations.map((violation) => violation.type)).toEqual(['media_required'])
+  })
+})
@@ -152,6 +152,12 @@ describe('PostCreateSchema', () => {
     ).toBe(false)
   })
 
+  it('rejette les statuts réservés à la relecture et à la publication', () => {
+    for (const status of ['PENDING_REVIEW', 'PUBLISHED', 'FAILED']) {
+      expect(PostCreateSchema.safeParse({ ...validPost, status }).success).toBe(false)
+    }
+  })
+
   it('accepte une date de planification future', () => {
     const futureDate = new Date()
     futureDate.setDate(futureDate.getDate() + 1) // Demain
@@ -184,6 +190,11 @@ describe('PostUpdateSchema', () => {
     expect(result.success).toBe(true)
   })
 
+  it("n'impose pas de statut par défaut", () => {
+    const result = PostUpdateSchema.safeParse({ id: 'post_abc123' })
+    expect(result.success && result.data.status).toBeUndefined()
+  })
+
   it('rejette un update sans id', () => {
     expect(
       PostUpdateSchema.safeParse({ text: 'Nouveau texte' }).success,
@@ -0,0 +1,94 @@
+/**
+ * @file tests/unit/modules/posts/queue-slots.test.ts
+ * @description Tests unitaires de la file de publication (utils/queue-slots.ts).
+ *   Vérifie le calcul des prochains créneaux libres (fuseau, créneaux occupés)
+ *   et le re-tassement de la file après libération d'un créneau.
+ */
+
+import { describe, expect, it } from 'vitest'
+
+import { packQueue, upcomingSlotTimes } from '@/modules/posts/utils/queue-slots'
+import type { SlotDefinition } from '@/modules/posts/utils/queue-slots'
+
+// ─── Fixtures ─────────────────────────────────────────────────────────────────
+
+/** Instagram mardi et jeudi 18:00 */
+const TUE_THU_6PM: SlotDefinition[] = [
+  { weekday: 2, hour: 18, minute: 0 },
+  { weekday: 4, hour: 18, minute: 0 },
+]
+
+/** Lundi 2 mars 2026 10:00 Paris (UTC+1) */
+const MONDAY_MORNING = new Date('2026-03-02T09:00:00Z')
+
+// ─── upcomingSlotTimes ────────────────────────────────────────────────────────
+
+describe('upcomingSlotTimes', () => {
+  it('retourne les prochains créneaux dans le fuseau de l\'utilisateur', () => {
+    const times = upcomingSlotTimes(TUE_THU_6PM, 'Europe/Paris', MONDAY_MORNING, 3)
+    expect(times.map((t) => t.toISOString())).toEqual([
+      '2026-03-03T17:00:00.000Z',
+      '2026-03-05T17:00:00.000Z',
+      '2026-03-10T17:00:00.000Z',
+    ])
+  })
+
+  it('saute les créneaux déjà occupés', () => {
+    const occupied = new Set([new Date('2026-03-03T17:00:00Z').getTime()])
+    const [next] = upcomingSlotTimes(TUE_THU_6PM, 'Europe/Paris', MONDAY_MORNING, 1, occupied)
+    expect(next?.toISOString()).toBe('2026-03-05T17:00:00.000Z')
+  })
+
+  it('ignore un créneau du jour déjà passé', () => {
+    // Mardi 3 mars 19:00 Paris : le créneau de 18:00 est passé
+    const [next] = upcomingSlotTimes(TUE_THU_6PM, 'Europe/Paris', new Date('2026-03-03T18:00:00Z'), 1)
+    expect(next?.toISOString()).toBe('2026-03-05T17:00:00.000Z')
+  })
+
+  it('retourne une liste vide sans créneau défini', () => {
+    expect(upcomingSlotTimes([], 'Europe/Paris', MONDAY_MORNING, 1)).toEqual([])
+  })
+})
+
+// ─── packQueue ────────────────────────────────────────────────────────────────
+
+describe('packQueue', () => {
+  it('avance les posts suivants dans le créneau libéré', () => {
+    // Le post du mardi 3 a été supprimé : ceux du jeudi 5 et du mardi 10 avancent
+    const moves = packQueue(
+      [
+        { id: 'b', scheduledFor: new Date('2026-03-10T17:00:00Z') },
+        { id: 'a', scheduledFor: new Date('2026-03-05T17:00:00Z') },
+      ],
+      TUE_THU_6PM,
+      'Europe/Paris',
+      MONDAY_MORNING,
+    )
+    expect(moves).toEqual([
+      { id: 'a', scheduledFor: new Date('2026-03-03T17:00:00Z') },
+      { id: 'b', scheduledFor: new Date('2026-03-05T17:00:00Z') },
+    ])
+  })
+
+  it('ne déplace rien quand la file est déjà tassée', () => {
+    const moves = packQueue(
+      [{ id: 'a', scheduledFor: new Date('2026-03-03T17:00:00Z') }],
+      TUE_THU_6PM,
+      'Europe/Paris',
+      MONDAY_MORNING,
+    )
+    expect(moves).toEqual([])
+  })
+
+  it('contourne les créneaux pris par des posts planifiés à la main', () => {
+    const occupied = new Set([new Date('2026-03-03T17:00:00Z').getTime()])
+    const moves = packQueue(
+      [{ id: 'a', scheduledFor: new Date('2026-03-10T17:00:00Z') }],
+      TUE_THU_6PM,
+      'Europe/Paris',
+      MONDAY_MORNING,
+      occupied,
+    )
+    expect(moves).toEqual([{ id: 'a', scheduledFor: new Date('2026-03-05T17:00:00Z') }])
+  })
+})
@@ -0,0 +1,164 @@
+/**
+ * @file tests/unit/modules/posts/recurrence.test.ts
+ * @description Tests unitaires du calcul des séries récurrentes (utils/recurrence.ts).
+ *   Vérifie l'occurrence suivante (hebdo, mensuelle, changement d'heure),
+ *   les occurrences ignorées, les libellés et la projection sur le calendrier.
+ */
+
+import { describe, expect, it } from 'vitest'
+
+import { RecurrenceRuleSchema } from '@/modules/posts/schemas/post.schema'
+import type { RecurrenceRule } from '@/modules/posts/types'
+import {
+  buildRecurrenceRule,
+  describeRecurrence,
+  listOccurrences,
+  nextOccurrence,
+  projectSeriesOccurrences,
+} from '@/modules/posts/utils/recurrence'
+
+// ─── Fixtures ─────────────────────────────────────────────────────────────────
+
+/** Chaque lundi à 09:00, heure de Paris */
+const MONDAY_9AM: RecurrenceRule = {
+  frequency: 'WEEKLY',
+  weekdays: [1],
+  hour: 9,
+  minute: 0,
+  timezone: 'Europe/Paris',
+}
+
+// ─── nextOccurrence ───────────────────────────────────────────────────────────
+
+describe('nextOccurrence', () => {
+  it('retourne le lundi suivant (strictement après la référence)', () => {
+    // Lundi 2 mars 2026 09:00 Paris = 08:00 UTC
+    const next = nextOccurrence(MONDAY_9AM, new Date('2026-03-02T08:00:00Z'))
+    expect(next?.toISOString()).toBe('2026-03-09T08:00:00.000Z')
+  })
+
+  it('conserve l\'heure locale après le passage à l\'heure d\'été', () => {
+    // Dimanche 29 mars 2026 : Paris passe en UTC+2 → 09:00 locales = 07:00 UTC
+    const next = nextOccurrence(MONDAY_9AM, new Date('2026-03-23T08:00:00Z'))
+    expect(next?.toISOString()).toBe('2026-03-30T07:00:00.000Z')
+  })
+
+  it('saute les occurrences ignorées sans interrompre la série', () => {
+    const next = nextOccurrence(
+      MONDAY_9AM,
+      new Date('2026-03-02T08:00:00Z'),
+      ['2026-03-09T08:00:00.000Z'],
+    )
+    expect(next?.toISOString()).toBe('2026-03-16T08:00:00.000Z')
+  })
+
+  it('ramène le 31 au dernier jour des mois plus courts', () => {
+    const rule: RecurrenceRule = {
+      frequency: 'MONTHLY',
+      weekdays: [],
+      monthDay: 31,
+      hour: 10,
+      minute: 0,
+      timezone: 'UTC',
+    }
+    const next = nextOccurrence(rule, new Date('2026-01-31T10:00:00Z'))
+    expect(next?.toISOString()).toBe('2026-02-28T10:00:00.000Z')
+  })
+})
+
+// ─── listOccurrences ──────────────────────────────────────────────────────────
+
+describe('listOccurrences', () => {
+  it('liste les occurrences quotidiennes de l\'intervalle ]from, to]', () => {
+    const rule = buildRecurrenceRule('DAILY', new Date('2026-03-02T08:00:00Z'), 'UTC')
+    const dates = listOccurrences(rule, new Date('2026-03-02T08:00:00Z'), new Date('2026-03-05T08:00:00Z'))
+    expect(dates.map((d) => d.toISOString())).toEqual([
+      '2026-03-03T08:00:00.000Z',
+      '2026-03-04T08:00:00.000Z',
+      '2026-03-05T08:00:00.000Z',
+    ])
+  })
+})
+
+// ─── buildRecurrenceRule / describeRecurrence ─────────────────────────────────
+
+describe('buildRecurrenceRule', () => {
+  it('reprend heure, jour de semaine et jour du mois dans le fuseau de l\'utilisateur', () => {
+    // 23:30 UTC le dimanche 1er mars = lundi 2 mars 00:30 à Paris
+    const first = new Date('2026-03-01T23:30:00Z')
+    expect(buildRecurrenceRule('WEEKLY', first, 'Europe/Paris')).toMatchObject({
+      weekdays: [1],
+      hour: 0,
+      minute: 30,
+    })
+    expect(buildRecurrenceRule('MONTHLY', first, 'Europe/Paris').monthDay).toBe(2)
+  })
+
+  it('produit une règle valide pour RecurrenceRuleSchema', () => {
+    const rule = buildRecurrenceRule('WEEKLY', new Date('2026-03-02T08:00:00Z'), 'Europe/Paris', [4, 1])
+    expect(RecurrenceRuleSchema.safeParse(rule).success).toBe(true)
+    expect(rule.weekdays).toEqual([1, 4])
+  })
+})
+
+describe('describeRecurrence', () => {
+  it('décrit chaque fréquence en français', () => {
+    expect(describeRecurrence({ ...MONDAY_9AM, frequency: 'DAILY', weekdays: [] })).toBe(
+      'Tous les jours à 09:00',
+    )
+    expect(describeRecurrence({ ...MONDAY_9AM, weekdays: [0, 4, 1], minute: 30 })).toBe(
+      'Chaque lundi, jeudi, dimanche à 09:30',
+    )
+    expect(describeRecurrence({ ...MONDAY_9AM, frequency: 'MONTHLY', weekdays: [], monthDay: 1 })).toBe(
+      'Le 1er de chaque mois à 09:00',
+    )
+  })
+})
+
+// ─── RecurrenceRuleSchema ─────────────────────────────────────────────────────
+
+describe('RecurrenceRuleSchema', () => {
+  it('refuse une règle hebdomadaire sans jour', () => {
+    expect(RecurrenceRuleSchema.safeParse({ ...MONDAY_9AM, weekdays: [] }).success).toBe(false)
+  })
+
+  it('refuse un fuseau inconnu', () => {
+    expect(RecurrenceRuleSchema.safeParse({ ...MONDAY_9AM, timezone: 'Mars/Olympus' }).success).toBe(false)
+  })
+})
+
+// ─── projectSeriesOccurrences ─────────────────────────────────────────────────
+
+describe('projectSeriesOccurrences', () => {
+  const series = {
+    id: 'series_1',
+    rule: MONDAY_9AM,
+    skipDates: [],
+    platforms: ['instagram'],
+    lastScheduledFor: new Date('2026-03-09T08:00:00Z'),
+  }
+
+  it('ne projette que les occurrences postérieures à la dernière occurrence en base', () => {
+    const projected = projectSeriesOccurrences(
+      [series],
+      new Date('2026-03-01T00:00:00Z'),
+      new Date('2026-03-31T00:00:00Z'),
+      new Date('2026-03-03T00:00:00Z'),
+    )
+    expect(projected.map((p) => p.occurrence.toISOString())).toEqual([
+      '2026-03-16T08:00:00.000Z',
+      '2026-03-23T08:00:00.000Z',
+      '2026-03-30T07:00:00.000Z',
+    ])
+    expect(projected[0]).toMatchObject({ seriesId: 'series_1', label: 'Chaque lundi à 09:00' })
+  })
+
+  it('ignore une série jamais planifiée', () => {
+    const projected = projectSeriesOccurrences(
+      [{ ...series, lastScheduledFor: null }],
+      new Date('2026-03-01T00:00:00Z'),
+      new Date('2026-03-31T00:00:00Z'),
+    )
+    expect(projected).toEqual([])
+  })
+})
@@ -0,0 +1,66 @@
+/**
+ * @file tests/unit/modules/posts/revision-diff.test.ts
+ * @description Tests unitaires du diff mot à mot des révisions (utils/revision-diff.ts).
+ *   Vérifie ajouts, suppressions, remplacements, la conservation des blancs et
+ *   la reconstruction des deux textes depuis les segments.
+ */
+
+import { describe, expect, it } from 'vitest'
+
+import { diffWords } from '@/modules/posts/utils/revision-diff'
+import type { WordDiffSegment } from '@/modules/posts/utils/revision-diff'
+
+// ─── Helpers ──────────────────────────────────────────────────────────────────
+
+/** Texte reconstruit côté « avant » (equal + removed) ou « après » (equal + added) */
+function rebuild(segments: WordDiffSegment[], side: 'before' | 'after'): string {
+  const hidden = side === 'before' ? 'added' : 'removed'
+  return segments.filter((s) => s.type !== hidden).map((s) => s.text).join('')
+}
+
+// ─── diffWords ────────────────────────────────────────────────────────────────
+
+describe('diffWords', () => {
+  it('textes identiques : un seul segment inchangé', () => {
+    expect(diffWords('Bonjour le monde', 'Bonjour le monde')).toEqual([
+      { type: 'equal', text: 'Bonjour le monde' },
+    ])
+  })
+
+  it('détecte un mot ajouté', () => {
+    expect(diffWords('Bonjour le monde', 'Bonjour tout le monde')).toEqual([
+      { type: 'equal', text: 'Bonjour ' },
+      { type: 'added', text: 'tout ' },
+      { type: 'equal', text: 'le monde' },
+    ])
+  })
+
+  it('détecte un mot supprimé', () => {
+    expect(diffWords('Nouvelle collection disponible', 'Collection disponible')).toEqual([
+      { type: 'removed', text: 'Nouvelle collection' },
+      { type: 'added', text: 'Collection' },
+      { type: 'equal', text: ' disponible' },
+    ])
+  })
+
+  it('un remplacement affiche le mot barré avant le nouveau', () => {
+    expect(diffWords('Rendez-vous lundi à 9h', 'Rendez-vous mardi à 9h')).toEqual([
+      { type: 'equal', text: 'Rendez-vous ' },
+      { type: 'removed', text: 'lundi' },
+      { type: 'added', text: 'mardi' },
+      { type: 'equal', text: ' à 9h' },
+    ])
+  })
+
+  it('conserve les retours à la ligne et permet de reconstruire les deux textes', () => {
+    const before = 'Lancement demain\n\n#mode #collection'
+    const after = 'Lancement aujourd\'hui !\n\n#mode #collection #été'
+    const segments = diffWords(before, after)
+    expect(rebuild(segments, 'before')).toBe(before)
+    expect(rebuild(segments, 'after')).toBe(after)
+  })
+
+  it('texte vide → tout est ajouté', () => {
+    expect(diffWords('', 'Bonjour')).toEqual([{ type: 'added', text: 'Bonjour' }])
+  })
+})
@@ -0,0 +1,49 @@
+/**
+ * @file tests/unit/modules/posts/thread.test.ts
+ * @description Tests unitaires des threads (utils/thread.ts) : découpage d'un texte
+ *   long aux limites de mots avec numérotation, et lecture de la colonne JSON.
+ */
+
+import { describe, expect, it } from 'vitest'
+
+import { normalizeThreadParts, splitIntoThread } from '@/modules/posts/utils/thread'
+
+// ─── splitIntoThread ──────────────────────────────────────────────────────────
+
+describe('splitIntoThread', () => {
+  it('garde un texte court en un seul segment', () => {
+    expect(splitIntoThread('  Lancement demain  ', 280)).toEqual(['Lancement demain'])
+    expect(splitIntoThread('   ', 280)).toEqual([])
+  })
+
+  it('coupe aux limites de mots et numérote dans la limite', () => {
+    const text = Array.from({ length: 60 }, (_, i) => `mot${i}`).join(' ')
+    const parts = splitIntoThread(text, 50)
+
+    expect(parts.length).toBeGreaterThan(1)
+    parts.forEach((part, i) => {
+      expect(part.length).toBeLessThanOrEqual(50)
+      expect(part.endsWith(` ${i + 1}/${parts.length}`)).toBe(true)
+    })
+    // Aucun mot coupé : le texte se reconstitue sans les numéros
+    expect(parts.map((part) => part.replace(/ \d+\/\d+$/, '')).join(' ')).toBe(text)
+  })
+
+  it('coupe net un mot plus long qu\'un segment, sans numérotation si demandé', () => {
+    expect(splitIntoThread('abcdefghij klm', 4, { numbering: false }))
+      .toEqual(['abcd', 'efgh', 'ij', 'klm'])
+  })
+})
+
+// ─── normalizeThreadParts ─────────────────────────────────────────────────────
+
+describe('normalizeThreadParts', () => {
+  it('retire les segments vides et les valeurs invalides', () => {
+    expect(normalizeThreadParts([
+      { text: ' Suite ', mediaUrls: ['https://cdn/a.jpg', 3] },
+      { text: '', mediaUrls: [] },
+      'texte',
+    ])).toEqual([{ text: 'Suite', mediaUrls: ['https://cdn/a.jpg'] }])
+    expect(normalizeThreadParts(null)).toEqual([])
+  })
+})
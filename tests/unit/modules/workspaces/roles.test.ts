@@ -0,0 +1,81 @@
+/**
+ * @file tests/unit/modules/workspaces/roles.test.ts
+ * @description Tests unitaires des règles d'accès par rôle (utils/roles.ts).
+ *   Vérifie la hiérarchie OWNER > EDITOR > VIEWER, la règle du dernier propriétaire
+ *   et la validation d'une invitation (token, expiration, adresse).
+ */
+
+import { describe, expect, it } from 'vitest'
+
+import {
+  hasWorkspaceRole,
+  invitationError,
+  memberChangeError,
+  workspaceRoleError,
+} from '@/modules/workspaces/utils/roles'
+
+// ─── hasWorkspaceRole / workspaceRoleError ────────────────────────────────────
+
+describe('hasWorkspaceRole', () => {
+  it('un rôle inclut les droits des rôles inférieurs', () => {
+    expect(hasWorkspaceRole('OWNER', 'EDITOR')).toBe(true)
+    expect(hasWorkspaceRole('EDITOR', 'EDITOR')).toBe(true)
+    expect(hasWorkspaceRole('EDITOR', 'VIEWER')).toBe(true)
+  })
+
+  it('refuse un rôle insuffisant', () => {
+    expect(hasWorkspaceRole('VIEWER', 'EDITOR')).toBe(false)
+    expect(hasWorkspaceRole('EDITOR', 'OWNER')).toBe(false)
+  })
+})
+
+describe('workspaceRoleError', () => {
+  it('retourne null quand l\'action est autorisée', () => {
+    expect(workspaceRoleError('OWNER', 'OWNER')).toBeNull()
+  })
+
+  it('explique le refus selon le rôle requis', () => {
+    expect(workspaceRoleError('VIEWER', 'EDITOR')).toContain('lecture seule')
+    expect(workspaceRoleError('EDITOR', 'OWNER')).toContain('propriétaire')
+  })
+})
+
+// ─── memberChangeError ────────────────────────────────────────────────────────
+
+describe('memberChangeError', () => {
+  it('garde au moins un propriétaire', () => {
+    expect(memberChangeError('OWNER', 'EDITOR', 1)).toContain('au moins un propriétaire')
+    expect(memberChangeError('OWNER', null, 1)).toContain('au moins un propriétaire')
+  })
+
+  it('autorise le changement quand un autre propriétaire reste', () => {
+    expect(memberChangeError('OWNER', 'VIEWER', 2)).toBeNull()
+    expect(memberChangeError('OWNER', 'OWNER', 1)).toBeNull()
+    expect(memberChangeError('EDITOR', null, 1)).toBeNull()
+  })
+})
+
+// ─── invitationError ──────────────────────────────────────────────────────────
+
+describe('invitationError', () => {
+  const now = new Date('2026-03-10T12:00:00Z')
+  const invitation = {
+    email: 'alice@studio.fr',
+    expiresAt: new Date('2026-03-17T12:00:00Z'),
+    acceptedAt: null,
+  }
+
+  it('accepte une invitation valide, sans tenir compte de la casse de l\'email', () => {
+    expect(invitationError(invitation, 'Alice@Studio.fr', now)).toBeNull()
+  })
+
+  it('refuse un token inconnu, une invitation acceptée ou expirée', () => {
+    expect(invitationError(null, 'alice@studio.fr', now)).toContain('introuvable')
+    expect(invitationError({ ...invitation, acceptedAt: now }, 'alice@studio.fr', now)).toContain('déjà été acceptée')
+    expect(invitationError(invitation, 'alice@studio.fr', new Date('2026-03-18T00:00:00Z'))).toContain('expiré')
+  })
+
+  it('refuse une autre adresse que celle invitée', () => {
+    expect(invitationError(invitation, 'bob@studio.fr', now)).toContain('alice@studio.fr')
+  })
+})